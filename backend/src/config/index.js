@@ -1,34 +0,0 @@
-require('dotenv').config();
-
-module.exports = {
-  port: process.env.PORT || 8000,
-  nodeEnv: process.env.NODE_ENV || 'development',
-
-  supabase: {
-    url: process.env.SUPABASE_URL,
-    anonKey: process.env.SUPABASE_ANON_KEY,
-    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
-  },
-
-  jwt: {
-    secret: process.env.JWT_SECRET,
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
-  },
-
-  email: {
-    resendApiKey: process.env.RESEND_API_KEY,
-    from: process.env.EMAIL_FROM || 'QualitySync <onboarding@resend.dev>',
-  },
-
-  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
-
-  // Support multiple origins (comma-separated)
-  allowedOrigins: (process.env.ALLOWED_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:5173')
-    .split(',')
-    .map(origin => origin.trim()),
-
-  rateLimit: {
-    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000,
-    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS) || 100,
-  },
-};
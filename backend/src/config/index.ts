@@ -0,0 +1,117 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import type { Permission, UserRole } from '../types';
+
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+// Whole number from the environment, or the fallback when unset or invalid
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] ?? '', 10) || fallback;
+
+export default {
+  port: process.env.PORT || 8000,
+  nodeEnv: process.env.NODE_ENV || 'development',
+
+  supabase: {
+    url: process.env.SUPABASE_URL,
+    anonKey: process.env.SUPABASE_ANON_KEY,
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+  },
+
+  database: {
+    // Where data is stored: 'supabase' or 'postgres'
+    driver: process.env.DB_DRIVER || 'supabase',
+    // Connection string used by the postgres driver
+    url: process.env.DATABASE_URL,
+    // Connections the postgres driver keeps open at most
+    poolSize: envInt('DB_POOL_SIZE', 10),
+  },
+
+  jwt: {
+    secret: process.env.JWT_SECRET ?? '',
+    // Access tokens are short-lived and renewed with the refresh token
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  },
+
+  session: {
+    // A session ends when its refresh token goes unused this long
+    refreshExpiresInDays: envInt('REFRESH_TOKEN_EXPIRES_DAYS', 30),
+  },
+
+  lockout: {
+    // Failed sign-in attempts in a row before an account is locked
+    threshold: envInt('LOCKOUT_THRESHOLD', 5),
+    // The first lock lasts this long and doubles with each further failure
+    baseMinutes: envInt('LOCKOUT_BASE_MINUTES', 5),
+    maxMinutes: envInt('LOCKOUT_MAX_MINUTES', 24 * 60),
+  },
+
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'QualitySync',
+    // Roles whose users must set up two-factor authentication before using
+    // permission-restricted routes, as base roles (PM, QA, ENG) or role ids
+    // (comma-separated, empty for none)
+    requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'PM')
+      .split(',')
+      .map(role => role.trim())
+      .filter(Boolean),
+    // Users whose role has any of these permissions must set it up too,
+    // whichever role grants them (comma-separated, empty for none)
+    requiredPermissions: (process.env.TWO_FACTOR_REQUIRED_PERMISSIONS ?? 'users.manage,roles.manage,projects.manage')
+      .split(',')
+      .map(permission => permission.trim())
+      .filter(Boolean) as Permission[],
+    // Key TOTP secrets are encrypted with, JWT_SECRET when not set
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
+    // Exempt single sign-on sessions from the requirement, for identity
+    // providers that enforce their own second factor. Users who enabled
+    // two-factor authentication are still asked for a code.
+    trustSso: process.env.TWO_FACTOR_TRUST_SSO === 'true',
+  },
+
+  sso: {
+    // OpenID Connect login is offered when an issuer is configured
+    issuerUrl: process.env.SSO_ISSUER_URL,
+    clientId: process.env.SSO_CLIENT_ID,
+    clientSecret: process.env.SSO_CLIENT_SECRET,
+    redirectUri: process.env.SSO_REDIRECT_URI || `http://localhost:${process.env.PORT || 8000}/api/auth/sso/callback`,
+    displayName: process.env.SSO_DISPLAY_NAME || 'SSO',
+    // Create users on their first sign-in instead of requiring an invite
+    autoProvision: process.env.SSO_AUTO_PROVISION !== 'false',
+    // Claim holding the user's groups, mapped to a role on provisioning
+    groupsClaim: process.env.SSO_GROUPS_CLAIM || 'groups',
+    // Comma-separated group=ROLE pairs, the first matching pair wins
+    roleMapping: (process.env.SSO_ROLE_MAPPING || '')
+      .split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([group, role]) => group && ['PM', 'QA', 'ENG'].includes(role))
+      .map(([group, role]) => ({ group, role: role as UserRole })),
+    defaultRole: (process.env.SSO_DEFAULT_ROLE || 'QA') as UserRole,
+  },
+
+  email: {
+    resendApiKey: process.env.RESEND_API_KEY,
+    from: process.env.EMAIL_FROM || 'QualitySync <onboarding@resend.dev>',
+  },
+
+  invitations: {
+    // Invitation links stop working after this many days
+    expiresInDays: envInt('INVITATION_EXPIRES_DAYS', 7),
+  },
+
+  ci: {
+    // Service account automated test results are recorded as
+    serviceAccountEmail: process.env.CI_SERVICE_ACCOUNT_EMAIL || 'ci@qualitysync.local',
+  },
+
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+
+  // Support multiple origins (comma-separated)
+  allowedOrigins: (process.env.ALLOWED_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:5173')
+    .split(',')
+    .map(origin => origin.trim()),
+
+  rateLimit: {
+    windowMs: envInt('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000),
+    maxRequests: envInt('RATE_LIMIT_MAX_REQUESTS', 100),
+  },
+};
@@ -0,0 +1,69 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import config from './index';
+
+let validated = false;
+
+// Validate required Supabase configuration
+function requireConfig() {
+  const { url, anonKey, serviceRoleKey } = config.supabase;
+
+  if (!url) {
+    console.error('ERROR: SUPABASE_URL is not set');
+    throw new Error('SUPABASE_URL environment variable is required');
+  }
+
+  if (!anonKey) {
+    console.error('ERROR: SUPABASE_ANON_KEY is not set');
+    throw new Error('SUPABASE_ANON_KEY environment variable is required');
+  }
+
+  if (!serviceRoleKey) {
+    console.error('ERROR: SUPABASE_SERVICE_ROLE_KEY is not set');
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY environment variable is required');
+  }
+
+  if (!validated) {
+    console.log('Supabase configuration validated successfully');
+    console.log(`Supabase URL: ${url}`);
+    console.log(`Service Role Key present: ${serviceRoleKey ? 'Yes' : 'No'}`);
+    validated = true;
+  }
+
+  return { url, anonKey, serviceRoleKey };
+}
+
+/**
+ * Create the client on first use, so the server can start without the
+ * SUPABASE_* settings when DB_DRIVER is postgres. Anything that still reads
+ * through Supabase then fails with the missing setting.
+ */
+function lazyClient(create: () => SupabaseClient): SupabaseClient {
+  let client: SupabaseClient | undefined;
+
+  return new Proxy({} as SupabaseClient, {
+    get(_target, prop) {
+      client ??= create();
+      const value = Reflect.get(client, prop);
+      return typeof value === 'function' ? value.bind(client) : value;
+    },
+  });
+}
+
+// Client for regular operations (respects RLS)
+const supabase = lazyClient(() => {
+  const { url, anonKey } = requireConfig();
+  return createClient(url, anonKey);
+});
+
+// Admin client for operations that bypass RLS (user creation, etc.)
+const supabaseAdmin = lazyClient(() => {
+  const { url, serviceRoleKey } = requireConfig();
+  return createClient(url, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+});
+
+export { supabase, supabaseAdmin };
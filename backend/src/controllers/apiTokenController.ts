@@ -0,0 +1,154 @@
+import { userRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as apiTokenService from '../services/apiTokenService';
+import * as auditService from '../services/auditService';
+import * as permissionService from '../services/permissionService';
+import logger from '../utils/logger';
+import type { ApiTokenOwnerQuery, AuthenticatedRequest, CreateApiTokenBody } from '../types';
+
+/**
+ * Whose tokens a request manages: the caller's own, or those of a service
+ * account when a user manager names one
+ */
+const resolveTokenOwner = async (req: AuthenticatedRequest, userId?: string) => {
+  if (!userId || userId === req.user.id) {
+    return req.user;
+  }
+
+  if (!permissionService.hasPermission(req.user, 'users.manage')) {
+    throw new ApiError(403, 'You can only manage your own API tokens');
+  }
+
+  const owner = await userRepository.findById(userId, { fields: 'id, name, email, role, is_service_account' });
+
+  if (!owner) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  if (!owner.is_service_account) {
+    throw new ApiError(403, 'Tokens of other users can only be managed for service accounts');
+  }
+
+  return owner;
+};
+
+/**
+ * @desc    List API tokens
+ * @route   GET /api/tokens?user_id=
+ * @access  Private (own tokens; users.manage for service accounts)
+ */
+const getTokens = asyncHandler(async (req: AuthenticatedRequest<unknown, ApiTokenOwnerQuery>, res) => {
+  const owner = await resolveTokenOwner(req, req.query.user_id);
+
+  let tokens;
+  try {
+    tokens = await apiTokenService.getTokens(owner.id);
+  } catch (tokenError) {
+    throw new ApiError(500, (tokenError as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { tokens },
+  });
+});
+
+/**
+ * @desc    Create an API token
+ * @route   POST /api/tokens
+ * @access  Private (own tokens; users.manage for service accounts)
+ *
+ * The token is only returned in this response; afterwards it is only
+ * known by its prefix.
+ */
+const createToken = asyncHandler(async (req: AuthenticatedRequest<CreateApiTokenBody>, res) => {
+  const { name, scopes, expires_in_days, user_id } = req.body;
+  const owner = await resolveTokenOwner(req, user_id);
+
+  const expiresAt = expires_in_days
+    ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  let created;
+  try {
+    created = await apiTokenService.createToken({
+      userId: owner.id,
+      name,
+      scopes,
+      expiresAt,
+      createdBy: req.user.id,
+    });
+  } catch (tokenError) {
+    throw new ApiError(500, (tokenError as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'api_token',
+    entityId: created.record.id,
+    after: created.record,
+  });
+
+  logger.info('API token created', { tokenId: created.record.id, userId: owner.id, scopes: created.record.scopes, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'API token created. Copy it now, it will not be shown again.',
+    data: { token: created.token, api_token: created.record },
+  });
+});
+
+/**
+ * @desc    Revoke an API token
+ * @route   DELETE /api/tokens/:id
+ * @access  Private (own tokens; users.manage for service accounts)
+ */
+const revokeToken = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  let existing;
+  try {
+    existing = await apiTokenService.getToken(id);
+  } catch (tokenError) {
+    throw new ApiError(500, (tokenError as Error).message);
+  }
+
+  if (!existing) {
+    throw new ApiError(404, 'API token not found');
+  }
+
+  await resolveTokenOwner(req, existing.user_id);
+
+  let revoked;
+  try {
+    revoked = await apiTokenService.revokeToken(id);
+  } catch (tokenError) {
+    throw new ApiError(500, (tokenError as Error).message);
+  }
+
+  if (!revoked) {
+    throw new ApiError(400, 'API token is already revoked');
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'api_token',
+    entityId: id,
+    before: existing,
+    after: revoked,
+  });
+
+  logger.info('API token revoked', { tokenId: id, userId: existing.user_id, revokedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'API token revoked',
+    data: { api_token: revoked },
+  });
+});
+
+export {
+  getTokens,
+  createToken,
+  revokeToken,
+};
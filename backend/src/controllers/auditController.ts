@@ -0,0 +1,50 @@
+import { auditRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import type { AuditListQuery, ValidatedRequest } from '../types';
+
+/**
+ * @desc    Get audit events (with pagination and filters)
+ * @route   GET /api/audit
+ * @access  Private (audit.view)
+ */
+const getAuditEvents = asyncHandler(async (req: ValidatedRequest<unknown, AuditListQuery>, res) => {
+  const page = req.query.page || 1;
+  const limit = req.query.limit || 25;
+  const offset = (page - 1) * limit;
+  const { action, entity_type, entity_id, actor_id, request_id, from, to } = req.query;
+
+  const { rows: events, total: count } = await auditRepository.findPage({
+    action,
+    entityType: entity_type,
+    entityId: entity_id,
+    actorId: actor_id,
+    requestId: request_id,
+    from,
+    to,
+  }, {
+    fields: 'id, action, entity_type, entity_id, changes, request_id, created_at, actor_id, actor_name, actor_role',
+    with: ['actor'],
+    sort: 'created_at',
+    offset,
+    limit,
+  }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch audit events');
+  });
+
+  res.json({
+    success: true,
+    data: {
+      events,
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    },
+  });
+});
+
+export {
+  getAuditEvents,
+};
@@ -0,0 +1,926 @@
+import argon2 from 'argon2';
+import type { CookieOptions, Response } from 'express';
+import jwt, { type JwtPayload, type SignOptions } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { userRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as emailService from '../services/emailService';
+import * as invitationService from '../services/invitationService';
+import * as loginSecurityService from '../services/loginSecurityService';
+import * as permissionService from '../services/permissionService';
+import * as sessionService from '../services/sessionService';
+import * as ssoService from '../services/ssoService';
+import * as twoFactorService from '../services/twoFactorService';
+import logger from '../utils/logger';
+import { NO_PASSWORD, verifyPassword } from '../utils/password';
+import type { AuthorizationChecks } from '../services/ssoService';
+import type {
+  AcceptInvitationBody,
+  AuthMethod,
+  AuthenticatedRequest,
+  ChangePasswordBody,
+  EmailBody,
+  LoginBody,
+  LoginTwoFactorBody,
+  RegisterBody,
+  ResetPasswordBody,
+  SessionUser,
+  SsoCallbackQuery,
+  User,
+  ValidatedRequest,
+  VerifyEmailBody,
+} from '../types';
+
+// Claims of the token exchanged for a session once the second factor is checked
+interface TwoFactorChallengePayload extends JwtPayload {
+  userId: string;
+  purpose: string;
+  // How the first factor was checked, password when missing
+  authMethod?: AuthMethod;
+}
+
+// Claims of the single sign-on state cookie
+interface SsoStatePayload extends JwtPayload, AuthorizationChecks {
+  purpose: string;
+}
+
+// The refresh token cookie is only sent to the auth routes
+const REFRESH_COOKIE = 'qs_refresh';
+
+const refreshCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: config.nodeEnv === 'production',
+  // The frontend is served from another origin in production
+  sameSite: config.nodeEnv === 'production' ? 'none' : 'lax',
+  path: '/api/auth',
+};
+
+/**
+ * Generate a short-lived JWT access token for a session
+ */
+const generateToken = (userId: string, sessionId: string) => {
+  return jwt.sign({ userId, sessionId }, config.jwt.secret, {
+    expiresIn: config.jwt.expiresIn as SignOptions['expiresIn'],
+  });
+};
+
+// Holds the state, nonce and PKCE verifier of a single sign-on attempt
+// until the identity provider redirects back. Lax so the redirect sends it.
+const SSO_STATE_COOKIE = 'qs_sso';
+const SSO_STATE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+const ssoStateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: config.nodeEnv === 'production',
+  sameSite: 'lax',
+  path: '/api/auth/sso',
+};
+
+// Time allowed between the password and the second factor at sign-in
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+/**
+ * Token proving the password was checked, exchanged for a session once the
+ * second factor is. It has no session, so it is not an access token.
+ */
+const generateTwoFactorChallenge = (userId: string, authMethod: AuthMethod = 'password') => {
+  return jwt.sign({ userId, purpose: 'two_factor', authMethod }, config.jwt.secret, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  });
+};
+
+/**
+ * The user as returned to the client after signing in
+ */
+const toAuthUser = async (user: SessionUser, authMethod: AuthMethod = 'password'): Promise<User> => {
+  const permissions = await permissionService.getRolePermissions(user.role_id);
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    permissions,
+    is_verified: user.is_verified,
+    two_factor_enabled: user.two_factor_enabled,
+    two_factor_required: twoFactorService.isRequiredFor({ ...user, permissions }, { authMethod }),
+  };
+};
+
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: config.session.refreshExpiresInDays * 24 * 60 * 60 * 1000,
+  });
+};
+
+const clearRefreshCookie = (res: Response) => {
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+};
+
+/**
+ * Start a session for the user, set its refresh cookie and return an
+ * access token for it
+ */
+const startSession = async (req: ValidatedRequest, res: Response, userId: string, authMethod: AuthMethod = 'password') => {
+  try {
+    const { session, refreshToken } = await sessionService.createSession(userId, req, { authMethod });
+    setRefreshCookie(res, refreshToken);
+    return generateToken(userId, session.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+};
+
+/**
+ * Error for signing in to a locked account
+ */
+const accountLockedError = (lockedUntil: Date) => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return new ApiError(
+    423,
+    `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or ask a Product Manager to unlock your account.`
+  );
+};
+
+/**
+ * Generate random token for verification/reset
+ */
+const generateRandomToken = () => {
+  return uuidv4() + '-' + Date.now().toString(36);
+};
+
+/**
+ * @desc    Register new user
+ * @route   POST /api/auth/register
+ * @access  Public
+ */
+const register = asyncHandler(async (req: ValidatedRequest<RegisterBody>, res) => {
+  const { email, password, name, role } = req.body;
+
+  // Check if user exists
+  const existingUser = await userRepository.findOne({ email });
+
+  if (existingUser) {
+    throw new ApiError(409, 'User with this email already exists');
+  }
+
+  // Hash password
+  const passwordHash = await argon2.hash(password);
+
+  // Generate verification token
+  const verificationToken = generateRandomToken();
+  const verificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+  // Create user
+  const user = await userRepository.create({
+    email,
+    password_hash: passwordHash,
+    name,
+    role,
+    verification_token: verificationToken,
+    verification_token_expires: verificationExpires.toISOString(),
+  }, { fields: 'id, email, name, role, is_verified' });
+
+  // Send verification email
+  try {
+    await emailService.sendVerificationEmail(email, name, verificationToken);
+  } catch (emailError) {
+    logger.error('Failed to send verification email', { email, error: emailError });
+    // Continue - user is created, just email failed
+  }
+
+  logger.info('User registered', { userId: user.id, email });
+
+  res.status(201).json({
+    success: true,
+    message: 'Registration successful. Please check your email to verify your account.',
+    data: { user },
+  });
+});
+
+/**
+ * @desc    Login user
+ * @route   POST /api/auth/login
+ * @access  Public
+ */
+const login = asyncHandler(async (req: ValidatedRequest<LoginBody>, res) => {
+  const { email, password } = req.body;
+
+  // Get user with password
+  const user = await userRepository.findOne({ email }, {
+    fields: `id, email, name, role, role_id, password_hash, is_verified, is_service_account, two_factor_enabled, ${loginSecurityService.LOCKOUT_FIELDS}`,
+  });
+
+  if (!user) {
+    throw new ApiError(401, 'Invalid email or password');
+  }
+
+  // Service accounts only act through the API on behalf of automation
+  if (user.is_service_account) {
+    throw new ApiError(403, 'Service accounts cannot sign in');
+  }
+
+  // A locked account is refused without checking the password
+  const lockedUntil = loginSecurityService.getLockedUntil(user);
+  if (lockedUntil) {
+    await loginSecurityService.recordLoginAttempt(user.id, req, { success: false, reason: 'locked' });
+    throw accountLockedError(lockedUntil);
+  }
+
+  // Verify password
+  const isValidPassword = await verifyPassword(user.password_hash, password);
+  if (!isValidPassword) {
+    const lockedNow = await loginSecurityService.recordFailedLogin(user, req, 'invalid_password');
+    throw lockedNow ? accountLockedError(lockedNow) : new ApiError(401, 'Invalid email or password');
+  }
+
+  // Check if verified
+  if (!user.is_verified) {
+    await loginSecurityService.recordLoginAttempt(user.id, req, { success: false, reason: 'unverified' });
+    throw new ApiError(403, 'Please verify your email before logging in');
+  }
+
+  // The session is only started once the second factor is checked
+  if (user.two_factor_enabled) {
+    return res.json({
+      success: true,
+      message: 'Enter the code from your authenticator app',
+      data: { two_factor_challenge: generateTwoFactorChallenge(user.id) },
+    });
+  }
+
+  const token = await startSession(req, res, user.id);
+  await loginSecurityService.recordSuccessfulLogin(user, req);
+
+  logger.info('User logged in', { userId: user.id, email });
+
+  res.json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: await toAuthUser(user),
+      token,
+    },
+  });
+});
+
+/**
+ * @desc    Complete a login with an authenticator or recovery code
+ * @route   POST /api/auth/login/2fa
+ * @access  Public
+ */
+const loginTwoFactor = asyncHandler(async (req: ValidatedRequest<LoginTwoFactorBody>, res) => {
+  const { challenge, code } = req.body;
+
+  let decoded;
+  try {
+    decoded = jwt.verify(challenge, config.jwt.secret) as TwoFactorChallengePayload;
+  } catch {
+    throw new ApiError(401, 'Sign-in expired. Please log in again.');
+  }
+
+  if (decoded.purpose !== 'two_factor') {
+    throw new ApiError(401, 'Sign-in expired. Please log in again.');
+  }
+
+  const user = await userRepository.findById(decoded.userId, {
+    fields: `id, email, name, role, role_id, is_verified, is_service_account, totp_secret, totp_last_step, two_factor_enabled, ${loginSecurityService.LOCKOUT_FIELDS}`,
+  });
+
+  if (!user || !user.two_factor_enabled) {
+    throw new ApiError(401, 'Sign-in expired. Please log in again.');
+  }
+
+  // Codes count towards the lockout like passwords do
+  const lockedUntil = loginSecurityService.getLockedUntil(user);
+  if (lockedUntil) {
+    await loginSecurityService.recordLoginAttempt(user.id, req, { success: false, reason: 'locked' });
+    throw accountLockedError(lockedUntil);
+  }
+
+  if (!(await twoFactorService.verifyCode(user, code))) {
+    const lockedNow = await loginSecurityService.recordFailedLogin(user, req, 'invalid_code');
+    throw lockedNow ? accountLockedError(lockedNow) : new ApiError(401, 'Invalid authentication code');
+  }
+
+  const authMethod = decoded.authMethod || 'password';
+  const token = await startSession(req, res, user.id, authMethod);
+  await loginSecurityService.recordSuccessfulLogin(user, req, { authMethod });
+
+  logger.info('User logged in', { userId: user.id, email: user.email, twoFactor: true, sso: authMethod === 'sso' });
+
+  res.json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: await toAuthUser(user, authMethod),
+      token,
+    },
+  });
+});
+
+/**
+ * @desc    Verify email
+ * @route   POST /api/auth/verify-email
+ * @access  Public
+ */
+const verifyEmail = asyncHandler(async (req: ValidatedRequest<VerifyEmailBody>, res) => {
+  const { token } = req.body;
+
+  // Find user with valid token
+  const user = await userRepository.findOne({ verificationToken: token }, {
+    fields: 'id, email, name, role, verification_token_expires',
+  });
+
+  if (!user) {
+    throw new ApiError(400, 'Invalid or expired verification token');
+  }
+
+  // Check if token expired
+  if (new Date(user.verification_token_expires ?? 0) < new Date()) {
+    throw new ApiError(400, 'Verification token has expired');
+  }
+
+  // Update user as verified
+  await userRepository.update(user.id, {
+    is_verified: true,
+    verification_token: null,
+    verification_token_expires: null,
+  });
+
+  // Send welcome email
+  try {
+    await emailService.sendWelcomeEmail(user.email, user.name, user.role);
+  } catch (emailError) {
+    logger.error('Failed to send welcome email', { email: user.email });
+  }
+
+  logger.info('Email verified', { userId: user.id, email: user.email });
+
+  res.json({
+    success: true,
+    message: 'Email verified successfully. You can now log in.',
+  });
+});
+
+/**
+ * @desc    Resend verification email
+ * @route   POST /api/auth/resend-verification
+ * @access  Public
+ */
+const resendVerification = asyncHandler(async (req: ValidatedRequest<EmailBody>, res) => {
+  const { email } = req.body;
+
+  // Find user
+  const user = await userRepository.findOne({ email }, { fields: 'id, email, name, is_verified' });
+
+  if (!user) {
+    // Don't reveal if user exists
+    return res.json({
+      success: true,
+      message: 'If an account exists, a verification email has been sent.',
+    });
+  }
+
+  if (user.is_verified) {
+    throw new ApiError(400, 'Email is already verified');
+  }
+
+  // Generate new token
+  const verificationToken = generateRandomToken();
+  const verificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  await userRepository.update(user.id, {
+    verification_token: verificationToken,
+    verification_token_expires: verificationExpires.toISOString(),
+  });
+
+  // Send email
+  try {
+    await emailService.sendVerificationEmail(user.email, user.name, verificationToken);
+  } catch (emailError) {
+    logger.error('Failed to resend verification email', { email });
+    throw new ApiError(500, 'Failed to send verification email');
+  }
+
+  res.json({
+    success: true,
+    message: 'If an account exists, a verification email has been sent.',
+  });
+});
+
+/**
+ * @desc    Forgot password
+ * @route   POST /api/auth/forgot-password
+ * @access  Public
+ */
+const forgotPassword = asyncHandler(async (req: ValidatedRequest<EmailBody>, res) => {
+  const { email } = req.body;
+
+  // Find user
+  const user = await userRepository.findOne({ email }, {
+    fields: 'id, email, name, password_hash, is_service_account',
+  });
+
+  // Accounts without a password sign in through SSO or with API tokens
+  if (!user || user.is_service_account || user.password_hash === NO_PASSWORD) {
+    // Don't reveal if user exists
+    return res.json({
+      success: true,
+      message: 'If an account exists, a password reset email has been sent.',
+    });
+  }
+
+  // Generate reset token
+  const resetToken = generateRandomToken();
+  const resetExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+
+  await userRepository.update(user.id, {
+    reset_password_token: resetToken,
+    reset_password_expires: resetExpires.toISOString(),
+  });
+
+  // Send email
+  try {
+    await emailService.sendPasswordResetEmail(user.email, user.name, resetToken);
+  } catch (emailError) {
+    logger.error('Failed to send password reset email', { email });
+    throw new ApiError(500, 'Failed to send password reset email');
+  }
+
+  logger.info('Password reset requested', { email });
+
+  res.json({
+    success: true,
+    message: 'If an account exists, a password reset email has been sent.',
+  });
+});
+
+/**
+ * @desc    Reset password
+ * @route   POST /api/auth/reset-password
+ * @access  Public
+ */
+const resetPassword = asyncHandler(async (req: ValidatedRequest<ResetPasswordBody>, res) => {
+  const { token, password } = req.body;
+
+  // Find user with valid token
+  const user = await userRepository.findOne({ resetPasswordToken: token }, {
+    fields: 'id, reset_password_expires',
+  });
+
+  if (!user) {
+    throw new ApiError(400, 'Invalid or expired reset token');
+  }
+
+  // Check if token expired
+  if (new Date(user.reset_password_expires ?? 0) < new Date()) {
+    throw new ApiError(400, 'Reset token has expired');
+  }
+
+  // Whoever had the old password is signed out everywhere. Done first, so
+  // a failure leaves the password and the reset token untouched.
+  try {
+    await sessionService.revokeAllSessions(user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  // Hash new password
+  const passwordHash = await argon2.hash(password);
+
+  // Update password
+  await userRepository.update(user.id, {
+    password_hash: passwordHash,
+    reset_password_token: null,
+    reset_password_expires: null,
+    // Proving access to the email lifts a lockout
+    failed_login_attempts: 0,
+    locked_until: null,
+  });
+
+  logger.info('Password reset successful', { userId: user.id });
+
+  res.json({
+    success: true,
+    message: 'Password reset successful. You can now log in with your new password.',
+  });
+});
+
+/**
+ * @desc    Get the invitation behind an invite link
+ * @route   GET /api/auth/invitations/:token
+ * @access  Public
+ */
+const getInvitation = asyncHandler(async (req, res) => {
+  const invitation = await invitationService.findPendingByToken(req.params.token);
+
+  if (!invitation) {
+    throw new ApiError(404, 'This invitation is invalid or has expired. Ask for a new one.');
+  }
+
+  res.json({
+    success: true,
+    data: {
+      invitation: {
+        email: invitation.email,
+        name: invitation.name,
+        role: invitation.role,
+        inviter: invitation.inviter?.name || null,
+        project: invitation.project?.name || null,
+        expires_at: invitation.expires_at,
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Accept an invitation, set a password and sign in
+ * @route   POST /api/auth/accept-invite
+ * @access  Public
+ */
+const acceptInvitation = asyncHandler(async (req: ValidatedRequest<AcceptInvitationBody>, res) => {
+  const { token, name, password } = req.body;
+
+  let result;
+  try {
+    result = await invitationService.acceptInvitation(token, { name, password });
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('already exists') ? 409 : 500, (err as Error).message);
+  }
+
+  if (!result) {
+    throw new ApiError(400, 'This invitation is invalid or has expired. Ask for a new one.');
+  }
+
+  const { invitation, user } = result;
+  const accessToken = await startSession(req, res, user.id);
+  await loginSecurityService.recordSuccessfulLogin(user, req);
+
+  // New users are created by themselves
+  Object.assign(req, { user });
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'user',
+    entityId: user.id,
+    after: user,
+  });
+
+  logger.info('Invitation accepted', { invitationId: invitation.id, userId: user.id, email: user.email });
+
+  res.status(201).json({
+    success: true,
+    message: 'Welcome to QualitySync!',
+    data: {
+      user: await toAuthUser(user),
+      token: accessToken,
+    },
+  });
+});
+
+/**
+ * @desc    Get current user
+ * @route   GET /api/auth/me
+ * @access  Private
+ */
+const getMe = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json({
+    success: true,
+    data: { user: await toAuthUser(req.user, req.authMethod) },
+  });
+});
+
+/**
+ * @desc    Change password
+ * @route   PUT /api/auth/change-password
+ * @access  Private
+ */
+const changePassword = asyncHandler(async (req: AuthenticatedRequest<ChangePasswordBody>, res) => {
+  const { currentPassword, newPassword } = req.body;
+
+  // Get user with password
+  const user = await userRepository.findById(req.user.id, { fields: 'id, password_hash' });
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  if (user.password_hash === NO_PASSWORD) {
+    throw new ApiError(400, 'This account signs in with single sign-on and has no password');
+  }
+
+  // Verify current password
+  const isValidPassword = await verifyPassword(user.password_hash, currentPassword);
+  if (!isValidPassword) {
+    throw new ApiError(401, 'Current password is incorrect');
+  }
+
+  // Sign out every session before the password changes, so a failure
+  // leaves the old password in place; this one continues in a new session
+  try {
+    await sessionService.revokeAllSessions(req.user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  // Hash new password
+  const passwordHash = await argon2.hash(newPassword);
+
+  // Update password
+  await userRepository.update(req.user.id, { password_hash: passwordHash });
+
+  const token = await startSession(req, res, req.user.id);
+
+  logger.info('Password changed', { userId: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Password changed successfully. Other sessions have been signed out.',
+    data: { token },
+  });
+});
+
+/**
+ * @desc    Get a new access token with the refresh token cookie
+ * @route   POST /api/auth/refresh
+ * @access  Public
+ */
+const refresh = asyncHandler(async (req, res) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+
+  if (!refreshToken) {
+    throw new ApiError(401, 'No session. Please log in.');
+  }
+
+  const result = await sessionService.rotateSession(refreshToken);
+  const user = result?.session.user;
+
+  if (!user || !user.is_verified || user.is_service_account) {
+    clearRefreshCookie(res);
+    throw new ApiError(401, 'Session has ended. Please log in again.');
+  }
+
+  // Null when a concurrent request already rotated the token
+  if (result.refreshToken) {
+    setRefreshCookie(res, result.refreshToken);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      user: await toAuthUser(user, result.session.auth_method),
+      token: generateToken(user.id, result.session.id),
+    },
+  });
+});
+
+/**
+ * @desc    Logout, ending the session of the refresh token cookie
+ * @route   POST /api/auth/logout
+ * @access  Public
+ */
+const logout = asyncHandler(async (req, res) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+
+  if (refreshToken) {
+    const session = await sessionService.findSessionByRefreshToken(refreshToken);
+    if (session) {
+      try {
+        await sessionService.revokeSession(session.id, session.user_id);
+        logger.info('User logged out', { userId: session.user_id, sessionId: session.id });
+      } catch (err) {
+        logger.error('Failed to end session on logout', { sessionId: session.id, error: (err as Error).message });
+      }
+    }
+  }
+
+  clearRefreshCookie(res);
+
+  res.json({
+    success: true,
+    message: 'Logged out',
+  });
+});
+
+/**
+ * @desc    Get active sessions of the current user
+ * @route   GET /api/auth/sessions
+ * @access  Private
+ */
+const getSessions = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  let sessions;
+  try {
+    sessions = await sessionService.getActiveSessions(req.user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      sessions: sessions.map((session) => ({ ...session, current: session.id === req.sessionId })),
+    },
+  });
+});
+
+/**
+ * @desc    Sign out one session of the current user
+ * @route   DELETE /api/auth/sessions/:id
+ * @access  Private
+ */
+const revokeSession = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  let session;
+  try {
+    session = await sessionService.revokeSession(req.params.id, req.user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!session) {
+    throw new ApiError(404, 'Session not found');
+  }
+
+  if (session.id === req.sessionId) {
+    clearRefreshCookie(res);
+  }
+
+  logger.info('Session revoked', { userId: req.user.id, sessionId: session.id });
+
+  res.json({
+    success: true,
+    message: 'Session signed out',
+  });
+});
+
+/**
+ * @desc    Sign out every other session of the current user
+ * @route   DELETE /api/auth/sessions
+ * @access  Private
+ */
+const revokeOtherSessions = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  let count;
+  try {
+    count = await sessionService.revokeAllSessions(req.user.id, { exceptId: req.sessionId });
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  logger.info('Other sessions revoked', { userId: req.user.id, count });
+
+  res.json({
+    success: true,
+    message: `${count} other session${count === 1 ? '' : 's'} signed out`,
+    data: { count },
+  });
+});
+
+/**
+ * @desc    Whether single sign-on is offered, for the login page
+ * @route   GET /api/auth/sso
+ * @access  Public
+ */
+const getSsoConfig = asyncHandler(async (_req, res) => {
+  res.json({
+    success: true,
+    data: {
+      enabled: ssoService.isEnabled(),
+      display_name: config.sso.displayName,
+    },
+  });
+});
+
+const redirectToLogin = (res: Response, message: string) => {
+  res.redirect(`${config.frontendUrl}/login?sso_error=${encodeURIComponent(message)}`);
+};
+
+/**
+ * @desc    Start single sign-on, redirecting to the identity provider
+ * @route   GET /api/auth/sso/login
+ * @access  Public
+ */
+const ssoLogin = asyncHandler(async (_req, res) => {
+  if (!ssoService.isEnabled()) {
+    throw new ApiError(404, 'Single sign-on is not configured');
+  }
+
+  let request;
+  try {
+    request = await ssoService.createAuthorizationRequest();
+  } catch (err) {
+    return redirectToLogin(res, (err as Error).message);
+  }
+
+  const stateToken = jwt.sign({ ...request.checks, purpose: 'sso' }, config.jwt.secret, {
+    expiresIn: SSO_STATE_EXPIRES_IN_MS / 1000,
+  });
+
+  res.cookie(SSO_STATE_COOKIE, stateToken, { ...ssoStateCookieOptions, maxAge: SSO_STATE_EXPIRES_IN_MS });
+  res.redirect(request.url);
+});
+
+/**
+ * @desc    Finish single sign-on: sign in, linking or provisioning the user
+ * @route   GET /api/auth/sso/callback
+ * @access  Public
+ *
+ * Redirects to the frontend, which picks up the session with /auth/refresh,
+ * to the login page with a two-factor challenge, or back to the login page
+ * with an error.
+ */
+const ssoCallback = asyncHandler(async (req: ValidatedRequest<unknown, SsoCallbackQuery>, res) => {
+  const stateToken = req.cookies?.[SSO_STATE_COOKIE];
+  res.clearCookie(SSO_STATE_COOKIE, ssoStateCookieOptions);
+
+  if (req.query.error) {
+    const { error_description: description } = req.query;
+    return redirectToLogin(res, typeof description === 'string' && description ? description : 'Sign-in was cancelled');
+  }
+
+  let checks;
+  try {
+    checks = jwt.verify(stateToken, config.jwt.secret) as SsoStatePayload;
+  } catch {
+    return redirectToLogin(res, 'Sign-in expired. Please try again.');
+  }
+
+  if (checks.purpose !== 'sso') {
+    return redirectToLogin(res, 'Sign-in expired. Please try again.');
+  }
+
+  let claims;
+  try {
+    claims = await ssoService.completeAuthorization(req, checks);
+  } catch (err) {
+    logger.warn('SSO callback failed', { error: (err as Error).message });
+    return redirectToLogin(res, 'Single sign-on failed. Please try again.');
+  }
+
+  let result;
+  try {
+    result = await ssoService.findOrProvisionUser(claims);
+  } catch (err) {
+    return redirectToLogin(res, (err as Error).message);
+  }
+
+  const { user, provisioned } = result;
+  if (user.is_service_account) {
+    return redirectToLogin(res, 'Service accounts cannot sign in');
+  }
+
+  // Same lockout as signing in with a password
+  const lockedUntil = loginSecurityService.getLockedUntil(user);
+  if (lockedUntil) {
+    await loginSecurityService.recordLoginAttempt(user.id, req, { success: false, reason: 'locked', authMethod: 'sso' });
+    return redirectToLogin(res, accountLockedError(lockedUntil).message);
+  }
+
+  // Users who enabled two-factor authentication still enter a code. The
+  // challenge goes in the fragment, which never reaches server logs.
+  if (user.two_factor_enabled) {
+    const challenge = generateTwoFactorChallenge(user.id, 'sso');
+    return res.redirect(`${config.frontendUrl}/login#two_factor_challenge=${encodeURIComponent(challenge)}`);
+  }
+
+  await startSession(req, res, user.id, 'sso');
+  await loginSecurityService.recordSuccessfulLogin(user, req, { authMethod: 'sso' });
+
+  if (provisioned) {
+    // New users are created by themselves
+    Object.assign(req, { user });
+    await auditService.recordAuditEvent(req, {
+      action: 'create',
+      entityType: 'user',
+      entityId: user.id,
+      after: user,
+    });
+  }
+
+  logger.info('User logged in', { userId: user.id, email: user.email, sso: true });
+
+  res.redirect(`${config.frontendUrl}/sso/callback`);
+});
+
+export {
+  register,
+  login,
+  loginTwoFactor,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  getInvitation,
+  acceptInvitation,
+  getMe,
+  changePassword,
+  refresh,
+  logout,
+  getSsoConfig,
+  ssoLogin,
+  ssoCallback,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+};
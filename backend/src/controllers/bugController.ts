@@ -0,0 +1,663 @@
+import { bugRepository, bugHistoryRepository, testRepository } from '../repositories';
+import { BUG_STATUSES, BUG_SEVERITIES } from 'qualitysync-shared';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as emailService from '../services/emailService';
+import * as bugLifecycleService from '../services/bugLifecycleService';
+import * as auditService from '../services/auditService';
+import * as notificationService from '../services/notificationService';
+import * as realtimeService from '../services/realtimeService';
+import * as exportService from '../services/exportService';
+import { publishTestChange, getProjectAssignee } from './testController';
+import logger from '../utils/logger';
+import type { BugFilters } from '../repositories/types';
+import type {
+  AuthUser,
+  BugFilterQuery,
+  BugRow,
+  BugSeverity,
+  BugStatus,
+  ConvertBugBody,
+  CreateBugBody,
+  ExportQuery,
+  PaginationQuery,
+  ProjectRequest,
+  UpdateBugBody,
+  UpdateBugStatusBody,
+} from '../types';
+
+// Bug columns captured in the audit log
+const AUDIT_FIELDS = 'id, project_id, module_platform, jam_link, description, note, severity, status, created_by, converted_to_test_id, converted_at';
+
+const statusLabels: Record<BugStatus, string> = {
+  open: 'open',
+  in_progress: 'in progress',
+  resolved: 'resolved',
+  closed: 'closed',
+  converted_to_test: 'converted to test',
+};
+
+/**
+ * Reject status changes the lifecycle or the user's permissions do not allow
+ */
+const assertTransition = (bug: BugRow, toStatus: BugStatus, user: AuthUser) => {
+  if (!bugLifecycleService.isKnownTransition(bug.status, toStatus)) {
+    throw new ApiError(400, `A ${statusLabels[bug.status]} bug cannot be moved to ${statusLabels[toStatus]}`);
+  }
+
+  if (!bugLifecycleService.getAllowedTransitions(bug.status, user.permissions).includes(toStatus)) {
+    throw new ApiError(403, `You are not allowed to move a ${statusLabels[bug.status]} bug to ${statusLabels[toStatus]}`);
+  }
+
+  // QA verifies only the bugs they reported
+  if (user.role === 'QA' && bug.created_by !== user.id) {
+    throw new ApiError(403, 'You can only verify bugs you reported');
+  }
+};
+
+/**
+ * Tell the reporter and whoever moved the bug last about a status change.
+ * Must run before the change itself is added to the history.
+ */
+const notifyStatusChange = async (bug: BugRow, toStatus: BugStatus, actor: AuthUser, note?: string | null) => {
+  const lastChange = await bugLifecycleService.getLastStatusChange(bug.id);
+
+  await notificationService.notify({
+    recipientIds: [bug.created_by, lastChange?.changed_by],
+    actorId: actor.id,
+    type: 'bug_status_changed',
+    title: `Bug ${statusLabels[toStatus]}: ${bug.module_platform}`,
+    body: note || `${actor.name} moved this bug from ${statusLabels[bug.status]} to ${statusLabels[toStatus]}`,
+    bugId: bug.id,
+  });
+};
+
+/**
+ * Attach the status moves available to the current user
+ */
+const withTransitions = (bug: BugRow, user: AuthUser) => ({
+  ...bug,
+  allowed_transitions: bugLifecycleService.getAllowedTransitions(bug.status, user.permissions),
+});
+
+// Bug as listed by GET /api/bugs and pushed to live feeds
+const BUG_LISTING = {
+  fields: 'id, project_id, module_platform, jam_link, description, note, severity, status, created_at, updated_at, converted_to_test_id, converted_at, created_by',
+  with: ['creator'],
+};
+
+/**
+ * Same visibility rules as GET /api/bugs
+ */
+const canViewBug = (bug: BugRow, user: AuthUser) => user.role !== 'QA' || bug.created_by === user.id;
+
+/**
+ * Push the current state of a bug to connected users.
+ * `before` is the snapshot taken ahead of the change, omitted for new bugs.
+ */
+const publishBugChange = async (id: string, before: BugRow | null = null) => {
+  const bug = await bugRepository.findById(id, BUG_LISTING).catch(() => null);
+
+  if (!bug) {
+    logger.error('Failed to load bug for live update', { bugId: id });
+    return;
+  }
+
+  realtimeService.publishChange({ entity: 'bug', before, after: bug, canView: canViewBug, serialize: withTransitions });
+};
+
+/**
+ * Filters and sort order for the bugs a user may see in a project,
+ * narrowed by the list filters. Shared by the paginated list and exports
+ * so both return the same rows.
+ */
+const visibleBugsQuery = (projectId: string, user: AuthUser, filters: BugFilterQuery & PaginationQuery) => {
+  const { status, severity, module_platform, search, sort = 'created_at', order = 'desc' } = filters;
+
+  const where: BugFilters = { projectId };
+
+  // Role-based filtering
+  if (user.role === 'QA') {
+    // QA only sees bugs they created
+    where.createdBy = user.id;
+  }
+  // PM and ENG see all bugs
+
+  // Filter by status
+  if (status && BUG_STATUSES.includes(status)) {
+    where.status = status;
+  }
+
+  // Filter by severity
+  if (severity && BUG_SEVERITIES.includes(severity)) {
+    where.severity = severity;
+  }
+
+  // Filter by module/platform
+  if (module_platform) {
+    where.modulePlatform = module_platform;
+  }
+
+  // Search in description or note
+  if (search) {
+    where.search = search;
+  }
+
+  // Sorting
+  const validSortFields = ['created_at', 'updated_at', 'status', 'severity', 'module_platform'];
+  const sortField = validSortFields.includes(sort) ? sort : 'created_at';
+
+  return { where, order: { sort: sortField, ascending: order === 'asc' } };
+};
+
+/**
+ * @desc    Get all unlisted bugs (with pagination)
+ * @route   GET /api/bugs
+ * @access  Private (PM sees all, QA sees own, ENG sees all)
+ */
+const getBugs = asyncHandler(async (req: ProjectRequest<unknown, BugFilterQuery & PaginationQuery>, res) => {
+  const page = req.query.page || 1;
+  const limit = req.query.limit || 10;
+  const offset = (page - 1) * limit;
+  const { where, order } = visibleBugsQuery(req.project.id, req.user, req.query);
+
+  const { rows: bugs, total: count } = await bugRepository.findPage(where, {
+    ...BUG_LISTING,
+    ...order,
+    offset,
+    limit,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      bugs: bugs.map((bug) => withTransitions(bug, req.user)),
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Get single bug
+ * @route   GET /api/bugs/:id
+ * @access  Private
+ */
+const getBug = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const bug = await bugRepository.findById(id, {
+    projectId: req.project.id,
+    fields: 'id, module_platform, jam_link, description, note, severity, status, created_at, updated_at, converted_to_test_id, converted_at, created_by',
+    with: ['creator', 'converted_test'],
+  });
+
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  // QA can only view their own bugs
+  if (req.user.role === 'QA' && bug.created_by !== req.user.id) {
+    throw new ApiError(403, 'You do not have access to this bug');
+  }
+
+  res.json({
+    success: true,
+    data: { bug: withTransitions(bug, req.user) },
+  });
+});
+
+/**
+ * @desc    Get status history of a bug
+ * @route   GET /api/bugs/:id/history
+ * @access  Private (same visibility rules as GET /api/bugs/:id)
+ */
+const getBugHistory = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const bug = await bugRepository.findById(id, { projectId: req.project.id, fields: 'id, created_by' });
+
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  if (req.user.role === 'QA' && bug.created_by !== req.user.id) {
+    throw new ApiError(403, 'You do not have access to this bug');
+  }
+
+  const history = await bugHistoryRepository.findMany(id, {
+    fields: 'id, bug_id, from_status, to_status, note, created_at, changed_by',
+    with: ['changer'],
+    sort: 'created_at',
+    ascending: true,
+  }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch bug history');
+  });
+
+  res.json({
+    success: true,
+    data: { history },
+  });
+});
+
+/**
+ * @desc    Create unlisted bug
+ * @route   POST /api/bugs
+ * @access  Private (bugs.create)
+ */
+const createBug = asyncHandler(async (req: ProjectRequest<CreateBugBody>, res) => {
+  const { module_platform, jam_link, description, note, severity } = req.body;
+
+  // Create bug
+  const bug = await bugRepository.create({
+    project_id: req.project.id,
+    module_platform,
+    jam_link,
+    description,
+    note: note || null,
+    severity: severity || 'medium',
+    created_by: req.user.id,
+  }, {
+    fields: 'id, module_platform, jam_link, description, note, severity, status, created_at, created_by',
+    with: ['creator'],
+  });
+
+  await bugLifecycleService.recordStatusChange(bug.id, null, 'open', req.user.id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'bug',
+    entityId: bug.id,
+    after: bug,
+  });
+
+  await publishBugChange(bug.id);
+
+  logger.info('Unlisted bug created', { bugId: bug.id, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Bug reported successfully',
+    data: { bug },
+  });
+});
+
+/**
+ * @desc    Update bug
+ * @route   PUT /api/bugs/:id
+ * @access  Private (PM or creator)
+ */
+const updateBug = asyncHandler(async (req: ProjectRequest<UpdateBugBody>, res) => {
+  const { id } = req.params;
+  const { module_platform, jam_link, description, note, severity, status } = req.body;
+
+  // Get existing bug
+  const existingBug = await bugRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingBug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  const statusChanged = status && status !== existingBug.status;
+  if (statusChanged) {
+    assertTransition(existingBug, status, req.user);
+  }
+
+  // Check permissions - PM can update any, QA can update their own (not converted)
+  if (req.user.role === 'QA') {
+    if (existingBug.created_by !== req.user.id) {
+      throw new ApiError(403, 'You can only update bugs you created');
+    }
+    if (existingBug.status === 'converted_to_test') {
+      throw new ApiError(400, 'Cannot update a bug that has been converted to a test');
+    }
+  }
+
+  // Prepare update data
+  const updateData: Partial<BugRow> = {};
+  if (module_platform) updateData.module_platform = module_platform;
+  if (jam_link) updateData.jam_link = jam_link;
+  if (description) updateData.description = description;
+  if (note !== undefined) updateData.note = note || null;
+  if (severity) updateData.severity = severity;
+  if (statusChanged) updateData.status = status;
+
+  // Update bug
+  const bug = await bugRepository.update(id, updateData, {
+    fields: 'id, module_platform, jam_link, description, note, severity, status, updated_at',
+    with: ['creator'],
+  });
+
+  // Deleted since it was looked up
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  if (statusChanged) {
+    await notifyStatusChange(existingBug, status, req.user);
+    await bugLifecycleService.recordStatusChange(id, existingBug.status, status, req.user.id);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'bug',
+    entityId: id,
+    before: existingBug,
+    after: bug,
+  });
+
+  await publishBugChange(id, existingBug);
+
+  logger.info('Bug updated', { bugId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Bug updated successfully',
+    data: { bug: withTransitions(bug, req.user) },
+  });
+});
+
+/**
+ * @desc    Move bug to another lifecycle status
+ * @route   PUT /api/bugs/:id/status
+ * @access  Private (per transition: bugs.fix works, bugs.close verifies, bugs.reopen reopens)
+ */
+const updateBugStatus = asyncHandler(async (req: ProjectRequest<UpdateBugStatusBody>, res) => {
+  const { id } = req.params;
+  const { status, note } = req.body;
+
+  const existingBug = await bugRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingBug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  assertTransition(existingBug, status, req.user);
+
+  const bug = await bugRepository.update(id, { status }, BUG_LISTING);
+
+  // Deleted since it was looked up
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  await notifyStatusChange(existingBug, status, req.user, note);
+  await bugLifecycleService.recordStatusChange(id, existingBug.status, status, req.user.id, note);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'bug',
+    entityId: id,
+    before: existingBug,
+    after: bug,
+  });
+
+  await publishBugChange(id, existingBug);
+
+  logger.info('Bug status changed', { bugId: id, from: existingBug.status, to: status, changedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: `Bug marked as ${statusLabels[status]}`,
+    data: { bug: withTransitions(bug, req.user) },
+  });
+});
+
+/**
+ * @desc    Convert bug to test case
+ * @route   POST /api/bugs/:id/convert
+ * @access  Private (bugs.convert)
+ */
+const convertToTest = asyncHandler(async (req: ProjectRequest<ConvertBugBody>, res) => {
+  const { id } = req.params;
+  const { assigned_to, test_case, expected_result } = req.body;
+
+  // Get bug
+  const bug = await bugRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  if (bug.status === 'converted_to_test') {
+    throw new ApiError(400, 'This bug has already been converted to a test case');
+  }
+
+  assertTransition(bug, 'converted_to_test', req.user);
+
+  // Verify assignee is a QA tester in the project
+  const assignee = await getProjectAssignee(req.project.id, assigned_to);
+
+  // Create test case from bug
+  const testCaseData = await testRepository.create({
+    project_id: bug.project_id,
+    module_platform: bug.module_platform,
+    test_case,
+    expected_result,
+    evidence_url: bug.jam_link,
+    assigned_to,
+    created_by: req.user.id,
+    source_bug_id: bug.id,
+  }, {
+    fields: 'id, module_platform, test_case, expected_result, status, evidence_url, source_bug_id, assigned_to, created_by, created_at',
+    with: ['assignee', 'creator'],
+  });
+
+  // Update bug status
+  const conversion: Partial<BugRow> = {
+    status: 'converted_to_test',
+    converted_to_test_id: testCaseData.id,
+    converted_at: new Date().toISOString(),
+  };
+
+  await bugRepository.update(id, conversion);
+
+  await bugLifecycleService.recordStatusChange(id, bug.status, 'converted_to_test', req.user.id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'test_case',
+    entityId: testCaseData.id,
+    after: testCaseData,
+  });
+
+  await notificationService.notify({
+    recipientIds: [bug.created_by],
+    actorId: req.user.id,
+    type: 'bug_converted',
+    title: `Bug converted to a test: ${bug.module_platform}`,
+    body: test_case,
+    bugId: id,
+  });
+
+  await notificationService.notify({
+    recipientIds: [assigned_to],
+    actorId: req.user.id,
+    type: 'test_assigned',
+    title: `New test assigned: ${bug.module_platform}`,
+    body: test_case,
+    testCaseId: testCaseData.id,
+  });
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'bug',
+    entityId: id,
+    before: bug,
+    after: { ...bug, ...conversion },
+  });
+
+  // Send notification email to assignee
+  try {
+    await emailService.sendTestAssignmentEmail(assignee.email, assignee.name, {
+      module_platform: bug.module_platform,
+      test_case,
+      expected_result,
+    });
+  } catch (emailError) {
+    logger.error('Failed to send test assignment email', { error: emailError });
+  }
+
+  await publishTestChange(testCaseData.id);
+  await publishBugChange(id, bug);
+
+  logger.info('Bug converted to test', { bugId: id, testId: testCaseData.id, convertedBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Bug converted to test case successfully',
+    data: { test: testCaseData },
+  });
+});
+
+/**
+ * @desc    Delete bug
+ * @route   DELETE /api/bugs/:id
+ * @access  Private (bugs.delete)
+ */
+const deleteBug = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  // Check if bug exists
+  const existingBug = await bugRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingBug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  // If bug was converted, clear the reference in the test case
+  if (existingBug.converted_to_test_id) {
+    await testRepository.update(existingBug.converted_to_test_id, { source_bug_id: null });
+  }
+
+  // Delete bug
+  await bugRepository.remove(id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'delete',
+    entityType: 'bug',
+    entityId: id,
+    before: existingBug,
+  });
+
+  realtimeService.publishChange({ entity: 'bug', before: existingBug, canView: canViewBug });
+
+  logger.info('Bug deleted', { bugId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Bug deleted successfully',
+  });
+});
+
+const severityLabels: Record<BugSeverity, string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+// Columns of bug exports; those with a width are also in the PDF table
+const BUG_EXPORT_COLUMNS: exportService.ExportColumn<BugRow>[] = [
+  { header: 'ID', value: (bug) => bug.id },
+  { header: 'Module/Platform', value: (bug) => bug.module_platform, width: 2 },
+  { header: 'Description', value: (bug) => bug.description, width: 6 },
+  { header: 'Severity', value: (bug) => severityLabels[bug.severity], width: 1 },
+  { header: 'Status', value: (bug) => statusLabels[bug.status], width: 1.5 },
+  { header: 'Reporter', value: (bug) => bug.creator?.name, width: 2 },
+  { header: 'Reporter Email', value: (bug) => bug.creator?.email },
+  { header: 'Jam Link', value: (bug) => bug.jam_link },
+  { header: 'Note', value: (bug) => bug.note },
+  { header: 'Converted To Test', value: (bug) => bug.converted_to_test_id },
+  { header: 'Reported At', value: (bug) => exportService.formatTimestamp(bug.created_at), width: 2 },
+  { header: 'Updated At', value: (bug) => exportService.formatTimestamp(bug.updated_at) },
+];
+
+/**
+ * Release readiness of a set of bugs: open critical or high bugs block
+ * the release, any other unverified bug puts it at risk.
+ */
+const bugReadiness = (bugs: BugRow[]) => {
+  const unresolved = bugs.filter((bug) => ['open', 'in_progress'].includes(bug.status));
+  const blocking = unresolved.filter((bug) => ['critical', 'high'].includes(bug.severity));
+  const awaitingVerification = bugs.filter((bug) => bug.status === 'resolved');
+
+  let verdict: exportService.Verdict;
+  if (blocking.length > 0) {
+    verdict = { level: 'not_ready', label: 'Not ready for release', reason: `${blocking.length} critical or high severity bugs are still open.` };
+  } else if (unresolved.length > 0 || awaitingVerification.length > 0) {
+    verdict = { level: 'at_risk', label: 'At risk', reason: `${unresolved.length} bugs are open and ${awaitingVerification.length} fixes are waiting for verification.` };
+  } else {
+    verdict = { level: 'ready', label: 'Ready for release', reason: 'No open bugs.' };
+  }
+
+  return {
+    verdict,
+    summary: [
+      { label: 'Bugs', value: bugs.length },
+      { label: 'Open', value: unresolved.length },
+      { label: 'Awaiting verification', value: awaitingVerification.length },
+      ...Object.entries(severityLabels).map(([severity, label]) => ({
+        label: `${label} open`,
+        value: unresolved.filter((bug) => bug.severity === severity).length,
+      })),
+    ],
+  };
+};
+
+/**
+ * @desc    Export bugs as CSV, JSON or a PDF report
+ * @route   GET /api/bugs/export?format=csv|json|pdf
+ * @access  Private (same role scoping and filters as GET /api/bugs)
+ */
+const exportBugs = asyncHandler(async (req: ProjectRequest<unknown, BugFilterQuery & ExportQuery>, res) => {
+  const { format = 'csv', status, severity, module_platform, search } = req.query;
+
+  const { where, order } = visibleBugsQuery(req.project.id, req.user, req.query);
+
+  const { rows: bugs, total } = await bugRepository.findPage(where, {
+    ...BUG_LISTING,
+    ...order,
+    offset: 0,
+    limit: exportService.MAX_EXPORT_ROWS,
+  });
+
+  if (total > exportService.MAX_EXPORT_ROWS) {
+    throw new ApiError(400, `${total} bugs match these filters, more than the ${exportService.MAX_EXPORT_ROWS} an export can hold. Narrow the filters and export again.`);
+  }
+
+  const filters = { status, severity, module_platform, search };
+  const exportedAt = new Date().toISOString();
+  const { verdict, summary } = bugReadiness(bugs);
+
+  logger.info('Bugs exported', { format, count: bugs.length, filters, exportedBy: req.user.id });
+
+  await exportService.sendExport(res, {
+    format,
+    fileName: `qualitysync-bugs-${exportedAt.slice(0, 10)}`,
+    data: { exported_at: exportedAt, filters, count: bugs.length, bugs },
+    rows: bugs,
+    columns: BUG_EXPORT_COLUMNS,
+    report: {
+      title: 'Bug Report',
+      subtitle: `${req.project.name} · Generated ${exportService.formatTimestamp(exportedAt)} UTC by ${req.user.name} · ${bugs.length} bugs · Filters: ${exportService.describeFilters(filters)}`,
+      verdict,
+      summary,
+    },
+  });
+});
+
+export {
+  getBugs,
+  exportBugs,
+  getBug,
+  getBugHistory,
+  createBug,
+  updateBug,
+  updateBugStatus,
+  convertToTest,
+  deleteBug,
+};
@@ -0,0 +1,301 @@
+import config from '../config';
+import { testRepository, bugRepository, commentRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as emailService from '../services/emailService';
+import * as commentService from '../services/commentService';
+import * as notificationService from '../services/notificationService';
+import * as permissionService from '../services/permissionService';
+import { ENG_VISIBLE_STATUSES } from './testController';
+import logger from '../utils/logger';
+import type {
+  AuthUser,
+  BugRow,
+  Comment,
+  CommentTarget,
+  CreateCommentBody,
+  MentionableUser,
+  ProjectRequest,
+  TestRow,
+  UpdateCommentBody,
+} from '../types';
+
+const COMMENT_LISTING = {
+  fields: 'id, test_case_id, bug_id, body, created_at, updated_at, author_id',
+  with: ['author', 'mentions'],
+};
+
+// The test case or bug a comment thread belongs to
+type Target =
+  | { type: 'test'; label: string; title: string; record: TestRow }
+  | { type: 'bug'; label: string; title: string; record: BugRow };
+
+/**
+ * Load the test case or bug of the project a comment thread belongs to
+ */
+const findTarget = async (
+  projectId: string,
+  { test_case_id, bug_id }: Partial<Pick<Comment, 'test_case_id' | 'bug_id'>>
+): Promise<Target> => {
+  if (test_case_id) {
+    const test = await testRepository.findById(test_case_id, {
+      projectId,
+      fields: 'id, module_platform, test_case, status, assigned_to',
+    });
+
+    if (!test) {
+      throw new ApiError(404, 'Test case not found');
+    }
+
+    return { type: 'test', label: 'test case', title: test.test_case, record: test };
+  }
+
+  // Validation requires one of the two
+  const bug = await bugRepository.findById(bug_id!, {
+    projectId,
+    fields: 'id, module_platform, status, created_by',
+  });
+
+  if (!bug) {
+    throw new ApiError(404, 'Bug not found');
+  }
+
+  return { type: 'bug', label: 'bug', title: bug.module_platform, record: bug };
+};
+
+/**
+ * Same visibility rules as viewing the test case or bug itself
+ */
+const canView = (target: Target, user: Pick<MentionableUser, 'id' | 'role'>) => {
+  if (target.type === 'test') {
+    if (user.role === 'QA') return target.record.assigned_to === user.id;
+    if (user.role === 'ENG') return ENG_VISIBLE_STATUSES.includes(target.record.status);
+    return true;
+  }
+
+  return user.role !== 'QA' || target.record.created_by === user.id;
+};
+
+const assertCanView = (target: Target, user: AuthUser) => {
+  if (!canView(target, user)) {
+    throw new ApiError(403, `You do not have access to this ${target.label}`);
+  }
+};
+
+/**
+ * Where the mentioned user finds the discussion in the app
+ */
+const discussionUrl = (target: Target, user: MentionableUser) => {
+  if (user.role === 'PM') return `${config.frontendUrl}/pm`;
+  if (user.role === 'ENG') return `${config.frontendUrl}/engineering`;
+  return `${config.frontendUrl}${target.type === 'bug' ? '/qa/report-bug' : '/qa'}`;
+};
+
+/**
+ * Store the mentions in a comment and notify users mentioned for the first time.
+ * Mentions of the author or of users who cannot see the thread are ignored.
+ */
+const syncMentions = async (
+  projectId: string,
+  comment: Pick<Comment, 'id' | 'body'>,
+  target: Target,
+  author: AuthUser
+) => {
+  const users = await commentService.getMentionableUsers(projectId);
+  const mentioned = commentService
+    .extractMentions(comment.body, users)
+    .filter((user) => user.id !== author.id && canView(target, user));
+
+  const added = await commentService.setCommentMentions(comment.id, mentioned.map((user) => user.id));
+
+  await notificationService.notify({
+    recipientIds: added,
+    actorId: author.id,
+    type: 'comment_mention',
+    title: `${author.name} mentioned you on a ${target.label}`,
+    body: comment.body.length > 200 ? `${comment.body.slice(0, 200)}...` : comment.body,
+    testCaseId: target.type === 'test' ? target.record.id : null,
+    bugId: target.type === 'bug' ? target.record.id : null,
+  });
+
+  for (const user of mentioned.filter((u) => added.includes(u.id))) {
+    try {
+      await emailService.sendMentionEmail(user.email, user.name, {
+        author_name: author.name,
+        target_label: target.label,
+        target_title: target.title,
+        body: comment.body,
+        url: discussionUrl(target, user),
+      });
+    } catch (emailError) {
+      logger.error('Failed to send mention email', { commentId: comment.id, userId: user.id, error: emailError });
+    }
+  }
+};
+
+const fetchComment = async (id: string) => {
+  const comment = await commentRepository.findById(id, COMMENT_LISTING).catch(() => null);
+
+  if (!comment) {
+    throw new ApiError(404, 'Comment not found');
+  }
+
+  return comment;
+};
+
+/**
+ * @desc    Get the comment thread of a test case or bug
+ * @route   GET /api/comments?test_case_id=&bug_id=
+ * @access  Private (same visibility rules as the test case or bug)
+ */
+const getComments = asyncHandler(async (req: ProjectRequest<unknown, CommentTarget>, res) => {
+  const { test_case_id, bug_id } = req.query;
+
+  const target = await findTarget(req.project.id, { test_case_id, bug_id });
+  assertCanView(target, req.user);
+
+  const comments = await commentRepository.findMany(
+    target.type === 'test' ? { testCaseId: target.record.id } : { bugId: target.record.id },
+    { ...COMMENT_LISTING, sort: 'created_at', ascending: true }
+  ).catch(() => {
+    throw new ApiError(500, 'Failed to fetch comments');
+  });
+
+  res.json({
+    success: true,
+    data: { comments },
+  });
+});
+
+/**
+ * @desc    Get members of the project that can be @mentioned
+ * @route   GET /api/comments/mentionable
+ * @access  Private
+ */
+const getMentionableUsers = asyncHandler(async (req: ProjectRequest, res) => {
+  let users;
+  try {
+    users = await commentService.getMentionableUsers(req.project.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      users: users.map(({ id, name, role }) => ({ id, name, role })),
+    },
+  });
+});
+
+/**
+ * @desc    Comment on a test case or bug
+ * @route   POST /api/comments
+ * @access  Private (anyone who can view the test case or bug)
+ */
+const createComment = asyncHandler(async (req: ProjectRequest<CreateCommentBody>, res) => {
+  const { test_case_id, bug_id, body } = req.body;
+
+  const target = await findTarget(req.project.id, { test_case_id, bug_id });
+  assertCanView(target, req.user);
+
+  const created = await commentRepository.create({
+    test_case_id: test_case_id || null,
+    bug_id: bug_id || null,
+    author_id: req.user.id,
+    body,
+  }, { fields: 'id, body' }).catch(() => {
+    throw new ApiError(500, 'Failed to create comment');
+  });
+
+  try {
+    await syncMentions(req.project.id, created, target, req.user);
+  } catch (mentionError) {
+    logger.error('Failed to process comment mentions', { commentId: created.id, error: mentionError });
+  }
+
+  const comment = await fetchComment(created.id);
+
+  logger.info('Comment created', { commentId: comment.id, targetType: target.type, targetId: target.record.id, authorId: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment added',
+    data: { comment },
+  });
+});
+
+/**
+ * @desc    Edit a comment
+ * @route   PUT /api/comments/:id
+ * @access  Private (author only)
+ */
+const updateComment = asyncHandler(async (req: ProjectRequest<UpdateCommentBody>, res) => {
+  const { id } = req.params;
+  const { body } = req.body;
+
+  const existing = await fetchComment(id);
+
+  if (existing.author_id !== req.user.id) {
+    throw new ApiError(403, 'You can only edit your own comments');
+  }
+
+  const target = await findTarget(req.project.id, existing);
+  assertCanView(target, req.user);
+
+  await commentRepository.update(id, { body }).catch(() => {
+    throw new ApiError(500, 'Failed to update comment');
+  });
+
+  try {
+    await syncMentions(req.project.id, { id, body }, target, req.user);
+  } catch (mentionError) {
+    logger.error('Failed to process comment mentions', { commentId: id, error: mentionError });
+  }
+
+  const comment = await fetchComment(id);
+
+  logger.info('Comment updated', { commentId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Comment updated',
+    data: { comment },
+  });
+});
+
+/**
+ * @desc    Delete a comment
+ * @route   DELETE /api/comments/:id
+ * @access  Private (author or comments.moderate)
+ */
+const deleteComment = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const existing = await fetchComment(id);
+
+  // Only comments on threads of the current project
+  await findTarget(req.project.id, existing);
+
+  if (!permissionService.hasPermission(req.user, 'comments.moderate') && existing.author_id !== req.user.id) {
+    throw new ApiError(403, 'You can only delete your own comments');
+  }
+
+  await commentRepository.remove(id).catch(() => {
+    throw new ApiError(500, 'Failed to delete comment');
+  });
+
+  logger.info('Comment deleted', { commentId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Comment deleted',
+  });
+});
+
+export {
+  getComments,
+  getMentionableUsers,
+  createComment,
+  updateComment,
+  deleteComment,
+};
@@ -0,0 +1,16 @@
+import { asyncHandler } from '../middleware/errorHandler';
+import * as realtimeService from '../services/realtimeService';
+import type { ProjectRequest } from '../types';
+
+/**
+ * @desc    Stream live test, bug and notification changes (server-sent events)
+ * @route   GET /api/events
+ * @access  Private (events follow the same visibility rules as the lists)
+ */
+const streamEvents = asyncHandler(async (req: ProjectRequest, res) => {
+  realtimeService.addClient(req, res);
+});
+
+export {
+  streamEvents,
+};
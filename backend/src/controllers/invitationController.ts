@@ -0,0 +1,210 @@
+import { userRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as emailService from '../services/emailService';
+import * as invitationService from '../services/invitationService';
+import * as projectService from '../services/projectService';
+import logger from '../utils/logger';
+import type { AuthenticatedRequest, Invitation, InviteUserBody } from '../types';
+
+/**
+ * Email the invitation link. Returns whether it was sent; a failure is
+ * logged and the invitation can be resent.
+ */
+const sendInvitation = async (req: AuthenticatedRequest, invitation: Invitation, token: string) => {
+  try {
+    await emailService.sendInvitationEmail(
+      invitation.email,
+      invitation.name,
+      invitation.role,
+      req.user.name,
+      token,
+      invitation.expires_at
+    );
+    return true;
+  } catch (emailError) {
+    logger.error('Failed to send invitation email', { email: invitation.email, error: (emailError as Error).message });
+    return false;
+  }
+};
+
+const getPendingInvitation = async (id: string) => {
+  let invitation;
+  try {
+    invitation = await invitationService.getInvitation(id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!invitation) {
+    throw new ApiError(404, 'Invitation not found');
+  }
+
+  if (invitation.accepted_at) {
+    throw new ApiError(400, 'Invitation was already accepted');
+  }
+
+  if (invitation.revoked_at) {
+    throw new ApiError(400, 'Invitation was revoked');
+  }
+
+  return invitation;
+};
+
+/**
+ * @desc    Get pending invitations
+ * @route   GET /api/users/invitations
+ * @access  Private (users.manage)
+ */
+const getInvitations = asyncHandler(async (_req, res) => {
+  let invitations;
+  try {
+    invitations = await invitationService.getPendingInvitations();
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { invitations },
+  });
+});
+
+/**
+ * @desc    Invite a user by email
+ * @route   POST /api/users/invite
+ * @access  Private (users.manage)
+ *
+ * The invitee gets a link to set their own password; the account is only
+ * created when they accept. With a project_id they join that project with
+ * the invited role.
+ */
+const inviteUser = asyncHandler(async (req: AuthenticatedRequest<InviteUserBody>, res) => {
+  const { email, name, role, project_id: projectId } = req.body;
+
+  const existingUser = await userRepository.findOne({ email });
+
+  if (existingUser) {
+    throw new ApiError(409, 'User with this email already exists');
+  }
+
+  let created;
+  try {
+    if (projectId && !(await projectService.getProject(projectId))) {
+      throw new ApiError(400, 'Project not found');
+    }
+    if (await invitationService.findOpenInvitation(email)) {
+      throw new ApiError(409, 'This email was already invited. Resend the invitation instead.');
+    }
+    created = await invitationService.createInvitation({ email, name, role, projectId, invitedBy: req.user.id });
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  const { invitation, token } = created;
+  const sent = await sendInvitation(req, invitation, token);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'invitation',
+    entityId: invitation.id,
+    after: invitation,
+  });
+
+  logger.info('User invited', { invitedBy: req.user.id, invitationId: invitation.id, email });
+
+  res.status(201).json({
+    success: true,
+    message: sent
+      ? `Invitation sent to ${email}`
+      : 'Invitation created, but the email could not be sent. Try resending it.',
+    data: { invitation },
+  });
+});
+
+/**
+ * @desc    Resend an invitation with a new link
+ * @route   POST /api/users/invitations/:id/resend
+ * @access  Private (users.manage)
+ *
+ * The previous link stops working and the expiry starts over.
+ */
+const resendInvitation = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const existing = await getPendingInvitation(req.params.id);
+
+  let renewed;
+  try {
+    renewed = await invitationService.renewInvitation(existing.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!renewed) {
+    throw new ApiError(400, 'Invitation is no longer pending');
+  }
+
+  const { invitation, token } = renewed;
+  if (!(await sendInvitation(req, invitation, token))) {
+    throw new ApiError(500, 'Failed to send the invitation email. Try again.');
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'invitation',
+    entityId: invitation.id,
+    before: existing,
+    after: invitation,
+  });
+
+  logger.info('Invitation resent', { invitationId: invitation.id, resentBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: `Invitation resent to ${invitation.email}`,
+    data: { invitation },
+  });
+});
+
+/**
+ * @desc    Revoke an invitation
+ * @route   DELETE /api/users/invitations/:id
+ * @access  Private (users.manage)
+ */
+const revokeInvitation = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const existing = await getPendingInvitation(req.params.id);
+
+  let revoked;
+  try {
+    revoked = await invitationService.revokeInvitation(existing.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!revoked) {
+    throw new ApiError(400, 'Invitation is no longer pending');
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'invitation',
+    entityId: revoked.id,
+    before: existing,
+    after: revoked,
+  });
+
+  logger.info('Invitation revoked', { invitationId: revoked.id, revokedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Invitation revoked',
+    data: { invitation: revoked },
+  });
+});
+
+export {
+  getInvitations,
+  inviteUser,
+  resendInvitation,
+  revokeInvitation,
+};
@@ -0,0 +1,118 @@
+import { notificationRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import type { AuthenticatedRequest, NotificationListQuery } from '../types';
+
+const NOTIFICATION_FIELDS = 'id, type, title, body, test_case_id, bug_id, read_at, created_at';
+
+const countUnread = async (userId: string) => notificationRepository.count({ userId, unread: true }).catch(() => {
+  throw new ApiError(500, 'Failed to fetch notifications');
+});
+
+/**
+ * @desc    Get notifications of the current user (with pagination)
+ * @route   GET /api/notifications
+ * @access  Private
+ */
+const getNotifications = asyncHandler(async (req: AuthenticatedRequest<unknown, NotificationListQuery>, res) => {
+  const page = req.query.page || 1;
+  const limit = req.query.limit || 20;
+  const offset = (page - 1) * limit;
+  const unreadOnly = req.query.unread === 'true';
+
+  const { rows: notifications, total: count } = await notificationRepository.findPage(
+    { userId: req.user.id, ...(unreadOnly ? { unread: true } : {}) },
+    { fields: NOTIFICATION_FIELDS, with: ['actor'], sort: 'created_at', offset, limit }
+  ).catch(() => {
+    throw new ApiError(500, 'Failed to fetch notifications');
+  });
+
+  const unreadCount = await countUnread(req.user.id);
+
+  res.json({
+    success: true,
+    data: {
+      notifications,
+      unread_count: unreadCount,
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Get the number of unread notifications
+ * @route   GET /api/notifications/unread-count
+ * @access  Private
+ */
+const getUnreadCount = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const unreadCount = await countUnread(req.user.id);
+
+  res.json({
+    success: true,
+    data: { unread_count: unreadCount },
+  });
+});
+
+/**
+ * @desc    Mark a notification as read
+ * @route   PUT /api/notifications/:id/read
+ * @access  Private (recipient only)
+ */
+const markAsRead = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const notification = await notificationRepository.update(
+    id,
+    { read_at: new Date().toISOString() },
+    { fields: 'id, read_at', match: { user_id: req.user.id, read_at: null } }
+  ).catch(() => {
+    throw new ApiError(500, 'Failed to update notification');
+  });
+
+  // Already read, or not found for this user
+  if (!notification) {
+    const existing = await notificationRepository.findById(id, { userId: req.user.id }).catch(() => null);
+
+    if (!existing) {
+      throw new ApiError(404, 'Notification not found');
+    }
+  }
+
+  const unreadCount = await countUnread(req.user.id);
+
+  res.json({
+    success: true,
+    data: { unread_count: unreadCount },
+  });
+});
+
+/**
+ * @desc    Mark all notifications of the current user as read
+ * @route   PUT /api/notifications/read-all
+ * @access  Private
+ */
+const markAllAsRead = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  await notificationRepository.updateMany(
+    { userId: req.user.id, unread: true },
+    { read_at: new Date().toISOString() }
+  ).catch(() => {
+    throw new ApiError(500, 'Failed to update notifications');
+  });
+
+  res.json({
+    success: true,
+    message: 'All notifications marked as read',
+    data: { unread_count: 0 },
+  });
+});
+
+export {
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+};
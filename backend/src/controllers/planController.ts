@@ -0,0 +1,226 @@
+import { planRepository, suiteRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as testPlanService from '../services/testPlanService';
+import logger from '../utils/logger';
+import type {
+  CreatePlanBody,
+  PlanListQuery,
+  PlanRow,
+  ProjectRequest,
+  TestPlanProgress,
+  UpdatePlanBody,
+} from '../types';
+
+// Plan columns returned by every endpoint
+const PLAN_FIELDS = 'id, name, release, status, start_date, due_date, created_at, updated_at, suite_id, created_by';
+
+const emptyProgress = {
+  total_tests: 0,
+  passed_tests: 0,
+  failed_tests: 0,
+  pending_tests: 0,
+  escalated_tests: 0,
+};
+
+/**
+ * Fetch progress counts for the given plans, keyed by plan id
+ */
+const fetchProgress = async (planIds: string[]): Promise<Record<string, TestPlanProgress>> => {
+  if (planIds.length === 0) return {};
+
+  const data = await planRepository.findProgress(planIds).catch(() => {
+    throw new ApiError(500, 'Failed to fetch plan progress');
+  });
+
+  return Object.fromEntries(data.map(({ plan_id, ...progress }) => [plan_id, progress]));
+};
+
+/**
+ * @desc    Get all test plans with progress
+ * @route   GET /api/plans
+ * @access  Private (plans.manage)
+ */
+const getPlans = asyncHandler(async (req: ProjectRequest<unknown, PlanListQuery>, res) => {
+  const { status } = req.query;
+
+  const data = await planRepository.findMany({
+    projectId: req.project.id,
+    ...(status && ['active', 'completed'].includes(status) ? { status } : {}),
+  }, {
+    fields: PLAN_FIELDS,
+    with: ['suite', 'creator'],
+    sort: 'created_at',
+  }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test plans');
+  });
+
+  const progress = await fetchProgress(data.map((plan) => plan.id));
+  const plans = data.map((plan) => ({
+    ...plan,
+    progress: progress[plan.id] || emptyProgress,
+  }));
+
+  res.json({
+    success: true,
+    data: { plans },
+  });
+});
+
+/**
+ * @desc    Get single test plan with its test cases
+ * @route   GET /api/plans/:id
+ * @access  Private (plans.manage)
+ */
+const getPlan = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const plan = await planRepository.findById(id, {
+    projectId: req.project.id,
+    fields: PLAN_FIELDS,
+    with: ['suite', 'creator'],
+  }).catch(() => null);
+
+  if (!plan) {
+    throw new ApiError(404, 'Test plan not found');
+  }
+
+  const cases = await planRepository.findCases(id).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test plan');
+  });
+
+  const progress = await fetchProgress([id]);
+
+  res.json({
+    success: true,
+    data: {
+      plan: {
+        ...plan,
+        progress: progress[id] || emptyProgress,
+        cases,
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Create test plan from a suite snapshot
+ * @route   POST /api/plans
+ * @access  Private (plans.manage)
+ */
+const createPlan = asyncHandler(async (req: ProjectRequest<CreatePlanBody>, res) => {
+  const { name, release, suite_id, start_date, due_date } = req.body;
+
+  const suite = await suiteRepository.findById(suite_id, { projectId: req.project.id, fields: 'id, name' })
+    .catch(() => null);
+
+  if (!suite) {
+    throw new ApiError(400, 'Test suite not found');
+  }
+
+  const plan = await planRepository.create({
+    project_id: req.project.id,
+    name,
+    release,
+    suite_id,
+    start_date: start_date || null,
+    due_date: due_date || null,
+    created_by: req.user.id,
+  }, { fields: PLAN_FIELDS }).catch(() => {
+    throw new ApiError(500, 'Failed to create test plan');
+  });
+
+  let testCount;
+  try {
+    testCount = await testPlanService.snapshotSuiteIntoPlan(plan.id, suite_id);
+  } catch (snapshotError) {
+    // Don't leave an empty plan behind
+    await planRepository.remove(plan.id).catch(() => undefined);
+    throw new ApiError(500, (snapshotError as Error).message);
+  }
+
+  logger.info('Test plan created', { planId: plan.id, suiteId: suite_id, testCount, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Test plan created successfully',
+    data: {
+      plan: {
+        ...plan,
+        suite,
+        progress: { ...emptyProgress, total_tests: testCount, pending_tests: testCount },
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Update test plan
+ * @route   PUT /api/plans/:id
+ * @access  Private (plans.manage)
+ */
+const updatePlan = asyncHandler(async (req: ProjectRequest<UpdatePlanBody>, res) => {
+  const { id } = req.params;
+  const { name, release, status, start_date, due_date } = req.body;
+
+  const existingPlan = await planRepository.findById(id, { projectId: req.project.id }).catch(() => null);
+
+  if (!existingPlan) {
+    throw new ApiError(404, 'Test plan not found');
+  }
+
+  // Prepare update data
+  const updateData: Partial<PlanRow> = {};
+  if (name) updateData.name = name;
+  if (release) updateData.release = release;
+  if (status) updateData.status = status;
+  if (start_date !== undefined) updateData.start_date = start_date || null;
+  if (due_date !== undefined) updateData.due_date = due_date || null;
+
+  const plan = await planRepository.update(id, updateData, { fields: PLAN_FIELDS, with: ['suite'] }).catch(() => null);
+
+  if (!plan) {
+    throw new ApiError(500, 'Failed to update test plan');
+  }
+
+  logger.info('Test plan updated', { planId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test plan updated successfully',
+    data: { plan },
+  });
+});
+
+/**
+ * @desc    Delete test plan
+ * @route   DELETE /api/plans/:id
+ * @access  Private (plans.manage)
+ */
+const deletePlan = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const existingPlan = await planRepository.findById(id, { projectId: req.project.id }).catch(() => null);
+
+  if (!existingPlan) {
+    throw new ApiError(404, 'Test plan not found');
+  }
+
+  await planRepository.remove(id).catch(() => {
+    throw new ApiError(500, 'Failed to delete test plan');
+  });
+
+  logger.info('Test plan deleted', { planId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test plan deleted successfully',
+  });
+});
+
+export {
+  getPlans,
+  getPlan,
+  createPlan,
+  updatePlan,
+  deletePlan,
+};
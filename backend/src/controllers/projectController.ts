@@ -0,0 +1,240 @@
+import { userRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as permissionService from '../services/permissionService';
+import * as projectService from '../services/projectService';
+import logger from '../utils/logger';
+import type { AuthenticatedRequest, ProjectBody, ProjectMemberBody, ProjectRow } from '../types';
+
+const findProject = async (id: string) => {
+  let project;
+  try {
+    project = await projectService.getProject(id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!project) {
+    throw new ApiError(404, 'Project not found');
+  }
+
+  return project;
+};
+
+/**
+ * @desc    Get projects
+ * @route   GET /api/projects
+ * @access  Private (members see their projects, projects.manage sees every project)
+ *
+ * Each project comes with the user's role in it and its permissions, null
+ * and none for projects the user can manage but is not a member of.
+ */
+const getProjects = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  let projects;
+  try {
+    projects = permissionService.hasPermission(req.user, 'projects.manage')
+      ? await projectService.getAllProjects(req.user.id)
+      : await projectService.getProjectsForUser(req.user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { projects },
+  });
+});
+
+/**
+ * @desc    Create project
+ * @route   POST /api/projects
+ * @access  Private (projects.manage)
+ */
+const createProject = asyncHandler(async (req: AuthenticatedRequest<ProjectBody>, res) => {
+  const { name, description } = req.body;
+
+  let project;
+  try {
+    project = await projectService.createProject({ name, description, createdBy: req.user.id });
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('already exists') ? 409 : 500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'project',
+    entityId: project.id,
+    after: project,
+  });
+
+  logger.info('Project created', { projectId: project.id, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Project created successfully',
+    data: { project: { ...project, role: 'PM' } },
+  });
+});
+
+/**
+ * @desc    Update project
+ * @route   PUT /api/projects/:id
+ * @access  Private (projects.manage)
+ */
+const updateProject = asyncHandler(async (req: AuthenticatedRequest<Partial<ProjectBody>>, res) => {
+  const { id } = req.params;
+  const { name, description } = req.body;
+
+  const existing = await findProject(id);
+
+  const updateData: Partial<ProjectRow> = {};
+  if (name) updateData.name = name;
+  if (description !== undefined) updateData.description = description || null;
+
+  let project;
+  try {
+    project = await projectService.updateProject(id, updateData);
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('already exists') ? 409 : 500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'project',
+    entityId: id,
+    before: existing,
+    after: project,
+  });
+
+  logger.info('Project updated', { projectId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Project updated successfully',
+    data: { project },
+  });
+});
+
+/**
+ * @desc    Get members of a project
+ * @route   GET /api/projects/:id/members
+ * @access  Private (projects.manage)
+ */
+const getMembers = asyncHandler(async (req, res) => {
+  await findProject(req.params.id);
+
+  let members;
+  try {
+    members = await projectService.getMembers(req.params.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { members },
+  });
+});
+
+/**
+ * @desc    Add a user to a project or change their role in it
+ * @route   PUT /api/projects/:id/members/:userId
+ * @access  Private (projects.manage)
+ */
+const setMember = asyncHandler(async (req: AuthenticatedRequest<ProjectMemberBody>, res) => {
+  const { id, userId } = req.params;
+  const { role_id: roleId } = req.body;
+
+  const project = await findProject(id);
+
+  let role;
+  try {
+    role = await permissionService.getRole(roleId);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!role) {
+    throw new ApiError(400, 'Role not found');
+  }
+
+  const user = await userRepository.findById(userId);
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  let existing;
+  let member;
+  try {
+    existing = await projectService.getMembership(id, userId);
+    member = await projectService.setMember(id, userId, { roleId }, req.user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: existing ? 'update' : 'create',
+    entityType: 'project',
+    entityId: id,
+    before: existing ? { project_id: id, user_id: userId, role: existing.role, role_id: existing.role_id } : null,
+    after: { project_id: id, user_id: userId, role: role.base_role, role_id: roleId },
+  });
+
+  logger.info('Project member set', { projectId: id, userId, roleId, setBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: existing
+      ? `${member.user.name} is now ${role.name} in ${project.name}`
+      : `${member.user.name} added to ${project.name}`,
+    data: { member },
+  });
+});
+
+/**
+ * @desc    Remove a user from a project
+ * @route   DELETE /api/projects/:id/members/:userId
+ * @access  Private (projects.manage)
+ *
+ * Tests stay assigned to the user; reassign them to keep them moving.
+ */
+const removeMember = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, userId } = req.params;
+
+  const project = await findProject(id);
+
+  let removed;
+  try {
+    removed = await projectService.removeMember(id, userId);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!removed) {
+    throw new ApiError(404, 'User is not a member of this project');
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'delete',
+    entityType: 'project',
+    entityId: id,
+    before: { project_id: id, user_id: userId, role: removed.role, role_id: removed.role_id },
+  });
+
+  logger.info('Project member removed', { projectId: id, userId, removedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: `${removed.user.name} removed from ${project.name}`,
+  });
+});
+
+export {
+  getProjects,
+  createProject,
+  updateProject,
+  getMembers,
+  setMember,
+  removeMember,
+};
@@ -0,0 +1,210 @@
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as permissionService from '../services/permissionService';
+import logger from '../utils/logger';
+import type { AuthenticatedRequest, CreateRoleBody, Permission, Role, UpdateRoleBody } from '../types';
+
+const findRole = async (id: string) => {
+  let role;
+  try {
+    role = await permissionService.getRole(id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!role) {
+    throw new ApiError(404, 'Role not found');
+  }
+
+  return role;
+};
+
+/**
+ * Reject permission keys that are not in the catalog, and return the others
+ */
+const checkPermissionKeys = async (permissions: string[]) => {
+  let catalog;
+  try {
+    catalog = await permissionService.getPermissionCatalog();
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  const known = new Set<string>(catalog.map(({ key }) => key));
+  const unknown = permissions.filter((key) => !known.has(key));
+  if (unknown.length > 0) {
+    throw new ApiError(400, `Unknown permissions: ${unknown.join(', ')}`);
+  }
+
+  return permissions as Permission[];
+};
+
+/**
+ * @desc    Get every permission a role can have
+ * @route   GET /api/roles/permissions
+ * @access  Private
+ */
+const getPermissions = asyncHandler(async (_req, res) => {
+  let permissions;
+  try {
+    permissions = await permissionService.getPermissionCatalog();
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { permissions },
+  });
+});
+
+/**
+ * @desc    Get roles with their permissions
+ * @route   GET /api/roles
+ * @access  Private
+ */
+const getRoles = asyncHandler(async (_req, res) => {
+  let roles;
+  try {
+    roles = await permissionService.getRoles();
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: { roles },
+  });
+});
+
+/**
+ * @desc    Create role
+ * @route   POST /api/roles
+ * @access  Private (roles.manage)
+ */
+const createRole = asyncHandler(async (req: AuthenticatedRequest<CreateRoleBody>, res) => {
+  const { name, description, base_role: baseRole } = req.body;
+
+  const permissions = await checkPermissionKeys(req.body.permissions);
+
+  let role;
+  try {
+    role = await permissionService.createRole({
+      name,
+      description,
+      baseRole,
+      permissions,
+      createdBy: req.user.id,
+    });
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('already exists') ? 409 : 500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'role',
+    entityId: role.id,
+    after: role,
+  });
+
+  logger.info('Role created', { roleId: role.id, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Role created successfully',
+    data: { role },
+  });
+});
+
+/**
+ * @desc    Update role and its permissions
+ * @route   PUT /api/roles/:id
+ * @access  Private (roles.manage)
+ *
+ * The base role cannot change, as it decides what users of the role see.
+ */
+const updateRole = asyncHandler(async (req: AuthenticatedRequest<UpdateRoleBody>, res) => {
+  const { id } = req.params;
+  const { name, description } = req.body;
+
+  const existing = await findRole(id);
+
+  const permissions = req.body.permissions && (await checkPermissionKeys(req.body.permissions));
+  if (permissions) {
+
+    // Keep whoever edits roles from locking themselves out
+    if (id === req.user.role_id && !permissions.includes('roles.manage')) {
+      throw new ApiError(400, 'You cannot remove roles.manage from your own role');
+    }
+  }
+
+  const updateData: Partial<Pick<Role, 'name' | 'description'>> = {};
+  if (name) updateData.name = name;
+  if (description !== undefined) updateData.description = description || null;
+
+  let role;
+  try {
+    role = await permissionService.updateRole(id, updateData, permissions);
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('already exists') ? 409 : 500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'role',
+    entityId: id,
+    before: existing,
+    after: role,
+  });
+
+  logger.info('Role updated', { roleId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Role updated successfully',
+    data: { role },
+  });
+});
+
+/**
+ * @desc    Delete role
+ * @route   DELETE /api/roles/:id
+ * @access  Private (roles.manage)
+ */
+const deleteRole = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const existing = await findRole(id);
+
+  if (existing.is_system) {
+    throw new ApiError(400, 'Built-in roles cannot be deleted');
+  }
+
+  try {
+    await permissionService.deleteRole(id);
+  } catch (err) {
+    throw new ApiError((err as Error).message.includes('still given') ? 409 : 500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'delete',
+    entityType: 'role',
+    entityId: id,
+    before: existing,
+  });
+
+  logger.info('Role deleted', { roleId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Role deleted successfully',
+  });
+});
+
+export {
+  getPermissions,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+};
@@ -0,0 +1,189 @@
+import { suiteRepository, testRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as testPlanService from '../services/testPlanService';
+import logger from '../utils/logger';
+import type { CreateSuiteBody, ProjectRequest, SuiteListQuery, SuiteRow, UpdateSuiteBody } from '../types';
+
+// Suite columns returned by every endpoint
+const SUITE_FIELDS = 'id, name, description, created_at, updated_at, created_by';
+
+/**
+ * Ensure every referenced test case exists in the project
+ */
+const verifyTestCasesExist = async (projectId: string, testCaseIds: string[]) => {
+  if (testCaseIds.length === 0) return;
+
+  const found = await testRepository.findMany({ projectId, ids: testCaseIds });
+
+  if (found.length !== new Set(testCaseIds).size) {
+    throw new ApiError(400, 'One or more test cases do not exist');
+  }
+};
+
+/**
+ * @desc    Get all test suites
+ * @route   GET /api/suites
+ * @access  Private (suites.manage)
+ */
+const getSuites = asyncHandler(async (req: ProjectRequest<unknown, SuiteListQuery>, res) => {
+  const { search } = req.query;
+
+  const suites = await suiteRepository.findMany({ projectId: req.project.id, search }, {
+    fields: SUITE_FIELDS,
+    with: ['creator', 'test_count'],
+    sort: 'name',
+    ascending: true,
+  }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test suites');
+  });
+
+  res.json({
+    success: true,
+    data: { suites },
+  });
+});
+
+/**
+ * @desc    Get single test suite with its test cases
+ * @route   GET /api/suites/:id
+ * @access  Private (suites.manage)
+ */
+const getSuite = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const suite = await suiteRepository.findById(id, {
+    projectId: req.project.id,
+    fields: SUITE_FIELDS,
+    with: ['creator'],
+  }).catch(() => null);
+
+  if (!suite) {
+    throw new ApiError(404, 'Test suite not found');
+  }
+
+  const testCases = await suiteRepository.findTests(id).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test suite');
+  });
+
+  res.json({
+    success: true,
+    data: { suite: { ...suite, test_cases: testCases, test_count: testCases.length } },
+  });
+});
+
+/**
+ * @desc    Create test suite
+ * @route   POST /api/suites
+ * @access  Private (suites.manage)
+ */
+const createSuite = asyncHandler(async (req: ProjectRequest<CreateSuiteBody>, res) => {
+  const { name, description, test_case_ids = [] } = req.body;
+
+  await verifyTestCasesExist(req.project.id, test_case_ids);
+
+  const suite = await suiteRepository.create({
+    project_id: req.project.id,
+    name,
+    description: description || null,
+    created_by: req.user.id,
+  }, { fields: SUITE_FIELDS }).catch(() => {
+    throw new ApiError(500, 'Failed to create test suite');
+  });
+
+  try {
+    await testPlanService.setSuiteMembers(suite.id, test_case_ids);
+  } catch (memberError) {
+    throw new ApiError(500, (memberError as Error).message);
+  }
+
+  logger.info('Test suite created', { suiteId: suite.id, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Test suite created successfully',
+    data: { suite: { ...suite, test_count: test_case_ids.length } },
+  });
+});
+
+/**
+ * @desc    Update test suite (name, description and membership)
+ * @route   PUT /api/suites/:id
+ * @access  Private (suites.manage)
+ */
+const updateSuite = asyncHandler(async (req: ProjectRequest<UpdateSuiteBody>, res) => {
+  const { id } = req.params;
+  const { name, description, test_case_ids } = req.body;
+
+  const existingSuite = await suiteRepository.findById(id, { projectId: req.project.id }).catch(() => null);
+
+  if (!existingSuite) {
+    throw new ApiError(404, 'Test suite not found');
+  }
+
+  // Prepare update data
+  const updateData: Partial<SuiteRow> = {};
+  if (name) updateData.name = name;
+  if (description !== undefined) updateData.description = description || null;
+
+  let suite = existingSuite;
+  if (Object.keys(updateData).length > 0) {
+    const updated = await suiteRepository.update(id, updateData, { fields: SUITE_FIELDS }).catch(() => null);
+
+    if (!updated) {
+      throw new ApiError(500, 'Failed to update test suite');
+    }
+    suite = updated;
+  }
+
+  if (test_case_ids) {
+    await verifyTestCasesExist(req.project.id, test_case_ids);
+    try {
+      await testPlanService.setSuiteMembers(id, test_case_ids);
+    } catch (memberError) {
+      throw new ApiError(500, (memberError as Error).message);
+    }
+  }
+
+  logger.info('Test suite updated', { suiteId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test suite updated successfully',
+    data: { suite },
+  });
+});
+
+/**
+ * @desc    Delete test suite
+ * @route   DELETE /api/suites/:id
+ * @access  Private (suites.manage)
+ */
+const deleteSuite = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const existingSuite = await suiteRepository.findById(id, { projectId: req.project.id }).catch(() => null);
+
+  if (!existingSuite) {
+    throw new ApiError(404, 'Test suite not found');
+  }
+
+  // Plans keep their snapshot; only the suite reference is cleared
+  await suiteRepository.remove(id).catch(() => {
+    throw new ApiError(500, 'Failed to delete test suite');
+  });
+
+  logger.info('Test suite deleted', { suiteId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test suite deleted successfully',
+  });
+});
+
+export {
+  getSuites,
+  getSuite,
+  createSuite,
+  updateSuite,
+  deleteSuite,
+};
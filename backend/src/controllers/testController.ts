@@ -0,0 +1,1372 @@
+import { testRepository, testRunRepository, suiteRepository, projectRepository } from '../repositories';
+import { TEST_STATUSES } from 'qualitysync-shared';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as emailService from '../services/emailService';
+import * as testPlanService from '../services/testPlanService';
+import * as testStepService from '../services/testStepService';
+import * as auditService from '../services/auditService';
+import * as notificationService from '../services/notificationService';
+import * as realtimeService from '../services/realtimeService';
+import * as testImportService from '../services/testImportService';
+import * as ciResultService from '../services/ciResultService';
+import * as exportService from '../services/exportService';
+import * as projectService from '../services/projectService';
+import * as permissionService from '../services/permissionService';
+import { validateFields, testCaseFieldsValidation } from '../middleware/validate';
+import logger from '../utils/logger';
+import type { TestFilters, TestResultChange } from '../repositories/types';
+import type {
+  AuthUser,
+  CreateTestBody,
+  ExportQuery,
+  ImportTestsBody,
+  IngestTestResultsBody,
+  MarkTestFixedBody,
+  PaginationQuery,
+  ProjectRequest,
+  TestFilterQuery,
+  TestImportField,
+  TestImportMapping,
+  TestRow,
+  TestRun,
+  TestStatus,
+  TestStep,
+  TestStepInput,
+  UpdateTestBody,
+  UpdateTestResultBody,
+  UploadRequest,
+  UserRow,
+} from '../types';
+
+// Tests engineering can see: failures and everything in the fix loop
+const ENG_VISIBLE_STATUSES: TestStatus[] = ['fail', 'escalated', 'in_fix', 'ready_for_retest'];
+
+/**
+ * Embedded rows come back unordered, so sort them by position
+ */
+const byPosition = <T extends { position: number }>(rows: T[] | null | undefined) => (rows || []).sort((a, b) => a.position - b.position);
+
+const resultLabels: Record<string, string> = {
+  pass: 'passed',
+  fail: 'failed',
+  escalated: 'escalated',
+};
+
+// Test case columns captured in the audit log
+const AUDIT_FIELDS = 'id, project_id, module_platform, test_case, expected_result, status, evidence_url, notes, assigned_to, created_by, source_bug_id, fix_owner, fix_reference, fix_notes, fixed_at, origin, external_key';
+
+// Test case as returned by the fix workflow endpoints
+const FIX_RESPONSE = {
+  fields: 'id, module_platform, test_case, expected_result, status, fix_owner, fix_reference, fix_notes, fixed_at, updated_at',
+  with: ['fixer'],
+};
+
+// Fix details of a test case outside the fix loop
+const NO_FIX = { fix_owner: null, fix_reference: null, fix_notes: null, fixed_at: null };
+
+/**
+ * A result recorded on a test in fix or waiting for retest ends the fix:
+ * it either passed or is failing again and up for a new claim
+ */
+const endsFix = (test: Pick<TestRow, 'status'>) => ['in_fix', 'ready_for_retest'].includes(test.status);
+
+// Step content without ids, which change whenever steps are replaced
+const stepSnapshot = (steps: (TestStep | TestStepInput)[] | null | undefined) => (steps || []).map(({ action, expected_result, test_data }) => ({
+  action,
+  expected_result,
+  test_data: test_data || null,
+}));
+
+// Run columns returned with the history of a test case
+const RUN_FIELDS = 'id, test_case_id, status, evidence_url, notes, duration_seconds, executed_at, executed_by';
+
+// Test case as listed by GET /api/tests and pushed to live feeds
+const TEST_LISTING = {
+  fields: 'id, project_id, module_platform, test_case, expected_result, status, evidence_url, notes, created_at, updated_at, source_bug_id, assigned_to, created_by, fix_owner, fix_reference, fix_notes, fixed_at, origin, external_key',
+  with: ['assignee', 'creator', 'fixer', 'source_bug', 'suites', 'steps'],
+};
+
+/**
+ * Same visibility rules as GET /api/tests
+ */
+const canViewTest = (test: TestRow, user: AuthUser) => {
+  if (user.role === 'QA') return test.assigned_to === user.id;
+  if (user.role === 'ENG') return ENG_VISIBLE_STATUSES.includes(test.status);
+  return true;
+};
+
+/**
+ * Push the current state of a test case to connected users.
+ * `before` is the snapshot taken ahead of the change, omitted for new tests.
+ */
+const publishTestChange = async (id: string, before: TestRow | null = null) => {
+  const test = await testRepository.findById(id, TEST_LISTING).catch(() => null);
+
+  if (!test) {
+    logger.error('Failed to load test case for live update', { testId: id });
+    return;
+  }
+
+  realtimeService.publishChange({ entity: 'test', before, after: test, canView: canViewTest });
+};
+
+/**
+ * Ids of the test cases in a suite of the project, or null when not
+ * filtering by suite
+ */
+const getSuiteTestIds = async (projectId: string, suiteId: string | undefined) => {
+  if (!suiteId) return null;
+
+  const suite = await suiteRepository.findById(suiteId, { projectId, fields: 'id' }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test suite');
+  });
+
+  if (!suite) {
+    throw new ApiError(404, 'Test suite not found');
+  }
+
+  return suiteRepository.findTestIds(suiteId).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test cases');
+  });
+};
+
+/**
+ * The user a test is assigned to, who must be a QA tester in the project
+ */
+const getProjectAssignee = async (projectId: string, userId: string) => {
+  const membership = await projectRepository.findMember(projectId, userId, { fields: 'role', with: ['user'] })
+    .catch(() => null);
+
+  if (!membership) {
+    throw new ApiError(400, 'Assigned user is not a member of this project');
+  }
+
+  if (membership.role !== 'QA') {
+    throw new ApiError(400, 'Tests can only be assigned to QA testers');
+  }
+
+  const { id, name, email } = membership.user!;
+  return { id, name, email };
+};
+
+/**
+ * Suites sent with a test case must belong to its project
+ */
+const checkProjectSuites = async (projectId: string, suiteIds: string[] | undefined) => {
+  let valid;
+  try {
+    valid = await projectService.allInProject('test_suites', projectId, suiteIds || []);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  if (!valid) {
+    throw new ApiError(400, 'Suites must belong to this project');
+  }
+};
+
+/**
+ * Filters and sort order for the tests a user may see in a project,
+ * narrowed by the list filters. Shared by the paginated list and exports
+ * so both return the same rows.
+ */
+const visibleTestsQuery = (
+  projectId: string,
+  user: AuthUser,
+  filters: TestFilterQuery & PaginationQuery,
+  suiteTestIds: string[] | null
+) => {
+  const { status, module_platform, origin, search, sort = 'created_at', order = 'desc' } = filters;
+
+  const where: TestFilters = { projectId };
+
+  // Role-based filtering
+  if (user.role === 'QA') {
+    // QA only sees tests assigned to them
+    where.assignedTo = user.id;
+  } else if (user.role === 'ENG') {
+    // Engineering only sees failed or escalated tests and their fixes
+    where.statuses = ENG_VISIBLE_STATUSES;
+  }
+  // PM sees all tests
+
+  // Filter by status
+  if (status && TEST_STATUSES.includes(status)) {
+    where.status = status;
+  }
+
+  // Filter by module/platform
+  if (module_platform) {
+    where.modulePlatform = module_platform;
+  }
+
+  // Filter by manual or automated origin
+  if (origin && ['manual', 'automated'].includes(origin)) {
+    where.origin = origin;
+  }
+
+  // Search in test_case or expected_result
+  if (search) {
+    where.search = search;
+  }
+
+  // Filter by suite membership
+  if (suiteTestIds) {
+    where.ids = suiteTestIds;
+  }
+
+  // Sorting
+  const validSortFields = ['created_at', 'updated_at', 'status', 'module_platform'];
+  const sortField = validSortFields.includes(sort) ? sort : 'created_at';
+
+  return { where, order: { sort: sortField, ascending: order === 'asc' } };
+};
+
+/**
+ * @desc    Get all test cases (with pagination)
+ * @route   GET /api/tests
+ * @access  Private (PM can see all, QA sees assigned, ENG sees failed/escalated and in fix)
+ */
+const getTests = asyncHandler(async (req: ProjectRequest<unknown, TestFilterQuery & PaginationQuery>, res) => {
+  const page = req.query.page || 1;
+  const limit = req.query.limit || 10;
+  const offset = (page - 1) * limit;
+  const { status, module_platform, origin, search, suite_id } = req.query;
+
+  logger.info('Fetching tests', { page, limit, status, module_platform, origin, search, suite_id, userRole: req.user.role });
+
+  const suiteTestIds = await getSuiteTestIds(req.project.id, suite_id);
+  const { where, order } = visibleTestsQuery(req.project.id, req.user, req.query, suiteTestIds);
+
+  const { rows: tests, total: count } = await testRepository.findPage(where, {
+    ...TEST_LISTING,
+    ...order,
+    offset,
+    limit,
+  });
+
+  logger.info('Tests fetched successfully', { count, page });
+
+  res.json({
+    success: true,
+    data: {
+      tests,
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Get single test case
+ * @route   GET /api/tests/:id
+ * @access  Private
+ */
+const getTest = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const test = await testRepository.findById(id, {
+    projectId: req.project.id,
+    fields: 'id, module_platform, test_case, expected_result, status, evidence_url, notes, created_at, updated_at, source_bug_id, assigned_to, created_by, fix_owner, fix_reference, fix_notes, fixed_at',
+    with: ['assignee', 'creator', 'fixer', 'source_bug', 'suites', 'steps'],
+  });
+
+  if (!test) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Role-based access check
+  if (req.user.role === 'QA' && test.assigned_to !== req.user.id) {
+    throw new ApiError(403, 'You do not have access to this test case');
+  }
+
+  if (req.user.role === 'ENG' && !ENG_VISIBLE_STATUSES.includes(test.status)) {
+    throw new ApiError(403, 'You can only view failed or escalated test cases');
+  }
+
+  res.json({
+    success: true,
+    data: { test },
+  });
+});
+
+/**
+ * @desc    Create test case
+ * @route   POST /api/tests
+ * @access  Private (tests.create)
+ */
+const createTest = asyncHandler(async (req: ProjectRequest<CreateTestBody>, res) => {
+  const { module_platform, test_case, expected_result, evidence_url, assigned_to, suite_ids, steps } = req.body;
+
+  // Verify assignee is a QA tester in the project
+  const assignee = await getProjectAssignee(req.project.id, assigned_to);
+  await checkProjectSuites(req.project.id, suite_ids);
+
+  // Create test case
+  const test = await testRepository.create({
+    project_id: req.project.id,
+    module_platform,
+    test_case,
+    expected_result,
+    evidence_url: evidence_url || null,
+    assigned_to,
+    created_by: req.user.id,
+  }, {
+    fields: 'id, module_platform, test_case, expected_result, status, evidence_url, created_at, assigned_to, created_by',
+    with: ['assignee', 'creator'],
+  });
+
+  // Add to suites
+  if (suite_ids && suite_ids.length > 0) {
+    try {
+      await testPlanService.setTestSuites(test.id, suite_ids);
+    } catch (suiteError) {
+      throw new ApiError(500, (suiteError as Error).message);
+    }
+  }
+
+  // Add ordered steps
+  try {
+    test.steps = await testStepService.setTestSteps(test.id, steps || []);
+  } catch (stepError) {
+    throw new ApiError(500, (stepError as Error).message);
+  }
+
+  // Send notification email to assignee
+  try {
+    await emailService.sendTestAssignmentEmail(assignee.email, assignee.name, {
+      module_platform,
+      test_case,
+      expected_result,
+    });
+  } catch (emailError) {
+    logger.error('Failed to send test assignment email', { error: emailError });
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'test_case',
+    entityId: test.id,
+    after: { ...test, steps: stepSnapshot(test.steps), suite_ids: suite_ids || [] },
+  });
+
+  await notificationService.notify({
+    recipientIds: [assigned_to],
+    actorId: req.user.id,
+    type: 'test_assigned',
+    title: `New test assigned: ${module_platform}`,
+    body: test_case,
+    testCaseId: test.id,
+  });
+
+  await publishTestChange(test.id);
+
+  logger.info('Test case created', { testId: test.id, createdBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Test case created successfully',
+    data: { test },
+  });
+});
+
+/**
+ * @desc    Update test result (QA resolves test)
+ * @route   PUT /api/tests/:id/result
+ * @access  Private (tests.execute - assigned tester)
+ *
+ * Every call records a new row in test_runs; the test case itself only
+ * mirrors the outcome of the latest run. When step_results are sent, the
+ * run status is derived from them instead of the status field.
+ */
+const updateTestResult = asyncHandler(async (req: ProjectRequest<UpdateTestResultBody>, res) => {
+  const { id } = req.params;
+  const { evidence_url, notes, duration_seconds, step_results } = req.body;
+  // Required by the validations unless step_results decide it
+  let status: TestStatus = req.body.status!;
+
+  // Get existing test
+  const existingTest = await testRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingTest) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Verify user is the assignee
+  if (existingTest.assigned_to !== req.user.id) {
+    throw new ApiError(403, 'You can only update tests assigned to you');
+  }
+
+  // Step outcomes must cover every step exactly once and decide the status
+  let steps: TestStep[] = [];
+  if (step_results) {
+    try {
+      steps = await testStepService.getTestSteps(id);
+    } catch (stepError) {
+      throw new ApiError(500, (stepError as Error).message);
+    }
+
+    const stepIds = new Set(steps.map((step) => step.id));
+    const resultIds = new Set<string>(step_results.map((result) => result.step_id));
+
+    if (steps.length === 0) {
+      throw new ApiError(400, 'This test case has no steps');
+    }
+
+    if (
+      resultIds.size !== step_results.length ||
+      resultIds.size !== stepIds.size ||
+      ![...resultIds].every((stepId) => stepIds.has(stepId))
+    ) {
+      throw new ApiError(400, 'Provide exactly one result for every step of this test case');
+    }
+
+    status = testStepService.deriveStatus(step_results);
+  }
+
+  // Record the run
+  const run = await testRunRepository.create({
+    test_case_id: id,
+    executed_by: req.user.id,
+    status,
+    evidence_url: evidence_url || null,
+    notes: notes || null,
+    duration_seconds: duration_seconds ?? null,
+  }, { fields: RUN_FIELDS, with: ['executor'] }).catch(() => {
+    throw new ApiError(500, 'Failed to record test run');
+  });
+
+  run.step_results = [];
+  if (step_results) {
+    try {
+      run.step_results = await testStepService.recordStepResults(run.id, steps, step_results);
+    } catch (stepError) {
+      // Don't keep a run whose step outcomes were lost
+      await testRunRepository.remove(run.id).catch(() => undefined);
+      throw new ApiError(500, (stepError as Error).message);
+    }
+  }
+
+  // Mirror the latest run on the test case
+  const test = await testRepository.update(id, {
+    status,
+    evidence_url: evidence_url || null,
+    notes: notes || null,
+    ...(endsFix(existingTest) ? NO_FIX : {}),
+  }, {
+    fields: 'id, module_platform, test_case, expected_result, status, evidence_url, notes, updated_at',
+    match: { status: existingTest.status },
+  });
+
+  // Its status changed, by another result or the fix workflow, since it was
+  // looked up; the run recorded against the old status goes too
+  if (!test) {
+    await testRunRepository.remove(run.id).catch(() => undefined);
+    throw new ApiError(409, 'This test changed while you were recording the result, please reload and try again');
+  }
+
+  // Reflect the run in active test plans
+  await testPlanService.recordPlanResult(id, status, run.id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'test_case',
+    entityId: id,
+    before: existingTest,
+    after: test,
+  });
+
+  // The PM who wrote the test and, on a retest, the engineer who fixed it
+  await notificationService.notify({
+    recipientIds: [
+      existingTest.created_by,
+      existingTest.status === 'ready_for_retest' ? existingTest.fix_owner : null,
+    ],
+    actorId: req.user.id,
+    type: 'test_result',
+    title: `Test ${resultLabels[status]}: ${existingTest.module_platform}`,
+    body: notes || existingTest.test_case,
+    testCaseId: id,
+  });
+
+  await publishTestChange(id, existingTest);
+
+  logger.info('Test result updated', { testId: id, runId: run.id, status, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test result updated successfully',
+    data: { test, run },
+  });
+});
+
+/**
+ * @desc    Claim a failed test for fixing
+ * @route   PUT /api/tests/:id/claim
+ * @access  Private (tests.fix)
+ */
+const claimTestFix = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const existingTest = await testRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingTest) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  if (existingTest.status === 'in_fix') {
+    throw new ApiError(409, existingTest.fix_owner === req.user.id
+      ? 'You have already claimed this test'
+      : 'This test is already being fixed by another engineer');
+  }
+
+  if (!['fail', 'escalated'].includes(existingTest.status)) {
+    throw new ApiError(400, 'Only failed or escalated tests can be claimed');
+  }
+
+  const test = await testRepository.update(id, {
+    status: 'in_fix',
+    fix_owner: req.user.id,
+    fix_reference: null,
+    fix_notes: null,
+    fixed_at: null,
+  }, { ...FIX_RESPONSE, match: { status: existingTest.status } });
+
+  // Another engineer claimed it, or its status changed, since it was looked up
+  if (!test) {
+    throw new ApiError(409, 'This test changed while you were claiming it, please reload and try again');
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'test_case',
+    entityId: id,
+    before: existingTest,
+    after: test,
+  });
+
+  await publishTestChange(id, existingTest);
+
+  logger.info('Test claimed for fix', { testId: id, claimedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test claimed successfully',
+    data: { test },
+  });
+});
+
+/**
+ * @desc    Mark a claimed test as fixed and hand it back to QA
+ * @route   PUT /api/tests/:id/fixed
+ * @access  Private (tests.fix - engineer who claimed it)
+ */
+const markTestFixed = asyncHandler(async (req: ProjectRequest<MarkTestFixedBody>, res) => {
+  const { id } = req.params;
+  const { fix_reference, fix_notes } = req.body;
+
+  const existingTest = await testRepository.findById(id, {
+    projectId: req.project.id,
+    fields: AUDIT_FIELDS,
+    with: ['assignee'],
+  });
+
+  if (!existingTest) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  if (existingTest.status !== 'in_fix') {
+    throw new ApiError(400, 'Only tests in fix can be marked as fixed');
+  }
+
+  if (existingTest.fix_owner !== req.user.id) {
+    throw new ApiError(403, 'You can only mark tests you claimed as fixed');
+  }
+
+  const test = await testRepository.update(id, {
+    status: 'ready_for_retest',
+    fix_reference,
+    fix_notes: fix_notes || null,
+    fixed_at: new Date().toISOString(),
+  }, FIX_RESPONSE);
+
+  // Let the original tester know it is ready for retest
+  if (existingTest.assignee) {
+    try {
+      await emailService.sendRetestRequestEmail(existingTest.assignee.email, existingTest.assignee.name, existingTest, {
+        fixed_by: req.user.name,
+        fix_reference,
+        fix_notes,
+      });
+    } catch (emailError) {
+      logger.error('Failed to send retest request email', { error: emailError });
+    }
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'test_case',
+    entityId: id,
+    before: existingTest,
+    after: test,
+  });
+
+  await notificationService.notify({
+    recipientIds: [existingTest.assigned_to],
+    actorId: req.user.id,
+    type: 'test_ready_for_retest',
+    title: `Ready for retest: ${existingTest.module_platform}`,
+    body: `${req.user.name} fixed this in ${fix_reference}`,
+    testCaseId: id,
+  });
+
+  await publishTestChange(id, existingTest);
+
+  logger.info('Test marked fixed', { testId: id, fixedBy: req.user.id, fixReference: fix_reference });
+
+  res.json({
+    success: true,
+    message: 'Test marked as fixed and sent back for retest',
+    data: { test },
+  });
+});
+
+/**
+ * @desc    Get execution history of a test case
+ * @route   GET /api/tests/:id/runs
+ * @access  Private (same visibility rules as GET /api/tests/:id)
+ */
+const getTestRuns = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  const test = await testRepository.findById(id, { projectId: req.project.id, fields: 'id, assigned_to, status' });
+
+  if (!test) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Role-based access check
+  if (req.user.role === 'QA' && test.assigned_to !== req.user.id) {
+    throw new ApiError(403, 'You do not have access to this test case');
+  }
+
+  if (req.user.role === 'ENG' && !ENG_VISIBLE_STATUSES.includes(test.status)) {
+    throw new ApiError(403, 'You can only view failed or escalated test cases');
+  }
+
+  const runs = await testRunRepository.findMany(id, {
+    fields: RUN_FIELDS,
+    with: ['executor', 'step_results'],
+    sort: 'executed_at',
+  }).catch(() => {
+    throw new ApiError(500, 'Failed to fetch test runs');
+  });
+
+  runs.forEach((run) => byPosition(run.step_results));
+
+  res.json({
+    success: true,
+    data: { runs },
+  });
+});
+
+/**
+ * @desc    Update test case
+ * @route   PUT /api/tests/:id
+ * @access  Private (tests.update or tests.assign)
+ */
+const updateTest = asyncHandler(async (req: ProjectRequest<UpdateTestBody>, res) => {
+  const { id } = req.params;
+  const { module_platform, test_case, expected_result, evidence_url, assigned_to, external_key, suite_ids, steps } = req.body;
+
+  // Users who may only reassign tests cannot change anything else
+  const editsTest = [module_platform, test_case, expected_result, evidence_url, external_key, suite_ids, steps]
+    .some((value) => value !== undefined);
+  if (editsTest && !permissionService.hasPermission(req.user, 'tests.update')) {
+    throw new ApiError(403, 'Access denied. Required permission: tests.update');
+  }
+
+  // Check if test exists
+  const existingTest = await testRepository.findById(id, {
+    projectId: req.project.id,
+    fields: AUDIT_FIELDS,
+    with: ['steps'],
+  });
+
+  if (!existingTest) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Prepare update data
+  const updateData: Partial<TestRow> = {};
+  if (module_platform) updateData.module_platform = module_platform;
+  if (test_case) updateData.test_case = test_case;
+  if (expected_result) updateData.expected_result = expected_result;
+  if (evidence_url !== undefined) updateData.evidence_url = evidence_url || null;
+  // Linking a key lets CI results for it update this test
+  if (external_key !== undefined) updateData.external_key = external_key || null;
+
+  await checkProjectSuites(req.project.id, suite_ids);
+
+  // If reassigning, verify new assignee
+  if (assigned_to && assigned_to !== existingTest.assigned_to) {
+    if (!permissionService.hasPermission(req.user, 'tests.assign')) {
+      throw new ApiError(403, 'Access denied. Required permission: tests.assign');
+    }
+
+    const assignee = await getProjectAssignee(req.project.id, assigned_to);
+
+    updateData.assigned_to = assigned_to;
+
+    // Send notification to new assignee
+    const testDetails = {
+      module_platform: module_platform || existingTest.module_platform,
+      test_case: test_case || existingTest.test_case,
+      expected_result: expected_result || existingTest.expected_result,
+    };
+
+    try {
+      await emailService.sendTestAssignmentEmail(assignee.email, assignee.name, testDetails);
+    } catch (emailError) {
+      logger.error('Failed to send reassignment email', { error: emailError });
+    }
+
+    await notificationService.notify({
+      recipientIds: [assigned_to],
+      actorId: req.user.id,
+      type: 'test_assigned',
+      title: `New test assigned: ${testDetails.module_platform}`,
+      body: testDetails.test_case,
+      testCaseId: id,
+    });
+
+    await notificationService.notify({
+      recipientIds: [existingTest.assigned_to],
+      actorId: req.user.id,
+      type: 'test_reassigned',
+      title: `Test reassigned to ${assignee.name}: ${testDetails.module_platform}`,
+      body: testDetails.test_case,
+      testCaseId: id,
+    });
+  }
+
+  // Update test
+  let test;
+  try {
+    test = await testRepository.update(id, updateData, {
+      fields: 'id, module_platform, test_case, expected_result, status, evidence_url, notes, assigned_to, origin, external_key, updated_at',
+      with: ['assignee'],
+    });
+  } catch (updateError) {
+    if ((updateError as { code?: string }).code === '23505') {
+      throw new ApiError(409, 'Another test case already uses this external key');
+    }
+    throw updateError;
+  }
+
+  // Deleted since it was looked up
+  if (!test) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Replace suite membership
+  if (suite_ids) {
+    try {
+      await testPlanService.setTestSuites(id, suite_ids);
+    } catch (suiteError) {
+      throw new ApiError(500, (suiteError as Error).message);
+    }
+  }
+
+  // Replace steps
+  if (steps) {
+    try {
+      test.steps = await testStepService.setTestSteps(id, steps);
+    } catch (stepError) {
+      throw new ApiError(500, (stepError as Error).message);
+    }
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'test_case',
+    entityId: id,
+    before: { ...existingTest, steps: stepSnapshot(existingTest.steps) },
+    after: steps ? { ...test, steps: stepSnapshot(test.steps) } : test,
+  });
+
+  await publishTestChange(id, existingTest);
+
+  logger.info('Test case updated', { testId: id, updatedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test case updated successfully',
+    data: { test },
+  });
+});
+
+/**
+ * @desc    Delete test case
+ * @route   DELETE /api/tests/:id
+ * @access  Private (tests.delete)
+ */
+const deleteTest = asyncHandler(async (req: ProjectRequest, res) => {
+  const { id } = req.params;
+
+  // Check if test exists
+  const existingTest = await testRepository.findById(id, { projectId: req.project.id, fields: AUDIT_FIELDS });
+
+  if (!existingTest) {
+    throw new ApiError(404, 'Test case not found');
+  }
+
+  // Delete test
+  await testRepository.remove(id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'delete',
+    entityType: 'test_case',
+    entityId: id,
+    before: existingTest,
+  });
+
+  realtimeService.publishChange({ entity: 'test', before: existingTest, canView: canViewTest });
+
+  logger.info('Test case deleted', { testId: id, deletedBy: req.user.id });
+
+  res.json({
+    success: true,
+    message: 'Test case deleted successfully',
+  });
+});
+
+/**
+ * Read the column mapping sent with an import, falling back to the one
+ * guessed from the headers. Every mapped column must exist in the file.
+ */
+const resolveImportMapping = (rawMapping: string | undefined, columns: string[]) => {
+  const mapping = rawMapping ? JSON.parse(rawMapping) : testImportService.suggestMapping(columns);
+
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+    throw new ApiError(400, 'Column mapping must be a JSON object');
+  }
+
+  const resolved: TestImportMapping = {};
+  for (const field of testImportService.IMPORT_FIELDS) {
+    const column = mapping[field];
+    if (!column) continue;
+    if (!columns.includes(column)) {
+      throw new ApiError(400, `Column "${column}" mapped to ${field} is not in the file`);
+    }
+    resolved[field] = column;
+  }
+
+  return resolved;
+};
+
+/**
+ * Validate spreadsheet rows with the same rules as the create form.
+ * Assignees are looked up by email and must be QA testers in the project.
+ */
+const validateImportRows = async (projectId: string, rows: testImportService.SheetRow[], mapping: TestImportMapping) => {
+  const members = await projectRepository.findMembers({ projectId }, { fields: 'role', with: ['user'] }).catch(() => {
+    throw new ApiError(500, 'Failed to validate import');
+  });
+
+  const usersByEmail = new Map(members.map(({ role, user }) => [user!.email.toLowerCase(), { id: user!.id, email: user!.email, role }]));
+
+  return Promise.all(rows.map(async ({ row, cells }) => {
+    const raw = Object.fromEntries(
+      testImportService.IMPORT_FIELDS.map((field) => [field, cells[mapping[field] ?? ''] || ''])
+    ) as Record<TestImportField, string>;
+
+    const { values, errors } = await validateFields(testCaseFieldsValidation, raw);
+
+    const assignee = usersByEmail.get(raw.assignee_email.toLowerCase());
+    if (!raw.assignee_email) {
+      errors.push({ field: 'assignee_email', message: 'Assignee email is required' });
+    } else if (!assignee) {
+      errors.push({ field: 'assignee_email', message: `No project member with email ${raw.assignee_email}` });
+    } else if (assignee.role !== 'QA') {
+      errors.push({ field: 'assignee_email', message: 'Tests can only be assigned to QA testers' });
+    }
+
+    return {
+      row,
+      values: { ...values, assignee_email: raw.assignee_email },
+      assigned_to: assignee?.id || null,
+      errors,
+    };
+  }));
+};
+
+/**
+ * @desc    Import test cases from a CSV or Excel file
+ * @route   POST /api/tests/import
+ * @access  Private (tests.import)
+ *
+ * Multipart body: `file`, an optional JSON `mapping` of field to column
+ * header and `dry_run`. A dry run only validates and previews the rows;
+ * otherwise every valid row is created and invalid rows are skipped.
+ */
+const importTests = asyncHandler(async (req: UploadRequest<ImportTestsBody>, res) => {
+  const dryRun = req.body.dry_run !== 'false';
+
+  let sheet;
+  try {
+    sheet = await testImportService.parseSpreadsheet(req.file);
+  } catch (parseError) {
+    throw new ApiError(400, (parseError as Error).message);
+  }
+
+  const mapping = resolveImportMapping(req.body.mapping, sheet.columns);
+  const missingFields = testImportService.IMPORT_FIELDS.filter((field) => !mapping[field]);
+
+  if (missingFields.length > 0 && !dryRun) {
+    throw new ApiError(400, `Map a column to ${missingFields.join(', ')} before importing`);
+  }
+
+  const rows = missingFields.length > 0 ? [] : await validateImportRows(req.project.id, sheet.rows, mapping);
+  const validRows = rows.filter((row) => row.errors.length === 0);
+
+  let imported = 0;
+  if (!dryRun && validRows.length > 0) {
+    const tests = await testRepository.createMany(validRows.map(({ values, assigned_to }) => ({
+      project_id: req.project.id,
+      module_platform: values.module_platform,
+      test_case: values.test_case,
+      expected_result: values.expected_result,
+      // Valid rows have an assignee
+      assigned_to: assigned_to!,
+      created_by: req.user.id,
+    })), TEST_LISTING);
+
+    imported = tests.length;
+
+    for (const test of tests) {
+      await auditService.recordAuditEvent(req, {
+        action: 'create',
+        entityType: 'test_case',
+        entityId: test.id,
+        after: test,
+      });
+      realtimeService.publishChange({ entity: 'test', after: test, canView: canViewTest });
+    }
+
+    // One notification per tester rather than one per row
+    const countsByAssignee = tests.reduce((counts, test) => {
+      counts.set(test.assigned_to, (counts.get(test.assigned_to) || 0) + 1);
+      return counts;
+    }, new Map<string, number>());
+
+    for (const [assigneeId, count] of countsByAssignee) {
+      const firstTest = tests.find((test) => test.assigned_to === assigneeId)!;
+      await notificationService.notify({
+        recipientIds: [assigneeId],
+        actorId: req.user.id,
+        type: 'test_assigned',
+        title: count === 1 ? `New test assigned: ${firstTest.module_platform}` : `${count} new tests assigned to you`,
+        body: count === 1 ? firstTest.test_case : `Imported by ${req.user.name}`,
+        testCaseId: count === 1 ? firstTest.id : null,
+      });
+    }
+
+    logger.info('Test cases imported', { imported, skipped: rows.length - imported, fileName: req.file.originalname, importedBy: req.user.id });
+  }
+
+  res.status(dryRun ? 200 : 201).json({
+    success: true,
+    message: dryRun ? 'Import preview ready' : `${imported} test cases imported`,
+    data: {
+      dry_run: dryRun,
+      columns: sheet.columns,
+      mapping,
+      missing_fields: missingFields,
+      summary: {
+        total: sheet.rows.length,
+        valid: validRows.length,
+        invalid: rows.length - validRows.length,
+        imported,
+      },
+      rows: rows.map(({ row, values, errors }) => ({ row, values, errors })),
+    },
+  });
+});
+
+// Expected result of test cases created from CI reports
+const AUTOMATED_EXPECTED_RESULT = 'The automated test passes';
+
+// Values per IN filter, long lists overflow the request URL
+const IN_FILTER_BATCH_SIZE = 100;
+
+const inBatches = <T>(values: T[]) => {
+  const batches: T[][] = [];
+  for (let i = 0; i < values.length; i += IN_FILTER_BATCH_SIZE) {
+    batches.push(values.slice(i, i + IN_FILTER_BATCH_SIZE));
+  }
+  return batches;
+};
+
+/**
+ * Test cases of a project linked to the given external keys, by key
+ */
+const findTestsByExternalKey = async (projectId: string, keys: string[]) => {
+  const tests = new Map<string | null, TestRow>();
+
+  for (const batch of inBatches(keys)) {
+    const data = await testRepository.findMany({ projectId, externalKeys: batch }, { fields: AUDIT_FIELDS });
+
+    data.forEach((test) => tests.set(test.external_key, test));
+  }
+
+  return tests;
+};
+
+/**
+ * @desc    Record automated test results from a JUnit XML or JSON report
+ * @route   POST /api/tests/ingest
+ * @access  Private (tests.ingest)
+ *
+ * Multipart body: `file` and an optional `module_platform` for the test
+ * cases the report introduces. Results are matched to test cases by
+ * external key and unknown keys create automated test cases. Passes and
+ * failures are recorded as runs by the calling service account, or the
+ * CI service account when a PM uploads the report; skipped tests are
+ * matched or created but not run. Tests an engineer is fixing keep their
+ * status, as CI keeps failing until the fix lands.
+ */
+const ingestTestResults = asyncHandler(async (req: UploadRequest<IngestTestResultsBody>, res) => {
+  let results;
+  try {
+    results = ciResultService.parseTestReport(req.file);
+  } catch (parseError) {
+    throw new ApiError(400, (parseError as Error).message);
+  }
+
+  let executor: Pick<UserRow, 'id'> = req.user;
+  if (!req.user.is_service_account) {
+    try {
+      executor = await ciResultService.getServiceAccount();
+    } catch (accountError) {
+      throw new ApiError(500, (accountError as Error).message);
+    }
+  }
+
+  const existingTests = await findTestsByExternalKey(req.project.id, results.map((result) => result.key));
+
+  // Create test cases for keys reported for the first time
+  const createdTests = new Map<string | null, TestRow>();
+  const newResults = results.filter((result) => !existingTests.has(result.key));
+  if (newResults.length > 0) {
+    let tests;
+    try {
+      tests = await testRepository.createMany(newResults.map((result) => ({
+        project_id: req.project.id,
+        module_platform: req.body.module_platform || result.module || 'Automated',
+        test_case: result.name,
+        expected_result: AUTOMATED_EXPECTED_RESULT,
+        origin: 'automated',
+        external_key: result.key,
+        assigned_to: executor.id,
+        created_by: req.user.id,
+      })), { fields: AUDIT_FIELDS });
+    } catch (createError) {
+      if ((createError as { code?: string }).code === '23505') {
+        throw new ApiError(409, 'Another report is creating the same test cases, try again');
+      }
+      throw createError;
+    }
+
+    tests.forEach((test) => createdTests.set(test.external_key, test));
+  }
+
+  // Every reported key has a test case by now
+  const testFor = (result: ciResultService.TestResult) =>
+    (existingTests.get(result.key) || createdTests.get(result.key)) as TestRow;
+
+  // Manual tests linked to a key are automated from now on
+  const linkedManualIds = [...existingTests.values()]
+    .filter((test) => test.origin === 'manual')
+    .map((test) => test.id);
+
+  for (const batch of inBatches(linkedManualIds)) {
+    await testRepository.updateMany(batch, { origin: 'automated' });
+  }
+
+  // Record a run for every pass and failure, and mirror the latest run on
+  // the test cases in the same statement, following the fix workflow; a
+  // test an engineer is fixing stays in fix
+  const executed = results.filter((result) => result.status !== 'skip');
+  const changes: TestResultChange[] = executed
+    .filter((result) => testFor(result).status !== 'in_fix')
+    .map((result) => {
+      const test = testFor(result);
+      return {
+        id: test.id,
+        from_status: test.status,
+        status: result.status as TestStatus,
+        notes: result.status === 'fail' ? result.message : null,
+        ...(endsFix(test) ? NO_FIX : {
+          fix_owner: test.fix_owner,
+          fix_reference: test.fix_reference,
+          fix_notes: test.fix_notes,
+          fixed_at: test.fixed_at,
+        }),
+      };
+    });
+
+  let runs: TestRun[] = [];
+  if (executed.length > 0) {
+    runs = await testRepository.recordResults(executed.map((result) => ({
+      test_case_id: testFor(result).id,
+      executed_by: executor.id,
+      status: result.status as TestStatus,
+      notes: result.message,
+      duration_seconds: result.duration_seconds,
+    })), changes).catch(() => {
+      throw new ApiError(500, 'Failed to record test results');
+    });
+  }
+
+  const changeFor = new Map(changes.map(({ from_status, ...change }) => [change.id, change]));
+
+  // Reflect the runs in active test plans
+  for (const run of runs) {
+    await testPlanService.recordPlanResult(run.test_case_id, run.status, run.id);
+  }
+
+  const alerts = new Map<string, { test: TestRow; result: ciResultService.TestResult }[]>();
+  const addAlert = (recipientId: string | null, test: TestRow, result: ciResultService.TestResult) => {
+    if (!recipientId || recipientId === executor.id) return;
+    alerts.set(recipientId, [...(alerts.get(recipientId) || []), { test, result }]);
+  };
+
+  for (const result of results) {
+    const before = existingTests.get(result.key) || null;
+    const test = testFor(result);
+    const after = { ...test, origin: 'automated', ...changeFor.get(test.id) };
+
+    await auditService.recordAuditEvent(req, {
+      action: before ? 'update' : 'create',
+      entityType: 'test_case',
+      entityId: test.id,
+      before,
+      after,
+    });
+
+    // New failures go to the PM who owns the test; retests also go to the
+    // engineer who fixed it, as with manual results
+    if (result.status === 'fail' && changeFor.has(test.id) && before?.status !== 'fail') {
+      addAlert(test.created_by, test, result);
+    }
+    if (result.status !== 'skip' && before?.status === 'ready_for_retest') {
+      addAlert(before.fix_owner, test, result);
+    }
+  }
+
+  for (const [recipientId, items] of alerts) {
+    const [{ test, result }] = items;
+    await notificationService.notify({
+      recipientIds: [recipientId],
+      actorId: req.user.id,
+      type: 'test_result',
+      title: items.length === 1
+        ? `Test ${resultLabels[result.status]}: ${test.module_platform}`
+        : `${items.length} automated test results need your attention`,
+      body: items.length === 1 ? result.message || test.test_case : `Reported in ${req.file.originalname}`,
+      testCaseId: items.length === 1 ? test.id : null,
+    });
+  }
+
+  // Push the new state of every test in the report
+  const affectedIds = results.map((result) => testFor(result).id);
+  for (const batch of inBatches(affectedIds)) {
+    const tests = await testRepository.findMany({ ids: batch }, TEST_LISTING).catch(() => null);
+
+    if (!tests) {
+      logger.error('Failed to load test cases for live update');
+      continue;
+    }
+
+    for (const test of tests) {
+      const before = existingTests.get(test.external_key) || null;
+      realtimeService.publishChange({ entity: 'test', before, after: test, canView: canViewTest });
+    }
+  }
+
+  const passed = executed.filter((result) => result.status === 'pass').length;
+  const summary = {
+    received: results.length,
+    matched: existingTests.size,
+    created: createdTests.size,
+    recorded: runs.length,
+    passed,
+    failed: executed.length - passed,
+    skipped: results.length - executed.length,
+  };
+
+  logger.info('Automated test results ingested', { ...summary, fileName: req.file.originalname, ingestedBy: req.user.id });
+
+  res.status(201).json({
+    success: true,
+    message: `${runs.length} automated test results recorded`,
+    data: {
+      summary,
+      results: results.map((result) => ({
+        key: result.key,
+        name: result.name,
+        status: result.status,
+        test_id: testFor(result).id,
+        created: createdTests.has(result.key),
+      })),
+    },
+  });
+});
+
+const testStatusLabels: Record<TestStatus, string> = {
+  pending: 'Not tested',
+  pass: 'Passed',
+  fail: 'Failed',
+  escalated: 'Escalated',
+  in_fix: 'In fix',
+  ready_for_retest: 'Ready for retest',
+};
+
+// Columns of test exports; those with a width are also in the PDF table
+const TEST_EXPORT_COLUMNS: exportService.ExportColumn<TestRow>[] = [
+  { header: 'ID', value: (test) => test.id },
+  { header: 'Module/Platform', value: (test) => test.module_platform, width: 2 },
+  { header: 'Test Case', value: (test) => test.test_case, width: 5 },
+  { header: 'Expected Result', value: (test) => test.expected_result, width: 4 },
+  { header: 'Status', value: (test) => testStatusLabels[test.status], width: 1.5 },
+  { header: 'Origin', value: (test) => (test.origin === 'automated' ? 'Automated' : 'Manual'), width: 1.5 },
+  { header: 'External Key', value: (test) => test.external_key },
+  { header: 'Assignee', value: (test) => test.assignee?.name, width: 2 },
+  { header: 'Assignee Email', value: (test) => test.assignee?.email },
+  { header: 'Created By', value: (test) => test.creator?.name },
+  { header: 'Suites', value: (test) => (test.suites || []).map((suite) => suite.name).join('; ') },
+  { header: 'Steps', value: (test) => (test.steps || []).length },
+  { header: 'Evidence', value: (test) => test.evidence_url },
+  { header: 'Notes', value: (test) => test.notes },
+  { header: 'Fix Owner', value: (test) => test.fixer?.name, width: 2 },
+  { header: 'Fix Reference', value: (test) => test.fix_reference },
+  { header: 'Created At', value: (test) => exportService.formatTimestamp(test.created_at) },
+  { header: 'Updated At', value: (test) => exportService.formatTimestamp(test.updated_at), width: 2 },
+];
+
+/**
+ * Release readiness of a set of tests: anything failing blocks the
+ * release, untested cases put it at risk.
+ */
+const testReadiness = (tests: TestRow[]) => {
+  const counts = Object.fromEntries(Object.keys(testStatusLabels).map((status) => [status, 0]));
+  tests.forEach((test) => { counts[test.status] += 1; });
+
+  const blocking = counts.fail + counts.escalated + counts.in_fix + counts.ready_for_retest;
+  const passRate = tests.length > 0 ? Math.round((counts.pass / tests.length) * 100) : 0;
+
+  let verdict: exportService.Verdict;
+  if (tests.length === 0) {
+    verdict = { level: 'at_risk', label: 'No test coverage', reason: 'No test cases match the selected filters.' };
+  } else if (blocking > 0) {
+    verdict = { level: 'not_ready', label: 'Not ready for release', reason: `${blocking} test cases are failing, escalated or waiting on a fix.` };
+  } else if (counts.pending > 0) {
+    verdict = { level: 'at_risk', label: 'At risk', reason: `${counts.pending} test cases have not been run yet.` };
+  } else {
+    verdict = { level: 'ready', label: 'Ready for release', reason: 'Every test case passed.' };
+  }
+
+  return {
+    verdict,
+    summary: [
+      { label: 'Test cases', value: tests.length },
+      { label: 'Pass rate', value: `${passRate}%` },
+      ...Object.entries(testStatusLabels).map(([status, label]) => ({ label, value: counts[status] })),
+    ],
+  };
+};
+
+/**
+ * @desc    Export test cases as CSV, JSON or a PDF release-readiness report
+ * @route   GET /api/tests/export?format=csv|json|pdf
+ * @access  Private (same role scoping and filters as GET /api/tests)
+ */
+const exportTests = asyncHandler(async (req: ProjectRequest<unknown, TestFilterQuery & ExportQuery>, res) => {
+  const { format = 'csv', status, module_platform, origin, search, suite_id } = req.query;
+
+  const suiteTestIds = await getSuiteTestIds(req.project.id, suite_id);
+  const { where, order } = visibleTestsQuery(req.project.id, req.user, req.query, suiteTestIds);
+
+  const { rows: tests, total } = await testRepository.findPage(where, {
+    ...TEST_LISTING,
+    ...order,
+    offset: 0,
+    limit: exportService.MAX_EXPORT_ROWS,
+  });
+
+  if (total > exportService.MAX_EXPORT_ROWS) {
+    throw new ApiError(400, `${total} test cases match these filters, more than the ${exportService.MAX_EXPORT_ROWS} an export can hold. Narrow the filters and export again.`);
+  }
+
+  const filters = { status, module_platform, origin, search, suite_id };
+  const exportedAt = new Date().toISOString();
+  const { verdict, summary } = testReadiness(tests);
+
+  logger.info('Tests exported', { format, count: tests.length, filters, exportedBy: req.user.id });
+
+  await exportService.sendExport(res, {
+    format,
+    fileName: `qualitysync-tests-${exportedAt.slice(0, 10)}`,
+    data: { exported_at: exportedAt, filters, count: tests.length, tests },
+    rows: tests,
+    columns: TEST_EXPORT_COLUMNS,
+    report: {
+      title: 'Release Readiness Report',
+      subtitle: `${req.project.name} · Generated ${exportService.formatTimestamp(exportedAt)} UTC by ${req.user.name} · ${tests.length} test cases · Filters: ${exportService.describeFilters(filters)}`,
+      verdict,
+      summary,
+    },
+  });
+});
+
+/**
+ * @desc    Get dashboard statistics
+ * @route   GET /api/tests/stats
+ * @access  Private (tests.stats)
+ */
+const getStats = asyncHandler(async (req: ProjectRequest, res) => {
+  const stats = await testRepository.findStats(req.project.id).catch(() => null);
+
+  if (!stats) {
+    throw new ApiError(500, 'Failed to fetch statistics');
+  }
+
+  res.json({
+    success: true,
+    data: { stats },
+  });
+});
+
+export {
+  getTests,
+  getTest,
+  createTest,
+  updateTestResult,
+  getTestRuns,
+  claimTestFix,
+  markTestFixed,
+  updateTest,
+  deleteTest,
+  importTests,
+  ingestTestResults,
+  exportTests,
+  getStats,
+  publishTestChange,
+  getProjectAssignee,
+  ENG_VISIBLE_STATUSES,
+};
@@ -0,0 +1,212 @@
+import { userRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as sessionService from '../services/sessionService';
+import * as twoFactorService from '../services/twoFactorService';
+import logger from '../utils/logger';
+import { verifyPassword } from '../utils/password';
+import type { AuthenticatedRequest, DisableTwoFactorBody, TwoFactorCodeBody } from '../types';
+
+const TWO_FACTOR_FIELDS = 'id, email, name, role, password_hash, is_service_account, totp_secret, totp_last_step, two_factor_enabled';
+
+const getTwoFactorUser = async (userId: string) => {
+  const user = await userRepository.findById(userId, { fields: TWO_FACTOR_FIELDS });
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  return user;
+};
+
+const auditTwoFactorChange = (req: AuthenticatedRequest, enabled: boolean) =>
+  auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'user',
+    entityId: req.user.id,
+    before: { two_factor_enabled: !enabled },
+    after: { two_factor_enabled: enabled },
+  });
+
+/**
+ * @desc    Get two-factor authentication status
+ * @route   GET /api/auth/2fa
+ * @access  Private
+ */
+const getStatus = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await getTwoFactorUser(req.user.id);
+
+  let recoveryCodesRemaining = 0;
+  if (user.two_factor_enabled) {
+    try {
+      recoveryCodesRemaining = await twoFactorService.countRecoveryCodes(user.id);
+    } catch (err) {
+      throw new ApiError(500, (err as Error).message);
+    }
+  }
+
+  res.json({
+    success: true,
+    data: {
+      enabled: user.two_factor_enabled,
+      required: twoFactorService.isRequiredFor(req.user),
+      recovery_codes_remaining: recoveryCodesRemaining,
+    },
+  });
+});
+
+/**
+ * @desc    Start two-factor enrollment with a new secret
+ * @route   POST /api/auth/2fa/setup
+ * @access  Private
+ *
+ * Nothing changes at sign-in until a code is confirmed with /2fa/enable.
+ */
+const startSetup = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await getTwoFactorUser(req.user.id);
+
+  if (user.two_factor_enabled) {
+    throw new ApiError(400, 'Two-factor authentication is already enabled');
+  }
+
+  let setup;
+  try {
+    setup = await twoFactorService.startSetup(user);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      secret: setup.secret,
+      otpauth_url: setup.otpauthUrl,
+      qr_code: setup.qrCode,
+    },
+  });
+});
+
+/**
+ * @desc    Confirm enrollment with a code and enable two-factor authentication
+ * @route   POST /api/auth/2fa/enable
+ * @access  Private
+ *
+ * Returns the recovery codes, which are not shown again. Other sessions
+ * are signed out since they were started with the password alone.
+ */
+const enable = asyncHandler(async (req: AuthenticatedRequest<TwoFactorCodeBody>, res) => {
+  const user = await getTwoFactorUser(req.user.id);
+
+  if (user.two_factor_enabled) {
+    throw new ApiError(400, 'Two-factor authentication is already enabled');
+  }
+
+  if (!user.totp_secret) {
+    throw new ApiError(400, 'Start the setup first');
+  }
+
+  if (!(await twoFactorService.verifyTotp(user, req.body.code))) {
+    throw new ApiError(400, 'Invalid code. Check the time on your device and try again.');
+  }
+
+  let recoveryCodes;
+  try {
+    recoveryCodes = await twoFactorService.enable(user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  try {
+    await sessionService.revokeAllSessions(user.id, { exceptId: req.sessionId });
+  } catch (err) {
+    logger.error('Failed to sign out other sessions after enabling 2FA', { userId: user.id, error: (err as Error).message });
+  }
+
+  await auditTwoFactorChange(req, true);
+
+  logger.info('Two-factor authentication enabled', { userId: user.id });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication enabled',
+    data: { recovery_codes: recoveryCodes },
+  });
+});
+
+/**
+ * @desc    Disable two-factor authentication
+ * @route   POST /api/auth/2fa/disable
+ * @access  Private
+ */
+const disable = asyncHandler(async (req: AuthenticatedRequest<DisableTwoFactorBody>, res) => {
+  const { password, code } = req.body;
+  const user = await getTwoFactorUser(req.user.id);
+
+  if (!user.two_factor_enabled) {
+    throw new ApiError(400, 'Two-factor authentication is not enabled');
+  }
+
+  if (twoFactorService.isRequiredFor(req.user)) {
+    throw new ApiError(403, 'Two-factor authentication is required for your role');
+  }
+
+  const isValidPassword = await verifyPassword(user.password_hash, password);
+  if (!isValidPassword || !(await twoFactorService.verifyTotp(user, code))) {
+    throw new ApiError(400, 'Invalid password or code');
+  }
+
+  try {
+    await twoFactorService.disable(user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  await auditTwoFactorChange(req, false);
+
+  logger.info('Two-factor authentication disabled', { userId: user.id });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled',
+  });
+});
+
+/**
+ * @desc    Replace the recovery codes
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @access  Private
+ */
+const regenerateRecoveryCodes = asyncHandler(async (req: AuthenticatedRequest<TwoFactorCodeBody>, res) => {
+  const user = await getTwoFactorUser(req.user.id);
+
+  if (!user.two_factor_enabled) {
+    throw new ApiError(400, 'Two-factor authentication is not enabled');
+  }
+
+  if (!(await twoFactorService.verifyTotp(user, req.body.code))) {
+    throw new ApiError(400, 'Invalid code');
+  }
+
+  let recoveryCodes;
+  try {
+    recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  logger.info('Recovery codes regenerated', { userId: user.id });
+
+  res.json({
+    success: true,
+    message: 'New recovery codes created. The old codes no longer work.',
+    data: { recovery_codes: recoveryCodes },
+  });
+});
+
+export {
+  getStatus,
+  startSetup,
+  enable,
+  disable,
+  regenerateRecoveryCodes,
+};
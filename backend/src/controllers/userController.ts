@@ -0,0 +1,393 @@
+import { userRepository, testRepository, projectRepository } from '../repositories';
+import { asyncHandler, ApiError } from '../middleware/errorHandler';
+import * as auditService from '../services/auditService';
+import * as loginSecurityService from '../services/loginSecurityService';
+import * as permissionService from '../services/permissionService';
+import * as projectService from '../services/projectService';
+import * as realtimeService from '../services/realtimeService';
+import logger from '../utils/logger';
+import { NO_PASSWORD } from '../utils/password';
+import type { UserFilters } from '../repositories/types';
+import type {
+  AuthenticatedRequest,
+  CreateUserBody,
+  LoginHistoryQuery,
+  ProjectRequest,
+  UpdateUserBody,
+  UserListQuery,
+  UserRow,
+  ValidatedRequest,
+} from '../types';
+
+// User columns captured in the audit log (never credentials or tokens)
+const AUDIT_FIELDS = 'id, email, name, role, role_id, is_verified, is_service_account';
+
+// User as returned by GET /api/users/:id
+const USER_FIELDS = 'id, email, name, role, role_id, is_verified, is_service_account, created_at, updated_at';
+
+/**
+ * @desc    Get all users (with pagination)
+ * @route   GET /api/users
+ * @access  Private (users.manage)
+ */
+const getUsers = asyncHandler(async (req: ValidatedRequest<unknown, UserListQuery>, res) => {
+  const page = req.query.page || 1;
+  const limit = req.query.limit || 10;
+  const offset = (page - 1) * limit;
+  const role = req.query.role;
+  const search = req.query.search;
+
+  const where: UserFilters = {};
+
+  // Filter by role
+  if (role && ['PM', 'QA', 'ENG'].includes(role)) {
+    where.role = role;
+  }
+
+  // Filter people or service accounts
+  if (req.query.service_account) {
+    where.isServiceAccount = req.query.service_account === 'true';
+  }
+
+  // Search by name or email
+  if (search) {
+    where.search = search;
+  }
+
+  const { rows: users, total: count } = await userRepository.findPage(where, {
+    fields: 'id, email, name, role, role_id, is_verified, is_service_account, locked_until, created_at',
+    sort: 'created_at',
+    offset,
+    limit,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      users,
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    },
+  });
+});
+
+/**
+ * @desc    Get QA testers of the current project (for assignment dropdowns)
+ * @route   GET /api/users/qa-testers
+ * @access  Private (tests.assign in the project)
+ */
+const getQATesters = asyncHandler(async (req: ProjectRequest, res) => {
+  const members = await projectRepository.findMembers(
+    { projectId: req.project.id, role: 'QA' },
+    { fields: 'user_id', with: ['user'] }
+  ).catch(() => {
+    throw new ApiError(500, 'Failed to fetch QA testers');
+  });
+
+  const testers = members
+    .map(({ user }) => user!)
+    .filter((user) => user.is_verified && !user.is_service_account)
+    .map(({ id, email, name }) => ({ id, email, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  res.json({
+    success: true,
+    data: { testers },
+  });
+});
+
+/**
+ * @desc    Get single user
+ * @route   GET /api/users/:id
+ * @access  Private (users.manage)
+ */
+const getUser = asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const user = await userRepository.findById(id, { fields: USER_FIELDS });
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  res.json({
+    success: true,
+    data: { user },
+  });
+});
+
+/**
+ * @desc    Create a service account
+ * @route   POST /api/users
+ * @access  Private (users.manage)
+ *
+ * Service accounts get no password; they can only use the API with tokens
+ * created for them. People are invited with POST /api/users/invite and
+ * choose their own password. QA service accounts get the built-in
+ * Automation role, which can record CI results. With a project_id the
+ * account joins that project with its role.
+ */
+const createUser = asyncHandler(async (req: AuthenticatedRequest<CreateUserBody>, res) => {
+  const { email, name, role, is_service_account: isServiceAccount = false, project_id: projectId } = req.body;
+
+  if (!isServiceAccount) {
+    throw new ApiError(400, 'Invite people with POST /api/users/invite so they can set their own password');
+  }
+
+  logger.info('Attempting to create service account', { email, name, role });
+
+  // Check if user exists
+  const existingUser = await userRepository.findOne({ email });
+
+  if (existingUser) {
+    throw new ApiError(409, 'User with this email already exists');
+  }
+
+  let project = null;
+  if (projectId) {
+    try {
+      project = await projectService.getProject(projectId);
+    } catch (err) {
+      throw new ApiError(500, (err as Error).message);
+    }
+    if (!project) {
+      throw new ApiError(400, 'Project not found');
+    }
+  }
+
+  let roleId = null;
+  if (role === 'QA') {
+    try {
+      roleId = await permissionService.getServiceAccountRoleId();
+    } catch (err) {
+      throw new ApiError(500, (err as Error).message);
+    }
+  }
+
+  logger.info('Inserting new user into database', { email, role });
+
+  const user = await userRepository.create({
+    email,
+    password_hash: NO_PASSWORD,
+    name,
+    role,
+    ...(roleId ? { role_id: roleId } : {}),
+    is_verified: true,
+    is_service_account: true,
+  }, { fields: 'id, email, name, role, is_verified, is_service_account, created_at' });
+
+  await auditService.recordAuditEvent(req, {
+    action: 'create',
+    entityType: 'user',
+    entityId: user.id,
+    after: user,
+  });
+
+  if (project) {
+    try {
+      await projectService.setMember(project.id, user.id, { roleId, role }, req.user.id);
+    } catch (memberError) {
+      throw new ApiError(500, `Service account created, but ${(memberError as Error).message.toLowerCase()}`);
+    }
+  }
+
+  logger.info('Service account created by PM', { createdBy: req.user.id, userId: user.id });
+
+  res.status(201).json({
+    success: true,
+    message: 'Service account created. Create an API token for it to use the API.',
+    data: { user },
+  });
+});
+
+/**
+ * @desc    Update user
+ * @route   PUT /api/users/:id
+ * @access  Private (users.manage)
+ */
+const updateUser = asyncHandler(async (req: AuthenticatedRequest<UpdateUserBody>, res) => {
+  const { id } = req.params;
+  const { name, role, role_id: roleId } = req.body;
+
+  // Check if user exists
+  const existingUser = await userRepository.findById(id, { fields: AUDIT_FIELDS });
+
+  if (!existingUser) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  // Update user
+  const updateData: Partial<UserRow> = {};
+  if (name) updateData.name = name;
+
+  // A named role sets the base role with it
+  if (roleId) {
+    let accountRole;
+    try {
+      accountRole = await permissionService.getRole(roleId);
+    } catch (err) {
+      throw new ApiError(500, (err as Error).message);
+    }
+
+    if (!accountRole) {
+      throw new ApiError(400, 'Role not found');
+    }
+
+    updateData.role_id = roleId;
+  } else if (role && ['PM', 'QA', 'ENG'].includes(role)) {
+    updateData.role = role;
+  }
+
+  const user = await userRepository.update(id, updateData, { fields: USER_FIELDS });
+
+  // Open streams keep the permissions of the role the user connected with
+  if (updateData.role_id || updateData.role) realtimeService.closeUser(id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'user',
+    entityId: id,
+    before: existingUser,
+    after: user,
+  });
+
+  logger.info('User updated', { updatedBy: req.user.id, userId: id });
+
+  res.json({
+    success: true,
+    message: 'User updated successfully',
+    data: { user },
+  });
+});
+
+/**
+ * @desc    Get a user's sign-in history
+ * @route   GET /api/users/:id/login-history
+ * @access  Private (users.manage)
+ */
+const getLoginHistory = asyncHandler(async (req: ValidatedRequest<unknown, LoginHistoryQuery>, res) => {
+  const { id } = req.params;
+
+  const user = await userRepository.findById(id, { fields: `id, ${loginSecurityService.LOCKOUT_FIELDS}` });
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  let attempts;
+  try {
+    attempts = await loginSecurityService.getLoginHistory(id, { limit: req.query.limit || 50 });
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      attempts,
+      failed_login_attempts: user.failed_login_attempts,
+      locked_until: loginSecurityService.getLockedUntil(user),
+    },
+  });
+});
+
+/**
+ * @desc    Unlock an account locked after failed sign-in attempts
+ * @route   POST /api/users/:id/unlock
+ * @access  Private (users.manage)
+ */
+const unlockUser = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const user = await userRepository.findById(id, { fields: `${AUDIT_FIELDS}, ${loginSecurityService.LOCKOUT_FIELDS}` });
+
+  if (!user) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  if (!loginSecurityService.getLockedUntil(user)) {
+    throw new ApiError(400, 'Account is not locked');
+  }
+
+  try {
+    await loginSecurityService.unlockAccount(id);
+  } catch (err) {
+    throw new ApiError(500, (err as Error).message);
+  }
+
+  await auditService.recordAuditEvent(req, {
+    action: 'update',
+    entityType: 'user',
+    entityId: id,
+    before: { locked_until: user.locked_until, failed_login_attempts: user.failed_login_attempts },
+    after: { locked_until: null, failed_login_attempts: 0 },
+  });
+
+  logger.info('Account unlocked', { unlockedBy: req.user.id, userId: id });
+
+  res.json({
+    success: true,
+    message: `${user.name}'s account was unlocked`,
+  });
+});
+
+/**
+ * @desc    Delete user
+ * @route   DELETE /api/users/:id
+ * @access  Private (users.manage)
+ */
+const deleteUser = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  // Prevent self-deletion
+  if (id === req.user.id) {
+    throw new ApiError(400, 'You cannot delete your own account');
+  }
+
+  // Check if user exists
+  const existingUser = await userRepository.findById(id, { fields: AUDIT_FIELDS });
+
+  if (!existingUser) {
+    throw new ApiError(404, 'User not found');
+  }
+
+  // Check if user has assigned tests or bugs
+  const assignedTests = await testRepository.findMany({ assignedTo: id }, { limit: 1 });
+
+  if (assignedTests.length > 0) {
+    throw new ApiError(400, 'Cannot delete user with assigned test cases. Reassign tests first.');
+  }
+
+  // Delete user
+  await userRepository.remove(id);
+  realtimeService.closeUser(id);
+
+  await auditService.recordAuditEvent(req, {
+    action: 'delete',
+    entityType: 'user',
+    entityId: id,
+    before: existingUser,
+  });
+
+  logger.info('User deleted', { deletedBy: req.user.id, userId: id });
+
+  res.json({
+    success: true,
+    message: 'User deleted successfully',
+  });
+});
+
+export {
+  getUsers,
+  getQATesters,
+  getUser,
+  createUser,
+  updateUser,
+  getLoginHistory,
+  unlockUser,
+  deleteUser,
+};
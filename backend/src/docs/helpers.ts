@@ -0,0 +1,222 @@
+/**
+ * Builders for the OpenAPI document, so paths and schemas read close to
+ * the validations they describe
+ */
+
+// The parts of OpenAPI 3.0 the document uses
+
+export interface Schema {
+  $ref?: string;
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+  format?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number | boolean)[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: Schema;
+  allOf?: Schema[];
+  oneOf?: Schema[];
+}
+
+export interface Parameter {
+  $ref?: string;
+  name?: string;
+  in?: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema?: Schema;
+}
+
+type Content = Record<string, { schema: Schema }>;
+
+export interface ResponseObject {
+  $ref?: string;
+  description?: string;
+  content?: Content;
+}
+
+export interface Operation {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  security?: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: Content };
+  responses: Record<string, ResponseObject>;
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Operations by path, then by method
+export type Paths = Record<string, Partial<Record<HttpMethod, Operation>>>;
+
+interface OperationSpec {
+  id: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  permission?: string;
+  project?: boolean;
+  auth?: boolean;
+  params?: Parameter[];
+  query?: Schema;
+  body?: Schema;
+  multipart?: boolean;
+  status?: number;
+  response?: Schema;
+  message?: boolean;
+  file?: { description: string; types: string[] };
+  responses?: Record<string, ResponseObject>;
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+// OpenAPI 3.0 cannot mark a $ref nullable directly
+const nullable = (schema: Schema): Schema => (schema.$ref
+  ? { allOf: [schema], nullable: true }
+  : { ...schema, nullable: true });
+
+const string = (options: Schema = {}): Schema => ({ type: 'string', ...options });
+const uuid = (options: Schema = {}) => string({ format: 'uuid', ...options });
+const dateTime = (options: Schema = {}) => string({ format: 'date-time', ...options });
+const integer = (options: Schema = {}): Schema => ({ type: 'integer', ...options });
+const boolean = (options: Schema = {}): Schema => ({ type: 'boolean', ...options });
+const array = (items: Schema, options: Schema = {}): Schema => ({ type: 'array', items, ...options });
+const oneOf = (...schemas: Schema[]): Schema => ({ oneOf: schemas });
+const enumOf = (values: readonly string[], options: Schema = {}) => string({ enum: values, ...options });
+
+// Any JSON value
+const anyValue = (options: Schema = {}): Schema => ({ ...options });
+
+/**
+ * Object with always-present and optional properties
+ */
+const object = (
+  required: Record<string, Schema>,
+  optional: Record<string, Schema> = {},
+  options: Schema = {}
+) => {
+  const schema: Schema = { type: 'object', properties: { ...required, ...optional }, ...options };
+  if (Object.keys(required).length > 0) {
+    schema.required = Object.keys(required);
+  }
+  return schema;
+};
+
+// A schema that extends another one with more properties
+const extend = (name: string, required: Record<string, Schema>, optional: Record<string, Schema> = {}): Schema => ({ allOf: [ref(name), object(required, optional)] });
+
+// Object whose keys are free-form
+const record = (values: Schema): Schema => ({ type: 'object', additionalProperties: values });
+
+// Every response has this shape; `data` holds the payload
+const envelope = (data: Schema | undefined, { message = false } = {}): Schema => ({
+  type: 'object',
+  properties: { success: boolean(), message: string(), ...(data ? { data } : {}) },
+  required: ['success', ...(message ? ['message'] : []), ...(data ? ['data'] : [])],
+});
+
+const pathParam = (name: string, description: string, schema = uuid()): Parameter => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema,
+});
+
+/**
+ * Operation with its parameters, request body and responses. `query` and
+ * `body` are objects as built by `object()`; `multipart` sends the body as
+ * form data. `response` is the `data` of a successful response, `message`
+ * marks responses that carry a message; `file` describes a download.
+ */
+function operation({
+  id,
+  summary,
+  description,
+  tag,
+  permission,
+  project = false,
+  auth = true,
+  params = [],
+  query,
+  body,
+  multipart = false,
+  status = 200,
+  response,
+  message = false,
+  file,
+  responses = {},
+}: OperationSpec): Operation {
+  const notes = [description, permission && `Requires the \`${permission}\` permission.`].filter(Boolean);
+
+  const parameters: Parameter[] = [
+    ...params,
+    ...Object.entries(query?.properties ?? {}).map(([name, schema]): Parameter => ({
+      name,
+      in: 'query',
+      required: (query?.required || []).includes(name),
+      ...(schema.description ? { description: schema.description } : {}),
+      schema,
+    })),
+    ...(project ? [{ $ref: '#/components/parameters/ProjectId' }] : []),
+  ];
+
+  const success = file
+    ? { description: file.description, content: Object.fromEntries(file.types.map((type) => [type, { schema: string({ format: 'binary' }) }])) }
+    : { description: summary, content: { 'application/json': { schema: envelope(response, { message }) } } };
+
+  return {
+    operationId: id,
+    tags: [tag],
+    summary,
+    ...(notes.length > 0 ? { description: notes.join('\n\n') } : {}),
+    ...(auth ? {} : { security: [] }),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body ? {
+      requestBody: {
+        required: (body.required || []).length > 0,
+        content: { [multipart ? 'multipart/form-data' : 'application/json']: { schema: body } },
+      },
+    } : {}),
+    responses: {
+      [status]: success,
+      ...(body || query || params.length > 0 ? { 400: { $ref: '#/components/responses/ValidationError' } } : {}),
+      ...(auth ? { 401: { $ref: '#/components/responses/Unauthorized' } } : {}),
+      ...(permission || project ? { 403: { $ref: '#/components/responses/Forbidden' } } : {}),
+      ...(params.length > 0 ? { 404: { $ref: '#/components/responses/NotFound' } } : {}),
+      ...responses,
+    },
+  };
+}
+
+export {
+  ref,
+  nullable,
+  string,
+  uuid,
+  dateTime,
+  integer,
+  boolean,
+  array,
+  oneOf,
+  enumOf,
+  anyValue,
+  object,
+  extend,
+  record,
+  envelope,
+  pathParam,
+  operation,
+};
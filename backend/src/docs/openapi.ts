@@ -0,0 +1,105 @@
+/**
+ * OpenAPI Document
+ *
+ * Describes every route mounted under /api. It is served at /api/docs,
+ * checked against the routes and their validations with
+ * `npm run openapi:check`, and the frontend API client is generated from
+ * it with `npm run openapi:client`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ref, type Paths, type ResponseObject } from './helpers';
+import schemas from './schemas';
+import healthPaths from './paths/health';
+import authPaths from './paths/auth';
+import usersPaths from './paths/users';
+import testsPaths from './paths/tests';
+import bugsPaths from './paths/bugs';
+import suitesPaths from './paths/suites';
+import plansPaths from './paths/plans';
+import commentsPaths from './paths/comments';
+import auditPaths from './paths/audit';
+import notificationsPaths from './paths/notifications';
+import eventsPaths from './paths/events';
+import tokensPaths from './paths/tokens';
+import projectsPaths from './paths/projects';
+import rolesPaths from './paths/roles';
+
+// Read at runtime, as package.json lies outside the compiled sources
+const { version } = JSON.parse(fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf8'));
+
+const pathGroups = [
+  healthPaths,
+  authPaths,
+  usersPaths,
+  testsPaths,
+  bugsPaths,
+  suitesPaths,
+  plansPaths,
+  commentsPaths,
+  auditPaths,
+  notificationsPaths,
+  eventsPaths,
+  tokensPaths,
+  projectsPaths,
+  rolesPaths,
+];
+
+const errorResponse = (description: string): ResponseObject => ({
+  description,
+  content: { 'application/json': { schema: ref('ErrorResponse') } },
+});
+
+export default {
+  openapi: '3.0.3',
+  info: {
+    title: 'QualitySync API',
+    version,
+    description: 'Every JSON response has a `success` flag, an optional `message` and the payload in `data`. Errors also list the invalid `errors` fields when validation fails.',
+  },
+  servers: [{ url: '/api' }],
+  tags: [
+    { name: 'Meta' },
+    { name: 'Auth', description: 'Sign-in, sessions and two-factor authentication' },
+    { name: 'Users', description: 'Accounts and invitations' },
+    { name: 'Tests' },
+    { name: 'Bugs' },
+    { name: 'Suites' },
+    { name: 'Plans' },
+    { name: 'Comments' },
+    { name: 'Audit' },
+    { name: 'Notifications' },
+    { name: 'Events' },
+    { name: 'API Tokens', description: 'Tokens for scripts and CI jobs' },
+    { name: 'Projects' },
+    { name: 'Roles' },
+  ],
+  security: [{ bearerAuth: [] }],
+  paths: Object.assign({}, ...pathGroups) as Paths,
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'An access token from signing in, or an API token (`qs_...`) limited to its scopes',
+      },
+    },
+    parameters: {
+      ProjectId: {
+        name: 'X-Project-Id',
+        in: 'header',
+        required: false,
+        description: 'Project the request works in; defaults to the first project of the user',
+        schema: { type: 'string', format: 'uuid' },
+      },
+    },
+    responses: {
+      ValidationError: errorResponse('Invalid request; `errors` lists the invalid fields'),
+      Unauthorized: errorResponse('Missing, invalid or expired token'),
+      Forbidden: errorResponse('Not allowed for your role, scopes or project'),
+      NotFound: errorResponse('Not found'),
+    },
+    schemas,
+  },
+};
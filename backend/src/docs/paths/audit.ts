@@ -0,0 +1,33 @@
+import {
+  ref,
+  string,
+  uuid,
+  dateTime,
+  array,
+  object,
+  operation,
+  type Paths,
+} from '../helpers';
+import { pagination } from './shared';
+
+export default {
+  '/audit': {
+    get: operation({
+      id: 'audit.getAll',
+      tag: 'Audit',
+      summary: 'List audit events with pagination and filters',
+      permission: 'audit.view',
+      query: object({}, {
+        ...pagination,
+        action: ref('AuditAction'),
+        entity_type: ref('AuditEntityType'),
+        entity_id: uuid(),
+        actor_id: uuid(),
+        request_id: string({ maxLength: 100 }),
+        from: dateTime(),
+        to: dateTime(),
+      }),
+      response: object({ events: array(ref('AuditEvent')), pagination: ref('Pagination') }),
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,327 @@
+import {
+  ref,
+  string,
+  uuid,
+  integer,
+  boolean,
+  array,
+  oneOf,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+import { newPassword } from './shared';
+
+const email = string({ format: 'email' });
+const token = string({ minLength: 1 });
+const code = string({ pattern: '^\\d{6}$', description: 'Current code from the authenticator app' });
+const recoveryCodes = object({ recovery_codes: array(string(), { description: 'Shown only once' }) });
+
+// Redirects go back to the frontend login page with an sso_error on failure
+const redirect = (description: string) => ({ 302: { description } });
+
+const tag = 'Auth';
+const sessionOnly = 'Only available to signed-in sessions, not to API tokens.';
+
+export default {
+  '/auth/register': {
+    post: operation({
+      id: 'auth.register',
+      tag,
+      summary: 'Register an account',
+      description: 'The account can sign in once its email address is verified.',
+      auth: false,
+      body: object({
+        email,
+        password: newPassword,
+        name: string({ minLength: 2, maxLength: 100 }),
+        role: ref('UserRole'),
+      }),
+      status: 201,
+      response: object({
+        user: object({
+          id: uuid(),
+          email,
+          name: string(),
+          role: ref('UserRole'),
+          is_verified: boolean(),
+        }),
+      }),
+      message: true,
+    }),
+  },
+
+  '/auth/login': {
+    post: operation({
+      id: 'auth.login',
+      tag,
+      summary: 'Sign in with email and password',
+      description: 'Starts a session and sets the refresh token cookie. With two-factor authentication enabled a challenge is returned instead, to finish at /auth/login/2fa. Locked accounts get a 423.',
+      auth: false,
+      body: object({
+        email,
+        password: string({ minLength: 6 }),
+      }),
+      response: oneOf(
+        ref('AuthResult'),
+        object({ two_factor_challenge: string({ description: 'Short-lived token for the second step' }) })
+      ),
+      message: true,
+    }),
+  },
+
+  '/auth/login/2fa': {
+    post: operation({
+      id: 'auth.loginTwoFactor',
+      tag,
+      summary: 'Finish signing in with an authenticator or recovery code',
+      auth: false,
+      body: object({
+        challenge: string({ minLength: 1 }),
+        code: string({ minLength: 1, maxLength: 20, description: 'Authenticator code or a recovery code' }),
+      }),
+      response: ref('AuthResult'),
+      message: true,
+    }),
+  },
+
+  '/auth/verify-email': {
+    post: operation({
+      id: 'auth.verifyEmail',
+      tag,
+      summary: 'Verify an email address with the link token',
+      auth: false,
+      body: object({ token }),
+      message: true,
+    }),
+  },
+
+  '/auth/resend-verification': {
+    post: operation({
+      id: 'auth.resendVerification',
+      tag,
+      summary: 'Send the verification email again',
+      description: 'Answers the same whether or not the account exists.',
+      auth: false,
+      body: object({ email }),
+      message: true,
+    }),
+  },
+
+  '/auth/forgot-password': {
+    post: operation({
+      id: 'auth.forgotPassword',
+      tag,
+      summary: 'Send a password reset email',
+      description: 'Answers the same whether or not the account exists.',
+      auth: false,
+      body: object({ email }),
+      message: true,
+    }),
+  },
+
+  '/auth/reset-password': {
+    post: operation({
+      id: 'auth.resetPassword',
+      tag,
+      summary: 'Set a new password with the reset link token',
+      auth: false,
+      body: object({ token, password: newPassword }),
+      message: true,
+    }),
+  },
+
+  '/auth/invitations/{token}': {
+    get: operation({
+      id: 'invitation.getByToken',
+      tag,
+      summary: 'Preview an invitation before accepting it',
+      auth: false,
+      params: [pathParam('token', 'Token from the invite link', string())],
+      response: object({ invitation: ref('InvitationPreview') }),
+    }),
+  },
+
+  '/auth/accept-invite': {
+    post: operation({
+      id: 'auth.acceptInvite',
+      tag,
+      summary: 'Accept an invitation, creating the account and signing in',
+      auth: false,
+      body: object({
+        token,
+        password: newPassword,
+      }, {
+        name: string({ minLength: 2, maxLength: 100, description: 'Defaults to the name on the invitation' }),
+      }),
+      status: 201,
+      response: ref('AuthResult'),
+      message: true,
+    }),
+  },
+
+  '/auth/refresh': {
+    post: operation({
+      id: 'auth.refresh',
+      tag,
+      summary: 'Get a new access token with the refresh token cookie',
+      description: 'The refresh token is rotated on use.',
+      auth: false,
+      response: ref('AuthResult'),
+    }),
+  },
+
+  '/auth/sso': {
+    get: operation({
+      id: 'sso.getConfig',
+      tag,
+      summary: 'Get whether single sign-on is available',
+      auth: false,
+      response: ref('SsoConfig'),
+    }),
+  },
+
+  '/auth/sso/login': {
+    get: {
+      operationId: 'sso.login',
+      tags: [tag],
+      summary: 'Start single sign-on',
+      description: 'Redirects the browser to the identity provider.',
+      security: [],
+      responses: {
+        ...redirect('Redirect to the identity provider'),
+        404: { $ref: '#/components/responses/NotFound' },
+      },
+    },
+  },
+
+  '/auth/sso/callback': {
+    get: {
+      operationId: 'sso.callback',
+      tags: [tag],
+      summary: 'Finish single sign-on',
+      description: 'Called by the identity provider. Signs in, linking or provisioning the user, and redirects to the frontend, which picks up the session with /auth/refresh. Users with two-factor authentication are sent to the login page with a `two_factor_challenge` for /auth/login/2fa in the URL fragment.',
+      security: [],
+      responses: redirect('Redirect to the frontend'),
+    },
+  },
+
+  '/auth/logout': {
+    post: operation({
+      id: 'auth.logout',
+      tag,
+      summary: 'Sign out, ending the session of the refresh token cookie',
+      auth: false,
+      message: true,
+    }),
+  },
+
+  '/auth/me': {
+    get: operation({
+      id: 'auth.getMe',
+      tag,
+      summary: 'Get the signed-in user',
+      response: object({ user: ref('User') }),
+    }),
+  },
+
+  '/auth/change-password': {
+    put: operation({
+      id: 'auth.changePassword',
+      tag,
+      summary: 'Change your password',
+      description: `Other sessions are signed out. ${sessionOnly}`,
+      body: object({
+        currentPassword: string({ minLength: 1 }),
+        newPassword,
+      }),
+      response: object({ token: string({ description: 'New access token for this session' }) }),
+      message: true,
+    }),
+  },
+
+  '/auth/sessions': {
+    get: operation({
+      id: 'session.getAll',
+      tag,
+      summary: 'List your active sessions',
+      description: sessionOnly,
+      response: object({ sessions: array(ref('AuthSession')) }),
+    }),
+    delete: operation({
+      id: 'session.revokeOthers',
+      tag,
+      summary: 'Sign out every other session',
+      description: sessionOnly,
+      response: object({ count: integer() }),
+      message: true,
+    }),
+  },
+
+  '/auth/sessions/{id}': {
+    delete: operation({
+      id: 'session.revoke',
+      tag,
+      summary: 'Sign out one of your sessions',
+      description: sessionOnly,
+      params: [pathParam('id', 'Session ID')],
+      message: true,
+    }),
+  },
+
+  '/auth/2fa': {
+    get: operation({
+      id: 'twoFactor.getStatus',
+      tag,
+      summary: 'Get your two-factor authentication status',
+      description: sessionOnly,
+      response: ref('TwoFactorStatus'),
+    }),
+  },
+
+  '/auth/2fa/setup': {
+    post: operation({
+      id: 'twoFactor.startSetup',
+      tag,
+      summary: 'Start setting up an authenticator app',
+      description: `It is enabled once a code from the app is confirmed. ${sessionOnly}`,
+      response: ref('TwoFactorSetup'),
+    }),
+  },
+
+  '/auth/2fa/enable': {
+    post: operation({
+      id: 'twoFactor.enable',
+      tag,
+      summary: 'Enable two-factor authentication',
+      description: sessionOnly,
+      body: object({ code }),
+      response: recoveryCodes,
+      message: true,
+    }),
+  },
+
+  '/auth/2fa/disable': {
+    post: operation({
+      id: 'twoFactor.disable',
+      tag,
+      summary: 'Disable two-factor authentication',
+      description: `Not allowed when your role requires it. ${sessionOnly}`,
+      body: object({ password: string({ minLength: 1 }), code }),
+      message: true,
+    }),
+  },
+
+  '/auth/2fa/recovery-codes': {
+    post: operation({
+      id: 'twoFactor.regenerateRecoveryCodes',
+      tag,
+      summary: 'Replace your recovery codes',
+      description: sessionOnly,
+      body: object({ code }),
+      response: recoveryCodes,
+      message: true,
+    }),
+  },
+} satisfies Paths;
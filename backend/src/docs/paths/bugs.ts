@@ -0,0 +1,157 @@
+import {
+  ref,
+  string,
+  uuid,
+  array,
+  enumOf,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+import { MANUAL_BUG_STATUSES } from 'qualitysync-shared';
+import { pagination, jamLink } from './shared';
+
+const id = pathParam('id', 'Bug ID');
+
+// Filters shared by the list and exports
+const bugFilters = {
+  status: ref('BugStatus'),
+  severity: ref('BugSeverity'),
+  module_platform: string({ maxLength: 255 }),
+  search: string({ maxLength: 255, description: 'Matches the description and note' }),
+};
+
+// Statuses a bug can be moved to by hand; converted_to_test is set by converting it
+const editableStatus = enumOf(MANUAL_BUG_STATUSES);
+
+const tag = 'Bugs';
+
+export default {
+  '/bugs': {
+    get: operation({
+      id: 'bug.getAll',
+      tag,
+      summary: 'List bugs with pagination and filters',
+      project: true,
+      query: object({}, { ...pagination, ...bugFilters }),
+      response: object({ bugs: array(ref('Bug')), pagination: ref('Pagination') }),
+    }),
+    post: operation({
+      id: 'bug.create',
+      tag,
+      summary: 'Report a bug',
+      permission: 'bugs.create',
+      project: true,
+      body: object({
+        module_platform: string({ maxLength: 255 }),
+        jam_link: jamLink,
+        description: string({ minLength: 10, maxLength: 2000 }),
+      }, {
+        note: string({ maxLength: 2000 }),
+        severity: ref('BugSeverity'),
+      }),
+      status: 201,
+      response: object({ bug: ref('Bug') }),
+      message: true,
+    }),
+  },
+
+  '/bugs/export': {
+    get: operation({
+      id: 'bug.export',
+      tag,
+      summary: 'Export bugs with the list filters',
+      description: 'Refused with a 400 when more than 5000 bugs match the filters.',
+      project: true,
+      query: object({}, { ...bugFilters, format: ref('ExportFormat') }),
+      file: { description: 'CSV, JSON or PDF file', types: ['text/csv', 'application/json', 'application/pdf'] },
+    }),
+  },
+
+  '/bugs/{id}': {
+    get: operation({
+      id: 'bug.getById',
+      tag,
+      summary: 'Get a bug',
+      project: true,
+      params: [id],
+      response: object({ bug: ref('Bug') }),
+    }),
+    put: operation({
+      id: 'bug.update',
+      tag,
+      summary: 'Update a bug',
+      description: 'Open to PMs and the tester who reported it.',
+      project: true,
+      params: [id],
+      body: object({}, {
+        module_platform: string({ maxLength: 255 }),
+        jam_link: jamLink,
+        description: string({ minLength: 10, maxLength: 2000 }),
+        note: string({ maxLength: 2000 }),
+        severity: ref('BugSeverity'),
+        status: editableStatus,
+      }),
+      response: object({ bug: ref('Bug') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'bug.delete',
+      tag,
+      summary: 'Delete a bug',
+      permission: 'bugs.delete',
+      project: true,
+      params: [id],
+      message: true,
+    }),
+  },
+
+  '/bugs/{id}/history': {
+    get: operation({
+      id: 'bug.getHistory',
+      tag,
+      summary: 'Get the status history of a bug',
+      project: true,
+      params: [id],
+      response: object({ history: array(ref('BugStatusChange')) }),
+    }),
+  },
+
+  '/bugs/{id}/status': {
+    put: operation({
+      id: 'bug.updateStatus',
+      tag,
+      summary: 'Move a bug through its lifecycle',
+      description: 'The permission needed depends on the transition: `bugs.fix` to start and resolve, `bugs.close` to close or send back, `bugs.reopen` to reopen.',
+      project: true,
+      params: [id],
+      body: object({
+        status: editableStatus,
+      }, {
+        note: string({ maxLength: 1000 }),
+      }),
+      response: object({ bug: ref('Bug') }),
+      message: true,
+    }),
+  },
+
+  '/bugs/{id}/convert': {
+    post: operation({
+      id: 'bug.convertToTest',
+      tag,
+      summary: 'Convert a bug into a test',
+      permission: 'bugs.convert',
+      project: true,
+      params: [id],
+      body: object({
+        assigned_to: uuid(),
+        test_case: string({ minLength: 5, maxLength: 2000 }),
+        expected_result: string({ minLength: 5, maxLength: 2000 }),
+      }),
+      status: 201,
+      response: object({ test: ref('TestCase') }),
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,83 @@
+import {
+  ref,
+  string,
+  uuid,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const id = pathParam('id', 'Comment ID');
+
+// A thread belongs to exactly one test case or bug
+const target = {
+  test_case_id: uuid({ description: 'Test case of the thread; give this or bug_id' }),
+  bug_id: uuid({ description: 'Bug of the thread; give this or test_case_id' }),
+};
+
+const commentBody = string({
+  minLength: 1,
+  maxLength: 5000,
+  description: 'Markdown text; `@Name` mentions notify the user',
+});
+
+const tag = 'Comments';
+
+export default {
+  '/comments': {
+    get: operation({
+      id: 'comment.getAll',
+      tag,
+      summary: 'Get the comment thread of a test case or bug',
+      project: true,
+      query: object({}, target),
+      response: object({ comments: array(ref('Comment')) }),
+    }),
+    post: operation({
+      id: 'comment.create',
+      tag,
+      summary: 'Comment on a test case or bug',
+      description: 'Open to anyone who can view the test case or bug.',
+      project: true,
+      body: object({ body: commentBody }, target),
+      status: 201,
+      response: object({ comment: ref('Comment') }),
+      message: true,
+    }),
+  },
+
+  '/comments/mentionable': {
+    get: operation({
+      id: 'comment.getMentionable',
+      tag,
+      summary: 'List the users that can be @mentioned in the project',
+      project: true,
+      response: object({ users: array(ref('MentionableUser')) }),
+    }),
+  },
+
+  '/comments/{id}': {
+    put: operation({
+      id: 'comment.update',
+      tag,
+      summary: 'Edit a comment',
+      description: 'Only the author can edit a comment.',
+      project: true,
+      params: [id],
+      body: object({ body: commentBody }),
+      response: object({ comment: ref('Comment') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'comment.delete',
+      tag,
+      summary: 'Delete a comment',
+      description: 'Open to the author and PMs.',
+      project: true,
+      params: [id],
+      message: true,
+    }),
+  },
+} satisfies Paths;
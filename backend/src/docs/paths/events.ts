@@ -0,0 +1,31 @@
+import { uuid, type Paths } from '../helpers';
+
+// Not an operation() since the stream has no JSON envelope
+export default {
+  '/events': {
+    get: {
+      operationId: 'event.stream',
+      tags: ['Events'],
+      summary: 'Stream live updates for the signed-in user',
+      description: 'Server-sent events about tests, bugs, comments and notifications in the current project, following the same visibility rules as the lists. Browsers read the stream with fetch since EventSource cannot send the Authorization header.',
+      parameters: [
+        {
+          name: 'project_id',
+          in: 'query',
+          required: false,
+          description: 'Project of the stream, for clients that cannot set the X-Project-Id header',
+          schema: uuid(),
+        },
+        { $ref: '#/components/parameters/ProjectId' },
+      ],
+      responses: {
+        200: {
+          description: 'Event stream',
+          content: { 'text/event-stream': { schema: { type: 'string' } } },
+        },
+        401: { $ref: '#/components/responses/Unauthorized' },
+        403: { $ref: '#/components/responses/Forbidden' },
+      },
+    },
+  },
+} satisfies Paths;
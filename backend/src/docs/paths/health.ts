@@ -0,0 +1,23 @@
+import { string, dateTime, boolean, object, type Paths } from '../helpers';
+
+// Not an operation() since the timestamp sits next to the message, outside `data`
+export default {
+  '/health': {
+    get: {
+      operationId: 'meta.health',
+      tags: ['Meta'],
+      summary: 'Check that the API is running',
+      security: [],
+      responses: {
+        200: {
+          description: 'The API is running',
+          content: {
+            'application/json': {
+              schema: object({ success: boolean(), message: string(), timestamp: dateTime() }),
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Paths;
@@ -0,0 +1,63 @@
+import {
+  ref,
+  integer,
+  boolean,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+import { pagination } from './shared';
+
+const unreadCount = object({ unread_count: integer() });
+
+const tag = 'Notifications';
+
+export default {
+  '/notifications': {
+    get: operation({
+      id: 'notification.getAll',
+      tag,
+      summary: 'List your notifications with pagination',
+      query: object({}, {
+        ...pagination,
+        unread: boolean({ description: 'Only unread notifications' }),
+      }),
+      response: object({
+        notifications: array(ref('AppNotification')),
+        unread_count: integer(),
+        pagination: ref('Pagination'),
+      }),
+    }),
+  },
+
+  '/notifications/unread-count': {
+    get: operation({
+      id: 'notification.getUnreadCount',
+      tag,
+      summary: 'Get the number of unread notifications',
+      response: unreadCount,
+    }),
+  },
+
+  '/notifications/read-all': {
+    put: operation({
+      id: 'notification.markAllAsRead',
+      tag,
+      summary: 'Mark all notifications as read',
+      response: unreadCount,
+      message: true,
+    }),
+  },
+
+  '/notifications/{id}/read': {
+    put: operation({
+      id: 'notification.markAsRead',
+      tag,
+      summary: 'Mark a notification as read',
+      params: [pathParam('id', 'Notification ID')],
+      response: unreadCount,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,90 @@
+import {
+  ref,
+  string,
+  uuid,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const id = pathParam('id', 'Test plan ID');
+
+const date = string({ format: 'date', description: 'ISO 8601 date; empty clears it' });
+
+const tag = 'Plans';
+const permission = 'plans.manage';
+
+export default {
+  '/plans': {
+    get: operation({
+      id: 'plan.getAll',
+      tag,
+      summary: 'List test plans with their progress',
+      permission,
+      project: true,
+      query: object({}, {
+        status: ref('PlanStatus'),
+      }),
+      response: object({ plans: array(ref('TestPlan')) }),
+    }),
+    post: operation({
+      id: 'plan.create',
+      tag,
+      summary: 'Create a test plan from a suite',
+      description: 'The tests of the suite are copied into the plan as pending.',
+      permission,
+      project: true,
+      body: object({
+        name: string({ minLength: 1, maxLength: 255 }),
+        release: string({ minLength: 1, maxLength: 100 }),
+        suite_id: uuid(),
+      }, {
+        start_date: date,
+        due_date: date,
+      }),
+      status: 201,
+      response: object({ plan: ref('TestPlan') }),
+      message: true,
+    }),
+  },
+
+  '/plans/{id}': {
+    get: operation({
+      id: 'plan.getById',
+      tag,
+      summary: 'Get a test plan with its test cases',
+      permission,
+      project: true,
+      params: [id],
+      response: object({ plan: ref('TestPlan') }),
+    }),
+    put: operation({
+      id: 'plan.update',
+      tag,
+      summary: 'Update a test plan',
+      permission,
+      project: true,
+      params: [id],
+      body: object({}, {
+        name: string({ minLength: 1, maxLength: 255 }),
+        release: string({ minLength: 1, maxLength: 100 }),
+        status: ref('PlanStatus'),
+        start_date: date,
+        due_date: date,
+      }),
+      response: object({ plan: ref('TestPlan') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'plan.delete',
+      tag,
+      summary: 'Delete a test plan',
+      permission,
+      project: true,
+      params: [id],
+      message: true,
+    }),
+  },
+} satisfies Paths;
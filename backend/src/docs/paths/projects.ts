@@ -0,0 +1,90 @@
+import {
+  ref,
+  string,
+  uuid,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const id = pathParam('id', 'Project ID');
+const userId = pathParam('userId', 'User ID');
+
+const tag = 'Projects';
+const permission = 'projects.manage';
+
+export default {
+  '/projects': {
+    get: operation({
+      id: 'project.getAll',
+      tag,
+      summary: 'List your projects',
+      description: 'Project managers see every project.',
+      response: object({ projects: array(ref('Project')) }),
+    }),
+    post: operation({
+      id: 'project.create',
+      tag,
+      summary: 'Create a project',
+      permission,
+      body: object({
+        name: string({ minLength: 2, maxLength: 100 }),
+      }, {
+        description: string({ maxLength: 1000 }),
+      }),
+      status: 201,
+      response: object({ project: ref('Project') }),
+      message: true,
+    }),
+  },
+
+  '/projects/{id}': {
+    put: operation({
+      id: 'project.update',
+      tag,
+      summary: 'Update a project',
+      permission,
+      params: [id],
+      body: object({}, {
+        name: string({ minLength: 2, maxLength: 100 }),
+        description: string({ maxLength: 1000 }),
+      }),
+      response: object({ project: ref('Project') }),
+      message: true,
+    }),
+  },
+
+  '/projects/{id}/members': {
+    get: operation({
+      id: 'project.getMembers',
+      tag,
+      summary: 'List the members of a project',
+      permission,
+      params: [id],
+      response: object({ members: array(ref('ProjectMember')) }),
+    }),
+  },
+
+  '/projects/{id}/members/{userId}': {
+    put: operation({
+      id: 'project.setMember',
+      tag,
+      summary: 'Add a user to a project or change their role in it',
+      permission,
+      params: [id, userId],
+      body: object({ role_id: uuid() }),
+      response: object({ member: ref('ProjectMember') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'project.removeMember',
+      tag,
+      summary: 'Remove a user from a project',
+      permission,
+      params: [id, userId],
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,80 @@
+import {
+  ref,
+  nullable,
+  string,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const id = pathParam('id', 'Role ID');
+
+const permissions = array(ref('Permission'), { description: 'Replaces every permission of the role' });
+
+const tag = 'Roles';
+const permission = 'roles.manage';
+
+export default {
+  '/roles/permissions': {
+    get: operation({
+      id: 'role.getPermissions',
+      tag,
+      summary: 'Get the permission catalog',
+      response: object({ permissions: array(ref('PermissionInfo')) }),
+    }),
+  },
+
+  '/roles': {
+    get: operation({
+      id: 'role.getAll',
+      tag,
+      summary: 'List roles with their permissions',
+      response: object({ roles: array(ref('Role')) }),
+    }),
+    post: operation({
+      id: 'role.create',
+      tag,
+      summary: 'Create a role',
+      permission,
+      body: object({
+        name: string({ minLength: 2, maxLength: 100 }),
+        base_role: ref('UserRole'),
+        permissions,
+      }, {
+        description: string({ maxLength: 1000 }),
+      }),
+      status: 201,
+      response: object({ role: ref('Role') }),
+      message: true,
+    }),
+  },
+
+  '/roles/{id}': {
+    put: operation({
+      id: 'role.update',
+      tag,
+      summary: 'Update a role and its permissions',
+      description: 'The base role cannot change, as it decides what users of the role see.',
+      permission,
+      params: [id],
+      body: object({}, {
+        name: string({ minLength: 2, maxLength: 100 }),
+        description: nullable(string({ maxLength: 1000 })),
+        permissions,
+      }),
+      response: object({ role: ref('Role') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'role.delete',
+      tag,
+      summary: 'Delete a role',
+      description: 'Built-in roles and roles still given to someone cannot be deleted.',
+      permission,
+      params: [id],
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,17 @@
+import { string, integer, enumOf } from '../helpers';
+import { PASSWORD } from 'qualitysync-shared';
+
+// Query parameters of paginated lists
+const pagination = {
+  page: integer({ minimum: 1 }),
+  limit: integer({ minimum: 1, maximum: 100 }),
+  sort: enumOf(['created_at', 'updated_at', 'status', 'module_platform']),
+  order: enumOf(['asc', 'desc']),
+};
+
+const jamLink = string({ format: 'uri', description: 'A Jam.dev link' });
+
+// Passwords need upper and lower case letters and a number
+const newPassword = string({ minLength: PASSWORD.min, pattern: '(?=.*[A-Z])(?=.*[a-z])(?=.*[0-9])' });
+
+export { pagination, jamLink, newPassword };
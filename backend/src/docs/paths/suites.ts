@@ -0,0 +1,86 @@
+import {
+  ref,
+  string,
+  uuid,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const id = pathParam('id', 'Test suite ID');
+
+const testCaseIds = array(uuid(), { maxItems: 1000, description: 'Test cases in the suite' });
+
+const tag = 'Suites';
+const permission = 'suites.manage';
+
+export default {
+  '/suites': {
+    get: operation({
+      id: 'suite.getAll',
+      tag,
+      summary: 'List test suites',
+      permission,
+      project: true,
+      query: object({}, {
+        search: string({ maxLength: 255 }),
+      }),
+      response: object({ suites: array(ref('TestSuite')) }),
+    }),
+    post: operation({
+      id: 'suite.create',
+      tag,
+      summary: 'Create a test suite',
+      permission,
+      project: true,
+      body: object({
+        name: string({ minLength: 1, maxLength: 255 }),
+      }, {
+        description: string({ maxLength: 2000 }),
+        test_case_ids: testCaseIds,
+      }),
+      status: 201,
+      response: object({ suite: ref('TestSuite') }),
+      message: true,
+    }),
+  },
+
+  '/suites/{id}': {
+    get: operation({
+      id: 'suite.getById',
+      tag,
+      summary: 'Get a test suite with its test cases',
+      permission,
+      project: true,
+      params: [id],
+      response: object({ suite: ref('TestSuite') }),
+    }),
+    put: operation({
+      id: 'suite.update',
+      tag,
+      summary: 'Update a test suite',
+      permission,
+      project: true,
+      params: [id],
+      body: object({}, {
+        name: string({ minLength: 1, maxLength: 255 }),
+        description: string({ maxLength: 2000 }),
+        test_case_ids: testCaseIds,
+      }),
+      response: object({ suite: ref('TestSuite') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'suite.delete',
+      tag,
+      summary: 'Delete a test suite',
+      description: 'The test cases in it are kept.',
+      permission,
+      project: true,
+      params: [id],
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,248 @@
+import {
+  ref,
+  nullable,
+  string,
+  uuid,
+  integer,
+  array,
+  enumOf,
+  object,
+  envelope,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+import { TEST_RESULT_STATUSES } from 'qualitysync-shared';
+import { pagination, jamLink } from './shared';
+
+const id = pathParam('id', 'Test case ID');
+
+// Filters shared by the list and exports
+const testFilters = {
+  status: ref('TestStatus'),
+  module_platform: string({ maxLength: 255 }),
+  origin: ref('TestOrigin'),
+  search: string({ maxLength: 255, description: 'Matches the test case and expected result' }),
+  suite_id: uuid({ description: 'Only tests in this suite of the project' }),
+};
+
+const stepsInput = array(ref('TestStepInput'), {
+  maxItems: 50,
+  description: 'Replaces every step of the test case',
+});
+
+const tag = 'Tests';
+
+export default {
+  '/tests/stats': {
+    get: operation({
+      id: 'test.getStats',
+      tag,
+      summary: 'Get dashboard statistics',
+      permission: 'tests.stats',
+      project: true,
+      response: object({ stats: ref('DashboardStats') }),
+    }),
+  },
+
+  '/tests': {
+    get: operation({
+      id: 'test.getAll',
+      tag,
+      summary: 'List tests with pagination and filters',
+      description: 'Testers only see the tests assigned to them.',
+      project: true,
+      query: object({}, { ...pagination, ...testFilters }),
+      response: object({ tests: array(ref('TestCase')), pagination: ref('Pagination') }),
+    }),
+    post: operation({
+      id: 'test.create',
+      tag,
+      summary: 'Create a test',
+      permission: 'tests.create',
+      project: true,
+      body: object({
+        module_platform: string({ maxLength: 255 }),
+        test_case: string({ minLength: 5, maxLength: 2000 }),
+        expected_result: string({ minLength: 5, maxLength: 2000 }),
+        assigned_to: uuid(),
+      }, {
+        evidence_url: jamLink,
+        suite_ids: array(uuid()),
+        steps: stepsInput,
+      }),
+      status: 201,
+      response: object({ test: ref('TestCase') }),
+      message: true,
+    }),
+  },
+
+  '/tests/export': {
+    get: operation({
+      id: 'test.export',
+      tag,
+      summary: 'Export tests with the list filters',
+      description: 'Refused with a 400 when more than 5000 test cases match the filters.',
+      project: true,
+      query: object({}, { ...testFilters, format: ref('ExportFormat') }),
+      file: { description: 'CSV, JSON or PDF file', types: ['text/csv', 'application/json', 'application/pdf'] },
+    }),
+  },
+
+  '/tests/import': {
+    post: operation({
+      id: 'test.import',
+      tag,
+      summary: 'Import tests from a CSV or Excel file, or preview the import',
+      description: 'Without a mapping the columns are guessed from the headers.',
+      permission: 'tests.import',
+      project: true,
+      multipart: true,
+      body: object({
+        file: string({ format: 'binary', description: 'A .csv or .xlsx file of at most 5 MB' }),
+      }, {
+        dry_run: enumOf(['true', 'false'], { description: 'Only validate and preview the rows' }),
+        mapping: string({ description: 'JSON object of the column of each test case field, see TestImportMapping' }),
+      }),
+      status: 201,
+      response: ref('TestImportResult'),
+      message: true,
+      responses: {
+        200: {
+          description: 'Import preview (dry run)',
+          content: { 'application/json': { schema: envelope(ref('TestImportResult'), { message: true }) } },
+        },
+      },
+    }),
+  },
+
+  '/tests/ingest': {
+    post: operation({
+      id: 'test.ingest',
+      tag,
+      summary: 'Record automated results from a JUnit XML or JSON report',
+      description: 'Results are matched to tests by their external key; unknown keys create automated tests. Tests in fix keep their status.',
+      permission: 'tests.ingest',
+      project: true,
+      multipart: true,
+      body: object({
+        file: string({ format: 'binary', description: 'A .xml or .json report of at most 5 MB' }),
+      }, {
+        module_platform: string({ minLength: 1, maxLength: 255, description: 'Module/Platform of tests created from the report' }),
+      }),
+      status: 201,
+      response: ref('TestIngestResult'),
+      message: true,
+    }),
+  },
+
+  '/tests/{id}': {
+    get: operation({
+      id: 'test.getById',
+      tag,
+      summary: 'Get a test',
+      project: true,
+      params: [id],
+      response: object({ test: ref('TestCase') }),
+    }),
+    put: operation({
+      id: 'test.update',
+      tag,
+      summary: 'Update a test',
+      description: 'With only `tests.assign` just `assigned_to` can be changed.',
+      permission: 'tests.update',
+      project: true,
+      params: [id],
+      body: object({}, {
+        module_platform: string({ maxLength: 255 }),
+        test_case: string({ minLength: 5, maxLength: 2000 }),
+        expected_result: string({ minLength: 5, maxLength: 2000 }),
+        evidence_url: jamLink,
+        assigned_to: uuid(),
+        external_key: nullable(string({ minLength: 1, maxLength: 500 })),
+        suite_ids: array(uuid()),
+        steps: stepsInput,
+      }),
+      response: object({ test: ref('TestCase') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'test.delete',
+      tag,
+      summary: 'Delete a test',
+      permission: 'tests.delete',
+      project: true,
+      params: [id],
+      message: true,
+    }),
+  },
+
+  '/tests/{id}/runs': {
+    get: operation({
+      id: 'test.getRuns',
+      tag,
+      summary: 'Get the execution history of a test',
+      project: true,
+      params: [id],
+      response: object({ runs: array(ref('TestRun')) }),
+    }),
+  },
+
+  '/tests/{id}/result': {
+    put: operation({
+      id: 'test.updateResult',
+      tag,
+      summary: 'Record a result for an assigned test',
+      permission: 'tests.execute',
+      project: true,
+      params: [id],
+      body: object({}, {
+        status: enumOf(TEST_RESULT_STATUSES, {
+          description: 'Required unless step_results are given, then it is derived from them',
+        }),
+        evidence_url: jamLink,
+        notes: string({ maxLength: 2000 }),
+        duration_seconds: integer({ minimum: 0, maximum: 86400 }),
+        step_results: array(object({
+          step_id: uuid(),
+          status: ref('StepStatus'),
+        }, {
+          notes: string({ maxLength: 1000 }),
+        }), { minItems: 1, maxItems: 50 }),
+      }),
+      response: object({ test: ref('TestCase'), run: ref('TestRun') }),
+      message: true,
+    }),
+  },
+
+  '/tests/{id}/claim': {
+    put: operation({
+      id: 'test.claim',
+      tag,
+      summary: 'Claim a failed test for fixing',
+      permission: 'tests.fix',
+      project: true,
+      params: [id],
+      response: object({ test: ref('TestCase') }),
+      message: true,
+    }),
+  },
+
+  '/tests/{id}/fixed': {
+    put: operation({
+      id: 'test.markFixed',
+      tag,
+      summary: 'Mark a claimed test as fixed and send it back for retest',
+      permission: 'tests.fix',
+      project: true,
+      params: [id],
+      body: object({
+        fix_reference: string({ maxLength: 500, description: 'Commit or pull request reference' }),
+      }, {
+        fix_notes: string({ maxLength: 2000 }),
+      }),
+      response: object({ test: ref('TestCase') }),
+      message: true,
+    }),
+  },
+} satisfies Paths;
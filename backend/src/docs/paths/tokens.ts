@@ -0,0 +1,58 @@
+import {
+  ref,
+  nullable,
+  string,
+  uuid,
+  integer,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+
+const userId = uuid({ description: 'Service account whose tokens these are; defaults to your own (PM only)' });
+
+const tag = 'API Tokens';
+const description = 'Only available to signed-in sessions, not to API tokens.';
+
+export default {
+  '/tokens': {
+    get: operation({
+      id: 'apiToken.getAll',
+      tag,
+      summary: 'List API tokens',
+      description,
+      query: object({}, { user_id: userId }),
+      response: object({ tokens: array(ref('ApiToken')) }),
+    }),
+    post: operation({
+      id: 'apiToken.create',
+      tag,
+      summary: 'Create an API token',
+      description: `${description} The token is only returned in this response.`,
+      body: object({
+        name: string({ minLength: 1, maxLength: 100 }),
+        scopes: array(ref('ApiTokenScope'), { minItems: 1 }),
+      }, {
+        expires_in_days: nullable(integer({ minimum: 1, maximum: 365, description: 'Never expires when null' })),
+        user_id: userId,
+      }),
+      status: 201,
+      response: object({ token: string(), api_token: ref('ApiToken') }),
+      message: true,
+    }),
+  },
+
+  '/tokens/{id}': {
+    delete: operation({
+      id: 'apiToken.revoke',
+      tag,
+      summary: 'Revoke an API token',
+      description,
+      params: [pathParam('id', 'API token ID')],
+      response: object({ api_token: ref('ApiToken') }),
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,185 @@
+import {
+  ref,
+  nullable,
+  string,
+  uuid,
+  integer,
+  dateTime,
+  boolean,
+  array,
+  object,
+  pathParam,
+  operation,
+  type Paths,
+} from '../helpers';
+import { pagination } from './shared';
+
+const id = pathParam('id', 'User ID');
+const invitationId = pathParam('id', 'Invitation ID');
+
+// Who a new account or invitation is for
+const accountFields = {
+  email: string({ format: 'email' }),
+  name: string({ minLength: 2, maxLength: 100 }),
+  role: ref('UserRole'),
+};
+
+const projectId = uuid({ description: 'Project the user joins with their role' });
+
+const tag = 'Users';
+const permission = 'users.manage';
+
+export default {
+  '/users/qa-testers': {
+    get: operation({
+      id: 'user.getQATesters',
+      tag,
+      summary: 'List the verified testers of the project, for assignment',
+      permission: 'tests.assign',
+      project: true,
+      response: object({ testers: array(ref('QATester')) }),
+    }),
+  },
+
+  '/users': {
+    get: operation({
+      id: 'user.getAll',
+      tag,
+      summary: 'List users with pagination and filters',
+      permission,
+      query: object({}, {
+        ...pagination,
+        role: ref('UserRole'),
+        search: string({ maxLength: 100, description: 'Matches the name and email' }),
+        service_account: boolean({ description: 'Only service accounts, or only people' }),
+      }),
+      response: object({ users: array(ref('UserAccount')), pagination: ref('Pagination') }),
+    }),
+    post: operation({
+      id: 'user.create',
+      tag,
+      summary: 'Create a service account',
+      description: 'Service accounts have no password and use the API with tokens created for them. People are invited instead.',
+      permission,
+      body: object({
+        ...accountFields,
+        is_service_account: boolean({ enum: [true] }),
+      }, {
+        project_id: projectId,
+      }),
+      status: 201,
+      response: object({ user: ref('UserAccount') }),
+      message: true,
+    }),
+  },
+
+  '/users/invitations': {
+    get: operation({
+      id: 'invitation.getAll',
+      tag,
+      summary: 'List pending invitations',
+      permission,
+      response: object({ invitations: array(ref('Invitation')) }),
+    }),
+  },
+
+  '/users/invite': {
+    post: operation({
+      id: 'invitation.create',
+      tag,
+      summary: 'Invite someone by email',
+      description: 'The invitee chooses their own password when accepting.',
+      permission,
+      body: object(accountFields, { project_id: projectId }),
+      status: 201,
+      response: object({ invitation: ref('Invitation') }),
+      message: true,
+    }),
+  },
+
+  '/users/invitations/{id}/resend': {
+    post: operation({
+      id: 'invitation.resend',
+      tag,
+      summary: 'Resend an invitation with a new link',
+      permission,
+      params: [invitationId],
+      response: object({ invitation: ref('Invitation') }),
+      message: true,
+    }),
+  },
+
+  '/users/invitations/{id}': {
+    delete: operation({
+      id: 'invitation.revoke',
+      tag,
+      summary: 'Revoke an invitation',
+      permission,
+      params: [invitationId],
+      response: object({ invitation: ref('Invitation') }),
+      message: true,
+    }),
+  },
+
+  '/users/{id}': {
+    get: operation({
+      id: 'user.getById',
+      tag,
+      summary: 'Get a user',
+      permission,
+      params: [id],
+      response: object({ user: ref('UserAccount') }),
+    }),
+    put: operation({
+      id: 'user.update',
+      tag,
+      summary: 'Update a user',
+      permission,
+      params: [id],
+      body: object({}, {
+        name: string({ minLength: 2, maxLength: 100 }),
+        role: ref('UserRole'),
+        role_id: uuid({ description: 'Account-wide role; takes precedence over `role`' }),
+      }),
+      response: object({ user: ref('UserAccount') }),
+      message: true,
+    }),
+    delete: operation({
+      id: 'user.delete',
+      tag,
+      summary: 'Delete a user',
+      permission,
+      params: [id],
+      message: true,
+    }),
+  },
+
+  '/users/{id}/login-history': {
+    get: operation({
+      id: 'user.getLoginHistory',
+      tag,
+      summary: 'Get the sign-in history and lockout of a user',
+      permission,
+      params: [id],
+      query: object({}, {
+        limit: integer({ minimum: 1, maximum: 200, default: 50 }),
+      }),
+      response: object({
+        attempts: array(ref('LoginAttempt')),
+        failed_login_attempts: integer(),
+        locked_until: nullable(dateTime()),
+      }),
+    }),
+  },
+
+  '/users/{id}/unlock': {
+    post: operation({
+      id: 'user.unlock',
+      tag,
+      summary: 'Unlock an account locked after failed sign-ins',
+      permission,
+      params: [id],
+      message: true,
+    }),
+  },
+} satisfies Paths;
@@ -0,0 +1,558 @@
+import {
+  ref,
+  nullable,
+  string,
+  uuid,
+  dateTime,
+  integer,
+  boolean,
+  array,
+  enumOf,
+  anyValue,
+  object,
+  extend,
+  record,
+  type Schema,
+} from './helpers';
+import {
+  USER_ROLES,
+  TEST_STATUSES,
+  STEP_STATUSES,
+  BUG_SEVERITIES,
+  BUG_STATUSES,
+  API_TOKEN_SCOPES,
+} from 'qualitysync-shared';
+
+/**
+ * Resources the API returns, by name
+ */
+const schemas: Record<string, Schema> = {
+  UserRole: enumOf(USER_ROLES),
+
+  Permission: enumOf([
+    'tests.stats',
+    'tests.create',
+    'tests.import',
+    'tests.ingest',
+    'tests.update',
+    'tests.assign',
+    'tests.delete',
+    'tests.execute',
+    'tests.fix',
+    'bugs.create',
+    'bugs.fix',
+    'bugs.close',
+    'bugs.reopen',
+    'bugs.convert',
+    'bugs.delete',
+    'suites.manage',
+    'plans.manage',
+    'comments.moderate',
+    'users.manage',
+    'projects.manage',
+    'roles.manage',
+    'audit.view',
+  ]),
+
+  PermissionInfo: object({
+    key: ref('Permission'),
+    description: string(),
+  }),
+
+  Role: object({
+    id: uuid(),
+    name: string(),
+    description: nullable(string()),
+    base_role: ref('UserRole'),
+    is_system: boolean(),
+    for_service_accounts: boolean({ description: 'The built-in role of QA service accounts' }),
+    permissions: array(ref('Permission')),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+  }, {}, {
+    description: 'A named set of permissions. The base role decides the workspace and which tests and bugs its users see.',
+  }),
+
+  User: object({
+    id: uuid(),
+    email: string({ format: 'email' }),
+    name: string(),
+    role: ref('UserRole'),
+    permissions: array(ref('Permission'), {
+      description: 'Permissions of the account-wide role, for user and project administration',
+    }),
+    is_verified: boolean(),
+  }, {
+    two_factor_enabled: boolean(),
+    two_factor_required: boolean({ description: 'The role policy requires two-factor authentication' }),
+  }, {
+    description: 'The signed-in user',
+  }),
+
+  UserAccount: object({
+    id: uuid(),
+    email: string({ format: 'email' }),
+    name: string(),
+    role: ref('UserRole'),
+    is_verified: boolean(),
+    is_service_account: boolean(),
+    created_at: dateTime(),
+  }, {
+    role_id: nullable(uuid({ description: 'Account-wide role; its base role is `role`' })),
+    locked_until: nullable(dateTime()),
+  }, {
+    description: 'A user account as managed by administrators',
+  }),
+
+  QATester: object({
+    id: uuid(),
+    name: string(),
+    email: string({ format: 'email' }),
+  }, {}, {
+    description: 'A user as embedded in other resources',
+  }),
+
+  Project: object({
+    id: uuid(),
+    name: string(),
+    description: nullable(string()),
+    role: nullable(ref('UserRole')),
+    role_id: nullable(uuid()),
+    permissions: array(ref('Permission')),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+  }, {}, {
+    description: 'A project the user works in, with their role in it. Project managers also see projects they are not a member of, with a null role.',
+  }),
+
+  ProjectMember: object({
+    role: ref('UserRole'),
+    role_id: uuid(),
+    created_at: dateTime(),
+    user: object({
+      id: uuid(),
+      name: string(),
+      email: string({ format: 'email' }),
+      role: ref('UserRole'),
+      is_service_account: boolean(),
+    }),
+  }),
+
+  TestStatus: enumOf(TEST_STATUSES),
+  StepStatus: enumOf(STEP_STATUSES),
+  BugSeverity: enumOf(BUG_SEVERITIES),
+  BugStatus: enumOf(BUG_STATUSES),
+
+  TestOrigin: enumOf(['manual', 'automated'], {
+    description: 'Manual tests are run by QA, automated ones report results from CI',
+  }),
+
+  TestCase: object({
+    id: uuid(),
+    module_platform: string(),
+    test_case: string(),
+    expected_result: string(),
+    status: ref('TestStatus'),
+    assigned_to: uuid(),
+    created_by: uuid(),
+    evidence_url: nullable(string()),
+    notes: nullable(string()),
+    source_bug_id: nullable(uuid()),
+    fix_owner: nullable(uuid()),
+    fix_reference: nullable(string()),
+    fix_notes: nullable(string()),
+    fixed_at: nullable(dateTime()),
+    origin: ref('TestOrigin'),
+    external_key: nullable(string()),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+  }, {
+    assignee: ref('QATester'),
+    creator: ref('QATester'),
+    fixer: nullable(ref('QATester')),
+    source_bug: object({
+      id: uuid(),
+      module_platform: string(),
+      created_by: uuid(),
+    }, {
+      bug_creator: ref('QATester'),
+    }),
+    suites: array(ref('TestSuiteSummary')),
+    steps: array(ref('TestStep')),
+  }),
+
+  TestStep: object({
+    id: uuid(),
+    position: integer(),
+    action: string(),
+    expected_result: string(),
+    test_data: nullable(string()),
+  }),
+
+  TestStepInput: object({
+    action: string({ maxLength: 2000 }),
+    expected_result: string({ maxLength: 2000 }),
+  }, {
+    test_data: string({ maxLength: 2000 }),
+  }),
+
+  PlanStatus: enumOf(['active', 'completed']),
+
+  TestSuiteSummary: object({
+    id: uuid(),
+    name: string(),
+  }),
+
+  TestSuite: extend('TestSuiteSummary', {
+    description: nullable(string()),
+    created_by: uuid(),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+    test_count: integer(),
+  }, {
+    creator: ref('QATester'),
+    test_cases: array(ref('TestCase')),
+  }),
+
+  TestPlanProgress: object({
+    total_tests: integer(),
+    passed_tests: integer(),
+    failed_tests: integer(),
+    pending_tests: integer(),
+    escalated_tests: integer(),
+  }),
+
+  TestPlanCase: object({
+    test_case_id: uuid(),
+    status: ref('TestStatus'),
+    last_run_id: nullable(uuid()),
+    updated_at: dateTime(),
+  }, {
+    test_case: ref('TestCase'),
+  }),
+
+  TestPlan: object({
+    id: uuid(),
+    name: string(),
+    release: string(),
+    status: ref('PlanStatus'),
+    start_date: nullable(string({ format: 'date' })),
+    due_date: nullable(string({ format: 'date' })),
+    suite_id: nullable(uuid()),
+    created_by: uuid(),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+    progress: ref('TestPlanProgress'),
+  }, {
+    suite: nullable(ref('TestSuiteSummary')),
+    creator: ref('QATester'),
+    cases: array(ref('TestPlanCase')),
+  }),
+
+  TestRun: object({
+    id: uuid(),
+    test_case_id: uuid(),
+    status: ref('TestStatus'),
+    evidence_url: nullable(string()),
+    notes: nullable(string()),
+    duration_seconds: nullable(integer()),
+    executed_at: dateTime(),
+    executed_by: uuid(),
+  }, {
+    executor: ref('QATester'),
+    step_results: array(ref('TestStepResult')),
+  }),
+
+  TestStepResult: object({
+    id: uuid(),
+    step_id: nullable(uuid()),
+    position: integer(),
+    action: string(),
+    status: ref('StepStatus'),
+    notes: nullable(string()),
+  }),
+
+  Bug: object({
+    id: uuid(),
+    module_platform: string(),
+    jam_link: string(),
+    description: string(),
+    note: nullable(string()),
+    severity: ref('BugSeverity'),
+    status: ref('BugStatus'),
+    created_by: uuid(),
+    converted_to_test_id: nullable(uuid()),
+    converted_at: nullable(dateTime()),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+  }, {
+    creator: ref('QATester'),
+    allowed_transitions: array(ref('BugStatus'), {
+      description: 'Statuses the current user may move this bug to',
+    }),
+  }),
+
+  BugStatusChange: object({
+    id: uuid(),
+    bug_id: uuid(),
+    from_status: nullable(ref('BugStatus')),
+    to_status: ref('BugStatus'),
+    note: nullable(string()),
+    created_at: dateTime(),
+    changed_by: nullable(uuid()),
+  }, {
+    changer: nullable({ allOf: [ref('QATester'), object({ role: ref('UserRole') })] }),
+  }),
+
+  MentionableUser: object({
+    id: uuid(),
+    name: string(),
+    role: ref('UserRole'),
+  }),
+
+  Comment: object({
+    id: uuid(),
+    test_case_id: nullable(uuid()),
+    bug_id: nullable(uuid()),
+    body: string(),
+    created_at: dateTime(),
+    updated_at: dateTime(),
+    author_id: nullable(uuid()),
+  }, {
+    author: nullable({ allOf: [ref('QATester'), object({ role: ref('UserRole') })] }),
+    mentions: array(object({ user: nullable(ref('MentionableUser')) })),
+  }),
+
+  DashboardStats: object({
+    total_tests: integer(),
+    passed_tests: integer(),
+    failed_tests: integer(),
+    pending_tests: integer(),
+    escalated_tests: integer(),
+    open_bugs: integer(),
+    total_bugs: integer(),
+    in_fix_tests: integer(),
+    ready_for_retest_tests: integer(),
+  }),
+
+  NotificationType: enumOf([
+    'test_assigned',
+    'test_reassigned',
+    'test_result',
+    'test_ready_for_retest',
+    'bug_converted',
+    'bug_status_changed',
+    'comment_mention',
+  ]),
+
+  AppNotification: object({
+    id: uuid(),
+    type: ref('NotificationType'),
+    title: string(),
+    body: nullable(string()),
+    test_case_id: nullable(uuid()),
+    bug_id: nullable(uuid()),
+    read_at: nullable(dateTime()),
+    created_at: dateTime(),
+  }, {
+    actor: nullable(ref('QATester')),
+  }),
+
+  ExportFormat: enumOf(['csv', 'json', 'pdf']),
+
+  TestImportField: enumOf(['module_platform', 'test_case', 'expected_result', 'assignee_email'], {
+    description: 'Test case fields a spreadsheet column can be mapped to',
+  }),
+
+  TestImportMapping: object({}, {
+    module_platform: string(),
+    test_case: string(),
+    expected_result: string(),
+    assignee_email: string(),
+  }, {
+    description: 'Spreadsheet column of each test case field',
+  }),
+
+  TestImportRow: object({
+    row: integer(),
+    values: object({
+      module_platform: string(),
+      test_case: string(),
+      expected_result: string(),
+      assignee_email: string(),
+    }),
+    errors: array(ref('FieldError')),
+  }),
+
+  TestImportResult: object({
+    dry_run: boolean(),
+    columns: array(string()),
+    mapping: ref('TestImportMapping'),
+    missing_fields: array(ref('TestImportField')),
+    summary: object({
+      total: integer(),
+      valid: integer(),
+      invalid: integer(),
+      imported: integer(),
+    }),
+    rows: array(ref('TestImportRow')),
+  }),
+
+  TestIngestResult: object({
+    summary: object({
+      received: integer(),
+      matched: integer(),
+      created: integer(),
+      recorded: integer(),
+      passed: integer(),
+      failed: integer(),
+      skipped: integer(),
+    }),
+    results: array(object({
+      key: string(),
+      name: string(),
+      status: ref('TestStatus'),
+      test_id: uuid(),
+      created: boolean(),
+    })),
+  }),
+
+  AuditAction: enumOf(['create', 'update', 'delete']),
+
+  AuditEntityType: enumOf(['test_case', 'bug', 'user', 'api_token', 'invitation', 'project', 'role']),
+
+  AuditEvent: object({
+    id: uuid(),
+    action: ref('AuditAction'),
+    entity_type: ref('AuditEntityType'),
+    entity_id: uuid(),
+    changes: record(object({ from: anyValue(), to: anyValue() })),
+    request_id: nullable(string()),
+    created_at: dateTime(),
+    actor_id: nullable(uuid()),
+    actor_name: nullable(string()),
+    actor_role: nullable(ref('UserRole')),
+  }, {
+    actor: nullable(ref('QATester')),
+  }),
+
+  ApiTokenScope: enumOf(API_TOKEN_SCOPES, {
+    description: 'Every token can read; write scopes allow changes to tests or bugs',
+  }),
+
+  ApiToken: object({
+    id: uuid(),
+    user_id: uuid(),
+    name: string(),
+    token_prefix: string(),
+    scopes: array(ref('ApiTokenScope')),
+    expires_at: nullable(dateTime()),
+    last_used_at: nullable(dateTime()),
+    revoked_at: nullable(dateTime()),
+    created_at: dateTime(),
+  }, {
+    creator: nullable(ref('QATester')),
+  }),
+
+  Invitation: object({
+    id: uuid(),
+    email: string({ format: 'email' }),
+    name: string(),
+    role: ref('UserRole'),
+    expires_at: dateTime(),
+    expired: boolean(),
+    last_sent_at: dateTime(),
+    created_at: dateTime(),
+  }, {
+    inviter: nullable(ref('QATester')),
+    project: nullable(object({ id: uuid(), name: string() }, {}, {
+      description: 'The project the invitee joins on accepting',
+    })),
+  }, {
+    description: 'An invitation a PM sent that was not accepted or revoked yet',
+  }),
+
+  InvitationPreview: object({
+    email: string({ format: 'email' }),
+    name: string(),
+    role: ref('UserRole'),
+    inviter: nullable(string()),
+    project: nullable(string()),
+    expires_at: dateTime(),
+  }, {}, {
+    description: 'What an invite link shows before it is accepted',
+  }),
+
+  SsoConfig: object({
+    enabled: boolean(),
+    display_name: string(),
+  }),
+
+  TwoFactorStatus: object({
+    enabled: boolean(),
+    required: boolean(),
+    recovery_codes_remaining: integer(),
+  }),
+
+  TwoFactorSetup: object({
+    secret: string(),
+    otpauth_url: string(),
+    qr_code: string({ description: 'Data URL of a QR code image for the authenticator app' }),
+  }),
+
+  AuthMethod: enumOf(['password', 'sso']),
+
+  AuthSession: object({
+    id: uuid(),
+    user_agent: nullable(string()),
+    ip_address: nullable(string()),
+    auth_method: ref('AuthMethod'),
+    created_at: dateTime(),
+    last_used_at: dateTime(),
+    expires_at: dateTime(),
+    current: boolean(),
+  }, {}, {
+    description: 'A signed-in browser or device',
+  }),
+
+  LoginFailureReason: enumOf(['invalid_password', 'invalid_code', 'locked', 'unverified']),
+
+  LoginAttempt: object({
+    id: uuid(),
+    success: boolean(),
+    failure_reason: nullable(ref('LoginFailureReason')),
+    auth_method: ref('AuthMethod'),
+    new_device: boolean({ description: 'First successful sign-in from this browser' }),
+    user_agent: nullable(string()),
+    ip_address: nullable(string()),
+    created_at: dateTime(),
+  }, {}, {
+    description: 'An entry in an account\'s sign-in history',
+  }),
+
+  AuthResult: object({
+    user: ref('User'),
+    token: string({ description: 'Access token; the refresh token is set as an httpOnly cookie' }),
+  }),
+
+  Pagination: object({
+    page: integer(),
+    limit: integer(),
+    total: integer(),
+    totalPages: integer(),
+  }),
+
+  FieldError: object({
+    field: string(),
+    message: string(),
+  }),
+
+  ErrorResponse: object({
+    success: boolean(),
+    message: string(),
+  }, {
+    errors: array(ref('FieldError')),
+  }),
+};
+
+export default schemas;
@@ -1,124 +0,0 @@
-const jwt = require('jsonwebtoken');
-const config = require('../config');
-const { supabaseAdmin } = require('../config/supabase');
-const logger = require('../utils/logger');
-
-/**
- * Authenticate user via JWT token
- */
-const authenticate = async (req, res, next) => {
-  try {
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        message: 'Access denied. No token provided.',
-      });
-    }
-
-    const token = authHeader.split(' ')[1];
-
-    try {
-      const decoded = jwt.verify(token, config.jwt.secret);
-
-      // Fetch user from database to ensure they still exist and are verified
-      const { data: user, error } = await supabaseAdmin
-        .from('users')
-        .select('id, email, name, role, is_verified')
-        .eq('id', decoded.userId)
-        .single();
-
-      if (error || !user) {
-        return res.status(401).json({
-          success: false,
-          message: 'Invalid token. User not found.',
-        });
-      }
-
-      if (!user.is_verified) {
-        return res.status(403).json({
-          success: false,
-          message: 'Please verify your email before accessing this resource.',
-        });
-      }
-
-      req.user = user;
-      next();
-    } catch (jwtError) {
-      if (jwtError.name === 'TokenExpiredError') {
-        return res.status(401).json({
-          success: false,
-          message: 'Token has expired. Please log in again.',
-        });
-      }
-      throw jwtError;
-    }
-  } catch (error) {
-    logger.error('Authentication error', { error: error.message });
-    return res.status(401).json({
-      success: false,
-      message: 'Invalid token.',
-    });
-  }
-};
-
-/**
- * Authorize specific roles
- */
-const authorize = (...roles) => {
-  return (req, res, next) => {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'Authentication required.',
-      });
-    }
-
-    if (!roles.includes(req.user.role)) {
-      return res.status(403).json({
-        success: false,
-        message: `Access denied. Required role: ${roles.join(' or ')}`,
-      });
-    }
-
-    next();
-  };
-};
-
-/**
- * Optional authentication - doesn't fail if no token
- */
-const optionalAuth = async (req, res, next) => {
-  try {
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return next();
-    }
-
-    const token = authHeader.split(' ')[1];
-
-    try {
-      const decoded = jwt.verify(token, config.jwt.secret);
-
-      const { data: user, error } = await supabaseAdmin
-        .from('users')
-        .select('id, email, name, role, is_verified')
-        .eq('id', decoded.userId)
-        .single();
-
-      if (!error && user) {
-        req.user = user;
-      }
-    } catch {
-      // Ignore token errors for optional auth
-    }
-
-    next();
-  } catch (error) {
-    next();
-  }
-};
-
-module.exports = { authenticate, authorize, optionalAuth };
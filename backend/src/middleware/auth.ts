@@ -0,0 +1,206 @@
+import type { NextFunction, Request, Response } from 'express';
+import jwt, { type JwtPayload } from 'jsonwebtoken';
+import config from '../config';
+import * as apiTokenService from '../services/apiTokenService';
+import * as permissionService from '../services/permissionService';
+import * as sessionService from '../services/sessionService';
+import * as twoFactorService from '../services/twoFactorService';
+import logger from '../utils/logger';
+import type { AuthUser, AuthenticatedRequest, Permission, SessionUser } from '../types';
+
+// Claims of the access tokens authController signs
+interface AccessTokenPayload extends JwtPayload {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * The user with the permissions of their account-wide role
+ */
+const withPermissions = async (user: SessionUser): Promise<AuthUser> => ({
+  ...user,
+  permissions: await permissionService.getRolePermissions(user.role_id),
+});
+
+/**
+ * Authenticate an API token and check its scopes allow the request
+ */
+const authenticateApiToken = async (token: string, req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const apiToken = await apiTokenService.findActiveToken(token);
+
+  if (!apiToken || !apiToken.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid API token. It may have been revoked or expired.',
+    });
+  }
+
+  if (!apiToken.user.is_verified) {
+    return res.status(403).json({
+      success: false,
+      message: 'Please verify your email before accessing this resource.',
+    });
+  }
+
+  if (!apiTokenService.allowsRequest(apiToken.scopes, req)) {
+    return res.status(403).json({
+      success: false,
+      message: `This API token is not allowed to make this request. Scopes: ${apiToken.scopes.join(', ')}`,
+    });
+  }
+
+  await apiTokenService.touchToken(apiToken);
+
+  req.user = await withPermissions(apiToken.user);
+  req.apiToken = { id: apiToken.id, scopes: apiToken.scopes };
+  next();
+};
+
+/**
+ * Authenticate user via JWT token or API token
+ */
+const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({
+        success: false,
+        message: 'Access denied. No token provided.',
+      });
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    // Scripts and CI jobs authenticate with API tokens instead of a session
+    if (apiTokenService.isApiToken(token)) {
+      return await authenticateApiToken(token, authReq, res, next);
+    }
+
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret) as AccessTokenPayload;
+
+      // Access tokens belong to a session, which is gone once signed out
+      const session = decoded.sessionId ? await sessionService.findActiveSession(decoded.sessionId) : null;
+      const user = session?.user;
+
+      if (!user || user.id !== decoded.userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Session has ended. Please log in again.',
+        });
+      }
+
+      if (!user.is_verified) {
+        return res.status(403).json({
+          success: false,
+          message: 'Please verify your email before accessing this resource.',
+        });
+      }
+
+      authReq.user = await withPermissions(user);
+      authReq.sessionId = session.id;
+      authReq.authMethod = session.auth_method;
+      next();
+    } catch (jwtError) {
+      if (jwtError instanceof jwt.TokenExpiredError) {
+        return res.status(401).json({
+          success: false,
+          message: 'Token has expired. Please log in again.',
+        });
+      }
+      throw jwtError;
+    }
+  } catch (error) {
+    logger.error('Authentication error', { error: (error as Error).message });
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid token.',
+    });
+  }
+};
+
+/**
+ * Authorize users whose role has any of the permissions. Users the
+ * two-factor policy covers, by their role or its permissions, are refused
+ * until they have set it up.
+ */
+const authorizePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { user, authMethod } = req as Partial<AuthenticatedRequest>;
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+    }
+
+    if (!permissions.some((permission) => permissionService.hasPermission(user, permission))) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. Required permission: ${permissions.join(' or ')}`,
+      });
+    }
+
+    if (twoFactorService.isRequiredFor(user, { authMethod }) && !user.two_factor_enabled) {
+      return res.status(403).json({
+        success: false,
+        code: 'TWO_FACTOR_REQUIRED',
+        message: 'Set up two-factor authentication on your profile to use this feature.',
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Refuse API tokens for actions that need a signed-in user
+ */
+const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if ((req as Partial<AuthenticatedRequest>).apiToken) {
+    return res.status(403).json({
+      success: false,
+      message: 'API tokens cannot be used for this action.',
+    });
+  }
+
+  next();
+};
+
+/**
+ * Optional authentication - doesn't fail if no token
+ */
+const optionalAuth = async (req: Request, _res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return next();
+    }
+
+    const token = authHeader.split(' ')[1];
+
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret) as AccessTokenPayload;
+
+      const session = decoded.sessionId ? await sessionService.findActiveSession(decoded.sessionId) : null;
+
+      if (session?.user && session.user.id === decoded.userId) {
+        authReq.user = await withPermissions(session.user);
+        authReq.sessionId = session.id;
+        authReq.authMethod = session.auth_method;
+      }
+    } catch {
+      // Ignore token errors for optional auth
+    }
+
+    next();
+  } catch {
+    next();
+  }
+};
+
+export { authenticate, authorizePermission, requireSession, optionalAuth };
@@ -1,11 +1,18 @@
-const logger = require('../utils/logger');
-const config = require('../config');
+import type { ErrorRequestHandler, NextFunction, RequestHandler, Response } from 'express';
+import type { ValidationError } from 'express-validator';
+import logger from '../utils/logger';
+import config from '../config';
+import type { AuthenticatedRequest, ValidatedRequest } from '../types';
 
 /**
  * Custom API Error class
  */
 class ApiError extends Error {
-  constructor(statusCode, message, isOperational = true) {
+  readonly statusCode: number;
+  readonly status: 'fail' | 'error';
+  readonly isOperational: boolean;
+
+  constructor(statusCode: number, message: string, isOperational = true) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
@@ -18,7 +25,7 @@ class ApiError extends Error {
 /**
  * Not found handler for undefined routes
  */
-const notFound = (req, res, next) => {
+const notFound: RequestHandler = (req, _res, next) => {
   const error = new ApiError(404, `Route ${req.originalUrl} not found`);
   next(error);
 };
@@ -26,7 +33,7 @@ const notFound = (req, res, next) => {
 /**
  * Global error handler
  */
-const errorHandler = (err, req, res, next) => {
+const errorHandler: ErrorRequestHandler = (err, req, res, _next) => {
   let error = { ...err };
   error.message = err.message;
   error.stack = err.stack;
@@ -38,7 +45,7 @@ const errorHandler = (err, req, res, next) => {
     url: req.originalUrl,
     method: req.method,
     body: req.body,
-    user: req.user?.id,
+    user: (req as Partial<AuthenticatedRequest>).user?.id,
   });
 
   // Supabase errors
@@ -67,7 +74,7 @@ const errorHandler = (err, req, res, next) => {
 
   // Validation errors from express-validator
   if (err.array && typeof err.array === 'function') {
-    const messages = err.array().map((e) => e.msg).join(', ');
+    const messages = err.array().map((e: ValidationError) => e.msg).join(', ');
     error = new ApiError(400, messages);
   }
 
@@ -86,13 +93,17 @@ const errorHandler = (err, req, res, next) => {
 };
 
 /**
- * Async handler wrapper to catch errors
+ * Async handler wrapper to catch errors. Handlers of routes behind
+ * `authenticate` take an AuthenticatedRequest, or a ProjectRequest behind
+ * `resolveProject` as well.
  */
-const asyncHandler = (fn) => (req, res, next) => {
-  Promise.resolve(fn(req, res, next)).catch(next);
+const asyncHandler = <R extends ValidatedRequest = ValidatedRequest>(
+  fn: (req: R, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  Promise.resolve(fn(req as R, res, next)).catch(next);
 };
 
-module.exports = {
+export {
   ApiError,
   notFound,
   errorHandler,
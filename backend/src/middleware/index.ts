@@ -0,0 +1,115 @@
+import { authenticate, authorizePermission, requireSession, optionalAuth } from './auth';
+import { ApiError, notFound, errorHandler, asyncHandler } from './errorHandler';
+import {
+  apiLimiter,
+  authLimiter,
+  passwordResetLimiter,
+  verificationLimiter,
+} from './rateLimiter';
+import { requestId } from './requestId';
+import { resolveProject } from './project';
+import { spreadsheetUpload, testReportUpload } from './upload';
+import {
+  loginValidation,
+  loginTwoFactorValidation,
+  twoFactorCodeValidation,
+  disableTwoFactorValidation,
+  registerValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  acceptInvitationValidation,
+  verifyEmailValidation,
+  testStepsValidation,
+  testCaseFieldsValidation,
+  createTestValidation,
+  importTestsValidation,
+  ingestTestResultsValidation,
+  updateTestResultValidation,
+  markTestFixedValidation,
+  createBugValidation,
+  convertBugToTestValidation,
+  updateBugStatusValidation,
+  createSuiteValidation,
+  createPlanValidation,
+  getCommentsValidation,
+  createCommentValidation,
+  updateCommentValidation,
+  createUserValidation,
+  inviteUserValidation,
+  createProjectValidation,
+  projectMemberValidation,
+  createRoleValidation,
+  updateRoleValidation,
+  apiTokenOwnerValidation,
+  createApiTokenValidation,
+  paginationValidation,
+  exportFormatValidation,
+  uuidParamValidation,
+} from './validate';
+
+export {
+  // Auth
+  authenticate,
+  authorizePermission,
+  requireSession,
+  optionalAuth,
+
+  // Error handling
+  ApiError,
+  notFound,
+  errorHandler,
+  asyncHandler,
+
+  // Rate limiting
+  apiLimiter,
+  authLimiter,
+  passwordResetLimiter,
+  verificationLimiter,
+
+  // Request tracing
+  requestId,
+
+  // Projects
+  resolveProject,
+
+  // File uploads
+  spreadsheetUpload,
+  testReportUpload,
+
+  // Validations
+  loginValidation,
+  loginTwoFactorValidation,
+  twoFactorCodeValidation,
+  disableTwoFactorValidation,
+  registerValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  acceptInvitationValidation,
+  verifyEmailValidation,
+  testStepsValidation,
+  testCaseFieldsValidation,
+  createTestValidation,
+  importTestsValidation,
+  ingestTestResultsValidation,
+  updateTestResultValidation,
+  markTestFixedValidation,
+  createBugValidation,
+  convertBugToTestValidation,
+  updateBugStatusValidation,
+  createSuiteValidation,
+  createPlanValidation,
+  getCommentsValidation,
+  createCommentValidation,
+  updateCommentValidation,
+  createUserValidation,
+  inviteUserValidation,
+  createProjectValidation,
+  projectMemberValidation,
+  createRoleValidation,
+  updateRoleValidation,
+  apiTokenOwnerValidation,
+  createApiTokenValidation,
+  paginationValidation,
+  exportFormatValidation,
+  uuidParamValidation,
+};
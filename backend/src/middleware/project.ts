@@ -0,0 +1,68 @@
+import type { NextFunction, Request, Response } from 'express';
+import * as permissionService from '../services/permissionService';
+import * as projectService from '../services/projectService';
+import logger from '../utils/logger';
+import type { Permission, ProjectRequest } from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolve the project a request works in, from the X-Project-Id header or
+ * the project_id query parameter, falling back to the first project the
+ * user joined. Must run after authenticate.
+ *
+ * Sets req.project and replaces req.user.role and req.user.permissions with
+ * those of the user's role in the project, so permission checks further
+ * down apply per project. The account-wide ones stay available as
+ * req.user.account_role and req.user.account_permissions.
+ */
+const resolveProject = async (req: Request, res: Response, next: NextFunction) => {
+  const projectReq = req as ProjectRequest;
+  const { user } = projectReq;
+  const requested = req.get('x-project-id') || req.query.project_id;
+
+  if (requested && (typeof requested !== 'string' || !UUID_PATTERN.test(requested))) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid project ID',
+    });
+  }
+
+  let membership;
+  let permissions: Permission[] = [];
+  try {
+    membership = requested
+      ? await projectService.getMembership(requested, user.id)
+      : await projectService.getDefaultMembership(user.id);
+    if (membership) permissions = await permissionService.getRolePermissions(membership.role_id);
+  } catch (error) {
+    logger.error('Project resolution error', { userId: user.id, error: (error as Error).message });
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load project',
+    });
+  }
+
+  if (!membership) {
+    return res.status(403).json({
+      success: false,
+      message: requested
+        ? 'You are not a member of this project.'
+        : 'You are not a member of any project yet. Ask a Product Manager to add you.',
+    });
+  }
+
+  projectReq.project = membership.project;
+  projectReq.user = {
+    ...user,
+    role: membership.role,
+    role_id: membership.role_id,
+    permissions,
+    account_role: user.role,
+    account_role_id: user.role_id,
+    account_permissions: user.permissions,
+  };
+  next();
+};
+
+export { resolveProject };
@@ -1,5 +1,5 @@
-const rateLimit = require('express-rate-limit');
-const config = require('../config');
+import rateLimit from 'express-rate-limit';
+import config from '../config';
 
 /**
  * General API rate limiter
@@ -58,7 +58,7 @@ const verificationLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-module.exports = {
+export {
   apiLimiter,
   authLimiter,
   passwordResetLimiter,
@@ -0,0 +1,16 @@
+import { randomUUID } from 'crypto';
+import type { RequestHandler } from 'express';
+
+const REQUEST_ID_PATTERN = /^[\w.-]{1,100}$/;
+
+/**
+ * Tag every request with an id, reusing the caller's X-Request-Id when it looks sane
+ */
+const requestId: RequestHandler = (req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.set('X-Request-Id', req.id);
+  next();
+};
+
+export { requestId };
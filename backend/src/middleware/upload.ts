@@ -0,0 +1,48 @@
+import path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { ApiError } from './errorHandler';
+
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Middleware accepting a single file in the `file` field, kept in memory.
+ * Only the listed extensions are allowed.
+ */
+const singleFileUpload = (extensions: string[]) => {
+  const allowed = extensions.join(' and ');
+
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!extensions.includes(path.extname(file.originalname).toLowerCase())) {
+        return callback(new ApiError(400, `Only ${allowed} files are supported`));
+      }
+      callback(null, true);
+    },
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (err) => {
+      if (err instanceof multer.MulterError) {
+        return next(new ApiError(400, err.code === 'LIMIT_FILE_SIZE' ? 'File must be smaller than 5 MB' : err.message));
+      }
+      if (err) {
+        return next(err);
+      }
+      if (!req.file) {
+        return next(new ApiError(400, `A ${extensions.join(' or ')} file is required`));
+      }
+      next();
+    });
+  };
+};
+
+// CSV or Excel spreadsheet of test cases
+const spreadsheetUpload = singleFileUpload(['.csv', '.xlsx']);
+
+// JUnit XML or JSON report of automated test results
+const testReportUpload = singleFileUpload(['.xml', '.json']);
+
+export { spreadsheetUpload, testReportUpload };
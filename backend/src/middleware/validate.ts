@@ -0,0 +1,593 @@
+import type { NextFunction, Request, Response } from 'express';
+import {
+  validationResult,
+  body,
+  param,
+  query,
+  type FieldValidationError,
+  type ValidationChain,
+  type ValidationError,
+} from 'express-validator';
+import {
+  USER_ROLES,
+  TEST_RESULT_STATUSES,
+  STEP_STATUSES,
+  BUG_SEVERITIES,
+  MANUAL_BUG_STATUSES,
+  API_TOKEN_SCOPES,
+  FIELDS,
+  MAX_TEST_STEPS,
+  PASSWORD,
+  EMAIL_MESSAGE,
+  requiredMessage,
+  lengthMessage,
+  oneOfMessage,
+  passwordLengthMessage,
+  isJamLink,
+  urlMessage,
+  jamLinkMessage,
+  type FieldRule,
+} from 'qualitysync-shared';
+import type { FieldError } from '../types';
+
+// Every validation here checks a field, so every error names one
+const toFieldError = (err: ValidationError): FieldError => ({
+  field: (err as FieldValidationError).path,
+  message: err.msg,
+});
+
+/**
+ * Handle validation errors
+ */
+const handleValidation = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+
+  if (!errors.isEmpty()) {
+    const formattedErrors = errors.array().map(toFieldError);
+
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: formattedErrors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Run body validations against a plain object instead of a request,
+ * e.g. a spreadsheet row. Returns the sanitized values and any errors.
+ */
+const validateFields = async <T extends Record<string, unknown>>(validations: ValidationChain[], data: T) => {
+  const req = { body: { ...data } };
+  await Promise.all(validations.map((validation) => validation.run(req)));
+
+  const errors = validationResult(req).array({ onlyFirstError: true }).map(toFieldError);
+
+  return { values: req.body, errors };
+};
+
+/**
+ * Trim a text field and check it against its shared rule. Required fields
+ * must not be blank either.
+ */
+const textField = (chain: ValidationChain, rule: FieldRule, { required = false } = {}) => {
+  chain.trim();
+  if (required) {
+    chain.notEmpty().withMessage(requiredMessage(rule));
+  }
+  return chain
+    .isLength({ min: rule.min, max: rule.max })
+    .withMessage(lengthMessage(rule));
+};
+
+// A link to a Jam.dev recording
+const jamLinkField = (chain: ValidationChain, label: string, { required = false } = {}) => {
+  if (required) {
+    chain.notEmpty().withMessage(requiredMessage({ label }));
+  }
+  return chain
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage(urlMessage(label))
+    .custom((value: string) => {
+      if (!isJamLink(value)) {
+        throw new Error(jamLinkMessage(label));
+      }
+      return true;
+    });
+};
+
+// A password that meets the shared requirements
+const newPasswordField = (chain: ValidationChain) => PASSWORD.requirements.reduce(
+  (current, { pattern, message }) => current.matches(pattern).withMessage(message),
+  chain.isLength({ min: PASSWORD.min }).withMessage(passwordLengthMessage)
+);
+
+const emailField = (chain: ValidationChain) => chain
+  .isEmail()
+  .withMessage(EMAIL_MESSAGE)
+  .normalizeEmail();
+
+const roleField = (chain: ValidationChain, label = 'Role') => chain
+  .isIn(USER_ROLES)
+  .withMessage(oneOfMessage(label, USER_ROLES));
+
+// Auth validations
+const loginValidation = [
+  emailField(body('email')),
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters'),
+  handleValidation,
+];
+
+const loginTwoFactorValidation = [
+  body('challenge')
+    .notEmpty()
+    .withMessage('Sign-in challenge is required'),
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+    .isLength({ max: 20 })
+    .withMessage('Invalid authentication code'),
+  handleValidation,
+];
+
+// A current code from the authenticator app
+const twoFactorCodeValidation = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Enter the 6-digit code from your authenticator app'),
+  handleValidation,
+];
+
+const disableTwoFactorValidation = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+  ...twoFactorCodeValidation,
+];
+
+const registerValidation = [
+  emailField(body('email')),
+  newPasswordField(body('password')),
+  textField(body('name'), FIELDS.personName, { required: true }),
+  roleField(body('role')),
+  handleValidation,
+];
+
+const forgotPasswordValidation = [
+  emailField(body('email')),
+  handleValidation,
+];
+
+const resetPasswordValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  newPasswordField(body('password')),
+  handleValidation,
+];
+
+const acceptInvitationValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('Invitation token is required'),
+  textField(body('name').optional(), FIELDS.personName),
+  newPasswordField(body('password')),
+  handleValidation,
+];
+
+const verifyEmailValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('Verification token is required'),
+  handleValidation,
+];
+
+// Test case validations
+const testStepsValidation = [
+  body('steps')
+    .optional()
+    .isArray({ max: MAX_TEST_STEPS })
+    .withMessage(`Steps must be an array of at most ${MAX_TEST_STEPS} steps`),
+  textField(body('steps.*.action'), FIELDS.stepAction, { required: true }),
+  textField(body('steps.*.expected_result'), FIELDS.stepExpectedResult, { required: true }),
+  textField(body('steps.*.test_data').optional({ values: 'falsy' }), FIELDS.stepTestData),
+];
+
+// Required test case content, shared by the create form and spreadsheet imports
+const testCaseFieldsValidation = [
+  textField(body('module_platform'), FIELDS.modulePlatform, { required: true }),
+  textField(body('test_case'), FIELDS.testCase, { required: true }),
+  textField(body('expected_result'), FIELDS.expectedResult, { required: true }),
+];
+
+const createTestValidation = [
+  ...testCaseFieldsValidation,
+  jamLinkField(body('evidence_url').optional({ values: 'falsy' }), 'Evidence URL'),
+  body('assigned_to')
+    .notEmpty()
+    .withMessage('Assigned tester is required')
+    .isUUID()
+    .withMessage('Assigned tester must be a valid user ID'),
+  body('suite_ids')
+    .optional()
+    .isArray()
+    .withMessage('Suite IDs must be an array'),
+  body('suite_ids.*')
+    .isUUID()
+    .withMessage('Each suite ID must be a valid ID'),
+  ...testStepsValidation,
+  handleValidation,
+];
+
+// Multipart fields sent along with the spreadsheet
+const importTestsValidation = [
+  body('dry_run')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Dry run must be true or false'),
+  body('mapping')
+    .optional()
+    .isJSON()
+    .withMessage('Column mapping must be a JSON object'),
+  handleValidation,
+];
+
+const ingestTestResultsValidation = [
+  // Optional, but not blank when given
+  textField(body('module_platform').optional(), FIELDS.modulePlatform, { required: true }),
+  handleValidation,
+];
+
+const updateTestResultValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid test case ID'),
+  body('status')
+    // Derived from step_results when those are given
+    .if((_value, { req }) => !req.body.step_results)
+    .isIn(TEST_RESULT_STATUSES)
+    .withMessage(oneOfMessage('Status', TEST_RESULT_STATUSES)),
+  jamLinkField(body('evidence_url').optional({ values: 'falsy' }), 'Evidence URL'),
+  textField(body('notes').optional(), FIELDS.resultNotes),
+  body('duration_seconds')
+    .optional()
+    .isInt({ min: 0, max: 86400 })
+    .withMessage('Duration must be between 0 and 86400 seconds')
+    .toInt(),
+  body('step_results')
+    .optional()
+    .isArray({ min: 1, max: MAX_TEST_STEPS })
+    .withMessage('Step results must be a non-empty array'),
+  body('step_results.*.step_id')
+    .isUUID()
+    .withMessage('Each step result needs a valid step ID'),
+  body('step_results.*.status')
+    .isIn(STEP_STATUSES)
+    .withMessage(oneOfMessage('Step status', STEP_STATUSES)),
+  textField(body('step_results.*.notes').optional({ values: 'falsy' }), FIELDS.stepNotes),
+  handleValidation,
+];
+
+const markTestFixedValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid test case ID'),
+  textField(body('fix_reference'), FIELDS.fixReference, { required: true }),
+  textField(body('fix_notes').optional(), FIELDS.fixNotes),
+  handleValidation,
+];
+
+// Bug validations
+const createBugValidation = [
+  textField(body('module_platform'), FIELDS.modulePlatform, { required: true }),
+  jamLinkField(body('jam_link'), 'Jam link', { required: true }),
+  textField(body('description'), FIELDS.bugDescription, { required: true }),
+  textField(body('note').optional(), FIELDS.bugNote),
+  body('severity')
+    .optional()
+    .isIn(BUG_SEVERITIES)
+    .withMessage(oneOfMessage('Severity', BUG_SEVERITIES)),
+  handleValidation,
+];
+
+const convertBugToTestValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid bug ID'),
+  body('assigned_to')
+    .notEmpty()
+    .withMessage('Assigned tester is required')
+    .isUUID()
+    .withMessage('Assigned tester must be a valid user ID'),
+  textField(body('test_case'), FIELDS.testCase, { required: true }),
+  textField(body('expected_result'), FIELDS.expectedResult, { required: true }),
+  handleValidation,
+];
+
+const updateBugStatusValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid bug ID'),
+  body('status')
+    .isIn(MANUAL_BUG_STATUSES)
+    .withMessage(oneOfMessage('Status', MANUAL_BUG_STATUSES)),
+  textField(body('note').optional(), FIELDS.statusNote),
+  handleValidation,
+];
+
+// Test suite validations
+const createSuiteValidation = [
+  textField(body('name'), FIELDS.suiteName, { required: true }),
+  textField(body('description').optional(), FIELDS.suiteDescription),
+  body('test_case_ids')
+    .optional()
+    .isArray({ max: 1000 })
+    .withMessage('Test case IDs must be an array'),
+  body('test_case_ids.*')
+    .isUUID()
+    .withMessage('Each test case ID must be a valid ID'),
+  handleValidation,
+];
+
+// Test plan validations
+const createPlanValidation = [
+  textField(body('name'), FIELDS.planName, { required: true }),
+  textField(body('release'), FIELDS.release, { required: true }),
+  body('suite_id')
+    .notEmpty()
+    .withMessage('Test suite is required')
+    .isUUID()
+    .withMessage('Test suite must be a valid ID'),
+  body('start_date')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+  body('due_date')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Due date must be a valid date'),
+  handleValidation,
+];
+
+// Comment validations
+const commentBodyValidation = textField(body('body'), FIELDS.commentBody, { required: true });
+
+// A comment thread belongs to exactly one test case or bug
+const commentTargetValidation = (location: typeof body | typeof query) => [
+  location('test_case_id')
+    .optional()
+    .isUUID()
+    .withMessage('Invalid test case ID'),
+  location('bug_id')
+    .optional()
+    .isUUID()
+    .withMessage('Invalid bug ID'),
+  location('test_case_id')
+    .custom((_value, { req }) => {
+      const source = location === query ? req.query : req.body;
+      if (Boolean(source.test_case_id) === Boolean(source.bug_id)) {
+        throw new Error('Provide either test_case_id or bug_id');
+      }
+      return true;
+    }),
+];
+
+const getCommentsValidation = [
+  ...commentTargetValidation(query),
+  handleValidation,
+];
+
+const createCommentValidation = [
+  ...commentTargetValidation(body),
+  commentBodyValidation,
+  handleValidation,
+];
+
+const updateCommentValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid comment ID'),
+  commentBodyValidation,
+  handleValidation,
+];
+
+// User validations
+const createUserValidation = [
+  emailField(body('email')),
+  textField(body('name'), FIELDS.personName, { required: true }),
+  roleField(body('role')),
+  body('is_service_account')
+    .optional()
+    .isBoolean()
+    .withMessage('Service account must be true or false')
+    .toBoolean(),
+  body('project_id')
+    .optional({ values: 'falsy' })
+    .isUUID()
+    .withMessage('Project ID must be a valid ID'),
+  handleValidation,
+];
+
+const inviteUserValidation = [
+  emailField(body('email')),
+  textField(body('name'), FIELDS.personName, { required: true }),
+  roleField(body('role')),
+  body('project_id')
+    .optional({ values: 'falsy' })
+    .isUUID()
+    .withMessage('Project ID must be a valid ID'),
+  handleValidation,
+];
+
+const createProjectValidation = [
+  textField(body('name'), FIELDS.projectName, { required: true }),
+  textField(body('description').optional(), FIELDS.projectDescription),
+  handleValidation,
+];
+
+const projectMemberValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid ID format'),
+  param('userId')
+    .isUUID()
+    .withMessage('Invalid user ID format'),
+  body('role_id')
+    .isUUID()
+    .withMessage('Role must be a valid role ID'),
+  handleValidation,
+];
+
+const rolePermissionsValidation = [
+  body('permissions')
+    .isArray()
+    .withMessage('Permissions must be an array'),
+  body('permissions.*')
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Each permission must be a permission key'),
+];
+
+const createRoleValidation = [
+  textField(body('name'), FIELDS.roleName, { required: true }),
+  textField(body('description').optional(), FIELDS.roleDescription),
+  roleField(body('base_role'), 'Base role'),
+  ...rolePermissionsValidation,
+  handleValidation,
+];
+
+const updateRoleValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid ID format'),
+  textField(body('name').optional(), FIELDS.roleName),
+  textField(body('description').optional({ values: 'null' }), FIELDS.roleDescription),
+  body('permissions')
+    .optional()
+    .isArray()
+    .withMessage('Permissions must be an array'),
+  body('permissions.*')
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Each permission must be a permission key'),
+  handleValidation,
+];
+
+const apiTokenOwnerValidation = [
+  query('user_id')
+    .optional()
+    .isUUID()
+    .withMessage('User ID must be a valid ID'),
+  handleValidation,
+];
+
+const createApiTokenValidation = [
+  textField(body('name'), FIELDS.tokenName, { required: true }),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Choose at least one scope'),
+  body('scopes.*')
+    .isIn(API_TOKEN_SCOPES)
+    .withMessage(oneOfMessage('Scopes', API_TOKEN_SCOPES)),
+  body('expires_in_days')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Expiry must be between 1 and 365 days')
+    .toInt(),
+  body('user_id')
+    .optional()
+    .isUUID()
+    .withMessage('User ID must be a valid ID'),
+  handleValidation,
+];
+
+// Pagination validation
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer')
+    .toInt(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+    .toInt(),
+  query('sort')
+    .optional()
+    .isIn(['created_at', 'updated_at', 'status', 'module_platform'])
+    .withMessage('Invalid sort field'),
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Order must be asc or desc'),
+  handleValidation,
+];
+
+// Export file format
+const exportFormatValidation = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'json', 'pdf'])
+    .withMessage('Format must be csv, json, or pdf'),
+];
+
+// UUID param validation
+const uuidParamValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Invalid ID format'),
+  handleValidation,
+];
+
+export {
+  handleValidation,
+  validateFields,
+  textField,
+  jamLinkField,
+  newPasswordField,
+  roleField,
+  loginValidation,
+  loginTwoFactorValidation,
+  twoFactorCodeValidation,
+  disableTwoFactorValidation,
+  registerValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  acceptInvitationValidation,
+  verifyEmailValidation,
+  testStepsValidation,
+  testCaseFieldsValidation,
+  createTestValidation,
+  importTestsValidation,
+  ingestTestResultsValidation,
+  updateTestResultValidation,
+  markTestFixedValidation,
+  createBugValidation,
+  convertBugToTestValidation,
+  updateBugStatusValidation,
+  createSuiteValidation,
+  createPlanValidation,
+  getCommentsValidation,
+  createCommentValidation,
+  updateCommentValidation,
+  createUserValidation,
+  inviteUserValidation,
+  createProjectValidation,
+  projectMemberValidation,
+  createRoleValidation,
+  updateRoleValidation,
+  apiTokenOwnerValidation,
+  createApiTokenValidation,
+  paginationValidation,
+  exportFormatValidation,
+  uuidParamValidation,
+};
@@ -0,0 +1,47 @@
+import config from '../config';
+import type { Repositories } from './types';
+
+/**
+ * Data access for everything the API stores.
+ *
+ * Every driver exposes the same repositories:
+ * - `supabase` talks to Supabase through PostgREST
+ * - `postgres` talks to a plain Postgres database at DATABASE_URL
+ *
+ * Reads take `fields`, a comma-separated list of columns, and `with`, the
+ * names of the related rows to embed. Failed queries throw an Error that
+ * keeps the database error code.
+ *
+ * With the postgres driver the API needs no Supabase project at all.
+ */
+// Loaded on demand, so only the configured driver checks its settings
+const drivers: Record<string, () => Repositories> = {
+  supabase: () => require('./supabase').default,
+  postgres: () => require('./postgres').default,
+};
+
+const loadDriver = drivers[config.database.driver];
+if (!loadDriver) {
+  throw new Error(`Unknown DB_DRIVER "${config.database.driver}", expected one of: ${Object.keys(drivers).join(', ')}`);
+}
+
+export const {
+  testRepository,
+  bugRepository,
+  userRepository,
+  sessionRepository,
+  apiTokenRepository,
+  recoveryCodeRepository,
+  loginAttemptRepository,
+  invitationRepository,
+  roleRepository,
+  projectRepository,
+  testRunRepository,
+  testStepRepository,
+  suiteRepository,
+  planRepository,
+  commentRepository,
+  notificationRepository,
+  auditRepository,
+  bugHistoryRepository,
+} = loadDriver();
@@ -0,0 +1,102 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+} from './sql';
+import type { ApiTokenFilters, ListOptions, ReadOptions, UpdateOptions } from '../types';
+import type { ApiTokenRow } from '../../types';
+
+// Related rows that can be embedded in an API token
+const RELATIONS: Record<string, string> = {
+  creator: embedUser('api_tokens.created_by'),
+  user: embedUser('api_tokens.user_id', [
+    'id', 'email', 'name', 'role', 'role_id', 'is_verified', 'is_service_account', 'two_factor_enabled',
+  ]),
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<ApiTokenRow | null> {
+  const params = createParams();
+  const [token] = await query<ApiTokenRow>(
+    'Failed to fetch API token',
+    `SELECT ${selectFields('api_tokens', RELATIONS, options)} FROM api_tokens WHERE id = ${params.add(id)}`,
+    params,
+    { tokenId: id }
+  );
+
+  return token || null;
+}
+
+/**
+ * The token with this hash, or null
+ */
+async function findByHash(tokenHash: string, options?: ReadOptions): Promise<ApiTokenRow | null> {
+  const params = createParams();
+  const [token] = await query<ApiTokenRow>(
+    'Failed to look up API token',
+    `SELECT ${selectFields('api_tokens', RELATIONS, options)} FROM api_tokens WHERE token_hash = ${params.add(tokenHash)}`,
+    params
+  );
+
+  return token || null;
+}
+
+async function findMany({ userId }: ApiTokenFilters, options: ListOptions = {}): Promise<ApiTokenRow[]> {
+  const params = createParams();
+  return query<ApiTokenRow>(
+    'Failed to fetch API tokens',
+    `SELECT ${selectFields('api_tokens', RELATIONS, options)} FROM api_tokens
+      WHERE user_id = ${params.add(userId)}
+      ${pagingClause(params, options)}`,
+    params,
+    { userId }
+  );
+}
+
+async function create(values: Partial<ApiTokenRow>, options?: ReadOptions): Promise<ApiTokenRow> {
+  const params = createParams();
+  const [token] = await query<ApiTokenRow>(
+    'Failed to create API token',
+    `${insertStatement('api_tokens', [values], params)} RETURNING ${selectFields('api_tokens', RELATIONS, options)}`,
+    params,
+    { userId: values.user_id }
+  );
+
+  return token;
+}
+
+/**
+ * Update a token and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<ApiTokenRow>,
+  { match = {}, ...options }: UpdateOptions<ApiTokenRow> = {}
+): Promise<ApiTokenRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [token] = await query<ApiTokenRow>(
+    'Failed to update API token',
+    `UPDATE api_tokens SET ${set} ${whereClause(conditions)} RETURNING ${selectFields('api_tokens', RELATIONS, options)}`,
+    params,
+    { tokenId: id }
+  );
+
+  return token || null;
+}
+
+export {
+  findById,
+  findByHash,
+  findMany,
+  create,
+  update,
+};
@@ -0,0 +1,72 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  type Params,
+} from './sql';
+import type { AuditFilters, ListOptions, Page } from '../types';
+import type { AuditEvent } from '../../types';
+
+// Related rows that can be embedded in an audit event
+const RELATIONS: Record<string, string> = {
+  actor: embedUser('audit_events.actor_id'),
+};
+
+/**
+ * Conditions for the filters
+ */
+const filterConditions = (filters: AuditFilters, params: Params) => {
+  const conditions: string[] = [];
+  if (filters.action) conditions.push(`action = ${params.add(filters.action)}`);
+  if (filters.entityType) conditions.push(`entity_type = ${params.add(filters.entityType)}`);
+  if (filters.entityId) conditions.push(`entity_id = ${params.add(filters.entityId)}`);
+  if (filters.actorId) conditions.push(`actor_id = ${params.add(filters.actorId)}`);
+  if (filters.requestId) conditions.push(`request_id = ${params.add(filters.requestId)}`);
+  if (filters.from) conditions.push(`created_at >= ${params.add(filters.from)}`);
+  if (filters.to) conditions.push(`created_at <= ${params.add(filters.to)}`);
+  return conditions;
+};
+
+async function findPage(filters: AuditFilters, options: ListOptions): Promise<Page<AuditEvent>> {
+  const countParams = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to fetch audit events',
+    `SELECT count(*) AS total FROM audit_events ${whereClause(filterConditions(filters, countParams))}`,
+    countParams
+  );
+
+  const params = createParams();
+  const rows = await query<AuditEvent>(
+    'Failed to fetch audit events',
+    `SELECT ${selectFields('audit_events', RELATIONS, options)} FROM audit_events
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+
+  return { rows, total };
+}
+
+async function create(values: Partial<AuditEvent>): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to record audit event',
+    insertStatement('audit_events', [values], params),
+    params,
+    {
+      action: values.action,
+      entityType: values.entity_type,
+      entityId: values.entity_id,
+      requestId: values.request_id,
+    }
+  );
+}
+
+export {
+  findPage,
+  create,
+};
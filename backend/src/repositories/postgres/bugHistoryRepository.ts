@@ -0,0 +1,43 @@
+import { query } from './pool';
+import { createParams, selectFields, embedUser, pagingClause, insertStatement } from './sql';
+import type { ListOptions } from '../types';
+import type { BugStatusChange } from '../../types';
+
+// Related rows that can be embedded in a status change
+const RELATIONS: Record<string, string> = {
+  changer: embedUser('bug_status_history.changed_by', ['id', 'name', 'email', 'role']),
+};
+
+/**
+ * Status changes of a bug
+ */
+async function findMany(bugId: string, options: ListOptions = {}): Promise<BugStatusChange[]> {
+  const params = createParams();
+  return query<BugStatusChange>(
+    'Failed to fetch bug history',
+    `SELECT ${selectFields('bug_status_history', RELATIONS, options)} FROM bug_status_history
+      WHERE bug_id = ${params.add(bugId)}
+      ${pagingClause(params, options)}`,
+    params,
+    { bugId }
+  );
+}
+
+async function create(values: Partial<BugStatusChange>): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to record bug status change',
+    insertStatement('bug_status_history', [values], params),
+    params,
+    {
+      bugId: values.bug_id,
+      fromStatus: values.from_status,
+      toStatus: values.to_status,
+    }
+  );
+}
+
+export {
+  findMany,
+  create,
+};
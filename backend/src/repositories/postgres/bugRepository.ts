@@ -0,0 +1,136 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  type Params,
+} from './sql';
+import type { BugFilters, ListOptions, Page, ReadOptions, ScopedReadOptions } from '../types';
+import type { BugRow } from '../../types';
+
+// Related rows that can be embedded in a bug
+const RELATIONS: Record<string, string> = {
+  creator: embedUser('unlisted_bugs.created_by'),
+  converted_test: `(SELECT json_build_object(
+    'id', tc.id,
+    'module_platform', tc.module_platform,
+    'test_case', tc.test_case,
+    'status', tc.status,
+    'assigned_to', tc.assigned_to,
+    'assignee', ${embedUser('tc.assigned_to')}
+  ) FROM test_cases tc WHERE tc.id = unlisted_bugs.converted_to_test_id)`,
+};
+
+/**
+ * Conditions for the list filters
+ */
+const filterConditions = (filters: BugFilters, params: Params) => {
+  const { projectId, createdBy, status, severity, modulePlatform, search } = filters;
+
+  const conditions: string[] = [];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+  if (createdBy) conditions.push(`created_by = ${params.add(createdBy)}`);
+  if (status) conditions.push(`status = ${params.add(status)}`);
+  if (severity) conditions.push(`severity = ${params.add(severity)}`);
+  if (modulePlatform) conditions.push(`module_platform ILIKE ${params.add(`%${modulePlatform}%`)}`);
+  if (search) {
+    const pattern = params.add(`%${search}%`);
+    conditions.push(`(description ILIKE ${pattern} OR note ILIKE ${pattern})`);
+  }
+  return conditions;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<BugRow | null> {
+  const params = createParams();
+  const conditions = [`id = ${params.add(id)}`];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+
+  const [bug] = await query<BugRow>(
+    'Failed to fetch bug',
+    `SELECT ${selectFields('unlisted_bugs', RELATIONS, options)} FROM unlisted_bugs ${whereClause(conditions)}`,
+    params,
+    { bugId: id }
+  );
+
+  return bug || null;
+}
+
+async function findMany(filters: BugFilters, options: ListOptions = {}): Promise<BugRow[]> {
+  const params = createParams();
+  return query<BugRow>(
+    'Failed to fetch bugs',
+    `SELECT ${selectFields('unlisted_bugs', RELATIONS, options)} FROM unlisted_bugs
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+}
+
+/**
+ * One page of bugs and how many match the filters in total
+ */
+async function findPage(filters: BugFilters, options: ListOptions): Promise<Page<BugRow>> {
+  const params = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to fetch bugs',
+    `SELECT count(*) AS total FROM unlisted_bugs ${whereClause(filterConditions(filters, params))}`,
+    params
+  );
+
+  return { rows: await findMany(filters, options), total };
+}
+
+async function create(values: Partial<BugRow>, options?: ReadOptions): Promise<BugRow> {
+  const params = createParams();
+  const [bug] = await query<BugRow>(
+    'Failed to create bug',
+    `${insertStatement('unlisted_bugs', [values], params)} RETURNING ${selectFields('unlisted_bugs', RELATIONS, options)}`,
+    params
+  );
+
+  return bug;
+}
+
+/**
+ * Update a bug and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<BugRow>, options?: ReadOptions): Promise<BugRow | null> {
+  if (Object.keys(changes).length === 0) {
+    return findById(id, options);
+  }
+
+  const params = createParams();
+  const [bug] = await query<BugRow>(
+    'Failed to update bug',
+    `UPDATE unlisted_bugs SET ${setClause(changes, params)}
+      WHERE id = ${params.add(id)}
+      RETURNING ${selectFields('unlisted_bugs', RELATIONS, options)}`,
+    params,
+    { bugId: id }
+  );
+
+  return bug || null;
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete bug',
+    `DELETE FROM unlisted_bugs WHERE id = ${params.add(id)}`,
+    params,
+    { bugId: id }
+  );
+}
+
+export {
+  findById,
+  findMany,
+  findPage,
+  create,
+  update,
+  remove,
+};
@@ -0,0 +1,133 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  type Params,
+} from './sql';
+import type { CommentFilters, ListOptions, ReadOptions } from '../types';
+import type { Comment } from '../../types';
+
+// Related rows that can be embedded in a comment
+const RELATIONS: Record<string, string> = {
+  author: embedUser('comments.author_id', ['id', 'name', 'email', 'role']),
+  mentions: `COALESCE((SELECT json_agg(json_build_object('user', ${embedUser('m.user_id', ['id', 'name', 'role'])}))
+    FROM comment_mentions m WHERE m.comment_id = comments.id), '[]')`,
+};
+
+/**
+ * Conditions for a thread
+ */
+const filterConditions = ({ testCaseId, bugId }: CommentFilters, params: Params) => {
+  const conditions: string[] = [];
+  if (testCaseId) conditions.push(`test_case_id = ${params.add(testCaseId)}`);
+  if (bugId) conditions.push(`bug_id = ${params.add(bugId)}`);
+  return conditions;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<Comment | null> {
+  const params = createParams();
+  const [comment] = await query<Comment>(
+    'Failed to fetch comment',
+    `SELECT ${selectFields('comments', RELATIONS, options)} FROM comments WHERE id = ${params.add(id)}`,
+    params,
+    { commentId: id }
+  );
+
+  return comment || null;
+}
+
+async function findMany(filters: CommentFilters, options: ListOptions = {}): Promise<Comment[]> {
+  const params = createParams();
+  return query<Comment>(
+    'Failed to fetch comments',
+    `SELECT ${selectFields('comments', RELATIONS, options)} FROM comments
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+}
+
+async function create(values: Partial<Comment>, options?: ReadOptions): Promise<Comment> {
+  const params = createParams();
+  const [comment] = await query<Comment>(
+    'Failed to create comment',
+    `${insertStatement('comments', [values], params)} RETURNING ${selectFields('comments', RELATIONS, options)}`,
+    params
+  );
+
+  return comment;
+}
+
+async function update(id: string, changes: Partial<Comment>): Promise<void> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  await query(
+    'Failed to update comment',
+    `UPDATE comments SET ${set} WHERE id = ${params.add(id)}`,
+    params,
+    { commentId: id }
+  );
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete comment',
+    `DELETE FROM comments WHERE id = ${params.add(id)}`,
+    params,
+    { commentId: id }
+  );
+}
+
+/**
+ * Ids of the users a comment mentions
+ */
+async function findMentionedIds(commentId: string): Promise<string[]> {
+  const params = createParams();
+  const rows = await query<{ user_id: string }>(
+    'Failed to fetch comment mentions',
+    `SELECT user_id FROM comment_mentions WHERE comment_id = ${params.add(commentId)}`,
+    params,
+    { commentId }
+  );
+
+  return rows.map((row) => row.user_id);
+}
+
+async function addMentions(commentId: string, userIds: string[]): Promise<void> {
+  const params = createParams();
+  const rows = userIds.map((userId) => ({ comment_id: commentId, user_id: userId }));
+  await query(
+    'Failed to add comment mentions',
+    insertStatement('comment_mentions', rows, params),
+    params,
+    { commentId }
+  );
+}
+
+async function removeMentions(commentId: string, userIds: string[]): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to remove comment mentions',
+    `DELETE FROM comment_mentions
+      WHERE comment_id = ${params.add(commentId)} AND user_id = ANY(${params.add(userIds)}::uuid[])`,
+    params,
+    { commentId }
+  );
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findMentionedIds,
+  addMentions,
+  removeMentions,
+};
@@ -0,0 +1,117 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+} from './sql';
+import type { InvitationFilters, InvitationLookup, ListOptions, ReadOptions, UpdateOptions } from '../types';
+import type { InvitationRow } from '../../types';
+
+// Related rows that can be embedded in an invitation
+const RELATIONS: Record<string, string> = {
+  inviter: embedUser('invitations.invited_by'),
+  project: `(SELECT json_build_object('id', p.id, 'name', p.name)
+    FROM projects p WHERE p.id = invitations.project_id)`,
+};
+
+/**
+ * Condition for invitations that are (not) still open, neither accepted
+ * nor revoked
+ */
+const pendingConditions = (pending?: boolean) => {
+  if (pending === undefined) return [];
+  return [pending
+    ? 'accepted_at IS NULL AND revoked_at IS NULL'
+    : '(accepted_at IS NOT NULL OR revoked_at IS NOT NULL)'];
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<InvitationRow | null> {
+  const params = createParams();
+  const [invitation] = await query<InvitationRow>(
+    'Failed to fetch invitation',
+    `SELECT ${selectFields('invitations', RELATIONS, options)} FROM invitations WHERE id = ${params.add(id)}`,
+    params,
+    { invitationId: id }
+  );
+
+  return invitation || null;
+}
+
+/**
+ * The invitation matching every given lookup key, e.g. `{ tokenHash }`,
+ * or null
+ */
+async function findOne({ email, tokenHash, pending }: InvitationLookup, options?: ReadOptions): Promise<InvitationRow | null> {
+  const params = createParams();
+  const conditions = pendingConditions(pending);
+  if (email) conditions.push(`email = ${params.add(email)}`);
+  if (tokenHash) conditions.push(`token_hash = ${params.add(tokenHash)}`);
+
+  const [invitation] = await query<InvitationRow>(
+    'Failed to look up invitation',
+    `SELECT ${selectFields('invitations', RELATIONS, options)} FROM invitations ${whereClause(conditions)} LIMIT 1`,
+    params,
+    { email }
+  );
+
+  return invitation || null;
+}
+
+async function findMany({ pending }: InvitationFilters, options: ListOptions = {}): Promise<InvitationRow[]> {
+  const params = createParams();
+  return query<InvitationRow>(
+    'Failed to fetch invitations',
+    `SELECT ${selectFields('invitations', RELATIONS, options)} FROM invitations
+      ${whereClause(pendingConditions(pending))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+}
+
+async function create(values: Partial<InvitationRow>, options?: ReadOptions): Promise<InvitationRow> {
+  const params = createParams();
+  const [invitation] = await query<InvitationRow>(
+    'Failed to create invitation',
+    `${insertStatement('invitations', [values], params)} RETURNING ${selectFields('invitations', RELATIONS, options)}`,
+    params,
+    { email: values.email }
+  );
+
+  return invitation;
+}
+
+/**
+ * Update an invitation and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<InvitationRow>,
+  { match = {}, ...options }: UpdateOptions<InvitationRow> = {}
+): Promise<InvitationRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [invitation] = await query<InvitationRow>(
+    'Failed to update invitation',
+    `UPDATE invitations SET ${set} ${whereClause(conditions)} RETURNING ${selectFields('invitations', RELATIONS, options)}`,
+    params,
+    { invitationId: id }
+  );
+
+  return invitation || null;
+}
+
+export {
+  findById,
+  findOne,
+  findMany,
+  create,
+  update,
+};
@@ -0,0 +1,34 @@
+import { query } from './pool';
+import { createParams, selectFields, whereClause, pagingClause, insertStatement } from './sql';
+import type { ListOptions, LoginAttemptFilters } from '../types';
+import type { LoginAttemptRow } from '../../types';
+
+async function findMany({ userId, success }: LoginAttemptFilters, options: ListOptions = {}): Promise<LoginAttemptRow[]> {
+  const params = createParams();
+  const conditions = [`user_id = ${params.add(userId)}`];
+  if (success !== undefined) conditions.push(`success = ${params.add(success)}`);
+
+  return query<LoginAttemptRow>(
+    'Failed to fetch login history',
+    `SELECT ${selectFields('login_attempts', {}, options)} FROM login_attempts
+      ${whereClause(conditions)}
+      ${pagingClause(params, options)}`,
+    params,
+    { userId }
+  );
+}
+
+async function create(values: Partial<LoginAttemptRow>): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to record login attempt',
+    insertStatement('login_attempts', [values], params),
+    params,
+    { userId: values.user_id }
+  );
+}
+
+export {
+  findMany,
+  create,
+};
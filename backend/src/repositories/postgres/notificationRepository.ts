@@ -0,0 +1,127 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+  type Params,
+} from './sql';
+import type { ListOptions, NotificationFilters, OwnedReadOptions, Page, ReadOptions, UpdateOptions } from '../types';
+import type { NotificationRow } from '../../types';
+
+// Related rows that can be embedded in a notification
+const RELATIONS: Record<string, string> = {
+  actor: embedUser('notifications.actor_id'),
+};
+
+/**
+ * Conditions for the filters
+ */
+const filterConditions = ({ userId, unread }: NotificationFilters, params: Params) => {
+  const conditions = [`user_id = ${params.add(userId)}`];
+  if (unread !== undefined) conditions.push(`read_at IS ${unread ? 'NULL' : 'NOT NULL'}`);
+  return conditions;
+};
+
+/**
+ * A notification, or null when it does not exist or is not for `userId`
+ */
+async function findById(id: string, { userId, ...options }: OwnedReadOptions = {}): Promise<NotificationRow | null> {
+  const params = createParams();
+  const conditions = [`id = ${params.add(id)}`];
+  if (userId) conditions.push(`user_id = ${params.add(userId)}`);
+
+  const [notification] = await query<NotificationRow>(
+    'Failed to fetch notification',
+    `SELECT ${selectFields('notifications', RELATIONS, options)} FROM notifications ${whereClause(conditions)}`,
+    params,
+    { notificationId: id }
+  );
+
+  return notification || null;
+}
+
+async function findPage(filters: NotificationFilters, options: ListOptions): Promise<Page<NotificationRow>> {
+  const params = createParams();
+  const rows = await query<NotificationRow>(
+    'Failed to fetch notifications',
+    `SELECT ${selectFields('notifications', RELATIONS, options)} FROM notifications
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params,
+    { userId: filters.userId }
+  );
+
+  return { rows, total: await count(filters) };
+}
+
+async function count(filters: NotificationFilters): Promise<number> {
+  const params = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to count notifications',
+    `SELECT count(*) AS total FROM notifications ${whereClause(filterConditions(filters, params))}`,
+    params,
+    { userId: filters.userId }
+  );
+
+  return total;
+}
+
+async function createMany(rows: Partial<NotificationRow>[], options?: ReadOptions): Promise<NotificationRow[]> {
+  const params = createParams();
+  return query<NotificationRow>(
+    'Failed to create notifications',
+    `${insertStatement('notifications', rows, params)} RETURNING ${selectFields('notifications', RELATIONS, options)}`,
+    params,
+    { type: rows[0]?.type }
+  );
+}
+
+/**
+ * Update a notification and return it, or null when it does not exist or
+ * no longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<NotificationRow>,
+  { match = {}, ...options }: UpdateOptions<NotificationRow> = {}
+): Promise<NotificationRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [notification] = await query<NotificationRow>(
+    'Failed to update notification',
+    `UPDATE notifications SET ${set} ${whereClause(conditions)}
+      RETURNING ${selectFields('notifications', RELATIONS, options)}`,
+    params,
+    { notificationId: id }
+  );
+
+  return notification || null;
+}
+
+async function updateMany(filters: NotificationFilters, changes: Partial<NotificationRow>): Promise<void> {
+  const params = createParams();
+  const set = setClause(changes, params);
+
+  await query(
+    'Failed to update notifications',
+    `UPDATE notifications SET ${set} ${whereClause(filterConditions(filters, params))}`,
+    params,
+    { userId: filters.userId }
+  );
+}
+
+export {
+  findById,
+  findPage,
+  count,
+  createMany,
+  update,
+  updateMany,
+};
@@ -0,0 +1,166 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  type Params,
+} from './sql';
+import type { ListOptions, PlanFilters, ReadOptions, ScopedReadOptions } from '../types';
+import type { PlanRow, TestPlanCase, TestPlanProgress, TestStatus } from '../../types';
+
+// Related rows that can be embedded in a plan
+const RELATIONS: Record<string, string> = {
+  suite: `(SELECT json_build_object('id', s.id, 'name', s.name)
+    FROM test_suites s WHERE s.id = test_plans.suite_id)`,
+  creator: embedUser('test_plans.created_by'),
+};
+
+/**
+ * Conditions for the filters
+ */
+const filterConditions = ({ projectId, status }: PlanFilters, params: Params) => {
+  const conditions = [`project_id = ${params.add(projectId)}`];
+  if (status) conditions.push(`status = ${params.add(status)}`);
+  return conditions;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<PlanRow | null> {
+  const params = createParams();
+  const conditions = [`id = ${params.add(id)}`];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+
+  const [plan] = await query<PlanRow>(
+    'Failed to fetch test plan',
+    `SELECT ${selectFields('test_plans', RELATIONS, options)} FROM test_plans ${whereClause(conditions)}`,
+    params,
+    { planId: id }
+  );
+
+  return plan || null;
+}
+
+async function findMany(filters: PlanFilters, options: ListOptions = {}): Promise<PlanRow[]> {
+  const params = createParams();
+  return query<PlanRow>(
+    'Failed to fetch test plans',
+    `SELECT ${selectFields('test_plans', RELATIONS, options)} FROM test_plans
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params,
+    { projectId: filters.projectId }
+  );
+}
+
+async function create(values: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow> {
+  const params = createParams();
+  const [plan] = await query<PlanRow>(
+    'Failed to create test plan',
+    `${insertStatement('test_plans', [values], params)} RETURNING ${selectFields('test_plans', RELATIONS, options)}`,
+    params
+  );
+
+  return plan;
+}
+
+/**
+ * Update a plan and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow | null> {
+  if (Object.keys(changes).length === 0) {
+    return findById(id, options);
+  }
+
+  const params = createParams();
+  const set = setClause(changes, params);
+  const [plan] = await query<PlanRow>(
+    'Failed to update test plan',
+    `UPDATE test_plans SET ${set} WHERE id = ${params.add(id)}
+      RETURNING ${selectFields('test_plans', RELATIONS, options)}`,
+    params,
+    { planId: id }
+  );
+
+  return plan || null;
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete test plan',
+    `DELETE FROM test_plans WHERE id = ${params.add(id)}`,
+    params,
+    { planId: id }
+  );
+}
+
+/**
+ * Result counts of the plans, one row per plan
+ */
+async function findProgress(planIds: string[]): Promise<(TestPlanProgress & { plan_id: string })[]> {
+  const params = createParams();
+  return query<TestPlanProgress & { plan_id: string }>(
+    'Failed to fetch plan progress',
+    `SELECT * FROM test_plan_progress WHERE plan_id = ANY(${params.add(planIds)}::uuid[])`,
+    params
+  );
+}
+
+/**
+ * The test cases a plan captured, with the plan's result of each
+ */
+async function findCases(planId: string): Promise<TestPlanCase[]> {
+  const params = createParams();
+  return query<TestPlanCase>(
+    'Failed to fetch plan cases',
+    `SELECT pc.test_case_id, pc.status, pc.last_run_id, pc.updated_at,
+        (SELECT json_build_object('id', t.id, 'module_platform', t.module_platform, 'test_case', t.test_case,
+          'expected_result', t.expected_result, 'assigned_to', t.assigned_to, 'assignee', ${embedUser('t.assigned_to')})
+          FROM test_cases t WHERE t.id = pc.test_case_id) AS test_case
+      FROM test_plan_cases pc
+      WHERE pc.plan_id = ${params.add(planId)}`,
+    params,
+    { planId }
+  );
+}
+
+async function addCases(planId: string, testCaseIds: string[]): Promise<void> {
+  const params = createParams();
+  const rows = testCaseIds.map((testCaseId) => ({ plan_id: planId, test_case_id: testCaseId }));
+  await query(
+    'Failed to add plan cases',
+    insertStatement('test_plan_cases', rows, params),
+    params,
+    { planId }
+  );
+}
+
+/**
+ * Record a run of a test case in every active plan that captured it
+ */
+async function recordResult(testCaseId: string, status: TestStatus, runId: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to record plan result',
+    `UPDATE test_plan_cases SET status = ${params.add(status)}, last_run_id = ${params.add(runId)}
+      WHERE test_case_id = ${params.add(testCaseId)}
+        AND plan_id IN (SELECT id FROM test_plans WHERE status = 'active')`,
+    params,
+    { testCaseId, runId }
+  );
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findProgress,
+  findCases,
+  addCases,
+  recordResult,
+};
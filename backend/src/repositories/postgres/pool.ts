@@ -0,0 +1,70 @@
+import { Pool, types } from 'pg';
+import config from '../../config';
+import queryError from '../queryError';
+import type { Params } from './sql';
+
+if (!config.database.url) {
+  throw new Error('DATABASE_URL environment variable is required when DB_DRIVER is postgres');
+}
+
+// Return rows the way PostgREST does: timestamps as ISO strings, dates as
+// they are stored and bigints as numbers
+const toIsoString = (value: string) => new Date(value).toISOString();
+types.setTypeParser(types.builtins.TIMESTAMPTZ, toIsoString);
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+types.setTypeParser(types.builtins.INT8, Number);
+
+const pool = new Pool({ connectionString: config.database.url, max: config.database.poolSize });
+
+// Runs a statement on the connection of a transaction
+type Execute = <T>(text: string, params: Params) => Promise<T[]>;
+
+/**
+ * Run a statement and return its rows. Failures are logged and thrown
+ * with `message`, like the Supabase driver does.
+ */
+async function query<T>(
+  message: string,
+  text: string,
+  params: Params,
+  context?: Record<string, unknown>
+): Promise<T[]> {
+  try {
+    const { rows } = await pool.query(text, params.values);
+    return rows;
+  } catch (error) {
+    throw queryError(message, error as { code?: string }, context);
+  }
+}
+
+/**
+ * Run several statements in one transaction. When any of them fails the
+ * others are rolled back and the failure is thrown with `message`.
+ */
+async function transaction<T>(
+  message: string,
+  statements: (execute: Execute) => Promise<T>,
+  context?: Record<string, unknown>
+): Promise<T> {
+  const client = await pool.connect().catch((error) => {
+    throw queryError(message, error, context);
+  });
+
+  try {
+    await client.query('BEGIN');
+    const result = await statements(async (text, params) => (await client.query(text, params.values)).rows);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw queryError(message, error as { code?: string }, context);
+  } finally {
+    client.release();
+  }
+}
+
+export {
+  pool,
+  query,
+  transaction,
+};
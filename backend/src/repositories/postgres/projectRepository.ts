@@ -0,0 +1,174 @@
+import { query } from './pool';
+import {
+  identifier,
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  type Params,
+} from './sql';
+import type { ListOptions, MemberFilters, ReadOptions } from '../types';
+import type { ProjectMemberRow, ProjectRow } from '../../types';
+
+// Related rows that can be embedded in a membership
+const MEMBER_RELATIONS: Record<string, string> = {
+  user: embedUser('project_members.user_id', ['id', 'name', 'email', 'role', 'is_verified', 'is_service_account']),
+  project: `(SELECT json_build_object('id', p.id, 'name', p.name, 'description', p.description,
+    'created_at', p.created_at, 'updated_at', p.updated_at)
+    FROM projects p WHERE p.id = project_members.project_id)`,
+};
+
+/**
+ * Conditions for the membership filters
+ */
+const memberConditions = ({ projectId, userId, role }: MemberFilters, params: Params) => {
+  const conditions: string[] = [];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+  if (userId) conditions.push(`user_id = ${params.add(userId)}`);
+  if (role) conditions.push(`role = ${params.add(role)}`);
+  return conditions;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<ProjectRow | null> {
+  const params = createParams();
+  const [project] = await query<ProjectRow>(
+    'Failed to fetch project',
+    `SELECT ${selectFields('projects', {}, options)} FROM projects WHERE id = ${params.add(id)}`,
+    params,
+    { projectId: id }
+  );
+
+  return project || null;
+}
+
+async function findMany(options: ListOptions = {}): Promise<ProjectRow[]> {
+  const params = createParams();
+  return query<ProjectRow>(
+    'Failed to fetch projects',
+    `SELECT ${selectFields('projects', {}, options)} FROM projects ${pagingClause(params, options)}`,
+    params
+  );
+}
+
+async function create(values: Partial<ProjectRow> & { created_by: string }, options?: ReadOptions): Promise<ProjectRow> {
+  const params = createParams();
+  const [project] = await query<ProjectRow>(
+    'Failed to create project',
+    `${insertStatement('projects', [values], params)} RETURNING ${selectFields('projects', {}, options)}`,
+    params,
+    { name: values.name }
+  );
+
+  return project;
+}
+
+async function update(id: string, changes: Partial<ProjectRow>, options?: ReadOptions): Promise<ProjectRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const [project] = await query<ProjectRow>(
+    'Failed to update project',
+    `UPDATE projects SET ${set} WHERE id = ${params.add(id)} RETURNING ${selectFields('projects', {}, options)}`,
+    params,
+    { projectId: id }
+  );
+
+  return project || null;
+}
+
+/**
+ * The user's membership of a project, or null when they are not a member
+ */
+async function findMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null> {
+  const params = createParams();
+  const [member] = await query<ProjectMemberRow>(
+    'Failed to fetch project membership',
+    `SELECT ${selectFields('project_members', MEMBER_RELATIONS, options)} FROM project_members
+      ${whereClause(memberConditions({ projectId, userId }, params))}`,
+    params,
+    { projectId, userId }
+  );
+
+  return member || null;
+}
+
+async function findMembers(filters: MemberFilters, options: ListOptions = {}): Promise<ProjectMemberRow[]> {
+  const params = createParams();
+  return query<ProjectMemberRow>(
+    'Failed to fetch project members',
+    `SELECT ${selectFields('project_members', MEMBER_RELATIONS, options)} FROM project_members
+      ${whereClause(memberConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params,
+    { ...filters }
+  );
+}
+
+/**
+ * Add a user to a project, or replace their membership when they are one
+ */
+async function setMember(values: Partial<ProjectMemberRow>, options?: ReadOptions): Promise<ProjectMemberRow> {
+  const params = createParams();
+  const updates = Object.keys(values)
+    .filter((column) => values[column as keyof ProjectMemberRow] !== undefined)
+    .filter((column) => column !== 'project_id' && column !== 'user_id')
+    .map((column) => `${identifier(column)} = EXCLUDED.${identifier(column)}`);
+
+  const [member] = await query<ProjectMemberRow>(
+    'Failed to add project member',
+    `${insertStatement('project_members', [values], params)}
+      ON CONFLICT (project_id, user_id) ${updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING'}
+      RETURNING ${selectFields('project_members', MEMBER_RELATIONS, options)}`,
+    params,
+    { projectId: values.project_id, userId: values.user_id }
+  );
+
+  return member;
+}
+
+/**
+ * Remove a user from a project and return the membership, or null when
+ * they were not a member
+ */
+async function removeMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null> {
+  const params = createParams();
+  const [member] = await query<ProjectMemberRow>(
+    'Failed to remove project member',
+    `DELETE FROM project_members ${whereClause(memberConditions({ projectId, userId }, params))}
+      RETURNING ${selectFields('project_members', MEMBER_RELATIONS, options)}`,
+    params,
+    { projectId, userId }
+  );
+
+  return member || null;
+}
+
+/**
+ * How many of the ids are records of the project in the table
+ */
+async function countRecords(table: string, projectId: string, ids: string[]): Promise<number> {
+  const params = createParams();
+  const [{ count }] = await query<{ count: number }>(
+    'Failed to check project records',
+    `SELECT count(*) AS count FROM ${identifier(table)}
+      WHERE project_id = ${params.add(projectId)} AND id = ANY(${params.add(ids)})`,
+    params,
+    { table, projectId }
+  );
+
+  return count;
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  findMember,
+  findMembers,
+  setMember,
+  removeMember,
+  countRecords,
+};
@@ -0,0 +1,64 @@
+import { query, transaction } from './pool';
+import { createParams, insertStatement } from './sql';
+
+/**
+ * Mark an unused recovery code of a user as used. Returns whether there
+ * was one.
+ */
+async function use(userId: string, codeHash: string): Promise<boolean> {
+  const params = createParams();
+  const rows = await query<{ id: string }>(
+    'Failed to use recovery code',
+    `UPDATE recovery_codes SET used_at = now()
+      WHERE user_id = ${params.add(userId)} AND code_hash = ${params.add(codeHash)} AND used_at IS NULL
+      RETURNING id`,
+    params,
+    { userId }
+  );
+
+  return rows.length > 0;
+}
+
+async function countUnused(userId: string): Promise<number> {
+  const params = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to count recovery codes',
+    `SELECT count(*) AS total FROM recovery_codes WHERE user_id = ${params.add(userId)} AND used_at IS NULL`,
+    params,
+    { userId }
+  );
+
+  return total;
+}
+
+/**
+ * Replace every recovery code of a user; the old ones stay when the new
+ * ones cannot be stored
+ */
+async function replace(userId: string, codeHashes: string[]): Promise<void> {
+  await transaction('Failed to create recovery codes', async (execute) => {
+    const removal = createParams();
+    await execute(`DELETE FROM recovery_codes WHERE user_id = ${removal.add(userId)}`, removal);
+
+    const params = createParams();
+    const rows = codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash }));
+    await execute(insertStatement('recovery_codes', rows, params), params);
+  }, { userId });
+}
+
+async function removeAll(userId: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete recovery codes',
+    `DELETE FROM recovery_codes WHERE user_id = ${params.add(userId)}`,
+    params,
+    { userId }
+  );
+}
+
+export {
+  use,
+  countUnused,
+  replace,
+  removeAll,
+};
@@ -0,0 +1,133 @@
+import { query, transaction } from './pool';
+import { createParams, insertStatement, setClause } from './sql';
+import type { Permission, PermissionInfo, Role, RoleRow } from '../../types';
+
+const ROLE_FIELDS = `id, name, description, base_role, is_system, for_service_accounts, created_at, updated_at,
+  COALESCE((SELECT array_agg(rp.permission_key ORDER BY rp.permission_key)
+    FROM role_permissions rp WHERE rp.role_id = roles.id), '{}') AS permissions`;
+
+/**
+ * Every permission a role can have, with its description
+ */
+async function findPermissions(): Promise<PermissionInfo[]> {
+  return query<PermissionInfo>(
+    'Failed to fetch permissions',
+    'SELECT key, description FROM permissions ORDER BY key',
+    createParams()
+  );
+}
+
+async function findPermissionKeys(roleId: string): Promise<Permission[]> {
+  const params = createParams();
+  const rows = await query<{ permission_key: Permission }>(
+    'Failed to fetch role permissions',
+    `SELECT permission_key FROM role_permissions WHERE role_id = ${params.add(roleId)}`,
+    params,
+    { roleId }
+  );
+
+  return rows.map(({ permission_key: key }) => key);
+}
+
+async function findById(id: string): Promise<Role | null> {
+  const params = createParams();
+  const [role] = await query<Role>(
+    'Failed to fetch role',
+    `SELECT ${ROLE_FIELDS} FROM roles WHERE id = ${params.add(id)}`,
+    params,
+    { roleId: id }
+  );
+
+  return role || null;
+}
+
+/**
+ * Every role, built-in roles first, then by name
+ */
+async function findMany(): Promise<Role[]> {
+  return query<Role>(
+    'Failed to fetch roles',
+    `SELECT ${ROLE_FIELDS} FROM roles ORDER BY is_system DESC, name`,
+    createParams()
+  );
+}
+
+/**
+ * The built-in role of QA service accounts
+ */
+async function findServiceAccountRole(): Promise<Role | null> {
+  const [role] = await query<Role>(
+    'Failed to fetch service account role',
+    `SELECT ${ROLE_FIELDS} FROM roles WHERE is_system AND for_service_accounts`,
+    createParams()
+  );
+
+  return role || null;
+}
+
+/**
+ * Create a role without permissions
+ */
+async function create(values: Partial<RoleRow>): Promise<Role> {
+  const params = createParams();
+  const [role] = await query<Role>(
+    'Failed to create role',
+    `${insertStatement('roles', [values], params)} RETURNING ${ROLE_FIELDS}`,
+    params,
+    { name: values.name }
+  );
+
+  return role;
+}
+
+async function update(id: string, changes: Partial<RoleRow>): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to update role',
+    `UPDATE roles SET ${setClause(changes, params)} WHERE id = ${params.add(id)}`,
+    params,
+    { roleId: id }
+  );
+}
+
+/**
+ * Replace the permissions of a role; it keeps the old ones when the new
+ * ones cannot be stored
+ */
+async function setPermissions(roleId: string, permissions: Permission[]): Promise<void> {
+  await transaction('Failed to set role permissions', async (execute) => {
+    const removal = createParams();
+    await execute(`DELETE FROM role_permissions WHERE role_id = ${removal.add(roleId)}`, removal);
+
+    if (permissions.length === 0) return;
+
+    const params = createParams();
+    const rows = permissions.map((key) => ({ role_id: roleId, permission_key: key }));
+    await execute(insertStatement('role_permissions', rows, params), params);
+  }, { roleId });
+}
+
+/**
+ * Delete a custom role; built-in roles are left alone
+ */
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete role',
+    `DELETE FROM roles WHERE id = ${params.add(id)} AND NOT is_system`,
+    params,
+    { roleId: id }
+  );
+}
+
+export {
+  findPermissions,
+  findPermissionKeys,
+  findById,
+  findMany,
+  findServiceAccountRole,
+  create,
+  update,
+  setPermissions,
+  remove,
+};
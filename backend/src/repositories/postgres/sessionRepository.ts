@@ -0,0 +1,137 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+  type Params,
+} from './sql';
+import type { ListOptions, ReadOptions, SessionFilters, SessionLookup, UpdateOptions } from '../types';
+import type { SessionRow } from '../../types';
+
+// Related rows that can be embedded in a session
+const RELATIONS: Record<string, string> = {
+  user: embedUser('sessions.user_id', [
+    'id', 'email', 'name', 'role', 'role_id', 'is_verified', 'is_service_account', 'two_factor_enabled',
+  ]),
+};
+
+/**
+ * Conditions for sessions that are (not) revoked or (not) expired, when
+ * asked for
+ */
+const stateConditions = ({ revoked, expired }: { revoked?: boolean; expired?: boolean }) => {
+  const conditions: string[] = [];
+  if (revoked !== undefined) conditions.push(`revoked_at IS ${revoked ? 'NOT NULL' : 'NULL'}`);
+  if (expired !== undefined) conditions.push(`expires_at ${expired ? '<=' : '>'} now()`);
+  return conditions;
+};
+
+/**
+ * Conditions for the list filters
+ */
+const filterConditions = ({ userId, exceptId, ...state }: SessionFilters, params: Params) => {
+  const conditions = [`user_id = ${params.add(userId)}`, ...stateConditions(state)];
+  if (exceptId) conditions.push(`id <> ${params.add(exceptId)}`);
+  return conditions;
+};
+
+/**
+ * The session matching every given lookup key, e.g. `{ refreshTokenHash }`,
+ * or null
+ */
+async function findOne(
+  { id, refreshTokenHash, previousTokenHash, revoked }: SessionLookup,
+  options?: ReadOptions
+): Promise<SessionRow | null> {
+  const params = createParams();
+  const conditions = stateConditions({ revoked });
+  if (id) conditions.push(`id = ${params.add(id)}`);
+  if (refreshTokenHash) conditions.push(`refresh_token_hash = ${params.add(refreshTokenHash)}`);
+  if (previousTokenHash) conditions.push(`previous_token_hash = ${params.add(previousTokenHash)}`);
+
+  const [session] = await query<SessionRow>(
+    'Failed to look up session',
+    `SELECT ${selectFields('sessions', RELATIONS, options)} FROM sessions ${whereClause(conditions)} LIMIT 1`,
+    params,
+    { sessionId: id }
+  );
+
+  return session || null;
+}
+
+async function findMany(filters: SessionFilters, options: ListOptions = {}): Promise<SessionRow[]> {
+  const params = createParams();
+  return query<SessionRow>(
+    'Failed to fetch sessions',
+    `SELECT ${selectFields('sessions', RELATIONS, options)} FROM sessions
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params,
+    { userId: filters.userId }
+  );
+}
+
+async function create(values: Partial<SessionRow>, options?: ReadOptions): Promise<SessionRow> {
+  const params = createParams();
+  const [session] = await query<SessionRow>(
+    'Failed to create session',
+    `${insertStatement('sessions', [values], params)} RETURNING ${selectFields('sessions', RELATIONS, options)}`,
+    params,
+    { userId: values.user_id }
+  );
+
+  return session;
+}
+
+/**
+ * Update a session and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<SessionRow>,
+  { match = {}, ...options }: UpdateOptions<SessionRow> = {}
+): Promise<SessionRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [session] = await query<SessionRow>(
+    'Failed to update session',
+    `UPDATE sessions SET ${set} ${whereClause(conditions)} RETURNING ${selectFields('sessions', RELATIONS, options)}`,
+    params,
+    { sessionId: id }
+  );
+
+  return session || null;
+}
+
+/**
+ * Update every session matching the filters and return how many were
+ */
+async function updateMany(filters: SessionFilters, changes: Partial<SessionRow>): Promise<number> {
+  const params = createParams();
+  const set = setClause(changes, params);
+
+  const rows = await query<{ id: string }>(
+    'Failed to update sessions',
+    `UPDATE sessions SET ${set} ${whereClause(filterConditions(filters, params))} RETURNING id`,
+    params,
+    { userId: filters.userId }
+  );
+
+  return rows.length;
+}
+
+export {
+  findOne,
+  findMany,
+  create,
+  update,
+  updateMany,
+};
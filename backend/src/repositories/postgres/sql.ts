@@ -0,0 +1,120 @@
+import type { ListOptions, ReadOptions } from '../types';
+
+/**
+ * Column and table names are interpolated into SQL, so only plain
+ * identifiers are accepted
+ */
+function identifier(name: string) {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid column name "${name}"`);
+  }
+  return name;
+}
+
+/**
+ * Query parameters and the $n placeholders that refer to them
+ */
+function createParams() {
+  const values: unknown[] = [];
+  return {
+    values,
+    add(value: unknown) {
+      values.push(value);
+      return `$${values.length}`;
+    },
+  };
+}
+
+type Params = ReturnType<typeof createParams>;
+
+/**
+ * Select list for the requested columns and embedded relations. Each
+ * relation is a subquery that builds the related rows as JSON.
+ */
+function selectFields(
+  table: string,
+  relations: Record<string, string>,
+  { fields = 'id', with: embedded = [] }: ReadOptions = {}
+) {
+  const columns = fields.split(',').map((field) => field.trim()).filter(Boolean)
+    .map((field) => (field === '*' ? `${table}.*` : `${table}.${identifier(field)}`));
+
+  return [...columns, ...embedded.map((name) => {
+    if (!relations[name]) {
+      throw new Error(`Unknown relation "${name}"`);
+    }
+    return `${relations[name]} AS ${name}`;
+  })].join(', ');
+}
+
+/**
+ * Subquery embedding the user a column refers to, as PostgREST embeds
+ * `users!column(id, name, email)`
+ */
+function embedUser(reference: string, columns = ['id', 'name', 'email']) {
+  const pairs = columns.map((column) => `'${column}', u.${identifier(column)}`).join(', ');
+  return `(SELECT json_build_object(${pairs}) FROM users u WHERE u.id = ${reference})`;
+}
+
+/**
+ * WHERE clause joining the conditions, empty when there are none
+ */
+function whereClause(conditions: string[]) {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * ORDER BY, LIMIT and OFFSET for a page of a list query
+ */
+function pagingClause(params: Params, { sort, ascending = false, offset, limit }: ListOptions = {}) {
+  const clauses: string[] = [];
+  if (sort) clauses.push(`ORDER BY ${identifier(sort)} ${ascending ? 'ASC' : 'DESC'}`);
+  if (limit !== undefined) clauses.push(`LIMIT ${params.add(limit)}`);
+  if (offset !== undefined) clauses.push(`OFFSET ${params.add(offset)}`);
+  return clauses.join(' ');
+}
+
+/**
+ * INSERT of one or more rows; columns a row leaves out get their default
+ */
+function insertStatement(table: string, rows: Record<string, unknown>[], params: Params) {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))].map(identifier);
+  const tuples = rows.map((row) => `(${columns
+    .map((column) => (row[column] === undefined ? 'DEFAULT' : params.add(row[column])))
+    .join(', ')})`);
+
+  return `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${tuples.join(', ')}`;
+}
+
+/**
+ * SET list of an UPDATE
+ */
+function setClause(changes: Record<string, unknown>, params: Params) {
+  return Object.entries(changes)
+    .map(([column, value]) => `${identifier(column)} = ${params.add(value)}`)
+    .join(', ');
+}
+
+/**
+ * Conditions that only hold while the columns still have these values;
+ * null matches an empty column
+ */
+function matchConditions(match: Record<string, unknown>, params: Params) {
+  return Object.entries(match).map(([column, value]) => (
+    value === null ? `${identifier(column)} IS NULL` : `${identifier(column)} = ${params.add(value)}`
+  ));
+}
+
+export type { Params };
+
+export {
+  identifier,
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+};
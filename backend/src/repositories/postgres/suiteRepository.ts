@@ -0,0 +1,176 @@
+import { query, transaction } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  type Params,
+} from './sql';
+import type { ListOptions, ReadOptions, ScopedReadOptions, SuiteFilters } from '../types';
+import type { SuiteRow, TestCase } from '../../types';
+
+// Related rows that can be embedded in a suite
+const RELATIONS: Record<string, string> = {
+  creator: embedUser('test_suites.created_by'),
+  test_count: '(SELECT count(*)::int FROM test_suite_cases c WHERE c.suite_id = test_suites.id)',
+};
+
+/**
+ * Conditions for the filters
+ */
+const filterConditions = ({ projectId, search }: SuiteFilters, params: Params) => {
+  const conditions = [`project_id = ${params.add(projectId)}`];
+  if (search) conditions.push(`name ILIKE ${params.add(`%${search}%`)}`);
+  return conditions;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<SuiteRow | null> {
+  const params = createParams();
+  const conditions = [`id = ${params.add(id)}`];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+
+  const [suite] = await query<SuiteRow>(
+    'Failed to fetch test suite',
+    `SELECT ${selectFields('test_suites', RELATIONS, options)} FROM test_suites ${whereClause(conditions)}`,
+    params,
+    { suiteId: id }
+  );
+
+  return suite || null;
+}
+
+async function findMany(filters: SuiteFilters, options: ListOptions = {}): Promise<SuiteRow[]> {
+  const params = createParams();
+  return query<SuiteRow>(
+    'Failed to fetch test suites',
+    `SELECT ${selectFields('test_suites', RELATIONS, options)} FROM test_suites
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params,
+    { projectId: filters.projectId }
+  );
+}
+
+async function create(values: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow> {
+  const params = createParams();
+  const [suite] = await query<SuiteRow>(
+    'Failed to create test suite',
+    `${insertStatement('test_suites', [values], params)} RETURNING ${selectFields('test_suites', RELATIONS, options)}`,
+    params
+  );
+
+  return suite;
+}
+
+/**
+ * Update a suite and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow | null> {
+  if (Object.keys(changes).length === 0) {
+    return findById(id, options);
+  }
+
+  const params = createParams();
+  const set = setClause(changes, params);
+  const [suite] = await query<SuiteRow>(
+    'Failed to update test suite',
+    `UPDATE test_suites SET ${set} WHERE id = ${params.add(id)}
+      RETURNING ${selectFields('test_suites', RELATIONS, options)}`,
+    params,
+    { suiteId: id }
+  );
+
+  return suite || null;
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete test suite',
+    `DELETE FROM test_suites WHERE id = ${params.add(id)}`,
+    params,
+    { suiteId: id }
+  );
+}
+
+/**
+ * The test cases of a suite in order, with their assignee
+ */
+async function findTests(suiteId: string): Promise<TestCase[]> {
+  const params = createParams();
+  return query<TestCase>(
+    'Failed to fetch suite members',
+    `SELECT t.id, t.module_platform, t.test_case, t.expected_result, t.status, t.assigned_to,
+        ${embedUser('t.assigned_to')} AS assignee
+      FROM test_suite_cases c JOIN test_cases t ON t.id = c.test_case_id
+      WHERE c.suite_id = ${params.add(suiteId)}
+      ORDER BY c.position`,
+    params,
+    { suiteId }
+  );
+}
+
+async function findTestIds(suiteId: string): Promise<string[]> {
+  const params = createParams();
+  const rows = await query<{ test_case_id: string }>(
+    'Failed to fetch suite members',
+    `SELECT test_case_id FROM test_suite_cases WHERE suite_id = ${params.add(suiteId)}`,
+    params,
+    { suiteId }
+  );
+
+  return rows.map((member) => member.test_case_id);
+}
+
+/**
+ * Replace the test cases of a suite, keeping the given order
+ */
+async function setTests(suiteId: string, testCaseIds: string[]): Promise<void> {
+  await transaction('Failed to update suite members', async (execute) => {
+    const removal = createParams();
+    await execute(`DELETE FROM test_suite_cases WHERE suite_id = ${removal.add(suiteId)}`, removal);
+
+    if (testCaseIds.length === 0) return;
+
+    const params = createParams();
+    const rows = testCaseIds.map((testCaseId, index) => ({ suite_id: suiteId, test_case_id: testCaseId, position: index }));
+    await execute(insertStatement('test_suite_cases', rows, params), params);
+  }, { suiteId });
+}
+
+/**
+ * Replace the suites a test case belongs to. It goes to the end of the
+ * suites it joins.
+ */
+async function setSuitesOf(testCaseId: string, suiteIds: string[]): Promise<void> {
+  await transaction('Failed to update test suites', async (execute) => {
+    const removal = createParams();
+    await execute(`DELETE FROM test_suite_cases WHERE test_case_id = ${removal.add(testCaseId)}`, removal);
+
+    if (suiteIds.length === 0) return;
+
+    const params = createParams();
+    await execute(
+      `INSERT INTO test_suite_cases (suite_id, test_case_id, position)
+        SELECT s.id, ${params.add(testCaseId)},
+          COALESCE((SELECT max(c.position) + 1 FROM test_suite_cases c WHERE c.suite_id = s.id), 0)
+        FROM unnest(${params.add(suiteIds)}::uuid[]) AS s(id)`,
+      params
+    );
+  }, { testCaseId });
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findTests,
+  findTestIds,
+  setTests,
+  setSuitesOf,
+};
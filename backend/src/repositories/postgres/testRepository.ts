@@ -0,0 +1,205 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  embedUser,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+  type Params,
+} from './sql';
+import type { ListOptions, Page, ReadOptions, ScopedReadOptions, TestFilters, TestResultChange, TestUpdateOptions } from '../types';
+import type { DashboardStats, TestRow, TestRun } from '../../types';
+
+// Related rows that can be embedded in a test case
+const RELATIONS: Record<string, string> = {
+  assignee: embedUser('test_cases.assigned_to'),
+  creator: embedUser('test_cases.created_by'),
+  fixer: embedUser('test_cases.fix_owner'),
+  source_bug: `(SELECT json_build_object(
+    'id', b.id,
+    'module_platform', b.module_platform,
+    'jam_link', b.jam_link,
+    'description', b.description,
+    'created_by', b.created_by,
+    'bug_creator', ${embedUser('b.created_by')}
+  ) FROM unlisted_bugs b WHERE b.id = test_cases.source_bug_id)`,
+  suites: `COALESCE((SELECT json_agg(json_build_object('id', s.id, 'name', s.name))
+    FROM test_suites s
+    JOIN test_suite_cases sc ON sc.suite_id = s.id
+    WHERE sc.test_case_id = test_cases.id), '[]')`,
+  steps: `COALESCE((SELECT json_agg(json_build_object(
+    'id', st.id,
+    'position', st.position,
+    'action', st.action,
+    'expected_result', st.expected_result,
+    'test_data', st.test_data
+  ) ORDER BY st.position) FROM test_steps st WHERE st.test_case_id = test_cases.id), '[]')`,
+};
+
+/**
+ * Conditions for the list filters
+ */
+const filterConditions = (filters: TestFilters, params: Params) => {
+  const { projectId, ids, externalKeys, assignedTo, status, statuses, modulePlatform, origin, search } = filters;
+
+  const conditions: string[] = [];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+  if (ids) conditions.push(`id = ANY(${params.add(ids)})`);
+  if (externalKeys) conditions.push(`external_key = ANY(${params.add(externalKeys)})`);
+  if (assignedTo) conditions.push(`assigned_to = ${params.add(assignedTo)}`);
+  if (status) conditions.push(`status = ${params.add(status)}`);
+  if (statuses) conditions.push(`status = ANY(${params.add(statuses)})`);
+  if (modulePlatform) conditions.push(`module_platform ILIKE ${params.add(`%${modulePlatform}%`)}`);
+  if (origin) conditions.push(`origin = ${params.add(origin)}`);
+  if (search) {
+    const pattern = params.add(`%${search}%`);
+    conditions.push(`(test_case ILIKE ${pattern} OR expected_result ILIKE ${pattern})`);
+  }
+  return conditions;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<TestRow | null> {
+  const params = createParams();
+  const conditions = [`id = ${params.add(id)}`];
+  if (projectId) conditions.push(`project_id = ${params.add(projectId)}`);
+
+  const [test] = await query<TestRow>(
+    'Failed to fetch test case',
+    `SELECT ${selectFields('test_cases', RELATIONS, options)} FROM test_cases ${whereClause(conditions)}`,
+    params,
+    { testId: id }
+  );
+
+  return test || null;
+}
+
+async function findMany(filters: TestFilters, options: ListOptions = {}): Promise<TestRow[]> {
+  const params = createParams();
+  return query<TestRow>(
+    'Failed to fetch test cases',
+    `SELECT ${selectFields('test_cases', RELATIONS, options)} FROM test_cases
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+}
+
+/**
+ * One page of test cases and how many match the filters in total
+ */
+async function findPage(filters: TestFilters, options: ListOptions): Promise<Page<TestRow>> {
+  const params = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to fetch test cases',
+    `SELECT count(*) AS total FROM test_cases ${whereClause(filterConditions(filters, params))}`,
+    params
+  );
+
+  return { rows: await findMany(filters, options), total };
+}
+
+async function create(values: Partial<TestRow>, options?: ReadOptions): Promise<TestRow> {
+  const [test] = await createMany([values], options);
+  return test;
+}
+
+async function createMany(rows: Partial<TestRow>[], options?: ReadOptions): Promise<TestRow[]> {
+  const params = createParams();
+  return query<TestRow>(
+    rows.length === 1 ? 'Failed to create test case' : 'Failed to create test cases',
+    `${insertStatement('test_cases', rows, params)} RETURNING ${selectFields('test_cases', RELATIONS, options)}`,
+    params
+  );
+}
+
+/**
+ * Update a test case and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<TestRow>,
+  { match = {}, ...options }: TestUpdateOptions = {}
+): Promise<TestRow | null> {
+  if (Object.keys(changes).length === 0) {
+    return findById(id, options);
+  }
+
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [test] = await query<TestRow>(
+    'Failed to update test case',
+    `UPDATE test_cases SET ${set}
+      ${whereClause(conditions)}
+      RETURNING ${selectFields('test_cases', RELATIONS, options)}`,
+    params,
+    { testId: id }
+  );
+
+  return test || null;
+}
+
+async function updateMany(ids: string[], changes: Partial<TestRow>): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to update test cases',
+    `UPDATE test_cases SET ${setClause(changes, params)} WHERE id = ANY(${params.add(ids)})`,
+    params
+  );
+}
+
+/**
+ * Record runs of several test cases and apply their results to the test
+ * cases at once; either all of it is recorded or none. Returns the runs.
+ */
+async function recordResults(runs: Partial<TestRun>[], changes: TestResultChange[]): Promise<TestRun[]> {
+  const params = createParams();
+  return query<TestRun>(
+    'Failed to record test results',
+    `SELECT * FROM record_test_results(${params.add(JSON.stringify(runs))}::jsonb, ${params.add(JSON.stringify(changes))}::jsonb)`,
+    params
+  );
+}
+
+/**
+ * Test case counts of a project by status, or null for an unknown project
+ */
+async function findStats(projectId: string): Promise<DashboardStats | null> {
+  const params = createParams();
+  const [stats] = await query<DashboardStats>(
+    'Failed to fetch statistics',
+    `SELECT * FROM dashboard_stats WHERE project_id = ${params.add(projectId)}`,
+    params,
+    { projectId }
+  );
+
+  return stats || null;
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete test case',
+    `DELETE FROM test_cases WHERE id = ${params.add(id)}`,
+    params,
+    { testId: id }
+  );
+}
+
+export {
+  findById,
+  findMany,
+  findPage,
+  create,
+  createMany,
+  update,
+  updateMany,
+  recordResults,
+  findStats,
+  remove,
+};
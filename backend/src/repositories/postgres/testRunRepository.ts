@@ -0,0 +1,58 @@
+import { query } from './pool';
+import { createParams, selectFields, embedUser, pagingClause, insertStatement } from './sql';
+import type { ListOptions, ReadOptions } from '../types';
+import type { TestRun } from '../../types';
+
+// Related rows that can be embedded in a run
+const RELATIONS: Record<string, string> = {
+  executor: embedUser('test_runs.executed_by'),
+  step_results: `COALESCE((SELECT json_agg(json_build_object('id', r.id, 'step_id', r.step_id,
+    'position', r.position, 'action', r.action, 'status', r.status, 'notes', r.notes) ORDER BY r.position)
+    FROM test_step_results r WHERE r.run_id = test_runs.id), '[]')`,
+};
+
+/**
+ * Runs of a test case
+ */
+async function findMany(testCaseId: string, options: ListOptions = {}): Promise<TestRun[]> {
+  const params = createParams();
+  return query<TestRun>(
+    'Failed to fetch test runs',
+    `SELECT ${selectFields('test_runs', RELATIONS, options)} FROM test_runs
+      WHERE test_case_id = ${params.add(testCaseId)}
+      ${pagingClause(params, options)}`,
+    params,
+    { testCaseId }
+  );
+}
+
+async function create(values: Partial<TestRun>, options?: ReadOptions): Promise<TestRun> {
+  const [run] = await createMany([values], options);
+  return run;
+}
+
+async function createMany(rows: Partial<TestRun>[], options?: ReadOptions): Promise<TestRun[]> {
+  const params = createParams();
+  return query<TestRun>(
+    'Failed to record test runs',
+    `${insertStatement('test_runs', rows, params)} RETURNING ${selectFields('test_runs', RELATIONS, options)}`,
+    params
+  );
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete test run',
+    `DELETE FROM test_runs WHERE id = ${params.add(id)}`,
+    params,
+    { runId: id }
+  );
+}
+
+export {
+  findMany,
+  create,
+  createMany,
+  remove,
+};
@@ -0,0 +1,62 @@
+import { query, transaction } from './pool';
+import { createParams, insertStatement } from './sql';
+import type { StepResultRow, TestStep, TestStepResult } from '../../types';
+
+const STEP_FIELDS = 'id, position, action, expected_result, test_data';
+
+// RETURNING keeps the order of the VALUES list, which is by position
+const byPosition = <T extends { position: number }>(rows: T[]) => rows.sort((a, b) => a.position - b.position);
+
+/**
+ * The steps of a test case in order
+ */
+async function findMany(testCaseId: string): Promise<TestStep[]> {
+  const params = createParams();
+  return query<TestStep>(
+    'Failed to fetch test steps',
+    `SELECT ${STEP_FIELDS} FROM test_steps WHERE test_case_id = ${params.add(testCaseId)} ORDER BY position`,
+    params,
+    { testCaseId }
+  );
+}
+
+/**
+ * Replace the steps of a test case and return the new ones in order. The
+ * old steps are kept when the new ones cannot be stored.
+ */
+async function replace(testCaseId: string, steps: Omit<TestStep, 'id'>[]): Promise<TestStep[]> {
+  return transaction('Failed to replace test steps', async (execute) => {
+    const removal = createParams();
+    await execute(`DELETE FROM test_steps WHERE test_case_id = ${removal.add(testCaseId)}`, removal);
+
+    if (steps.length === 0) {
+      return [];
+    }
+
+    const params = createParams();
+    const rows = steps.map((step) => ({ ...step, test_case_id: testCaseId }));
+    return byPosition(await execute<TestStep>(
+      `${insertStatement('test_steps', rows, params)} RETURNING ${STEP_FIELDS}`,
+      params
+    ));
+  }, { testCaseId });
+}
+
+/**
+ * Store the step outcomes of runs and return them in order
+ */
+async function createResults(rows: Omit<StepResultRow, 'id'>[]): Promise<TestStepResult[]> {
+  const params = createParams();
+  return byPosition(await query<TestStepResult>(
+    'Failed to record step results',
+    `${insertStatement('test_step_results', rows, params)} RETURNING id, step_id, position, action, status, notes`,
+    params,
+    { runId: rows[0]?.run_id }
+  ));
+}
+
+export {
+  findMany,
+  replace,
+  createResults,
+};
@@ -0,0 +1,150 @@
+import { query } from './pool';
+import {
+  createParams,
+  selectFields,
+  whereClause,
+  pagingClause,
+  insertStatement,
+  setClause,
+  matchConditions,
+  type Params,
+} from './sql';
+import type { ListOptions, Page, ReadOptions, UserFilters, UserLookup, UserUpdateOptions } from '../types';
+import type { UserRow } from '../../types';
+
+// Users have no embedded relations
+const RELATIONS: Record<string, string> = {};
+
+// Lookup keys accepted by findOne, by column
+const LOOKUP_COLUMNS: Record<string, string> = {
+  email: 'email',
+  verificationToken: 'verification_token',
+  resetPasswordToken: 'reset_password_token',
+  ssoSubject: 'sso_subject',
+  isServiceAccount: 'is_service_account',
+};
+
+/**
+ * Conditions for the list filters
+ */
+const filterConditions = (filters: UserFilters, params: Params) => {
+  const { role, isServiceAccount, search } = filters;
+
+  const conditions: string[] = [];
+  if (role) conditions.push(`role = ${params.add(role)}`);
+  if (isServiceAccount !== undefined) conditions.push(`is_service_account = ${params.add(isServiceAccount)}`);
+  if (search) {
+    const pattern = params.add(`%${search}%`);
+    conditions.push(`(name ILIKE ${pattern} OR email ILIKE ${pattern})`);
+  }
+  return conditions;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<UserRow | null> {
+  const params = createParams();
+  const [user] = await query<UserRow>(
+    'Failed to fetch user',
+    `SELECT ${selectFields('users', RELATIONS, options)} FROM users WHERE id = ${params.add(id)}`,
+    params,
+    { userId: id }
+  );
+
+  return user || null;
+}
+
+/**
+ * The user matching every given lookup key, e.g. `{ email }`, or null
+ */
+async function findOne(criteria: UserLookup, options?: ReadOptions): Promise<UserRow | null> {
+  const params = createParams();
+  const conditions = Object.entries(criteria).map(([key, value]) => {
+    if (!LOOKUP_COLUMNS[key]) {
+      throw new Error(`Unknown user lookup "${key}"`);
+    }
+    return `${LOOKUP_COLUMNS[key]} = ${params.add(value)}`;
+  });
+
+  const [user] = await query<UserRow>(
+    'Failed to fetch user',
+    `SELECT ${selectFields('users', RELATIONS, options)} FROM users ${whereClause(conditions)} LIMIT 1`,
+    params
+  );
+
+  return user || null;
+}
+
+/**
+ * One page of users and how many match the filters in total
+ */
+async function findPage(filters: UserFilters, options: ListOptions): Promise<Page<UserRow>> {
+  const countParams = createParams();
+  const [{ total }] = await query<{ total: number }>(
+    'Failed to fetch users',
+    `SELECT count(*) AS total FROM users ${whereClause(filterConditions(filters, countParams))}`,
+    countParams
+  );
+
+  const params = createParams();
+  const rows = await query<UserRow>(
+    'Failed to fetch users',
+    `SELECT ${selectFields('users', RELATIONS, options)} FROM users
+      ${whereClause(filterConditions(filters, params))}
+      ${pagingClause(params, options)}`,
+    params
+  );
+
+  return { rows, total };
+}
+
+async function create(values: Partial<UserRow>, options?: ReadOptions): Promise<UserRow> {
+  const params = createParams();
+  const [user] = await query<UserRow>(
+    'Failed to create user',
+    `${insertStatement('users', [values], params)} RETURNING ${selectFields('users', RELATIONS, options)}`,
+    params
+  );
+
+  return user;
+}
+
+/**
+ * Update a user and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<UserRow>,
+  { match = {}, ...options }: UserUpdateOptions = {}
+): Promise<UserRow | null> {
+  const params = createParams();
+  const set = setClause(changes, params);
+  const conditions = [`id = ${params.add(id)}`, ...matchConditions(match, params)];
+
+  const [user] = await query<UserRow>(
+    'Failed to update user',
+    `UPDATE users SET ${set} ${whereClause(conditions)} RETURNING ${selectFields('users', RELATIONS, options)}`,
+    params,
+    { userId: id }
+  );
+
+  return user || null;
+}
+
+async function remove(id: string): Promise<void> {
+  const params = createParams();
+  await query(
+    'Failed to delete user',
+    `DELETE FROM users WHERE id = ${params.add(id)}`,
+    params,
+    { userId: id }
+  );
+}
+
+export {
+  findById,
+  findOne,
+  findPage,
+  create,
+  update,
+  remove,
+};
@@ -0,0 +1,15 @@
+import logger from '../utils/logger';
+
+/**
+ * Log a failed query and turn it into an Error for the caller. The database
+ * error code is kept so callers can tell unique violations (23505) apart.
+ */
+function queryError(message: string, error: { code?: string }, context: Record<string, unknown> = {}) {
+  logger.error(message, { ...context, error });
+
+  const err: Error & { code?: string } = new Error(message);
+  err.code = error.code;
+  return err;
+}
+
+export default queryError;
@@ -0,0 +1,109 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch } from './select';
+import type { ApiTokenFilters, ListOptions, ReadOptions, UpdateOptions } from '../types';
+import type { ApiTokenRow } from '../../types';
+
+// Related rows that can be embedded in an API token
+const RELATIONS: Record<string, string> = {
+  creator: 'users!created_by(id, name, email)',
+  user: 'users!user_id(id, email, name, role, role_id, is_verified, is_service_account, two_factor_enabled)',
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<ApiTokenRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_tokens')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<ApiTokenRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch API token', error, { tokenId: id });
+  }
+
+  return data;
+}
+
+/**
+ * The token with this hash, or null
+ */
+async function findByHash(tokenHash: string, options?: ReadOptions): Promise<ApiTokenRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_tokens')
+    .select(selectFields(RELATIONS, options))
+    .eq('token_hash', tokenHash)
+    .maybeSingle()
+    .overrideTypes<ApiTokenRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to look up API token', error);
+  }
+
+  return data;
+}
+
+async function findMany({ userId }: ApiTokenFilters, options: ListOptions = {}): Promise<ApiTokenRow[]> {
+  const query = supabaseAdmin
+    .from('api_tokens')
+    .select(selectFields(RELATIONS, options))
+    .eq('user_id', userId);
+
+  const { data, error } = await applyPaging(query, options)
+    .overrideTypes<ApiTokenRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch API tokens', error, { userId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<ApiTokenRow>, options?: ReadOptions): Promise<ApiTokenRow> {
+  const { data, error } = await supabaseAdmin
+    .from('api_tokens')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<ApiTokenRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create API token', error, { userId: values.user_id });
+  }
+
+  return data;
+}
+
+/**
+ * Update a token and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<ApiTokenRow>,
+  { match = {}, ...options }: UpdateOptions<ApiTokenRow> = {}
+): Promise<ApiTokenRow | null> {
+  const query = supabaseAdmin
+    .from('api_tokens')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<ApiTokenRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update API token', error, { tokenId: id });
+  }
+
+  return data;
+}
+
+export {
+  findById,
+  findByHash,
+  findMany,
+  create,
+  update,
+};
@@ -0,0 +1,60 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { AuditFilters, ListOptions, Page } from '../types';
+import type { AuditEvent } from '../../types';
+
+// Related rows that can be embedded in an audit event
+const RELATIONS: Record<string, string> = {
+  actor: 'users!actor_id(id, name, email)',
+};
+
+/**
+ * Narrow an audit event query by the filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, filters: AuditFilters): Q => {
+  let filtered = query;
+  if (filters.action) filtered = filtered.eq('action', filters.action);
+  if (filters.entityType) filtered = filtered.eq('entity_type', filters.entityType);
+  if (filters.entityId) filtered = filtered.eq('entity_id', filters.entityId);
+  if (filters.actorId) filtered = filtered.eq('actor_id', filters.actorId);
+  if (filters.requestId) filtered = filtered.eq('request_id', filters.requestId);
+  if (filters.from) filtered = filtered.gte('created_at', filters.from);
+  if (filters.to) filtered = filtered.lte('created_at', filters.to);
+  return filtered;
+};
+
+async function findPage(filters: AuditFilters, options: ListOptions): Promise<Page<AuditEvent>> {
+  const query = supabaseAdmin
+    .from('audit_events')
+    .select(selectFields(RELATIONS, options), { count: 'exact' });
+
+  const { data, error, count } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<AuditEvent[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch audit events', error);
+  }
+
+  return { rows: data, total: count ?? 0 };
+}
+
+async function create(values: Partial<AuditEvent>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('audit_events')
+    .insert(values);
+
+  if (error) {
+    throw queryError('Failed to record audit event', error, {
+      action: values.action,
+      entityType: values.entity_type,
+      entityId: values.entity_id,
+      requestId: values.request_id,
+    });
+  }
+}
+
+export {
+  findPage,
+  create,
+};
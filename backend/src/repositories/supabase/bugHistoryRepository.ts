@@ -0,0 +1,48 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging } from './select';
+import type { ListOptions } from '../types';
+import type { BugStatusChange } from '../../types';
+
+// Related rows that can be embedded in a status change
+const RELATIONS: Record<string, string> = {
+  changer: 'users!changed_by(id, name, email, role)',
+};
+
+/**
+ * Status changes of a bug
+ */
+async function findMany(bugId: string, options: ListOptions = {}): Promise<BugStatusChange[]> {
+  const query = supabaseAdmin
+    .from('bug_status_history')
+    .select(selectFields(RELATIONS, options))
+    .eq('bug_id', bugId);
+
+  const { data, error } = await applyPaging(query, options)
+    .overrideTypes<BugStatusChange[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch bug history', error, { bugId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<BugStatusChange>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('bug_status_history')
+    .insert(values);
+
+  if (error) {
+    throw queryError('Failed to record bug status change', error, {
+      bugId: values.bug_id,
+      fromStatus: values.from_status,
+      toStatus: values.to_status,
+    });
+  }
+}
+
+export {
+  findMany,
+  create,
+};
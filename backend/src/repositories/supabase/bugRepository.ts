@@ -0,0 +1,141 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { BugFilters, ListOptions, Page, ReadOptions, ScopedReadOptions } from '../types';
+import type { BugRow } from '../../types';
+
+// Related rows that can be embedded in a bug
+const RELATIONS: Record<string, string> = {
+  creator: 'users!created_by(id, name, email)',
+  converted_test: `test_cases!converted_to_test_id(
+    id,
+    module_platform,
+    test_case,
+    status,
+    assigned_to,
+    assignee:users!assigned_to(id, name, email)
+  )`,
+};
+
+/**
+ * Narrow a bug query by the list filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, filters: BugFilters): Q => {
+  const { projectId, createdBy, status, severity, modulePlatform, search } = filters;
+
+  let filtered = query;
+  if (projectId) filtered = filtered.eq('project_id', projectId);
+  if (createdBy) filtered = filtered.eq('created_by', createdBy);
+  if (status) filtered = filtered.eq('status', status);
+  if (severity) filtered = filtered.eq('severity', severity);
+  if (modulePlatform) filtered = filtered.ilike('module_platform', `%${modulePlatform}%`);
+  if (search) {
+    filtered = filtered.or(`description.ilike.%${search}%,note.ilike.%${search}%`);
+  }
+  return filtered;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<BugRow | null> {
+  let query = supabaseAdmin
+    .from('unlisted_bugs')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id);
+  if (projectId) query = query.eq('project_id', projectId);
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<BugRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch bug', error, { bugId: id });
+  }
+
+  return data;
+}
+
+async function findMany(filters: BugFilters, options: ListOptions = {}): Promise<BugRow[]> {
+  const query = supabaseAdmin
+    .from('unlisted_bugs')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<BugRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch bugs', error);
+  }
+
+  return data;
+}
+
+/**
+ * One page of bugs and how many match the filters in total
+ */
+async function findPage(filters: BugFilters, options: ListOptions): Promise<Page<BugRow>> {
+  const query = supabaseAdmin
+    .from('unlisted_bugs')
+    .select(selectFields(RELATIONS, options), { count: 'exact' });
+
+  const { data, error, count } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<BugRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch bugs', error);
+  }
+
+  return { rows: data, total: count ?? 0 };
+}
+
+async function create(values: Partial<BugRow>, options?: ReadOptions): Promise<BugRow> {
+  const { data, error } = await supabaseAdmin
+    .from('unlisted_bugs')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<BugRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create bug', error);
+  }
+
+  return data;
+}
+
+/**
+ * Update a bug and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<BugRow>, options?: ReadOptions): Promise<BugRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('unlisted_bugs')
+    .update(changes)
+    .eq('id', id)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<BugRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update bug', error, { bugId: id });
+  }
+
+  return data;
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('unlisted_bugs')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete bug', error, { bugId: id });
+  }
+}
+
+export {
+  findById,
+  findMany,
+  findPage,
+  create,
+  update,
+  remove,
+};
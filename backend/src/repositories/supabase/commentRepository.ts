@@ -0,0 +1,138 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { CommentFilters, ListOptions, ReadOptions } from '../types';
+import type { Comment } from '../../types';
+
+// Related rows that can be embedded in a comment
+const RELATIONS: Record<string, string> = {
+  author: 'users!author_id(id, name, email, role)',
+  mentions: 'comment_mentions(user:users(id, name, role))',
+};
+
+/**
+ * Narrow a comment query to a thread
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, { testCaseId, bugId }: CommentFilters): Q => {
+  let filtered = query;
+  if (testCaseId) filtered = filtered.eq('test_case_id', testCaseId);
+  if (bugId) filtered = filtered.eq('bug_id', bugId);
+  return filtered;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<Comment | null> {
+  const { data, error } = await supabaseAdmin
+    .from('comments')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<Comment, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch comment', error, { commentId: id });
+  }
+
+  return data;
+}
+
+async function findMany(filters: CommentFilters, options: ListOptions = {}): Promise<Comment[]> {
+  const query = supabaseAdmin
+    .from('comments')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<Comment[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch comments', error);
+  }
+
+  return data;
+}
+
+async function create(values: Partial<Comment>, options?: ReadOptions): Promise<Comment> {
+  const { data, error } = await supabaseAdmin
+    .from('comments')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<Comment, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create comment', error);
+  }
+
+  return data;
+}
+
+async function update(id: string, changes: Partial<Comment>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('comments')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to update comment', error, { commentId: id });
+  }
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('comments')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete comment', error, { commentId: id });
+  }
+}
+
+/**
+ * Ids of the users a comment mentions
+ */
+async function findMentionedIds(commentId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('comment_mentions')
+    .select('user_id')
+    .eq('comment_id', commentId)
+    .overrideTypes<{ user_id: string }[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch comment mentions', error, { commentId });
+  }
+
+  return data.map((row) => row.user_id);
+}
+
+async function addMentions(commentId: string, userIds: string[]): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('comment_mentions')
+    .insert(userIds.map((userId) => ({ comment_id: commentId, user_id: userId })));
+
+  if (error) {
+    throw queryError('Failed to add comment mentions', error, { commentId });
+  }
+}
+
+async function removeMentions(commentId: string, userIds: string[]): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('comment_mentions')
+    .delete()
+    .eq('comment_id', commentId)
+    .in('user_id', userIds);
+
+  if (error) {
+    throw queryError('Failed to remove comment mentions', error, { commentId });
+  }
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findMentionedIds,
+  addMentions,
+  removeMentions,
+};
@@ -0,0 +1,42 @@
+import * as testRepository from './testRepository';
+import * as bugRepository from './bugRepository';
+import * as userRepository from './userRepository';
+import * as sessionRepository from './sessionRepository';
+import * as apiTokenRepository from './apiTokenRepository';
+import * as recoveryCodeRepository from './recoveryCodeRepository';
+import * as loginAttemptRepository from './loginAttemptRepository';
+import * as invitationRepository from './invitationRepository';
+import * as roleRepository from './roleRepository';
+import * as projectRepository from './projectRepository';
+import * as testRunRepository from './testRunRepository';
+import * as testStepRepository from './testStepRepository';
+import * as suiteRepository from './suiteRepository';
+import * as planRepository from './planRepository';
+import * as commentRepository from './commentRepository';
+import * as notificationRepository from './notificationRepository';
+import * as auditRepository from './auditRepository';
+import * as bugHistoryRepository from './bugHistoryRepository';
+import type { Repositories } from '../types';
+
+const repositories: Repositories = {
+  testRepository,
+  bugRepository,
+  userRepository,
+  sessionRepository,
+  apiTokenRepository,
+  recoveryCodeRepository,
+  loginAttemptRepository,
+  invitationRepository,
+  roleRepository,
+  projectRepository,
+  testRunRepository,
+  testStepRepository,
+  suiteRepository,
+  planRepository,
+  commentRepository,
+  notificationRepository,
+  auditRepository,
+  bugHistoryRepository,
+};
+
+export default repositories;
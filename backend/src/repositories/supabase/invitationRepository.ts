@@ -0,0 +1,122 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch, type FilterQuery } from './select';
+import type { InvitationFilters, InvitationLookup, ListOptions, ReadOptions, UpdateOptions } from '../types';
+import type { InvitationRow } from '../../types';
+
+// Related rows that can be embedded in an invitation
+const RELATIONS: Record<string, string> = {
+  inviter: 'users!invited_by(id, name, email)',
+  project: 'projects(id, name)',
+};
+
+/**
+ * Only invitations that are still open, neither accepted nor revoked
+ */
+const applyPending = <Q extends FilterQuery<Q>>(query: Q, pending?: boolean): Q => {
+  if (pending === undefined) return query;
+  return pending
+    ? query.is('accepted_at', null).is('revoked_at', null)
+    : query.or('accepted_at.not.is.null,revoked_at.not.is.null');
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<InvitationRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<InvitationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch invitation', error, { invitationId: id });
+  }
+
+  return data;
+}
+
+/**
+ * The invitation matching every given lookup key, e.g. `{ tokenHash }`,
+ * or null
+ */
+async function findOne({ email, tokenHash, pending }: InvitationLookup, options?: ReadOptions): Promise<InvitationRow | null> {
+  let query = supabaseAdmin
+    .from('invitations')
+    .select(selectFields(RELATIONS, options));
+  if (email) query = query.eq('email', email);
+  if (tokenHash) query = query.eq('token_hash', tokenHash);
+
+  const { data, error } = await applyPending(query, pending)
+    .maybeSingle()
+    .overrideTypes<InvitationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to look up invitation', error, { email });
+  }
+
+  return data;
+}
+
+async function findMany({ pending }: InvitationFilters, options: ListOptions = {}): Promise<InvitationRow[]> {
+  const query = supabaseAdmin
+    .from('invitations')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyPending(query, pending), options)
+    .overrideTypes<InvitationRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch invitations', error);
+  }
+
+  return data;
+}
+
+async function create(values: Partial<InvitationRow>, options?: ReadOptions): Promise<InvitationRow> {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<InvitationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create invitation', error, { email: values.email });
+  }
+
+  return data;
+}
+
+/**
+ * Update an invitation and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<InvitationRow>,
+  { match = {}, ...options }: UpdateOptions<InvitationRow> = {}
+): Promise<InvitationRow | null> {
+  const query = supabaseAdmin
+    .from('invitations')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<InvitationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update invitation', error, { invitationId: id });
+  }
+
+  return data;
+}
+
+export {
+  findById,
+  findOne,
+  findMany,
+  create,
+  update,
+};
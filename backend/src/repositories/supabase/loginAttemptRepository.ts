@@ -0,0 +1,37 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging } from './select';
+import type { ListOptions, LoginAttemptFilters } from '../types';
+import type { LoginAttemptRow } from '../../types';
+
+async function findMany({ userId, success }: LoginAttemptFilters, options: ListOptions = {}): Promise<LoginAttemptRow[]> {
+  let query = supabaseAdmin
+    .from('login_attempts')
+    .select(selectFields({}, options))
+    .eq('user_id', userId);
+  if (success !== undefined) query = query.eq('success', success);
+
+  const { data, error } = await applyPaging(query, options)
+    .overrideTypes<LoginAttemptRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch login history', error, { userId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<LoginAttemptRow>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('login_attempts')
+    .insert(values);
+
+  if (error) {
+    throw queryError('Failed to record login attempt', error, { userId: values.user_id });
+  }
+}
+
+export {
+  findMany,
+  create,
+};
@@ -0,0 +1,132 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch, type FilterQuery } from './select';
+import type { ListOptions, NotificationFilters, OwnedReadOptions, Page, ReadOptions, UpdateOptions } from '../types';
+import type { NotificationRow } from '../../types';
+
+// Related rows that can be embedded in a notification
+const RELATIONS: Record<string, string> = {
+  actor: 'users!actor_id(id, name, email)',
+};
+
+/**
+ * Narrow a notification query by the filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, { userId, unread }: NotificationFilters): Q => {
+  let filtered = query.eq('user_id', userId);
+  if (unread !== undefined) {
+    filtered = unread ? filtered.is('read_at', null) : filtered.not('read_at', 'is', null);
+  }
+  return filtered;
+};
+
+/**
+ * A notification, or null when it does not exist or is not for `userId`
+ */
+async function findById(id: string, { userId, ...options }: OwnedReadOptions = {}): Promise<NotificationRow | null> {
+  let query = supabaseAdmin
+    .from('notifications')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id);
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<NotificationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch notification', error, { notificationId: id });
+  }
+
+  return data;
+}
+
+async function findPage(filters: NotificationFilters, options: ListOptions): Promise<Page<NotificationRow>> {
+  const query = supabaseAdmin
+    .from('notifications')
+    .select(selectFields(RELATIONS, options), { count: 'exact' });
+
+  const { data, error, count } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<NotificationRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch notifications', error, { userId: filters.userId });
+  }
+
+  return { rows: data, total: count ?? 0 };
+}
+
+async function count(filters: NotificationFilters): Promise<number> {
+  const query = supabaseAdmin
+    .from('notifications')
+    .select('id', { count: 'exact', head: true });
+
+  const { count: total, error } = await applyFilters(query, filters);
+
+  if (error) {
+    throw queryError('Failed to count notifications', error, { userId: filters.userId });
+  }
+
+  return total ?? 0;
+}
+
+async function createMany(rows: Partial<NotificationRow>[], options?: ReadOptions): Promise<NotificationRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('notifications')
+    .insert(rows)
+    .select(selectFields(RELATIONS, options))
+    .overrideTypes<NotificationRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create notifications', error, { type: rows[0]?.type });
+  }
+
+  return data;
+}
+
+/**
+ * Update a notification and return it, or null when it does not exist or
+ * no longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<NotificationRow>,
+  { match = {}, ...options }: UpdateOptions<NotificationRow> = {}
+): Promise<NotificationRow | null> {
+  const query = supabaseAdmin
+    .from('notifications')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<NotificationRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update notification', error, { notificationId: id });
+  }
+
+  return data;
+}
+
+async function updateMany(filters: NotificationFilters, changes: Partial<NotificationRow>): Promise<void> {
+  const query = supabaseAdmin
+    .from('notifications')
+    .update(changes);
+
+  const { error } = await applyFilters(query, filters);
+
+  if (error) {
+    throw queryError('Failed to update notifications', error, { userId: filters.userId });
+  }
+}
+
+export {
+  findById,
+  findPage,
+  count,
+  createMany,
+  update,
+  updateMany,
+};
@@ -0,0 +1,190 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { ListOptions, PlanFilters, ReadOptions, ScopedReadOptions } from '../types';
+import type { PlanRow, TestPlanCase, TestPlanProgress, TestStatus } from '../../types';
+
+// Related rows that can be embedded in a plan
+const RELATIONS: Record<string, string> = {
+  suite: 'test_suites!suite_id(id, name)',
+  creator: 'users!created_by(id, name, email)',
+};
+
+// Plan case columns, with the test case they capture
+const CASE_FIELDS = `test_case_id, status, last_run_id, updated_at, test_case:test_cases(
+  id,
+  module_platform,
+  test_case,
+  expected_result,
+  assigned_to,
+  assignee:users!assigned_to(id, name, email)
+)`;
+
+/**
+ * Narrow a plan query by the filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, { projectId, status }: PlanFilters): Q => {
+  const filtered = query.eq('project_id', projectId);
+  return status ? filtered.eq('status', status) : filtered;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<PlanRow | null> {
+  let query = supabaseAdmin
+    .from('test_plans')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id);
+  if (projectId) query = query.eq('project_id', projectId);
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<PlanRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test plan', error, { planId: id });
+  }
+
+  return data;
+}
+
+async function findMany(filters: PlanFilters, options: ListOptions = {}): Promise<PlanRow[]> {
+  const query = supabaseAdmin
+    .from('test_plans')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<PlanRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test plans', error, { projectId: filters.projectId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow> {
+  const { data, error } = await supabaseAdmin
+    .from('test_plans')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<PlanRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create test plan', error);
+  }
+
+  return data;
+}
+
+/**
+ * Update a plan and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('test_plans')
+    .update(changes)
+    .eq('id', id)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<PlanRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update test plan', error, { planId: id });
+  }
+
+  return data;
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_plans')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete test plan', error, { planId: id });
+  }
+}
+
+/**
+ * Result counts of the plans, one row per plan
+ */
+async function findProgress(planIds: string[]): Promise<(TestPlanProgress & { plan_id: string })[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_plan_progress')
+    .select('*')
+    .in('plan_id', planIds)
+    .overrideTypes<(TestPlanProgress & { plan_id: string })[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch plan progress', error);
+  }
+
+  return data;
+}
+
+/**
+ * The test cases a plan captured, with the plan's result of each
+ */
+async function findCases(planId: string): Promise<TestPlanCase[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_plan_cases')
+    .select(CASE_FIELDS)
+    .eq('plan_id', planId)
+    .overrideTypes<TestPlanCase[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch plan cases', error, { planId });
+  }
+
+  return data;
+}
+
+async function addCases(planId: string, testCaseIds: string[]): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_plan_cases')
+    .insert(testCaseIds.map((testCaseId) => ({ plan_id: planId, test_case_id: testCaseId })));
+
+  if (error) {
+    throw queryError('Failed to add plan cases', error, { planId });
+  }
+}
+
+/**
+ * Record a run of a test case in every active plan that captured it
+ */
+async function recordResult(testCaseId: string, status: TestStatus, runId: string): Promise<void> {
+  const { data: activePlans, error: plansError } = await supabaseAdmin
+    .from('test_plans')
+    .select('id')
+    .eq('status', 'active')
+    .overrideTypes<{ id: string }[], { merge: false }>();
+
+  if (plansError) {
+    throw queryError('Failed to fetch active plans', plansError, { testCaseId });
+  }
+
+  if (activePlans.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('test_plan_cases')
+    .update({ status, last_run_id: runId })
+    .eq('test_case_id', testCaseId)
+    .in('plan_id', activePlans.map((plan) => plan.id));
+
+  if (error) {
+    throw queryError('Failed to record plan result', error, { testCaseId, runId });
+  }
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findProgress,
+  findCases,
+  addCases,
+  recordResult,
+};
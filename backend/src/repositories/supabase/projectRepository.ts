@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { ListOptions, MemberFilters, ReadOptions } from '../types';
+import type { ProjectMemberRow, ProjectRow } from '../../types';
+
+// Related rows that can be embedded in a membership
+const MEMBER_RELATIONS: Record<string, string> = {
+  user: 'users!user_id(id, name, email, role, is_verified, is_service_account)',
+  project: 'projects(id, name, description, created_at, updated_at)',
+};
+
+/**
+ * Narrow a membership query by the filters
+ */
+const applyMemberFilters = <Q extends FilterQuery<Q>>(query: Q, { projectId, userId, role }: MemberFilters): Q => {
+  let filtered = query;
+  if (projectId) filtered = filtered.eq('project_id', projectId);
+  if (userId) filtered = filtered.eq('user_id', userId);
+  if (role) filtered = filtered.eq('role', role);
+  return filtered;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<ProjectRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select(selectFields({}, options))
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<ProjectRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch project', error, { projectId: id });
+  }
+
+  return data;
+}
+
+async function findMany(options: ListOptions = {}): Promise<ProjectRow[]> {
+  const query = supabaseAdmin
+    .from('projects')
+    .select(selectFields({}, options));
+
+  const { data, error } = await applyPaging(query, options)
+    .overrideTypes<ProjectRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch projects', error);
+  }
+
+  return data;
+}
+
+async function create(values: Partial<ProjectRow> & { created_by: string }, options?: ReadOptions): Promise<ProjectRow> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .insert(values)
+    .select(selectFields({}, options))
+    .single()
+    .overrideTypes<ProjectRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create project', error, { name: values.name });
+  }
+
+  return data;
+}
+
+async function update(id: string, changes: Partial<ProjectRow>, options?: ReadOptions): Promise<ProjectRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .update(changes)
+    .eq('id', id)
+    .select(selectFields({}, options))
+    .maybeSingle()
+    .overrideTypes<ProjectRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update project', error, { projectId: id });
+  }
+
+  return data;
+}
+
+/**
+ * The user's membership of a project, or null when they are not a member
+ */
+async function findMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('project_members')
+    .select(selectFields(MEMBER_RELATIONS, options))
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle()
+    .overrideTypes<ProjectMemberRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch project membership', error, { projectId, userId });
+  }
+
+  return data;
+}
+
+async function findMembers(filters: MemberFilters, options: ListOptions = {}): Promise<ProjectMemberRow[]> {
+  const query = supabaseAdmin
+    .from('project_members')
+    .select(selectFields(MEMBER_RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyMemberFilters(query, filters), options)
+    .overrideTypes<ProjectMemberRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch project members', error, { ...filters });
+  }
+
+  return data;
+}
+
+/**
+ * Add a user to a project, or replace their membership when they are one
+ */
+async function setMember(values: Partial<ProjectMemberRow>, options?: ReadOptions): Promise<ProjectMemberRow> {
+  const { data, error } = await supabaseAdmin
+    .from('project_members')
+    .upsert(values, { onConflict: 'project_id,user_id' })
+    .select(selectFields(MEMBER_RELATIONS, options))
+    .single()
+    .overrideTypes<ProjectMemberRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to add project member', error, { projectId: values.project_id, userId: values.user_id });
+  }
+
+  return data;
+}
+
+/**
+ * Remove a user from a project and return the membership, or null when
+ * they were not a member
+ */
+async function removeMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .select(selectFields(MEMBER_RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<ProjectMemberRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to remove project member', error, { projectId, userId });
+  }
+
+  return data;
+}
+
+/**
+ * How many of the ids are records of the project in the table
+ */
+async function countRecords(table: string, projectId: string, ids: string[]): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .in('id', ids);
+
+  if (error) {
+    throw queryError('Failed to check project records', error, { table, projectId });
+  }
+
+  return count ?? 0;
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  findMember,
+  findMembers,
+  setMember,
+  removeMember,
+  countRecords,
+};
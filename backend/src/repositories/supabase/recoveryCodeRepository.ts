@@ -0,0 +1,69 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+
+/**
+ * Mark an unused recovery code of a user as used. Returns whether there
+ * was one.
+ */
+async function use(userId: string, codeHash: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', codeHash)
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    throw queryError('Failed to use recovery code', error, { userId });
+  }
+
+  return data.length > 0;
+}
+
+async function countUnused(userId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (error) {
+    throw queryError('Failed to count recovery codes', error, { userId });
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Replace every recovery code of a user
+ */
+async function replace(userId: string, codeHashes: string[]): Promise<void> {
+  await removeAll(userId);
+
+  const { error } = await supabaseAdmin
+    .from('recovery_codes')
+    .insert(codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })));
+
+  if (error) {
+    throw queryError('Failed to create recovery codes', error, { userId });
+  }
+}
+
+async function removeAll(userId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    throw queryError('Failed to delete recovery codes', error, { userId });
+  }
+}
+
+export {
+  use,
+  countUnused,
+  replace,
+  removeAll,
+};
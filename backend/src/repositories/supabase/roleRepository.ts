@@ -0,0 +1,176 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import type { Permission, PermissionInfo, Role, RoleRow } from '../../types';
+
+// A roles row with its role_permissions rows embedded
+type RoleWithPermissionRows = Omit<Role, 'permissions'> & { permissions: { permission_key: Permission }[] };
+
+const ROLE_FIELDS = 'id, name, description, base_role, is_system, for_service_accounts, created_at, updated_at, permissions:role_permissions(permission_key)';
+
+const toRole = ({ permissions, ...role }: RoleWithPermissionRows): Role => ({
+  ...role,
+  permissions: permissions.map(({ permission_key: key }) => key).sort(),
+});
+
+/**
+ * Every permission a role can have, with its description
+ */
+async function findPermissions(): Promise<PermissionInfo[]> {
+  const { data, error } = await supabaseAdmin
+    .from('permissions')
+    .select('key, description')
+    .order('key')
+    .overrideTypes<PermissionInfo[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch permissions', error);
+  }
+
+  return data;
+}
+
+async function findPermissionKeys(roleId: string): Promise<Permission[]> {
+  const { data, error } = await supabaseAdmin
+    .from('role_permissions')
+    .select('permission_key')
+    .eq('role_id', roleId)
+    .overrideTypes<{ permission_key: Permission }[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch role permissions', error, { roleId });
+  }
+
+  return data.map(({ permission_key: key }) => key);
+}
+
+async function findById(id: string): Promise<Role | null> {
+  const { data, error } = await supabaseAdmin
+    .from('roles')
+    .select(ROLE_FIELDS)
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<RoleWithPermissionRows, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch role', error, { roleId: id });
+  }
+
+  return data && toRole(data);
+}
+
+/**
+ * Every role, built-in roles first, then by name
+ */
+async function findMany(): Promise<Role[]> {
+  const { data, error } = await supabaseAdmin
+    .from('roles')
+    .select(ROLE_FIELDS)
+    .order('is_system', { ascending: false })
+    .order('name')
+    .overrideTypes<RoleWithPermissionRows[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch roles', error);
+  }
+
+  return data.map(toRole);
+}
+
+/**
+ * The built-in role of QA service accounts
+ */
+async function findServiceAccountRole(): Promise<Role | null> {
+  const { data, error } = await supabaseAdmin
+    .from('roles')
+    .select(ROLE_FIELDS)
+    .eq('is_system', true)
+    .eq('for_service_accounts', true)
+    .maybeSingle()
+    .overrideTypes<RoleWithPermissionRows, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch service account role', error);
+  }
+
+  return data && toRole(data);
+}
+
+/**
+ * Create a role without permissions
+ */
+async function create(values: Partial<RoleRow>): Promise<Role> {
+  const { data, error } = await supabaseAdmin
+    .from('roles')
+    .insert(values)
+    .select(ROLE_FIELDS)
+    .single()
+    .overrideTypes<RoleWithPermissionRows, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create role', error, { name: values.name });
+  }
+
+  return toRole(data);
+}
+
+async function update(id: string, changes: Partial<RoleRow>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('roles')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to update role', error, { roleId: id });
+  }
+}
+
+/**
+ * Replace the permissions of a role
+ */
+async function setPermissions(roleId: string, permissions: Permission[]): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('role_permissions')
+    .delete()
+    .eq('role_id', roleId);
+
+  if (deleteError) {
+    throw queryError('Failed to clear role permissions', deleteError, { roleId });
+  }
+
+  if (permissions.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('role_permissions')
+    .insert(permissions.map((key) => ({ role_id: roleId, permission_key: key })));
+
+  if (error) {
+    throw queryError('Failed to set role permissions', error, { roleId });
+  }
+}
+
+/**
+ * Delete a custom role; built-in roles are left alone
+ */
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('roles')
+    .delete()
+    .eq('id', id)
+    .eq('is_system', false);
+
+  if (error) {
+    throw queryError('Failed to delete role', error, { roleId: id });
+  }
+}
+
+export {
+  findPermissions,
+  findPermissionKeys,
+  findById,
+  findMany,
+  findServiceAccountRole,
+  create,
+  update,
+  setPermissions,
+  remove,
+};
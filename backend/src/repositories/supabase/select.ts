@@ -0,0 +1,63 @@
+import type { ListOptions, ReadOptions } from '../types';
+
+// What the repositories narrow queries with. Each call returns the query.
+export interface FilterQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  neq(column: string, value: unknown): Q;
+  gt(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  in(column: string, values: readonly unknown[]): Q;
+  ilike(column: string, pattern: string): Q;
+  is(column: string, value: null): Q;
+  not(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+}
+
+interface PagedQuery<Q> {
+  order(column: string, options: { ascending: boolean }): Q;
+  range(from: number, to: number): Q;
+  limit(count: number): Q;
+}
+
+/**
+ * PostgREST select string for the requested columns and embedded relations
+ */
+function selectFields(relations: Record<string, string>, { fields = 'id', with: embedded = [] }: ReadOptions = {}) {
+  return [fields, ...embedded.map((name) => {
+    if (!relations[name]) {
+      throw new Error(`Unknown relation "${name}"`);
+    }
+    return `${name}:${relations[name]}`;
+  })].join(', ');
+}
+
+/**
+ * Only touch the row while its columns still hold these values; null
+ * matches an empty column
+ */
+function applyMatch<Q extends FilterQuery<Q>>(query: Q, match: Record<string, unknown>): Q {
+  return Object.entries(match).reduce(
+    (matched, [column, value]) => (value === null ? matched.is(column, null) : matched.eq(column, value)),
+    query
+  );
+}
+
+/**
+ * Apply a page and sort order to a list query
+ */
+function applyPaging<Q extends PagedQuery<Q>>(query: Q, { sort, ascending = false, offset, limit }: ListOptions = {}): Q {
+  let paged = sort ? query.order(sort, { ascending }) : query;
+  if (offset !== undefined && limit !== undefined) {
+    paged = paged.range(offset, offset + limit - 1);
+  } else if (limit !== undefined) {
+    paged = paged.limit(limit);
+  }
+  return paged;
+}
+
+export {
+  selectFields,
+  applyPaging,
+  applyMatch,
+};
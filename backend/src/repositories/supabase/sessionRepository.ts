@@ -0,0 +1,141 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch, type FilterQuery } from './select';
+import type { ListOptions, ReadOptions, SessionFilters, SessionLookup, UpdateOptions } from '../types';
+import type { SessionRow } from '../../types';
+
+// Related rows that can be embedded in a session
+const RELATIONS: Record<string, string> = {
+  user: 'users!user_id(id, email, name, role, role_id, is_verified, is_service_account, two_factor_enabled)',
+};
+
+/**
+ * Only sessions that are (not) revoked or (not) expired, when asked for
+ */
+const applyState = <Q extends FilterQuery<Q>>(query: Q, { revoked, expired }: { revoked?: boolean; expired?: boolean }): Q => {
+  let filtered = query;
+  if (revoked !== undefined) {
+    filtered = revoked ? filtered.not('revoked_at', 'is', null) : filtered.is('revoked_at', null);
+  }
+  if (expired !== undefined) {
+    const now = new Date().toISOString();
+    filtered = expired ? filtered.lte('expires_at', now) : filtered.gt('expires_at', now);
+  }
+  return filtered;
+};
+
+/**
+ * Narrow a session query by the list filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, { userId, exceptId, ...state }: SessionFilters): Q => {
+  let filtered = applyState(query.eq('user_id', userId), state);
+  if (exceptId) filtered = filtered.neq('id', exceptId);
+  return filtered;
+};
+
+/**
+ * The session matching every given lookup key, e.g. `{ refreshTokenHash }`,
+ * or null
+ */
+async function findOne(
+  { id, refreshTokenHash, previousTokenHash, revoked }: SessionLookup,
+  options?: ReadOptions
+): Promise<SessionRow | null> {
+  let query = supabaseAdmin
+    .from('sessions')
+    .select(selectFields(RELATIONS, options));
+  if (id) query = query.eq('id', id);
+  if (refreshTokenHash) query = query.eq('refresh_token_hash', refreshTokenHash);
+  if (previousTokenHash) query = query.eq('previous_token_hash', previousTokenHash);
+
+  const { data, error } = await applyState(query, { revoked })
+    .maybeSingle()
+    .overrideTypes<SessionRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to look up session', error, { sessionId: id });
+  }
+
+  return data;
+}
+
+async function findMany(filters: SessionFilters, options: ListOptions = {}): Promise<SessionRow[]> {
+  const query = supabaseAdmin
+    .from('sessions')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<SessionRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch sessions', error, { userId: filters.userId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<SessionRow>, options?: ReadOptions): Promise<SessionRow> {
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<SessionRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create session', error, { userId: values.user_id });
+  }
+
+  return data;
+}
+
+/**
+ * Update a session and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<SessionRow>,
+  { match = {}, ...options }: UpdateOptions<SessionRow> = {}
+): Promise<SessionRow | null> {
+  const query = supabaseAdmin
+    .from('sessions')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<SessionRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update session', error, { sessionId: id });
+  }
+
+  return data;
+}
+
+/**
+ * Update every session matching the filters and return how many were
+ */
+async function updateMany(filters: SessionFilters, changes: Partial<SessionRow>): Promise<number> {
+  const query = supabaseAdmin
+    .from('sessions')
+    .update(changes);
+
+  const { data, error } = await applyFilters(query, filters).select('id');
+
+  if (error) {
+    throw queryError('Failed to update sessions', error, { userId: filters.userId });
+  }
+
+  return data.length;
+}
+
+export {
+  findOne,
+  findMany,
+  create,
+  update,
+  updateMany,
+};
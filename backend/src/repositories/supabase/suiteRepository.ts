@@ -0,0 +1,235 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, type FilterQuery } from './select';
+import type { ListOptions, ReadOptions, ScopedReadOptions, SuiteFilters } from '../types';
+import type { SuiteRow, TestCase } from '../../types';
+
+// A suite as PostgREST returns it, with its member count as an aggregate
+type SuiteResult = Omit<SuiteRow, 'test_count'> & { test_count?: { count: number }[] };
+
+// Related rows that can be embedded in a suite
+const RELATIONS: Record<string, string> = {
+  creator: 'users!created_by(id, name, email)',
+  test_count: 'test_suite_cases(count)',
+};
+
+// Test case columns listed with a suite
+const MEMBER_FIELDS = `position, test_case:test_cases(
+  id,
+  module_platform,
+  test_case,
+  expected_result,
+  status,
+  assigned_to,
+  assignee:users!assigned_to(id, name, email)
+)`;
+
+/**
+ * A suite row with its member count as a number
+ */
+const toSuite = ({ test_count: testCount, ...suite }: SuiteResult): SuiteRow => (
+  testCount === undefined ? suite : { ...suite, test_count: testCount[0]?.count ?? 0 }
+);
+
+/**
+ * Narrow a suite query by the filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, { projectId, search }: SuiteFilters): Q => {
+  let filtered = query.eq('project_id', projectId);
+  if (search) filtered = filtered.ilike('name', `%${search}%`);
+  return filtered;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<SuiteRow | null> {
+  let query = supabaseAdmin
+    .from('test_suites')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id);
+  if (projectId) query = query.eq('project_id', projectId);
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<SuiteResult, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test suite', error, { suiteId: id });
+  }
+
+  return data && toSuite(data);
+}
+
+async function findMany(filters: SuiteFilters, options: ListOptions = {}): Promise<SuiteRow[]> {
+  const query = supabaseAdmin
+    .from('test_suites')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<SuiteResult[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test suites', error, { projectId: filters.projectId });
+  }
+
+  return data.map(toSuite);
+}
+
+async function create(values: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow> {
+  const { data, error } = await supabaseAdmin
+    .from('test_suites')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<SuiteResult, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create test suite', error);
+  }
+
+  return toSuite(data);
+}
+
+/**
+ * Update a suite and return it, or null when it does not exist
+ */
+async function update(id: string, changes: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('test_suites')
+    .update(changes)
+    .eq('id', id)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<SuiteResult, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update test suite', error, { suiteId: id });
+  }
+
+  return data && toSuite(data);
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_suites')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete test suite', error, { suiteId: id });
+  }
+}
+
+/**
+ * The test cases of a suite in order, with their assignee
+ */
+async function findTests(suiteId: string): Promise<TestCase[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_suite_cases')
+    .select(MEMBER_FIELDS)
+    .eq('suite_id', suiteId)
+    .order('position', { ascending: true })
+    .overrideTypes<{ position: number; test_case: TestCase | null }[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch suite members', error, { suiteId });
+  }
+
+  return data.map((member) => member.test_case).filter((testCase) => testCase !== null);
+}
+
+async function findTestIds(suiteId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_suite_cases')
+    .select('test_case_id')
+    .eq('suite_id', suiteId)
+    .overrideTypes<{ test_case_id: string }[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch suite members', error, { suiteId });
+  }
+
+  return data.map((member) => member.test_case_id);
+}
+
+/**
+ * Replace the test cases of a suite, keeping the given order
+ */
+async function setTests(suiteId: string, testCaseIds: string[]): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('test_suite_cases')
+    .delete()
+    .eq('suite_id', suiteId);
+
+  if (deleteError) {
+    throw queryError('Failed to clear suite members', deleteError, { suiteId });
+  }
+
+  if (testCaseIds.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('test_suite_cases')
+    .insert(testCaseIds.map((testCaseId, index) => ({
+      suite_id: suiteId,
+      test_case_id: testCaseId,
+      position: index,
+    })));
+
+  if (error) {
+    throw queryError('Failed to add suite members', error, { suiteId });
+  }
+}
+
+/**
+ * Replace the suites a test case belongs to. It goes to the end of the
+ * suites it joins.
+ */
+async function setSuitesOf(testCaseId: string, suiteIds: string[]): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('test_suite_cases')
+    .delete()
+    .eq('test_case_id', testCaseId);
+
+  if (deleteError) {
+    throw queryError('Failed to clear test suites', deleteError, { testCaseId });
+  }
+
+  if (suiteIds.length === 0) return;
+
+  const { data: existingMembers, error: positionError } = await supabaseAdmin
+    .from('test_suite_cases')
+    .select('suite_id, position')
+    .in('suite_id', suiteIds)
+    .overrideTypes<{ suite_id: string; position: number }[], { merge: false }>();
+
+  if (positionError) {
+    throw queryError('Failed to read suite positions', positionError, { testCaseId });
+  }
+
+  const nextPosition: Record<string, number> = {};
+  for (const member of existingMembers) {
+    nextPosition[member.suite_id] = Math.max(nextPosition[member.suite_id] || 0, member.position + 1);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('test_suite_cases')
+    .insert(suiteIds.map((suiteId) => ({
+      suite_id: suiteId,
+      test_case_id: testCaseId,
+      position: nextPosition[suiteId] || 0,
+    })));
+
+  if (error) {
+    throw queryError('Failed to add test to suites', error, { testCaseId });
+  }
+}
+
+export {
+  findById,
+  findMany,
+  create,
+  update,
+  remove,
+  findTests,
+  findTestIds,
+  setTests,
+  setSuitesOf,
+};
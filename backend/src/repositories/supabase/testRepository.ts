@@ -0,0 +1,223 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch, type FilterQuery } from './select';
+import type { ListOptions, Page, ReadOptions, ScopedReadOptions, TestFilters, TestResultChange, TestUpdateOptions } from '../types';
+import type { DashboardStats, TestRow, TestRun } from '../../types';
+
+// Related rows that can be embedded in a test case
+const RELATIONS: Record<string, string> = {
+  assignee: 'users!assigned_to(id, name, email)',
+  creator: 'users!created_by(id, name, email)',
+  fixer: 'users!fix_owner(id, name, email)',
+  source_bug: `unlisted_bugs!source_bug_id(
+    id,
+    module_platform,
+    jam_link,
+    description,
+    created_by,
+    bug_creator:users!created_by(id, name, email)
+  )`,
+  suites: 'test_suites(id, name)',
+  steps: 'test_steps(id, position, action, expected_result, test_data)',
+};
+
+/**
+ * Embedded steps come back unordered, so sort them by position
+ */
+const toTest = <T extends TestRow | null>(test: T) => {
+  if (test?.steps) test.steps.sort((a, b) => a.position - b.position);
+  return test;
+};
+
+/**
+ * Narrow a test case query by the list filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, filters: TestFilters): Q => {
+  const { projectId, ids, externalKeys, assignedTo, status, statuses, modulePlatform, origin, search } = filters;
+
+  let filtered = query;
+  if (projectId) filtered = filtered.eq('project_id', projectId);
+  if (ids) filtered = filtered.in('id', ids);
+  if (externalKeys) filtered = filtered.in('external_key', externalKeys);
+  if (assignedTo) filtered = filtered.eq('assigned_to', assignedTo);
+  if (status) filtered = filtered.eq('status', status);
+  if (statuses) filtered = filtered.in('status', statuses);
+  if (modulePlatform) filtered = filtered.ilike('module_platform', `%${modulePlatform}%`);
+  if (origin) filtered = filtered.eq('origin', origin);
+  if (search) {
+    filtered = filtered.or(`test_case.ilike.%${search}%,expected_result.ilike.%${search}%`);
+  }
+  return filtered;
+};
+
+async function findById(id: string, { projectId, ...options }: ScopedReadOptions = {}): Promise<TestRow | null> {
+  let query = supabaseAdmin
+    .from('test_cases')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id);
+  if (projectId) query = query.eq('project_id', projectId);
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<TestRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test case', error, { testId: id });
+  }
+
+  return toTest(data);
+}
+
+async function findMany(filters: TestFilters, options: ListOptions = {}): Promise<TestRow[]> {
+  const query = supabaseAdmin
+    .from('test_cases')
+    .select(selectFields(RELATIONS, options));
+
+  const { data, error } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<TestRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test cases', error);
+  }
+
+  return data.map(toTest);
+}
+
+/**
+ * One page of test cases and how many match the filters in total
+ */
+async function findPage(filters: TestFilters, options: ListOptions): Promise<Page<TestRow>> {
+  const query = supabaseAdmin
+    .from('test_cases')
+    .select(selectFields(RELATIONS, options), { count: 'exact' });
+
+  const { data, error, count } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<TestRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test cases', error);
+  }
+
+  return { rows: data.map(toTest), total: count ?? 0 };
+}
+
+async function create(values: Partial<TestRow>, options?: ReadOptions): Promise<TestRow> {
+  const { data, error } = await supabaseAdmin
+    .from('test_cases')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<TestRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create test case', error);
+  }
+
+  return toTest(data);
+}
+
+async function createMany(rows: Partial<TestRow>[], options?: ReadOptions): Promise<TestRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_cases')
+    .insert(rows)
+    .select(selectFields(RELATIONS, options))
+    .overrideTypes<TestRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create test cases', error);
+  }
+
+  return data.map(toTest);
+}
+
+/**
+ * Update a test case and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<TestRow>,
+  { match = {}, ...options }: TestUpdateOptions = {}
+): Promise<TestRow | null> {
+  const query = supabaseAdmin
+    .from('test_cases')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<TestRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update test case', error, { testId: id });
+  }
+
+  return toTest(data);
+}
+
+async function updateMany(ids: string[], changes: Partial<TestRow>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_cases')
+    .update(changes)
+    .in('id', ids);
+
+  if (error) {
+    throw queryError('Failed to update test cases', error);
+  }
+}
+
+/**
+ * Record runs of several test cases and apply their results to the test
+ * cases at once; either all of it is recorded or none. Returns the runs.
+ */
+async function recordResults(runs: Partial<TestRun>[], changes: TestResultChange[]): Promise<TestRun[]> {
+  const { data, error } = await supabaseAdmin.rpc('record_test_results', { runs, results: changes });
+
+  if (error) {
+    throw queryError('Failed to record test results', error);
+  }
+
+  return data as TestRun[];
+}
+
+/**
+ * Test case counts of a project by status, or null for an unknown project
+ */
+async function findStats(projectId: string): Promise<DashboardStats | null> {
+  const { data, error } = await supabaseAdmin
+    .from('dashboard_stats')
+    .select('*')
+    .eq('project_id', projectId)
+    .maybeSingle<DashboardStats>();
+
+  if (error) {
+    throw queryError('Failed to fetch statistics', error, { projectId });
+  }
+
+  return data;
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_cases')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete test case', error, { testId: id });
+  }
+}
+
+export {
+  findById,
+  findMany,
+  findPage,
+  create,
+  createMany,
+  update,
+  updateMany,
+  recordResults,
+  findStats,
+  remove,
+};
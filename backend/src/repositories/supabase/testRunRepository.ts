@@ -0,0 +1,77 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging } from './select';
+import type { ListOptions, ReadOptions } from '../types';
+import type { TestRun } from '../../types';
+
+// Related rows that can be embedded in a run
+const RELATIONS: Record<string, string> = {
+  executor: 'users!executed_by(id, name, email)',
+  step_results: 'test_step_results(id, step_id, position, action, status, notes)',
+};
+
+/**
+ * Runs of a test case
+ */
+async function findMany(testCaseId: string, options: ListOptions = {}): Promise<TestRun[]> {
+  const query = supabaseAdmin
+    .from('test_runs')
+    .select(selectFields(RELATIONS, options))
+    .eq('test_case_id', testCaseId);
+
+  const { data, error } = await applyPaging(query, options)
+    .overrideTypes<TestRun[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test runs', error, { testCaseId });
+  }
+
+  return data;
+}
+
+async function create(values: Partial<TestRun>, options?: ReadOptions): Promise<TestRun> {
+  const { data, error } = await supabaseAdmin
+    .from('test_runs')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<TestRun, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to record test run', error, { testCaseId: values.test_case_id });
+  }
+
+  return data;
+}
+
+async function createMany(rows: Partial<TestRun>[], options?: ReadOptions): Promise<TestRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_runs')
+    .insert(rows)
+    .select(selectFields(RELATIONS, options))
+    .overrideTypes<TestRun[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to record test runs', error);
+  }
+
+  return data;
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('test_runs')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete test run', error, { runId: id });
+  }
+}
+
+export {
+  findMany,
+  create,
+  createMany,
+  remove,
+};
@@ -0,0 +1,78 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import type { StepResultRow, TestStep, TestStepResult } from '../../types';
+
+const STEP_FIELDS = 'id, position, action, expected_result, test_data';
+
+/**
+ * The steps of a test case in order
+ */
+async function findMany(testCaseId: string): Promise<TestStep[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_steps')
+    .select(STEP_FIELDS)
+    .eq('test_case_id', testCaseId)
+    .order('position', { ascending: true })
+    .overrideTypes<TestStep[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch test steps', error, { testCaseId });
+  }
+
+  return data;
+}
+
+/**
+ * Replace the steps of a test case and return the new ones in order
+ */
+async function replace(testCaseId: string, steps: Omit<TestStep, 'id'>[]): Promise<TestStep[]> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('test_steps')
+    .delete()
+    .eq('test_case_id', testCaseId);
+
+  if (deleteError) {
+    throw queryError('Failed to clear test steps', deleteError, { testCaseId });
+  }
+
+  if (steps.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('test_steps')
+    .insert(steps.map((step) => ({ ...step, test_case_id: testCaseId })))
+    .select(STEP_FIELDS)
+    .order('position', { ascending: true })
+    .overrideTypes<TestStep[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to add test steps', error, { testCaseId });
+  }
+
+  return data;
+}
+
+/**
+ * Store the step outcomes of runs and return them in order
+ */
+async function createResults(rows: Omit<StepResultRow, 'id'>[]): Promise<TestStepResult[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_step_results')
+    .insert(rows)
+    .select('id, step_id, position, action, status, notes')
+    .order('position', { ascending: true })
+    .overrideTypes<TestStepResult[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to record step results', error, { runId: rows[0]?.run_id });
+  }
+
+  return data;
+}
+
+export {
+  findMany,
+  replace,
+  createResults,
+};
@@ -0,0 +1,148 @@
+import { supabaseAdmin } from '../../config/supabase';
+import queryError from '../queryError';
+import { selectFields, applyPaging, applyMatch, type FilterQuery } from './select';
+import type { ListOptions, Page, ReadOptions, UserFilters, UserLookup, UserUpdateOptions } from '../types';
+import type { UserRow } from '../../types';
+
+// Users have no embedded relations
+const RELATIONS: Record<string, string> = {};
+
+// Lookup keys accepted by findOne, by column
+const LOOKUP_COLUMNS: Record<string, string> = {
+  email: 'email',
+  verificationToken: 'verification_token',
+  resetPasswordToken: 'reset_password_token',
+  ssoSubject: 'sso_subject',
+  isServiceAccount: 'is_service_account',
+};
+
+/**
+ * Narrow a user query by the list filters
+ */
+const applyFilters = <Q extends FilterQuery<Q>>(query: Q, filters: UserFilters): Q => {
+  const { role, isServiceAccount, search } = filters;
+
+  let filtered = query;
+  if (role) filtered = filtered.eq('role', role);
+  if (isServiceAccount !== undefined) filtered = filtered.eq('is_service_account', isServiceAccount);
+  if (search) {
+    filtered = filtered.or(`name.ilike.%${search}%,email.ilike.%${search}%`);
+  }
+  return filtered;
+};
+
+async function findById(id: string, options?: ReadOptions): Promise<UserRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select(selectFields(RELATIONS, options))
+    .eq('id', id)
+    .maybeSingle()
+    .overrideTypes<UserRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch user', error, { userId: id });
+  }
+
+  return data;
+}
+
+/**
+ * The user matching every given lookup key, e.g. `{ email }`, or null
+ */
+async function findOne(criteria: UserLookup, options?: ReadOptions): Promise<UserRow | null> {
+  const query = Object.entries(criteria).reduce((filtered, [key, value]) => {
+    if (!LOOKUP_COLUMNS[key]) {
+      throw new Error(`Unknown user lookup "${key}"`);
+    }
+    return filtered.eq(LOOKUP_COLUMNS[key], value);
+  }, supabaseAdmin.from('users').select(selectFields(RELATIONS, options)));
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<UserRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch user', error);
+  }
+
+  return data;
+}
+
+/**
+ * One page of users and how many match the filters in total
+ */
+async function findPage(filters: UserFilters, options: ListOptions): Promise<Page<UserRow>> {
+  const query = supabaseAdmin
+    .from('users')
+    .select(selectFields(RELATIONS, options), { count: 'exact' });
+
+  const { data, error, count } = await applyPaging(applyFilters(query, filters), options)
+    .overrideTypes<UserRow[], { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to fetch users', error);
+  }
+
+  return { rows: data, total: count ?? 0 };
+}
+
+async function create(values: Partial<UserRow>, options?: ReadOptions): Promise<UserRow> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .insert(values)
+    .select(selectFields(RELATIONS, options))
+    .single()
+    .overrideTypes<UserRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to create user', error);
+  }
+
+  return data;
+}
+
+/**
+ * Update a user and return it, or null when it does not exist or no
+ * longer holds the values in `match`
+ */
+async function update(
+  id: string,
+  changes: Partial<UserRow>,
+  { match = {}, ...options }: UserUpdateOptions = {}
+): Promise<UserRow | null> {
+  const query = supabaseAdmin
+    .from('users')
+    .update(changes)
+    .eq('id', id);
+
+  const { data, error } = await applyMatch(query, match)
+    .select(selectFields(RELATIONS, options))
+    .maybeSingle()
+    .overrideTypes<UserRow, { merge: false }>();
+
+  if (error) {
+    throw queryError('Failed to update user', error, { userId: id });
+  }
+
+  return data;
+}
+
+async function remove(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw queryError('Failed to delete user', error, { userId: id });
+  }
+}
+
+export {
+  findById,
+  findOne,
+  findPage,
+  create,
+  update,
+  remove,
+};
@@ -0,0 +1,372 @@
+import type {
+  ApiTokenRow,
+  AuditAction,
+  AuditEvent,
+  BugRow,
+  BugSeverity,
+  BugStatus,
+  BugStatusChange,
+  Comment,
+  DashboardStats,
+  InvitationRow,
+  LoginAttemptRow,
+  NotificationRow,
+  Permission,
+  PermissionInfo,
+  PlanRow,
+  PlanStatus,
+  ProjectMemberRow,
+  ProjectRow,
+  Role,
+  RoleRow,
+  SessionRow,
+  StepResultRow,
+  SuiteRow,
+  TestCase,
+  TestOrigin,
+  TestPlanCase,
+  TestPlanProgress,
+  TestRow,
+  TestRun,
+  TestStatus,
+  TestStep,
+  TestStepResult,
+  UserRole,
+  UserRow,
+} from '../types';
+
+/**
+ * What a read returns: `fields`, a comma-separated list of columns, and
+ * `with`, the names of the related rows to embed
+ */
+export interface ReadOptions {
+  fields?: string;
+  with?: string[];
+}
+
+// Reads of a single row that must belong to a project
+export interface ScopedReadOptions extends ReadOptions {
+  projectId?: string;
+}
+
+export interface ListOptions extends ReadOptions {
+  sort?: string;
+  ascending?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+}
+
+export interface TestFilters {
+  projectId?: string;
+  ids?: string[];
+  externalKeys?: string[];
+  assignedTo?: string;
+  status?: TestStatus;
+  statuses?: TestStatus[];
+  modulePlatform?: string;
+  origin?: TestOrigin;
+  search?: string;
+}
+
+// The state of a test case after a run, applied while it still has `from_status`
+export interface TestResultChange extends Pick<TestRow, 'id' | 'status' | 'notes' | 'fix_owner' | 'fix_reference' | 'fix_notes' | 'fixed_at'> {
+  from_status: TestStatus;
+}
+
+export interface BugFilters {
+  projectId?: string;
+  createdBy?: string;
+  status?: BugStatus;
+  severity?: BugSeverity;
+  modulePlatform?: string;
+  search?: string;
+}
+
+export interface UserFilters {
+  role?: UserRole;
+  isServiceAccount?: boolean;
+  search?: string;
+}
+
+// Lookup keys of findOne
+export interface UserLookup {
+  email?: string;
+  verificationToken?: string;
+  resetPasswordToken?: string;
+  ssoSubject?: string;
+  isServiceAccount?: boolean;
+}
+
+export interface UserUpdateOptions extends ReadOptions {
+  // Only update the row while its columns still hold these values
+  match?: Partial<UserRow>;
+}
+
+export interface TestUpdateOptions extends ReadOptions {
+  // Only update the row while its columns still hold these values
+  match?: Partial<TestRow>;
+}
+
+// Only update the row while its columns still hold these values
+export interface UpdateOptions<T> extends ReadOptions {
+  match?: Partial<T>;
+}
+
+export interface SessionLookup {
+  id?: string;
+  refreshTokenHash?: string;
+  previousTokenHash?: string;
+  revoked?: boolean;
+}
+
+export interface SessionFilters {
+  userId: string;
+  revoked?: boolean;
+  expired?: boolean;
+  exceptId?: string | null;
+}
+
+export interface ApiTokenFilters {
+  userId: string;
+}
+
+export interface InvitationLookup {
+  email?: string;
+  tokenHash?: string;
+  pending?: boolean;
+}
+
+export interface InvitationFilters {
+  pending?: boolean;
+}
+
+export interface LoginAttemptFilters {
+  userId: string;
+  success?: boolean;
+}
+
+export interface MemberFilters {
+  projectId?: string;
+  userId?: string;
+  role?: UserRole;
+}
+
+export interface AuditFilters {
+  action?: AuditAction;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  requestId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface NotificationFilters {
+  userId: string;
+  unread?: boolean;
+}
+
+// Reads of a single row that must belong to a user
+export interface OwnedReadOptions extends ReadOptions {
+  userId?: string;
+}
+
+export interface CommentFilters {
+  testCaseId?: string;
+  bugId?: string;
+}
+
+export interface SuiteFilters {
+  projectId: string;
+  search?: string;
+}
+
+export interface PlanFilters {
+  projectId: string;
+  status?: PlanStatus;
+}
+
+export interface TestRepository {
+  findById(id: string, options?: ScopedReadOptions): Promise<TestRow | null>;
+  findMany(filters: TestFilters, options?: ListOptions): Promise<TestRow[]>;
+  findPage(filters: TestFilters, options: ListOptions): Promise<Page<TestRow>>;
+  create(values: Partial<TestRow>, options?: ReadOptions): Promise<TestRow>;
+  createMany(rows: Partial<TestRow>[], options?: ReadOptions): Promise<TestRow[]>;
+  update(id: string, changes: Partial<TestRow>, options?: TestUpdateOptions): Promise<TestRow | null>;
+  updateMany(ids: string[], changes: Partial<TestRow>): Promise<void>;
+  recordResults(runs: Partial<TestRun>[], changes: TestResultChange[]): Promise<TestRun[]>;
+  remove(id: string): Promise<void>;
+  findStats(projectId: string): Promise<DashboardStats | null>;
+}
+
+export interface BugRepository {
+  findById(id: string, options?: ScopedReadOptions): Promise<BugRow | null>;
+  findMany(filters: BugFilters, options?: ListOptions): Promise<BugRow[]>;
+  findPage(filters: BugFilters, options: ListOptions): Promise<Page<BugRow>>;
+  create(values: Partial<BugRow>, options?: ReadOptions): Promise<BugRow>;
+  update(id: string, changes: Partial<BugRow>, options?: ReadOptions): Promise<BugRow | null>;
+  remove(id: string): Promise<void>;
+}
+
+export interface UserRepository {
+  findById(id: string, options?: ReadOptions): Promise<UserRow | null>;
+  findOne(criteria: UserLookup, options?: ReadOptions): Promise<UserRow | null>;
+  findPage(filters: UserFilters, options: ListOptions): Promise<Page<UserRow>>;
+  create(values: Partial<UserRow>, options?: ReadOptions): Promise<UserRow>;
+  update(id: string, changes: Partial<UserRow>, options?: UserUpdateOptions): Promise<UserRow | null>;
+  remove(id: string): Promise<void>;
+}
+
+export interface SessionRepository {
+  findOne(criteria: SessionLookup, options?: ReadOptions): Promise<SessionRow | null>;
+  findMany(filters: SessionFilters, options?: ListOptions): Promise<SessionRow[]>;
+  create(values: Partial<SessionRow>, options?: ReadOptions): Promise<SessionRow>;
+  update(id: string, changes: Partial<SessionRow>, options?: UpdateOptions<SessionRow>): Promise<SessionRow | null>;
+  updateMany(filters: SessionFilters, changes: Partial<SessionRow>): Promise<number>;
+}
+
+export interface ApiTokenRepository {
+  findById(id: string, options?: ReadOptions): Promise<ApiTokenRow | null>;
+  findByHash(tokenHash: string, options?: ReadOptions): Promise<ApiTokenRow | null>;
+  findMany(filters: ApiTokenFilters, options?: ListOptions): Promise<ApiTokenRow[]>;
+  create(values: Partial<ApiTokenRow>, options?: ReadOptions): Promise<ApiTokenRow>;
+  update(id: string, changes: Partial<ApiTokenRow>, options?: UpdateOptions<ApiTokenRow>): Promise<ApiTokenRow | null>;
+}
+
+export interface RecoveryCodeRepository {
+  use(userId: string, codeHash: string): Promise<boolean>;
+  countUnused(userId: string): Promise<number>;
+  replace(userId: string, codeHashes: string[]): Promise<void>;
+  removeAll(userId: string): Promise<void>;
+}
+
+export interface LoginAttemptRepository {
+  findMany(filters: LoginAttemptFilters, options?: ListOptions): Promise<LoginAttemptRow[]>;
+  create(values: Partial<LoginAttemptRow>): Promise<void>;
+}
+
+export interface InvitationRepository {
+  findById(id: string, options?: ReadOptions): Promise<InvitationRow | null>;
+  findOne(criteria: InvitationLookup, options?: ReadOptions): Promise<InvitationRow | null>;
+  findMany(filters: InvitationFilters, options?: ListOptions): Promise<InvitationRow[]>;
+  create(values: Partial<InvitationRow>, options?: ReadOptions): Promise<InvitationRow>;
+  update(id: string, changes: Partial<InvitationRow>, options?: UpdateOptions<InvitationRow>): Promise<InvitationRow | null>;
+}
+
+export interface RoleRepository {
+  findPermissions(): Promise<PermissionInfo[]>;
+  findPermissionKeys(roleId: string): Promise<Permission[]>;
+  findById(id: string): Promise<Role | null>;
+  findMany(): Promise<Role[]>;
+  findServiceAccountRole(): Promise<Role | null>;
+  create(values: Partial<RoleRow>): Promise<Role>;
+  update(id: string, changes: Partial<RoleRow>): Promise<void>;
+  setPermissions(roleId: string, permissions: Permission[]): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface ProjectRepository {
+  findById(id: string, options?: ReadOptions): Promise<ProjectRow | null>;
+  findMany(options?: ListOptions): Promise<ProjectRow[]>;
+  create(values: Partial<ProjectRow> & { created_by: string }, options?: ReadOptions): Promise<ProjectRow>;
+  update(id: string, changes: Partial<ProjectRow>, options?: ReadOptions): Promise<ProjectRow | null>;
+  findMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null>;
+  findMembers(filters: MemberFilters, options?: ListOptions): Promise<ProjectMemberRow[]>;
+  setMember(values: Partial<ProjectMemberRow>, options?: ReadOptions): Promise<ProjectMemberRow>;
+  removeMember(projectId: string, userId: string, options?: ReadOptions): Promise<ProjectMemberRow | null>;
+  countRecords(table: string, projectId: string, ids: string[]): Promise<number>;
+}
+
+export interface TestRunRepository {
+  findMany(testCaseId: string, options?: ListOptions): Promise<TestRun[]>;
+  create(values: Partial<TestRun>, options?: ReadOptions): Promise<TestRun>;
+  createMany(rows: Partial<TestRun>[], options?: ReadOptions): Promise<TestRun[]>;
+  remove(id: string): Promise<void>;
+}
+
+export interface TestStepRepository {
+  findMany(testCaseId: string): Promise<TestStep[]>;
+  replace(testCaseId: string, steps: Omit<TestStep, 'id'>[]): Promise<TestStep[]>;
+  createResults(rows: Omit<StepResultRow, 'id'>[]): Promise<TestStepResult[]>;
+}
+
+export interface SuiteRepository {
+  findById(id: string, options?: ScopedReadOptions): Promise<SuiteRow | null>;
+  findMany(filters: SuiteFilters, options?: ListOptions): Promise<SuiteRow[]>;
+  create(values: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow>;
+  update(id: string, changes: Partial<SuiteRow>, options?: ReadOptions): Promise<SuiteRow | null>;
+  remove(id: string): Promise<void>;
+  findTests(suiteId: string): Promise<TestCase[]>;
+  findTestIds(suiteId: string): Promise<string[]>;
+  setTests(suiteId: string, testCaseIds: string[]): Promise<void>;
+  setSuitesOf(testCaseId: string, suiteIds: string[]): Promise<void>;
+}
+
+export interface PlanRepository {
+  findById(id: string, options?: ScopedReadOptions): Promise<PlanRow | null>;
+  findMany(filters: PlanFilters, options?: ListOptions): Promise<PlanRow[]>;
+  create(values: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow>;
+  update(id: string, changes: Partial<PlanRow>, options?: ReadOptions): Promise<PlanRow | null>;
+  remove(id: string): Promise<void>;
+  findProgress(planIds: string[]): Promise<(TestPlanProgress & { plan_id: string })[]>;
+  findCases(planId: string): Promise<TestPlanCase[]>;
+  addCases(planId: string, testCaseIds: string[]): Promise<void>;
+  recordResult(testCaseId: string, status: TestStatus, runId: string): Promise<void>;
+}
+
+export interface CommentRepository {
+  findById(id: string, options?: ReadOptions): Promise<Comment | null>;
+  findMany(filters: CommentFilters, options?: ListOptions): Promise<Comment[]>;
+  create(values: Partial<Comment>, options?: ReadOptions): Promise<Comment>;
+  update(id: string, changes: Partial<Comment>): Promise<void>;
+  remove(id: string): Promise<void>;
+  findMentionedIds(commentId: string): Promise<string[]>;
+  addMentions(commentId: string, userIds: string[]): Promise<void>;
+  removeMentions(commentId: string, userIds: string[]): Promise<void>;
+}
+
+export interface NotificationRepository {
+  findById(id: string, options?: OwnedReadOptions): Promise<NotificationRow | null>;
+  findPage(filters: NotificationFilters, options: ListOptions): Promise<Page<NotificationRow>>;
+  count(filters: NotificationFilters): Promise<number>;
+  createMany(rows: Partial<NotificationRow>[], options?: ReadOptions): Promise<NotificationRow[]>;
+  update(id: string, changes: Partial<NotificationRow>, options?: UpdateOptions<NotificationRow>): Promise<NotificationRow | null>;
+  updateMany(filters: NotificationFilters, changes: Partial<NotificationRow>): Promise<void>;
+}
+
+export interface AuditRepository {
+  findPage(filters: AuditFilters, options: ListOptions): Promise<Page<AuditEvent>>;
+  create(values: Partial<AuditEvent>): Promise<void>;
+}
+
+export interface BugHistoryRepository {
+  findMany(bugId: string, options?: ListOptions): Promise<BugStatusChange[]>;
+  create(values: Partial<BugStatusChange>): Promise<void>;
+}
+
+// The repositories of a driver
+export interface Repositories {
+  testRepository: TestRepository;
+  bugRepository: BugRepository;
+  userRepository: UserRepository;
+  sessionRepository: SessionRepository;
+  apiTokenRepository: ApiTokenRepository;
+  recoveryCodeRepository: RecoveryCodeRepository;
+  loginAttemptRepository: LoginAttemptRepository;
+  invitationRepository: InvitationRepository;
+  roleRepository: RoleRepository;
+  projectRepository: ProjectRepository;
+  testRunRepository: TestRunRepository;
+  testStepRepository: TestStepRepository;
+  suiteRepository: SuiteRepository;
+  planRepository: PlanRepository;
+  commentRepository: CommentRepository;
+  notificationRepository: NotificationRepository;
+  auditRepository: AuditRepository;
+  bugHistoryRepository: BugHistoryRepository;
+}
@@ -0,0 +1,26 @@
+import express from 'express';
+import * as apiTokenController from '../controllers/apiTokenController';
+import {
+  authenticate,
+  requireSession,
+  apiTokenOwnerValidation,
+  createApiTokenValidation,
+  uuidParamValidation,
+} from '../middleware';
+
+const router = express.Router();
+
+// Tokens are managed from a signed-in session, never with another token
+router.use(authenticate);
+router.use(requireSession);
+
+// List own tokens, or a service account's (PM)
+router.get('/', apiTokenOwnerValidation, apiTokenController.getTokens);
+
+// Create a token; the response is the only time it is shown
+router.post('/', createApiTokenValidation, apiTokenController.createToken);
+
+// Revoke a token
+router.delete('/:id', uuidParamValidation, apiTokenController.revokeToken);
+
+export default router;
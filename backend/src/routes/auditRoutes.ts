@@ -0,0 +1,51 @@
+import express from 'express';
+import * as auditController from '../controllers/auditController';
+import { authenticate, authorizePermission, paginationValidation } from '../middleware';
+import { query } from 'express-validator';
+import { handleValidation } from '../middleware/validate';
+
+const router = express.Router();
+
+// All routes require the account-wide audit.view permission
+router.use(authenticate);
+router.use(authorizePermission('audit.view'));
+
+// Get audit events with pagination and filters
+router.get(
+  '/',
+  [
+    ...paginationValidation,
+    query('action')
+      .optional()
+      .isIn(['create', 'update', 'delete'])
+      .withMessage('Action must be create, update, or delete'),
+    query('entity_type')
+      .optional()
+      .isIn(['test_case', 'bug', 'user', 'api_token', 'invitation', 'project', 'role'])
+      .withMessage('Entity type must be test_case, bug, user, api_token, invitation, project, or role'),
+    query('entity_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid entity ID'),
+    query('actor_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid actor ID'),
+    query('request_id')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('Request ID must be less than 100 characters'),
+    query('from')
+      .optional()
+      .isISO8601()
+      .withMessage('From must be a valid date'),
+    query('to')
+      .optional()
+      .isISO8601()
+      .withMessage('To must be a valid date'),
+    handleValidation,
+  ],
+  auditController.getAuditEvents
+);
+
+export default router;
@@ -0,0 +1,103 @@
+import express from 'express';
+import * as authController from '../controllers/authController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import {
+  authenticate,
+  requireSession,
+  authLimiter,
+  passwordResetLimiter,
+  verificationLimiter,
+  loginValidation,
+  loginTwoFactorValidation,
+  twoFactorCodeValidation,
+  disableTwoFactorValidation,
+  registerValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  acceptInvitationValidation,
+  verifyEmailValidation,
+} from '../middleware';
+import { body, param } from 'express-validator';
+import { handleValidation, newPasswordField } from '../middleware/validate';
+
+const router = express.Router();
+
+// Public routes with rate limiting
+router.post('/register', authLimiter, registerValidation, authController.register);
+router.post('/login', authLimiter, loginValidation, authController.login);
+router.post('/login/2fa', authLimiter, loginTwoFactorValidation, authController.loginTwoFactor);
+router.post('/verify-email', verifyEmailValidation, authController.verifyEmail);
+router.post(
+  '/resend-verification',
+  verificationLimiter,
+  forgotPasswordValidation,
+  authController.resendVerification
+);
+router.post(
+  '/forgot-password',
+  passwordResetLimiter,
+  forgotPasswordValidation,
+  authController.forgotPassword
+);
+router.post('/reset-password', resetPasswordValidation, authController.resetPassword);
+router.get('/invitations/:token', authController.getInvitation);
+router.post('/accept-invite', authLimiter, acceptInvitationValidation, authController.acceptInvitation);
+router.post('/refresh', authController.refresh);
+router.get('/sso', authController.getSsoConfig);
+router.get('/sso/login', authLimiter, authController.ssoLogin);
+router.get('/sso/callback', authController.ssoCallback);
+router.post('/logout', authController.logout);
+
+// Protected routes
+router.get('/me', authenticate, authController.getMe);
+router.get('/sessions', authenticate, requireSession, authController.getSessions);
+router.delete('/sessions', authenticate, requireSession, authController.revokeOtherSessions);
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  requireSession,
+  [param('id').isUUID().withMessage('Invalid session ID'), handleValidation],
+  authController.revokeSession
+);
+
+// Two-factor authentication
+router.get('/2fa', authenticate, requireSession, twoFactorController.getStatus);
+router.post('/2fa/setup', authenticate, requireSession, twoFactorController.startSetup);
+router.post(
+  '/2fa/enable',
+  authenticate,
+  requireSession,
+  authLimiter,
+  twoFactorCodeValidation,
+  twoFactorController.enable
+);
+router.post(
+  '/2fa/disable',
+  authenticate,
+  requireSession,
+  authLimiter,
+  disableTwoFactorValidation,
+  twoFactorController.disable
+);
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  requireSession,
+  authLimiter,
+  twoFactorCodeValidation,
+  twoFactorController.regenerateRecoveryCodes
+);
+
+router.put(
+  '/change-password',
+  authenticate,
+  requireSession,
+  [
+    body('currentPassword').notEmpty().withMessage('Current password is required'),
+    newPasswordField(body('newPassword')),
+    handleValidation,
+  ],
+  authController.changePassword
+);
+
+export default router;
@@ -0,0 +1,108 @@
+import express from 'express';
+import * as bugController from '../controllers/bugController';
+import {
+  authenticate,
+  resolveProject,
+  authorizePermission,
+  createBugValidation,
+  convertBugToTestValidation,
+  updateBugStatusValidation,
+  uuidParamValidation,
+  paginationValidation,
+  exportFormatValidation,
+} from '../middleware';
+import { query, body } from 'express-validator';
+import { handleValidation, textField, jamLinkField } from '../middleware/validate';
+import { BUG_STATUSES, BUG_SEVERITIES, MANUAL_BUG_STATUSES, FIELDS, oneOfMessage } from 'qualitysync-shared';
+
+const router = express.Router();
+
+// All routes require authentication and work in the current project
+router.use(authenticate);
+router.use(resolveProject);
+
+// Filters shared by the list and exports
+const bugFilterValidation = [
+  query('status')
+    .optional()
+    .isIn(BUG_STATUSES)
+    .withMessage(oneOfMessage('Status', BUG_STATUSES)),
+  query('severity')
+    .optional()
+    .isIn(BUG_SEVERITIES)
+    .withMessage(oneOfMessage('Severity', BUG_SEVERITIES)),
+  textField(query('module_platform').optional(), FIELDS.modulePlatform),
+  query('search')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Search term must be less than 255 characters'),
+];
+
+// Get all bugs with pagination and filters
+router.get(
+  '/',
+  [
+    ...paginationValidation,
+    ...bugFilterValidation,
+    handleValidation,
+  ],
+  bugController.getBugs
+);
+
+// Export bugs with the same filters as CSV, JSON or PDF
+router.get(
+  '/export',
+  [
+    ...bugFilterValidation,
+    ...exportFormatValidation,
+    handleValidation,
+  ],
+  bugController.exportBugs
+);
+
+// Get single bug
+router.get('/:id', uuidParamValidation, bugController.getBug);
+
+// Get status history of a bug
+router.get('/:id/history', uuidParamValidation, bugController.getBugHistory);
+
+// Create bug
+router.post('/', authorizePermission('bugs.create'), createBugValidation, bugController.createBug);
+
+// Update bug (PM or QA creator)
+router.put(
+  '/:id',
+  [
+    ...uuidParamValidation,
+    textField(body('module_platform').optional(), FIELDS.modulePlatform, { required: true }),
+    jamLinkField(body('jam_link').optional(), 'Jam link'),
+    textField(body('description').optional(), FIELDS.bugDescription, { required: true }),
+    textField(body('note').optional(), FIELDS.bugNote),
+    body('severity')
+      .optional()
+      .isIn(BUG_SEVERITIES)
+      .withMessage(oneOfMessage('Severity', BUG_SEVERITIES)),
+    body('status')
+      .optional()
+      .isIn(MANUAL_BUG_STATUSES)
+      .withMessage(oneOfMessage('Status', MANUAL_BUG_STATUSES)),
+    handleValidation,
+  ],
+  bugController.updateBug
+);
+
+// Move bug through its lifecycle (required permission depends on the transition)
+router.put('/:id/status', updateBugStatusValidation, bugController.updateBugStatus);
+
+// Convert bug to test case
+router.post(
+  '/:id/convert',
+  authorizePermission('bugs.convert'),
+  convertBugToTestValidation,
+  bugController.convertToTest
+);
+
+// Delete bug
+router.delete('/:id', authorizePermission('bugs.delete'), uuidParamValidation, bugController.deleteBug);
+
+export default router;
@@ -0,0 +1,33 @@
+import express from 'express';
+import * as commentController from '../controllers/commentController';
+import {
+  authenticate,
+  resolveProject,
+  getCommentsValidation,
+  createCommentValidation,
+  updateCommentValidation,
+  uuidParamValidation,
+} from '../middleware';
+
+const router = express.Router();
+
+// All routes require authentication and work in the current project
+router.use(authenticate);
+router.use(resolveProject);
+
+// Get the thread of a test case or bug
+router.get('/', getCommentsValidation, commentController.getComments);
+
+// Get users for @mention suggestions
+router.get('/mentionable', commentController.getMentionableUsers);
+
+// Comment on a test case or bug (anyone who can view it)
+router.post('/', createCommentValidation, commentController.createComment);
+
+// Edit comment (author only)
+router.put('/:id', updateCommentValidation, commentController.updateComment);
+
+// Delete comment (author or PM)
+router.delete('/:id', uuidParamValidation, commentController.deleteComment);
+
+export default router;
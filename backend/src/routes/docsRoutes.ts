@@ -0,0 +1,19 @@
+import express from 'express';
+import swaggerUi from 'swagger-ui-express';
+import openApiDocument from '../docs/openapi';
+
+const router = express.Router();
+
+// The OpenAPI document, for client generators and other tools
+router.get('/openapi.json', (_req, res) => {
+  res.json(openApiDocument);
+});
+
+// Interactive API reference
+router.use('/', swaggerUi.serve);
+router.get('/', swaggerUi.setup(openApiDocument, {
+  customSiteTitle: 'QualitySync API',
+  swaggerOptions: { persistAuthorization: true },
+}));
+
+export default router;
@@ -0,0 +1,10 @@
+import express from 'express';
+import * as eventController from '../controllers/eventController';
+import { authenticate, resolveProject } from '../middleware';
+
+const router = express.Router();
+
+// Live updates for the signed-in user in the current project
+router.get('/', authenticate, resolveProject, eventController.streamEvents);
+
+export default router;
@@ -0,0 +1,87 @@
+import express from 'express';
+
+import authRoutes from './authRoutes';
+import userRoutes from './userRoutes';
+import testRoutes from './testRoutes';
+import bugRoutes from './bugRoutes';
+import suiteRoutes from './suiteRoutes';
+import planRoutes from './planRoutes';
+import commentRoutes from './commentRoutes';
+import auditRoutes from './auditRoutes';
+import notificationRoutes from './notificationRoutes';
+import eventRoutes from './eventRoutes';
+import apiTokenRoutes from './apiTokenRoutes';
+import projectRoutes from './projectRoutes';
+import roleRoutes from './roleRoutes';
+import docsRoutes from './docsRoutes';
+import { supabaseAdmin } from '../config/supabase';
+
+const router = express.Router();
+
+// Health check
+router.get('/health', (_req, res) => {
+  res.json({
+    success: true,
+    message: 'QualitySync API is running',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Debug endpoint to test Supabase connection (development only)
+router.get('/debug/supabase', async (_req, res) => {
+  if (process.env.NODE_ENV === 'production') {
+    return res.status(404).json({ success: false, message: 'Not found' });
+  }
+
+  try {
+    // Try to count users to test connection
+    const { error, count } = await supabaseAdmin
+      .from('users')
+      .select('id', { count: 'exact', head: true });
+
+    if (error) {
+      return res.json({
+        success: false,
+        message: 'Supabase connection failed',
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Supabase connection successful',
+      userCount: count,
+    });
+  } catch (err) {
+    res.json({
+      success: false,
+      message: 'Exception testing Supabase',
+      error: (err as Error).message,
+    });
+  }
+});
+
+// Mount routes
+router.use('/auth', authRoutes);
+router.use('/users', userRoutes);
+router.use('/tests', testRoutes);
+router.use('/bugs', bugRoutes);
+router.use('/suites', suiteRoutes);
+router.use('/plans', planRoutes);
+router.use('/comments', commentRoutes);
+router.use('/audit', auditRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/events', eventRoutes);
+router.use('/tokens', apiTokenRoutes);
+router.use('/projects', projectRoutes);
+router.use('/roles', roleRoutes);
+
+// API reference
+router.use('/docs', docsRoutes);
+
+export default router;
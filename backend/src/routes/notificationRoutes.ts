@@ -0,0 +1,35 @@
+import express from 'express';
+import * as notificationController from '../controllers/notificationController';
+import { authenticate, paginationValidation, uuidParamValidation } from '../middleware';
+import { query } from 'express-validator';
+import { handleValidation } from '../middleware/validate';
+
+const router = express.Router();
+
+// All routes require authentication; users only ever see their own notifications
+router.use(authenticate);
+
+// Get notifications with pagination
+router.get(
+  '/',
+  [
+    ...paginationValidation,
+    query('unread')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('Unread must be true or false'),
+    handleValidation,
+  ],
+  notificationController.getNotifications
+);
+
+// Get unread count for the bell badge
+router.get('/unread-count', notificationController.getUnreadCount);
+
+// Mark all as read
+router.put('/read-all', notificationController.markAllAsRead);
+
+// Mark one as read
+router.put('/:id/read', uuidParamValidation, notificationController.markAsRead);
+
+export default router;
@@ -0,0 +1,67 @@
+import express from 'express';
+import * as planController from '../controllers/planController';
+import {
+  authenticate,
+  resolveProject,
+  authorizePermission,
+  createPlanValidation,
+  uuidParamValidation,
+} from '../middleware';
+import { body, query } from 'express-validator';
+import { handleValidation, textField } from '../middleware/validate';
+import { FIELDS } from 'qualitysync-shared';
+
+const router = express.Router();
+
+// All routes require the plans.manage permission in the current project
+router.use(authenticate);
+router.use(resolveProject);
+router.use(authorizePermission('plans.manage'));
+
+// Get all plans with progress
+router.get(
+  '/',
+  [
+    query('status')
+      .optional()
+      .isIn(['active', 'completed'])
+      .withMessage('Status must be active or completed'),
+    handleValidation,
+  ],
+  planController.getPlans
+);
+
+// Get single plan with its test cases
+router.get('/:id', uuidParamValidation, planController.getPlan);
+
+// Create plan from a suite
+router.post('/', createPlanValidation, planController.createPlan);
+
+// Update plan
+router.put(
+  '/:id',
+  [
+    ...uuidParamValidation,
+    textField(body('name').optional(), FIELDS.planName, { required: true }),
+    textField(body('release').optional(), FIELDS.release, { required: true }),
+    body('status')
+      .optional()
+      .isIn(['active', 'completed'])
+      .withMessage('Status must be active or completed'),
+    body('start_date')
+      .optional({ values: 'falsy' })
+      .isISO8601()
+      .withMessage('Start date must be a valid date'),
+    body('due_date')
+      .optional({ values: 'falsy' })
+      .isISO8601()
+      .withMessage('Due date must be a valid date'),
+    handleValidation,
+  ],
+  planController.updatePlan
+);
+
+// Delete plan
+router.delete('/:id', uuidParamValidation, planController.deletePlan);
+
+export default router;
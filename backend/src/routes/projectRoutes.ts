@@ -0,0 +1,56 @@
+import express from 'express';
+import * as projectController from '../controllers/projectController';
+import {
+  authenticate,
+  authorizePermission,
+  createProjectValidation,
+  projectMemberValidation,
+  uuidParamValidation,
+} from '../middleware';
+import { body, param } from 'express-validator';
+import { handleValidation, textField } from '../middleware/validate';
+import { FIELDS } from 'qualitysync-shared';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Get the projects of the signed-in user (all projects for project managers)
+router.get('/', projectController.getProjects);
+
+// Managing projects requires the account-wide projects.manage permission
+router.use(authorizePermission('projects.manage'));
+
+// Create project
+router.post('/', createProjectValidation, projectController.createProject);
+
+// Update project
+router.put(
+  '/:id',
+  [
+    ...uuidParamValidation,
+    textField(body('name').optional(), FIELDS.projectName),
+    textField(body('description').optional(), FIELDS.projectDescription),
+    handleValidation,
+  ],
+  projectController.updateProject
+);
+
+// Members and their roles in the project
+router.get('/:id/members', uuidParamValidation, projectController.getMembers);
+router.put('/:id/members/:userId', projectMemberValidation, projectController.setMember);
+router.delete(
+  '/:id/members/:userId',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid ID format'),
+    param('userId')
+      .isUUID()
+      .withMessage('Invalid user ID format'),
+    handleValidation,
+  ],
+  projectController.removeMember
+);
+
+export default router;
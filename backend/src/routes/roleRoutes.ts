@@ -0,0 +1,31 @@
+import express from 'express';
+import * as roleController from '../controllers/roleController';
+import {
+  authenticate,
+  authorizePermission,
+  createRoleValidation,
+  updateRoleValidation,
+  uuidParamValidation,
+} from '../middleware';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Get the permission catalog and the roles, for role pickers
+router.get('/permissions', roleController.getPermissions);
+router.get('/', roleController.getRoles);
+
+// Editing roles requires the account-wide roles.manage permission
+router.use(authorizePermission('roles.manage'));
+
+// Create role
+router.post('/', createRoleValidation, roleController.createRole);
+
+// Update role and its permissions
+router.put('/:id', updateRoleValidation, roleController.updateRole);
+
+// Delete role
+router.delete('/:id', uuidParamValidation, roleController.deleteRole);
+
+export default router;
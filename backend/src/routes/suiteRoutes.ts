@@ -0,0 +1,62 @@
+import express from 'express';
+import * as suiteController from '../controllers/suiteController';
+import {
+  authenticate,
+  resolveProject,
+  authorizePermission,
+  createSuiteValidation,
+  uuidParamValidation,
+} from '../middleware';
+import { body, query } from 'express-validator';
+import { handleValidation, textField } from '../middleware/validate';
+import { FIELDS } from 'qualitysync-shared';
+
+const router = express.Router();
+
+// All routes require the suites.manage permission in the current project
+router.use(authenticate);
+router.use(resolveProject);
+router.use(authorizePermission('suites.manage'));
+
+// Get all suites
+router.get(
+  '/',
+  [
+    query('search')
+      .optional()
+      .isLength({ max: 255 })
+      .withMessage('Search term must be less than 255 characters'),
+    handleValidation,
+  ],
+  suiteController.getSuites
+);
+
+// Get single suite with its test cases
+router.get('/:id', uuidParamValidation, suiteController.getSuite);
+
+// Create suite
+router.post('/', createSuiteValidation, suiteController.createSuite);
+
+// Update suite
+router.put(
+  '/:id',
+  [
+    ...uuidParamValidation,
+    textField(body('name').optional(), FIELDS.suiteName, { required: true }),
+    textField(body('description').optional(), FIELDS.suiteDescription),
+    body('test_case_ids')
+      .optional()
+      .isArray({ max: 1000 })
+      .withMessage('Test case IDs must be an array'),
+    body('test_case_ids.*')
+      .isUUID()
+      .withMessage('Each test case ID must be a valid ID'),
+    handleValidation,
+  ],
+  suiteController.updateSuite
+);
+
+// Delete suite
+router.delete('/:id', uuidParamValidation, suiteController.deleteSuite);
+
+export default router;
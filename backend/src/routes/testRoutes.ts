@@ -0,0 +1,151 @@
+import express from 'express';
+import * as testController from '../controllers/testController';
+import {
+  authenticate,
+  resolveProject,
+  authorizePermission,
+  createTestValidation,
+  importTestsValidation,
+  ingestTestResultsValidation,
+  spreadsheetUpload,
+  testReportUpload,
+  updateTestResultValidation,
+  markTestFixedValidation,
+  testStepsValidation,
+  uuidParamValidation,
+  paginationValidation,
+  exportFormatValidation,
+} from '../middleware';
+import { query, body } from 'express-validator';
+import { handleValidation, textField, jamLinkField } from '../middleware/validate';
+import { TEST_STATUSES, FIELDS, oneOfMessage } from 'qualitysync-shared';
+
+const router = express.Router();
+
+// All routes require authentication and work in the current project
+router.use(authenticate);
+router.use(resolveProject);
+
+// Get dashboard stats
+router.get('/stats', authorizePermission('tests.stats'), testController.getStats);
+
+// Filters shared by the list and exports
+const testFilterValidation = [
+  query('status')
+    .optional()
+    .isIn(TEST_STATUSES)
+    .withMessage(oneOfMessage('Status', TEST_STATUSES)),
+  textField(query('module_platform').optional(), FIELDS.modulePlatform),
+  query('origin')
+    .optional()
+    .isIn(['manual', 'automated'])
+    .withMessage('Origin must be manual or automated'),
+  query('search')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Search term must be less than 255 characters'),
+  query('suite_id')
+    .optional()
+    .isUUID()
+    .withMessage('Suite ID must be a valid ID'),
+];
+
+// Get all tests with pagination and filters
+router.get(
+  '/',
+  [
+    ...paginationValidation,
+    ...testFilterValidation,
+    handleValidation,
+  ],
+  testController.getTests
+);
+
+// Export tests with the same filters as CSV, JSON or PDF
+router.get(
+  '/export',
+  [
+    ...testFilterValidation,
+    ...exportFormatValidation,
+    handleValidation,
+  ],
+  testController.exportTests
+);
+
+// Get single test
+router.get('/:id', uuidParamValidation, testController.getTest);
+
+// Get execution history of a test
+router.get('/:id/runs', uuidParamValidation, testController.getTestRuns);
+
+// Create test
+router.post('/', authorizePermission('tests.create'), createTestValidation, testController.createTest);
+
+// Import tests from a CSV or Excel file, or preview the import
+router.post(
+  '/import',
+  authorizePermission('tests.import'),
+  spreadsheetUpload,
+  importTestsValidation,
+  testController.importTests
+);
+
+// Record automated results from a JUnit XML or JSON report
+router.post(
+  '/ingest',
+  authorizePermission('tests.ingest'),
+  testReportUpload,
+  ingestTestResultsValidation,
+  testController.ingestTestResults
+);
+
+// Update test result
+router.put(
+  '/:id/result',
+  authorizePermission('tests.execute'),
+  updateTestResultValidation,
+  testController.updateTestResult
+);
+
+// Claim a failed test for fixing
+router.put('/:id/claim', authorizePermission('tests.fix'), uuidParamValidation, testController.claimTestFix);
+
+// Mark a claimed test as fixed
+router.put('/:id/fixed', authorizePermission('tests.fix'), markTestFixedValidation, testController.markTestFixed);
+
+// Update test, or only reassign it with tests.assign
+router.put(
+  '/:id',
+  authorizePermission('tests.update', 'tests.assign'),
+  [
+    ...uuidParamValidation,
+    textField(body('module_platform').optional(), FIELDS.modulePlatform, { required: true }),
+    textField(body('test_case').optional(), FIELDS.testCase, { required: true }),
+    textField(body('expected_result').optional(), FIELDS.expectedResult, { required: true }),
+    jamLinkField(body('evidence_url').optional({ values: 'falsy' }), 'Evidence URL'),
+    body('assigned_to')
+      .optional()
+      .isUUID()
+      .withMessage('Assigned tester must be a valid user ID'),
+    body('external_key')
+      .optional({ values: 'null' })
+      .isLength({ min: 1, max: 500 })
+      .withMessage('External key must be between 1 and 500 characters')
+      .trim(),
+    body('suite_ids')
+      .optional()
+      .isArray()
+      .withMessage('Suite IDs must be an array'),
+    body('suite_ids.*')
+      .isUUID()
+      .withMessage('Each suite ID must be a valid ID'),
+    ...testStepsValidation,
+    handleValidation,
+  ],
+  testController.updateTest
+);
+
+// Delete test
+router.delete('/:id', authorizePermission('tests.delete'), uuidParamValidation, testController.deleteTest);
+
+export default router;
@@ -0,0 +1,93 @@
+import express from 'express';
+import * as userController from '../controllers/userController';
+import * as invitationController from '../controllers/invitationController';
+import {
+  authenticate,
+  authorizePermission,
+  resolveProject,
+  createUserValidation,
+  inviteUserValidation,
+  uuidParamValidation,
+  paginationValidation,
+} from '../middleware';
+import { body, query } from 'express-validator';
+import { handleValidation, textField, roleField } from '../middleware/validate';
+import { FIELDS } from 'qualitysync-shared';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Get QA testers of the current project for dropdowns
+router.get('/qa-testers', resolveProject, authorizePermission('tests.assign'), userController.getQATesters);
+
+// All other routes require the account-wide users.manage permission
+router.use(authorizePermission('users.manage'));
+
+// Get all users with pagination
+router.get(
+  '/',
+  [
+    ...paginationValidation,
+    roleField(query('role').optional()),
+    query('search')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('Search term must be less than 100 characters'),
+    query('service_account')
+      .optional()
+      .isIn(['true', 'false'])
+      .withMessage('Service account must be true or false'),
+    handleValidation,
+  ],
+  userController.getUsers
+);
+
+// Invitations
+router.get('/invitations', invitationController.getInvitations);
+router.post('/invite', inviteUserValidation, invitationController.inviteUser);
+router.post('/invitations/:id/resend', uuidParamValidation, invitationController.resendInvitation);
+router.delete('/invitations/:id', uuidParamValidation, invitationController.revokeInvitation);
+
+// Get single user
+router.get('/:id', uuidParamValidation, userController.getUser);
+
+// Create service account
+router.post('/', createUserValidation, userController.createUser);
+
+// Update user
+router.put(
+  '/:id',
+  [
+    ...uuidParamValidation,
+    textField(body('name').optional(), FIELDS.personName),
+    roleField(body('role').optional()),
+    body('role_id')
+      .optional()
+      .isUUID()
+      .withMessage('Role must be a valid role ID'),
+    handleValidation,
+  ],
+  userController.updateUser
+);
+
+// Sign-in history and lockout
+router.get(
+  '/:id/login-history',
+  [
+    ...uuidParamValidation,
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 200 })
+      .withMessage('Limit must be between 1 and 200')
+      .toInt(),
+    handleValidation,
+  ],
+  userController.getLoginHistory
+);
+router.post('/:id/unlock', uuidParamValidation, userController.unlockUser);
+
+// Delete user
+router.delete('/:id', uuidParamValidation, userController.deleteUser);
+
+export default router;
@@ -1,12 +1,14 @@
-const express = require('express');
-const cors = require('cors');
-const helmet = require('helmet');
-const config = require('./config');
-const routes = require('./routes');
-const { apiLimiter, notFound, errorHandler } = require('./middleware');
-const logger = require('./utils/logger');
-const fs = require('fs');
-const path = require('path');
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import cookieParser from 'cookie-parser';
+import config from './config';
+import routes from './routes';
+import { apiLimiter, notFound, errorHandler, requestId } from './middleware';
+import * as realtimeService from './services/realtimeService';
+import logger from './utils/logger';
+import fs from 'fs';
+import path from 'path';
 
 // Ensure logs directory exists
 const logsDir = path.join(__dirname, '../logs');
@@ -37,19 +39,24 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id', 'X-Project-Id'],
+  exposedHeaders: ['X-Request-Id'],
 }));
 
 // Body parsing
 app.use(express.json({ limit: '10kb' }));
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
+app.use(cookieParser());
+
+// Request ids for tracing and the audit log
+app.use(requestId);
 
 // Request logging
 app.use((req, res, next) => {
   const start = Date.now();
   res.on('finish', () => {
     const duration = Date.now() - start;
-    logger.http(`${req.method} ${req.originalUrl} ${res.statusCode} - ${duration}ms`);
+    logger.http(`${req.method} ${req.originalUrl} ${res.statusCode} - ${duration}ms`, { requestId: req.id });
   });
   next();
 });
@@ -61,12 +68,12 @@ app.use('/api', apiLimiter);
 app.use('/api', routes);
 
 // Root endpoint
-app.get('/', (req, res) => {
+app.get('/', (_req, res) => {
   res.json({
     success: true,
     message: 'QualitySync API',
     version: '1.0.0',
-    documentation: '/api/health',
+    documentation: '/api/docs',
   });
 });
 
@@ -94,8 +101,12 @@ const server = app.listen(PORT, () => {
 });
 
 // Graceful shutdown
-const gracefulShutdown = (signal) => {
+const gracefulShutdown = (signal: NodeJS.Signals) => {
   logger.info(`${signal} received. Shutting down gracefully...`);
+
+  // Live event streams never end on their own
+  realtimeService.closeAll();
+
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -122,4 +133,4 @@ process.on('uncaughtException', (error) => {
   process.exit(1);
 });
 
-module.exports = app;
+export default app;
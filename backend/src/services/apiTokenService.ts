@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { apiTokenRepository } from '../repositories';
+import type { ApiToken, ApiTokenScope, ValidatedRequest } from '../types';
+
+interface ApiTokenInput {
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: string | null;
+  createdBy: string;
+}
+
+// Marks a bearer token as an API token rather than a session JWT
+const TOKEN_PREFIX = 'qs_';
+
+// Scope needed to change data under each router, by mount path
+const WRITE_SCOPES: Record<string, ApiTokenScope> = {
+  '/api/tests': 'tests:write',
+  '/api/bugs': 'bugs:write',
+};
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// last_used_at is only written once per interval, not on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Token columns returned to clients, never the hash
+const TOKEN_LISTING = {
+  fields: 'id, user_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at',
+  with: ['creator'],
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const isApiToken = (token: string) => token.startsWith(TOKEN_PREFIX);
+
+/**
+ * Create a token for a user. The plain token is only returned here.
+ */
+async function createToken({ userId, name, scopes, expiresAt = null, createdBy }: ApiTokenInput) {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const record = await apiTokenRepository.create({
+    user_id: userId,
+    name,
+    token_prefix: token.slice(0, 10),
+    token_hash: hashToken(token),
+    // Every token can read, write scopes add to that
+    scopes: [...new Set<ApiTokenScope>(['read', ...scopes])],
+    expires_at: expiresAt,
+    created_by: createdBy,
+  }, TOKEN_LISTING);
+
+  return { token, record };
+}
+
+/**
+ * Tokens of a user, newest first, including revoked and expired ones
+ */
+async function getTokens(userId: string) {
+  return apiTokenRepository.findMany({ userId }, { ...TOKEN_LISTING, sort: 'created_at' });
+}
+
+async function getToken(id: string) {
+  return apiTokenRepository.findById(id, TOKEN_LISTING);
+}
+
+async function revokeToken(id: string) {
+  try {
+    return await apiTokenRepository.update(id, { revoked_at: new Date().toISOString() }, {
+      ...TOKEN_LISTING,
+      match: { revoked_at: null },
+    });
+  } catch {
+    throw new Error('Failed to revoke API token');
+  }
+}
+
+/**
+ * Look up an API token presented as a bearer token. Returns the token with
+ * its user, or null when it is unknown, revoked or expired.
+ */
+async function findActiveToken(token: string) {
+  const data = await apiTokenRepository.findByHash(hashToken(token), {
+    fields: 'id, scopes, expires_at, last_used_at, revoked_at',
+    with: ['user'],
+  }).catch(() => null);
+
+  if (!data || data.revoked_at || (data.expires_at && new Date(data.expires_at) <= new Date())) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Record that a token was used. Failures only get logged.
+ */
+async function touchToken(apiToken: Pick<ApiToken, 'id' | 'last_used_at'>) {
+  if (apiToken.last_used_at && Date.now() - new Date(apiToken.last_used_at).getTime() < LAST_USED_INTERVAL_MS) {
+    return;
+  }
+
+  await apiTokenRepository.update(apiToken.id, { last_used_at: new Date().toISOString() }).catch(() => null);
+}
+
+/**
+ * Whether a token with these scopes may make the request. Reads are always
+ * allowed; changes need the write scope of the API area and are refused in
+ * areas without one.
+ */
+function allowsRequest(scopes: ApiTokenScope[], req: ValidatedRequest) {
+  if (SAFE_METHODS.includes(req.method)) return true;
+
+  const scope = WRITE_SCOPES[req.baseUrl];
+  return Boolean(scope) && scopes.includes(scope);
+}
+
+export {
+  isApiToken,
+  createToken,
+  getTokens,
+  getToken,
+  revokeToken,
+  findActiveToken,
+  touchToken,
+  allowsRequest,
+};
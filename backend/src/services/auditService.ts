@@ -0,0 +1,84 @@
+import { auditRepository } from '../repositories';
+import type { AuditAction, AuditEntityType, AuthenticatedRequest, ValidatedRequest } from '../types';
+
+// A row as it was before or after a change, null when there is none
+type Snapshot = object | null | undefined;
+
+interface AuditEventInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: Snapshot;
+  after?: Snapshot;
+}
+
+// Never copied into the audit log
+const REDACTED_FIELDS = [
+  'password_hash',
+  'verification_token',
+  'verification_token_expires',
+  'reset_password_token',
+  'reset_password_expires',
+  'token_hash',
+  'totp_secret',
+  'totp_last_step',
+];
+
+// Maintained by the database, not by the caller
+const IGNORED_FIELDS = ['created_at', 'updated_at'];
+
+const isEmbedded = (value: unknown) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Field-level difference between two snapshots of an entity.
+ * Embedded relations (e.g. `assignee`) are skipped; on update only fields
+ * present in both snapshots are compared.
+ */
+function diffSnapshots(before: Snapshot, after: Snapshot) {
+  const keys = before && after
+    ? Object.keys(after).filter((key) => key in before)
+    : Object.keys(before || after || {});
+
+  return keys
+    .filter((key) => !REDACTED_FIELDS.includes(key) && !IGNORED_FIELDS.includes(key))
+    .reduce((changes, key) => {
+      const from = before ? (before as Record<string, unknown>)[key] ?? null : null;
+      const to = after ? (after as Record<string, unknown>)[key] ?? null : null;
+
+      if (isEmbedded(from) || isEmbedded(to) || JSON.stringify(from) === JSON.stringify(to)) {
+        return changes;
+      }
+
+      return { ...changes, [key]: { from, to } };
+    }, {} as Record<string, { from: unknown; to: unknown }>);
+}
+
+/**
+ * Persist an audit event for a mutating request.
+ * Failures are logged and swallowed so they never undo the change itself.
+ */
+async function recordAuditEvent(req: ValidatedRequest, { action, entityType, entityId, before = null, after = null }: AuditEventInput) {
+  const { user } = req as Partial<AuthenticatedRequest>;
+  const changes = diffSnapshots(before, after);
+
+  // Nothing changed, nothing to audit
+  if (action === 'update' && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await auditRepository.create({
+    actor_id: user?.id || null,
+    actor_name: user?.name || null,
+    actor_role: user?.role || null,
+    action,
+    entity_type: entityType,
+    entity_id: entityId,
+    changes,
+    request_id: req.id || null,
+  }).catch(() => undefined);
+}
+
+export {
+  diffSnapshots,
+  recordAuditEvent,
+};
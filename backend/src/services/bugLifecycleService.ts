@@ -0,0 +1,85 @@
+import { bugHistoryRepository } from '../repositories';
+import type { BugStatus, Permission } from '../types';
+
+/**
+ * Allowed bug status transitions and the permission each one requires.
+ * Engineers work the bug, QA verifies the fix, PM reopens or converts it.
+ */
+const BUG_TRANSITIONS: Record<BugStatus, Partial<Record<BugStatus, Permission>>> = {
+  open: {
+    in_progress: 'bugs.fix',
+    resolved: 'bugs.fix',
+    converted_to_test: 'bugs.convert',
+  },
+  in_progress: {
+    resolved: 'bugs.fix',
+    converted_to_test: 'bugs.convert',
+  },
+  resolved: {
+    closed: 'bugs.close',
+    in_progress: 'bugs.close',
+    open: 'bugs.reopen',
+    converted_to_test: 'bugs.convert',
+  },
+  closed: {
+    open: 'bugs.reopen',
+  },
+  converted_to_test: {},
+};
+
+/**
+ * Statuses a user with the given permissions can move a bug to from its
+ * current status.
+ */
+function getAllowedTransitions(fromStatus: BugStatus, permissions: Permission[]) {
+  const targets = BUG_TRANSITIONS[fromStatus] || {};
+  return (Object.keys(targets) as BugStatus[]).filter((toStatus) => permissions.includes(targets[toStatus]!));
+}
+
+/**
+ * Whether the transition exists at all, regardless of permissions.
+ */
+function isKnownTransition(fromStatus: BugStatus, toStatus: BugStatus) {
+  return Boolean(BUG_TRANSITIONS[fromStatus] && BUG_TRANSITIONS[fromStatus][toStatus]);
+}
+
+/**
+ * Append a status change to the bug history.
+ * Failures are logged and swallowed so they never undo the change itself.
+ */
+async function recordStatusChange(
+  bugId: string,
+  fromStatus: BugStatus | null,
+  toStatus: BugStatus,
+  changedBy: string,
+  note: string | null = null
+) {
+  await bugHistoryRepository.create({
+    bug_id: bugId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    changed_by: changedBy,
+    note: note || null,
+  }).catch(() => undefined);
+}
+
+/**
+ * Most recent status change of a bug, or null if none was recorded.
+ */
+async function getLastStatusChange(bugId: string) {
+  const history = await bugHistoryRepository.findMany(bugId, {
+    fields: 'from_status, to_status, changed_by, created_at',
+    sort: 'created_at',
+    limit: 1,
+  }).catch(() => []);
+
+  return history[0] || null;
+}
+
+export {
+  BUG_TRANSITIONS,
+  getAllowedTransitions,
+  isKnownTransition,
+  recordStatusChange,
+  getLastStatusChange,
+};
@@ -0,0 +1,254 @@
+import path from 'path';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import config from '../config';
+import { userRepository } from '../repositories';
+import logger from '../utils/logger';
+
+type ResultStatus = 'pass' | 'fail' | 'skip';
+
+// The result of one test in a report
+export interface TestResult {
+  key: string;
+  name: string;
+  module: string | null;
+  status: ResultStatus;
+  duration_seconds: number | null;
+  message: string | null;
+}
+
+// Elements of a JUnit report, as the XML parser returns them
+type JUnitFailure = string | { '@_message'?: string; '#text'?: string };
+
+interface JUnitTestCase {
+  '@_name'?: string;
+  '@_classname'?: string;
+  '@_time'?: string;
+  failure?: JUnitFailure[];
+  error?: JUnitFailure[];
+  skipped?: unknown[];
+}
+
+interface JUnitSuite {
+  '@_name'?: string;
+  testcase?: JUnitTestCase[];
+  testsuite?: JUnitSuite[];
+}
+
+const MAX_RESULTS = 2000;
+const MAX_KEY_LENGTH = 500;
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Outcome spellings accepted in JSON reports
+const JSON_STATUSES: Record<string, ResultStatus> = {
+  pass: 'pass',
+  passed: 'pass',
+  success: 'pass',
+  fail: 'fail',
+  failed: 'fail',
+  failure: 'fail',
+  error: 'fail',
+  skip: 'skip',
+  skipped: 'skip',
+  pending: 'skip',
+};
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: false,
+  isArray: (name) => ['testsuite', 'testcase', 'failure', 'error', 'skipped'].includes(name),
+});
+
+const truncate = (value: unknown, length: number) => {
+  if (!value) return null;
+  const text = String(value).trim();
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text || null;
+};
+
+const toSeconds = (value: unknown) => {
+  const seconds = Number.parseFloat(String(value));
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+// <failure message="...">stack trace</failure>, either of which may be missing
+const failureMessage = (failure: JUnitFailure) => {
+  if (typeof failure !== 'object' || failure === null) return failure || null;
+  return [failure['@_message'], failure['#text']].filter(Boolean).join('\n') || null;
+};
+
+/**
+ * Flatten nested <testsuites>/<testsuite> elements into their test cases,
+ * remembering the name of the innermost suite of each.
+ */
+const collectTestCases = (
+  suites: JUnitSuite[] | undefined,
+  parentName: string | null = null,
+  cases: { suiteName: string | null; testCase: JUnitTestCase }[] = []
+) => {
+  for (const suite of suites || []) {
+    const suiteName = suite['@_name'] || parentName;
+
+    for (const testCase of suite.testcase || []) {
+      cases.push({ suiteName, testCase });
+    }
+
+    collectTestCases(suite.testsuite, suiteName, cases);
+  }
+
+  return cases;
+};
+
+const parseJUnit = (buffer: Buffer): TestResult[] => {
+  const xml = buffer.toString('utf8');
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    throw new Error(`invalid XML on line ${validation.err.line}: ${validation.err.msg}`);
+  }
+
+  const document = xmlParser.parse(xml);
+  const root: JUnitSuite = document.testsuites || { testsuite: document.testsuite };
+
+  if (!root.testsuite) {
+    throw new Error('the file has no <testsuite> element');
+  }
+
+  return collectTestCases(root.testsuite).map(({ suiteName, testCase }) => {
+    const name = testCase['@_name'] || '';
+    const className = testCase['@_classname'] || '';
+    const failures = [...(testCase.failure || []), ...(testCase.error || [])];
+
+    let status: ResultStatus = 'pass';
+    if (failures.length > 0) status = 'fail';
+    else if (testCase.skipped) status = 'skip';
+
+    return {
+      key: className ? `${className}.${name}` : name,
+      name,
+      module: suiteName || className || null,
+      status,
+      duration_seconds: toSeconds(testCase['@_time']),
+      message: failures.map(failureMessage).filter(Boolean).join('\n\n') || null,
+    };
+  });
+};
+
+/**
+ * Simple JSON format for runners without JUnit output:
+ * { "module_platform": "Checkout", "results": [{ "key", "name", "status", "duration", "message" }] }
+ */
+const parseJson = (buffer: Buffer): TestResult[] => {
+  const report = JSON.parse(buffer.toString('utf8'));
+  const results = Array.isArray(report) ? report : report?.results;
+
+  if (!Array.isArray(results)) {
+    throw new Error('the report must have a "results" array');
+  }
+
+  return results.map((result, index): TestResult => {
+    const status = JSON_STATUSES[String(result?.status || '').toLowerCase()];
+    if (!result?.key || !status) {
+      throw new Error(`result ${index + 1} needs a key and a status of passed, failed or skipped`);
+    }
+
+    return {
+      key: String(result.key),
+      name: result.name ? String(result.name) : String(result.key),
+      module: result.module_platform || report.module_platform || null,
+      status,
+      duration_seconds: toSeconds(result.duration),
+      message: result.message ? String(result.message) : null,
+    };
+  });
+};
+
+const normalizeKey = (key: string) => key.normalize('NFC').trim();
+
+/**
+ * Combine results reported more than once under the same key, as
+ * parameterised tests often are. Any failure fails the combined result.
+ */
+const mergeDuplicates = (results: TestResult[]) => {
+  const byKey = new Map<string, TestResult>();
+
+  for (const result of results) {
+    const existing = byKey.get(result.key);
+    if (!existing) {
+      byKey.set(result.key, { ...result });
+      continue;
+    }
+
+    if (result.status === 'fail' || (result.status === 'pass' && existing.status === 'skip')) {
+      existing.status = result.status;
+    }
+    if (result.duration_seconds !== null) {
+      existing.duration_seconds = (existing.duration_seconds || 0) + result.duration_seconds;
+    }
+    existing.message = [existing.message, result.message].filter(Boolean).join('\n\n') || null;
+  }
+
+  return [...byKey.values()];
+};
+
+/**
+ * Read an uploaded JUnit XML or JSON report into one result per test,
+ * each with an external key, a status of pass, fail or skip, the duration
+ * and the failure message.
+ */
+function parseTestReport(file: Express.Multer.File) {
+  let results;
+  try {
+    results = path.extname(file.originalname).toLowerCase() === '.json'
+      ? parseJson(file.buffer)
+      : parseJUnit(file.buffer);
+  } catch (err) {
+    logger.warn('Failed to parse test report', { fileName: file.originalname, error: (err as Error).message });
+    throw new Error(`Could not read the report: ${(err as Error).message}`);
+  }
+
+  if (results.length === 0) {
+    throw new Error('The report has no test results');
+  }
+
+  if (results.length > MAX_RESULTS) {
+    throw new Error(`A report can contain at most ${MAX_RESULTS} results`);
+  }
+
+  // Keys that differ only in surrounding whitespace or Unicode form are the
+  // same test, so they are normalized before duplicates are combined
+  results = results.map((result) => ({ ...result, key: normalizeKey(result.key) }));
+
+  const invalid = results.find((result) => !result.key || result.key.length > MAX_KEY_LENGTH);
+  if (invalid) {
+    throw new Error(`Every test needs a name and its key must be at most ${MAX_KEY_LENGTH} characters`);
+  }
+
+  return mergeDuplicates(results).map((result) => ({
+    ...result,
+    duration_seconds: result.duration_seconds === null ? null : Math.round(result.duration_seconds),
+    name: truncate(result.name, MAX_MESSAGE_LENGTH) || result.key,
+    module: truncate(result.module, 255),
+    message: truncate(result.message, MAX_MESSAGE_LENGTH),
+  }));
+}
+
+/**
+ * The service account automated results are recorded as
+ */
+async function getServiceAccount() {
+  const account = await userRepository.findOne(
+    { email: config.ci.serviceAccountEmail, isServiceAccount: true },
+    { fields: 'id, email, name, role' }
+  );
+
+  if (!account) {
+    logger.error('CI service account not found', { email: config.ci.serviceAccountEmail });
+    throw new Error('The CI service account is not set up');
+  }
+
+  return account;
+}
+
+export {
+  parseTestReport,
+  getServiceAccount,
+};
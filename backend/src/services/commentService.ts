@@ -0,0 +1,78 @@
+import { commentRepository, projectRepository } from '../repositories';
+import type { MentionableUser, ProjectMemberRow } from '../types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Members of a project that can be @mentioned, with their role in the
+ * project, in name order.
+ */
+async function getMentionableUsers(projectId: string) {
+  let members: ProjectMemberRow[];
+  try {
+    members = await projectRepository.findMembers({ projectId }, { fields: 'role', with: ['user'] });
+  } catch {
+    throw new Error('Failed to fetch users');
+  }
+
+  return members
+    .map(({ role, user }) => ({ role, user: user! }))
+    .filter(({ user }) => !user.is_service_account)
+    .map(({ role, user: { id, name, email } }) => ({ id, name, email, role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Resolve `@Full Name` mentions in a comment body against the given users.
+ * Longer names are matched first so "@Ann Lee" never also counts as "@Ann".
+ */
+function extractMentions<T extends MentionableUser>(body: string | null | undefined, users: T[]) {
+  if (!body || !body.includes('@')) {
+    return [];
+  }
+
+  let remaining = body;
+  const mentioned: T[] = [];
+
+  [...users]
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach((user) => {
+      const pattern = new RegExp(`@${escapeRegExp(user.name)}(?![\\w])`, 'gi');
+      if (remaining.search(pattern) !== -1) {
+        mentioned.push(user);
+        remaining = remaining.replace(pattern, ' ');
+      }
+    });
+
+  return mentioned;
+}
+
+/**
+ * Replace the mentions stored for a comment.
+ * Returns the ids of users that were not mentioned before.
+ */
+async function setCommentMentions(commentId: string, userIds: string[]) {
+  try {
+    const previous = new Set(await commentRepository.findMentionedIds(commentId));
+    const added = userIds.filter((userId) => !previous.has(userId));
+    const removed = [...previous].filter((userId) => !userIds.includes(userId));
+
+    if (removed.length > 0) {
+      await commentRepository.removeMentions(commentId, removed);
+    }
+
+    if (added.length > 0) {
+      await commentRepository.addMentions(commentId, added);
+    }
+
+    return added;
+  } catch {
+    throw new Error('Failed to update comment mentions');
+  }
+}
+
+export {
+  getMentionableUsers,
+  extractMentions,
+  setCommentMentions,
+};
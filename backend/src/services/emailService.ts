@@ -0,0 +1,479 @@
+import { Resend } from 'resend';
+import config from '../config';
+import logger from '../utils/logger';
+import type { TestCase, UserRole } from '../types';
+
+type EmailTestCase = Pick<TestCase, 'module_platform' | 'test_case' | 'expected_result'>;
+
+interface RetestFix {
+  fixed_by: string;
+  fix_reference: string;
+  fix_notes?: string | null;
+}
+
+interface SignInDevice {
+  userAgent: string | null;
+  ipAddress: string | null;
+  time: Date;
+}
+
+interface Mention {
+  author_name: string;
+  target_label: string;
+  target_title: string;
+  body: string;
+  url: string;
+}
+
+const resend = new Resend(config.email.resendApiKey);
+
+const escapeHtml = (value: unknown) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Send verification email to new user
+ */
+async function sendVerificationEmail(email: string, name: string, token: string) {
+  const verificationUrl = `${config.frontendUrl}/verify-email?token=${token}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'Verify your QualitySync account',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">Welcome, ${name}!</h2>
+            <p>Thank you for signing up for QualitySync. Please verify your email address to get started.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${verificationUrl}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Verify Email Address</a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">This link will expire in 24 hours.</p>
+            <p style="color: #6b7280; font-size: 14px;">If you didn't create an account, you can safely ignore this email.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send verification email', { email, error });
+      throw new Error('Failed to send verification email');
+    }
+
+    logger.info('Verification email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Send password reset email
+ */
+async function sendPasswordResetEmail(email: string, name: string, token: string) {
+  const resetUrl = `${config.frontendUrl}/reset-password?token=${token}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'Reset your QualitySync password',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">Password Reset Request</h2>
+            <p>Hi ${name},</p>
+            <p>We received a request to reset your password. Click the button below to create a new password:</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${resetUrl}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Reset Password</a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">This link will expire in 1 hour.</p>
+            <p style="color: #6b7280; font-size: 14px;">If you didn't request a password reset, you can safely ignore this email. Your password will remain unchanged.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send password reset email', { email, error });
+      throw new Error('Failed to send password reset email');
+    }
+
+    logger.info('Password reset email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Send welcome email once an account is verified
+ */
+async function sendWelcomeEmail(email: string, name: string, role: UserRole) {
+  const roleDescriptions: Record<UserRole, string> = {
+    PM: 'As a Product Manager, you can create and manage test cases, view test results, and convert bugs into test cases.',
+    QA: 'As a QA Tester, you can view and execute your assigned test cases, and report unlisted bugs.',
+    ENG: 'As an Engineer, you can claim and fix failed and escalated tests, and access unlisted bug reports.',
+  };
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'Welcome to QualitySync!',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">Your account is verified!</h2>
+            <p>Hi ${name},</p>
+            <p>Your email has been verified and your account is now active.</p>
+            <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Your Role:</strong> ${role}</p>
+              <p style="margin: 10px 0 0 0; color: #6b7280;">${roleDescriptions[role]}</p>
+            </div>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${config.frontendUrl}/login" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Go to Dashboard</a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send welcome email', { email, error });
+      throw new Error('Failed to send welcome email');
+    }
+
+    logger.info('Welcome email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Send an invitation to join QualitySync with a link to set a password
+ */
+async function sendInvitationEmail(
+  email: string,
+  name: string,
+  role: UserRole,
+  inviterName: string,
+  token: string,
+  expiresAt: string | Date
+) {
+  const roleNames: Record<UserRole, string> = { PM: 'Product Manager', QA: 'QA Tester', ENG: 'Engineer' };
+  const inviteUrl = `${config.frontendUrl}/accept-invite?token=${token}`;
+  const expiresOn = new Date(expiresAt).toUTCString().slice(0, 16);
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: `${inviterName} invited you to QualitySync`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">You're invited!</h2>
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>${escapeHtml(inviterName)} invited you to join QualitySync as a <strong>${roleNames[role]}</strong>.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${inviteUrl}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Accept Invitation</a>
+            </div>
+            <p style="color: #6b7280; font-size: 14px;">You will choose your own password. This link expires on ${expiresOn}.</p>
+            <p style="color: #6b7280; font-size: 14px;">If you weren't expecting this invitation, you can safely ignore this email.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send invitation email', { email, error });
+      throw new Error('Failed to send invitation email');
+    }
+
+    logger.info('Invitation email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Alert a user that their account was signed in to from a new device
+ */
+async function sendNewDeviceLoginEmail(email: string, name: string, { userAgent, ipAddress, time }: SignInDevice) {
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'New sign-in to your QualitySync account',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">New sign-in detected</h2>
+            <p>Hi ${escapeHtml(name)},</p>
+            <p>Your account was just signed in to from a device you haven't used before.</p>
+            <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Time:</strong> ${time.toUTCString()}</p>
+              <p style="margin: 10px 0 0 0;"><strong>IP address:</strong> ${escapeHtml(ipAddress || 'Unknown')}</p>
+              <p style="margin: 10px 0 0 0;"><strong>Device:</strong> ${escapeHtml(userAgent || 'Unknown')}</p>
+            </div>
+            <p>If this was you, there's nothing to do. If it wasn't, sign out the session and change your password right away.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${config.frontendUrl}/profile" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Review Sessions</a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send new device login email', { email, error });
+      throw new Error('Failed to send new device login email');
+    }
+
+    logger.info('New device login email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Send notification email for test assignment
+ */
+async function sendTestAssignmentEmail(email: string, name: string, testCase: EmailTestCase) {
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'New Test Case Assigned - QualitySync',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">New Test Case Assigned</h2>
+            <p>Hi ${name},</p>
+            <p>A new test case has been assigned to you:</p>
+            <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Module/Platform:</strong> ${testCase.module_platform}</p>
+              <p style="margin: 10px 0;"><strong>Test Case:</strong> ${testCase.test_case}</p>
+              <p style="margin: 0;"><strong>Expected Result:</strong> ${testCase.expected_result}</p>
+            </div>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${config.frontendUrl}/qa" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">View Assignment</a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send test assignment email', { email, error });
+      return null;
+    }
+
+    logger.info('Test assignment email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Notify the assigned tester that a failed test is fixed and ready for retest
+ */
+async function sendRetestRequestEmail(email: string, name: string, testCase: EmailTestCase, fix: RetestFix) {
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: 'Test Ready for Retest - QualitySync',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">Ready for Retest</h2>
+            <p>Hi ${name},</p>
+            <p>${fix.fixed_by} has marked a test you reported as fixed. Please run it again to confirm:</p>
+            <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Module/Platform:</strong> ${testCase.module_platform}</p>
+              <p style="margin: 10px 0;"><strong>Test Case:</strong> ${testCase.test_case}</p>
+              <p style="margin: 10px 0;"><strong>Fix:</strong> ${fix.fix_reference}</p>
+              ${fix.fix_notes ? `<p style="margin: 0;"><strong>Notes:</strong> ${fix.fix_notes}</p>` : ''}
+            </div>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${config.frontendUrl}/qa" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">Retest Now</a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send retest request email', { email, error });
+      return null;
+    }
+
+    logger.info('Retest request email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Notify a user that they were @mentioned in a comment
+ */
+async function sendMentionEmail(email: string, name: string, mention: Mention) {
+  const excerpt = mention.body.length > 500 ? `${mention.body.slice(0, 500)}...` : mention.body;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: config.email.from,
+      to: email,
+      subject: `${mention.author_name} mentioned you - QualitySync`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">QualitySync</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <h2 style="color: #1f2937; margin-top: 0;">You were mentioned</h2>
+            <p>Hi ${name},</p>
+            <p>${escapeHtml(mention.author_name)} mentioned you in a comment on the ${mention.target_label} <strong>${escapeHtml(mention.target_title)}</strong>:</p>
+            <div style="background: white; padding: 20px; border-radius: 8px; border: 1px solid #e5e7eb; margin: 20px 0; white-space: pre-wrap;">${escapeHtml(excerpt)}</div>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${mention.url}" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">View Discussion</a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">QualitySync - Quality Assurance Made Simple</p>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      logger.error('Failed to send mention email', { email, error });
+      return null;
+    }
+
+    logger.info('Mention email sent', { email, messageId: data?.id });
+    return data;
+  } catch (error) {
+    logger.error('Email service error', { email, error: (error as Error).message });
+    return null;
+  }
+}
+
+export {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendWelcomeEmail,
+  sendInvitationEmail,
+  sendNewDeviceLoginEmail,
+  sendTestAssignmentEmail,
+  sendRetestRequestEmail,
+  sendMentionEmail,
+};
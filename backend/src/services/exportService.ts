@@ -0,0 +1,226 @@
+import { stringify } from 'csv-stringify/sync';
+import PDFDocument from 'pdfkit';
+import type { Response } from 'express';
+import type { ExportFormat } from '../types';
+
+// A column of an export; those with a width also appear in the PDF table
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+  width?: number;
+}
+
+export type VerdictLevel = 'ready' | 'at_risk' | 'not_ready';
+
+// Whether the exported records allow a release
+export interface Verdict {
+  level: VerdictLevel;
+  label: string;
+  reason: string;
+}
+
+export interface Report {
+  title: string;
+  subtitle: string;
+  verdict?: Verdict | null;
+  summary: { label: string; value: number | string }[];
+}
+
+interface PdfReport<T> extends Report {
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+interface Export<T> {
+  format: ExportFormat;
+  fileName: string;
+  data: unknown;
+  rows: T[];
+  columns: ExportColumn<T>[];
+  report: Report;
+}
+
+// Exports are built in memory, so cap them. Larger ones are refused rather
+// than cut short, so a verdict always covers every matching record.
+const MAX_EXPORT_ROWS = 5000;
+
+const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+};
+
+const PAGE_MARGIN = 40;
+const CELL_PADDING = 4;
+const verdictColors: Record<VerdictLevel, string> = {
+  ready: '#16a34a',
+  at_risk: '#d97706',
+  not_ready: '#dc2626',
+};
+
+// Timestamps in exports, e.g. 2026-10-18 14:05 (UTC)
+const formatTimestamp = (value: string | Date | null | undefined) => (value ? new Date(value).toISOString().replace('T', ' ').slice(0, 16) : '');
+
+/**
+ * Human readable list of the filters an export was made with
+ */
+function describeFilters(filters: object) {
+  const applied = Object.entries(filters).filter(([, value]) => value);
+  return applied.length > 0 ? applied.map(([key, value]) => `${key}: ${value}`).join(', ') : 'none';
+}
+
+// Cells a spreadsheet would run as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote text a spreadsheet would otherwise run as a formula, e.g. a test
+ * title of `=HYPERLINK(...)`
+ */
+const escapeFormula = (value: unknown) => (typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * Spreadsheet of the rows, one column per definition.
+ * A BOM is prepended so Excel reads the file as UTF-8.
+ */
+function toCsv<T>(columns: ExportColumn<T>[], rows: T[]) {
+  return '﻿' + stringify(rows.map((row) => columns.map((column) => escapeFormula(column.value(row) ?? ''))), {
+    header: true,
+    columns: columns.map((column) => column.header),
+  });
+}
+
+const drawTableHeader = <T>(doc: PDFKit.PDFDocument, columns: ExportColumn<T>[], widths: number[]) => {
+  const y = doc.y;
+  const height = 18;
+
+  doc.rect(PAGE_MARGIN, y, widths.reduce((sum, w) => sum + w, 0), height).fill('#f1f5f9');
+  doc.fillColor('#0f172a').font('Helvetica-Bold').fontSize(8);
+
+  let x = PAGE_MARGIN;
+  columns.forEach((column, index) => {
+    doc.text(column.header, x + CELL_PADDING, y + 5, { width: widths[index] - CELL_PADDING * 2, lineBreak: false, ellipsis: true });
+    x += widths[index];
+  });
+
+  doc.font('Helvetica').fontSize(8);
+  doc.y = y + height;
+};
+
+const drawTable = <T>(doc: PDFKit.PDFDocument, columns: ExportColumn<T>[], rows: T[]) => {
+  const tableWidth = doc.page.width - PAGE_MARGIN * 2;
+  const totalWeight = columns.reduce((sum, column) => sum + (column.width || 1), 0);
+  const widths = columns.map((column) => ((column.width || 1) / totalWeight) * tableWidth);
+  const bottom = () => doc.page.height - PAGE_MARGIN - 20;
+
+  drawTableHeader(doc, columns, widths);
+
+  rows.forEach((row, rowIndex) => {
+    const cells = columns.map((column) => String(column.value(row) ?? ''));
+    const height = Math.max(...cells.map((cell, index) =>
+      doc.heightOfString(cell, { width: widths[index] - CELL_PADDING * 2 }))) + CELL_PADDING * 2;
+
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+      drawTableHeader(doc, columns, widths);
+    }
+
+    const y = doc.y;
+    if (rowIndex % 2 === 1) {
+      doc.rect(PAGE_MARGIN, y, tableWidth, height).fill('#f8fafc');
+    }
+
+    doc.fillColor('#334155');
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, { width: widths[index] - CELL_PADDING * 2 });
+      x += widths[index];
+    });
+
+    doc.y = y + height;
+  });
+};
+
+/**
+ * Formatted report: title, verdict, summary figures and a table of the rows
+ */
+function toPdf<T>({ title, subtitle, verdict, summary, columns, rows }: PdfReport<T>) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fillColor('#0f172a').font('Helvetica-Bold').fontSize(18).text(title);
+    doc.fillColor('#64748b').font('Helvetica').fontSize(9).text(subtitle);
+    doc.moveDown();
+
+    if (verdict) {
+      doc.fillColor(verdictColors[verdict.level]).font('Helvetica-Bold').fontSize(12).text(verdict.label);
+      doc.fillColor('#334155').font('Helvetica').fontSize(9).text(verdict.reason);
+      doc.moveDown();
+    }
+
+    // Summary figures in a single row of boxes
+    const boxWidth = (doc.page.width - PAGE_MARGIN * 2) / summary.length;
+    const boxTop = doc.y;
+    summary.forEach((item, index) => {
+      const x = PAGE_MARGIN + index * boxWidth;
+      doc.fillColor('#0f172a').font('Helvetica-Bold').fontSize(14).text(String(item.value), x, boxTop, { width: boxWidth - 8 });
+      doc.fillColor('#64748b').font('Helvetica').fontSize(8).text(item.label, x, boxTop + 18, { width: boxWidth - 8 });
+    });
+    doc.x = PAGE_MARGIN;
+    doc.y = boxTop + 40;
+
+    if (rows.length === 0) {
+      doc.fillColor('#64748b').fontSize(10).text('No records match the selected filters.');
+    } else {
+      drawTable(doc, columns, rows);
+    }
+
+    // Page numbers, written inside the bottom margin without adding pages
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0;
+      doc.fillColor('#94a3b8').fontSize(8).text(
+        `QualitySync · Page ${i + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN + 10,
+        { width: doc.page.width - PAGE_MARGIN * 2, align: 'right', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Send rows as a file download. `data` is the JSON payload, `columns` the
+ * CSV columns (those with a width also appear in the PDF table) and
+ * `report` the PDF title, verdict and summary.
+ */
+async function sendExport<T>(res: Response, { format, fileName, data, rows, columns, report }: Export<T>) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+
+  let body;
+  if (format === 'json') {
+    body = JSON.stringify(data, null, 2);
+  } else if (format === 'csv') {
+    body = toCsv(columns, rows);
+  } else {
+    body = await toPdf({ ...report, columns: columns.filter((column) => column.width), rows });
+  }
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${extension}"`);
+  res.send(body);
+}
+
+export {
+  MAX_EXPORT_ROWS,
+  EXPORT_FORMATS,
+  formatTimestamp,
+  describeFilters,
+  sendExport,
+};
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import argon2 from 'argon2';
+import config from '../config';
+import { invitationRepository, userRepository } from '../repositories';
+import * as projectService from './projectService';
+import logger from '../utils/logger';
+import type { InvitationRow, UserRole } from '../types';
+
+interface InvitationInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  projectId?: string | null;
+  invitedBy: string;
+}
+
+// Invitation columns returned to clients, never the hash
+const INVITATION_LISTING = {
+  fields: 'id, email, name, role, expires_at, last_sent_at, accepted_at, revoked_at, created_at',
+  with: ['inviter', 'project'],
+};
+
+// Invitations are only changed while neither accepted nor revoked
+const PENDING = { accepted_at: null, revoked_at: null };
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const newToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.invitations.expiresInDays * 24 * 60 * 60 * 1000);
+  return { token, expiresAt };
+};
+
+const isExpired = (invitation: InvitationRow) => new Date(invitation.expires_at) <= new Date();
+
+const withExpired = (invitation: InvitationRow) => ({ ...invitation, expired: isExpired(invitation) });
+
+/**
+ * Create an invitation, optionally to join a project with the invited role.
+ * The plain token is only returned here, for the email link.
+ */
+async function createInvitation({ email, name, role, projectId = null, invitedBy }: InvitationInput) {
+  const { token, expiresAt } = newToken();
+
+  const invitation = await invitationRepository.create({
+    email,
+    name,
+    role,
+    project_id: projectId,
+    token_hash: hashToken(token),
+    invited_by: invitedBy,
+    expires_at: expiresAt.toISOString(),
+  }, INVITATION_LISTING);
+
+  return { invitation: withExpired(invitation), token };
+}
+
+/**
+ * Invitations not yet accepted or revoked, newest first, including expired
+ * ones so they can be resent
+ */
+async function getPendingInvitations() {
+  const invitations = await invitationRepository.findMany({ pending: true }, { ...INVITATION_LISTING, sort: 'created_at' });
+  return invitations.map(withExpired);
+}
+
+async function getInvitation(id: string) {
+  const invitation = await invitationRepository.findById(id, INVITATION_LISTING);
+  return invitation && withExpired(invitation);
+}
+
+/**
+ * The open invitation for an email, if any
+ */
+async function findOpenInvitation(email: string) {
+  const invitation = await invitationRepository.findOne({ email, pending: true }, INVITATION_LISTING);
+  return invitation && withExpired(invitation);
+}
+
+/**
+ * Replace the token of a pending invitation and extend its expiry, so the
+ * previous link stops working. Returns null when it is no longer pending.
+ */
+async function renewInvitation(id: string) {
+  const { token, expiresAt } = newToken();
+
+  let invitation;
+  try {
+    invitation = await invitationRepository.update(id, {
+      token_hash: hashToken(token),
+      expires_at: expiresAt.toISOString(),
+      last_sent_at: new Date().toISOString(),
+    }, { ...INVITATION_LISTING, match: PENDING });
+  } catch {
+    throw new Error('Failed to resend invitation');
+  }
+
+  return invitation && { invitation: withExpired(invitation), token };
+}
+
+async function revokeInvitation(id: string) {
+  let invitation;
+  try {
+    invitation = await invitationRepository.update(id, { revoked_at: new Date().toISOString() }, {
+      ...INVITATION_LISTING,
+      match: PENDING,
+    });
+  } catch {
+    throw new Error('Failed to revoke invitation');
+  }
+
+  return invitation && withExpired(invitation);
+}
+
+/**
+ * Look up the invitation behind a link. Returns null when it is unknown,
+ * accepted, revoked or expired.
+ */
+async function findPendingByToken(token: string) {
+  const invitation = await invitationRepository
+    .findOne({ tokenHash: hashToken(token) }, INVITATION_LISTING)
+    .catch(() => null);
+
+  if (!invitation || invitation.accepted_at || invitation.revoked_at || isExpired(invitation)) {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * Accept an invitation by creating its user with the chosen password. The
+ * email is verified since the link was sent to it. Returns null when the
+ * invitation is no longer pending, including when it was just accepted by
+ * a concurrent request.
+ */
+async function acceptInvitation(token: string, { name, password }: { name?: string; password: string }) {
+  const invitation = await findPendingByToken(token);
+  if (!invitation) return null;
+
+  // Claim the invitation first so it can only create one user
+  let claimed;
+  try {
+    claimed = await invitationRepository.update(invitation.id, { accepted_at: new Date().toISOString() }, {
+      match: PENDING,
+    });
+  } catch {
+    throw new Error('Failed to accept invitation');
+  }
+
+  if (!claimed) return null;
+
+  let user;
+  try {
+    user = await userRepository.create({
+      email: invitation.email,
+      password_hash: await argon2.hash(password),
+      name: name || invitation.name,
+      role: invitation.role,
+      is_verified: true,
+    }, { fields: 'id, email, name, role, role_id, is_verified, is_service_account, two_factor_enabled, created_at' });
+  } catch (error) {
+    // Leave the invitation open so the link can be used again
+    await invitationRepository.update(invitation.id, { accepted_at: null }).catch(() => null);
+
+    throw new Error((error as { code?: string }).code === '23505'
+      ? 'An account with this email already exists'
+      : 'Failed to create your account');
+  }
+
+  await invitationRepository.update(invitation.id, { accepted_user_id: user.id }).catch(() => null);
+
+  // A PM can still add the user to the project by hand
+  if (invitation.project) {
+    try {
+      await projectService.setMember(invitation.project.id, user.id, { role: invitation.role }, invitation.inviter?.id || null);
+    } catch (memberError) {
+      logger.error('Failed to add invited user to project', { invitationId: invitation.id, error: (memberError as Error).message });
+    }
+  }
+
+  return { invitation, user };
+}
+
+export {
+  createInvitation,
+  getPendingInvitations,
+  getInvitation,
+  findOpenInvitation,
+  renewInvitation,
+  revokeInvitation,
+  findPendingByToken,
+  acceptInvitation,
+};
@@ -0,0 +1,166 @@
+import config from '../config';
+import { loginAttemptRepository, userRepository } from '../repositories';
+import * as emailService from './emailService';
+import logger from '../utils/logger';
+import type { AuthMethod, LoginFailureReason, UserRow, ValidatedRequest } from '../types';
+
+interface LoginAttemptInput {
+  success: boolean;
+  reason?: LoginFailureReason | null;
+  authMethod?: AuthMethod;
+  newDevice?: boolean;
+}
+
+// User columns the lockout needs, to select along with the user at sign-in
+const LOCKOUT_FIELDS = 'failed_login_attempts, locked_until';
+
+const ATTEMPT_FIELDS = 'id, success, failure_reason, auth_method, new_device, user_agent, ip_address, created_at';
+
+// Concurrent failures are counted with compare-and-set, retried this often
+const MAX_COUNT_RETRIES = 3;
+
+const requestDevice = (req: ValidatedRequest) => ({
+  user_agent: req.get('user-agent')?.slice(0, 500) || null,
+  ip_address: req.ip || null,
+});
+
+/**
+ * When the account's lock ends, or null when it is not locked
+ */
+const getLockedUntil = (user: Pick<UserRow, 'locked_until'>) =>
+  user.locked_until && new Date(user.locked_until) > new Date() ? new Date(user.locked_until) : null;
+
+/**
+ * How long to lock an account after this many failures in a row: nothing
+ * below the threshold, then the base time doubling with each failure
+ */
+const lockDurationMinutes = (failedAttempts: number) => {
+  const { threshold, baseMinutes, maxMinutes } = config.lockout;
+  if (failedAttempts < threshold) return 0;
+  return Math.min(baseMinutes * 2 ** (failedAttempts - threshold), maxMinutes);
+};
+
+/**
+ * Add an entry to the account's sign-in history. Failures only get logged.
+ */
+async function recordLoginAttempt(
+  userId: string,
+  req: ValidatedRequest,
+  { success, reason = null, authMethod = 'password', newDevice = false }: LoginAttemptInput
+) {
+  await loginAttemptRepository.create({
+    user_id: userId,
+    success,
+    failure_reason: success ? null : reason,
+    auth_method: authMethod,
+    new_device: newDevice,
+    ...requestDevice(req),
+  }).catch(() => undefined);
+}
+
+/**
+ * Count a failed password or code towards the lockout and record it.
+ * Returns when the account is now locked until, or null.
+ */
+async function recordFailedLogin(
+  user: Pick<UserRow, 'id' | 'failed_login_attempts'>,
+  req: ValidatedRequest,
+  reason: LoginFailureReason
+) {
+  await recordLoginAttempt(user.id, req, { success: false, reason });
+
+  let previous = user.failed_login_attempts ?? 0;
+  try {
+    for (let attempt = 0; attempt < MAX_COUNT_RETRIES; attempt++) {
+      const failedAttempts = previous + 1;
+      const minutes = lockDurationMinutes(failedAttempts);
+      const lockedUntil = minutes ? new Date(Date.now() + minutes * 60 * 1000) : null;
+
+      const update: Partial<UserRow> = { failed_login_attempts: failedAttempts };
+      if (lockedUntil) update.locked_until = lockedUntil.toISOString();
+
+      const counted = await userRepository.update(user.id, update, { match: { failed_login_attempts: previous } });
+
+      if (counted) {
+        if (lockedUntil) {
+          logger.warn('Account locked after failed logins', { userId: user.id, failedAttempts, lockedUntil });
+        }
+        return lockedUntil;
+      }
+
+      // Another failure was counted in the meantime
+      const current = await userRepository.findById(user.id, { fields: LOCKOUT_FIELDS });
+      previous = current?.failed_login_attempts ?? 0;
+    }
+  } catch {
+    // Already logged by the repository
+    return null;
+  }
+
+  logger.error('Failed to count failed login after retries', { userId: user.id });
+  return null;
+}
+
+/**
+ * Clear the failure count after signing in, record the sign-in and alert
+ * the user by email when it came from a device they never signed in from.
+ * The first sign-in of an account is not alerted.
+ */
+async function recordSuccessfulLogin(
+  user: Pick<UserRow, 'id' | 'email' | 'name' | 'failed_login_attempts' | 'locked_until'>,
+  req: ValidatedRequest,
+  { authMethod = 'password' as AuthMethod } = {}
+) {
+  if (user.failed_login_attempts || user.locked_until) {
+    // A failure is only logged, the sign-in goes ahead
+    await userRepository.update(user.id, { failed_login_attempts: 0, locked_until: null }).catch(() => null);
+  }
+
+  const device = requestDevice(req);
+
+  const previous = await loginAttemptRepository.findMany(
+    { userId: user.id, success: true },
+    { fields: 'user_agent', sort: 'created_at', limit: 200 }
+  ).catch(() => null);
+
+  const newDevice = previous !== null && previous.length > 0 && !previous.some((p) => p.user_agent === device.user_agent);
+
+  await recordLoginAttempt(user.id, req, { success: true, authMethod, newDevice });
+
+  if (newDevice) {
+    try {
+      await emailService.sendNewDeviceLoginEmail(user.email, user.name, {
+        userAgent: device.user_agent,
+        ipAddress: device.ip_address,
+        time: new Date(),
+      });
+    } catch (emailError) {
+      logger.error('Failed to send new device login email', { userId: user.id, error: (emailError as Error).message });
+    }
+  }
+}
+
+/**
+ * Sign-in history of a user, newest first
+ */
+async function getLoginHistory(userId: string, { limit = 50 } = {}) {
+  return loginAttemptRepository.findMany({ userId }, { fields: ATTEMPT_FIELDS, sort: 'created_at', limit });
+}
+
+async function unlockAccount(userId: string) {
+  try {
+    await userRepository.update(userId, { failed_login_attempts: 0, locked_until: null });
+  } catch {
+    throw new Error('Failed to unlock account');
+  }
+}
+
+export {
+  LOCKOUT_FIELDS,
+  getLockedUntil,
+  recordLoginAttempt,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  getLoginHistory,
+  unlockAccount,
+};
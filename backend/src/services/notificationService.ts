@@ -0,0 +1,63 @@
+import { notificationRepository } from '../repositories';
+import * as realtimeService from './realtimeService';
+import type { NotificationType } from '../types';
+
+interface NotificationInput {
+  // Empty ids are skipped
+  recipientIds: (string | null | undefined)[];
+  actorId?: string | null;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  testCaseId?: string | null;
+  bugId?: string | null;
+}
+
+/**
+ * Create an in-app notification for each recipient.
+ * The actor is never notified about their own action, and failures are
+ * logged and swallowed so they never undo the change itself.
+ */
+async function notify({
+  recipientIds,
+  actorId = null,
+  type,
+  title,
+  body = null,
+  testCaseId = null,
+  bugId = null,
+}: NotificationInput) {
+  const recipients = [...new Set(recipientIds.filter((id): id is string => Boolean(id)))].filter((id) => id !== actorId);
+
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const notifications = await notificationRepository.createMany(recipients.map((userId) => ({
+    user_id: userId,
+    actor_id: actorId,
+    type,
+    title,
+    body,
+    test_case_id: testCaseId,
+    bug_id: bugId,
+  })), {
+    fields: 'id, user_id, type, title, body, test_case_id, bug_id, read_at, created_at',
+    with: ['actor'],
+  }).catch(() => null);
+
+  if (!notifications) {
+    return;
+  }
+
+  // Update the bell of recipients who are online
+  realtimeService.sendToUsers(
+    recipients,
+    'notification.created',
+    (userId) => notifications.find((notification) => notification.user_id === userId)
+  );
+}
+
+export {
+  notify,
+};
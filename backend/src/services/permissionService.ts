@@ -0,0 +1,156 @@
+import { roleRepository } from '../repositories';
+import * as realtimeService from './realtimeService';
+import type { AuthUser, Permission, Role, UserRole } from '../types';
+
+interface RoleInput {
+  name: string;
+  description?: string | null;
+  baseRole: UserRole;
+  permissions: Permission[];
+  createdBy: string;
+}
+
+// Role permissions are needed on every request but change rarely, so they
+// are kept for a minute and dropped as soon as a role is edited
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+const codeOf = (error: unknown) => (error as { code?: string }).code;
+
+/**
+ * Every permission a role can have, with a description for admins
+ */
+async function getPermissionCatalog() {
+  return roleRepository.findPermissions();
+}
+
+/**
+ * Permission keys of a role
+ */
+async function getRolePermissions(roleId: string): Promise<Permission[]> {
+  const cached = permissionCache.get(roleId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const permissions = await roleRepository.findPermissionKeys(roleId);
+  permissionCache.set(roleId, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  return permissions;
+}
+
+/**
+ * Whether the authenticated user has a permission in the role they act in
+ */
+function hasPermission(user: Pick<AuthUser, 'permissions'> | null | undefined, permission: Permission) {
+  return Boolean(user?.permissions?.includes(permission));
+}
+
+async function getRoles() {
+  return roleRepository.findMany();
+}
+
+async function getRole(id: string) {
+  return roleRepository.findById(id);
+}
+
+/**
+ * Id of the built-in role QA service accounts get, which lets them record
+ * CI results
+ */
+async function getServiceAccountRoleId() {
+  const role = await roleRepository.findServiceAccountRole();
+
+  if (!role) {
+    throw new Error('Failed to fetch service account role');
+  }
+
+  return role.id;
+}
+
+/**
+ * Replace the permissions of a role
+ */
+async function setRolePermissions(roleId: string, permissions: Permission[]) {
+  try {
+    await roleRepository.setPermissions(roleId, [...new Set(permissions)]);
+  } catch {
+    throw new Error('Failed to update role permissions');
+  } finally {
+    permissionCache.delete(roleId);
+    // Open streams filter events by the permissions the role had when connecting
+    realtimeService.closeRole(roleId);
+  }
+}
+
+async function createRole({ name, description, baseRole, permissions, createdBy }: RoleInput) {
+  let role: Role;
+  try {
+    role = await roleRepository.create({
+      name,
+      description: description || null,
+      base_role: baseRole,
+      created_by: createdBy,
+    });
+  } catch (error) {
+    if (codeOf(error) === '23505') {
+      throw new Error('A role with this name already exists');
+    }
+    throw new Error('Failed to create role');
+  }
+
+  await setRolePermissions(role.id, permissions);
+
+  return (await getRole(role.id)) as Role;
+}
+
+async function updateRole(
+  id: string,
+  updates: Partial<Pick<Role, 'name' | 'description'>>,
+  permissions?: Permission[]
+) {
+  if (Object.keys(updates).length > 0) {
+    try {
+      await roleRepository.update(id, updates);
+    } catch (error) {
+      if (codeOf(error) === '23505') {
+        throw new Error('A role with this name already exists');
+      }
+      throw new Error('Failed to update role');
+    }
+  }
+
+  if (permissions) {
+    await setRolePermissions(id, permissions);
+  }
+
+  return getRole(id);
+}
+
+/**
+ * Delete a custom role. Roles still given to users or project members
+ * cannot be deleted.
+ */
+async function deleteRole(id: string) {
+  try {
+    await roleRepository.remove(id);
+  } catch (error) {
+    if (codeOf(error) === '23503') {
+      throw new Error('This role is still given to users. Change their role first.');
+    }
+    throw new Error('Failed to delete role');
+  }
+
+  permissionCache.delete(id);
+}
+
+export {
+  getPermissionCatalog,
+  getRolePermissions,
+  hasPermission,
+  getRoles,
+  getRole,
+  getServiceAccountRoleId,
+  createRole,
+  updateRole,
+  deleteRole,
+};
@@ -0,0 +1,200 @@
+import { projectRepository } from '../repositories';
+import * as permissionService from './permissionService';
+import * as realtimeService from './realtimeService';
+import type { Project, ProjectMember, ProjectMemberRow, ProjectRow, UserRole } from '../types';
+
+// A user's membership of a project, with the project
+type Membership = Pick<ProjectMemberRow, 'role' | 'role_id'> & { project: ProjectRow };
+
+const PROJECT_FIELDS = 'id, name, description, created_at, updated_at';
+
+const MEMBERSHIP = { fields: 'role, role_id', with: ['project'] };
+
+const MEMBER = { fields: 'role, role_id, created_at', with: ['user'] };
+
+const codeOf = (error: unknown) => (error as { code?: string }).code;
+
+/**
+ * A membership row as the API returns members
+ */
+const toMember = ({ role, role_id: roleId, created_at: createdAt, user }: ProjectMemberRow): ProjectMember => {
+  const { is_verified: _isVerified, ...member } = user!;
+  return { role, role_id: roleId, created_at: createdAt, user: member };
+};
+
+/**
+ * The user's membership of a project with the project itself, or null when
+ * they are not a member
+ */
+async function getMembership(projectId: string, userId: string) {
+  return projectRepository.findMember(projectId, userId, MEMBERSHIP) as Promise<Membership | null>;
+}
+
+/**
+ * The project the user joined first, used when a request does not name one
+ * (API tokens and CI jobs working in a single project)
+ */
+async function getDefaultMembership(userId: string) {
+  const [membership] = await projectRepository.findMembers(
+    { userId },
+    { ...MEMBERSHIP, sort: 'created_at', ascending: true, limit: 1 }
+  );
+
+  return (membership as Membership | undefined) ?? null;
+}
+
+/**
+ * Projects the user is a member of, each with their role in it and the
+ * permissions of that role
+ */
+async function getProjectsForUser(userId: string): Promise<Project[]> {
+  let memberships: Membership[];
+  try {
+    memberships = await projectRepository.findMembers({ userId }, MEMBERSHIP) as Membership[];
+  } catch {
+    throw new Error('Failed to fetch projects');
+  }
+
+  const projects = await Promise.all(
+    memberships.map(async ({ role, role_id: roleId, project }) => ({
+      ...project,
+      role,
+      role_id: roleId,
+      permissions: await permissionService.getRolePermissions(roleId),
+    }))
+  );
+
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Every project, with the user's role where they are a member
+ */
+async function getAllProjects(userId: string): Promise<Project[]> {
+  const [projects, memberships] = await Promise.all([
+    projectRepository.findMany({ fields: PROJECT_FIELDS, sort: 'name', ascending: true }),
+    getProjectsForUser(userId),
+  ]);
+
+  const memberOf = new Map(memberships.map((project) => [project.id, project]));
+  return projects.map((project) => memberOf.get(project.id) ?? {
+    ...project,
+    role: null,
+    role_id: null,
+    permissions: [],
+  });
+}
+
+async function getProject(id: string) {
+  return projectRepository.findById(id, { fields: PROJECT_FIELDS });
+}
+
+/**
+ * Create a project. The creator joins it as a Product Manager.
+ */
+async function createProject({ name, description, createdBy }: { name: string; description?: string; createdBy: string }) {
+  let project: ProjectRow;
+  try {
+    project = await projectRepository.create(
+      { name, description: description || null, created_by: createdBy },
+      { fields: PROJECT_FIELDS }
+    );
+  } catch (error) {
+    if (codeOf(error) === '23505') {
+      throw new Error('A project with this name already exists');
+    }
+    throw new Error('Failed to create project');
+  }
+
+  await setMember(project.id, createdBy, { role: 'PM' }, createdBy);
+
+  return project;
+}
+
+async function updateProject(id: string, updates: Partial<Pick<ProjectRow, 'name' | 'description'>>) {
+  try {
+    return await projectRepository.update(id, updates, { fields: PROJECT_FIELDS });
+  } catch (error) {
+    if (codeOf(error) === '23505') {
+      throw new Error('A project with this name already exists');
+    }
+    throw new Error('Failed to update project');
+  }
+}
+
+async function getMembers(projectId: string) {
+  const members = await projectRepository.findMembers({ projectId }, MEMBER);
+
+  return members.map(toMember).sort((a, b) => a.user.name.localeCompare(b.user.name));
+}
+
+/**
+ * Members of a project with one of the roles, for assignee checks and pickers
+ */
+async function getMembersWithRole(projectId: string, role: UserRole) {
+  const members = await projectRepository.findMembers({ projectId, role }, { fields: 'user_id', with: ['user'] });
+
+  return members
+    .map(({ user }) => ({ id: user!.id, name: user!.name, email: user!.email }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add a user to a project, or change their role in it. Either names a role,
+ * or a base role (PM, QA or ENG) to give its built-in role.
+ */
+async function setMember(
+  projectId: string,
+  userId: string,
+  { roleId = null, role }: { roleId?: string | null; role?: UserRole },
+  addedBy: string | null
+) {
+  const member = await projectRepository.setMember(
+    { project_id: projectId, user_id: userId, role_id: roleId ?? undefined, role, added_by: addedBy },
+    MEMBER
+  );
+
+  // Open streams filter events by the role the member had when connecting
+  realtimeService.closeUser(userId, { projectId });
+
+  return toMember(member);
+}
+
+/**
+ * Remove a user from a project. Returns the removed membership, or null.
+ */
+async function removeMember(projectId: string, userId: string) {
+  const member = await projectRepository.removeMember(projectId, userId, MEMBER);
+
+  if (!member) return null;
+
+  realtimeService.closeUser(userId, { projectId });
+
+  return toMember(member);
+}
+
+/**
+ * Whether every id is a record of the project in the table, to check ids
+ * sent by clients before linking records to each other
+ */
+async function allInProject(table: string, projectId: string, ids: string[]) {
+  const uniqueIds = [...new Set(ids)];
+  if (uniqueIds.length === 0) return true;
+
+  return (await projectRepository.countRecords(table, projectId, uniqueIds)) === uniqueIds.length;
+}
+
+export {
+  getMembership,
+  getDefaultMembership,
+  getProjectsForUser,
+  getAllProjects,
+  getProject,
+  createProject,
+  updateProject,
+  getMembers,
+  getMembersWithRole,
+  setMember,
+  removeMember,
+  allInProject,
+};
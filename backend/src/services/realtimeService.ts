@@ -0,0 +1,170 @@
+import type { Response } from 'express';
+import logger from '../utils/logger';
+import type { AuthUser, ProjectRequest } from '../types';
+
+interface Client {
+  user: AuthUser;
+  projectId: string;
+  // Unset for streams opened with an API token
+  sessionId?: string;
+  res: Response;
+}
+
+// A record of a project that is pushed to the users allowed to see it
+interface ProjectRecord {
+  id: string;
+  project_id: string;
+}
+
+interface Change<T extends ProjectRecord> {
+  entity: string;
+  before?: T | null;
+  after?: T | null;
+  canView: (record: T, user: AuthUser) => boolean;
+  serialize?: (record: T, user: AuthUser) => unknown;
+}
+
+// Comment lines keep idle streams open through proxies
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Open event streams, one per browser tab
+const clients = new Set<Client>();
+
+const writeEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Turn the response into a server-sent event stream for the authenticated user
+ * in the request's project. The stream stays registered until the client
+ * disconnects.
+ */
+function addClient(req: ProjectRequest, res: Response) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  const client = { user: req.user, projectId: req.project.id, sessionId: req.sessionId, res };
+  clients.add(client);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  // Closes when the client disconnects or the server ends the stream
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+    logger.debug('Event stream closed', { userId: req.user.id, clients: clients.size });
+  });
+
+  logger.debug('Event stream opened', { userId: req.user.id, clients: clients.size });
+}
+
+/**
+ * Broadcast a created, updated or deleted record to every user allowed to see it
+ * in the record's project. Users who could see the old version but not the new
+ * one get a delete event, so their lists drop the record. `serialize` shapes the
+ * record per recipient.
+ */
+function publishChange<T extends ProjectRecord>({
+  entity,
+  before = null,
+  after = null,
+  canView,
+  serialize = (record) => record,
+}: Change<T>) {
+  const projectId = (after || before)?.project_id;
+
+  for (const { user, projectId: clientProjectId, res } of clients) {
+    if (clientProjectId !== projectId) continue;
+
+    try {
+      if (after && canView(after, user)) {
+        writeEvent(res, `${entity}.${before ? 'updated' : 'created'}`, serialize(after, user));
+      } else if (before && canView(before, user)) {
+        writeEvent(res, `${entity}.deleted`, { id: before.id });
+      }
+    } catch (err) {
+      logger.error('Failed to push event', { entity, userId: user.id, error: (err as Error).message });
+    }
+  }
+}
+
+/**
+ * Push an event to the open streams of specific users
+ */
+function sendToUsers(userIds: string[], event: string, dataForUser: (userId: string) => unknown) {
+  for (const { user, res } of clients) {
+    if (!userIds.includes(user.id)) continue;
+
+    try {
+      writeEvent(res, event, dataForUser(user.id));
+    } catch (err) {
+      logger.error('Failed to push event', { event, userId: user.id, error: (err as Error).message });
+    }
+  }
+}
+
+/**
+ * End the streams matching a filter. Clients reconnect and authenticate
+ * again, so ended sessions are refused and changed access takes effect.
+ */
+function closeClients(matches: (client: Client) => boolean) {
+  for (const client of clients) {
+    if (!matches(client)) continue;
+    client.res.end();
+    clients.delete(client);
+  }
+}
+
+/**
+ * End the streams of a revoked session
+ */
+function closeSession(sessionId: string) {
+  closeClients((client) => client.sessionId === sessionId);
+}
+
+/**
+ * End the streams of a user, only those in a project when given, except
+ * those of the session they keep
+ */
+function closeUser(
+  userId: string,
+  { projectId = null, exceptSessionId = null }: { projectId?: string | null; exceptSessionId?: string | null } = {}
+) {
+  closeClients((client) =>
+    client.user.id === userId &&
+    (!projectId || client.projectId === projectId) &&
+    (!exceptSessionId || client.sessionId !== exceptSessionId));
+}
+
+/**
+ * End the streams of everyone acting in a role, in a project or account-wide,
+ * after its permissions change
+ */
+function closeRole(roleId: string) {
+  closeClients((client) => client.user.role_id === roleId || client.user.account_role_id === roleId);
+}
+
+/**
+ * End all streams so the server can shut down
+ */
+function closeAll() {
+  for (const { res } of clients) {
+    res.end();
+  }
+  clients.clear();
+}
+
+export {
+  addClient,
+  publishChange,
+  sendToUsers,
+  closeSession,
+  closeUser,
+  closeRole,
+  closeAll,
+};
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import config from '../config';
+import { sessionRepository } from '../repositories';
+import * as realtimeService from './realtimeService';
+import logger from '../utils/logger';
+import type { AuthMethod, SessionRow, SessionUser, ValidatedRequest } from '../types';
+
+// A session as looked up for a token, with its user
+type UserSession = SessionRow & { user: SessionUser };
+
+// A refresh token replaced this recently still renews the access token, so
+// requests racing each other from one browser do not sign it out
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// Session columns returned to clients, never the token hashes
+const SESSION_FIELDS = 'id, user_agent, ip_address, auth_method, created_at, last_used_at, expires_at';
+
+// What is read of a session looked up for a token
+const USER_SESSION = { fields: 'id, auth_method, expires_at, revoked_at', with: ['user'] };
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+const refreshExpiry = () =>
+  new Date(Date.now() + config.session.refreshExpiresInDays * 24 * 60 * 60 * 1000).toISOString();
+
+const isActive = (session: SessionRow | null): session is UserSession =>
+  session !== null && Boolean(session.user) && !session.revoked_at && new Date(session.expires_at) > new Date();
+
+/**
+ * Start a session for a user signing in from this request, with 'password'
+ * or 'sso'. The plain refresh token is only returned here.
+ */
+async function createSession(userId: string, req: ValidatedRequest, { authMethod = 'password' as AuthMethod } = {}) {
+  const refreshToken = newRefreshToken();
+
+  const session = await sessionRepository.create({
+    user_id: userId,
+    refresh_token_hash: hashToken(refreshToken),
+    user_agent: req.get('user-agent')?.slice(0, 500) || null,
+    ip_address: req.ip || null,
+    auth_method: authMethod,
+    expires_at: refreshExpiry(),
+  }, { fields: 'id, expires_at' });
+
+  return { session, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one. Returns the session with its user
+ * and the new refresh token, or null when the token is not valid. A token
+ * replaced just before counts as a concurrent refresh and gets the session
+ * without a new token; one replaced earlier means it was copied, so the
+ * whole session is revoked.
+ */
+async function rotateSession(refreshToken: string) {
+  const tokenHash = hashToken(refreshToken);
+
+  let session;
+  try {
+    session = await sessionRepository.findOne({ refreshTokenHash: tokenHash }, USER_SESSION);
+  } catch {
+    return null;
+  }
+
+  if (!session) {
+    return reusedSession(tokenHash);
+  }
+
+  if (!isActive(session)) return null;
+
+  const nextToken = newRefreshToken();
+  const now = new Date().toISOString();
+
+  // Matching on the old hash makes a second concurrent rotation a no-op
+  let rotated;
+  try {
+    rotated = await sessionRepository.update(session.id, {
+      refresh_token_hash: hashToken(nextToken),
+      previous_token_hash: tokenHash,
+      rotated_at: now,
+      last_used_at: now,
+      expires_at: refreshExpiry(),
+    }, { match: { refresh_token_hash: tokenHash }, fields: 'id, expires_at' });
+  } catch {
+    return null;
+  }
+
+  if (!rotated) {
+    return { session, refreshToken: null };
+  }
+
+  return { session: { ...session, ...rotated }, refreshToken: nextToken };
+}
+
+async function reusedSession(tokenHash: string) {
+  let session;
+  try {
+    session = await sessionRepository.findOne({ previousTokenHash: tokenHash }, {
+      ...USER_SESSION,
+      fields: `${USER_SESSION.fields}, rotated_at`,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!isActive(session)) return null;
+
+  if (session.rotated_at && Date.now() - new Date(session.rotated_at).getTime() <= ROTATION_GRACE_MS) {
+    return { session, refreshToken: null };
+  }
+
+  logger.warn('Refresh token reused, revoking session', { sessionId: session.id, userId: session.user.id });
+  await revokeSession(session.id, session.user.id);
+  return null;
+}
+
+/**
+ * Look up the session an access token belongs to, with its user. Returns
+ * null when it is unknown, revoked or expired.
+ */
+async function findActiveSession(id: string) {
+  const session = await sessionRepository.findOne({ id }, USER_SESSION).catch(() => null);
+
+  return isActive(session) ? session : null;
+}
+
+async function findSessionByRefreshToken(refreshToken: string) {
+  return sessionRepository
+    .findOne({ refreshTokenHash: hashToken(refreshToken), revoked: false }, { fields: 'id, user_id' })
+    .catch(() => null);
+}
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+async function getActiveSessions(userId: string) {
+  return sessionRepository.findMany(
+    { userId, revoked: false, expired: false },
+    { fields: SESSION_FIELDS, sort: 'last_used_at' }
+  );
+}
+
+/**
+ * Revoke one session of a user. Returns null when the user has no such
+ * active session.
+ */
+async function revokeSession(id: string, userId: string) {
+  let session;
+  try {
+    session = await sessionRepository.update(id, { revoked_at: new Date().toISOString() }, {
+      match: { user_id: userId, revoked_at: null },
+      fields: SESSION_FIELDS,
+    });
+  } catch {
+    throw new Error('Failed to revoke session');
+  }
+
+  // Live event streams would otherwise outlive the session
+  if (session) realtimeService.closeSession(id);
+
+  return session;
+}
+
+/**
+ * Revoke every session of a user, except one when given. Returns how many
+ * were revoked.
+ */
+async function revokeAllSessions(userId: string, { exceptId = null as string | null } = {}) {
+  let revoked;
+  try {
+    revoked = await sessionRepository.updateMany(
+      { userId, revoked: false, exceptId },
+      { revoked_at: new Date().toISOString() }
+    );
+  } catch {
+    throw new Error('Failed to revoke sessions');
+  }
+
+  realtimeService.closeUser(userId, { exceptSessionId: exceptId });
+
+  return revoked;
+}
+
+export {
+  createSession,
+  rotateSession,
+  findActiveSession,
+  findSessionByRefreshToken,
+  getActiveSessions,
+  revokeSession,
+  revokeAllSessions,
+};
@@ -0,0 +1,168 @@
+import { Issuer, generators, type BaseClient, type IdTokenClaims, type UserinfoResponse } from 'openid-client';
+import config from '../config';
+import { userRepository } from '../repositories';
+import { LOCKOUT_FIELDS } from './loginSecurityService';
+import logger from '../utils/logger';
+import { NO_PASSWORD } from '../utils/password';
+import type { UserRow, ValidatedRequest } from '../types';
+
+// What the callback must be checked against, kept from the authorization request
+export interface AuthorizationChecks {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+type Claims = IdTokenClaims | (UserinfoResponse & IdTokenClaims);
+
+const SSO_USER_FIELDS = `id, email, name, role, is_verified, is_service_account, sso_subject, two_factor_enabled, ${LOCKOUT_FIELDS}`;
+
+// Database failures are logged by the repository; the user only learns
+// that signing in failed
+const signInStep = <T>(promise: Promise<T>) => promise.catch(() => {
+  throw new Error('Single sign-on failed');
+});
+
+// Discovery runs once; a failure is retried on the next sign-in
+let clientPromise: Promise<BaseClient> | null = null;
+
+const isEnabled = () => Boolean(config.sso.issuerUrl && config.sso.clientId);
+
+const getClient = () => {
+  if (!clientPromise) {
+    clientPromise = Issuer.discover(config.sso.issuerUrl ?? '')
+      .then((issuer) => new issuer.Client({
+        client_id: config.sso.clientId ?? '',
+        client_secret: config.sso.clientSecret,
+        redirect_uris: [config.sso.redirectUri],
+        response_types: ['code'],
+      }))
+      .catch((err: Error) => {
+        clientPromise = null;
+        logger.error('OIDC discovery failed', { issuer: config.sso.issuerUrl, error: err.message });
+        throw new Error('Single sign-on is unavailable');
+      });
+  }
+  return clientPromise;
+};
+
+/**
+ * Build the identity provider URL to send the browser to. The returned
+ * checks must be kept until the callback, they bind it to this request.
+ */
+async function createAuthorizationRequest() {
+  const client = await getClient();
+  const checks: AuthorizationChecks = {
+    state: generators.state(),
+    nonce: generators.nonce(),
+    codeVerifier: generators.codeVerifier(),
+  };
+
+  const url = client.authorizationUrl({
+    scope: 'openid email profile',
+    state: checks.state,
+    nonce: checks.nonce,
+    code_challenge: generators.codeChallenge(checks.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  return { url, checks };
+}
+
+/**
+ * Exchange the authorization code from the callback for the user's claims.
+ * Claims missing from the ID token, such as groups, are read from userinfo.
+ */
+async function completeAuthorization(req: ValidatedRequest, checks: AuthorizationChecks): Promise<Claims> {
+  const client = await getClient();
+  const params = client.callbackParams(req);
+
+  const tokenSet = await client.callback(config.sso.redirectUri, params, {
+    state: checks.state,
+    nonce: checks.nonce,
+    code_verifier: checks.codeVerifier,
+  });
+
+  let claims: Claims = tokenSet.claims();
+  if ((!claims.email || !(config.sso.groupsClaim in claims)) && tokenSet.access_token) {
+    try {
+      claims = { ...(await client.userinfo(tokenSet)), ...claims };
+    } catch (err) {
+      logger.warn('Failed to fetch OIDC userinfo', { error: (err as Error).message });
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Role for a new user from their groups claim, by the configured mapping
+ */
+const mapRole = (claims: Claims) => {
+  const value = claims[config.sso.groupsClaim];
+  const groups = Array.isArray(value) ? value.map(String) : value ? [String(value)] : [];
+  const match = config.sso.roleMapping.find(({ group }) => groups.includes(group));
+  return match ? match.role : config.sso.defaultRole;
+};
+
+/**
+ * The user an identity provider account signs in as: the one linked to its
+ * subject, else an existing user with its email, which gets linked, else a
+ * new user when provisioning is on. Linking and provisioning require the
+ * provider to mark the email verified. Returns the user and
+ * whether it was just created; throws with a message for the user when
+ * none applies.
+ */
+async function findOrProvisionUser(claims: Claims): Promise<{ user: UserRow; provisioned: boolean }> {
+  const linked = await signInStep(userRepository.findOne({ ssoSubject: claims.sub }, { fields: SSO_USER_FIELDS }));
+
+  if (linked) return { user: linked, provisioned: false };
+
+  // Only an email the identity provider says it verified may claim an
+  // account; a missing email_verified claim does not count
+  const email = claims.email?.toLowerCase();
+  if (!email || claims.email_verified !== true) {
+    throw new Error('Your identity provider did not share a verified email address. Sign in with your password or ask a Product Manager for help.');
+  }
+
+  const existing = await signInStep(userRepository.findOne({ email }, { fields: SSO_USER_FIELDS }));
+
+  if (existing) {
+    if (existing.sso_subject) {
+      throw new Error('This email is linked to another single sign-on account');
+    }
+
+    const user = await signInStep(userRepository.update(existing.id, { sso_subject: claims.sub, is_verified: true }, {
+      fields: SSO_USER_FIELDS,
+    }));
+
+    // Deleted since it was looked up
+    if (!user) throw new Error('Single sign-on failed');
+
+    logger.info('SSO account linked', { userId: user.id, email });
+    return { user, provisioned: false };
+  }
+
+  if (!config.sso.autoProvision) {
+    throw new Error('No QualitySync account exists for this email. Ask a Product Manager to add you.');
+  }
+
+  const user = await signInStep(userRepository.create({
+    email,
+    name: claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || email,
+    role: mapRole(claims),
+    password_hash: NO_PASSWORD,
+    sso_subject: claims.sub,
+    is_verified: true,
+  }, { fields: SSO_USER_FIELDS }));
+
+  logger.info('SSO user provisioned', { userId: user.id, email, role: user.role });
+  return { user, provisioned: true };
+}
+
+export {
+  isEnabled,
+  createAuthorizationRequest,
+  completeAuthorization,
+  findOrProvisionUser,
+};
@@ -0,0 +1,135 @@
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+import logger from '../utils/logger';
+import type { TestImportField, TestImportMapping } from '../types';
+
+// A row of a spreadsheet, its cells by header
+export interface SheetRow {
+  row: number;
+  cells: Record<string, string>;
+}
+
+interface Sheet {
+  columns: string[];
+  rows: SheetRow[];
+}
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Test case fields a spreadsheet column can be mapped to, all required
+const IMPORT_FIELDS: TestImportField[] = ['module_platform', 'test_case', 'expected_result', 'assignee_email'];
+
+// Header spellings recognised without an explicit mapping
+const HEADER_ALIASES: Record<TestImportField, string[]> = {
+  module_platform: ['module_platform', 'module', 'platform', 'module/platform', 'area', 'component'],
+  test_case: ['test_case', 'test case', 'test', 'title', 'description', 'scenario'],
+  expected_result: ['expected_result', 'expected result', 'expected', 'expected outcome'],
+  assignee_email: ['assignee_email', 'assignee email', 'assignee', 'assigned to', 'tester', 'tester email', 'qa', 'email'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+
+const parseCsv = (buffer: Buffer): Sheet => {
+  const records: { record: Record<string, string>; info: { lines: number } }[] = parse(buffer, {
+    bom: true,
+    info: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    trim: true,
+    columns: (headers: unknown[]) => headers.map((header) => String(header).trim()),
+  });
+
+  const columns = records.length > 0 ? Object.keys(records[0].record) : [];
+
+  return {
+    columns,
+    rows: records.map(({ record, info }) => ({ row: info.lines, cells: record })),
+  };
+};
+
+const parseXlsx = async (buffer: Buffer): Promise<Sheet> => {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, which a Node Buffer does not match
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return { columns: [], rows: [] };
+  }
+
+  // Header cells by column number, blank headers are ignored
+  const headers: { colNumber: number; header: string }[] = [];
+  sheet.getRow(1).eachCell((cell, colNumber) => {
+    const header = cell.text.trim();
+    if (header) headers.push({ colNumber, header });
+  });
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const cells: Record<string, string> = {};
+    for (const { colNumber, header } of headers) {
+      cells[header] = row.getCell(colNumber).text.trim();
+    }
+
+    if (Object.values(cells).some(Boolean)) {
+      rows.push({ row: rowNumber, cells });
+    }
+  });
+
+  return { columns: headers.map(({ header }) => header), rows };
+};
+
+/**
+ * Read the first sheet of an uploaded CSV or Excel file.
+ * Rows keep their line number in the file so errors can point at them.
+ */
+async function parseSpreadsheet(file: Express.Multer.File) {
+  let sheet;
+  try {
+    sheet = path.extname(file.originalname).toLowerCase() === '.xlsx'
+      ? await parseXlsx(file.buffer)
+      : parseCsv(file.buffer);
+  } catch (err) {
+    logger.warn('Failed to parse spreadsheet', { fileName: file.originalname, error: (err as Error).message });
+    throw new Error('Could not read the file. Make sure it is a valid CSV or Excel spreadsheet');
+  }
+
+  if (sheet.columns.length === 0) {
+    throw new Error('The file has no header row');
+  }
+
+  if (sheet.rows.length === 0) {
+    throw new Error('The file has no rows to import');
+  }
+
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`A file can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return sheet;
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+function suggestMapping(columns: string[]) {
+  const mapping: TestImportMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const aliases = HEADER_ALIASES[field].map(normalizeHeader);
+    const column = columns.find((candidate) => aliases.includes(normalizeHeader(candidate))
+      && !Object.values(mapping).includes(candidate));
+    if (column) mapping[field] = column;
+  }
+
+  return mapping;
+}
+
+export {
+  IMPORT_FIELDS,
+  parseSpreadsheet,
+  suggestMapping,
+};
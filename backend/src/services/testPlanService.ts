@@ -0,0 +1,70 @@
+import { planRepository, suiteRepository } from '../repositories';
+import logger from '../utils/logger';
+import type { TestStatus } from '../types';
+
+/**
+ * Replace the test cases that belong to a suite, keeping the given order.
+ */
+async function setSuiteMembers(suiteId: string, testCaseIds: string[]) {
+  try {
+    await suiteRepository.setTests(suiteId, testCaseIds);
+  } catch {
+    throw new Error('Failed to update suite members');
+  }
+}
+
+/**
+ * Replace the suites a single test case belongs to.
+ * New memberships are appended to the end of each suite.
+ */
+async function setTestSuites(testCaseId: string, suiteIds: string[]) {
+  try {
+    await suiteRepository.setSuitesOf(testCaseId, suiteIds);
+  } catch {
+    throw new Error('Failed to update test suites');
+  }
+}
+
+/**
+ * Copy the current members of a suite into a plan.
+ * Returns the number of test cases captured.
+ */
+async function snapshotSuiteIntoPlan(planId: string, suiteId: string) {
+  let testCaseIds: string[];
+  try {
+    testCaseIds = await suiteRepository.findTestIds(suiteId);
+  } catch {
+    throw new Error('Failed to read suite members');
+  }
+
+  if (testCaseIds.length === 0) {
+    return 0;
+  }
+
+  try {
+    await planRepository.addCases(planId, testCaseIds);
+  } catch {
+    throw new Error('Failed to snapshot suite into plan');
+  }
+
+  return testCaseIds.length;
+}
+
+/**
+ * Reflect a recorded test run in every active plan that contains the test.
+ * Failures are logged and swallowed so they never block the result itself.
+ */
+async function recordPlanResult(testCaseId: string, status: TestStatus, runId: string) {
+  try {
+    await planRepository.recordResult(testCaseId, status, runId);
+  } catch (error) {
+    logger.error('Test plan service error', { testCaseId, error: (error as Error).message });
+  }
+}
+
+export {
+  setSuiteMembers,
+  setTestSuites,
+  snapshotSuiteIntoPlan,
+  recordPlanResult,
+};
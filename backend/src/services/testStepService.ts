@@ -0,0 +1,58 @@
+import { testStepRepository } from '../repositories';
+import type { StepResultInput, TestStatus, TestStep, TestStepInput } from '../types';
+
+/**
+ * Replace the ordered steps of a test case.
+ */
+async function setTestSteps(testCaseId: string, steps: TestStepInput[]): Promise<TestStep[]> {
+  try {
+    return await testStepRepository.replace(testCaseId, steps.map((step, index) => ({
+      position: index,
+      action: step.action,
+      expected_result: step.expected_result,
+      test_data: step.test_data || null,
+    })));
+  } catch {
+    throw new Error('Failed to update test steps');
+  }
+}
+
+/**
+ * Get the ordered steps of a test case.
+ */
+async function getTestSteps(testCaseId: string) {
+  return testStepRepository.findMany(testCaseId);
+}
+
+/**
+ * Overall test status implied by step outcomes:
+ * any failed step fails the test, otherwise any blocked step escalates it.
+ */
+function deriveStatus(stepResults: StepResultInput[]): TestStatus {
+  if (stepResults.some((result) => result.status === 'fail')) return 'fail';
+  if (stepResults.some((result) => result.status === 'blocked')) return 'escalated';
+  return 'pass';
+}
+
+/**
+ * Store the per-step outcomes of a run.
+ */
+async function recordStepResults(runId: string, steps: TestStep[], stepResults: StepResultInput[]) {
+  const stepsById = Object.fromEntries(steps.map((step) => [step.id, step]));
+
+  return testStepRepository.createResults(stepResults.map((result) => ({
+    run_id: runId,
+    step_id: result.step_id,
+    position: stepsById[result.step_id].position,
+    action: stepsById[result.step_id].action,
+    status: result.status,
+    notes: result.notes || null,
+  })));
+}
+
+export {
+  setTestSteps,
+  getTestSteps,
+  deriveStatus,
+  recordStepResults,
+};
@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import config from '../config';
+import { recoveryCodeRepository, userRepository } from '../repositories';
+import logger from '../utils/logger';
+import type { AuthMethod, AuthUser, UserRow } from '../types';
+
+// The columns of a user a second factor is checked against
+type TotpUser = Pick<UserRow, 'id' | 'totp_secret' | 'totp_last_step'>;
+
+const RECOVERY_CODE_COUNT = 10;
+const TOTP_STEP_SECONDS = 30;
+
+// Accept the previous and next code as well, for clock drift
+const totp = authenticator.clone({ window: 1, step: TOTP_STEP_SECONDS });
+
+const encryptionKey = () =>
+  crypto.createHash('sha256').update(config.twoFactor.encryptionKey || config.jwt.secret).digest();
+
+/**
+ * Encrypt a TOTP secret as iv.tag.ciphertext with AES-256-GCM
+ */
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared without case, spaces or dashes
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const isTotpCode = (code: string) => /^\d{6}$/.test(code.replace(/\s/g, ''));
+
+/**
+ * Whether the two-factor policy requires the user to have it enabled: their
+ * base role or role id is listed in TWO_FACTOR_REQUIRED_ROLES, or their role
+ * has one of TWO_FACTOR_REQUIRED_PERMISSIONS. Within a project both the
+ * project role and the account-wide role count.
+ *
+ * Service accounts sign in with API tokens only and are exempt. Sessions
+ * started with single sign-on are only exempt when TWO_FACTOR_TRUST_SSO
+ * says the identity provider enforces its own second factor.
+ */
+const isRequiredFor = (
+  user: Pick<
+    AuthUser,
+    'role' | 'role_id' | 'is_service_account' | 'permissions' | 'account_role' | 'account_role_id' | 'account_permissions'
+  >,
+  { authMethod }: { authMethod?: AuthMethod } = {}
+) => {
+  if (user.is_service_account || (authMethod === 'sso' && config.twoFactor.trustSso)) {
+    return false;
+  }
+
+  const { requiredRoles, requiredPermissions } = config.twoFactor;
+  const roles = [user.role, user.role_id, user.account_role, user.account_role_id];
+  const permissions = [...user.permissions, ...(user.account_permissions ?? [])];
+
+  return roles.some((role) => role && requiredRoles.includes(role)) ||
+    permissions.some((permission) => requiredPermissions.includes(permission));
+};
+
+/**
+ * Start enrollment with a new secret, replacing any unconfirmed one.
+ * Returns the secret with an otpauth URL and its QR code as a data URL.
+ */
+async function startSetup(user: Pick<UserRow, 'id' | 'email'>) {
+  const secret = totp.generateSecret();
+
+  try {
+    await userRepository.update(user.id, { totp_secret: encryptSecret(secret), totp_last_step: null }, {
+      match: { two_factor_enabled: false },
+    });
+  } catch {
+    throw new Error('Failed to start two-factor setup');
+  }
+
+  const otpauthUrl = totp.keyuri(user.email, config.twoFactor.issuer, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Check a code from the authenticator app. Each time step is accepted
+ * once, so an observed code cannot be replayed.
+ */
+async function verifyTotp(user: TotpUser, code: string) {
+  if (!user.totp_secret || !isTotpCode(code)) return false;
+
+  let secret;
+  try {
+    secret = decryptSecret(user.totp_secret);
+  } catch (err) {
+    logger.error('Failed to decrypt TOTP secret', { userId: user.id, error: (err as Error).message });
+    return false;
+  }
+
+  const delta = totp.checkDelta(code.replace(/\s/g, ''), secret);
+  if (delta === null) return false;
+
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+  if (user.totp_last_step !== null && step <= Number(user.totp_last_step)) return false;
+
+  // Matching on the previous step makes a concurrent use of the same code fail
+  try {
+    const updated = await userRepository.update(user.id, { totp_last_step: step }, {
+      match: { totp_last_step: user.totp_last_step },
+    });
+    return updated !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Use up a recovery code. Returns false when it is unknown or used.
+ */
+async function useRecoveryCode(user: Pick<UserRow, 'id'>, code: string) {
+  const used = await recoveryCodeRepository.use(user.id, hashRecoveryCode(code)).catch(() => false);
+
+  if (used) {
+    logger.info('Recovery code used', { userId: user.id });
+  }
+
+  return used;
+}
+
+/**
+ * Check a second factor at sign-in: an authenticator code or a recovery code
+ */
+async function verifyCode(user: TotpUser, code: unknown) {
+  const value = String(code || '').trim();
+  if (!value) return false;
+
+  return isTotpCode(value) ? verifyTotp(user, value) : useRecoveryCode(user, value);
+}
+
+/**
+ * Replace the user's recovery codes. The plain codes are only returned here.
+ */
+async function regenerateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  try {
+    await recoveryCodeRepository.replace(userId, codes.map(hashRecoveryCode));
+  } catch {
+    throw new Error('Failed to create recovery codes');
+  }
+
+  return codes;
+}
+
+async function countRecoveryCodes(userId: string) {
+  try {
+    return await recoveryCodeRepository.countUnused(userId);
+  } catch {
+    throw new Error('Failed to fetch two-factor status');
+  }
+}
+
+/**
+ * Turn two-factor authentication on once enrollment was confirmed, and
+ * return the first recovery codes
+ */
+async function enable(userId: string) {
+  try {
+    await userRepository.update(userId, { two_factor_enabled: true, two_factor_enabled_at: new Date().toISOString() });
+  } catch {
+    throw new Error('Failed to enable two-factor authentication');
+  }
+
+  return regenerateRecoveryCodes(userId);
+}
+
+async function disable(userId: string) {
+  try {
+    await userRepository.update(userId, {
+      two_factor_enabled: false,
+      two_factor_enabled_at: null,
+      totp_secret: null,
+      totp_last_step: null,
+    });
+  } catch {
+    throw new Error('Failed to disable two-factor authentication');
+  }
+
+  // Failures are logged; the codes are useless without two-factor anyway
+  await recoveryCodeRepository.removeAll(userId).catch(() => undefined);
+}
+
+export {
+  isRequiredFor,
+  startSetup,
+  verifyTotp,
+  verifyCode,
+  regenerateRecoveryCodes,
+  countRecoveryCodes,
+  enable,
+  disable,
+};
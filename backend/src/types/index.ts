@@ -0,0 +1,199 @@
+import type { Request } from 'express';
+import type {
+  ApiToken,
+  ApiTokenScope,
+  AppNotification,
+  AuthMethod,
+  AuthSession,
+  Bug,
+  Invitation,
+  LoginAttempt,
+  Permission,
+  Project,
+  ProjectMember,
+  QATester,
+  Role,
+  TestCase,
+  TestPlan,
+  TestStepResult,
+  TestSuite,
+  UserAccount,
+  UserRole,
+} from 'qualitysync-shared/api';
+
+// Resources as the API returns them, generated from its OpenAPI document
+// and shared with the frontend
+export type * from 'qualitysync-shared/api';
+
+// Bodies and query strings of requests
+export type * from './requests';
+
+// Rows
+
+// A row of the test_cases table
+export interface TestRow extends TestCase {
+  project_id: string;
+}
+
+// A row of the unlisted_bugs table
+export interface BugRow extends Bug {
+  project_id: string;
+  // The test case the bug was converted to
+  converted_test?: Pick<TestCase, 'id' | 'module_platform' | 'test_case' | 'status' | 'assigned_to'> & {
+    assignee?: QATester;
+  } | null;
+}
+
+/**
+ * A row of the users table, with the columns the API never returns
+ */
+export interface UserRow extends UserAccount {
+  role_id: string;
+  password_hash: string;
+  verification_token: string | null;
+  verification_token_expires: string | null;
+  reset_password_token: string | null;
+  reset_password_expires: string | null;
+  totp_secret: string | null;
+  totp_last_step: number | null;
+  two_factor_enabled: boolean;
+  two_factor_enabled_at: string | null;
+  sso_subject: string | null;
+  failed_login_attempts: number;
+  locked_until: string | null;
+  updated_at: string;
+}
+
+// A row of the projects table
+export type ProjectRow = Omit<Project, 'role' | 'role_id' | 'permissions'>;
+
+// A row of the project_members table
+export interface ProjectMemberRow {
+  project_id: string;
+  user_id: string;
+  role: UserRole;
+  role_id: string;
+  added_by: string | null;
+  created_at: string;
+  user?: ProjectMember['user'] & { is_verified: boolean };
+  project?: ProjectRow;
+}
+
+// A row of the roles table
+export type RoleRow = Omit<Role, 'permissions'> & { created_by: string | null };
+
+// A row of the sessions table
+export interface SessionRow extends Omit<AuthSession, 'current'> {
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  rotated_at: string | null;
+  revoked_at: string | null;
+  user?: SessionUser;
+}
+
+// A row of the api_tokens table
+export interface ApiTokenRow extends ApiToken {
+  token_hash: string;
+  created_by: string | null;
+  user?: SessionUser | null;
+}
+
+// A row of the invitations table
+export interface InvitationRow extends Omit<Invitation, 'expired'> {
+  project_id: string | null;
+  token_hash: string;
+  invited_by: string | null;
+  accepted_at: string | null;
+  accepted_user_id: string | null;
+  revoked_at: string | null;
+}
+
+// A row of the login_attempts table
+export interface LoginAttemptRow extends LoginAttempt {
+  user_id: string;
+}
+
+// A row of the notifications table
+export interface NotificationRow extends AppNotification {
+  user_id: string;
+  actor_id: string | null;
+}
+
+// A row of the test_suites table
+export interface SuiteRow extends Omit<TestSuite, 'test_count'> {
+  project_id: string;
+  test_count?: number;
+}
+
+// A row of the test_plans table
+export interface PlanRow extends Omit<TestPlan, 'progress'> {
+  project_id: string;
+}
+
+// A row of the test_step_results table
+export interface StepResultRow extends TestStepResult {
+  run_id: string;
+}
+
+// Requests
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set for every request by the requestId middleware
+      id: string;
+    }
+  }
+}
+
+/**
+ * A request whose route validations have run, with the body and query
+ * string they check (see ./requests). Both are unknown for routes without
+ * validations.
+ */
+export type ValidatedRequest<Body = unknown, Query = unknown> = Request<Record<string, string>, unknown, Body, Query>;
+
+// The columns of the user loaded with a session or an API token
+export type SessionUser = Pick<
+  UserRow,
+  'id' | 'email' | 'name' | 'role' | 'role_id' | 'is_verified' | 'is_service_account' | 'two_factor_enabled'
+>;
+
+/**
+ * The user a request is made by, with the permissions of the role they act
+ * in. Within a project that is their role in the project, and the
+ * account-wide role is kept as `account_role`, `account_role_id` and
+ * `account_permissions`.
+ */
+export interface AuthUser extends SessionUser {
+  permissions: Permission[];
+  account_role?: UserRole;
+  account_role_id?: string;
+  account_permissions?: Permission[];
+}
+
+/**
+ * A request that passed `authenticate`
+ */
+export interface AuthenticatedRequest<Body = unknown, Query = unknown> extends ValidatedRequest<Body, Query> {
+  user: AuthUser;
+  // Set when signed in, rather than authenticated with an API token
+  sessionId?: string;
+  authMethod?: AuthMethod;
+  apiToken?: { id: string; scopes: ApiTokenScope[] };
+}
+
+/**
+ * A request that passed `authenticate` and `resolveProject`
+ */
+export interface ProjectRequest<Body = unknown, Query = unknown> extends AuthenticatedRequest<Body, Query> {
+  project: ProjectRow;
+}
+
+/**
+ * A project request that passed a `singleFileUpload` middleware
+ */
+export interface UploadRequest<Body = unknown, Query = unknown> extends ProjectRequest<Body, Query> {
+  file: Express.Multer.File;
+}
@@ -0,0 +1,325 @@
+import type {
+  API_TOKEN_SCOPES,
+  BUG_SEVERITIES,
+  BUG_STATUSES,
+  MANUAL_BUG_STATUSES,
+  STEP_STATUSES,
+  TEST_RESULT_STATUSES,
+  TEST_STATUSES,
+  USER_ROLES,
+} from 'qualitysync-shared';
+import type {
+  AuditAction,
+  AuditEntityType,
+  ExportFormat,
+  PlanStatus,
+  TestOrigin,
+  TestStepInput,
+} from 'qualitysync-shared/api';
+
+// Bodies and query strings of requests, as the route validations leave
+// them. Fields checked against a list of the shared validation rules take
+// its values, and fields the validations convert, such as `page`, have the
+// converted type. Query parameters without a conversion stay strings.
+
+// One of the values of a shared list
+type OneOf<T extends readonly string[]> = T[number];
+
+// A 'true' or 'false' query parameter
+type BooleanString = 'true' | 'false';
+
+// Auth
+
+export interface RegisterBody {
+  email: string;
+  password: string;
+  name: string;
+  role: OneOf<typeof USER_ROLES>;
+}
+
+export interface LoginBody {
+  email: string;
+  password: string;
+}
+
+export interface LoginTwoFactorBody {
+  challenge: string;
+  code: string;
+}
+
+// Resending the verification email and requesting a password reset
+export interface EmailBody {
+  email: string;
+}
+
+export interface VerifyEmailBody {
+  token: string;
+}
+
+export interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+export interface AcceptInvitationBody {
+  token: string;
+  name?: string;
+  password: string;
+}
+
+export interface ChangePasswordBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface TwoFactorCodeBody {
+  code: string;
+}
+
+export interface DisableTwoFactorBody {
+  password: string;
+  code: string;
+}
+
+// Sent by the identity provider and not validated, so any value may come
+export interface SsoCallbackQuery {
+  error?: unknown;
+  error_description?: unknown;
+}
+
+// Lists
+
+export interface PaginationQuery {
+  page?: number;
+  limit?: number;
+  sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+  order?: 'asc' | 'desc';
+}
+
+export interface ExportQuery {
+  format?: ExportFormat;
+}
+
+// Tests
+
+export interface TestFilterQuery {
+  status?: OneOf<typeof TEST_STATUSES>;
+  module_platform?: string;
+  origin?: TestOrigin;
+  search?: string;
+  suite_id?: string;
+}
+
+export interface CreateTestBody {
+  module_platform: string;
+  test_case: string;
+  expected_result: string;
+  evidence_url?: string;
+  assigned_to: string;
+  suite_ids?: string[];
+  steps?: TestStepInput[];
+}
+
+export interface UpdateTestBody extends Partial<CreateTestBody> {
+  external_key?: string | null;
+}
+
+// Multipart fields sent along with a spreadsheet
+export interface ImportTestsBody {
+  dry_run?: BooleanString;
+  // JSON of the column mapping
+  mapping?: string;
+}
+
+// Multipart fields sent along with a CI report
+export interface IngestTestResultsBody {
+  module_platform?: string;
+}
+
+// The outcome of one step, as a run is recorded with it
+export interface StepResultInput {
+  step_id: string;
+  status: OneOf<typeof STEP_STATUSES>;
+  notes?: string;
+}
+
+export interface UpdateTestResultBody {
+  // Derived from step_results when those are given
+  status?: OneOf<typeof TEST_RESULT_STATUSES>;
+  evidence_url?: string;
+  notes?: string;
+  duration_seconds?: number;
+  step_results?: StepResultInput[];
+}
+
+export interface MarkTestFixedBody {
+  fix_reference: string;
+  fix_notes?: string;
+}
+
+// Bugs
+
+export interface BugFilterQuery {
+  status?: OneOf<typeof BUG_STATUSES>;
+  severity?: OneOf<typeof BUG_SEVERITIES>;
+  module_platform?: string;
+  search?: string;
+}
+
+export interface CreateBugBody {
+  module_platform: string;
+  jam_link: string;
+  description: string;
+  note?: string;
+  severity?: OneOf<typeof BUG_SEVERITIES>;
+}
+
+export interface UpdateBugBody extends Partial<CreateBugBody> {
+  status?: OneOf<typeof MANUAL_BUG_STATUSES>;
+}
+
+export interface UpdateBugStatusBody {
+  status: OneOf<typeof MANUAL_BUG_STATUSES>;
+  note?: string;
+}
+
+export interface ConvertBugBody {
+  assigned_to: string;
+  test_case: string;
+  expected_result: string;
+}
+
+// Suites and plans
+
+export interface SuiteListQuery {
+  search?: string;
+}
+
+export interface CreateSuiteBody {
+  name: string;
+  description?: string;
+  test_case_ids?: string[];
+}
+
+export type UpdateSuiteBody = Partial<CreateSuiteBody>;
+
+export interface PlanListQuery {
+  status?: PlanStatus;
+}
+
+export interface CreatePlanBody {
+  name: string;
+  release: string;
+  suite_id: string;
+  start_date?: string;
+  due_date?: string;
+}
+
+export interface UpdatePlanBody {
+  name?: string;
+  release?: string;
+  status?: PlanStatus;
+  start_date?: string;
+  due_date?: string;
+}
+
+// Comments
+
+// Exactly one of them is given
+export interface CommentTarget {
+  test_case_id?: string;
+  bug_id?: string;
+}
+
+export interface CreateCommentBody extends CommentTarget {
+  body: string;
+}
+
+export interface UpdateCommentBody {
+  body: string;
+}
+
+// Users, projects and roles
+
+export interface UserListQuery extends PaginationQuery {
+  role?: OneOf<typeof USER_ROLES>;
+  search?: string;
+  service_account?: BooleanString;
+}
+
+export interface CreateUserBody {
+  email: string;
+  name: string;
+  role: OneOf<typeof USER_ROLES>;
+  is_service_account?: boolean;
+  project_id?: string;
+}
+
+export interface InviteUserBody {
+  email: string;
+  name: string;
+  role: OneOf<typeof USER_ROLES>;
+  project_id?: string;
+}
+
+export interface UpdateUserBody {
+  name?: string;
+  role?: OneOf<typeof USER_ROLES>;
+  role_id?: string;
+}
+
+export interface LoginHistoryQuery {
+  limit?: number;
+}
+
+export interface ProjectBody {
+  name: string;
+  description?: string;
+}
+
+export interface ProjectMemberBody {
+  role_id: string;
+}
+
+export interface CreateRoleBody {
+  name: string;
+  description?: string;
+  base_role: OneOf<typeof USER_ROLES>;
+  // Checked against the permissions table by the handler
+  permissions: string[];
+}
+
+export interface UpdateRoleBody {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+}
+
+// API tokens
+
+export interface ApiTokenOwnerQuery {
+  user_id?: string;
+}
+
+export interface CreateApiTokenBody {
+  name: string;
+  scopes: OneOf<typeof API_TOKEN_SCOPES>[];
+  expires_in_days?: number | null;
+  user_id?: string;
+}
+
+// Audit log and notifications
+
+export interface AuditListQuery extends PaginationQuery {
+  action?: AuditAction;
+  entity_type?: AuditEntityType;
+  entity_id?: string;
+  actor_id?: string;
+  request_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface NotificationListQuery extends PaginationQuery {
+  unread?: BooleanString;
+}
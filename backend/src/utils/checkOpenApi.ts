@@ -0,0 +1,279 @@
+/**
+ * OpenAPI Check
+ *
+ * Compares the OpenAPI document in src/docs with the routes the API
+ * mounts, so the two cannot drift apart.
+ *
+ * Usage:
+ *   npm run openapi:check
+ *
+ * Every route needs an operation and every operation a route. For each
+ * express-validator chain of a route, the field must be documented and
+ * its length limits, allowed values, integer bounds and format must match
+ * the document. Fields the validators always require must be required in
+ * the document as well. Checks done in controllers are not covered.
+ *
+ * Exits with 1 and lists the differences when they do not match.
+ */
+
+import routes from '../routes';
+import openApiDocument from '../docs/openapi';
+import type { HttpMethod, Operation, Schema } from '../docs/helpers';
+
+// The parts of Express 4 router and express-validator internals the check reads
+
+// An item of a validation chain. Only validations have these fields;
+// conditions and sanitizers are told apart by their class.
+interface ChainItem {
+  validator: { name: string };
+  options: unknown[];
+  negated: boolean;
+}
+
+interface Chain {
+  fields: string[];
+  locations: string[];
+  optional: unknown;
+  stack: ChainItem[];
+}
+
+interface Layer {
+  regexp: RegExp;
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: { builder?: { build(): Chain } } }[];
+  };
+  handle: { stack?: Layer[] };
+}
+
+interface Router {
+  stack: Layer[];
+}
+
+interface Route {
+  method: string;
+  path: string;
+  chains: Chain[];
+}
+
+// Mounted under /api but not part of the API itself
+const IGNORED_PATHS = ['/docs'];
+const IGNORED_ROUTES = ['GET /debug/supabase'];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// String formats the validators check, by validator name
+const FORMATS: Record<string, string[]> = {
+  isUUID: ['uuid'],
+  isEmail: ['email'],
+  isURL: ['uri'],
+  isISO8601: ['date', 'date-time'],
+};
+
+/**
+ * Path of an Express 4 `router.use()` mount from its regexp
+ */
+function mountPath(layer: Layer) {
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+}
+
+// Express `:id` params are OpenAPI `{id}` templates
+const toTemplate = (routePath: string) => routePath.replace(/:(\w+)/g, '{$1}');
+
+/**
+ * Every route of a router with its validation chains, mounts included
+ */
+function collectRoutes(router: Router, prefix = ''): Route[] {
+  return router.stack.flatMap((layer): Route[] => {
+    if (layer.route) {
+      const routePath = toTemplate(`${prefix}${layer.route.path === '/' ? '' : layer.route.path}`) || '/';
+      const chains = layer.route.stack
+        .map((routeLayer) => routeLayer.handle.builder)
+        .filter((builder) => builder !== undefined)
+        .map((builder) => builder.build());
+
+      return Object.keys(layer.route.methods)
+        .filter((method) => HTTP_METHODS.includes(method))
+        .map((method) => ({ method, path: routePath, chains }));
+    }
+
+    if (layer.handle && layer.handle.stack) {
+      const mountedAt = mountPath(layer);
+      if (IGNORED_PATHS.includes(`${prefix}${mountedAt}`)) return [];
+      return collectRoutes(layer.handle as Router, `${prefix}${mountedAt}`);
+    }
+
+    return [];
+  });
+}
+
+/**
+ * Schema behind a $ref, and behind the allOf wrapper of a nullable $ref
+ */
+function resolve(schema: Schema | undefined): Schema | undefined {
+  if (!schema) return schema;
+  if (schema.$ref) {
+    return resolve(openApiDocument.components.schemas[schema.$ref.split('/').pop() ?? '']);
+  }
+  if (schema.allOf && schema.allOf.length === 1) {
+    return resolve(schema.allOf[0]);
+  }
+  return schema;
+}
+
+/**
+ * Schema of the request body, query or path parameters of an operation,
+ * as an object schema
+ */
+function locationSchema(operation: Operation, location: string): Schema | undefined {
+  if (location === 'body') {
+    const content = operation.requestBody ? operation.requestBody.content : {};
+    const media = content['application/json'] || content['multipart/form-data'];
+    return media ? resolve(media.schema) : { properties: {}, required: [] };
+  }
+
+  const parameters = (operation.parameters || []).filter((parameter) => (
+    parameter.in === (location === 'params' ? 'path' : 'query')
+  ));
+  return {
+    properties: Object.fromEntries(parameters.map((parameter) => [parameter.name!, parameter.schema!])),
+    required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name!),
+  };
+}
+
+/**
+ * Schema of a field such as `steps.*.order`, and whether it is required
+ * in its parent object
+ */
+function fieldSchema(schema: Schema | undefined, field: string): { schema?: Schema; required?: boolean } {
+  let current = schema;
+  let required = false;
+
+  for (const part of field.split('.')) {
+    if (!current) return {};
+    if (part === '*') {
+      current = resolve(current.items);
+      required = false;
+    } else {
+      required = (current.required || []).includes(part);
+      current = resolve((current.properties || {})[part]);
+    }
+  }
+
+  return { schema: current, required };
+}
+
+const sameValues = (a: string[], b: string[]) => a.length === b.length && a.every((value) => b.includes(value));
+
+/**
+ * The min and max of isLength or isInt options, e.g. `{ max: 255 }`
+ */
+const rangeOf = (option: unknown) => {
+  const { min, max } = typeof option === 'object' && option !== null ? option as Record<string, unknown> : {};
+  return {
+    min: typeof min === 'number' ? min : undefined,
+    max: typeof max === 'number' ? max : undefined,
+  };
+};
+
+/**
+ * Differences between one validation chain and the documented field
+ */
+function compareChain(chain: Chain, operation: Operation, label: string) {
+  const problems: string[] = [];
+  const [location] = chain.locations;
+  const isOptional = chain.optional !== false;
+  const isConditional = chain.stack.some((item) => ['ChainCondition', 'CustomCondition'].includes(item.constructor.name));
+  const validations = chain.stack.filter((item) => item.constructor.name === 'StandardValidation' && !item.negated);
+
+  for (const field of chain.fields) {
+    const name = `${label} ${location}.${field}`;
+    const { schema, required } = fieldSchema(locationSchema(operation, location), field);
+
+    if (!schema) {
+      problems.push(`${name} is validated but not documented`);
+      continue;
+    }
+
+    if (!isOptional && !isConditional && validations.length > 0 && !field.includes('*') && !required) {
+      problems.push(`${name} is required by the validators but optional in the document`);
+    }
+
+    for (const { validator, options } of validations) {
+      const [option] = options;
+
+      // A list of allowed values is stricter than a length limit
+      if (validator.name === 'isLength' && !schema.enum) {
+        const { min, max } = rangeOf(option);
+        if ((max || undefined) !== schema.maxLength) {
+          problems.push(`${name} allows at most ${max} characters, the document says ${schema.maxLength}`);
+        }
+        if ((min ?? 0) > 0 && min !== schema.minLength) {
+          problems.push(`${name} needs at least ${min} characters, the document says ${schema.minLength}`);
+        }
+      }
+
+      if (validator.name === 'isIn') {
+        const allowed = Array.isArray(option) ? option.map(String) : [];
+        const values = schema.type === 'boolean' ? ['true', 'false'] : schema.enum || [];
+        if (!sameValues(allowed, values.map(String))) {
+          problems.push(`${name} allows ${allowed.join(', ')}, the document says ${values.join(', ') || 'anything'}`);
+        }
+      }
+
+      if (validator.name === 'isInt') {
+        const { min, max } = rangeOf(option);
+        if (schema.type !== 'integer' || min !== schema.minimum || max !== schema.maximum) {
+          problems.push(`${name} is an integer from ${min} to ${max}, the document says ${schema.type} from ${schema.minimum} to ${schema.maximum}`);
+        }
+      }
+
+      if (FORMATS[validator.name] && !FORMATS[validator.name].includes(schema.format ?? '')) {
+        problems.push(`${name} is checked with ${validator.name}, the document says format ${schema.format}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+function main() {
+  const mounted = collectRoutes(routes as unknown as Router)
+    .filter((route) => !IGNORED_ROUTES.includes(`${route.method.toUpperCase()} ${route.path}`));
+  const problems: string[] = [];
+
+  for (const route of mounted) {
+    const label = `${route.method.toUpperCase()} ${route.path}`;
+    const operation = (openApiDocument.paths[route.path] || {})[route.method as HttpMethod];
+
+    if (!operation) {
+      problems.push(`${label} is not documented`);
+      continue;
+    }
+
+    for (const chain of route.chains) {
+      problems.push(...compareChain(chain, operation, label));
+    }
+  }
+
+  for (const [documentedPath, pathItem] of Object.entries(openApiDocument.paths)) {
+    for (const method of Object.keys(pathItem).filter((key) => HTTP_METHODS.includes(key))) {
+      if (!mounted.some((route) => route.path === documentedPath && route.method === method)) {
+        problems.push(`${method.toUpperCase()} ${documentedPath} is documented but has no route`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error(`The OpenAPI document does not match the routes:\n\n${problems.join('\n')}`);
+    process.exit(1);
+  }
+
+  console.log(`The OpenAPI document matches all ${mounted.length} routes.`);
+}
+
+main();
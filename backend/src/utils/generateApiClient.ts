@@ -0,0 +1,306 @@
+/**
+ * API Client Generator
+ *
+ * Writes the API types and the frontend API client from the OpenAPI
+ * document in src/docs:
+ *   shared/api.d.ts               a type for every schema of the document,
+ *                                 used by the backend and the frontend
+ *   frontend/src/lib/apiClient.ts an `<group>Api` object per operationId
+ *                                 group, e.g. `test.getAll` becomes
+ *                                 `testApi.getAll`
+ *
+ * Usage:
+ *   npm run openapi:client
+ *
+ * Methods take the path parameters, then the query parameters or request
+ * body, and resolve to the response body. Operations that redirect or
+ * stream (single sign-on, server-sent events) are left out; the browser
+ * navigates to those.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import openApiDocument from '../docs/openapi';
+import type { HttpMethod, Operation, Parameter, Schema } from '../docs/helpers';
+
+const typesFile = path.join(__dirname, '../../../shared/api.d.ts');
+const clientFile = path.join(__dirname, '../../../frontend/src/lib/apiClient.ts');
+
+const MAX_LINE = 100;
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+const HEADER = [
+  '// Generated from the OpenAPI document of the backend by',
+  '// `npm run openapi:client`. Do not edit by hand.',
+].join('\n');
+
+const schemaName = (ref: string) => ref.slice(ref.lastIndexOf('/') + 1);
+const isIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+const propertyKey = (key: string) => (isIdentifier(key) ? key : `'${key}'`);
+
+/**
+ * `// ` comment lines of a description, wrapped to the line length
+ */
+function comment(text: string, indent: number) {
+  const prefix = `${' '.repeat(indent)}// `;
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/)) {
+    if (line && prefix.length + line.length + word.length + 1 > 80) {
+      lines.push(`${prefix}${line}`);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(`${prefix}${line}`);
+
+  return lines.join('\n');
+}
+
+const withNull = (type: string, schema: Schema) => (schema.nullable ? `${type} | null` : type);
+
+// Unions and intersections need parentheses before []
+const arrayOf = (type: string) => (/[|&]/.test(type) ? `(${type})[]` : `${type}[]`);
+
+/**
+ * Members of an object type, one per line with their descriptions
+ */
+function renderMembers(schema: Schema, indent: number): string[] {
+  const required = schema.required || [];
+
+  return Object.entries(schema.properties ?? {}).map(([key, property]) => {
+    const name = `${propertyKey(key)}${required.includes(key) ? '' : '?'}`;
+    const type = renderType(property, indent, indent + name.length + 2, 1);
+    const member = `${' '.repeat(indent)}${name}: ${type};`;
+    return property.description ? `${comment(property.description, indent)}\n${member}` : member;
+  });
+}
+
+/**
+ * TypeScript type of a schema. Object types stay on one line when they have
+ * no descriptions and fit in the line from `column` on, with `trailing`
+ * more characters after them.
+ */
+function renderType(schema: Schema, indent = 0, column = indent, trailing = 0): string {
+  if (schema.$ref) return schemaName(schema.$ref);
+
+  if (schema.allOf) {
+    const types = schema.allOf.map((member) => renderType(member, indent, column));
+    return withNull(types.join(' & '), schema);
+  }
+
+  if (schema.oneOf) {
+    return withNull(schema.oneOf.map((member) => renderType(member, indent, column)).join(' | '), schema);
+  }
+
+  if (schema.enum) {
+    return withNull(schema.enum.map((value) => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | '), schema);
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return withNull(schema.format === 'binary' ? 'Blob' : 'string', schema);
+    case 'integer':
+    case 'number':
+      return withNull('number', schema);
+    case 'boolean':
+      return withNull('boolean', schema);
+    case 'array':
+      return withNull(arrayOf(renderType(schema.items ?? {}, indent, column)), schema);
+    case 'object':
+      break;
+    default:
+      return 'unknown';
+  }
+
+  if (schema.additionalProperties) {
+    return withNull(`Record<string, ${renderType(schema.additionalProperties, indent, column)}>`, schema);
+  }
+  if (!schema.properties || Object.keys(schema.properties).length === 0) {
+    return withNull('Record<string, unknown>', schema);
+  }
+
+  const hasDescriptions = Object.values(schema.properties).some((property) => property.description);
+  const oneLine = `{ ${renderMembers(schema, 0).join(' ').replace(/;$/, '')} }`;
+  const nullLength = schema.nullable ? ' | null'.length : 0;
+  if (!hasDescriptions && !oneLine.includes('\n') && column + oneLine.length + nullLength + trailing <= MAX_LINE) {
+    return withNull(oneLine, schema);
+  }
+
+  return withNull(`{\n${renderMembers(schema, indent + 2).join('\n')}\n${' '.repeat(indent)}}`, schema);
+}
+
+/**
+ * A type or interface for a schema of the document
+ */
+function renderDeclaration(name: string, schema: Schema) {
+  const description = schema.description ? `${comment(schema.description, 0)}\n` : '';
+
+  // A schema extending another one
+  if (schema.allOf && schema.allOf.length === 2 && schema.allOf[0].$ref && schema.allOf[1].properties) {
+    const members = renderMembers(schema.allOf[1], 2).join('\n');
+    return `${description}export interface ${name} extends ${schemaName(schema.allOf[0].$ref)} {\n${members}\n}`;
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    return `${description}export interface ${name} {\n${renderMembers(schema, 2).join('\n')}\n}`;
+  }
+
+  const type = renderType(schema);
+  const declaration = `export type ${name} = ${type};`;
+  if (declaration.length <= MAX_LINE || !schema.enum) {
+    return `${description}${declaration}`;
+  }
+
+  // Long unions get a line per member
+  return `${description}export type ${name} =\n${type.split(' | ').map((member) => `  | ${member}`).join('\n')};`;
+}
+
+function generateTypes() {
+  const declarations = Object.entries(openApiDocument.components.schemas)
+    .map(([name, schema]) => renderDeclaration(name, schema));
+
+  return `${HEADER}\n\n${declarations.join('\n\n')}\n`;
+}
+
+/**
+ * Successful response of an operation: `json` with its schema, `file` for
+ * downloads, or nothing for redirects and streams
+ */
+function successResponse(operation: Operation) {
+  const [status] = Object.keys(operation.responses).filter((code) => code.startsWith('2')).sort();
+  const content = status && operation.responses[status].content;
+  if (!content) return null;
+  if (content['application/json']) return { kind: 'json', schema: content['application/json'].schema } as const;
+  if (Object.values(content).every((media) => media.schema.format === 'binary')) return { kind: 'file' } as const;
+  return null;
+}
+
+// Query parameters as one object schema
+function querySchema(parameters: Parameter[]): Schema | null {
+  const query = parameters.filter((parameter) => parameter.in === 'query');
+  if (query.length === 0) return null;
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(query.map((parameter) => [parameter.name!, parameter.schema!])),
+    required: query.filter((parameter) => parameter.required).map((parameter) => parameter.name!),
+  };
+}
+
+/**
+ * One method of an API object
+ */
+function renderMethod(pathTemplate: string, method: HttpMethod, operation: Operation) {
+  const response = successResponse(operation)!;
+  const parameters = operation.parameters || [];
+  const pathParams = parameters.filter((parameter) => parameter.in === 'path');
+  const query = querySchema(parameters);
+  const content = operation.requestBody ? operation.requestBody.content : {};
+  const isMultipart = Boolean(content['multipart/form-data']);
+  const body = (content['application/json'] || content['multipart/form-data'] || {}).schema;
+
+  const args = pathParams.map((parameter): [string, Schema] => [parameter.name!, parameter.schema!]);
+  if (query) args.push([`params${query.required!.length > 0 ? '' : '?'}`, query]);
+  if (body) args.push(['data', body]);
+
+  // One argument opens its type on the method line, more get a line each
+  const methodName = propertyKey(operation.operationId.split('.')[1]);
+  const head = `  ${methodName}: async (`;
+  let signature = `(${args.map(([name, schema]) => `${name}: ${renderType(schema, 2, head.length + name.length + 2, 7)}`).join(', ')})`;
+  if (args.length > 1 && (signature.includes('\n') || head.length + signature.length + 5 > MAX_LINE)) {
+    const lines = args.map(([name, schema]) => `    ${name}: ${renderType(schema, 4, 6 + name.length, 1)}`);
+    signature = `(\n${lines.join(',\n')}\n  )`;
+  }
+
+  const url = pathParams.length > 0
+    ? `\`${pathTemplate.replace(/\{(\w+)\}/g, '${encodeURIComponent($1)}')}\``
+    : `'${pathTemplate}'`;
+
+  const config: string[] = [];
+  if (query) config.push('params');
+  if (isMultipart) config.push("headers: { 'Content-Type': 'multipart/form-data' }");
+  if (response.kind === 'file') config.push("responseType: 'blob'");
+  const options = config.length > 0 ? `{ ${config.join(', ')} }` : null;
+
+  const requestArgs = [url];
+  if (['post', 'put', 'patch'].includes(method)) {
+    if (body) requestArgs.push(isMultipart ? 'toFormData(data)' : 'data');
+    else if (options) requestArgs.push('undefined');
+  }
+  if (options) requestArgs.push(options);
+
+  const call = `    const response = await api.${method}<`;
+  const callArgs = `>(${requestArgs.join(', ')});`;
+  const responseType = response.kind === 'file'
+    ? 'Blob'
+    : renderType(response.schema, 4, call.length, callArgs.length);
+
+  return [
+    comment(operation.summary, 2),
+    `  ${methodName}: async ${signature} => {`,
+    `${call}${responseType}${callArgs}`,
+    '    return response.data;',
+    '  },',
+  ].join('\n');
+}
+
+function generateClient() {
+  const groups = new Map<string, string[]>();
+  const usedTypes = new Set<string>();
+  let usesFormData = false;
+
+  for (const [pathTemplate, pathItem] of Object.entries(openApiDocument.paths)) {
+    for (const method of HTTP_METHODS.filter((key) => pathItem[key])) {
+      const operation = pathItem[method]!;
+      if (!successResponse(operation)) continue;
+
+      const [group] = operation.operationId.split('.');
+      if (!groups.has(group)) groups.set(group, []);
+      const source = renderMethod(pathTemplate, method, operation);
+      groups.get(group)!.push(source);
+
+      usesFormData = usesFormData || Boolean(operation.requestBody && operation.requestBody.content['multipart/form-data']);
+      // Schemas the code names, leaving out the comments
+      for (const [, type] of source.replace(/\/\/.*$/gm, '').matchAll(/\b([A-Z]\w*)\b/g)) {
+        if (openApiDocument.components.schemas[type]) usedTypes.add(type);
+      }
+    }
+  }
+
+  const imports = [...usedTypes].sort().map((type) => `  ${type},`).join('\n');
+  const formDataHelper = usesFormData ? [
+    '',
+    '// Multipart bodies; files are sent as they are, other values as text',
+    'const toFormData = (fields: Record<string, unknown>) => {',
+    '  const formData = new FormData();',
+    '  for (const [key, value] of Object.entries(fields)) {',
+    '    if (value === undefined) continue;',
+    '    formData.append(key, value instanceof Blob ? value : String(value));',
+    '  }',
+    '  return formData;',
+    '};',
+  ].join('\n') : '';
+
+  const objects = [...groups].map(([group, methods]) => (
+    `export const ${group}Api = {\n${methods.join('\n\n')}\n};`
+  ));
+
+  return [
+    HEADER,
+    '',
+    "import api from './api';",
+    `import type {\n${imports}\n} from 'qualitysync-shared/api';`,
+    formDataHelper,
+    '',
+    objects.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+fs.writeFileSync(typesFile, generateTypes());
+fs.writeFileSync(clientFile, generateClient());
+
+console.log(`Wrote ${path.relative(process.cwd(), typesFile)} and ${path.relative(process.cwd(), clientFile)}`);
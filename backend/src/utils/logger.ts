@@ -1,5 +1,5 @@
-const winston = require('winston');
-const config = require('../config');
+import winston from 'winston';
+import config from '../config';
 
 const { combine, timestamp, printf, colorize, errors } = winston.format;
 
@@ -58,11 +58,4 @@ const logger = winston.createLogger({
   ],
 });
 
-// Create stream for Morgan HTTP logging
-logger.stream = {
-  write: (message) => {
-    logger.http(message.trim());
-  },
-};
-
-module.exports = logger;
+export default logger;
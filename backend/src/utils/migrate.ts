@@ -0,0 +1,345 @@
+/**
+ * Migration Runner
+ *
+ * Applies the versioned SQL files in supabase/migrations to the database at
+ * DATABASE_URL and records each one in the schema_migrations table.
+ *
+ * Usage:
+ *   npm run migrate:up                 apply every pending migration
+ *   npm run migrate:down [-- <count>]  revert the latest migration(s)
+ *   npm run migrate:status             list applied and pending migrations
+ *   npm run migrate:create -- <name>   add an empty migration file
+ *   npm run migrate:baseline -- <version>
+ *       record migrations up to <version> as applied without running them,
+ *       for databases that were set up by hand before this runner existed
+ *
+ * A migration file is named `<version>_<name>.sql` and has a
+ * `-- migrate:up` and a `-- migrate:down` section. Each migration runs in
+ * its own transaction together with its schema_migrations row, so a
+ * failing migration leaves nothing behind. The checksum of the up section
+ * is stored when it is applied; up and down refuse to run once an applied
+ * file has been edited or removed.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Client } from 'pg';
+import config from '../config';
+
+const migrationsDir = path.join(__dirname, '../../supabase/migrations');
+
+// Key of the advisory lock that keeps two runners from migrating at once
+const LOCK_KEY = 7412031;
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+
+class MigrationError extends Error {}
+
+interface Migration {
+  version: string;
+  name: string;
+  file: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+// A row of schema_migrations
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+interface FileEntry extends Migration {
+  state: 'applied' | 'pending' | 'modified';
+  appliedAt?: Date;
+}
+
+// An applied migration whose file is gone
+interface MissingEntry {
+  version: string;
+  name: string;
+  file: string;
+  state: 'missing';
+  appliedAt: Date;
+}
+
+type StatusEntry = FileEntry | MissingEntry;
+
+type Command = (client: Client, argument?: string) => Promise<void>;
+
+/**
+ * Up and down sections of a migration file
+ */
+function parseSections(file: string, source: string) {
+  const upStart = source.indexOf(UP_MARKER);
+  const downStart = source.indexOf(DOWN_MARKER);
+  if (upStart === -1 || downStart === -1 || downStart < upStart) {
+    throw new MigrationError(`${file} needs a "${UP_MARKER}" section followed by a "${DOWN_MARKER}" section`);
+  }
+
+  return {
+    up: source.slice(upStart + UP_MARKER.length, downStart).trim(),
+    down: source.slice(downStart + DOWN_MARKER.length).trim(),
+  };
+}
+
+const checksumOf = (sql: string) => crypto.createHash('sha256').update(sql).digest('hex');
+
+/**
+ * Migration files in version order
+ */
+function loadMigrations(): Migration[] {
+  const migrations = fs.readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.sql'))
+    .map((file) => {
+      const match = FILE_PATTERN.exec(file);
+      if (!match) {
+        throw new MigrationError(`${file} is not named <version>_<name>.sql`);
+      }
+
+      const { up, down } = parseSections(file, fs.readFileSync(path.join(migrationsDir, file), 'utf8'));
+      return { version: match[1], name: match[2], file, up, down, checksum: checksumOf(up) };
+    })
+    .sort((a, b) => Number(a.version) - Number(b.version));
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && Number(migration.version) === Number(migrations[index - 1].version)) {
+      throw new MigrationError(`${migrations[index - 1].file} and ${migration.file} share version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+}
+
+async function connect() {
+  if (!config.database.url) {
+    throw new MigrationError('DATABASE_URL is not set');
+  }
+
+  const client = new Client({ connectionString: config.database.url });
+  await client.connect();
+  return client;
+}
+
+async function createMigrationsTable(client: Client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  // Only the runner reads it; keep it out of the Supabase API
+  await client.query('ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY');
+}
+
+/**
+ * Every migration file and applied migration, oldest first. `state` is
+ * applied, pending, modified (edited since it was applied) or missing
+ * (applied, but its file is gone).
+ */
+async function readStatus(client: Client): Promise<StatusEntry[]> {
+  const { rows } = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  const applied = new Map(rows.map((row) => [row.version, row]));
+  const migrations = loadMigrations();
+
+  const entries = migrations.map((migration): StatusEntry => {
+    const record = applied.get(migration.version);
+    applied.delete(migration.version);
+
+    if (!record) return { ...migration, state: 'pending' };
+    return {
+      ...migration,
+      appliedAt: record.applied_at,
+      state: record.checksum === migration.checksum ? 'applied' : 'modified',
+    };
+  });
+
+  const missing = [...applied.values()].map((record): StatusEntry => ({
+    version: record.version,
+    name: record.name,
+    file: `${record.version}_${record.name}.sql`,
+    appliedAt: record.applied_at,
+    state: 'missing',
+  }));
+
+  return [...entries, ...missing].sort((a, b) => Number(a.version) - Number(b.version));
+}
+
+/**
+ * Fail when an applied migration no longer matches what was run
+ */
+function verifyApplied(entries: StatusEntry[]) {
+  const problems = entries
+    .filter((entry) => entry.state === 'modified' || entry.state === 'missing')
+    .map((entry) => (entry.state === 'modified'
+      ? `${entry.file} was edited after it was applied`
+      : `${entry.file} was applied but the file is missing`));
+
+  if (problems.length > 0) {
+    throw new MigrationError(`${problems.join('\n')}\nAdd a new migration instead of changing applied ones.`);
+  }
+}
+
+/**
+ * Run a migration section and its schema_migrations change in one
+ * transaction
+ */
+async function runInTransaction(client: Client, migration: Migration, sql: string, record: () => Promise<unknown>) {
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new MigrationError(`${migration.file} failed, nothing from it was applied: ${(error as Error).message}`);
+  }
+}
+
+async function up(client: Client) {
+  const entries = await readStatus(client);
+  verifyApplied(entries);
+
+  const pending = entries.filter((entry): entry is FileEntry => entry.state === 'pending');
+  if (pending.length === 0) {
+    console.log('Database is up to date.');
+    return;
+  }
+
+  for (const migration of pending) {
+    console.log(`Applying ${migration.file}`);
+    await runInTransaction(client, migration, migration.up, () => client.query(
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+      [migration.version, migration.name, migration.checksum]
+    ));
+  }
+
+  console.log(`\nApplied ${pending.length} migration(s).`);
+}
+
+async function down(client: Client, count = '1') {
+  const steps = parseInt(count);
+  if (!(steps > 0)) {
+    throw new MigrationError('Number of migrations to revert must be a positive integer');
+  }
+
+  const entries = await readStatus(client);
+  verifyApplied(entries);
+
+  const toRevert = entries.filter((entry): entry is FileEntry => entry.state === 'applied').reverse().slice(0, steps);
+  if (toRevert.length === 0) {
+    console.log('No migrations have been applied.');
+    return;
+  }
+
+  for (const migration of toRevert) {
+    if (!migration.down) {
+      throw new MigrationError(`${migration.file} has no down section, so it cannot be reverted`);
+    }
+
+    console.log(`Reverting ${migration.file}`);
+    await runInTransaction(client, migration, migration.down, () => client.query(
+      'DELETE FROM schema_migrations WHERE version = $1',
+      [migration.version]
+    ));
+  }
+
+  console.log(`\nReverted ${toRevert.length} migration(s).`);
+}
+
+async function status(client: Client) {
+  const entries = await readStatus(client);
+
+  for (const entry of entries) {
+    const appliedAt = entry.appliedAt ? entry.appliedAt.toISOString() : '';
+    console.log(`${entry.state.padEnd(10)} ${entry.file.padEnd(40)} ${appliedAt}`);
+  }
+
+  const pending = entries.filter((entry) => entry.state === 'pending').length;
+  console.log(`\n${entries.length - pending} applied, ${pending} pending`);
+
+  // A non-zero exit lets deploy scripts stop on drifted migrations
+  verifyApplied(entries);
+}
+
+async function baseline(client: Client, version?: string) {
+  if (!version) {
+    throw new MigrationError('Usage: npm run migrate:baseline -- <version>');
+  }
+
+  const entries = await readStatus(client);
+  verifyApplied(entries);
+
+  const toRecord = entries.filter((entry): entry is FileEntry => (
+    entry.state === 'pending' && Number(entry.version) <= Number(version)
+  ));
+
+  for (const migration of toRecord) {
+    await client.query(
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+      [migration.version, migration.name, migration.checksum]
+    );
+    console.log(`Recorded ${migration.file} as applied`);
+  }
+
+  console.log(`\nRecorded ${toRecord.length} migration(s).`);
+}
+
+/**
+ * Add an empty migration numbered after the latest one
+ */
+function create(name?: string) {
+  const slug = (name || '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  if (!slug) {
+    throw new MigrationError('Usage: npm run migrate:create -- <name>');
+  }
+
+  const migrations = loadMigrations();
+  const latest = migrations.length > 0 ? Number(migrations[migrations.length - 1].version) : 0;
+  const file = `${String(latest + 1).padStart(3, '0')}_${slug}.sql`;
+  const title = slug.split('_').map((word) => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+  fs.writeFileSync(
+    path.join(migrationsDir, file),
+    `-- QualitySync ${title}\n\n${UP_MARKER}\n\n\n${DOWN_MARKER}\n`
+  );
+  console.log(`Created supabase/migrations/${file}`);
+}
+
+const commands: Record<string, Command> = { up, down, status, baseline };
+
+async function main() {
+  const [command, argument] = process.argv.slice(2);
+
+  if (command === 'create') {
+    create(argument);
+    return;
+  }
+  if (!commands[command]) {
+    throw new MigrationError('Usage: tsx src/utils/migrate.ts <up|down|status|create|baseline>');
+  }
+
+  const client = await connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY]);
+    await createMigrationsTable(client);
+    await commands[command](client, argument);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof MigrationError ? error.message : `Migration error: ${(error as Error).message}`);
+  process.exit(1);
+});
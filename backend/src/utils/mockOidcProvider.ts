@@ -0,0 +1,185 @@
+/**
+ * Mock OpenID Connect Provider
+ *
+ * A minimal identity provider for trying single sign-on locally. The
+ * sign-in page lets you pick any email, name and groups, so provisioning
+ * and role mapping can be exercised without a real IdP.
+ *
+ * Usage: npm run mock:oidc
+ *
+ * Then set in .env:
+ *   SSO_ISSUER_URL=http://localhost:9400
+ *   SSO_CLIENT_ID=qualitysync
+ *   SSO_CLIENT_SECRET=mock-secret
+ *
+ * Never expose this server: it signs in anyone as anyone.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import dotenv from 'dotenv';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const port = parseInt(process.env.MOCK_OIDC_PORT ?? '', 10) || 9400;
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.SSO_CLIENT_ID || 'qualitysync';
+const clientSecret = process.env.SSO_CLIENT_SECRET || 'mock-secret';
+
+// A new signing key on every start; clients fetch it from the JWKS
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const keyId = crypto.randomBytes(8).toString('hex');
+
+interface Claims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  groups: string[];
+}
+
+// An authorization code, until it is exchanged for tokens
+interface Grant {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: Claims;
+  expiresAt: number;
+}
+
+// Codes and access tokens only live in memory
+const codes = new Map<string, Grant>();
+const accessTokens = new Map<string, Claims>();
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name', 'groups'],
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, alg: 'RS256', use: 'sig' }] });
+});
+
+// Sign-in page: the request parameters travel on as hidden fields
+app.get('/authorize', (req, res) => {
+  if (req.query.client_id !== clientId) {
+    return res.status(400).send('Unknown client_id');
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name])}">`)
+    .join('\n');
+
+  res.send(`<!doctype html>
+<html>
+<head><title>Mock OIDC Provider</title>
+<style>body{font-family:sans-serif;max-width:420px;margin:60px auto}label{display:block;margin-top:12px}input{width:100%;padding:6px}button{margin-top:16px;padding:8px 16px}</style>
+</head>
+<body>
+<h2>Mock OIDC Provider</h2>
+<p>Sign in to QualitySync as:</p>
+<form method="post" action="/authorize">
+${hidden}
+<label>Email <input name="email" value="pm@example.com" required></label>
+<label>Name <input name="name" value="Pat Manager"></label>
+<label>Groups (comma-separated) <input name="groups" value="qa-leads"></label>
+<button type="submit">Sign in</button>
+</form>
+</body>
+</html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri: redirectUri, state, nonce, code_challenge: codeChallenge, email, name } = req.body;
+  const code = base64url(crypto.randomBytes(24));
+
+  codes.set(code, {
+    redirectUri,
+    nonce,
+    codeChallenge,
+    claims: {
+      // Stable per email, like a real provider's subject
+      sub: crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24),
+      email,
+      email_verified: true,
+      name,
+      groups: req.body.groups.split(',').map((group: string) => group.trim()).filter(Boolean),
+    },
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const url = new URL(redirectUri);
+  url.searchParams.set('code', code);
+  if (state) url.searchParams.set('state', state);
+  res.redirect(url.toString());
+});
+
+app.post('/token', (req, res) => {
+  const basic = req.headers.authorization?.startsWith('Basic ')
+    ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+    : [req.body.client_id, req.body.client_secret];
+
+  if (basic[0] !== clientId || basic[1] !== clientSecret) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+
+  const grant = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const challenge = base64url(crypto.createHash('sha256').update(req.body.code_verifier || '').digest());
+  if (grant.codeChallenge && challenge !== grant.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const accessToken = base64url(crypto.randomBytes(24));
+  accessTokens.set(accessToken, grant.claims);
+
+  const idToken = jwt.sign({ ...grant.claims, nonce: grant.nonce }, privateKey, {
+    algorithm: 'RS256',
+    keyid: keyId,
+    issuer,
+    audience: clientId,
+    expiresIn: '5m',
+  });
+
+  res.json({ access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: 300 });
+});
+
+app.get('/userinfo', (req, res) => {
+  const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') ?? '');
+  if (!claims) {
+    return res.status(401).json({ error: 'invalid_token' });
+  }
+  res.json(claims);
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider running at ${issuer}`);
+  console.log(`Client ID: ${clientId}  Client secret: ${clientSecret}`);
+});
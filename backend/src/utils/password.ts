@@ -0,0 +1,15 @@
+import argon2 from 'argon2';
+
+// Stored as the hash of accounts without a password (service accounts and
+// users provisioned by single sign-on). No password matches it.
+const NO_PASSWORD = '!';
+
+/**
+ * Check a password against a stored hash, false for accounts without one
+ */
+const verifyPassword = async (passwordHash: string | null | undefined, password: string) => {
+  if (!passwordHash || passwordHash === NO_PASSWORD) return false;
+  return argon2.verify(passwordHash, password);
+};
+
+export { NO_PASSWORD, verifyPassword };
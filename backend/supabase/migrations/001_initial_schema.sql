@@ -1,6 +1,6 @@
 -- QualitySync Database Schema
--- Run this in Supabase SQL Editor
 
+-- migrate:up
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
@@ -144,3 +144,18 @@ SELECT
 
 -- Grant access to the view
 GRANT SELECT ON dashboard_stats TO anon, authenticated, service_role;
+
+-- migrate:down
+DROP VIEW dashboard_stats;
+
+ALTER TABLE test_cases DROP CONSTRAINT fk_source_bug;
+DROP TABLE unlisted_bugs;
+DROP TABLE test_cases;
+DROP TABLE users;
+
+DROP FUNCTION update_updated_at_column();
+
+DROP TYPE bug_severity;
+DROP TYPE bug_status;
+DROP TYPE test_status;
+DROP TYPE user_role;
@@ -0,0 +1,37 @@
+-- QualitySync Test Execution History
+
+-- migrate:up
+-- Test runs table (one row per recorded result)
+CREATE TABLE test_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    executed_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    status test_status NOT NULL,
+    evidence_url TEXT,
+    notes TEXT,
+    duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds >= 0),
+    executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_test_runs_test_case_id ON test_runs(test_case_id);
+CREATE INDEX idx_test_runs_executed_by ON test_runs(executed_by);
+CREATE INDEX idx_test_runs_executed_at ON test_runs(executed_at DESC);
+
+-- Row Level Security (RLS)
+ALTER TABLE test_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on test_runs" ON test_runs
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Backfill: keep the result already stored on each executed test as its first run
+INSERT INTO test_runs (test_case_id, executed_by, status, evidence_url, notes, executed_at)
+SELECT id, assigned_to, status, evidence_url, notes, updated_at
+FROM test_cases
+WHERE status <> 'pending';
+
+-- migrate:down
+DROP TABLE test_runs;
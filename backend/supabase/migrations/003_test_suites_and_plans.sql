@@ -0,0 +1,126 @@
+-- QualitySync Test Suites and Test Plans
+
+-- migrate:up
+-- Create enum types
+CREATE TYPE plan_status AS ENUM ('active', 'completed');
+
+-- Test suites table (reusable groupings of test cases)
+CREATE TABLE test_suites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Suite membership
+CREATE TABLE test_suite_cases (
+    suite_id UUID NOT NULL REFERENCES test_suites(id) ON DELETE CASCADE,
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    added_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (suite_id, test_case_id)
+);
+
+-- Test plans table (a suite snapshot scheduled against a release)
+CREATE TABLE test_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    release VARCHAR(100) NOT NULL,
+    suite_id UUID REFERENCES test_suites(id) ON DELETE SET NULL,
+    status plan_status NOT NULL DEFAULT 'active',
+    start_date DATE,
+    due_date DATE,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Test cases captured by a plan, with the plan's own result per case
+CREATE TABLE test_plan_cases (
+    plan_id UUID NOT NULL REFERENCES test_plans(id) ON DELETE CASCADE,
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    status test_status NOT NULL DEFAULT 'pending',
+    last_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (plan_id, test_case_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_test_suite_cases_test_case_id ON test_suite_cases(test_case_id);
+CREATE INDEX idx_test_plans_status ON test_plans(status);
+CREATE INDEX idx_test_plans_suite_id ON test_plans(suite_id);
+CREATE INDEX idx_test_plan_cases_test_case_id ON test_plan_cases(test_case_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_test_suites_updated_at
+    BEFORE UPDATE ON test_suites
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_test_plans_updated_at
+    BEFORE UPDATE ON test_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_test_plan_cases_updated_at
+    BEFORE UPDATE ON test_plan_cases
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE test_suites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_suite_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_plan_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on test_suites" ON test_suites
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on test_suite_cases" ON test_suite_cases
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on test_plans" ON test_plans
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on test_plan_cases" ON test_plan_cases
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Create view for per-plan progress
+CREATE OR REPLACE VIEW test_plan_progress AS
+SELECT
+    p.id AS plan_id,
+    COUNT(pc.test_case_id) AS total_tests,
+    COUNT(pc.test_case_id) FILTER (WHERE pc.status = 'pass') AS passed_tests,
+    COUNT(pc.test_case_id) FILTER (WHERE pc.status = 'fail') AS failed_tests,
+    COUNT(pc.test_case_id) FILTER (WHERE pc.status = 'pending') AS pending_tests,
+    COUNT(pc.test_case_id) FILTER (WHERE pc.status = 'escalated') AS escalated_tests
+FROM test_plans p
+LEFT JOIN test_plan_cases pc ON pc.plan_id = p.id
+GROUP BY p.id;
+
+-- Grant access to the view
+GRANT SELECT ON test_plan_progress TO anon, authenticated, service_role;
+
+-- migrate:down
+DROP VIEW test_plan_progress;
+
+DROP TABLE test_plan_cases;
+DROP TABLE test_plans;
+DROP TABLE test_suite_cases;
+DROP TABLE test_suites;
+
+DROP TYPE plan_status;
@@ -0,0 +1,57 @@
+-- QualitySync Structured Test Steps
+
+-- migrate:up
+-- Outcome of a single step within a run
+CREATE TYPE step_status AS ENUM ('pass', 'fail', 'blocked');
+
+-- Ordered steps of a test case
+CREATE TABLE test_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position >= 0),
+    action TEXT NOT NULL,
+    expected_result TEXT NOT NULL,
+    test_data TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (test_case_id, position)
+);
+
+-- Per-step outcome of a run. The step text is copied so history survives
+-- later edits to the test case steps.
+CREATE TABLE test_step_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES test_runs(id) ON DELETE CASCADE,
+    step_id UUID REFERENCES test_steps(id) ON DELETE SET NULL,
+    position INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    status step_status NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_test_steps_test_case_id ON test_steps(test_case_id);
+CREATE INDEX idx_test_step_results_run_id ON test_step_results(run_id);
+CREATE INDEX idx_test_step_results_step_id ON test_step_results(step_id);
+
+-- Row Level Security (RLS)
+ALTER TABLE test_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_step_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on test_steps" ON test_steps
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on test_step_results" ON test_step_results
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE test_step_results;
+DROP TABLE test_steps;
+
+DROP TYPE step_status;
@@ -0,0 +1,58 @@
+-- QualitySync Engineering Fix Workflow
+
+-- migrate:up
+-- New test states: an engineer has claimed the failure, then handed it back to QA
+ALTER TYPE test_status ADD VALUE IF NOT EXISTS 'in_fix';
+ALTER TYPE test_status ADD VALUE IF NOT EXISTS 'ready_for_retest';
+
+-- Fix tracking on test cases
+ALTER TABLE test_cases
+    ADD COLUMN fix_owner UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN fix_reference TEXT,
+    ADD COLUMN fix_notes TEXT,
+    ADD COLUMN fixed_at TIMESTAMPTZ;
+
+CREATE INDEX idx_test_cases_fix_owner ON test_cases(fix_owner);
+
+-- Dashboard statistics now include the fix states.
+-- Status is compared as text because new enum values cannot be used
+-- in the same transaction that adds them.
+CREATE OR REPLACE VIEW dashboard_stats AS
+SELECT
+    (SELECT COUNT(*) FROM test_cases) as total_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pass') as passed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'fail') as failed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pending') as pending_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'escalated') as escalated_tests,
+    (SELECT COUNT(*) FROM unlisted_bugs WHERE status = 'open') as open_bugs,
+    (SELECT COUNT(*) FROM unlisted_bugs) as total_bugs,
+    (SELECT COUNT(*) FROM test_cases WHERE status::text = 'in_fix') as in_fix_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status::text = 'ready_for_retest') as ready_for_retest_tests;
+
+-- Grant access to the view
+GRANT SELECT ON dashboard_stats TO anon, authenticated, service_role;
+
+-- migrate:down
+-- Enum values cannot be removed, so 'in_fix' and 'ready_for_retest' stay
+-- in test_status; tests in either state go back to failed
+UPDATE test_cases SET status = 'fail' WHERE status::text IN ('in_fix', 'ready_for_retest');
+
+DROP VIEW dashboard_stats;
+
+CREATE VIEW dashboard_stats AS
+SELECT
+    (SELECT COUNT(*) FROM test_cases) as total_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pass') as passed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'fail') as failed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pending') as pending_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'escalated') as escalated_tests,
+    (SELECT COUNT(*) FROM unlisted_bugs WHERE status = 'open') as open_bugs,
+    (SELECT COUNT(*) FROM unlisted_bugs) as total_bugs;
+
+GRANT SELECT ON dashboard_stats TO anon, authenticated, service_role;
+
+ALTER TABLE test_cases
+    DROP COLUMN fix_owner,
+    DROP COLUMN fix_reference,
+    DROP COLUMN fix_notes,
+    DROP COLUMN fixed_at;
@@ -0,0 +1,40 @@
+-- QualitySync Bug Lifecycle History
+
+-- migrate:up
+-- One row per bug status change
+CREATE TABLE bug_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bug_id UUID NOT NULL REFERENCES unlisted_bugs(id) ON DELETE CASCADE,
+    from_status bug_status,
+    to_status bug_status NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_bug_status_history_bug_id ON bug_status_history(bug_id);
+CREATE INDEX idx_bug_status_history_created_at ON bug_status_history(created_at);
+
+-- Row Level Security (RLS)
+ALTER TABLE bug_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on bug_status_history" ON bug_status_history
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Backfill: every existing bug was reported as open by its creator
+INSERT INTO bug_status_history (bug_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'open', created_by, created_at
+FROM unlisted_bugs;
+
+-- Backfill: bugs that already moved on get one change with an unknown actor
+INSERT INTO bug_status_history (bug_id, from_status, to_status, changed_by, created_at)
+SELECT id, 'open', status, NULL, COALESCE(converted_at, updated_at)
+FROM unlisted_bugs
+WHERE status <> 'open';
+
+-- migrate:down
+DROP TABLE bug_status_history;
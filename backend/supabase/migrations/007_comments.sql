@@ -0,0 +1,58 @@
+-- QualitySync Comments and Mentions
+
+-- migrate:up
+-- Discussion threads on test cases and unlisted bugs
+CREATE TABLE comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID REFERENCES test_cases(id) ON DELETE CASCADE,
+    bug_id UUID REFERENCES unlisted_bugs(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    -- A comment belongs to exactly one test case or bug
+    CONSTRAINT comments_single_target CHECK (
+        (test_case_id IS NOT NULL AND bug_id IS NULL) OR
+        (test_case_id IS NULL AND bug_id IS NOT NULL)
+    )
+);
+
+-- Users mentioned in a comment
+CREATE TABLE comment_mentions (
+    comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (comment_id, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_comments_test_case_id ON comments(test_case_id, created_at);
+CREATE INDEX idx_comments_bug_id ON comments(bug_id, created_at);
+CREATE INDEX idx_comments_author_id ON comments(author_id);
+CREATE INDEX idx_comment_mentions_user_id ON comment_mentions(user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_comments_updated_at
+    BEFORE UPDATE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on comments" ON comments
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on comment_mentions" ON comment_mentions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE comment_mentions;
+DROP TABLE comments;
@@ -0,0 +1,42 @@
+-- QualitySync Audit Log
+
+-- migrate:up
+-- Create enum types
+CREATE TYPE audit_action AS ENUM ('create', 'update', 'delete');
+
+-- One row per create/update/delete made through the API
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    -- Kept so events stay readable after the actor is deleted
+    actor_name VARCHAR(255),
+    actor_role user_role,
+    action audit_action NOT NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    -- No foreign key: deleted entities keep their history
+    entity_id UUID NOT NULL,
+    -- { field: { from, to } } for every field that changed
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    request_id VARCHAR(100),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX idx_audit_events_actor_id ON audit_events(actor_id);
+CREATE INDEX idx_audit_events_request_id ON audit_events(request_id);
+
+-- Row Level Security (RLS)
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on audit_events" ON audit_events
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE audit_events;
+
+DROP TYPE audit_action;
@@ -0,0 +1,45 @@
+-- QualitySync In-App Notifications
+
+-- migrate:up
+-- Create enum types
+CREATE TYPE notification_type AS ENUM (
+    'test_assigned',
+    'test_reassigned',
+    'test_result',
+    'test_ready_for_retest',
+    'bug_converted',
+    'bug_status_changed',
+    'comment_mention'
+);
+
+-- One row per notification per recipient
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    type notification_type NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT,
+    test_case_id UUID REFERENCES test_cases(id) ON DELETE CASCADE,
+    bug_id UUID REFERENCES unlisted_bugs(id) ON DELETE CASCADE,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Row Level Security (RLS)
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on notifications" ON notifications
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE notifications;
+
+DROP TYPE notification_type;
@@ -0,0 +1,34 @@
+-- QualitySync CI Result Ingestion
+
+-- migrate:up
+-- Create enum types
+CREATE TYPE test_origin AS ENUM ('manual', 'automated');
+
+-- Service accounts record results on behalf of automation and cannot sign in
+ALTER TABLE users ADD COLUMN is_service_account BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Automated tests are matched to CI results by their external key,
+-- e.g. "com.example.CheckoutTest.paysWithCard"
+ALTER TABLE test_cases
+    ADD COLUMN origin test_origin NOT NULL DEFAULT 'manual',
+    ADD COLUMN external_key VARCHAR(500);
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX idx_test_cases_external_key ON test_cases(external_key) WHERE external_key IS NOT NULL;
+CREATE INDEX idx_test_cases_origin ON test_cases(origin);
+
+-- Account CI results are attributed to. The password hash is not a valid
+-- argon2 hash, so no password can match it.
+INSERT INTO users (email, password_hash, name, role, is_verified, is_service_account)
+VALUES ('ci@qualitysync.local', '!', 'CI Automation', 'QA', TRUE, TRUE)
+ON CONFLICT (email) DO NOTHING;
+
+-- migrate:down
+-- The CI account is kept: the runs it recorded still refer to it
+ALTER TABLE test_cases
+    DROP COLUMN origin,
+    DROP COLUMN external_key;
+
+ALTER TABLE users DROP COLUMN is_service_account;
+
+DROP TYPE test_origin;
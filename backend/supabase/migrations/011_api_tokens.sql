@@ -0,0 +1,37 @@
+-- QualitySync API Tokens
+
+-- migrate:up
+-- Personal access tokens for scripts and CI. Only a SHA-256 hash of each
+-- token is stored; the token itself is shown once when it is created.
+CREATE TABLE api_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    token_prefix VARCHAR(16) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT api_tokens_scopes_check CHECK (
+        cardinality(scopes) > 0
+        AND scopes <@ ARRAY['read', 'tests:write', 'bugs:write']::TEXT[]
+    )
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_api_tokens_user_id ON api_tokens(user_id, created_at DESC);
+
+-- Row Level Security (RLS)
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on api_tokens" ON api_tokens
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE api_tokens;
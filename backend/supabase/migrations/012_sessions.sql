@@ -0,0 +1,35 @@
+-- QualitySync Sessions
+
+-- migrate:up
+-- One row per signed-in device. Access tokens name their session, so
+-- revoking it signs the device out; the refresh token rotates on every use
+-- and only its SHA-256 hash is stored.
+CREATE TABLE sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+    previous_token_hash CHAR(64),
+    rotated_at TIMESTAMPTZ,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_sessions_user_id ON sessions(user_id, last_used_at DESC);
+CREATE INDEX idx_sessions_previous_token_hash ON sessions(previous_token_hash);
+
+-- Row Level Security (RLS)
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on sessions" ON sessions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE sessions;
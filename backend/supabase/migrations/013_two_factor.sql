@@ -0,0 +1,42 @@
+-- QualitySync Two-Factor Authentication
+
+-- migrate:up
+-- TOTP secrets are stored encrypted by the API. The secret is written when
+-- enrollment starts and two_factor_enabled is only set once a code from the
+-- authenticator app has been verified.
+ALTER TABLE users ADD COLUMN totp_secret TEXT;
+ALTER TABLE users ADD COLUMN totp_last_step BIGINT;
+ALTER TABLE users ADD COLUMN two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN two_factor_enabled_at TIMESTAMPTZ;
+
+-- Single-use codes for signing in without the authenticator app. Only a
+-- SHA-256 hash of each code is stored.
+CREATE TABLE recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash CHAR(64) NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, code_hash)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_recovery_codes_user_id ON recovery_codes(user_id);
+
+-- Row Level Security (RLS)
+ALTER TABLE recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on recovery_codes" ON recovery_codes
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE recovery_codes;
+
+ALTER TABLE users
+    DROP COLUMN totp_secret,
+    DROP COLUMN totp_last_step,
+    DROP COLUMN two_factor_enabled,
+    DROP COLUMN two_factor_enabled_at;
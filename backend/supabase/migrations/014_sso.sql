@@ -0,0 +1,14 @@
+-- QualitySync Single Sign-On
+
+-- migrate:up
+-- Subject (sub claim) of the identity provider account a user signs in
+-- with. Users provisioned by single sign-on have no password.
+ALTER TABLE users ADD COLUMN sso_subject VARCHAR(255) UNIQUE;
+
+-- How a session was started: 'password' or 'sso'
+ALTER TABLE sessions ADD COLUMN auth_method VARCHAR(20) NOT NULL DEFAULT 'password'
+    CHECK (auth_method IN ('password', 'sso'));
+
+-- migrate:down
+ALTER TABLE sessions DROP COLUMN auth_method;
+ALTER TABLE users DROP COLUMN sso_subject;
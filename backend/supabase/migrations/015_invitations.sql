@@ -0,0 +1,39 @@
+-- QualitySync Invitations
+
+-- migrate:up
+-- Pending sign-ups created by PMs. The invitee follows the emailed link
+-- and sets their own password; only a SHA-256 hash of the link token is
+-- stored and resending replaces it.
+CREATE TABLE invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    role user_role NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    last_sent_at TIMESTAMPTZ DEFAULT NOW(),
+    accepted_at TIMESTAMPTZ,
+    accepted_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open invitation per email
+CREATE UNIQUE INDEX idx_invitations_open_email ON invitations(email)
+    WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX idx_invitations_created_at ON invitations(created_at DESC);
+
+-- Row Level Security (RLS)
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on invitations" ON invitations
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE invitations;
@@ -0,0 +1,43 @@
+-- QualitySync Login Security
+
+-- migrate:up
+-- Failed password or code attempts since the last successful sign-in. Past
+-- a threshold the account is locked for a time that doubles with each
+-- further failure; a PM can unlock it.
+ALTER TABLE users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN locked_until TIMESTAMPTZ;
+
+-- Sign-in history of each account. A device is identified by its user
+-- agent; new_device marks the first successful sign-in from one.
+CREATE TABLE login_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    success BOOLEAN NOT NULL,
+    -- invalid_password, invalid_code, locked or unverified
+    failure_reason VARCHAR(50),
+    auth_method VARCHAR(20) NOT NULL DEFAULT 'password'
+        CHECK (auth_method IN ('password', 'sso')),
+    new_device BOOLEAN NOT NULL DEFAULT FALSE,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_login_attempts_user_id ON login_attempts(user_id, created_at DESC);
+
+-- Row Level Security (RLS)
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on login_attempts" ON login_attempts
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+DROP TABLE login_attempts;
+
+ALTER TABLE users
+    DROP COLUMN failed_login_attempts,
+    DROP COLUMN locked_until;
@@ -0,0 +1,137 @@
+-- QualitySync Projects
+
+-- migrate:up
+-- Tests, bugs, suites and plans belong to a project. Users only see the
+-- projects they are members of and work in each with the role of their
+-- membership; users.role stays the account-wide role, which governs user
+-- and project administration.
+CREATE TABLE projects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE project_members (
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role user_role NOT NULL,
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (project_id, user_id)
+);
+
+-- Everything from before projects existed moves to a first project, which
+-- every user joins with their current role
+INSERT INTO projects (name, description)
+VALUES ('Default', 'Tests and bugs from before projects were added');
+
+INSERT INTO project_members (project_id, user_id, role)
+SELECT p.id, u.id, u.role
+FROM projects p, users u
+WHERE p.name = 'Default';
+
+ALTER TABLE test_cases ADD COLUMN project_id UUID REFERENCES projects(id);
+ALTER TABLE unlisted_bugs ADD COLUMN project_id UUID REFERENCES projects(id);
+ALTER TABLE test_suites ADD COLUMN project_id UUID REFERENCES projects(id);
+ALTER TABLE test_plans ADD COLUMN project_id UUID REFERENCES projects(id);
+
+UPDATE test_cases SET project_id = (SELECT id FROM projects WHERE name = 'Default');
+UPDATE unlisted_bugs SET project_id = (SELECT id FROM projects WHERE name = 'Default');
+UPDATE test_suites SET project_id = (SELECT id FROM projects WHERE name = 'Default');
+UPDATE test_plans SET project_id = (SELECT id FROM projects WHERE name = 'Default');
+
+ALTER TABLE test_cases ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE unlisted_bugs ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE test_suites ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE test_plans ALTER COLUMN project_id SET NOT NULL;
+
+-- Invitations can add the invitee to a project
+ALTER TABLE invitations ADD COLUMN project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+
+-- CI keys only need to be unique within a project
+DROP INDEX idx_test_cases_external_key;
+CREATE UNIQUE INDEX idx_test_cases_external_key ON test_cases(project_id, external_key) WHERE external_key IS NOT NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX idx_project_members_user_id ON project_members(user_id);
+CREATE INDEX idx_test_cases_project_id ON test_cases(project_id, created_at DESC);
+CREATE INDEX idx_unlisted_bugs_project_id ON unlisted_bugs(project_id, created_at DESC);
+CREATE INDEX idx_test_suites_project_id ON test_suites(project_id);
+CREATE INDEX idx_test_plans_project_id ON test_plans(project_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_projects_updated_at
+    BEFORE UPDATE ON projects
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on projects" ON projects
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on project_members" ON project_members
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- Dashboard statistics are now per project. The view changes shape, so it
+-- is recreated rather than replaced.
+DROP VIEW dashboard_stats;
+
+CREATE VIEW dashboard_stats AS
+SELECT
+    p.id AS project_id,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id) as total_tests,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'pass') as passed_tests,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'fail') as failed_tests,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'pending') as pending_tests,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'escalated') as escalated_tests,
+    (SELECT COUNT(*) FROM unlisted_bugs b WHERE b.project_id = p.id AND b.status = 'open') as open_bugs,
+    (SELECT COUNT(*) FROM unlisted_bugs b WHERE b.project_id = p.id) as total_bugs,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'in_fix') as in_fix_tests,
+    (SELECT COUNT(*) FROM test_cases t WHERE t.project_id = p.id AND t.status = 'ready_for_retest') as ready_for_retest_tests
+FROM projects p;
+
+-- Grant access to the view
+GRANT SELECT ON dashboard_stats TO anon, authenticated, service_role;
+
+-- migrate:down
+-- Tests, bugs, suites and plans of every project end up together again
+DROP VIEW dashboard_stats;
+
+CREATE VIEW dashboard_stats AS
+SELECT
+    (SELECT COUNT(*) FROM test_cases) as total_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pass') as passed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'fail') as failed_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'pending') as pending_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'escalated') as escalated_tests,
+    (SELECT COUNT(*) FROM unlisted_bugs WHERE status = 'open') as open_bugs,
+    (SELECT COUNT(*) FROM unlisted_bugs) as total_bugs,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'in_fix') as in_fix_tests,
+    (SELECT COUNT(*) FROM test_cases WHERE status = 'ready_for_retest') as ready_for_retest_tests;
+
+GRANT SELECT ON dashboard_stats TO anon, authenticated, service_role;
+
+-- Fails if two projects use the same CI key
+DROP INDEX idx_test_cases_external_key;
+CREATE UNIQUE INDEX idx_test_cases_external_key ON test_cases(external_key) WHERE external_key IS NOT NULL;
+
+ALTER TABLE invitations DROP COLUMN project_id;
+ALTER TABLE test_plans DROP COLUMN project_id;
+ALTER TABLE test_suites DROP COLUMN project_id;
+ALTER TABLE unlisted_bugs DROP COLUMN project_id;
+ALTER TABLE test_cases DROP COLUMN project_id;
+
+DROP TABLE project_members;
+DROP TABLE projects;
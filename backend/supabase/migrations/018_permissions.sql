@@ -0,0 +1,160 @@
+-- QualitySync Permissions
+
+-- migrate:up
+-- What a user may do is decided by the permissions of their role instead of
+-- the PM/QA/ENG enum. Roles are named permission sets that admins can edit
+-- and add to. Each role is based on one of PM, QA or ENG, which still
+-- decides the user's workspace and which tests and bugs they see.
+CREATE TABLE permissions (
+    key VARCHAR(50) PRIMARY KEY,
+    description TEXT NOT NULL
+);
+
+INSERT INTO permissions (key, description) VALUES
+    ('tests.stats', 'View dashboard statistics'),
+    ('tests.create', 'Create tests'),
+    ('tests.import', 'Import tests from spreadsheets'),
+    ('tests.ingest', 'Record automated results from CI reports'),
+    ('tests.update', 'Edit tests'),
+    ('tests.assign', 'Assign and reassign tests to testers'),
+    ('tests.delete', 'Delete tests'),
+    ('tests.execute', 'Record results of assigned tests'),
+    ('tests.fix', 'Claim failed tests and mark them fixed'),
+    ('bugs.create', 'Report bugs'),
+    ('bugs.fix', 'Start work on bugs and mark them resolved'),
+    ('bugs.close', 'Close resolved bugs or send them back for another fix'),
+    ('bugs.reopen', 'Reopen resolved and closed bugs'),
+    ('bugs.convert', 'Convert bugs into tests'),
+    ('bugs.delete', 'Delete bugs'),
+    ('suites.manage', 'Create, edit and delete test suites'),
+    ('plans.manage', 'Create, edit and delete test plans'),
+    ('comments.moderate', 'Delete comments of other users'),
+    ('users.manage', 'Invite, edit and remove users and their API tokens'),
+    ('projects.manage', 'Create projects and manage their members'),
+    ('roles.manage', 'Create and edit roles and their permissions'),
+    ('audit.view', 'View the audit log');
+
+CREATE TABLE roles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    base_role user_role NOT NULL,
+    -- The built-in role of each base role; it cannot be deleted
+    is_system BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_roles_system ON roles(base_role) WHERE is_system;
+
+CREATE TABLE role_permissions (
+    role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+    permission_key VARCHAR(50) NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+    PRIMARY KEY (role_id, permission_key)
+);
+
+-- The built-in roles start with what PM, QA and ENG could do before
+INSERT INTO roles (name, description, base_role, is_system) VALUES
+    ('Product Manager', 'Plans and manages testing', 'PM', true),
+    ('QA Tester', 'Runs assigned tests and reports bugs', 'QA', true),
+    ('Engineering', 'Fixes failed tests and bugs', 'ENG', true);
+
+INSERT INTO role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM roles r, permissions p
+WHERE r.is_system AND r.base_role = 'PM'
+  AND p.key NOT IN ('tests.execute', 'tests.fix', 'bugs.create', 'bugs.fix', 'bugs.close');
+
+INSERT INTO role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM roles r, permissions p
+WHERE r.is_system AND r.base_role = 'QA'
+  AND p.key IN ('tests.execute', 'bugs.create', 'bugs.close');
+
+INSERT INTO role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM roles r, permissions p
+WHERE r.is_system AND r.base_role = 'ENG'
+  AND p.key IN ('tests.fix', 'bugs.fix');
+
+-- Users have an account-wide role and a role in each of their projects
+ALTER TABLE users ADD COLUMN role_id UUID REFERENCES roles(id);
+ALTER TABLE project_members ADD COLUMN role_id UUID REFERENCES roles(id);
+
+UPDATE users u SET role_id = r.id FROM roles r WHERE r.is_system AND r.base_role = u.role;
+UPDATE project_members m SET role_id = r.id FROM roles r WHERE r.is_system AND r.base_role = m.role;
+
+ALTER TABLE users ALTER COLUMN role_id SET NOT NULL;
+ALTER TABLE project_members ALTER COLUMN role_id SET NOT NULL;
+
+-- Keep role and role_id in step: writing only the base role picks its
+-- built-in role, writing role_id sets the base role of that role
+CREATE OR REPLACE FUNCTION sync_role_id()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role_id IS NULL
+        OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role AND NEW.role_id IS NOT DISTINCT FROM OLD.role_id) THEN
+        SELECT id INTO NEW.role_id FROM roles WHERE is_system AND base_role = NEW.role;
+    ELSE
+        SELECT base_role INTO NEW.role FROM roles WHERE id = NEW.role_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_users_role_id
+    BEFORE INSERT OR UPDATE OF role, role_id ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_role_id();
+
+CREATE TRIGGER sync_project_members_role_id
+    BEFORE INSERT OR UPDATE OF role, role_id ON project_members
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_role_id();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_users_role_id ON users(role_id);
+CREATE INDEX idx_project_members_role_id ON project_members(role_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_roles_updated_at
+    BEFORE UPDATE ON roles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS)
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on permissions" ON permissions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on roles" ON roles
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Service role full access on role_permissions" ON role_permissions
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+-- migrate:down
+-- Users keep the base role of their role
+DROP TRIGGER sync_project_members_role_id ON project_members;
+DROP TRIGGER sync_users_role_id ON users;
+DROP FUNCTION sync_role_id();
+
+ALTER TABLE project_members DROP COLUMN role_id;
+ALTER TABLE users DROP COLUMN role_id;
+
+DROP TABLE role_permissions;
+DROP TABLE roles;
+DROP TABLE permissions;
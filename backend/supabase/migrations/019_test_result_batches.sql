@@ -0,0 +1,34 @@
+-- QualitySync Test Result Batches
+
+-- migrate:up
+-- Mirror the results of a CI report on its test cases in one statement, so
+-- either every test case is updated or none is. Each element of `results`
+-- holds the id, the status the test case was read with and its new status,
+-- notes and fix details. A test case whose status changed since it was read
+-- keeps that change.
+CREATE OR REPLACE FUNCTION record_test_results(results JSONB)
+RETURNS VOID AS $$
+    UPDATE test_cases AS t
+    SET
+        status = r.status,
+        notes = r.notes,
+        fix_owner = r.fix_owner,
+        fix_reference = r.fix_reference,
+        fix_notes = r.fix_notes,
+        fixed_at = r.fixed_at
+    FROM jsonb_to_recordset(results) AS r(
+        id UUID,
+        from_status test_status,
+        status test_status,
+        notes TEXT,
+        fix_owner UUID,
+        fix_reference TEXT,
+        fix_notes TEXT,
+        fixed_at TIMESTAMPTZ
+    )
+    WHERE t.id = r.id
+        AND t.status = r.from_status;
+$$ LANGUAGE sql;
+
+-- migrate:down
+DROP FUNCTION record_test_results(JSONB);
@@ -0,0 +1,82 @@
+-- QualitySync Service Account Role
+
+-- migrate:up
+-- Service accounts are authorized by the permissions of their role like
+-- everyone else. QA service accounts get the built-in Automation role: what
+-- a QA tester may do, plus recording results from CI reports.
+ALTER TABLE roles ADD COLUMN for_service_accounts BOOLEAN NOT NULL DEFAULT false;
+
+-- One built-in role of each base role for people, and one for service accounts
+DROP INDEX idx_roles_system;
+CREATE UNIQUE INDEX idx_roles_system ON roles(base_role) WHERE is_system AND NOT for_service_accounts;
+CREATE UNIQUE INDEX idx_roles_service_accounts ON roles(base_role) WHERE is_system AND for_service_accounts;
+
+INSERT INTO roles (name, description, base_role, is_system, for_service_accounts) VALUES
+    ('Automation', 'Service accounts that record CI results', 'QA', true, true);
+
+INSERT INTO role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM roles r, permissions p
+WHERE r.is_system AND r.for_service_accounts
+  AND p.key IN ('tests.ingest', 'tests.execute', 'bugs.create', 'bugs.close');
+
+-- Writing only the base role still picks the built-in role for people
+CREATE OR REPLACE FUNCTION sync_role_id()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role_id IS NULL
+        OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role AND NEW.role_id IS NOT DISTINCT FROM OLD.role_id) THEN
+        SELECT id INTO NEW.role_id FROM roles WHERE is_system AND NOT for_service_accounts AND base_role = NEW.role;
+    ELSE
+        SELECT base_role INTO NEW.role FROM roles WHERE id = NEW.role_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- QA service accounts whose role cannot record CI results move to the
+-- Automation role, in their projects too. Other service accounts keep
+-- their role; give it tests.ingest to let them record results.
+UPDATE users u
+SET role_id = r.id
+FROM roles r
+WHERE r.is_system AND r.for_service_accounts
+  AND u.is_service_account AND u.role = 'QA'
+  AND NOT EXISTS (
+      SELECT 1 FROM role_permissions rp
+      WHERE rp.role_id = u.role_id AND rp.permission_key = 'tests.ingest'
+  );
+
+UPDATE project_members m
+SET role_id = r.id
+FROM roles r, users u
+WHERE r.is_system AND r.for_service_accounts
+  AND u.id = m.user_id AND u.is_service_account AND m.role = 'QA'
+  AND NOT EXISTS (
+      SELECT 1 FROM role_permissions rp
+      WHERE rp.role_id = m.role_id AND rp.permission_key = 'tests.ingest'
+  );
+
+-- migrate:down
+-- Service accounts go back to the built-in role of their base role
+UPDATE users SET role_id = NULL WHERE role_id IN (SELECT id FROM roles WHERE for_service_accounts);
+UPDATE project_members SET role_id = NULL WHERE role_id IN (SELECT id FROM roles WHERE for_service_accounts);
+DELETE FROM roles WHERE for_service_accounts;
+
+CREATE OR REPLACE FUNCTION sync_role_id()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role_id IS NULL
+        OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role AND NEW.role_id IS NOT DISTINCT FROM OLD.role_id) THEN
+        SELECT id INTO NEW.role_id FROM roles WHERE is_system AND base_role = NEW.role;
+    ELSE
+        SELECT base_role INTO NEW.role FROM roles WHERE id = NEW.role_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP INDEX idx_roles_service_accounts;
+DROP INDEX idx_roles_system;
+ALTER TABLE roles DROP COLUMN for_service_accounts;
+CREATE UNIQUE INDEX idx_roles_system ON roles(base_role) WHERE is_system;
@@ -0,0 +1,73 @@
+-- QualitySync Test Runs of Result Batches
+
+-- migrate:up
+-- Record the runs of a CI report in the statement that mirrors them on the
+-- test cases, so a failure leaves neither behind. Each element of `runs`
+-- holds the test case, executor, status, notes and duration of a run;
+-- `results` is as before. Returns the runs recorded.
+DROP FUNCTION record_test_results(JSONB);
+
+CREATE FUNCTION record_test_results(runs JSONB, results JSONB)
+RETURNS SETOF test_runs AS $$
+BEGIN
+    RETURN QUERY
+    INSERT INTO test_runs (test_case_id, executed_by, status, notes, duration_seconds)
+    SELECT r.test_case_id, r.executed_by, r.status, r.notes, r.duration_seconds
+    FROM jsonb_to_recordset(runs) AS r(
+        test_case_id UUID,
+        executed_by UUID,
+        status test_status,
+        notes TEXT,
+        duration_seconds INTEGER
+    )
+    RETURNING *;
+
+    UPDATE test_cases AS t
+    SET
+        status = r.status,
+        notes = r.notes,
+        fix_owner = r.fix_owner,
+        fix_reference = r.fix_reference,
+        fix_notes = r.fix_notes,
+        fixed_at = r.fixed_at
+    FROM jsonb_to_recordset(results) AS r(
+        id UUID,
+        from_status test_status,
+        status test_status,
+        notes TEXT,
+        fix_owner UUID,
+        fix_reference TEXT,
+        fix_notes TEXT,
+        fixed_at TIMESTAMPTZ
+    )
+    WHERE t.id = r.id
+        AND t.status = r.from_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- migrate:down
+DROP FUNCTION record_test_results(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION record_test_results(results JSONB)
+RETURNS VOID AS $$
+    UPDATE test_cases AS t
+    SET
+        status = r.status,
+        notes = r.notes,
+        fix_owner = r.fix_owner,
+        fix_reference = r.fix_reference,
+        fix_notes = r.fix_notes,
+        fixed_at = r.fixed_at
+    FROM jsonb_to_recordset(results) AS r(
+        id UUID,
+        from_status test_status,
+        status test_status,
+        notes TEXT,
+        fix_owner UUID,
+        fix_reference TEXT,
+        fix_notes TEXT,
+        fixed_at TIMESTAMPTZ
+    )
+    WHERE t.id = r.id
+        AND t.status = r.from_status;
+$$ LANGUAGE sql;
@@ -0,0 +1,362 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createUser, startDatabase, startServer, type ApiResponse, type TestDatabase, type TestServer, type TestUser } from './support/server';
+
+describe('API with DB_DRIVER=postgres', () => {
+  let database: TestDatabase;
+  let server: TestServer;
+  let manager: TestUser;
+  let tester: TestUser;
+  let engineer: TestUser;
+
+  // Filled in as the tests go, which run in order
+  let managerToken: string;
+  let testerToken: string;
+  let projectId: string;
+  let testId: string;
+  let suiteId: string;
+  const roleIds: Record<string, string> = {};
+
+  before(async () => {
+    database = await startDatabase();
+    manager = await createUser(database.db, { email: 'pm@example.com', name: 'Pat Manager', role: 'PM' });
+    tester = await createUser(database.db, { email: 'qa@example.com', name: 'Quinn Tester', role: 'QA' });
+    engineer = await createUser(database.db, { email: 'eng@example.com', name: 'Eli Engineer', role: 'ENG' });
+    server = await startServer(database.url);
+  });
+
+  after(async () => {
+    await server?.stop();
+    await database?.stop();
+  });
+
+  const expectStatus = (response: ApiResponse, status: number) => {
+    assert.equal(response.status, status, JSON.stringify(response.body));
+  };
+
+  const login = async (user: TestUser) => {
+    const { status, body } = await server.request('POST', '/auth/login', {
+      body: { email: user.email, password: user.password },
+    });
+    expectStatus({ status, body }, 200);
+    return body.data.token as string;
+  };
+
+  it('signs users in and lists their sessions', async () => {
+    managerToken = await login(manager);
+    testerToken = await login(tester);
+
+    const me = await server.request('GET', '/auth/me', { token: managerToken });
+    expectStatus(me, 200);
+    assert.equal(me.body.data.user.email, manager.email);
+    assert.ok(me.body.data.user.permissions.includes('projects.manage'));
+
+    const sessions = await server.request('GET', '/auth/sessions', { token: managerToken });
+    expectStatus(sessions, 200);
+    assert.equal(sessions.body.data.sessions.length, 1);
+    assert.equal(sessions.body.data.sessions[0].current, true);
+  });
+
+  it('rejects a wrong password and records the attempt', async () => {
+    const { status } = await server.request('POST', '/auth/login', {
+      body: { email: engineer.email, password: 'Wrong1234' },
+    });
+    assert.equal(status, 401);
+
+    const history = await server.request('GET', `/users/${engineer.id}/login-history`, { token: managerToken });
+    expectStatus(history, 200);
+    assert.equal(history.body.data.failed_login_attempts, 1);
+    assert.equal(history.body.data.attempts[0].failure_reason, 'invalid_password');
+  });
+
+  it('creates a role and lists the roles', async () => {
+    const created = await server.request('POST', '/roles', {
+      token: managerToken,
+      body: { name: 'Lead Tester', base_role: 'QA', permissions: ['tests.execute', 'tests.assign'] },
+    });
+    expectStatus(created, 201);
+    assert.deepEqual(created.body.data.role.permissions, ['tests.assign', 'tests.execute']);
+
+    const roles = await server.request('GET', '/roles', { token: managerToken });
+    expectStatus(roles, 200);
+    assert.ok(roles.body.data.roles.some((role: { name: string }) => role.name === 'Lead Tester'));
+    for (const role of roles.body.data.roles) {
+      roleIds[role.name] = role.id;
+    }
+  });
+
+  it('creates a project and manages its members', async () => {
+    const created = await server.request('POST', '/projects', {
+      token: managerToken,
+      body: { name: 'Checkout', description: 'Payment flows' },
+    });
+    expectStatus(created, 201);
+    projectId = created.body.data.project.id;
+
+    for (const user of [tester, engineer]) {
+      const member = await server.request('PUT', `/projects/${projectId}/members/${user.id}`, {
+        token: managerToken,
+        body: { role_id: roleIds[user === tester ? 'QA Tester' : 'Engineering'] },
+      });
+      expectStatus(member, 200);
+    }
+
+    const members = await server.request('GET', `/projects/${projectId}/members`, { token: managerToken });
+    expectStatus(members, 200);
+    assert.deepEqual(
+      members.body.data.members.map((member: { user: { email: string } }) => member.user.email).sort(),
+      [engineer.email, manager.email, tester.email]
+    );
+
+    const projects = await server.request('GET', '/projects', { token: testerToken });
+    expectStatus(projects, 200);
+    assert.deepEqual(projects.body.data.projects.map((project: { id: string }) => project.id), [projectId]);
+  });
+
+  it('creates a test with steps and assigns it', async () => {
+    const created = await server.request('POST', '/tests', {
+      token: managerToken,
+      projectId,
+      body: {
+        module_platform: 'Checkout',
+        test_case: 'Pay with a saved card',
+        expected_result: 'The order is confirmed',
+        assigned_to: tester.id,
+        steps: [
+          { action: 'Open the cart', expected_result: 'The cart lists the items' },
+          { action: 'Pay with the saved card', expected_result: 'The order is confirmed' },
+        ],
+      },
+    });
+    expectStatus(created, 201);
+    testId = created.body.data.test.id;
+
+    const test = await server.request('GET', `/tests/${testId}`, { token: managerToken, projectId });
+    expectStatus(test, 200);
+    assert.equal(test.body.data.test.assignee.email, tester.email);
+    assert.equal(test.body.data.test.steps.length, 2);
+
+    const notifications = await server.request('GET', '/notifications', { token: testerToken });
+    expectStatus(notifications, 200);
+    assert.equal(notifications.body.data.notifications.length, 1);
+
+    const unread = await server.request('GET', '/notifications/unread-count', { token: testerToken });
+    assert.equal(unread.body.data.unread_count, 1);
+
+    const read = await server.request('PUT', '/notifications/read-all', { token: testerToken });
+    expectStatus(read, 200);
+    const unreadAfter = await server.request('GET', '/notifications/unread-count', { token: testerToken });
+    assert.equal(unreadAfter.body.data.unread_count, 0);
+  });
+
+  it('records a result with step results and its run', async () => {
+    const test = await server.request('GET', `/tests/${testId}`, { token: testerToken, projectId });
+    const [first, second] = test.body.data.test.steps;
+
+    const result = await server.request('PUT', `/tests/${testId}/result`, {
+      token: testerToken,
+      projectId,
+      body: {
+        status: 'fail',
+        notes: 'Payment declined',
+        duration_seconds: 42,
+        step_results: [
+          { step_id: first.id, status: 'pass' },
+          { step_id: second.id, status: 'fail', notes: 'Declined' },
+        ],
+      },
+    });
+    expectStatus(result, 200);
+    assert.equal(result.body.data.test.status, 'fail');
+
+    const runs = await server.request('GET', `/tests/${testId}/runs`, { token: managerToken, projectId });
+    expectStatus(runs, 200);
+    assert.equal(runs.body.data.runs.length, 1);
+    assert.equal(runs.body.data.runs[0].executor.email, tester.email);
+    assert.deepEqual(
+      runs.body.data.runs[0].step_results.map((step: { status: string }) => step.status),
+      ['pass', 'fail']
+    );
+
+    const stats = await server.request('GET', '/tests/stats', { token: managerToken, projectId });
+    expectStatus(stats, 200);
+  });
+
+  it('groups tests in a suite and tracks a plan', async () => {
+    const suite = await server.request('POST', '/suites', {
+      token: managerToken,
+      projectId,
+      body: { name: 'Smoke', test_case_ids: [testId] },
+    });
+    expectStatus(suite, 201);
+    suiteId = suite.body.data.suite.id;
+
+    const suites = await server.request('GET', '/suites', { token: managerToken, projectId });
+    expectStatus(suites, 200);
+    assert.equal(suites.body.data.suites[0].test_count, 1);
+
+    const loaded = await server.request('GET', `/suites/${suiteId}`, { token: managerToken, projectId });
+    expectStatus(loaded, 200);
+    assert.deepEqual(loaded.body.data.suite.test_cases.map((test: { id: string }) => test.id), [testId]);
+
+    const filtered = await server.request('GET', `/tests?suite_id=${suiteId}`, { token: managerToken, projectId });
+    expectStatus(filtered, 200);
+    assert.deepEqual(filtered.body.data.tests.map((test: { id: string }) => test.id), [testId]);
+
+    const elsewhere = await server.request('POST', '/projects', { token: managerToken, body: { name: 'Search' } });
+    const foreign = await server.request('GET', `/tests?suite_id=${suiteId}`, {
+      token: managerToken,
+      projectId: elsewhere.body.data.project.id,
+    });
+    expectStatus(foreign, 404);
+
+    const plan = await server.request('POST', '/plans', {
+      token: managerToken,
+      projectId,
+      body: { name: 'Release 1.0', release: '1.0', suite_id: suiteId },
+    });
+    expectStatus(plan, 201);
+
+    const loadedPlan = await server.request('GET', `/plans/${plan.body.data.plan.id}`, { token: managerToken, projectId });
+    expectStatus(loadedPlan, 200);
+    assert.equal(loadedPlan.body.data.plan.progress.total_tests, 1);
+  });
+
+  it('comments on a test and notifies mentioned members', async () => {
+    const comment = await server.request('POST', '/comments', {
+      token: managerToken,
+      projectId,
+      body: { test_case_id: testId, body: '@Eli Engineer can you take a look?' },
+    });
+    expectStatus(comment, 201);
+
+    const comments = await server.request('GET', `/comments?test_case_id=${testId}`, { token: testerToken, projectId });
+    expectStatus(comments, 200);
+    assert.equal(comments.body.data.comments.length, 1);
+    assert.equal(comments.body.data.comments[0].author.email, manager.email);
+    assert.deepEqual(comments.body.data.comments[0].mentions.map((mention: { user: { id: string } }) => mention.user.id), [engineer.id]);
+
+    const notifications = await server.request('GET', '/notifications', { token: await login(engineer) });
+    expectStatus(notifications, 200);
+    assert.equal(notifications.body.data.notifications[0].type, 'comment_mention');
+  });
+
+  it('reports a bug and keeps its history', async () => {
+    const bug = await server.request('POST', '/bugs', {
+      token: testerToken,
+      projectId,
+      body: {
+        module_platform: 'Checkout',
+        jam_link: 'https://jam.dev/c/abc',
+        description: 'The pay button does nothing',
+        severity: 'high',
+      },
+    });
+    expectStatus(bug, 201);
+
+    const history = await server.request('GET', `/bugs/${bug.body.data.bug.id}/history`, { token: testerToken, projectId });
+    expectStatus(history, 200);
+    assert.equal(history.body.data.history[0].changer.email, tester.email);
+  });
+
+  it('issues API tokens that authenticate requests', async () => {
+    const created = await server.request('POST', '/tokens', {
+      token: managerToken,
+      body: { name: 'Reports', scopes: ['read'] },
+    });
+    expectStatus(created, 201);
+
+    const tests = await server.request('GET', '/tests', { token: created.body.data.token, projectId });
+    expectStatus(tests, 200);
+    assert.equal(tests.body.data.tests.length, 1);
+
+    const tokens = await server.request('GET', '/tokens', { token: managerToken });
+    assert.equal(tokens.body.data.tokens.length, 1);
+    assert.ok(tokens.body.data.tokens[0].last_used_at);
+  });
+
+  it('records the results of a CI report with their runs', async () => {
+    const report = {
+      module_platform: 'Checkout',
+      results: [
+        { key: 'checkout.pay', status: 'passed', duration: 1.4 },
+        { key: 'checkout.refund', status: 'failed', message: 'Refund timed out' },
+        { key: 'checkout.coupon', status: 'skipped' },
+        // The same test as above once the key is trimmed
+        { key: ' checkout.refund ', status: 'passed' },
+      ],
+    };
+    const ingested = await server.request('POST', '/tests/ingest', {
+      token: managerToken,
+      projectId,
+      file: { name: 'report.json', content: JSON.stringify(report) },
+    });
+    expectStatus(ingested, 201);
+
+    const tests = await server.request('GET', '/tests?origin=automated', { token: managerToken, projectId });
+    expectStatus(tests, 200);
+    const byKey = new Map<string, { id: string; status: string }>(
+      tests.body.data.tests.map((test: { id: string; external_key: string; status: string }) => [test.external_key, test])
+    );
+    assert.equal(byKey.size, 3);
+    assert.equal(byKey.get('checkout.pay')?.status, 'pass');
+    assert.equal(byKey.get('checkout.refund')?.status, 'fail');
+    assert.equal(byKey.get('checkout.coupon')?.status, 'pending');
+
+    const runs = await server.request('GET', `/tests/${byKey.get('checkout.refund')?.id}/runs`, { token: managerToken, projectId });
+    expectStatus(runs, 200);
+    assert.equal(runs.body.data.runs.length, 1);
+    assert.equal(runs.body.data.runs[0].notes, 'Refund timed out');
+
+    const skipped = await server.request('GET', `/tests/${byKey.get('checkout.coupon')?.id}/runs`, { token: managerToken, projectId });
+    assert.equal(skipped.body.data.runs.length, 0);
+  });
+
+  it('invites people to a project', async () => {
+    const invited = await server.request('POST', '/users/invite', {
+      token: managerToken,
+      body: { email: 'new@example.com', name: 'Nia Newcomer', role: 'QA', project_id: projectId },
+    });
+    expectStatus(invited, 201);
+
+    const invitations = await server.request('GET', '/users/invitations', { token: managerToken });
+    expectStatus(invitations, 200);
+    assert.deepEqual(invitations.body.data.invitations.map((invitation: { email: string }) => invitation.email), [
+      'new@example.com',
+    ]);
+  });
+
+  it('ends the event streams of a role whose permissions change', async () => {
+    const member = await server.request('PUT', `/projects/${projectId}/members/${tester.id}`, {
+      token: managerToken,
+      body: { role_id: roleIds['Lead Tester'] },
+    });
+    expectStatus(member, 200);
+
+    const events = await server.stream('/events', { token: testerToken, projectId });
+    assert.equal(events.status, 200);
+
+    const role = await server.request('PUT', `/roles/${roleIds['Lead Tester']}`, {
+      token: managerToken,
+      body: { permissions: ['tests.execute'] },
+    });
+    expectStatus(role, 200);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<string>((resolve) => {
+      timer = setTimeout(() => resolve('open'), 5000);
+    });
+    const state = await Promise.race([events.ended.then(() => 'ended'), timedOut]);
+    clearTimeout(timer);
+    if (state !== 'ended') await events.close();
+    assert.equal(state, 'ended');
+  });
+
+  it('records what was done in the audit log', async () => {
+    const audit = await server.request('GET', '/audit', { token: managerToken });
+    expectStatus(audit, 200);
+    const actions = audit.body.data.events.map((event: { entity_type: string; action: string }) => `${event.entity_type}.${event.action}`);
+    assert.ok(actions.includes('project.create'), actions.join(', '));
+    assert.ok(actions.includes('test_case.create'), actions.join(', '));
+  });
+});
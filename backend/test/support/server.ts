@@ -0,0 +1,247 @@
+/**
+ * Test Server
+ *
+ * Runs the API against an in-memory PostgreSQL database (PGlite), so the
+ * routes can be tested with DB_DRIVER=postgres and no database server or
+ * Supabase project.
+ *
+ * PGlite serves a single connection at a time and keeps it until the
+ * client disconnects. Seed the database before starting the server, which
+ * holds the connection while it runs.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import net from 'net';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import argon2 from 'argon2';
+
+const backendDir = path.join(__dirname, '../..');
+const tsx = require.resolve('tsx/cli');
+
+// How long the server may take to start and stop
+const STARTUP_TIMEOUT_MS = 30000;
+const SHUTDOWN_TIMEOUT_MS = 15000;
+
+export interface TestDatabase {
+  db: PGlite;
+  url: string;
+  stop: () => Promise<void>;
+}
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+}
+
+export interface ApiResponse<T = any> {
+  status: number;
+  body: { success: boolean; message?: string; code?: string; data?: T; pagination?: unknown };
+}
+
+interface RequestOptions {
+  token?: string;
+  projectId?: string;
+  body?: unknown;
+  // Uploaded as the `file` field of a multipart body, with the fields of `body`
+  file?: { name: string; content: string };
+}
+
+function encodeBody({ body, file }: RequestOptions) {
+  if (!file) {
+    return body === undefined ? undefined : JSON.stringify(body);
+  }
+
+  const form = new FormData();
+  for (const [name, value] of Object.entries(body ?? {})) {
+    form.append(name, String(value));
+  }
+  form.append('file', new Blob([file.content]), file.name);
+  return form;
+}
+
+// An open event stream
+export interface TestStream {
+  status: number;
+  // Settles when the server ends the stream
+  ended: Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface TestServer {
+  request: <T = any>(method: string, url: string, options?: RequestOptions) => Promise<ApiResponse<T>>;
+  stream: (url: string, options?: RequestOptions) => Promise<TestStream>;
+  stop: () => Promise<void>;
+}
+
+// A port nothing listens on
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+// Run a script of the backend and wait for it to succeed
+function run(args: string[], env: NodeJS.ProcessEnv): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [tsx, ...args], { cwd: backendDir, env, stdio: 'pipe' });
+    let output = '';
+    child.stdout.on('data', chunk => { output += chunk; });
+    child.stderr.on('data', chunk => { output += chunk; });
+    child.on('error', reject);
+    child.on('exit', code => {
+      if (code === 0) resolve();
+      else reject(new Error(`${args.join(' ')} exited with ${code}\n${output}`));
+    });
+  });
+}
+
+/**
+ * Start an empty database with every migration applied
+ */
+async function startDatabase(): Promise<TestDatabase> {
+  const db = await PGlite.create({ extensions: { uuid_ossp } });
+  // Roles Supabase provides, which the row level security policies name
+  await db.exec('CREATE ROLE anon; CREATE ROLE authenticated; CREATE ROLE service_role;');
+
+  const socketServer = new PGLiteSocketServer({ db, host: '127.0.0.1', port: await freePort() });
+  await socketServer.start();
+  const url = `postgres://postgres@${socketServer.getServerConn()}/postgres`;
+
+  const stop = async () => {
+    await socketServer.stop();
+    await db.close();
+  };
+
+  try {
+    await run(['src/utils/migrate.ts', 'up'], { ...process.env, DATABASE_URL: url });
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return { db, url, stop };
+}
+
+/**
+ * Add a verified user who signs in with `password`. Without `roleId` they
+ * get the built-in role of their base role.
+ */
+async function createUser(
+  db: PGlite,
+  user: { email: string; name: string; role: string; roleId?: string; password?: string }
+): Promise<TestUser> {
+  const password = user.password ?? 'Password123';
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO users (email, name, role, role_id, password_hash, is_verified)
+     VALUES ($1, $2, $3, $4, $5, true)
+     RETURNING id`,
+    [user.email, user.name, user.role, user.roleId ?? null, await argon2.hash(password)]
+  );
+  return { id: rows[0].id, email: user.email, password };
+}
+
+function withoutUndefined(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  return Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined));
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_TIMEOUT_MS);
+    child.once('exit', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    child.kill('SIGTERM');
+  });
+}
+
+/**
+ * Start the API on the database at `databaseUrl` and wait until it answers.
+ * Settings in `env` override the defaults below; undefined ones are unset.
+ */
+async function startServer(databaseUrl: string, env: NodeJS.ProcessEnv = {}): Promise<TestServer> {
+  const port = await freePort();
+  const baseUrl = `http://127.0.0.1:${port}/api`;
+
+  const child = spawn(process.execPath, [tsx, 'src/server.ts'], {
+    cwd: backendDir,
+    env: withoutUndefined({
+      ...process.env,
+      NODE_ENV: 'test',
+      PORT: String(port),
+      DB_DRIVER: 'postgres',
+      DATABASE_URL: databaseUrl,
+      DB_POOL_SIZE: '1',
+      SUPABASE_URL: '',
+      SUPABASE_ANON_KEY: '',
+      SUPABASE_SERVICE_ROLE_KEY: '',
+      JWT_SECRET: 'test-secret',
+      RESEND_API_KEY: 'test',
+      TWO_FACTOR_REQUIRED_ROLES: '',
+      TWO_FACTOR_REQUIRED_PERMISSIONS: '',
+      RATE_LIMIT_MAX_REQUESTS: '10000',
+      ...env,
+    }),
+    stdio: 'pipe',
+  });
+
+  let output = '';
+  child.stdout?.on('data', chunk => { output += chunk; });
+  child.stderr?.on('data', chunk => { output += chunk; });
+
+  const headersFor = (options: RequestOptions) => {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined && !options.file) headers['Content-Type'] = 'application/json';
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    if (options.projectId) headers['X-Project-Id'] = options.projectId;
+    return headers;
+  };
+
+  const request = async <T>(method: string, url: string, options: RequestOptions = {}) => {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: headersFor(options),
+      body: encodeBody(options),
+    });
+    return { status: response.status, body: await response.json() } as ApiResponse<T>;
+  };
+
+  const stream = async (url: string, options: RequestOptions = {}): Promise<TestStream> => {
+    const response = await fetch(`${baseUrl}${url}`, { headers: headersFor(options) });
+    const reader = response.body!.getReader();
+    const ended = (async () => {
+      while (!(await reader.read()).done);
+    })();
+    return { status: response.status, ended, close: () => reader.cancel() };
+  };
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  for (;;) {
+    if (child.exitCode !== null) {
+      throw new Error(`The server exited with ${child.exitCode}\n${output}`);
+    }
+    try {
+      const { status } = await request('GET', '/health');
+      if (status === 200) break;
+    } catch {
+      // Not listening yet
+    }
+    if (Date.now() > deadline) {
+      await stopProcess(child);
+      throw new Error(`The server did not start\n${output}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  return { request, stream, stop: () => stopProcess(child) };
+}
+
+export { createUser, startDatabase, startServer };
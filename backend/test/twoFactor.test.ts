@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createUser, startDatabase, startServer, type TestDatabase, type TestServer, type TestUser } from './support/server';
+
+describe('Two-factor authentication policy', () => {
+  let database: TestDatabase;
+  let server: TestServer;
+  let administrator: TestUser;
+  let releaseManager: TestUser;
+  let tester: TestUser;
+
+  // Add a custom role with the permissions and return its id
+  const createRole = async (name: string, permissions: string[]) => {
+    const { rows } = await database.db.query<{ id: string }>(
+      `INSERT INTO roles (name, base_role) VALUES ($1, 'QA') RETURNING id`,
+      [name]
+    );
+    await database.db.query(
+      `INSERT INTO role_permissions (role_id, permission_key) SELECT $1, unnest($2::text[])`,
+      [rows[0].id, permissions]
+    );
+    return rows[0].id;
+  };
+
+  before(async () => {
+    database = await startDatabase();
+    const administratorRoleId = await createRole('Administrator', ['users.manage', 'tests.execute']);
+    const releaseRoleId = await createRole('Release Manager', ['audit.view']);
+    administrator = await createUser(database.db, {
+      email: 'admin@example.com',
+      name: 'Ada Admin',
+      role: 'QA',
+      roleId: administratorRoleId,
+    });
+    releaseManager = await createUser(database.db, {
+      email: 'release@example.com',
+      name: 'Remy Release',
+      role: 'QA',
+      roleId: releaseRoleId,
+    });
+    tester = await createUser(database.db, { email: 'qa@example.com', name: 'Quinn Tester', role: 'QA' });
+    // The default privileged permissions, and the release role by id
+    server = await startServer(database.url, {
+      TWO_FACTOR_REQUIRED_ROLES: releaseRoleId,
+      TWO_FACTOR_REQUIRED_PERMISSIONS: undefined,
+    });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await database?.stop();
+  });
+
+  const login = async (user: TestUser) => {
+    const { status, body } = await server.request('POST', '/auth/login', {
+      body: { email: user.email, password: user.password },
+    });
+    assert.equal(status, 200, JSON.stringify(body));
+    return body.data.token as string;
+  };
+
+  it('requires it of custom roles with a privileged permission', async () => {
+    const token = await login(administrator);
+
+    const me = await server.request('GET', '/auth/me', { token });
+    assert.equal(me.body.data.user.two_factor_required, true);
+
+    const users = await server.request('GET', '/users', { token });
+    assert.equal(users.status, 403);
+    assert.equal(users.body.code, 'TWO_FACTOR_REQUIRED');
+  });
+
+  it('requires it of roles listed by id', async () => {
+    const token = await login(releaseManager);
+
+    const audit = await server.request('GET', '/audit', { token });
+    assert.equal(audit.status, 403);
+    assert.equal(audit.body.code, 'TWO_FACTOR_REQUIRED');
+  });
+
+  it('leaves other roles alone', async () => {
+    const me = await server.request('GET', '/auth/me', { token: await login(tester) });
+    assert.equal(me.status, 200);
+    assert.equal(me.body.data.user.two_factor_required, false);
+  });
+});
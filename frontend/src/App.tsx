@@ -1,5 +1,6 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { ProjectProvider } from '@/contexts/ProjectContext';
 import { ProtectedRoute, VerificationPending } from '@/components/ProtectedRoute';
 import { Layout } from '@/components/Layout';
 import { Landing } from '@/pages/Landing';
@@ -7,9 +8,17 @@ import { Login } from '@/pages/Login';
 import { ForgotPassword } from '@/pages/ForgotPassword';
 import { ResetPassword } from '@/pages/ResetPassword';
 import { VerifyEmail } from '@/pages/VerifyEmail';
+import { SsoCallback } from '@/pages/SsoCallback';
+import { AcceptInvite } from '@/pages/AcceptInvite';
+import { Profile } from '@/pages/Profile';
 import { PMDashboard } from '@/pages/pm/Dashboard';
 import { TestList } from '@/pages/pm/TestList';
+import { ImportTests } from '@/pages/pm/ImportTests';
+import { TestPlans } from '@/pages/pm/TestPlans';
 import { UserManagement } from '@/pages/pm/Users';
+import { AuditLog } from '@/pages/pm/Audit';
+import { Projects } from '@/pages/pm/Projects';
+import { Roles } from '@/pages/pm/Roles';
 import { QAAssignments } from '@/pages/qa/Assignments';
 import { ReportBug } from '@/pages/qa/ReportBug';
 import { GlobalFeed } from '@/pages/engineering/GlobalFeed';
@@ -18,81 +27,127 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <Routes>
-          {/* Public routes */}
-          <Route path="/" element={<Landing />} />
-          <Route path="/login" element={<Login />} />
-          <Route path="/forgot-password" element={<ForgotPassword />} />
-          <Route path="/reset-password" element={<ResetPassword />} />
-          <Route path="/verify-email" element={<VerifyEmail />} />
-          <Route path="/verification-pending" element={<VerificationPending />} />
+        <ProjectProvider>
+          <Routes>
+            {/* Public routes */}
+            <Route path="/" element={<Landing />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/verify-email" element={<VerifyEmail />} />
+            <Route path="/sso/callback" element={<SsoCallback />} />
+            <Route path="/accept-invite" element={<AcceptInvite />} />
+            <Route path="/verification-pending" element={<VerificationPending />} />
 
-          {/* Protected routes with Layout */}
-          <Route
-            element={
-              <ProtectedRoute>
-                <Layout />
-              </ProtectedRoute>
-            }
-          >
-            {/* PM Routes */}
+            {/* Protected routes with Layout */}
             <Route
-              path="/pm"
               element={
-                <ProtectedRoute allowedRoles={['PM']}>
-                  <PMDashboard />
+                <ProtectedRoute>
+                  <Layout />
                 </ProtectedRoute>
               }
-            />
-            <Route
-              path="/pm/tests"
-              element={
-                <ProtectedRoute allowedRoles={['PM']}>
-                  <TestList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/pm/users"
-              element={
-                <ProtectedRoute allowedRoles={['PM']}>
-                  <UserManagement />
-                </ProtectedRoute>
-              }
-            />
+            >
+              <Route path="/profile" element={<Profile />} />
 
-            {/* QA Routes */}
-            <Route
-              path="/qa"
-              element={
-                <ProtectedRoute allowedRoles={['QA']}>
-                  <QAAssignments />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/qa/report-bug"
-              element={
-                <ProtectedRoute allowedRoles={['QA']}>
-                  <ReportBug />
-                </ProtectedRoute>
-              }
-            />
+              {/* PM Routes */}
+              <Route
+                path="/pm"
+                element={
+                  <ProtectedRoute permissions={['tests.stats']}>
+                    <PMDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/tests"
+                element={
+                  <ProtectedRoute permissions={['tests.update']}>
+                    <TestList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/tests/import"
+                element={
+                  <ProtectedRoute permissions={['tests.import']}>
+                    <ImportTests />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/plans"
+                element={
+                  <ProtectedRoute permissions={['plans.manage']}>
+                    <TestPlans />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/users"
+                element={
+                  <ProtectedRoute permissions={['users.manage']} scope="account">
+                    <UserManagement />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/roles"
+                element={
+                  <ProtectedRoute permissions={['roles.manage']} scope="account">
+                    <Roles />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/audit"
+                element={
+                  <ProtectedRoute permissions={['audit.view']} scope="account">
+                    <AuditLog />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/pm/projects"
+                element={
+                  <ProtectedRoute permissions={['projects.manage']} scope="account">
+                    <Projects />
+                  </ProtectedRoute>
+                }
+              />
 
-            {/* Engineering Routes */}
-            <Route
-              path="/engineering"
-              element={
-                <ProtectedRoute allowedRoles={['ENG']}>
-                  <GlobalFeed />
-                </ProtectedRoute>
-              }
-            />
-          </Route>
+              {/* QA Routes */}
+              <Route
+                path="/qa"
+                element={
+                  <ProtectedRoute permissions={['tests.execute']}>
+                    <QAAssignments />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/qa/report-bug"
+                element={
+                  <ProtectedRoute permissions={['bugs.create']}>
+                    <ReportBug />
+                  </ProtectedRoute>
+                }
+              />
+
+              {/* Engineering Routes */}
+              <Route
+                path="/engineering"
+                element={
+                  <ProtectedRoute permissions={['tests.fix']}>
+                    <GlobalFeed />
+                  </ProtectedRoute>
+                }
+              />
+            </Route>
 
-          {/* Catch all - redirect to landing */}
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
+            {/* Catch all - redirect to landing */}
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </ProjectProvider>
       </AuthProvider>
     </BrowserRouter>
   );
@@ -0,0 +1,338 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { apiTokenApi } from '@/lib/apiClient';
+import { FIELDS } from 'qualitysync-shared';
+import type { ApiToken, ApiTokenScope } from '@/types';
+import { Check, Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+
+const scopeOptions: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read only', description: 'Read tests, bugs and plans' },
+  { value: 'tests:write', label: 'tests:write', description: 'Create and update tests, record results' },
+  { value: 'bugs:write', label: 'bugs:write', description: 'Report and update bugs' },
+];
+
+const expiryOptions = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+const tokenState = (token: ApiToken) => {
+  if (token.revoked_at) return { label: 'Revoked', variant: 'secondary' as const };
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+    return { label: 'Expired', variant: 'secondary' as const };
+  }
+  return { label: 'Active', variant: 'success' as const };
+};
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+interface ApiTokenManagerProps {
+  // Service account whose tokens to manage, the signed-in user when omitted
+  userId?: string;
+}
+
+/**
+ * List, create and revoke API tokens for scripts and CI jobs
+ */
+export function ApiTokenManager({ userId }: ApiTokenManagerProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [writeScopes, setWriteScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState('90');
+  const [submitting, setSubmitting] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiTokenApi.getAll({ user_id: userId });
+      setTokens(response.data.tokens);
+    } catch (err) {
+      console.error('Failed to fetch API tokens:', err);
+      setError(errorMessage(err, 'Failed to load API tokens'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const openDialog = () => {
+    setName('');
+    setWriteScopes([]);
+    setExpiry('90');
+    setCreateError(null);
+    setNewToken(null);
+    setCopied(false);
+    setDialogOpen(true);
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setWriteScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async () => {
+    setSubmitting(true);
+    setCreateError(null);
+    try {
+      const response = await apiTokenApi.create({
+        name: name.trim(),
+        scopes: ['read', ...writeScopes],
+        expires_in_days: expiry === 'never' ? null : Number(expiry),
+        user_id: userId,
+      });
+      setNewToken(response.data.token);
+      setTokens((prev) => [response.data.api_token, ...prev]);
+    } catch (err) {
+      console.error('Failed to create API token:', err);
+      setCreateError(errorMessage(err, 'Failed to create API token'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy API token:', err);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    setRevokingId(token.id);
+    try {
+      const response = await apiTokenApi.revoke(token.id);
+      setTokens((prev) => prev.map((t) => (t.id === token.id ? response.data.api_token : t)));
+    } catch (err) {
+      console.error('Failed to revoke API token:', err);
+      setError(errorMessage(err, 'Failed to revoke API token'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Send a token as <code className="rounded bg-muted px-1">Authorization: Bearer &lt;token&gt;</code>.
+          It acts with the permissions of its account, limited to its scopes.
+        </p>
+        <Button size="sm" onClick={openDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New token
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Token</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[90px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : tokens.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                  <KeyRound className="h-6 w-6 mx-auto mb-2" />
+                  No API tokens yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              tokens.map((token) => {
+                const state = tokenState(token);
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{token.token_prefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {token.last_used_at
+                        ? formatDistanceToNow(new Date(token.last_used_at), { addSuffix: true })
+                        : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {token.expires_at ? format(new Date(token.expires_at), 'MMM d, yyyy') : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={state.variant}>{state.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {state.label === 'Active' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleRevoke(token)}
+                          disabled={revokingId === token.id}
+                        >
+                          {revokingId === token.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{newToken ? 'Token created' : 'New API token'}</DialogTitle>
+            <DialogDescription>
+              {newToken
+                ? 'Copy the token now. It will not be shown again.'
+                : 'Tokens can always read. Add write scopes only for what the script needs.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newToken ? (
+            <div className="flex gap-2">
+              <Input readOnly value={newToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" className="h-10" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {createError && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{createError}</div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Nightly CI"
+                  value={name}
+                  maxLength={FIELDS.tokenName.max}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {scopeOptions.map((option) => (
+                  <label key={option.value} className="flex items-start gap-3 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 h-4 w-4"
+                      checked={option.value === 'read' || writeScopes.includes(option.value)}
+                      disabled={option.value === 'read'}
+                      onChange={() => toggleScope(option.value)}
+                    />
+                    <span>
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-muted-foreground">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {newToken ? (
+              <Button onClick={() => setDialogOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={!name.trim() || submitting}>
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create token
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { bugApi } from '@/lib/apiClient';
+import type { Bug, BugStatus } from '@/types';
+import { CheckCircle2, Loader2, Play, RotateCcw, Undo2, Wrench } from 'lucide-react';
+
+// Statuses a bug can be moved to by hand; conversion to a test has its own dialog
+type ManualBugStatus = Exclude<BugStatus, 'converted_to_test'>;
+
+const actionLabel = (from: BugStatus, to: BugStatus) => {
+  switch (to) {
+    case 'in_progress':
+      return from === 'resolved'
+        ? { label: 'Reject Fix', icon: <Undo2 className="h-3 w-3 mr-1" /> }
+        : { label: 'Start Work', icon: <Play className="h-3 w-3 mr-1" /> };
+    case 'resolved':
+      return { label: 'Mark Resolved', icon: <Wrench className="h-3 w-3 mr-1" /> };
+    case 'closed':
+      return { label: 'Verify & Close', icon: <CheckCircle2 className="h-3 w-3 mr-1" /> };
+    case 'open':
+      return { label: 'Reopen', icon: <RotateCcw className="h-3 w-3 mr-1" /> };
+    default:
+      return null;
+  }
+};
+
+interface BugStatusActionsProps {
+  bug: Bug;
+  onChanged: (bug: Bug) => void;
+}
+
+/**
+ * Buttons for the lifecycle moves the server allows the current user
+ */
+export function BugStatusActions({ bug, onChanged }: BugStatusActionsProps) {
+  const [pendingStatus, setPendingStatus] = useState<BugStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const transitions = (bug.allowed_transitions || []).filter(
+    (status): status is ManualBugStatus => status !== 'converted_to_test'
+  );
+
+  if (transitions.length === 0) return null;
+
+  const handleTransition = async (status: ManualBugStatus) => {
+    setPendingStatus(status);
+    setError(null);
+    try {
+      const response = await bugApi.updateStatus(bug.id, { status });
+      onChanged({ ...bug, ...response.data.bug });
+    } catch (err) {
+      console.error('Failed to update bug status:', err);
+      const apiError = err as { response?: { data?: { message?: string } } };
+      setError(apiError.response?.data?.message || 'Failed to update bug status');
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2">
+        {transitions.map((status) => {
+          const action = actionLabel(bug.status, status);
+          if (!action) return null;
+          return (
+            <Button
+              key={status}
+              size="sm"
+              variant={status === 'in_progress' && bug.status === 'resolved' ? 'outline' : 'default'}
+              disabled={pendingStatus !== null}
+              onClick={() => handleTransition(status)}
+            >
+              {pendingStatus === status ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : action.icon}
+              {action.label}
+            </Button>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
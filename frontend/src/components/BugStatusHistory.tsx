@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { bugApi } from '@/lib/apiClient';
+import type { BugStatus, BugStatusChange } from '@/types';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+
+const statusLabels: Record<BugStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  converted_to_test: 'Test Created',
+};
+
+interface BugStatusHistoryProps {
+  bugId: string;
+  // Changes whenever the bug is updated so the history is reloaded
+  updatedAt?: string;
+}
+
+export function BugStatusHistory({ bugId, updatedAt }: BugStatusHistoryProps) {
+  const [history, setHistory] = useState<BugStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await bugApi.getHistory(bugId);
+        if (!cancelled) setHistory(response.data.history);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load status history');
+        console.error(err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bugId, updatedAt]);
+
+  return (
+    <div>
+      <span className="text-sm font-medium flex items-center gap-1">
+        <History className="h-4 w-4" />
+        Status History
+      </span>
+
+      {loading ? (
+        <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive mt-1">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-1">No status changes recorded</p>
+      ) : (
+        <ol className="mt-3 space-y-3 border-l pl-4">
+          {history.map((change) => (
+            <li key={change.id} className="relative">
+              <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary ring-2 ring-background" />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {change.from_status ? (
+                  <>
+                    <Badge variant="outline">{statusLabels[change.from_status]}</Badge>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <Badge variant="secondary">{statusLabels[change.to_status]}</Badge>
+                  </>
+                ) : (
+                  <span>Reported as <Badge variant="secondary">{statusLabels[change.to_status]}</Badge></span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {change.changer
+                  ? `${change.changer.name} (${change.changer.role})`
+                  : 'Unknown'}{' '}
+                · {format(new Date(change.created_at), 'PPp')}
+              </p>
+              {change.note && (
+                <p className="text-sm text-muted-foreground mt-1">{change.note}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useEffect, useRef } from 'react';
+import Markdown from 'react-markdown';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/contexts/project';
+import { commentApi } from '@/lib/apiClient';
+import { emphasizeMentions, findMentionQuery, suggestMentions } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+import type { Comment, CommentTarget, MentionableUser } from '@/types';
+import { Loader2, MessageSquare, Pencil, Send, Trash2 } from 'lucide-react';
+
+// Styles for rendered markdown, there is no typography plugin in this project
+const markdownClassName = cn(
+  'text-sm break-words',
+  '[&_p]:mb-2 [&_p:last-child]:mb-0 [&_ul]:list-disc [&_ul]:pl-5 [&_ul]:mb-2 [&_ol]:list-decimal [&_ol]:pl-5 [&_ol]:mb-2',
+  '[&_a]:text-primary [&_a:hover]:underline [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground',
+  '[&_code]:rounded [&_code]:bg-muted [&_code]:px-1 [&_code]:font-mono [&_code]:text-xs [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-2 [&_pre]:overflow-x-auto'
+);
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: MentionableUser[];
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Textarea that suggests users after typing `@`
+ */
+function MentionTextarea({ value, onChange, users, placeholder, disabled }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+
+  const mention = findMentionQuery(value, caret);
+  const suggestions = mention ? suggestMentions(users, mention.query) : [];
+
+  const insertMention = (user: MentionableUser) => {
+    if (!mention) return;
+    const next = `${value.slice(0, mention.start)}@${user.name} ${value.slice(caret)}`;
+    const nextCaret = mention.start + user.name.length + 2;
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="min-h-[80px]"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-64 rounded-md border bg-popover shadow-md">
+          {suggestions.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-muted"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(user);
+              }}
+            >
+              <span>{user.name}</span>
+              <span className="text-xs text-muted-foreground">{user.role}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const threadTarget = (testCaseId?: string, bugId?: string): CommentTarget =>
+  testCaseId ? { test_case_id: testCaseId } : { bug_id: bugId as string };
+
+interface CommentThreadProps {
+  testCaseId?: string;
+  bugId?: string;
+}
+
+export function CommentThread({ testCaseId, bugId }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { permissions } = useProject();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchThread = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [commentsRes, usersRes] = await Promise.all([
+          commentApi.getAll(threadTarget(testCaseId, bugId)),
+          commentApi.getMentionable(),
+        ]);
+        if (!cancelled) {
+          setComments(commentsRes.data.comments);
+          setUsers(usersRes.data.users);
+        }
+      } catch (err) {
+        if (!cancelled) setError('Failed to load comments');
+        console.error(err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchThread();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testCaseId, bugId]);
+
+  const handlePost = async () => {
+    if (!draft.trim()) return;
+    setPosting(true);
+    setError(null);
+    try {
+      const response = await commentApi.create({ ...threadTarget(testCaseId, bugId), body: draft });
+      setComments((prev) => [...prev, response.data.comment]);
+      setDraft('');
+    } catch (err) {
+      console.error('Failed to post comment:', err);
+      setError('Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const startEdit = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft.trim()) return;
+    setSavingEdit(true);
+    setError(null);
+    try {
+      const response = await commentApi.update(editingId, { body: editDraft });
+      setComments((prev) => prev.map((comment) => (comment.id === editingId ? response.data.comment : comment)));
+      setEditingId(null);
+    } catch (err) {
+      console.error('Failed to update comment:', err);
+      setError('Failed to update comment');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await commentApi.delete(id);
+      setComments((prev) => prev.filter((comment) => comment.id !== id));
+    } catch (err) {
+      console.error('Failed to delete comment:', err);
+      setError('Failed to delete comment');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <span className="text-sm font-medium flex items-center gap-1">
+        <MessageSquare className="h-4 w-4" />
+        Discussion {!loading && `(${comments.length})`}
+      </span>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading comments...
+        </div>
+      ) : (
+        <>
+          {comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments yet. Start the discussion below.</p>
+          ) : (
+            <div className="space-y-3">
+              {comments.map((comment) => {
+                const isAuthor = comment.author_id === user?.id;
+                const canDelete = isAuthor || permissions.includes('comments.moderate');
+                const mentionNames = (comment.mentions || [])
+                  .map((mention) => mention.user?.name)
+                  .filter((name): name is string => Boolean(name));
+                const edited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+                return (
+                  <div key={comment.id} className="rounded-lg border bg-background p-3">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-medium">{comment.author?.name || 'Deleted user'}</span>
+                        {comment.author && <Badge variant="outline">{comment.author.role}</Badge>}
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                          {edited && ' (edited)'}
+                        </span>
+                      </div>
+                      {editingId !== comment.id && canDelete && (
+                        <div className="flex items-center gap-1">
+                          {isAuthor && (
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startEdit(comment)}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {canDelete && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                              onClick={() => handleDelete(comment.id)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {editingId === comment.id ? (
+                      <div className="space-y-2">
+                        <MentionTextarea value={editDraft} onChange={setEditDraft} users={users} disabled={savingEdit} />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={savingEdit}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={handleSaveEdit} disabled={savingEdit || !editDraft.trim()}>
+                            {savingEdit && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className={markdownClassName}>
+                        <Markdown>
+                          {emphasizeMentions(comment.body, mentionNames)}
+                        </Markdown>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <MentionTextarea
+              value={draft}
+              onChange={setDraft}
+              users={users}
+              placeholder="Write a comment... Markdown is supported, type @ to mention someone"
+              disabled={posting}
+            />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handlePost} disabled={posting || !draft.trim()}>
+                {posting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Send className="h-3 w-3 mr-1" />}
+                Comment
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { saveBlob } from '@/lib/download';
+import type { ExportFormat } from '@/types';
+import { Download, Loader2 } from 'lucide-react';
+
+const formats: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Spreadsheet of all columns' },
+  { value: 'json', label: 'JSON', description: 'Raw records for scripts' },
+  { value: 'pdf', label: 'PDF report', description: 'Release readiness summary' },
+];
+
+interface ExportMenuProps {
+  // File name without extension
+  fileName: string;
+  onExport: (format: ExportFormat) => Promise<Blob>;
+}
+
+/**
+ * Export button with a menu of file formats
+ */
+export function ExportMenu({ fileName, onExport }: ExportMenuProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Close the menu on clicks outside of it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = await onExport(format);
+      saveBlob(blob, `${fileName}-${new Date().toISOString().slice(0, 10)}.${format}`);
+      setOpen(false);
+    } catch (err) {
+      console.error('Export failed:', err);
+      const apiError = err as { response?: { data?: { message?: string } } };
+      setError(apiError.response?.data?.message || 'Export failed, please try again');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="outline" onClick={() => setOpen((prev) => !prev)}>
+        <Download className="h-4 w-4 mr-2" />
+        Export
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-50 mt-2 w-56 rounded-lg border bg-popover p-1 shadow-lg">
+          {formats.map((format) => (
+            <button
+              key={format.value}
+              type="button"
+              className="flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left hover:bg-muted disabled:opacity-50"
+              disabled={exporting !== null}
+              onClick={() => handleExport(format.value)}
+            >
+              <span>
+                <span className="block text-sm font-medium">{format.label}</span>
+                <span className="block text-xs text-muted-foreground">{format.description}</span>
+              </span>
+              {exporting === format.value && <Loader2 className="h-4 w-4 animate-spin" />}
+            </button>
+          ))}
+          {error && <p className="px-3 py-2 text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
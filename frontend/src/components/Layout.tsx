@@ -1,7 +1,16 @@
 import { Link, useLocation, Outlet } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/contexts/project';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { NotificationBell } from '@/components/NotificationBell';
 import {
   LayoutDashboard,
   ClipboardList,
@@ -11,14 +20,21 @@ import {
   User,
   Users,
   ChevronRight,
+  Layers,
+  FileClock,
+  ShieldAlert,
+  ShieldCheck,
+  FolderKanban,
 } from 'lucide-react';
-import type { UserRole } from '@/types';
+import type { Permission, UserRole } from '@/types';
 
 interface NavItem {
   label: string;
   href: string;
   icon: React.ReactNode;
-  roles: UserRole[];
+  permission: Permission;
+  // Shown by the account-wide permissions instead of those in the current project
+  account?: boolean;
 }
 
 const navItems: NavItem[] = [
@@ -26,47 +42,79 @@ const navItems: NavItem[] = [
     label: 'Dashboard',
     href: '/pm',
     icon: <LayoutDashboard className="h-5 w-5" />,
-    roles: ['PM'],
+    permission: 'tests.stats',
   },
   {
     label: 'Master Test List',
     href: '/pm/tests',
     icon: <ClipboardList className="h-5 w-5" />,
-    roles: ['PM'],
+    permission: 'tests.update',
+  },
+  {
+    label: 'Test Plans',
+    href: '/pm/plans',
+    icon: <Layers className="h-5 w-5" />,
+    permission: 'plans.manage',
+  },
+  {
+    label: 'Projects',
+    href: '/pm/projects',
+    icon: <FolderKanban className="h-5 w-5" />,
+    permission: 'projects.manage',
+    account: true,
   },
   {
     label: 'User Management',
     href: '/pm/users',
     icon: <Users className="h-5 w-5" />,
-    roles: ['PM'],
+    permission: 'users.manage',
+    account: true,
+  },
+  {
+    label: 'Roles',
+    href: '/pm/roles',
+    icon: <ShieldCheck className="h-5 w-5" />,
+    permission: 'roles.manage',
+    account: true,
+  },
+  {
+    label: 'Audit Log',
+    href: '/pm/audit',
+    icon: <FileClock className="h-5 w-5" />,
+    permission: 'audit.view',
+    account: true,
   },
   {
     label: 'My Assignments',
     href: '/qa',
     icon: <ClipboardList className="h-5 w-5" />,
-    roles: ['QA'],
+    permission: 'tests.execute',
   },
   {
     label: 'Report Bug',
     href: '/qa/report-bug',
     icon: <Bug className="h-5 w-5" />,
-    roles: ['QA'],
+    permission: 'bugs.create',
   },
   {
     label: 'Global Feed',
     href: '/engineering',
     icon: <Rss className="h-5 w-5" />,
-    roles: ['ENG'],
+    permission: 'tests.fix',
   },
 ];
 
 export function Layout() {
   const { user, logout } = useAuth();
+  const { projects, currentProject, projectRole, permissions, switchProject } = useProject();
   const location = useLocation();
 
   if (!user) return null;
 
-  const filteredNavItems = navItems.filter(item => item.roles.includes(user.role));
+  const filteredNavItems = navItems.filter((item) =>
+    (item.account ? user.permissions : permissions).includes(item.permission)
+  );
+  const badgeRole = projectRole ?? user.role;
 
   const roleLabels: Record<UserRole, string> = {
     PM: 'Product Manager',
@@ -93,8 +141,30 @@ export function Layout() {
               </div>
               <span className="font-semibold text-lg">QualitySync</span>
             </Link>
+            <div className="ml-auto">
+              <NotificationBell />
+            </div>
           </div>
 
+          {/* Project switcher */}
+          {projects.length > 0 && currentProject && (
+            <div className="border-b px-3 py-3">
+              <p className="px-1 pb-1 text-xs font-medium text-muted-foreground">Project</p>
+              <Select value={currentProject.id} onValueChange={switchProject}>
+                <SelectTrigger aria-label="Switch project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Navigation */}
           <nav className="flex-1 space-y-1 px-3 py-4">
             {filteredNavItems.map((item) => {
@@ -120,17 +190,24 @@ export function Layout() {
 
           {/* User section */}
           <div className="border-t p-4">
-            <div className="flex items-center gap-3 mb-3">
+            <Link
+              to="/profile"
+              className="flex items-center gap-3 mb-3 -mx-2 rounded-lg px-2 py-1 hover:bg-accent"
+              title="Profile and API tokens"
+            >
               <div className="h-10 w-10 rounded-full bg-muted flex items-center justify-center">
                 <User className="h-5 w-5 text-muted-foreground" />
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium truncate">{user.name}</p>
-                <span className={cn('text-xs px-2 py-0.5 rounded-full', roleBadgeColors[user.role])}>
-                  {roleLabels[user.role]}
+                <span
+                  className={cn('text-xs px-2 py-0.5 rounded-full', roleBadgeColors[badgeRole])}
+                  title={currentProject ? `Your role in ${currentProject.name}` : undefined}
+                >
+                  {roleLabels[badgeRole]}
                 </span>
               </div>
-            </div>
+            </Link>
             <Button
               variant="outline"
               size="sm"
@@ -147,7 +224,19 @@ export function Layout() {
       {/* Main content */}
       <main className="pl-64">
         <div className="p-8">
-          <Outlet />
+          {user.two_factor_required && !user.two_factor_enabled && location.pathname !== '/profile' && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+              <ShieldAlert className="h-5 w-5 shrink-0" />
+              <span className="flex-1">
+                Your role requires two-factor authentication. Some features stay locked until you set it up.
+              </span>
+              <Button asChild size="sm" variant="outline">
+                <Link to="/profile">Set up now</Link>
+              </Button>
+            </div>
+          )}
+          {/* Pages load their data again for another project */}
+          <Outlet key={currentProject?.id} />
         </div>
       </main>
     </div>
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { userApi } from '@/lib/apiClient';
+import { describeDevice } from '@/lib/devices';
+import type { LoginAttempt, LoginFailureReason } from '@/types';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+const failureLabels: Record<LoginFailureReason, string> = {
+  invalid_password: 'Wrong password',
+  invalid_code: 'Wrong 2FA code',
+  locked: 'Account locked',
+  unverified: 'Email not verified',
+};
+
+interface LoginHistoryProps {
+  userId: string;
+}
+
+/**
+ * Recent sign-ins and failed attempts of a user, newest first
+ */
+export function LoginHistory({ userId }: LoginHistoryProps) {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await userApi.getLoginHistory(userId);
+        if (!cancelled) setAttempts(response.data.attempts);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load sign-in history');
+        console.error(err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (loading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (attempts.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No sign-ins recorded yet</p>;
+  }
+
+  return (
+    <div className="border rounded-lg max-h-[60vh] overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Result</TableHead>
+            <TableHead>Device</TableHead>
+            <TableHead>IP Address</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {attempts.map((attempt) => (
+            <TableRow key={attempt.id}>
+              <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                {format(new Date(attempt.created_at), 'MMM d, yyyy HH:mm')}
+              </TableCell>
+              <TableCell>
+                {attempt.success ? (
+                  <Badge variant="success" className="gap-1">
+                    <CheckCircle2 className="h-3 w-3" />
+                    {attempt.auth_method === 'sso' ? 'Signed in with SSO' : 'Signed in'}
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive" className="gap-1">
+                    <XCircle className="h-3 w-3" />
+                    {attempt.failure_reason ? failureLabels[attempt.failure_reason] : 'Failed'}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span title={attempt.user_agent ?? undefined}>{describeDevice(attempt.user_agent)}</span>
+                  {attempt.new_device && <Badge variant="outline">New device</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{attempt.ip_address || 'Unknown'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/contexts/project';
+import { notificationApi } from '@/lib/apiClient';
+import { notificationLink } from '@/lib/notifications';
+import { useRealtimeEvents } from '@/lib/realtime';
+import { cn } from '@/lib/utils';
+import type { AppNotification } from '@/types';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+
+// Live updates push new notifications, polling only catches up after disconnects
+const POLL_INTERVAL_MS = 5 * 60_000;
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const { projectRole } = useProject();
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const response = await notificationApi.getUnreadCount();
+      setUnreadCount(response.data.unread_count);
+    } catch (err) {
+      console.error('Failed to fetch unread notifications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchUnreadCount]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+
+    const fetchNotifications = async () => {
+      setLoading(true);
+      try {
+        const response = await notificationApi.getAll({ limit: 10 });
+        if (!cancelled) {
+          setNotifications(response.data.notifications);
+          setUnreadCount(response.data.unread_count);
+        }
+      } catch (err) {
+        console.error('Failed to fetch notifications:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchNotifications();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  useRealtimeEvents((event) => {
+    if (event.type !== 'notification.created') return;
+    setUnreadCount((prev) => prev + 1);
+    setNotifications((prev) => [event.data, ...prev]);
+  });
+
+  // Close the panel on clicks outside of it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  if (!user) return null;
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      try {
+        const response = await notificationApi.markAsRead(notification.id);
+        setUnreadCount(response.data.unread_count);
+        setNotifications((prev) =>
+          prev.map((n) => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n))
+        );
+      } catch (err) {
+        console.error('Failed to mark notification as read:', err);
+      }
+    }
+
+    const link = notificationLink(notification, projectRole ?? user.role);
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      const response = await notificationApi.markAllAsRead();
+      setUnreadCount(response.data.unread_count);
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at || now })));
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="relative h-9 w-9 p-0"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full bg-destructive px-1 text-[10px] font-semibold leading-[18px] text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-2 w-80 rounded-lg border bg-popover shadow-lg">
+          <div className="flex items-center justify-between border-b px-4 py-3">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                onClick={handleMarkAllAsRead}
+              >
+                <CheckCheck className="h-3 w-3" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading...
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={cn(
+                    'flex w-full gap-3 border-b px-4 py-3 text-left last:border-b-0 hover:bg-muted',
+                    !notification.read_at && 'bg-primary/5'
+                  )}
+                  onClick={() => handleOpenNotification(notification)}
+                >
+                  <span
+                    className={cn(
+                      'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                      notification.read_at ? 'bg-transparent' : 'bg-primary'
+                    )}
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-sm font-medium">{notification.title}</span>
+                    {notification.body && (
+                      <span className="block truncate text-xs text-muted-foreground">{notification.body}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,38 @@
-import { Navigate, useLocation } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import type { UserRole } from '@/types';
+import { useProject } from '@/contexts/project';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FolderKanban } from 'lucide-react';
+import type { Permission, UserRole } from '@/types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: UserRole[];
+  // The page needs any one of these permissions
+  permissions?: Permission[];
+  // Whether permissions are checked in the current project or on the
+  // account-wide role, for pages like user management
+  scope?: 'project' | 'account';
   requireVerified?: boolean;
 }
 
+const defaultRoutes: Record<UserRole, string> = {
+  PM: '/pm',
+  QA: '/qa',
+  ENG: '/engineering',
+};
+
 export function ProtectedRoute({
   children,
-  allowedRoles,
+  permissions,
+  scope = 'project',
   requireVerified = true
 }: ProtectedRouteProps) {
   const { user, isLoading } = useAuth();
+  const { projectRole, permissions: projectPermissions, isLoading: projectsLoading } = useProject();
   const location = useLocation();
 
-  if (isLoading) {
+  if (isLoading || (permissions && projectsLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -34,19 +50,49 @@ export function ProtectedRoute({
     return <Navigate to="/verification-pending" replace />;
   }
 
-  // User doesn't have required role - redirect to their default dashboard
-  if (allowedRoles && !allowedRoles.includes(user.role)) {
-    const defaultRoutes: Record<UserRole, string> = {
-      PM: '/pm',
-      QA: '/qa',
-      ENG: '/engineering',
-    };
-    return <Navigate to={defaultRoutes[user.role]} replace />;
+  if (!permissions) {
+    return <>{children}</>;
+  }
+
+  if (scope === 'project' && !projectRole) {
+    return <NoProjectAccess canCreate={user.permissions.includes('projects.manage')} />;
+  }
+
+  const granted = scope === 'account' ? user.permissions : projectPermissions;
+
+  // User doesn't have a required permission - redirect to their default dashboard,
+  // or to their profile when a custom role leaves that one out as well
+  if (!permissions.some((permission) => granted.includes(permission))) {
+    const fallback = projectRole ? defaultRoutes[projectRole] : '/profile';
+    return <Navigate to={fallback === location.pathname ? '/profile' : fallback} replace />;
   }
 
   return <>{children}</>;
 }
 
+function NoProjectAccess({ canCreate }: { canCreate: boolean }) {
+  return (
+    <Card className="max-w-lg mx-auto mt-12">
+      <CardContent className="py-8 text-center">
+        <div className="mx-auto w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+          <FolderKanban className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h2 className="text-xl font-semibold mb-2">No project yet</h2>
+        <p className="text-muted-foreground">
+          {canCreate
+            ? 'Create a project or add yourself to one to start working with tests and bugs.'
+            : 'You are not a member of any project yet. Ask a Product Manager to add you.'}
+        </p>
+        {canCreate && (
+          <Button asChild className="mt-6">
+            <Link to="/pm/projects">Manage projects</Link>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Component for the verification pending page
 export function VerificationPending() {
   const { logout } = useAuth();
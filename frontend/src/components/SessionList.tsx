@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { sessionApi } from '@/lib/apiClient';
+import { describeDevice, isMobileDevice } from '@/lib/devices';
+import type { AuthSession } from '@/types';
+import { Loader2, Monitor, Smartphone } from 'lucide-react';
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+interface SessionListProps {
+  // Called after the current session was signed out
+  onSignedOut: () => void;
+}
+
+/**
+ * Browsers and devices signed in to the account, each of which can be signed out
+ */
+export function SessionList({ onSignedOut }: SessionListProps) {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await sessionApi.getAll();
+      setSessions(response.data.sessions);
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+      setError(errorMessage(err, 'Failed to load sessions'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: AuthSession) => {
+    setRevokingId(session.id);
+    try {
+      await sessionApi.revoke(session.id);
+      if (session.current) {
+        onSignedOut();
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err) {
+      console.error('Failed to sign out session:', err);
+      setError(errorMessage(err, 'Failed to sign out session'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevokingOthers(true);
+    try {
+      await sessionApi.revokeOthers();
+      setSessions((prev) => prev.filter((s) => s.current));
+    } catch (err) {
+      console.error('Failed to sign out other sessions:', err);
+      setError(errorMessage(err, 'Failed to sign out other sessions'));
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <ul className="divide-y rounded-lg border">
+        {sessions.map((session) => {
+          const DeviceIcon = isMobileDevice(session.user_agent) ? Smartphone : Monitor;
+          return (
+            <li key={session.id} className="flex items-center gap-4 p-4">
+              <DeviceIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate" title={session.user_agent ?? undefined}>
+                    {describeDevice(session.user_agent)}
+                  </span>
+                  {session.current && <Badge variant="success">This device</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {session.ip_address || 'Unknown location'} · Active{' '}
+                  {formatDistanceToNow(new Date(session.last_used_at), { addSuffix: true })} · Signed in{' '}
+                  {session.auth_method === 'sso' && 'with SSO '}
+                  {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => handleRevoke(session)}
+                disabled={revokingId === session.id}
+              >
+                {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign out'}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {sessions.some((session) => !session.current) && (
+        <Button variant="outline" size="sm" onClick={handleRevokeOthers} disabled={revokingOthers}>
+          {revokingOthers && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Sign out all other sessions
+        </Button>
+      )}
+    </div>
+  );
+}
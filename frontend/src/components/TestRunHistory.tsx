@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { StepResultList } from '@/components/TestSteps';
+import { testApi } from '@/lib/apiClient';
+import { cn } from '@/lib/utils';
+import type { TestRun, TestStatus } from '@/types';
+import {
+  CheckCircle2,
+  XCircle,
+  ClipboardList,
+  AlertOctagon,
+  ExternalLink,
+  Clock,
+  History,
+  Loader2,
+  Wrench,
+  RotateCcw,
+} from 'lucide-react';
+
+const runStatusConfig: Record<TestStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'success' | 'warning'; icon: React.ReactNode; dotColor: string }> = {
+  pass: {
+    label: 'Pass',
+    variant: 'success',
+    icon: <CheckCircle2 className="h-3 w-3" />,
+    dotColor: 'bg-green-500',
+  },
+  fail: {
+    label: 'Fail',
+    variant: 'destructive',
+    icon: <XCircle className="h-3 w-3" />,
+    dotColor: 'bg-red-500',
+  },
+  pending: {
+    label: 'Not Tested',
+    variant: 'secondary',
+    icon: <ClipboardList className="h-3 w-3" />,
+    dotColor: 'bg-gray-400',
+  },
+  escalated: {
+    label: 'Escalated',
+    variant: 'warning',
+    icon: <AlertOctagon className="h-3 w-3" />,
+    dotColor: 'bg-orange-500',
+  },
+  in_fix: {
+    label: 'In Fix',
+    variant: 'secondary',
+    icon: <Wrench className="h-3 w-3" />,
+    dotColor: 'bg-blue-500',
+  },
+  ready_for_retest: {
+    label: 'Ready for Retest',
+    variant: 'default',
+    icon: <RotateCcw className="h-3 w-3" />,
+    dotColor: 'bg-primary',
+  },
+};
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
+
+interface TestRunHistoryProps {
+  testId: string;
+  // Changes whenever the test is updated so the history is reloaded
+  updatedAt?: string;
+}
+
+export function TestRunHistory({ testId, updatedAt }: TestRunHistoryProps) {
+  const [runs, setRuns] = useState<TestRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRuns = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await testApi.getRuns(testId);
+        if (!cancelled) setRuns(response.data.runs);
+      } catch (err) {
+        if (!cancelled) setError('Failed to load run history');
+        console.error(err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchRuns();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testId, updatedAt]);
+
+  return (
+    <div>
+      <span className="text-sm font-medium flex items-center gap-1">
+        <History className="h-4 w-4" />
+        Run History
+      </span>
+
+      {loading ? (
+        <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading runs...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive mt-1">{error}</p>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-1">This test has not been run yet</p>
+      ) : (
+        <ol className="mt-3 space-y-4 border-l pl-4">
+          {runs.map((run, index) => {
+            const status = runStatusConfig[run.status];
+            return (
+              <li key={run.id} className="relative">
+                <span
+                  className={cn(
+                    'absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ring-2 ring-background',
+                    status.dotColor
+                  )}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={status.variant} className="gap-1">
+                    {status.icon}
+                    {status.label}
+                  </Badge>
+                  {index === 0 && <Badge variant="outline">Latest</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(run.executed_at), 'PPp')}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-4 mt-1 text-xs text-muted-foreground">
+                  <span>by {run.executor?.name || 'Unknown'}</span>
+                  {run.duration_seconds !== null && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDuration(run.duration_seconds)}
+                    </span>
+                  )}
+                  {run.evidence_url && (
+                    <a
+                      href={run.evidence_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      Evidence <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+                {run.notes && (
+                  <p className="text-sm text-muted-foreground mt-1">{run.notes}</p>
+                )}
+                {run.step_results && run.step_results.length > 0 && (
+                  <StepResultList results={run.step_results} />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { StepStatus, TestStep, TestStepResult } from '@/types';
+import { CheckCircle2, XCircle, Ban, ListOrdered } from 'lucide-react';
+
+const stepStatusConfig: Record<StepStatus, { label: string; variant: 'success' | 'destructive' | 'warning'; icon: React.ReactNode; color: string }> = {
+  pass: {
+    label: 'Pass',
+    variant: 'success',
+    icon: <CheckCircle2 className="h-3 w-3" />,
+    color: 'bg-green-500 hover:bg-green-600 text-white',
+  },
+  fail: {
+    label: 'Fail',
+    variant: 'destructive',
+    icon: <XCircle className="h-3 w-3" />,
+    color: 'bg-red-500 hover:bg-red-600 text-white',
+  },
+  blocked: {
+    label: 'Blocked',
+    variant: 'warning',
+    icon: <Ban className="h-3 w-3" />,
+    color: 'bg-orange-500 hover:bg-orange-600 text-white',
+  },
+};
+
+/**
+ * Read-only list of the ordered steps of a test case
+ */
+export function TestStepList({ steps }: { steps: TestStep[] }) {
+  return (
+    <div>
+      <span className="text-sm font-medium flex items-center gap-1">
+        <ListOrdered className="h-4 w-4" />
+        Steps
+      </span>
+      <ol className="mt-2 space-y-2">
+        {steps.map((step, index) => (
+          <li key={step.id} className="flex gap-3 text-sm">
+            <span className="flex-shrink-0 h-5 w-5 rounded-full bg-muted text-xs flex items-center justify-center font-medium">
+              {index + 1}
+            </span>
+            <div className="flex-1">
+              <p>{step.action}</p>
+              <p className="text-muted-foreground">Expected: {step.expected_result}</p>
+              {step.test_data && (
+                <p className="text-xs text-muted-foreground font-mono mt-0.5">Data: {step.test_data}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export interface StepOutcome {
+  status?: StepStatus;
+  notes: string;
+}
+
+interface TestStepChecklistProps {
+  steps: TestStep[];
+  outcomes: Record<string, StepOutcome>;
+  onChange: (stepId: string, outcome: StepOutcome) => void;
+}
+
+/**
+ * Step-by-step execution checklist used when recording a run
+ */
+export function TestStepChecklist({ steps, outcomes, onChange }: TestStepChecklistProps) {
+  return (
+    <ol className="space-y-3">
+      {steps.map((step, index) => {
+        const outcome = outcomes[step.id] || { notes: '' };
+        return (
+          <li key={step.id} className="p-3 border rounded-lg space-y-2">
+            <div className="flex gap-3 text-sm">
+              <span className="flex-shrink-0 h-5 w-5 rounded-full bg-muted text-xs flex items-center justify-center font-medium">
+                {index + 1}
+              </span>
+              <div className="flex-1">
+                <p className="font-medium">{step.action}</p>
+                <p className="text-muted-foreground">Expected: {step.expected_result}</p>
+                {step.test_data && (
+                  <p className="text-xs text-muted-foreground font-mono mt-0.5">Data: {step.test_data}</p>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {(['pass', 'fail', 'blocked'] as const).map((status) => {
+                const config = stepStatusConfig[status];
+                return (
+                  <Button
+                    key={status}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className={cn(outcome.status === status && config.color)}
+                    onClick={() => onChange(step.id, { ...outcome, status })}
+                  >
+                    {config.icon}
+                    <span className="ml-1">{config.label}</span>
+                  </Button>
+                );
+              })}
+            </div>
+            {(outcome.status === 'fail' || outcome.status === 'blocked') && (
+              <Input
+                placeholder="What happened at this step?"
+                value={outcome.notes}
+                onChange={(e) => onChange(step.id, { ...outcome, notes: e.target.value })}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * Compact per-step outcomes of a recorded run
+ */
+export function StepResultList({ results }: { results: TestStepResult[] }) {
+  return (
+    <ol className="mt-2 space-y-1">
+      {results.map((result) => {
+        const config = stepStatusConfig[result.status];
+        return (
+          <li key={result.id} className="flex items-start gap-2 text-xs">
+            <Badge variant={config.variant} className="gap-1 flex-shrink-0">
+              {config.icon}
+              {config.label}
+            </Badge>
+            <span className="text-muted-foreground">
+              {result.position + 1}. {result.action}
+              {result.notes && <span className="italic"> — {result.notes}</span>}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { twoFactorApi } from '@/lib/apiClient';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { Check, Copy, Loader2 } from 'lucide-react';
+
+type CodeAction = 'disable' | 'recovery-codes';
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+/**
+ * Set up, inspect and turn off TOTP two-factor authentication
+ */
+export function TwoFactorSettings() {
+  const { refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await twoFactorApi.getStatus();
+      setStatus(response.data);
+    } catch (err) {
+      console.error('Failed to fetch two-factor status:', err);
+      setError(errorMessage(err, 'Failed to load two-factor status'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await twoFactorApi.startSetup();
+      setSetup(response.data);
+      setCode('');
+    } catch (err) {
+      console.error('Failed to start two-factor setup:', err);
+      setError(errorMessage(err, 'Failed to start setup'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await twoFactorApi.enable({ code: code.trim() });
+      setSetup(null);
+      setCode('');
+      setCopied(false);
+      setRecoveryCodes(response.data.recovery_codes);
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (err) {
+      console.error('Failed to enable two-factor authentication:', err);
+      setError(errorMessage(err, 'Failed to enable two-factor authentication'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openCodeDialog = (action: CodeAction) => {
+    setCode('');
+    setPassword('');
+    setDialogError(null);
+    setCodeAction(action);
+  };
+
+  const handleCodeAction = async () => {
+    setSubmitting(true);
+    setDialogError(null);
+    try {
+      if (codeAction === 'disable') {
+        await twoFactorApi.disable({ password, code: code.trim() });
+        setRecoveryCodes(null);
+        await Promise.all([fetchStatus(), refreshUser()]);
+      } else {
+        const response = await twoFactorApi.regenerateRecoveryCodes({ code: code.trim() });
+        setCopied(false);
+        setRecoveryCodes(response.data.recovery_codes);
+        await fetchStatus();
+      }
+      setCodeAction(null);
+    } catch (err) {
+      console.error('Two-factor action failed:', err);
+      setDialogError(errorMessage(err, 'Something went wrong'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  };
+
+  if (!status) {
+    return error ? (
+      <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+    ) : (
+      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Badge variant={status.enabled ? 'success' : 'secondary'}>
+          {status.enabled ? 'Enabled' : 'Not enabled'}
+        </Badge>
+        {status.required && (
+          <span className="text-sm text-muted-foreground">Required for your role</span>
+        )}
+        {status.enabled && (
+          <span className="text-sm text-muted-foreground">
+            {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? '' : 's'} left
+          </span>
+        )}
+      </div>
+
+      {recoveryCodes && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <p className="text-sm">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+              Copy codes
+            </Button>
+            <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+              I saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <Button size="sm" onClick={handleStartSetup} disabled={submitting}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      )}
+
+      {!status.enabled && setup && (
+        <div className="rounded-lg border p-4 space-y-4">
+          <p className="text-sm">
+            Scan the QR code with an authenticator app such as Google Authenticator, 1Password or
+            Authy, then enter the code it shows.
+          </p>
+          <div className="flex flex-wrap items-center gap-6">
+            <img src={setup.qr_code} alt="Two-factor QR code" className="h-40 w-40 rounded border" />
+            <div className="space-y-1 text-sm">
+              <p className="text-muted-foreground">Or enter this key manually:</p>
+              <code className="rounded bg-muted px-2 py-1 font-mono break-all">{setup.secret}</code>
+            </div>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-setup-code">Code</Label>
+              <Input
+                id="two-factor-setup-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={6}
+                className="w-32"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleEnable} disabled={submitting || code.trim().length !== 6}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Enable
+            </Button>
+            <Button variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => openCodeDialog('recovery-codes')}>
+            New recovery codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => openCodeDialog('disable')}
+            >
+              Disable
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && setCodeAction(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>
+              {codeAction === 'disable' ? 'Disable two-factor authentication' : 'New recovery codes'}
+            </DialogTitle>
+            <DialogDescription>
+              {codeAction === 'disable'
+                ? 'Confirm with your password and a code from your authenticator app.'
+                : 'Your current recovery codes will stop working. Confirm with a code from your authenticator app.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {dialogError && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{dialogError}</div>
+            )}
+            {codeAction === 'disable' && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Code</Label>
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCodeAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={codeAction === 'disable' ? 'destructive' : 'default'}
+              onClick={handleCodeAction}
+              disabled={submitting || code.trim().length !== 6 || (codeAction === 'disable' && !password)}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {codeAction === 'disable' ? 'Disable' : 'Create codes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
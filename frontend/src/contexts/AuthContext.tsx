@@ -1,25 +1,10 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import type { User, AuthContextType, UserRole } from '@/types';
-import api from '@/lib/api';
+import type { User, AuthContextType, AuthResult, RegisterData, UserRole } from '@/types';
+import { refreshAccessToken } from '@/lib/api';
+import { authApi } from '@/lib/apiClient';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-interface LoginResponse {
-  success: boolean;
-  data: {
-    user: User;
-    token: string;
-  };
-  message?: string;
-}
-
-interface RegisterData {
-  email: string;
-  password: string;
-  name: string;
-  role: UserRole;
-}
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -33,10 +18,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (token && persistedUser) {
         try {
           // Validate token by fetching current user
-          const response = await api.get<{ success: boolean; data: { user: User } }>('/auth/me');
-          if (response.data.success) {
-            setUser(response.data.data.user);
-            localStorage.setItem('user', JSON.stringify(response.data.data.user));
+          const response = await authApi.getMe();
+          if (response.success) {
+            setUser(response.data.user);
+            localStorage.setItem('user', JSON.stringify(response.data.user));
           }
         } catch {
           // Token invalid, clear storage
@@ -50,24 +35,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const startSession = ({ user: userData, token }: AuthResult) => {
+    // Persist auth data
+    localStorage.setItem('auth_token', token);
+    localStorage.setItem('user', JSON.stringify(userData));
+
+    setUser(userData);
+  };
+
+  const login = async (email: string, password: string): Promise<{ twoFactorChallenge: string | null }> => {
     setIsLoading(true);
 
     try {
-      const response = await api.post<LoginResponse>('/auth/login', {
-        email,
-        password,
-      });
+      const response = await authApi.login({ email, password });
 
-      if (response.data.success) {
-        const { user: userData, token } = response.data.data;
-
-        // Persist auth data
-        localStorage.setItem('auth_token', token);
-        localStorage.setItem('user', JSON.stringify(userData));
+      if ('two_factor_challenge' in response.data) {
+        return { twoFactorChallenge: response.data.two_factor_challenge };
+      }
 
-        setUser(userData);
+      if (response.success) {
+        startSession(response.data);
       }
+      return { twoFactorChallenge: null };
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
       throw new Error(err.response?.data?.message || 'Login failed');
@@ -76,14 +65,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const completeTwoFactorLogin = async (challenge: string, code: string): Promise<void> => {
+    try {
+      const response = await authApi.loginTwoFactor({ challenge, code });
+      if (response.success) {
+        startSession(response.data);
+      }
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Verification failed');
+    }
+  };
+
+  // Pick up changes to the signed-in user, such as enabling two-factor authentication
+  const refreshUser = async (): Promise<void> => {
+    const response = await authApi.getMe();
+    setUser(response.data.user);
+    localStorage.setItem('user', JSON.stringify(response.data.user));
+  };
+
+  // The SSO callback only sets the refresh cookie, exchange it for a token
+  const completeSsoLogin = async (): Promise<void> => {
+    const token = await refreshAccessToken();
+    if (!token) {
+      throw new Error('Single sign-on failed. Please try again.');
+    }
+    await refreshUser();
+  };
+
   const register = async (data: RegisterData): Promise<void> => {
     setIsLoading(true);
 
     try {
-      const response = await api.post<{ success: boolean; message: string }>('/auth/register', data);
+      const response = await authApi.register(data);
 
-      if (!response.data.success) {
-        throw new Error(response.data.message || 'Registration failed');
+      if (!response.success) {
+        throw new Error(response.message || 'Registration failed');
       }
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
@@ -94,6 +111,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
+    // End the session on the server too, the refresh cookie is httpOnly
+    authApi.logout().catch((err) => console.error('Failed to end session:', err));
     localStorage.removeItem('auth_token');
     localStorage.removeItem('user');
     setUser(null);
@@ -101,7 +120,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const forgotPassword = async (email: string): Promise<void> => {
     try {
-      await api.post('/auth/forgot-password', { email });
+      await authApi.forgotPassword({ email });
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
       throw new Error(err.response?.data?.message || 'Failed to send reset email');
@@ -110,7 +129,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const resetPassword = async (token: string, password: string): Promise<void> => {
     try {
-      await api.post('/auth/reset-password', { token, password });
+      await authApi.resetPassword({ token, password });
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
       throw new Error(err.response?.data?.message || 'Failed to reset password');
@@ -119,24 +138,40 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const verifyEmail = async (token: string): Promise<void> => {
     try {
-      await api.post('/auth/verify-email', { token });
+      await authApi.verifyEmail({ token });
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
       throw new Error(err.response?.data?.message || 'Failed to verify email');
     }
   };
 
+  const acceptInvitation = async (token: string, data: { name: string; password: string }): Promise<void> => {
+    try {
+      const response = await authApi.acceptInvite({ token, ...data });
+      if (response.success) {
+        startSession(response.data);
+      }
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to accept invitation');
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
         login,
+        completeTwoFactorLogin,
+        completeSsoLogin,
+        refreshUser,
         logout,
         isLoading,
         register,
         forgotPassword,
         resetPassword,
         verifyEmail,
+        acceptInvitation,
       }}
     >
       {children}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProjectContext } from '@/contexts/project';
+import { PROJECT_STORAGE_KEY } from '@/lib/api';
+import { projectApi } from '@/lib/apiClient';
+import { reconnectRealtime } from '@/lib/realtime';
+import type { Project } from '@/types';
+
+/**
+ * Loads the projects of the signed-in user and keeps the one they work in.
+ * The selection is stored so it survives reloads and is sent with every
+ * API request.
+ */
+export function ProjectProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  // Whose projects are loaded, so a new sign-in waits for its own
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const userId = user?.id ?? null;
+  const isLoading = userId !== null && loadedUserId !== userId;
+
+  const selectProjects = useCallback((all: Project[]) => {
+    // PMs also get projects they only manage; the switcher lists memberships
+    const memberships = all.filter((project) => project.role !== null);
+
+    const storedId = localStorage.getItem(PROJECT_STORAGE_KEY);
+    const selected = memberships.find((project) => project.id === storedId) ?? memberships[0] ?? null;
+
+    if (selected) {
+      localStorage.setItem(PROJECT_STORAGE_KEY, selected.id);
+    } else {
+      localStorage.removeItem(PROJECT_STORAGE_KEY);
+    }
+
+    setProjects(memberships);
+    setCurrentProject(selected);
+    return selected;
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    projectApi
+      .getAll()
+      .then((response) => selectProjects(response.data.projects))
+      .catch((err) => {
+        console.error('Failed to load projects:', err);
+        setProjects([]);
+        setCurrentProject(null);
+      })
+      .finally(() => setLoadedUserId(userId));
+  }, [userId, selectProjects]);
+
+  const switchProject = (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project || project.id === currentProject?.id) return;
+
+    localStorage.setItem(PROJECT_STORAGE_KEY, project.id);
+    setCurrentProject(project);
+    reconnectRealtime();
+  };
+
+  // Pick up new projects and role changes, e.g. after managing members
+  const refreshProjects = async () => {
+    const response = await projectApi.getAll();
+    const selected = selectProjects(response.data.projects);
+    // Live updates are filtered by the project and role of the connection
+    if (selected?.id !== currentProject?.id || selected?.role_id !== currentProject?.role_id) {
+      reconnectRealtime();
+    }
+  };
+
+  return (
+    <ProjectContext.Provider
+      value={{
+        projects,
+        currentProject,
+        projectRole: currentProject?.role ?? null,
+        permissions: currentProject?.permissions ?? [],
+        switchProject,
+        refreshProjects,
+        isLoading,
+      }}
+    >
+      {children}
+    </ProjectContext.Provider>
+  );
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import type { ProjectContextType } from '@/types';
+
+export const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export function useProject() {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error('useProject must be used within a ProjectProvider');
+  }
+  return context;
+}
@@ -1,12 +1,56 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
 
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_URL,
   headers: {
     'Content-Type': 'application/json',
   },
+  // The refresh token travels in an httpOnly cookie
+  withCredentials: true,
 });
 
+// The project selected in the switcher, sent with every request
+export const PROJECT_STORAGE_KEY = 'project_id';
+
+// Requests that must not trigger a refresh when they fail with 401
+const NO_REFRESH_URLS = ['/auth/login', '/auth/login/2fa', '/auth/refresh', '/auth/logout'];
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Exchange the refresh token cookie for a new access token and store it.
+ * Concurrent callers share one request; resolves to null when the session
+ * has ended.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = axios
+      .post<{ data: { token: string } }>(
+        `${import.meta.env.VITE_API_URL}/auth/refresh`,
+        null,
+        { withCredentials: true }
+      )
+      .then((response) => {
+        const { token } = response.data.data;
+        localStorage.setItem('auth_token', token);
+        return token;
+      })
+      .catch(() => null)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+const endSession = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('user');
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -14,6 +58,10 @@ api.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    const projectId = localStorage.getItem(PROJECT_STORAGE_KEY);
+    if (projectId) {
+      config.headers['X-Project-Id'] = projectId;
+    }
     return config;
   },
   (error) => {
@@ -21,16 +69,30 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle auth errors
+// Response interceptor to renew expired access tokens and retry once
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
+  async (error) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !request ||
+      request._retried ||
+      NO_REFRESH_URLS.includes(request.url ?? '')
+    ) {
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
+
+    const token = await refreshAccessToken();
+    if (!token) {
+      endSession();
+      return Promise.reject(error);
+    }
+
+    request._retried = true;
+    request.headers.Authorization = `Bearer ${token}`;
+    return api(request);
   }
 );
 
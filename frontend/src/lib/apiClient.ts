@@ -0,0 +1,1253 @@
+// Generated from the OpenAPI document of the backend by
+// `npm run openapi:client`. Do not edit by hand.
+
+import api from './api';
+import type {
+  ApiToken,
+  ApiTokenScope,
+  AppNotification,
+  AuditAction,
+  AuditEntityType,
+  AuditEvent,
+  AuthResult,
+  AuthSession,
+  Bug,
+  BugSeverity,
+  BugStatus,
+  BugStatusChange,
+  Comment,
+  DashboardStats,
+  ExportFormat,
+  Invitation,
+  InvitationPreview,
+  LoginAttempt,
+  MentionableUser,
+  Pagination,
+  Permission,
+  PermissionInfo,
+  PlanStatus,
+  Project,
+  ProjectMember,
+  QATester,
+  Role,
+  SsoConfig,
+  StepStatus,
+  TestCase,
+  TestImportResult,
+  TestIngestResult,
+  TestOrigin,
+  TestPlan,
+  TestRun,
+  TestStatus,
+  TestStepInput,
+  TestSuite,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  UserAccount,
+  UserRole,
+} from 'qualitysync-shared/api';
+
+// Multipart bodies; files are sent as they are, other values as text
+const toFormData = (fields: Record<string, unknown>) => {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    formData.append(key, value instanceof Blob ? value : String(value));
+  }
+  return formData;
+};
+
+export const metaApi = {
+  // Check that the API is running
+  health: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message: string;
+      timestamp: string;
+    }>('/health');
+    return response.data;
+  },
+};
+
+export const authApi = {
+  // Register an account
+  register: async (data: { email: string; password: string; name: string; role: UserRole }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: {
+        user: { id: string; email: string; name: string; role: UserRole; is_verified: boolean };
+      };
+    }>('/auth/register', data);
+    return response.data;
+  },
+
+  // Sign in with email and password
+  login: async (data: { email: string; password: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: AuthResult | {
+        // Short-lived token for the second step
+        two_factor_challenge: string;
+      };
+    }>('/auth/login', data);
+    return response.data;
+  },
+
+  // Finish signing in with an authenticator or recovery code
+  loginTwoFactor: async (data: {
+    challenge: string;
+    // Authenticator code or a recovery code
+    code: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: AuthResult;
+    }>('/auth/login/2fa', data);
+    return response.data;
+  },
+
+  // Verify an email address with the link token
+  verifyEmail: async (data: { token: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>('/auth/verify-email', data);
+    return response.data;
+  },
+
+  // Send the verification email again
+  resendVerification: async (data: { email: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>('/auth/resend-verification', data);
+    return response.data;
+  },
+
+  // Send a password reset email
+  forgotPassword: async (data: { email: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>('/auth/forgot-password', data);
+    return response.data;
+  },
+
+  // Set a new password with the reset link token
+  resetPassword: async (data: { token: string; password: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>('/auth/reset-password', data);
+    return response.data;
+  },
+
+  // Accept an invitation, creating the account and signing in
+  acceptInvite: async (data: {
+    token: string;
+    password: string;
+    // Defaults to the name on the invitation
+    name?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: AuthResult;
+    }>('/auth/accept-invite', data);
+    return response.data;
+  },
+
+  // Get a new access token with the refresh token cookie
+  refresh: async () => {
+    const response = await api.post<{
+      success: boolean;
+      message?: string;
+      data: AuthResult;
+    }>('/auth/refresh');
+    return response.data;
+  },
+
+  // Sign out, ending the session of the refresh token cookie
+  logout: async () => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/logout');
+    return response.data;
+  },
+
+  // Get the signed-in user
+  getMe: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { user: User };
+    }>('/auth/me');
+    return response.data;
+  },
+
+  // Change your password
+  changePassword: async (data: { currentPassword: string; newPassword: string }) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: {
+        // New access token for this session
+        token: string;
+      };
+    }>('/auth/change-password', data);
+    return response.data;
+  },
+};
+
+export const invitationApi = {
+  // Preview an invitation before accepting it
+  getByToken: async (token: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { invitation: InvitationPreview };
+    }>(`/auth/invitations/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  // List pending invitations
+  getAll: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { invitations: Invitation[] };
+    }>('/users/invitations');
+    return response.data;
+  },
+
+  // Invite someone by email
+  create: async (data: {
+    email: string;
+    name: string;
+    role: UserRole;
+    // Project the user joins with their role
+    project_id?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { invitation: Invitation };
+    }>('/users/invite', data);
+    return response.data;
+  },
+
+  // Resend an invitation with a new link
+  resend: async (id: string) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { invitation: Invitation };
+    }>(`/users/invitations/${encodeURIComponent(id)}/resend`);
+    return response.data;
+  },
+
+  // Revoke an invitation
+  revoke: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+      data: { invitation: Invitation };
+    }>(`/users/invitations/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const ssoApi = {
+  // Get whether single sign-on is available
+  getConfig: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: SsoConfig;
+    }>('/auth/sso');
+    return response.data;
+  },
+};
+
+export const sessionApi = {
+  // List your active sessions
+  getAll: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { sessions: AuthSession[] };
+    }>('/auth/sessions');
+    return response.data;
+  },
+
+  // Sign out every other session
+  revokeOthers: async () => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+      data: { count: number };
+    }>('/auth/sessions');
+    return response.data;
+  },
+
+  // Sign out one of your sessions
+  revoke: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/auth/sessions/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const twoFactorApi = {
+  // Get your two-factor authentication status
+  getStatus: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: TwoFactorStatus;
+    }>('/auth/2fa');
+    return response.data;
+  },
+
+  // Start setting up an authenticator app
+  startSetup: async () => {
+    const response = await api.post<{
+      success: boolean;
+      message?: string;
+      data: TwoFactorSetup;
+    }>('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Enable two-factor authentication
+  enable: async (data: {
+    // Current code from the authenticator app
+    code: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: {
+        // Shown only once
+        recovery_codes: string[];
+      };
+    }>('/auth/2fa/enable', data);
+    return response.data;
+  },
+
+  // Disable two-factor authentication
+  disable: async (data: {
+    password: string;
+    // Current code from the authenticator app
+    code: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>('/auth/2fa/disable', data);
+    return response.data;
+  },
+
+  // Replace your recovery codes
+  regenerateRecoveryCodes: async (data: {
+    // Current code from the authenticator app
+    code: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: {
+        // Shown only once
+        recovery_codes: string[];
+      };
+    }>('/auth/2fa/recovery-codes', data);
+    return response.data;
+  },
+};
+
+export const userApi = {
+  // List the verified testers of the project, for assignment
+  getQATesters: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { testers: QATester[] };
+    }>('/users/qa-testers');
+    return response.data;
+  },
+
+  // List users with pagination and filters
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+    order?: 'asc' | 'desc';
+    role?: UserRole;
+    // Matches the name and email
+    search?: string;
+    // Only service accounts, or only people
+    service_account?: boolean;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { users: UserAccount[]; pagination: Pagination };
+    }>('/users', { params });
+    return response.data;
+  },
+
+  // Create a service account
+  create: async (data: {
+    email: string;
+    name: string;
+    role: UserRole;
+    is_service_account: true;
+    // Project the user joins with their role
+    project_id?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { user: UserAccount };
+    }>('/users', data);
+    return response.data;
+  },
+
+  // Get a user
+  getById: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { user: UserAccount };
+    }>(`/users/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Update a user
+  update: async (
+    id: string,
+    data: {
+      name?: string;
+      role?: UserRole;
+      // Account-wide role; takes precedence over `role`
+      role_id?: string;
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { user: UserAccount };
+    }>(`/users/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a user
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/users/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Get the sign-in history and lockout of a user
+  getLoginHistory: async (id: string, params?: { limit?: number }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: {
+        attempts: LoginAttempt[];
+        failed_login_attempts: number;
+        locked_until: string | null;
+      };
+    }>(`/users/${encodeURIComponent(id)}/login-history`, { params });
+    return response.data;
+  },
+
+  // Unlock an account locked after failed sign-ins
+  unlock: async (id: string) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+    }>(`/users/${encodeURIComponent(id)}/unlock`);
+    return response.data;
+  },
+};
+
+export const testApi = {
+  // Get dashboard statistics
+  getStats: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { stats: DashboardStats };
+    }>('/tests/stats');
+    return response.data;
+  },
+
+  // List tests with pagination and filters
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+    order?: 'asc' | 'desc';
+    status?: TestStatus;
+    module_platform?: string;
+    origin?: TestOrigin;
+    // Matches the test case and expected result
+    search?: string;
+    // Only tests in this suite of the project
+    suite_id?: string;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { tests: TestCase[]; pagination: Pagination };
+    }>('/tests', { params });
+    return response.data;
+  },
+
+  // Create a test
+  create: async (data: {
+    module_platform: string;
+    test_case: string;
+    expected_result: string;
+    assigned_to: string;
+    // A Jam.dev link
+    evidence_url?: string;
+    suite_ids?: string[];
+    // Replaces every step of the test case
+    steps?: TestStepInput[];
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase };
+    }>('/tests', data);
+    return response.data;
+  },
+
+  // Export tests with the list filters
+  export: async (params?: {
+    status?: TestStatus;
+    module_platform?: string;
+    origin?: TestOrigin;
+    // Matches the test case and expected result
+    search?: string;
+    // Only tests in this suite of the project
+    suite_id?: string;
+    format?: ExportFormat;
+  }) => {
+    const response = await api.get<Blob>('/tests/export', { params });
+    return response.data;
+  },
+
+  // Import tests from a CSV or Excel file, or preview the import
+  import: async (data: {
+    // A .csv or .xlsx file of at most 5 MB
+    file: Blob;
+    // Only validate and preview the rows
+    dry_run?: 'true' | 'false';
+    // JSON object of the column of each test case field, see TestImportMapping
+    mapping?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: TestImportResult;
+    }>('/tests/import', toFormData(data), { headers: { 'Content-Type': 'multipart/form-data' } });
+    return response.data;
+  },
+
+  // Record automated results from a JUnit XML or JSON report
+  ingest: async (data: {
+    // A .xml or .json report of at most 5 MB
+    file: Blob;
+    // Module/Platform of tests created from the report
+    module_platform?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: TestIngestResult;
+    }>('/tests/ingest', toFormData(data), { headers: { 'Content-Type': 'multipart/form-data' } });
+    return response.data;
+  },
+
+  // Get a test
+  getById: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { test: TestCase };
+    }>(`/tests/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Update a test
+  update: async (
+    id: string,
+    data: {
+      module_platform?: string;
+      test_case?: string;
+      expected_result?: string;
+      // A Jam.dev link
+      evidence_url?: string;
+      assigned_to?: string;
+      external_key?: string | null;
+      suite_ids?: string[];
+      // Replaces every step of the test case
+      steps?: TestStepInput[];
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase };
+    }>(`/tests/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a test
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/tests/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Get the execution history of a test
+  getRuns: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { runs: TestRun[] };
+    }>(`/tests/${encodeURIComponent(id)}/runs`);
+    return response.data;
+  },
+
+  // Record a result for an assigned test
+  updateResult: async (
+    id: string,
+    data: {
+      // Required unless step_results are given, then it is derived from them
+      status?: 'pass' | 'fail' | 'escalated';
+      // A Jam.dev link
+      evidence_url?: string;
+      notes?: string;
+      duration_seconds?: number;
+      step_results?: { step_id: string; status: StepStatus; notes?: string }[];
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase; run: TestRun };
+    }>(`/tests/${encodeURIComponent(id)}/result`, data);
+    return response.data;
+  },
+
+  // Claim a failed test for fixing
+  claim: async (id: string) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase };
+    }>(`/tests/${encodeURIComponent(id)}/claim`);
+    return response.data;
+  },
+
+  // Mark a claimed test as fixed and send it back for retest
+  markFixed: async (
+    id: string,
+    data: {
+      // Commit or pull request reference
+      fix_reference: string;
+      fix_notes?: string;
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase };
+    }>(`/tests/${encodeURIComponent(id)}/fixed`, data);
+    return response.data;
+  },
+};
+
+export const bugApi = {
+  // List bugs with pagination and filters
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+    order?: 'asc' | 'desc';
+    status?: BugStatus;
+    severity?: BugSeverity;
+    module_platform?: string;
+    // Matches the description and note
+    search?: string;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { bugs: Bug[]; pagination: Pagination };
+    }>('/bugs', { params });
+    return response.data;
+  },
+
+  // Report a bug
+  create: async (data: {
+    module_platform: string;
+    // A Jam.dev link
+    jam_link: string;
+    description: string;
+    note?: string;
+    severity?: BugSeverity;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { bug: Bug };
+    }>('/bugs', data);
+    return response.data;
+  },
+
+  // Export bugs with the list filters
+  export: async (params?: {
+    status?: BugStatus;
+    severity?: BugSeverity;
+    module_platform?: string;
+    // Matches the description and note
+    search?: string;
+    format?: ExportFormat;
+  }) => {
+    const response = await api.get<Blob>('/bugs/export', { params });
+    return response.data;
+  },
+
+  // Get a bug
+  getById: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { bug: Bug };
+    }>(`/bugs/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Update a bug
+  update: async (
+    id: string,
+    data: {
+      module_platform?: string;
+      // A Jam.dev link
+      jam_link?: string;
+      description?: string;
+      note?: string;
+      severity?: BugSeverity;
+      status?: 'open' | 'in_progress' | 'resolved' | 'closed';
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { bug: Bug };
+    }>(`/bugs/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a bug
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/bugs/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Get the status history of a bug
+  getHistory: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { history: BugStatusChange[] };
+    }>(`/bugs/${encodeURIComponent(id)}/history`);
+    return response.data;
+  },
+
+  // Move a bug through its lifecycle
+  updateStatus: async (
+    id: string,
+    data: { status: 'open' | 'in_progress' | 'resolved' | 'closed'; note?: string }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { bug: Bug };
+    }>(`/bugs/${encodeURIComponent(id)}/status`, data);
+    return response.data;
+  },
+
+  // Convert a bug into a test
+  convertToTest: async (
+    id: string,
+    data: { assigned_to: string; test_case: string; expected_result: string }
+  ) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { test: TestCase };
+    }>(`/bugs/${encodeURIComponent(id)}/convert`, data);
+    return response.data;
+  },
+};
+
+export const suiteApi = {
+  // List test suites
+  getAll: async (params?: { search?: string }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { suites: TestSuite[] };
+    }>('/suites', { params });
+    return response.data;
+  },
+
+  // Create a test suite
+  create: async (data: {
+    name: string;
+    description?: string;
+    // Test cases in the suite
+    test_case_ids?: string[];
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { suite: TestSuite };
+    }>('/suites', data);
+    return response.data;
+  },
+
+  // Get a test suite with its test cases
+  getById: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { suite: TestSuite };
+    }>(`/suites/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Update a test suite
+  update: async (
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      // Test cases in the suite
+      test_case_ids?: string[];
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { suite: TestSuite };
+    }>(`/suites/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a test suite
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/suites/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const planApi = {
+  // List test plans with their progress
+  getAll: async (params?: { status?: PlanStatus }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { plans: TestPlan[] };
+    }>('/plans', { params });
+    return response.data;
+  },
+
+  // Create a test plan from a suite
+  create: async (data: {
+    name: string;
+    release: string;
+    suite_id: string;
+    // ISO 8601 date; empty clears it
+    start_date?: string;
+    // ISO 8601 date; empty clears it
+    due_date?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { plan: TestPlan };
+    }>('/plans', data);
+    return response.data;
+  },
+
+  // Get a test plan with its test cases
+  getById: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { plan: TestPlan };
+    }>(`/plans/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Update a test plan
+  update: async (
+    id: string,
+    data: {
+      name?: string;
+      release?: string;
+      status?: PlanStatus;
+      // ISO 8601 date; empty clears it
+      start_date?: string;
+      // ISO 8601 date; empty clears it
+      due_date?: string;
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { plan: TestPlan };
+    }>(`/plans/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a test plan
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/plans/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const commentApi = {
+  // Get the comment thread of a test case or bug
+  getAll: async (params?: {
+    // Test case of the thread; give this or bug_id
+    test_case_id?: string;
+    // Bug of the thread; give this or test_case_id
+    bug_id?: string;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { comments: Comment[] };
+    }>('/comments', { params });
+    return response.data;
+  },
+
+  // Comment on a test case or bug
+  create: async (data: {
+    // Markdown text; `@Name` mentions notify the user
+    body: string;
+    // Test case of the thread; give this or bug_id
+    test_case_id?: string;
+    // Bug of the thread; give this or test_case_id
+    bug_id?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { comment: Comment };
+    }>('/comments', data);
+    return response.data;
+  },
+
+  // List the users that can be @mentioned in the project
+  getMentionable: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { users: MentionableUser[] };
+    }>('/comments/mentionable');
+    return response.data;
+  },
+
+  // Edit a comment
+  update: async (
+    id: string,
+    data: {
+      // Markdown text; `@Name` mentions notify the user
+      body: string;
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { comment: Comment };
+    }>(`/comments/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a comment
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/comments/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const auditApi = {
+  // List audit events with pagination and filters
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+    order?: 'asc' | 'desc';
+    action?: AuditAction;
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    actor_id?: string;
+    request_id?: string;
+    from?: string;
+    to?: string;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { events: AuditEvent[]; pagination: Pagination };
+    }>('/audit', { params });
+    return response.data;
+  },
+};
+
+export const notificationApi = {
+  // List your notifications with pagination
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    sort?: 'created_at' | 'updated_at' | 'status' | 'module_platform';
+    order?: 'asc' | 'desc';
+    // Only unread notifications
+    unread?: boolean;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { notifications: AppNotification[]; unread_count: number; pagination: Pagination };
+    }>('/notifications', { params });
+    return response.data;
+  },
+
+  // Get the number of unread notifications
+  getUnreadCount: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { unread_count: number };
+    }>('/notifications/unread-count');
+    return response.data;
+  },
+
+  // Mark all notifications as read
+  markAllAsRead: async () => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { unread_count: number };
+    }>('/notifications/read-all');
+    return response.data;
+  },
+
+  // Mark a notification as read
+  markAsRead: async (id: string) => {
+    const response = await api.put<{
+      success: boolean;
+      message?: string;
+      data: { unread_count: number };
+    }>(`/notifications/${encodeURIComponent(id)}/read`);
+    return response.data;
+  },
+};
+
+export const apiTokenApi = {
+  // List API tokens
+  getAll: async (params?: {
+    // Service account whose tokens these are; defaults to your own (PM only)
+    user_id?: string;
+  }) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { tokens: ApiToken[] };
+    }>('/tokens', { params });
+    return response.data;
+  },
+
+  // Create an API token
+  create: async (data: {
+    name: string;
+    scopes: ApiTokenScope[];
+    // Never expires when null
+    expires_in_days?: number | null;
+    // Service account whose tokens these are; defaults to your own (PM only)
+    user_id?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { token: string; api_token: ApiToken };
+    }>('/tokens', data);
+    return response.data;
+  },
+
+  // Revoke an API token
+  revoke: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+      data: { api_token: ApiToken };
+    }>(`/tokens/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+export const projectApi = {
+  // List your projects
+  getAll: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { projects: Project[] };
+    }>('/projects');
+    return response.data;
+  },
+
+  // Create a project
+  create: async (data: { name: string; description?: string }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { project: Project };
+    }>('/projects', data);
+    return response.data;
+  },
+
+  // Update a project
+  update: async (id: string, data: { name?: string; description?: string }) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { project: Project };
+    }>(`/projects/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // List the members of a project
+  getMembers: async (id: string) => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { members: ProjectMember[] };
+    }>(`/projects/${encodeURIComponent(id)}/members`);
+    return response.data;
+  },
+
+  // Add a user to a project or change their role in it
+  setMember: async (id: string, userId: string, data: { role_id: string }) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { member: ProjectMember };
+    }>(`/projects/${encodeURIComponent(id)}/members/${encodeURIComponent(userId)}`, data);
+    return response.data;
+  },
+
+  // Remove a user from a project
+  removeMember: async (id: string, userId: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/projects/${encodeURIComponent(id)}/members/${encodeURIComponent(userId)}`);
+    return response.data;
+  },
+};
+
+export const roleApi = {
+  // Get the permission catalog
+  getPermissions: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { permissions: PermissionInfo[] };
+    }>('/roles/permissions');
+    return response.data;
+  },
+
+  // List roles with their permissions
+  getAll: async () => {
+    const response = await api.get<{
+      success: boolean;
+      message?: string;
+      data: { roles: Role[] };
+    }>('/roles');
+    return response.data;
+  },
+
+  // Create a role
+  create: async (data: {
+    name: string;
+    base_role: UserRole;
+    // Replaces every permission of the role
+    permissions: Permission[];
+    description?: string;
+  }) => {
+    const response = await api.post<{
+      success: boolean;
+      message: string;
+      data: { role: Role };
+    }>('/roles', data);
+    return response.data;
+  },
+
+  // Update a role and its permissions
+  update: async (
+    id: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      // Replaces every permission of the role
+      permissions?: Permission[];
+    }
+  ) => {
+    const response = await api.put<{
+      success: boolean;
+      message: string;
+      data: { role: Role };
+    }>(`/roles/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a role
+  delete: async (id: string) => {
+    const response = await api.delete<{
+      success: boolean;
+      message: string;
+    }>(`/roles/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,34 @@
+import type { MentionableUser } from '@/types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The partial `@name` being typed just before the caret, if any.
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@][^@\n]{0,40}|)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Users whose name starts with the partial mention, best matches first.
+ */
+export function suggestMentions(users: MentionableUser[], query: string, limit = 5): MentionableUser[] {
+  const needle = query.toLowerCase();
+  return users
+    .filter((user) => user.name.toLowerCase().startsWith(needle))
+    .slice(0, limit);
+}
+
+/**
+ * Bold the resolved `@Full Name` mentions so they stand out in rendered markdown.
+ */
+export function emphasizeMentions(body: string, names: string[]): string {
+  return [...names]
+    .sort((a, b) => b.length - a.length)
+    .reduce(
+      (text, name) => text.replace(new RegExp(`(^|[^*])@${escapeRegExp(name)}(?![\\w])`, 'gi'), `$1**@${name}**`),
+      body
+    );
+}
@@ -0,0 +1,23 @@
+import type { AppNotification, UserRole } from '@/types';
+
+// Pages that open a linked test case or bug, per role
+const testPages: Record<UserRole, string> = {
+  PM: '/pm/tests',
+  QA: '/qa',
+  ENG: '/engineering',
+};
+
+const bugPages: Record<UserRole, string> = {
+  PM: '/pm',
+  QA: '/qa/report-bug',
+  ENG: '/engineering',
+};
+
+/**
+ * Where a notification takes the user, or null if it has no target any more.
+ */
+export function notificationLink(notification: AppNotification, role: UserRole): string | null {
+  if (notification.test_case_id) return `${testPages[role]}?test=${notification.test_case_id}`;
+  if (notification.bug_id) return `${bugPages[role]}?bug=${notification.bug_id}`;
+  return null;
+}
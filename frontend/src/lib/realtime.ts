@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { PROJECT_STORAGE_KEY, refreshAccessToken } from '@/lib/api';
+import type { RealtimeEvent } from '@/types';
+
+type Listener = (event: RealtimeEvent) => void;
+
+const RECONNECT_DELAY_MS = 5000;
+
+// One stream per tab, shared by every component that listens
+const listeners = new Set<Listener>();
+let controller: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const dispatch = (block: string) => {
+  let type = '';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  }
+  if (!type || !data) return;
+
+  const event = { type, data: JSON.parse(data) } as RealtimeEvent;
+  listeners.forEach((listener) => listener(event));
+};
+
+const scheduleReconnect = () => {
+  if (listeners.size === 0 || reconnectTimer) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, RECONNECT_DELAY_MS);
+};
+
+/**
+ * EventSource cannot send the Authorization header, so the stream is read with fetch.
+ * Events are for the project selected when connecting.
+ */
+const connect = async (retried = false): Promise<void> => {
+  const token = localStorage.getItem('auth_token');
+  if (!token) return;
+
+  const projectId = localStorage.getItem(PROJECT_STORAGE_KEY);
+  const query = projectId ? `?project_id=${encodeURIComponent(projectId)}` : '';
+
+  const current = new AbortController();
+  controller = current;
+
+  try {
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/events${query}`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+      signal: current.signal,
+    });
+
+    // Renew an expired access token once; ended sessions are handled by the
+    // next API call, don't hammer the server
+    if (response.status === 401 && !retried) {
+      controller = null;
+      if (await refreshAccessToken()) {
+        if (listeners.size > 0 && !controller) connect(true);
+      }
+      return;
+    }
+    if (response.status === 401 || response.status === 403) return;
+    if (!response.ok || !response.body) throw new Error(`Event stream failed with ${response.status}`);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+      blocks.forEach(dispatch);
+    }
+  } catch (err) {
+    if (current.signal.aborted) return;
+    console.error('Live updates disconnected:', err);
+  }
+
+  if (controller === current) {
+    controller = null;
+    scheduleReconnect();
+  }
+};
+
+const disconnect = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  controller?.abort();
+  controller = null;
+};
+
+/**
+ * Reopen the stream, e.g. for another project. Does nothing when no one listens.
+ */
+export function reconnectRealtime() {
+  disconnect();
+  if (listeners.size > 0) connect();
+}
+
+/**
+ * Listen to live updates while the calling component is mounted
+ */
+export function useRealtimeEvents(listener: Listener) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => {
+    const handle: Listener = (event) => listenerRef.current(event);
+    listeners.add(handle);
+    if (!controller && !reconnectTimer) connect();
+
+    return () => {
+      listeners.delete(handle);
+      if (listeners.size === 0) disconnect();
+    };
+  }, []);
+}
+
+/**
+ * Replace a record in a list, or add it to the top when it is new
+ */
+export function upsertById<T extends { id: string }>(list: T[], item: T): T[] {
+  return list.some((existing) => existing.id === item.id)
+    ? list.map((existing) => (existing.id === item.id ? item : existing))
+    : [item, ...list];
+}
+
+export function removeById<T extends { id: string }>(list: T[], id: string): T[] {
+  return list.filter((item) => item.id !== id);
+}
@@ -0,0 +1,11 @@
+import type { StepStatus } from '@/types';
+
+/**
+ * Overall test result implied by step outcomes. Mirrors the server:
+ * any failed step fails the test, otherwise any blocked step escalates it.
+ */
+export function deriveStatusFromSteps(statuses: StepStatus[]): 'pass' | 'fail' | 'escalated' {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('blocked')) return 'escalated';
+  return 'pass';
+}
@@ -1,72 +1,79 @@
 import { z } from 'zod';
+import type { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+import {
+  EMAIL_MESSAGE,
+  PASSWORD,
+  isJamLink,
+  jamLinkMessage,
+  lengthMessage,
+  passwordLengthMessage,
+  requiredMessage,
+  urlMessage,
+  type FieldRule,
+} from 'qualitysync-shared';
+import type { ErrorResponse } from '@/types';
 
-// Jam.dev URL validation
-const jamDevUrlSchema = z
-  .string()
-  .url('Please enter a valid URL')
-  .refine(
-    (url) => url.includes('jam.dev'),
-    'Evidence URL must be a jam.dev link'
-  );
+// Form fields built from the rules the API validates with, see qualitysync-shared
 
-// Test case creation schema
-export const createTestSchema = z.object({
-  module_platform: z
-    .string()
-    .min(1, 'Module/Platform is required')
-    .max(100, 'Module/Platform must be less than 100 characters'),
-  test_case: z
-    .string()
-    .min(5, 'Test case must be at least 5 characters')
-    .max(500, 'Test case must be less than 500 characters'),
-  expected_result: z
-    .string()
-    .min(5, 'Expected result must be at least 5 characters')
-    .max(1000, 'Expected result must be less than 1000 characters'),
-  assigned_to: z
-    .string()
-    .min(1, 'Assigned to is required'),
-});
-
-export type CreateTestInput = z.infer<typeof createTestSchema>;
-
-// Test result update schema (for QA)
-export const updateTestResultSchema = z.object({
-  status: z.enum(['pass', 'fail', 'escalated']),
-  evidence_url: jamDevUrlSchema.optional().or(z.literal('')),
-  notes: z.string().max(2000, 'Notes must be less than 2000 characters').optional(),
-});
-
-export type UpdateTestResultInput = z.infer<typeof updateTestResultSchema>;
+/**
+ * A trimmed text field within the limits of its rule. Required fields must
+ * not be blank; optional ones may be left empty.
+ */
+export function textField(rule: FieldRule, { required = false } = {}) {
+  let schema = z.string().trim();
+  if (required) {
+    schema = schema.min(1, requiredMessage(rule));
+  }
+  const { min, max } = rule;
+  if (min) {
+    schema = schema.refine((value) => value.length >= min || (!required && value === ''), lengthMessage(rule));
+  }
+  if (max) {
+    schema = schema.max(max, lengthMessage(rule));
+  }
+  return schema;
+}
 
-// Create test from bug schema (for PM)
-export const createTestFromBugSchema = z.object({
-  assigned_to: z.string().min(1, 'Please select a tester'),
-});
-
-export type CreateTestFromBugInput = z.infer<typeof createTestFromBugSchema>;
+// A link to a Jam.dev recording
+export const jamLinkField = (label: string) =>
+  z.string().trim().url(urlMessage(label)).refine(isJamLink, jamLinkMessage(label));
 
-// Bug report schema
-export const reportBugSchema = z.object({
-  title: z
-    .string()
-    .min(3, 'Title must be at least 3 characters')
-    .max(200, 'Title must be less than 200 characters'),
-  description: z
-    .string()
-    .min(10, 'Description must be at least 10 characters')
-    .max(2000, 'Description must be less than 2000 characters'),
-  severity: z.enum(['low', 'medium', 'high', 'critical']),
-  evidence_url: jamDevUrlSchema,
-  notes: z.string().max(2000, 'Notes must be less than 2000 characters').optional(),
-});
+export const emailField = z.string().trim().email(EMAIL_MESSAGE);
 
-export type ReportBugInput = z.infer<typeof reportBugSchema>;
+// Passwords of new accounts and password resets
+export const newPasswordField = PASSWORD.requirements.reduce(
+  (schema, { pattern, message }) => schema.regex(pattern, message),
+  z.string().min(PASSWORD.min, passwordLengthMessage)
+);
 
 // Login schema
 export const loginSchema = z.object({
-  email: z.string().email('Please enter a valid email'),
+  email: emailField,
   password: z.string().min(1, 'Password is required'),
 });
 
 export type LoginInput = z.infer<typeof loginSchema>;
+
+/**
+ * Show the field errors of a rejected request on the form fields they
+ * belong to. Returns false when some error has no field in the form, so the
+ * caller can show a message of its own.
+ */
+export function showServerErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown): boolean {
+  const errors = (error as { response?: { data?: ErrorResponse } }).response?.data?.errors;
+  if (!errors?.length) {
+    return false;
+  }
+
+  let allShown = true;
+  for (const { field, message } of errors) {
+    // The API names array items like `steps[0].action`
+    const name = field.replace(/\[(\d+)\]/g, '.$1') as Path<T>;
+    if (form.getValues(name) === undefined) {
+      allShown = false;
+    } else {
+      form.setError(name, { type: 'server', message });
+    }
+  }
+  return allShown;
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useAuth } from '@/contexts/AuthContext';
+import { invitationApi } from '@/lib/apiClient';
+import { newPasswordField, textField } from '@/lib/validations';
+import { FIELDS } from 'qualitysync-shared';
+import type { InvitationPreview } from '@/types';
+import { Loader2, ArrowLeft, AlertTriangle } from 'lucide-react';
+
+const roleRoutes: Record<string, string> = {
+  PM: '/pm',
+  QA: '/qa',
+  ENG: '/engineering',
+};
+
+const roleNames: Record<string, string> = {
+  PM: 'Product Manager',
+  QA: 'QA Tester',
+  ENG: 'Engineer',
+};
+
+const acceptInviteSchema = z.object({
+  name: textField(FIELDS.personName, { required: true }),
+  password: newPasswordField,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+
+export function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { acceptInvitation } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const token = searchParams.get('token');
+
+  const form = useForm<AcceptInviteInput>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: {
+      name: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  useEffect(() => {
+    if (!token) {
+      setChecking(false);
+      return;
+    }
+
+    invitationApi
+      .getByToken(token)
+      .then((response) => {
+        setInvitation(response.data.invitation);
+        form.setValue('name', response.data.invitation.name);
+      })
+      .catch((err) => console.error('Failed to load invitation:', err))
+      .finally(() => setChecking(false));
+  }, [token, form]);
+
+  const onSubmit = async (data: AcceptInviteInput) => {
+    if (!token || !invitation) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await acceptInvitation(token, { name: data.name, password: data.password });
+      navigate(roleRoutes[invitation.role] || '/', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const logo = (
+    <div className="text-center">
+      <div className="inline-flex items-center gap-2 mb-2">
+        <div className="h-10 w-10 rounded-lg bg-primary flex items-center justify-center">
+          <span className="text-primary-foreground font-bold">QS</span>
+        </div>
+        <span className="font-bold text-2xl">QualitySync</span>
+      </div>
+    </div>
+  );
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <div className="w-full max-w-md space-y-6">
+          {logo}
+
+          <Card>
+            <CardContent className="py-8 text-center">
+              <div className="mx-auto w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mb-4">
+                <AlertTriangle className="h-8 w-8 text-yellow-600" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">Invalid Invitation</h2>
+              <p className="text-muted-foreground">
+                This invitation link is invalid, was already used or has expired. Ask the person who
+                invited you to send a new one.
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="text-center">
+            <Link
+              to="/login"
+              className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <div className="w-full max-w-md space-y-6">
+        {logo}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Join QualitySync</CardTitle>
+            <CardDescription>
+              {invitation.inviter ? `${invitation.inviter} invited you` : "You're invited"} to join
+              {invitation.project ? ` ${invitation.project}` : ''} as a {roleNames[invitation.role]}. Choose a password to create your account for{' '}
+              <span className="font-medium text-foreground">{invitation.email}</span>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                {error && (
+                  <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                    {error}
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Choose a password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Confirm your password"
+                          autoComplete="new-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Account
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
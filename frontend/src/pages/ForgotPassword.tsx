@@ -15,10 +15,11 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
+import { emailField } from '@/lib/validations';
 import { Loader2, ArrowLeft, CheckCircle2, Mail } from 'lucide-react';
 
 const forgotPasswordSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
+  email: emailField,
 });
 
 type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
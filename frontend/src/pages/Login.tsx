@@ -1,10 +1,11 @@
-import { useState } from 'react';
-import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { useState, useEffect, type FormEvent } from 'react';
+import { useNavigate, useLocation, useSearchParams, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Form,
   FormControl,
@@ -14,18 +15,46 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
+import { ssoApi } from '@/lib/apiClient';
 import { loginSchema, type LoginInput } from '@/lib/validations';
-import { Loader2 } from 'lucide-react';
+import type { SsoConfig } from '@/types';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+// Full-page navigation, the identity provider redirects back to the API
+const SSO_LOGIN_URL = `${import.meta.env.VITE_API_URL}/auth/sso/login`;
 
 export function Login() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { login, completeTwoFactorLogin } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+  // Failed single sign-on attempts come back with their reason
+  const [error, setError] = useState(searchParams.get('sso_error') || '');
+  const [sso, setSso] = useState<SsoConfig | null>(null);
+  // Single sign-on sends users with two-factor authentication back with a challenge
+  const [challenge, setChallenge] = useState<string | null>(() =>
+    new URLSearchParams(location.hash.slice(1)).get('two_factor_challenge')
+  );
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const from = location.state?.from?.pathname || '/';
 
+  // Keep the challenge out of the address bar and history
+  useEffect(() => {
+    if (location.hash) {
+      navigate({ pathname: location.pathname, search: location.search }, { replace: true, state: location.state });
+    }
+  }, [location, navigate]);
+
+  useEffect(() => {
+    ssoApi
+      .getConfig()
+      .then((response) => setSso(response.data))
+      .catch((err) => console.error('Failed to load SSO config:', err));
+  }, []);
+
   const form = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -34,20 +63,28 @@ export function Login() {
     },
   });
 
+  const redirectAfterLogin = () => {
+    // Redirect based on role
+    const roleRoutes: Record<string, string> = {
+      PM: '/pm',
+      QA: '/qa',
+      ENG: '/engineering',
+    };
+    const user = JSON.parse(localStorage.getItem('user') || '{}');
+    navigate(roleRoutes[user.role] || from, { replace: true });
+  };
+
   const onSubmit = async (data: LoginInput) => {
     setIsLoading(true);
     setError('');
 
     try {
-      await login(data.email, data.password);
-      // Redirect based on role
-      const roleRoutes: Record<string, string> = {
-        PM: '/pm',
-        QA: '/qa',
-        ENG: '/engineering',
-      };
-      const user = JSON.parse(localStorage.getItem('user') || '{}');
-      navigate(roleRoutes[user.role] || from, { replace: true });
+      const { twoFactorChallenge } = await login(data.email, data.password);
+      if (twoFactorChallenge) {
+        setChallenge(twoFactorChallenge);
+        return;
+      }
+      redirectAfterLogin();
     } catch {
       setError('Invalid email or password');
     } finally {
@@ -55,6 +92,35 @@ export function Login() {
     }
   };
 
+  const onSubmitCode = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await completeTwoFactorLogin(challenge, code.trim());
+      redirectAfterLogin();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Verification failed';
+      // The challenge only lasts a few minutes, start over once it has expired
+      if (message.startsWith('Sign-in expired')) {
+        setChallenge(null);
+        setCode('');
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallenge(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
       <div className="w-full max-w-md space-y-6">
@@ -69,76 +135,154 @@ export function Login() {
           <p className="text-muted-foreground">QA Management System</p>
         </div>
 
-        {/* Login Form */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Sign In</CardTitle>
-            <CardDescription>
-              Enter your credentials to access your account
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {/* Second factor */}
+        {challenge ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+              </CardTitle>
+              <CardDescription>
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes. Each code works only once.'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={onSubmitCode} className="space-y-4">
                 {error && (
                   <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
                     {error}
                   </div>
                 )}
 
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="you@example.com"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="Enter your password"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code">{useRecoveryCode ? 'Recovery code' : 'Code'}</Label>
+                  <Input
+                    id="two-factor-code"
+                    autoFocus
+                    autoComplete="one-time-code"
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                    maxLength={useRecoveryCode ? 20 : 6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
 
-                <Button type="submit" className="w-full" disabled={isLoading}>
+                <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
                   {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                  Sign In
+                  Verify
                 </Button>
 
-                <div className="text-center">
-                  <Link
-                    to="/forgot-password"
+                <div className="flex justify-between">
+                  <button
+                    type="button"
                     className="text-sm text-primary hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode('');
+                      setError('');
+                    }}
                   >
-                    Forgot your password?
-                  </Link>
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-sm text-muted-foreground hover:underline"
+                    onClick={cancelTwoFactor}
+                  >
+                    Back to sign in
+                  </button>
                 </div>
               </form>
-            </Form>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        ) : (
+          /* Login Form */
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign In</CardTitle>
+              <CardDescription>
+                Enter your credentials to access your account
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  {error && (
+                    <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                      {error}
+                    </div>
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder="you@example.com"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="Enter your password"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Sign In
+                  </Button>
+
+                  {sso?.enabled && (
+                    <>
+                      <div className="relative text-center text-xs text-muted-foreground">
+                        <span className="relative z-10 bg-card px-2">or</span>
+                        <div className="absolute inset-x-0 top-1/2 border-t" />
+                      </div>
+                      <Button asChild variant="outline" className="w-full">
+                        <a href={SSO_LOGIN_URL}>Sign in with {sso.display_name}</a>
+                      </Button>
+                    </>
+                  )}
+
+                  <div className="text-center">
+                    <Link
+                      to="/forgot-password"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Forgot your password?
+                    </Link>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Footer */}
         <p className="text-center text-xs text-muted-foreground">
@@ -0,0 +1,102 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ApiTokenManager } from '@/components/ApiTokenManager';
+import { SessionList } from '@/components/SessionList';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+import { useAuth } from '@/contexts/AuthContext';
+import type { UserRole } from '@/types';
+import { KeyRound, MonitorSmartphone, ShieldCheck, User } from 'lucide-react';
+
+const roleLabels: Record<UserRole, string> = {
+  PM: 'Product Manager',
+  QA: 'QA Tester',
+  ENG: 'Engineering',
+};
+
+export function Profile() {
+  const { user, logout } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Profile</h1>
+        <p className="text-muted-foreground mt-1">
+          Your account, sessions and API access
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <User className="h-5 w-5" />
+            Account
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-4 sm:grid-cols-3 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Name</dt>
+              <dd className="font-medium mt-1">{user.name}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Email</dt>
+              <dd className="font-medium mt-1">{user.email}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Role</dt>
+              <dd className="font-medium mt-1">{roleLabels[user.role]}</dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Sign in with a code from an authenticator app as well as your password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Sessions
+          </CardTitle>
+          <CardDescription>
+            Browsers and devices signed in to your account. Changing your password signs out all of them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SessionList onSignedOut={logout} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Tokens
+          </CardTitle>
+          <CardDescription>
+            Personal access tokens let scripts use the API as you without your password.
+            Revoke a token as soon as it is no longer needed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApiTokenManager />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
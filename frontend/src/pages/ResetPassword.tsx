@@ -15,10 +15,11 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
+import { newPasswordField } from '@/lib/validations';
 import { Loader2, ArrowLeft, CheckCircle2, AlertTriangle } from 'lucide-react';
 
 const resetPasswordSchema = z.object({
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: newPasswordField,
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { Loader2 } from 'lucide-react';
+
+const roleRoutes: Record<string, string> = {
+  PM: '/pm',
+  QA: '/qa',
+  ENG: '/engineering',
+};
+
+export function SsoCallback() {
+  const navigate = useNavigate();
+  const { completeSsoLogin } = useAuth();
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Exchange the refresh cookie once, also under StrictMode's double effects
+    if (started.current) return;
+    started.current = true;
+
+    const complete = async () => {
+      try {
+        await completeSsoLogin();
+        const user = JSON.parse(localStorage.getItem('user') || '{}');
+        navigate(roleRoutes[user.role] || '/', { replace: true });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Single sign-on failed';
+        navigate(`/login?sso_error=${encodeURIComponent(message)}`, { replace: true });
+      }
+    };
+
+    complete();
+  }, [completeSsoLogin, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardContent className="py-8 text-center">
+            <div className="mx-auto w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+              <Loader2 className="h-8 w-8 text-primary animate-spin" />
+            </div>
+            <h2 className="text-xl font-semibold mb-2">Signing In</h2>
+            <p className="text-muted-foreground">Completing single sign-on...</p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
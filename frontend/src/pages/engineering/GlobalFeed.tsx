@@ -1,11 +1,40 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { testApi, bugApi } from '@/lib/apiServices';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { BugStatusActions } from '@/components/BugStatusActions';
+import { ExportMenu } from '@/components/ExportMenu';
+import { CommentThread } from '@/components/CommentThread';
+import { useAuth } from '@/contexts/AuthContext';
+import { testApi, bugApi } from '@/lib/apiClient';
+import { removeById, upsertById, useRealtimeEvents } from '@/lib/realtime';
+import { showServerErrors, textField } from '@/lib/validations';
+import { FIELDS } from 'qualitysync-shared';
+import { z } from 'zod';
 import type { TestCase, Bug, BugSeverity, BugStatus } from '@/types';
 import {
   XCircle,
@@ -21,20 +50,50 @@ import {
   Calendar,
   AlertOctagon,
   Loader2,
+  Wrench,
+  RotateCcw,
+  GitPullRequest,
+  CheckCircle2,
+  MessageSquare,
 } from 'lucide-react';
 
-const testStatusConfig: Record<'fail' | 'escalated', { label: string; variant: 'destructive' | 'warning'; icon: React.ReactNode; bgColor: string }> = {
+const markFixedSchema = z.object({
+  fix_reference: textField(FIELDS.fixReference, { required: true }),
+  fix_notes: textField(FIELDS.fixNotes).optional(),
+});
+
+type MarkFixedInput = z.infer<typeof markFixedSchema>;
+
+type EngTestStatus = 'fail' | 'escalated' | 'in_fix' | 'ready_for_retest';
+
+const testStatusConfig: Record<EngTestStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'warning'; icon: React.ReactNode; bgColor: string; textColor: string }> = {
   fail: {
     label: 'Fail',
     variant: 'destructive',
     icon: <XCircle className="h-4 w-4" />,
     bgColor: 'bg-red-100',
+    textColor: 'text-red-600',
   },
   escalated: {
     label: 'Escalated',
     variant: 'warning',
     icon: <AlertOctagon className="h-4 w-4" />,
     bgColor: 'bg-orange-100',
+    textColor: 'text-orange-600',
+  },
+  in_fix: {
+    label: 'In Fix',
+    variant: 'secondary',
+    icon: <Wrench className="h-4 w-4" />,
+    bgColor: 'bg-blue-100',
+    textColor: 'text-blue-600',
+  },
+  ready_for_retest: {
+    label: 'Ready for Retest',
+    variant: 'default',
+    icon: <RotateCcw className="h-4 w-4" />,
+    bgColor: 'bg-primary/10',
+    textColor: 'text-primary',
   },
 };
 
@@ -85,16 +144,45 @@ const bugStatusConfig: Record<BugStatus, { label: string; variant: 'default' | '
 };
 
 export function GlobalFeed() {
+  const { user } = useAuth();
   const [tests, setTests] = useState<TestCase[]>([]);
   const [bugs, setBugs] = useState<Bug[]>([]);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('tests');
+  const [searchParams] = useSearchParams();
+  const linkedTestId = searchParams.get('test');
+  const linkedBugId = searchParams.get('bug');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [claimingTestId, setClaimingTestId] = useState<string | null>(null);
+  const [testToFix, setTestToFix] = useState<TestCase | null>(null);
+  const [fixError, setFixError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const markFixedForm = useForm<MarkFixedInput>({
+    resolver: zodResolver(markFixedSchema),
+    defaultValues: {
+      fix_reference: '',
+      fix_notes: '',
+    },
+  });
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Open the discussion of the test case or bug linked from a notification
+  useEffect(() => {
+    if (linkedBugId) {
+      setActiveTab('bugs');
+      setOpenThreadId(linkedBugId);
+    } else if (linkedTestId) {
+      setActiveTab('tests');
+      setOpenThreadId(linkedTestId);
+    }
+  }, [linkedTestId, linkedBugId]);
+
   const fetchData = async () => {
     setLoading(true);
     setError(null);
@@ -104,7 +192,7 @@ export function GlobalFeed() {
         bugApi.getAll({ limit: 100 }),
       ]);
 
-      // Backend already filters to show only fail/escalated for ENG role
+      // Backend already filters to failed/escalated tests and their fixes for ENG role
       setTests(testsRes.data.tests);
       setBugs(bugsRes.data.bugs);
     } catch (err) {
@@ -115,6 +203,71 @@ export function GlobalFeed() {
     }
   };
 
+  useRealtimeEvents((event) => {
+    switch (event.type) {
+      case 'test.created':
+      case 'test.updated':
+        setTests((prev) => upsertById(prev, event.data));
+        break;
+      case 'test.deleted':
+        setTests((prev) => removeById(prev, event.data.id));
+        break;
+      case 'bug.created':
+      case 'bug.updated':
+        setBugs((prev) => upsertById(prev, event.data));
+        break;
+      case 'bug.deleted':
+        setBugs((prev) => removeById(prev, event.data.id));
+        break;
+    }
+  });
+
+  const refreshTests = async () => {
+    const testsRes = await testApi.getAll({ limit: 100 });
+    setTests(testsRes.data.tests);
+  };
+
+  const handleClaim = async (test: TestCase) => {
+    setClaimingTestId(test.id);
+    try {
+      await testApi.claim(test.id);
+      await refreshTests();
+    } catch (err) {
+      console.error('Failed to claim test:', err);
+    } finally {
+      setClaimingTestId(null);
+    }
+  };
+
+  const openMarkFixedDialog = (test: TestCase) => {
+    setTestToFix(test);
+    setFixError(null);
+    markFixedForm.reset({ fix_reference: '', fix_notes: '' });
+  };
+
+  const onMarkFixed = async (data: MarkFixedInput) => {
+    if (!testToFix) return;
+
+    setSubmitting(true);
+    setFixError(null);
+    try {
+      await testApi.markFixed(testToFix.id, {
+        fix_reference: data.fix_reference,
+        fix_notes: data.fix_notes || undefined,
+      });
+      await refreshTests();
+      setTestToFix(null);
+    } catch (err) {
+      console.error('Failed to mark test fixed:', err);
+      if (!showServerErrors(markFixedForm, err)) {
+        const error = err as { response?: { data?: { message?: string } } };
+        setFixError(error.response?.data?.message || 'Failed to mark test as fixed');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   // Apply search filter
   const filteredTests = tests.filter(
     (test) =>
@@ -123,6 +276,14 @@ export function GlobalFeed() {
       (test.notes || '').toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const toggleThread = (id: string) => {
+    setOpenThreadId(openThreadId === id ? null : id);
+  };
+
+  const handleBugChanged = (updated: Bug) => {
+    setBugs((prev) => prev.map((bug) => (bug.id === updated.id ? updated : bug)));
+  };
+
   const filteredBugs = bugs.filter(
     (bug) =>
       bug.module_platform.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -157,12 +318,12 @@ export function GlobalFeed() {
       <div>
         <h1 className="text-3xl font-bold">Engineering Feed</h1>
         <p className="text-muted-foreground mt-1">
-          View failed and escalated tests along with bug reports.
+          Claim failed and escalated tests, ship fixes, and review bug reports.
         </p>
       </div>
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -187,6 +348,18 @@ export function GlobalFeed() {
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              In Fix
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">
+              {filteredTests.filter((t) => t.status === 'in_fix').length}
+            </div>
+          </CardContent>
+        </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -209,27 +382,37 @@ export function GlobalFeed() {
         </Card>
       </div>
 
-      {/* Search */}
-      <div className="relative max-w-md">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search tests and bugs..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
+      {/* Search and export of the current tab */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="relative max-w-md flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tests and bugs..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <ExportMenu
+          fileName={activeTab === 'bugs' ? 'qualitysync-bugs' : 'qualitysync-tests'}
+          onExport={(format) =>
+            activeTab === 'bugs'
+              ? bugApi.export({ format, search: searchQuery || undefined })
+              : testApi.export({ format, search: searchQuery || undefined })
+          }
         />
       </div>
 
       {/* Feed Tabs */}
-      <Tabs defaultValue="tests">
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
           <TabsTrigger value="tests">
-            Failed/Escalated Tests ({filteredTests.length})
+            Failed Tests & Fixes ({filteredTests.length})
           </TabsTrigger>
           <TabsTrigger value="bugs">Bug Reports ({filteredBugs.length})</TabsTrigger>
         </TabsList>
 
-        {/* Failed/Escalated Tests Tab */}
+        {/* Failed Tests & Fixes Tab */}
         <TabsContent value="tests" className="mt-4 space-y-4">
           {filteredTests.length === 0 ? (
             <Card>
@@ -239,15 +422,16 @@ export function GlobalFeed() {
             </Card>
           ) : (
             filteredTests.map((test) => {
-              const statusConfig = testStatusConfig[test.status as 'fail' | 'escalated'];
+              const statusConfig = testStatusConfig[test.status as EngTestStatus];
               if (!statusConfig) return null;
+              const isMyFix = test.status === 'in_fix' && test.fix_owner === user?.id;
               return (
                 <Card key={test.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex items-start gap-3">
                         <div className={`p-2 rounded-lg ${statusConfig.bgColor}`}>
-                          <ClipboardCheck className={`h-4 w-4 ${test.status === 'fail' ? 'text-red-600' : 'text-orange-600'}`} />
+                          <ClipboardCheck className={`h-4 w-4 ${statusConfig.textColor}`} />
                         </div>
                         <div>
                           <div className="flex items-center gap-2 flex-wrap">
@@ -265,6 +449,35 @@ export function GlobalFeed() {
                           </p>
                         </div>
                       </div>
+                      {/* Fix Actions */}
+                      <div className="flex-shrink-0">
+                        {(test.status === 'fail' || test.status === 'escalated') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleClaim(test)}
+                            disabled={claimingTestId === test.id}
+                          >
+                            {claimingTestId === test.id ? (
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            ) : (
+                              <Wrench className="h-3 w-3 mr-1" />
+                            )}
+                            Claim
+                          </Button>
+                        )}
+                        {isMyFix && (
+                          <Button size="sm" onClick={() => openMarkFixedDialog(test)}>
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            Mark Fixed
+                          </Button>
+                        )}
+                        {test.status === 'in_fix' && !isMyFix && (
+                          <span className="text-xs text-muted-foreground">
+                            Being fixed by {test.fixer?.name || 'another engineer'}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-3">
@@ -297,17 +510,48 @@ export function GlobalFeed() {
                       </div>
                     )}
 
+                    {/* Fix Details */}
+                    {test.status === 'ready_for_retest' && test.fix_reference && (
+                      <div className="rounded-lg p-3 border">
+                        <div className="flex items-center gap-2 text-sm">
+                          <GitPullRequest className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">Fixed by {test.fixer?.name || 'Unknown'}:</span>
+                          <span className="font-mono break-all">{test.fix_reference}</span>
+                        </div>
+                        {test.fix_notes && (
+                          <p className="text-sm text-muted-foreground mt-1">{test.fix_notes}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">Waiting for QA to retest</p>
+                      </div>
+                    )}
+
                     {/* Footer */}
                     <div className="flex items-center justify-between pt-2 border-t text-xs text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <User className="h-3 w-3" />
                         Tested by {test.assignee?.name || 'Unknown'}
                       </span>
-                      <span className="flex items-center gap-1">
-                        <Calendar className="h-3 w-3" />
-                        {format(new Date(test.updated_at), 'MMM d, yyyy')}
-                      </span>
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-foreground"
+                          onClick={() => toggleThread(test.id)}
+                        >
+                          <MessageSquare className="h-3 w-3" />
+                          {openThreadId === test.id ? 'Hide discussion' : 'Discussion'}
+                        </button>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {format(new Date(test.updated_at), 'MMM d, yyyy')}
+                        </span>
+                      </div>
                     </div>
+
+                    {openThreadId === test.id && (
+                      <div className="pt-3 border-t">
+                        <CommentThread testCaseId={test.id} />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -383,17 +627,35 @@ export function GlobalFeed() {
                       </div>
                     )}
 
+                    <BugStatusActions bug={bug} onChanged={handleBugChanged} />
+
                     {/* Footer */}
                     <div className="flex items-center justify-between pt-2 border-t text-xs text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <User className="h-3 w-3" />
                         Reported by {bug.creator?.name || 'Unknown'}
                       </span>
-                      <span className="flex items-center gap-1">
-                        <Calendar className="h-3 w-3" />
-                        {format(new Date(bug.created_at), 'MMM d, yyyy')}
-                      </span>
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-foreground"
+                          onClick={() => toggleThread(bug.id)}
+                        >
+                          <MessageSquare className="h-3 w-3" />
+                          {openThreadId === bug.id ? 'Hide discussion' : 'Discussion'}
+                        </button>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {format(new Date(bug.created_at), 'MMM d, yyyy')}
+                        </span>
+                      </div>
                     </div>
+
+                    {openThreadId === bug.id && (
+                      <div className="pt-3 border-t">
+                        <CommentThread bugId={bug.id} />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -410,13 +672,78 @@ export function GlobalFeed() {
             <div>
               <p className="text-sm font-medium">Engineering View</p>
               <p className="text-xs text-muted-foreground">
-                Showing failed and escalated tests, plus all bug reports.
-                Click on Jam recordings to view detailed bug reproductions.
+                Showing failed and escalated tests, tests being fixed, plus all bug reports.
+                Claim a failure, then mark it fixed with a commit or PR so QA can retest it.
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {/* Mark Fixed Dialog */}
+      <Dialog open={testToFix !== null} onOpenChange={(open) => !open && setTestToFix(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Mark as Fixed</DialogTitle>
+            <DialogDescription>
+              {testToFix?.test_case}
+            </DialogDescription>
+          </DialogHeader>
+
+          {fixError && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+              {fixError}
+            </div>
+          )}
+
+          <Form {...markFixedForm}>
+            <form onSubmit={markFixedForm.handleSubmit(onMarkFixed)} className="space-y-4">
+              <FormField
+                control={markFixedForm.control}
+                name="fix_reference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commit or Pull Request</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., https://github.com/org/repo/pull/123 or a1b2c3d" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      {testToFix?.assignee?.name || 'The assigned tester'} will be notified to retest.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={markFixedForm.control}
+                name="fix_notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="What changed, and anything QA should check..."
+                        className="min-h-[80px]"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setTestToFix(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                  Send to Retest
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { auditApi, userApi } from '@/lib/apiClient';
+import type { AuditAction, AuditEntityType, AuditEvent, Pagination } from '@/types';
+import {
+  AlertOctagon,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  FileClock,
+  Loader2,
+  X,
+} from 'lucide-react';
+
+const actionConfig: Record<AuditAction, { label: string; variant: 'success' | 'secondary' | 'destructive' }> = {
+  create: { label: 'Created', variant: 'success' },
+  update: { label: 'Updated', variant: 'secondary' },
+  delete: { label: 'Deleted', variant: 'destructive' },
+};
+
+const entityLabels: Record<AuditEntityType, string> = {
+  test_case: 'Test Case',
+  bug: 'Bug',
+  user: 'User',
+  api_token: 'API Token',
+  invitation: 'Invitation',
+  project: 'Project',
+  role: 'Role',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+interface ActorOption {
+  id: string;
+  name: string;
+}
+
+export function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [actors, setActors] = useState<ActorOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState<string>('all');
+  const [actionFilter, setActionFilter] = useState<string>('all');
+  const [actorFilter, setActorFilter] = useState<string>('all');
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [requestIdFilter, setRequestIdFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    userApi
+      .getAll({ limit: 100 })
+      .then((response) => setActors(response.data.users))
+      .catch((err) => console.error('Failed to load users:', err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEvents = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await auditApi.getAll({
+          page: currentPage,
+          limit: 25,
+          entity_type: entityFilter !== 'all' ? (entityFilter as AuditEntityType) : undefined,
+          action: actionFilter !== 'all' ? (actionFilter as AuditAction) : undefined,
+          actor_id: actorFilter !== 'all' ? actorFilter : undefined,
+          // Wait for a complete id instead of failing validation while typing
+          entity_id: UUID_PATTERN.test(entityIdFilter.trim()) ? entityIdFilter.trim() : undefined,
+          request_id: requestIdFilter.trim() || undefined,
+          from: fromDate ? startOfDay(parseISO(fromDate)).toISOString() : undefined,
+          to: toDate ? endOfDay(parseISO(toDate)).toISOString() : undefined,
+        });
+        if (!cancelled) {
+          setEvents(response.data.events);
+          setPagination(response.data.pagination);
+        }
+      } catch (err) {
+        if (!cancelled) setError('Failed to load audit log');
+        console.error(err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchEvents();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentPage, entityFilter, actionFilter, actorFilter, entityIdFilter, requestIdFilter, fromDate, toDate]);
+
+  // Any filter change starts again from the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  const hasFilters =
+    entityFilter !== 'all' ||
+    actionFilter !== 'all' ||
+    actorFilter !== 'all' ||
+    Boolean(entityIdFilter || requestIdFilter || fromDate || toDate);
+
+  const clearFilters = () => {
+    setEntityFilter('all');
+    setActionFilter('all');
+    setActorFilter('all');
+    setEntityIdFilter('');
+    setRequestIdFilter('');
+    setFromDate('');
+    setToDate('');
+    setCurrentPage(1);
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <AlertOctagon className="h-12 w-12 text-destructive" />
+        <p className="text-destructive">{error}</p>
+        <Button onClick={clearFilters}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">
+          Every change made to test cases, bugs and users, with who made it and what changed
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-3 md:grid-cols-4">
+            <Select value={entityFilter} onValueChange={withPageReset(setEntityFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Entity type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Entities</SelectItem>
+                {(Object.keys(entityLabels) as AuditEntityType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{entityLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actionFilter} onValueChange={withPageReset(setActionFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {(Object.keys(actionConfig) as AuditAction[]).map((action) => (
+                  <SelectItem key={action} value={action}>{actionConfig[action].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actorFilter} onValueChange={withPageReset(setActorFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Actor" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                {actors.map((actor) => (
+                  <SelectItem key={actor.id} value={actor.id}>{actor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Entity ID"
+              value={entityIdFilter}
+              onChange={(e) => withPageReset(setEntityIdFilter)(e.target.value)}
+            />
+            <Input
+              placeholder="Request ID"
+              value={requestIdFilter}
+              onChange={(e) => withPageReset(setRequestIdFilter)(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="From date"
+              value={fromDate}
+              onChange={(e) => withPageReset(setFromDate)(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="To date"
+              value={toDate}
+              onChange={(e) => withPageReset(setToDate)(e.target.value)}
+            />
+            <Button variant="outline" onClick={clearFilters} disabled={!hasFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear Filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Events */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <FileClock className="h-5 w-5" />
+              Events
+            </span>
+            {pagination && <Badge variant="outline">{pagination.total} total</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No audit events found
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const action = actionConfig[event.action];
+                  const fields = Object.keys(event.changes);
+                  const isExpanded = expandedEventId === event.id;
+                  return (
+                    <React.Fragment key={event.id}>
+                      <TableRow
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setExpandedEventId(isExpanded ? null : event.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(event.created_at), 'MMM d, yyyy HH:mm:ss')}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm font-medium">{event.actor?.name || event.actor_name || 'System'}</div>
+                          {event.actor_role && <div className="text-xs text-muted-foreground">{event.actor_role}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={action.variant}>{action.label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{entityLabels[event.entity_type] || event.entity_type}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{event.entity_id.slice(0, 8)}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {fields.length > 0 ? fields.join(', ') : '—'}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="bg-muted/30">
+                            <div className="space-y-3 p-2">
+                              <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                                <span>
+                                  Entity ID: <span className="font-mono">{event.entity_id}</span>
+                                </span>
+                                {event.request_id && (
+                                  <button
+                                    type="button"
+                                    className="hover:text-foreground"
+                                    onClick={() => withPageReset(setRequestIdFilter)(event.request_id as string)}
+                                  >
+                                    Request ID: <span className="font-mono underline">{event.request_id}</span>
+                                  </button>
+                                )}
+                              </div>
+                              {fields.length > 0 ? (
+                                <div className="rounded-lg border bg-background overflow-hidden">
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Field</TableHead>
+                                        <TableHead>Before</TableHead>
+                                        <TableHead>After</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {fields.map((field) => (
+                                        <TableRow key={field}>
+                                          <TableCell className="font-mono text-xs align-top">{field}</TableCell>
+                                          <TableCell className="text-xs align-top whitespace-pre-wrap break-all text-red-700">
+                                            {formatValue(event.changes[field].from)}
+                                          </TableCell>
+                                          <TableCell className="text-xs align-top whitespace-pre-wrap break-all text-green-700">
+                                            {formatValue(event.changes[field].to)}
+                                          </TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-muted-foreground">No field changes recorded</p>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Page {pagination.page} of {pagination.totalPages}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+              disabled={currentPage === 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCurrentPage((p) => Math.min(pagination.totalPages, p + 1))}
+              disabled={currentPage === pagination.totalPages}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
@@ -38,9 +39,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { testApi, bugApi, userApi } from '@/lib/apiServices';
+import { testApi, bugApi, userApi, planApi } from '@/lib/apiClient';
+import { removeById, upsertById, useRealtimeEvents } from '@/lib/realtime';
+import { BugStatusActions } from '@/components/BugStatusActions';
+import { BugStatusHistory } from '@/components/BugStatusHistory';
+import { CommentThread } from '@/components/CommentThread';
+import { showServerErrors, textField } from '@/lib/validations';
+import { FIELDS } from 'qualitysync-shared';
 import { z } from 'zod';
-import type { Bug, DashboardStats, QATester, BugSeverity, BugStatus } from '@/types';
+import type { Bug, DashboardStats, QATester, BugSeverity, BugStatus, TestPlan } from '@/types';
 import {
   ClipboardCheck,
   CheckCircle2,
@@ -60,20 +67,22 @@ import {
   FileCheck,
   Loader2,
   AlertOctagon,
+  Wrench,
+  RotateCcw,
 } from 'lucide-react';
 
 const convertBugSchema = z.object({
   assigned_to: z.string().min(1, 'Please select a tester'),
-  test_case: z.string().min(5, 'Test case must be at least 5 characters'),
-  expected_result: z.string().min(5, 'Expected result must be at least 5 characters'),
+  test_case: textField(FIELDS.testCase, { required: true }),
+  expected_result: textField(FIELDS.expectedResult, { required: true }),
 });
 
 type ConvertBugInput = z.infer<typeof convertBugSchema>;
 
 const createTestSchema = z.object({
-  module_platform: z.string().min(1, 'Module/Platform is required'),
-  test_case: z.string().min(5, 'Test case must be at least 5 characters'),
-  expected_result: z.string().min(5, 'Expected result must be at least 5 characters'),
+  module_platform: textField(FIELDS.modulePlatform, { required: true }),
+  test_case: textField(FIELDS.testCase, { required: true }),
+  expected_result: textField(FIELDS.expectedResult, { required: true }),
   assigned_to: z.string().min(1, 'Please select a tester'),
 });
 
@@ -127,8 +136,12 @@ const statusConfig: Record<BugStatus, { label: string; variant: 'default' | 'sec
 
 export function PMDashboard() {
   const [expandedBugId, setExpandedBugId] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const linkedBugId = searchParams.get('bug');
   const [bugs, setBugs] = useState<Bug[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [plans, setPlans] = useState<TestPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState('all');
   const [qaTesters, setQaTesters] = useState<QATester[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -160,15 +173,21 @@ export function PMDashboard() {
     fetchData();
   }, []);
 
+  // Open the bug linked from a notification
+  useEffect(() => {
+    if (linkedBugId) setExpandedBugId(linkedBugId);
+  }, [linkedBugId]);
+
   const fetchData = async () => {
     setLoading(true);
     setError(null);
     try {
       // Fetch data with individual error handling
-      const [statsRes, bugsRes, testersRes] = await Promise.allSettled([
+      const [statsRes, bugsRes, testersRes, plansRes] = await Promise.allSettled([
         testApi.getStats(),
         bugApi.getAll({ limit: 50 }),
         userApi.getQATesters(),
+        planApi.getAll({ status: 'active' }),
       ]);
 
       // Handle stats
@@ -183,6 +202,8 @@ export function PMDashboard() {
           escalated_tests: 0,
           open_bugs: 0,
           total_bugs: 0,
+          in_fix_tests: 0,
+          ready_for_retest_tests: 0,
         });
       }
 
@@ -199,6 +220,13 @@ export function PMDashboard() {
       } else {
         setQaTesters([]);
       }
+
+      // Handle active plans
+      if (plansRes.status === 'fulfilled') {
+        setPlans(plansRes.value.data.plans);
+      } else {
+        setPlans([]);
+      }
     } catch (err) {
       setError('Failed to load dashboard data');
       console.error(err);
@@ -207,14 +235,48 @@ export function PMDashboard() {
     }
   };
 
-  const passRate = stats && stats.total_tests > 0
-    ? Math.round((stats.passed_tests / stats.total_tests) * 100)
+  // Counts are aggregated server side, so reload them when anything changes
+  const refreshCounts = async () => {
+    try {
+      const [statsRes, plansRes] = await Promise.all([
+        testApi.getStats(),
+        planApi.getAll({ status: 'active' }),
+      ]);
+      setStats(statsRes.data.stats);
+      setPlans(plansRes.data.plans);
+    } catch (err) {
+      console.error('Failed to refresh dashboard counts:', err);
+    }
+  };
+
+  useRealtimeEvents((event) => {
+    if (event.type === 'bug.created' || event.type === 'bug.updated') {
+      setBugs((prev) => upsertById(prev, event.data));
+    } else if (event.type === 'bug.deleted') {
+      setBugs((prev) => removeById(prev, event.data.id));
+    }
+
+    if (event.type !== 'notification.created') {
+      refreshCounts();
+    }
+  });
+
+  // Test counts come from the selected plan, or from all tests
+  const selectedPlan = plans.find((plan) => plan.id === selectedPlanId);
+  const testStats = selectedPlan ? selectedPlan.progress : stats;
+
+  const passRate = testStats && testStats.total_tests > 0
+    ? Math.round((testStats.passed_tests / testStats.total_tests) * 100)
     : 0;
 
   const toggleRowExpand = (bugId: string) => {
     setExpandedBugId(expandedBugId === bugId ? null : bugId);
   };
 
+  const handleBugChanged = (updated: Bug) => {
+    setBugs((prev) => prev.map((bug) => (bug.id === updated.id ? updated : bug)));
+  };
+
   const openConvertBugDialog = (bug: Bug) => {
     setBugToConvert(bug);
     convertBugForm.reset({
@@ -249,6 +311,7 @@ export function PMDashboard() {
       setExpandedBugId(null);
     } catch (err) {
       console.error('Failed to convert bug:', err);
+      showServerErrors(convertBugForm, err);
     } finally {
       setSubmitting(false);
     }
@@ -272,6 +335,7 @@ export function PMDashboard() {
       createTestForm.reset();
     } catch (err) {
       console.error('Failed to create test:', err);
+      showServerErrors(createTestForm, err);
     } finally {
       setSubmitting(false);
     }
@@ -298,28 +362,28 @@ export function PMDashboard() {
   const statCards = [
     {
       title: 'Total Tests',
-      value: stats?.total_tests || 0,
+      value: testStats?.total_tests || 0,
       icon: ClipboardCheck,
       color: 'text-blue-600',
       bgColor: 'bg-blue-100',
     },
     {
       title: 'Passed',
-      value: stats?.passed_tests || 0,
+      value: testStats?.passed_tests || 0,
       icon: CheckCircle2,
       color: 'text-green-600',
       bgColor: 'bg-green-100',
     },
     {
       title: 'Failed',
-      value: stats?.failed_tests || 0,
+      value: testStats?.failed_tests || 0,
       icon: XCircle,
       color: 'text-red-600',
       bgColor: 'bg-red-100',
     },
     {
       title: 'Not Tested',
-      value: stats?.pending_tests || 0,
+      value: testStats?.pending_tests || 0,
       icon: ClipboardList,
       color: 'text-gray-600',
       bgColor: 'bg-gray-100',
@@ -343,10 +407,25 @@ export function PMDashboard() {
             Overview of your QA testing progress
           </p>
         </div>
-        <Button onClick={() => setCreateTestDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Test
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={selectedPlanId} onValueChange={setSelectedPlanId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="All tests" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tests</SelectItem>
+              {plans.map((plan) => (
+                <SelectItem key={plan.id} value={plan.id}>
+                  {plan.name} ({plan.release})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setCreateTestDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Test
+          </Button>
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -387,7 +466,7 @@ export function PMDashboard() {
               <span className="text-2xl font-bold">{passRate}%</span>
             </div>
             <p className="text-sm text-muted-foreground mt-2">
-              {stats?.passed_tests || 0} of {stats?.total_tests || 0} tests passing
+              {testStats?.passed_tests || 0} of {testStats?.total_tests || 0} tests passing
             </p>
           </CardContent>
         </Card>
@@ -400,25 +479,71 @@ export function PMDashboard() {
             <div className="flex flex-wrap gap-2">
               <Badge variant="success" className="text-sm px-3 py-1">
                 <CheckCircle2 className="h-3 w-3 mr-1" />
-                {stats?.passed_tests || 0} Passed
+                {testStats?.passed_tests || 0} Passed
               </Badge>
               <Badge variant="destructive" className="text-sm px-3 py-1">
                 <XCircle className="h-3 w-3 mr-1" />
-                {stats?.failed_tests || 0} Failed
+                {testStats?.failed_tests || 0} Failed
               </Badge>
               <Badge variant="secondary" className="text-sm px-3 py-1">
                 <ClipboardList className="h-3 w-3 mr-1" />
-                {stats?.pending_tests || 0} Not Tested
+                {testStats?.pending_tests || 0} Not Tested
               </Badge>
               <Badge variant="warning" className="text-sm px-3 py-1">
                 <AlertOctagon className="h-3 w-3 mr-1" />
-                {stats?.escalated_tests || 0} Escalated
+                {testStats?.escalated_tests || 0} Escalated
               </Badge>
+              {!selectedPlan && (
+                <>
+                  <Badge variant="outline" className="text-sm px-3 py-1">
+                    <Wrench className="h-3 w-3 mr-1" />
+                    {stats?.in_fix_tests || 0} In Fix
+                  </Badge>
+                  <Badge variant="default" className="text-sm px-3 py-1">
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {stats?.ready_for_retest_tests || 0} Ready for Retest
+                  </Badge>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Active Plans */}
+      {plans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Active Test Plans</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {plans.map((plan) => {
+              const { total_tests, passed_tests, failed_tests, pending_tests } = plan.progress;
+              const planPassRate = total_tests > 0 ? Math.round((passed_tests / total_tests) * 100) : 0;
+              return (
+                <div key={plan.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium">
+                      {plan.name} <Badge variant="outline" className="ml-1">{plan.release}</Badge>
+                    </span>
+                    <span className="text-muted-foreground">
+                      {passed_tests} passed · {failed_tests} failed · {pending_tests} not tested
+                      {plan.due_date && ` · due ${format(new Date(plan.due_date), 'MMM d')}`}
+                    </span>
+                  </div>
+                  <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 transition-all"
+                      style={{ width: `${planPassRate}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Reported Bugs Table */}
       <Card>
         <CardHeader>
@@ -620,33 +745,37 @@ export function PMDashboard() {
                                       </div>
                                     </div>
                                   </div>
+
+                                  <BugStatusHistory bugId={bug.id} updatedAt={bug.updated_at} />
+
+                                  <CommentThread bugId={bug.id} />
                                 </div>
                               </div>
 
                               <div className="mt-4 pt-4 border-t flex justify-between items-center">
-                                {/* Create Test Button - Only show for open or in_progress bugs */}
-                                {(bug.status === 'open' || bug.status === 'in_progress') && (
-                                  <Button
-                                    size="sm"
-                                    className="bg-green-600 hover:bg-green-700"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      openConvertBugDialog(bug);
-                                    }}
-                                  >
-                                    <Plus className="h-4 w-4 mr-1" />
-                                    Create Test from Bug
-                                  </Button>
-                                )}
-                                {bug.status === 'converted_to_test' && (
-                                  <div className="flex items-center gap-2 text-green-600">
-                                    <FileCheck className="h-4 w-4" />
-                                    <span className="text-sm font-medium">Test case created</span>
-                                  </div>
-                                )}
-                                {bug.status !== 'open' && bug.status !== 'in_progress' && bug.status !== 'converted_to_test' && (
-                                  <div />
-                                )}
+                                <div className="flex flex-wrap items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                                  {/* Create Test Button - Only show while conversion is allowed */}
+                                  {bug.allowed_transitions?.includes('converted_to_test') && (
+                                    <Button
+                                      size="sm"
+                                      className="bg-green-600 hover:bg-green-700"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        openConvertBugDialog(bug);
+                                      }}
+                                    >
+                                      <Plus className="h-4 w-4 mr-1" />
+                                      Create Test from Bug
+                                    </Button>
+                                  )}
+                                  {bug.status === 'converted_to_test' && (
+                                    <div className="flex items-center gap-2 text-green-600">
+                                      <FileCheck className="h-4 w-4" />
+                                      <span className="text-sm font-medium">Test case created</span>
+                                    </div>
+                                  )}
+                                  <BugStatusActions bug={bug} onChanged={handleBugChanged} />
+                                </div>
                                 <Button
                                   variant="outline"
                                   size="sm"
@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { testApi } from '@/lib/apiClient';
+import { cn } from '@/lib/utils';
+import type { TestImportField, TestImportMapping, TestImportResult } from '@/types';
+import { ArrowLeft, CheckCircle2, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const steps: { key: WizardStep; label: string }[] = [
+  { key: 'upload', label: 'Upload file' },
+  { key: 'map', label: 'Map columns' },
+  { key: 'preview', label: 'Review' },
+  { key: 'done', label: 'Done' },
+];
+
+const fieldLabels: Record<TestImportField, string> = {
+  module_platform: 'Module/Platform',
+  test_case: 'Test Case',
+  expected_result: 'Expected Result',
+  assignee_email: 'Assignee Email',
+};
+
+const importFields = Object.keys(fieldLabels) as TestImportField[];
+
+// Radix select items cannot have an empty value
+const UNMAPPED = '__unmapped__';
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+export function ImportTests() {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<TestImportMapping>({});
+  const [result, setResult] = useState<TestImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (dryRun: boolean, withMapping?: TestImportMapping) => {
+    if (!file) return null;
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await testApi.import({
+        file,
+        dry_run: dryRun ? 'true' : 'false',
+        // Without a mapping the server guesses one from the column headers
+        mapping: withMapping ? JSON.stringify(withMapping) : undefined,
+      });
+      setResult(response.data);
+      return response.data;
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(errorMessage(err, dryRun ? 'Failed to read the file' : 'Failed to import test cases'));
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    const preview = await runImport(true);
+    if (preview) {
+      setMapping(preview.mapping);
+      setStep('map');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (await runImport(true, mapping)) setStep('preview');
+  };
+
+  const handleImport = async () => {
+    if (await runImport(false, mapping)) setStep('done');
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setMapping({});
+    setResult(null);
+    setError(null);
+  };
+
+  const mappingComplete = importFields.every((field) => mapping[field]);
+  const currentStepIndex = steps.findIndex((s) => s.key === step);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link to="/pm/tests" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Master Test List
+        </Link>
+        <h1 className="text-3xl font-bold">Import Test Cases</h1>
+        <p className="text-muted-foreground mt-1">
+          Create test cases in bulk from a CSV or Excel spreadsheet
+        </p>
+      </div>
+
+      {/* Progress */}
+      <div className="flex items-center gap-2">
+        {steps.map((s, index) => (
+          <div key={s.key} className="flex items-center gap-2">
+            <span
+              className={cn(
+                'h-7 w-7 rounded-full flex items-center justify-center text-xs font-semibold',
+                index <= currentStepIndex ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {index + 1}
+            </span>
+            <span className={cn('text-sm', index === currentStepIndex ? 'font-medium' : 'text-muted-foreground')}>
+              {s.label}
+            </span>
+            {index < steps.length - 1 && <span className="w-8 h-px bg-border" />}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      {step === 'upload' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a spreadsheet</CardTitle>
+            <CardDescription>
+              The first row must hold column headers. Each following row becomes one test case with a
+              module/platform, test case, expected result and the email of the QA tester to assign.
+              Up to 1000 rows, 5 MB.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File (.csv or .xlsx)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <Button onClick={handleUpload} disabled={!file || working}>
+              {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Continue
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              {file?.name}
+            </CardTitle>
+            <CardDescription>
+              {result.summary.total} rows found. Pick the column that holds each field.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {importFields.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>{fieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field] || UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Select a column</SelectItem>
+                      {result.columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset} disabled={working}>
+                Choose another file
+              </Button>
+              <Button onClick={handlePreview} disabled={!mappingComplete || working}>
+                {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview import
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && result && (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Rows</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{result.summary.total}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Ready to import</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">{result.summary.valid}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">With errors (skipped)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-destructive">{result.summary.invalid}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              <div className="max-h-[480px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      {importFields.map((field) => (
+                        <TableHead key={field}>{fieldLabels[field]}</TableHead>
+                      ))}
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row) => (
+                      <TableRow key={row.row} className={cn(row.errors.length > 0 && 'bg-destructive/5')}>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        {importFields.map((field) => (
+                          <TableCell
+                            key={field}
+                            className={cn(
+                              'max-w-[200px] truncate',
+                              row.errors.some((e) => e.field === field) && 'text-destructive'
+                            )}
+                            title={row.values[field]}
+                          >
+                            {row.values[field] || '—'}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="success">Valid</Badge>
+                          ) : (
+                            <ul className="text-xs text-destructive space-y-0.5">
+                              {row.errors.map((e) => (
+                                <li key={e.field}>{e.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStep('map')} disabled={working}>
+              Back to mapping
+            </Button>
+            <Button onClick={handleImport} disabled={result.summary.valid === 0 || working}>
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import {result.summary.valid} test {result.summary.valid === 1 ? 'case' : 'cases'}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === 'done' && result && (
+        <Card>
+          <CardContent className="py-10 text-center space-y-4">
+            <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+            <div>
+              <p className="text-lg font-semibold">{result.summary.imported} test cases imported</p>
+              {result.summary.invalid > 0 && (
+                <p className="text-sm text-muted-foreground flex items-center justify-center gap-1 mt-1">
+                  <XCircle className="h-4 w-4 text-destructive" />
+                  {result.summary.invalid} rows with errors were skipped
+                </p>
+              )}
+            </div>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={reset}>
+                Import another file
+              </Button>
+              <Button asChild>
+                <Link to="/pm/tests">View test list</Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,496 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useProject } from '@/contexts/project';
+import { projectApi, roleApi, userApi } from '@/lib/apiClient';
+import { showServerErrors, textField } from '@/lib/validations';
+import { FIELDS } from 'qualitysync-shared';
+import type { Project, ProjectMember, Role, UserRole } from '@/types';
+import { AlertOctagon, Bot, CheckCircle2, FolderKanban, Loader2, Plus, Trash2, UserPlus } from 'lucide-react';
+
+const createProjectSchema = z.object({
+  name: textField(FIELDS.projectName, { required: true }),
+  description: textField(FIELDS.projectDescription),
+});
+
+type CreateProjectInput = z.infer<typeof createProjectSchema>;
+
+interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+export function Projects() {
+  const { refreshProjects } = useProject();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [memberError, setMemberError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRoleId, setNewMemberRoleId] = useState('');
+
+  const form = useForm<CreateProjectInput>({
+    resolver: zodResolver(createProjectSchema),
+    defaultValues: { name: '', description: '' },
+  });
+
+  useEffect(() => {
+    fetchProjects();
+    userApi
+      .getAll({ limit: 100 })
+      .then((response) => setUsers(response.data.users))
+      .catch((err) => console.error('Failed to load users:', err));
+    roleApi
+      .getAll()
+      .then((response) => {
+        setRoles(response.data.roles);
+        // New members start as QA testers
+        const qaRole = response.data.roles.find((role) => role.is_system && !role.for_service_accounts && role.base_role === 'QA');
+        setNewMemberRoleId(qaRole?.id ?? '');
+      })
+      .catch((err) => console.error('Failed to load roles:', err));
+  }, []);
+
+  const fetchProjects = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await projectApi.getAll();
+      setProjects(response.data.projects);
+    } catch (err) {
+      setError('Failed to load projects');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMembers = async (project: Project) => {
+    setMembersLoading(true);
+    setMemberError(null);
+    try {
+      const response = await projectApi.getMembers(project.id);
+      setMembers(response.data.members);
+    } catch (err) {
+      console.error('Failed to load project members:', err);
+      setMemberError(errorMessage(err, 'Failed to load project members'));
+    } finally {
+      setMembersLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 5000);
+  };
+
+  const handleSelectProject = (project: Project) => {
+    setSelectedProject(project);
+    setMembers([]);
+    setNewMemberId('');
+    fetchMembers(project);
+  };
+
+  const onSubmit = async (data: CreateProjectInput) => {
+    setSubmitting(true);
+    setCreateError(null);
+    try {
+      const response = await projectApi.create({
+        name: data.name,
+        description: data.description || undefined,
+      });
+      setProjects((prev) =>
+        [...prev, response.data.project].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      await refreshProjects();
+      showSuccess(response.message);
+      setDialogOpen(false);
+      form.reset();
+      handleSelectProject(response.data.project);
+    } catch (err) {
+      console.error('Failed to create project:', err);
+      if (!showServerErrors(form, err)) {
+        setCreateError(errorMessage(err, 'Failed to create project. Please try again.'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Changing members can change the signed-in user's own projects
+  const afterMembershipChange = async (project: Project) => {
+    await Promise.all([fetchMembers(project), fetchProjects(), refreshProjects()]);
+  };
+
+  const handleSetMember = async (userId: string, roleId: string) => {
+    if (!selectedProject) return;
+
+    setBusyUserId(userId);
+    setMemberError(null);
+    try {
+      const response = await projectApi.setMember(selectedProject.id, userId, { role_id: roleId });
+      showSuccess(response.message);
+      setNewMemberId('');
+      await afterMembershipChange(selectedProject);
+    } catch (err) {
+      console.error('Failed to update project member:', err);
+      setMemberError(errorMessage(err, 'Failed to update project member'));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRemoveMember = async (member: ProjectMember) => {
+    if (!selectedProject) return;
+
+    setBusyUserId(member.user.id);
+    setMemberError(null);
+    try {
+      const response = await projectApi.removeMember(selectedProject.id, member.user.id);
+      showSuccess(response.message);
+      await afterMembershipChange(selectedProject);
+    } catch (err) {
+      console.error('Failed to remove project member:', err);
+      setMemberError(errorMessage(err, 'Failed to remove project member'));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const roleNames = new Map(roles.map((role) => [role.id, role.name]));
+  const memberIds = new Set(members.map((member) => member.user.id));
+  const availableUsers = users.filter((user) => !memberIds.has(user.id));
+
+  if (loading && projects.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <AlertOctagon className="h-12 w-12 text-destructive" />
+        <p className="text-destructive">{error}</p>
+        <Button onClick={fetchProjects}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Projects</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage projects and who works in them
+          </p>
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Project
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[450px]">
+            <DialogHeader>
+              <DialogTitle>New Project</DialogTitle>
+              <DialogDescription>
+                You join the project as a Product Manager and can add the team afterwards.
+              </DialogDescription>
+            </DialogHeader>
+
+            {createError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {createError}
+              </div>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Mobile App" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="What the project covers" rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Project
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {successMessage && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-800 bg-green-100 rounded-md">
+          <CheckCircle2 className="h-4 w-4" />
+          {successMessage}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Projects */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FolderKanban className="h-5 w-5" />
+              All Projects
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {projects.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No projects yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Your Role</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.map((project) => (
+                    <TableRow
+                      key={project.id}
+                      className={`cursor-pointer ${selectedProject?.id === project.id ? 'bg-muted' : ''}`}
+                      onClick={() => handleSelectProject(project)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{project.name}</div>
+                        {project.description && (
+                          <div className="text-sm text-muted-foreground line-clamp-1">
+                            {project.description}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {project.role_id ? (
+                          <Badge variant="secondary">{roleNames.get(project.role_id) ?? project.role}</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Not a member</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(project.created_at), 'MMM d, yyyy')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {selectedProject ? `Members of ${selectedProject.name}` : 'Members'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!selectedProject ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Select a project to manage its members
+              </p>
+            ) : (
+              <>
+                {memberError && (
+                  <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                    {memberError}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Select value={newMemberId} onValueChange={setNewMemberId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Add a user" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableUsers.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name} ({user.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={newMemberRoleId} onValueChange={setNewMemberRoleId}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue placeholder="Role" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role) => (
+                        <SelectItem key={role.id} value={role.id}>
+                          {role.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    disabled={!newMemberId || !newMemberRoleId || busyUserId === newMemberId}
+                    onClick={() => handleSetMember(newMemberId, newMemberRoleId)}
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+
+                {membersLoading && members.length === 0 ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : members.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No members yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Role in Project</TableHead>
+                        <TableHead className="w-[60px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {members.map((member) => (
+                        <TableRow key={member.user.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2 font-medium">
+                              {member.user.name}
+                              {member.user.is_service_account && (
+                                <Bot className="h-4 w-4 text-muted-foreground" />
+                              )}
+                            </div>
+                            <div className="text-sm text-muted-foreground">{member.user.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={member.role_id}
+                              disabled={busyUserId === member.user.id}
+                              onValueChange={(value) => handleSetMember(member.user.id, value)}
+                            >
+                              <SelectTrigger className="w-[170px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {roles.map((role) => (
+                                  <SelectItem key={role.id} value={role.id}>
+                                    {role.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Remove from project"
+                              disabled={busyUserId === member.user.id}
+                              onClick={() => handleRemoveMember(member)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
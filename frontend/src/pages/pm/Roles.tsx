@@ -0,0 +1,467 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/contexts/project';
+import { roleApi } from '@/lib/apiClient';
+import { showServerErrors, textField } from '@/lib/validations';
+import { FIELDS, USER_ROLES } from 'qualitysync-shared';
+import type { Permission, PermissionInfo, Role, UserRole } from '@/types';
+import { AlertOctagon, CheckCircle2, Loader2, Lock, Plus, Save, ShieldCheck, Trash2 } from 'lucide-react';
+
+const createRoleSchema = z.object({
+  name: textField(FIELDS.roleName, { required: true }),
+  description: textField(FIELDS.roleDescription),
+  base_role: z.enum(USER_ROLES),
+});
+
+type CreateRoleInput = z.infer<typeof createRoleSchema>;
+
+const baseRoleLabels: Record<UserRole, string> = {
+  PM: 'Product Manager',
+  QA: 'QA Tester',
+  ENG: 'Engineering',
+};
+
+const groupLabels: Record<string, string> = {
+  tests: 'Tests',
+  bugs: 'Bugs',
+  suites: 'Suites and plans',
+  plans: 'Suites and plans',
+  comments: 'Comments',
+  users: 'Administration',
+  projects: 'Administration',
+  roles: 'Administration',
+  audit: 'Administration',
+};
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+export function Roles() {
+  const { refreshUser } = useAuth();
+  const { refreshProjects } = useProject();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [catalog, setCatalog] = useState<PermissionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [draft, setDraft] = useState<{ name: string; description: string; permissions: Permission[] }>({
+    name: '',
+    description: '',
+    permissions: [],
+  });
+  const [saving, setSaving] = useState(false);
+  const [roleError, setRoleError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const form = useForm<CreateRoleInput>({
+    resolver: zodResolver(createRoleSchema),
+    defaultValues: { name: '', description: '', base_role: 'QA' },
+  });
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rolesResponse, permissionsResponse] = await Promise.all([
+        roleApi.getAll(),
+        roleApi.getPermissions(),
+      ]);
+      setRoles(rolesResponse.data.roles);
+      setCatalog(permissionsResponse.data.permissions);
+    } catch (err) {
+      setError('Failed to load roles');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 5000);
+  };
+
+  const selectRole = (role: Role) => {
+    setSelectedRole(role);
+    setRoleError(null);
+    setDraft({ name: role.name, description: role.description ?? '', permissions: role.permissions });
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setDraft((prev) => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter((p) => p !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  // Whoever edits roles may have changed what they can do themselves
+  const afterRoleChange = async () => {
+    await Promise.all([refreshUser(), refreshProjects()]);
+  };
+
+  const handleSave = async () => {
+    if (!selectedRole) return;
+
+    setSaving(true);
+    setRoleError(null);
+    try {
+      const response = await roleApi.update(selectedRole.id, {
+        name: draft.name,
+        description: draft.description || null,
+        permissions: draft.permissions,
+      });
+      const role = response.data.role;
+      setRoles((prev) => prev.map((r) => (r.id === role.id ? role : r)));
+      selectRole(role);
+      showSuccess(response.message);
+      await afterRoleChange();
+    } catch (err) {
+      console.error('Failed to update role:', err);
+      setRoleError(errorMessage(err, 'Failed to update role'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRole) return;
+
+    setSaving(true);
+    setRoleError(null);
+    try {
+      const response = await roleApi.delete(selectedRole.id);
+      setRoles((prev) => prev.filter((r) => r.id !== selectedRole.id));
+      setSelectedRole(null);
+      showSuccess(response.message);
+    } catch (err) {
+      console.error('Failed to delete role:', err);
+      setRoleError(errorMessage(err, 'Failed to delete role'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onSubmit = async (data: CreateRoleInput) => {
+    setSubmitting(true);
+    setCreateError(null);
+    try {
+      // New roles start with the permissions of the built-in role they are based on
+      const baseRole = roles.find((role) => role.is_system && !role.for_service_accounts && role.base_role === data.base_role);
+      const response = await roleApi.create({
+        name: data.name,
+        description: data.description || undefined,
+        base_role: data.base_role,
+        permissions: baseRole?.permissions ?? [],
+      });
+      setRoles((prev) => [...prev, response.data.role]);
+      selectRole(response.data.role);
+      showSuccess(response.message);
+      setDialogOpen(false);
+      form.reset();
+    } catch (err) {
+      console.error('Failed to create role:', err);
+      if (!showServerErrors(form, err)) {
+        setCreateError(errorMessage(err, 'Failed to create role. Please try again.'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const permissionGroups = catalog.reduce<Record<string, PermissionInfo[]>>((groups, permission) => {
+    const group = groupLabels[permission.key.split('.')[0]] ?? 'Other';
+    return { ...groups, [group]: [...(groups[group] ?? []), permission] };
+  }, {});
+
+  if (loading && roles.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <AlertOctagon className="h-12 w-12 text-destructive" />
+        <p className="text-destructive">{error}</p>
+        <Button onClick={fetchRoles}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Roles</h1>
+          <p className="text-muted-foreground mt-1">
+            Decide what each role is allowed to do
+          </p>
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New Role
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[450px]">
+            <DialogHeader>
+              <DialogTitle>New Role</DialogTitle>
+              <DialogDescription>
+                The role starts with the permissions of its base role. Adjust them afterwards.
+              </DialogDescription>
+            </DialogHeader>
+
+            {createError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {createError}
+              </div>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Lead QA" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="What the role is for" rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="base_role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base Role</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(baseRoleLabels).map(([role, label]) => (
+                            <SelectItem key={role} value={role}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Decides the workspace and which tests and bugs users of the role see.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Role
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {successMessage && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-800 bg-green-100 rounded-md">
+          <CheckCircle2 className="h-4 w-4" />
+          {successMessage}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Roles */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              All Roles
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {roles.map((role) => (
+              <button
+                key={role.id}
+                type="button"
+                className={`w-full text-left rounded-md border p-3 hover:bg-muted ${
+                  selectedRole?.id === role.id ? 'bg-muted' : ''
+                }`}
+                onClick={() => selectRole(role)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{role.name}</span>
+                  {role.is_system && <Lock className="h-4 w-4 text-muted-foreground" />}
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
+                  <Badge variant="outline">{role.base_role}</Badge>
+                  {role.permissions.length} permissions
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Permissions of the selected role */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{selectedRole ? selectedRole.name : 'Permissions'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {!selectedRole ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Select a role to edit its permissions
+              </p>
+            ) : (
+              <>
+                {roleError && (
+                  <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                    {roleError}
+                  </div>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="role-name">Name</Label>
+                    <Input
+                      id="role-name"
+                      value={draft.name}
+                      maxLength={FIELDS.roleName.max}
+                      onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Base Role</Label>
+                    <p className="text-sm pt-2">
+                      {baseRoleLabels[selectedRole.base_role]}
+                      {selectedRole.is_system && ' (built-in)'}
+                    </p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role-description">Description</Label>
+                  <Textarea
+                    id="role-description"
+                    rows={2}
+                    value={draft.description}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+                  />
+                </div>
+
+                {Object.entries(permissionGroups).map(([group, permissions]) => (
+                  <div key={group} className="space-y-2">
+                    <Label>{group}</Label>
+                    {permissions.map((permission) => (
+                      <label key={permission.key} className="flex items-start gap-3 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4"
+                          checked={draft.permissions.includes(permission.key)}
+                          onChange={() => togglePermission(permission.key)}
+                        />
+                        <span>
+                          <span className="font-medium">{permission.description}</span>
+                          <span className="block text-muted-foreground font-mono text-xs">{permission.key}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+
+                <div className="flex justify-between">
+                  {!selectedRole.is_system ? (
+                    <Button variant="outline" disabled={saving} onClick={handleDelete}>
+                      <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                      Delete Role
+                    </Button>
+                  ) : (
+                    <span />
+                  )}
+                  <Button disabled={saving || draft.name.trim().length < 2} onClick={handleSave}>
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save Changes
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
@@ -38,9 +39,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { testApi, userApi } from '@/lib/apiServices';
+import { TestRunHistory } from '@/components/TestRunHistory';
+import { TestStepList } from '@/components/TestSteps';
+import { ExportMenu } from '@/components/ExportMenu';
+import { testApi, userApi, suiteApi } from '@/lib/apiClient';
+import { jamLinkField, showServerErrors, textField } from '@/lib/validations';
+import { FIELDS, MAX_TEST_STEPS } from 'qualitysync-shared';
 import { z } from 'zod';
-import type { TestCase, TestStatus, QATester, Pagination } from '@/types';
+import type { TestCase, TestStatus, TestOrigin, QATester, Pagination, TestSuite } from '@/types';
 import {
   Plus,
   CheckCircle2,
@@ -52,14 +58,33 @@ import {
   ChevronLeft,
   ChevronRight,
   ClipboardList,
+  ChevronDown,
+  ChevronUp,
+  User,
+  Calendar,
+  Trash2,
+  Wrench,
+  RotateCcw,
+  Upload,
+  Bot,
+  Hand,
 } from 'lucide-react';
 
 const createTestSchema = z.object({
-  module_platform: z.string().min(1, 'Module/Platform is required'),
-  test_case: z.string().min(5, 'Test case must be at least 5 characters'),
-  expected_result: z.string().min(5, 'Expected result must be at least 5 characters'),
-  evidence_url: z.string().url().optional().or(z.literal('')),
+  module_platform: textField(FIELDS.modulePlatform, { required: true }),
+  test_case: textField(FIELDS.testCase, { required: true }),
+  expected_result: textField(FIELDS.expectedResult, { required: true }),
+  evidence_url: jamLinkField('Evidence URL').optional().or(z.literal('')),
   assigned_to: z.string().min(1, 'Please select a tester'),
+  steps: z
+    .array(
+      z.object({
+        action: textField(FIELDS.stepAction, { required: true }),
+        expected_result: textField(FIELDS.stepExpectedResult, { required: true }),
+        test_data: textField(FIELDS.stepTestData).optional(),
+      })
+    )
+    .max(MAX_TEST_STEPS, `A test case can have at most ${MAX_TEST_STEPS} steps`),
 });
 
 type CreateTestInput = z.infer<typeof createTestSchema>;
@@ -85,6 +110,16 @@ const statusConfig: Record<TestStatus, { label: string; variant: 'default' | 'se
     variant: 'warning',
     icon: <AlertTriangle className="h-3 w-3" />,
   },
+  in_fix: {
+    label: 'In Fix',
+    variant: 'secondary',
+    icon: <Wrench className="h-3 w-3" />,
+  },
+  ready_for_retest: {
+    label: 'Ready for Retest',
+    variant: 'default',
+    icon: <RotateCcw className="h-3 w-3" />,
+  },
 };
 
 export function TestList() {
@@ -95,8 +130,14 @@ export function TestList() {
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [suiteFilter, setSuiteFilter] = useState('all');
+  const [originFilter, setOriginFilter] = useState<TestOrigin | 'all'>('all');
+  const [suites, setSuites] = useState<TestSuite[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [expandedTestId, setExpandedTestId] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const linkedTestId = searchParams.get('test');
 
   const form = useForm<CreateTestInput>({
     resolver: zodResolver(createTestSchema),
@@ -106,24 +147,38 @@ export function TestList() {
       expected_result: '',
       evidence_url: '',
       assigned_to: '',
+      steps: [],
     },
   });
 
+  const stepFields = useFieldArray({
+    control: form.control,
+    name: 'steps',
+  });
+
   useEffect(() => {
     fetchData();
-  }, [currentPage, searchQuery]);
+  }, [currentPage, searchQuery, suiteFilter, originFilter]);
+
+  // Open the test case linked from a notification
+  useEffect(() => {
+    if (linkedTestId) setExpandedTestId(linkedTestId);
+  }, [linkedTestId]);
 
   const fetchData = async () => {
     setLoading(true);
     setError(null);
     try {
-      const [testsRes, testersRes] = await Promise.allSettled([
+      const [testsRes, testersRes, suitesRes] = await Promise.allSettled([
         testApi.getAll({
           page: currentPage,
           limit: 10,
           search: searchQuery || undefined,
+          suite_id: suiteFilter !== 'all' ? suiteFilter : undefined,
+          origin: originFilter !== 'all' ? originFilter : undefined,
         }),
         userApi.getQATesters(),
+        suiteApi.getAll(),
       ]);
 
       // Handle tests
@@ -141,6 +196,13 @@ export function TestList() {
       } else {
         setQaTesters([]);
       }
+
+      // Handle suites
+      if (suitesRes.status === 'fulfilled') {
+        setSuites(suitesRes.value.data.suites);
+      } else {
+        setSuites([]);
+      }
     } catch (err) {
       setError('Failed to load tests');
       console.error(err);
@@ -158,6 +220,11 @@ export function TestList() {
         expected_result: data.expected_result,
         evidence_url: data.evidence_url || undefined,
         assigned_to: data.assigned_to,
+        steps: data.steps.map((step) => ({
+          action: step.action,
+          expected_result: step.expected_result,
+          test_data: step.test_data || undefined,
+        })),
       });
 
       await fetchData();
@@ -165,11 +232,16 @@ export function TestList() {
       form.reset();
     } catch (err) {
       console.error('Failed to create test:', err);
+      showServerErrors(form, err);
     } finally {
       setSubmitting(false);
     }
   };
 
+  const toggleRowExpand = (testId: string) => {
+    setExpandedTestId(expandedTestId === testId ? null : testId);
+  };
+
   const handleSearch = (value: string) => {
     setSearchQuery(value);
     setCurrentPage(1);
@@ -204,123 +276,213 @@ export function TestList() {
           </p>
         </div>
 
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Test
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[550px]">
-            <DialogHeader>
-              <DialogTitle>Create New Test Case</DialogTitle>
-              <DialogDescription>
-                Add a new test case to the master list. All fields are required.
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="module_platform"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Module/Platform *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="e.g., Authentication, Dashboard, Mobile App" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="test_case"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Test Case *</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="Describe what this test case should verify..."
-                          className="min-h-[80px]"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="expected_result"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Expected Result *</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="What is the expected outcome when this test passes..."
-                          className="min-h-[80px]"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="evidence_url"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Evidence URL (Jam.dev link)</FormLabel>
-                      <FormControl>
-                        <Input placeholder="https://jam.dev/..." {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="assigned_to"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Assigned To *</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+        <div className="flex items-center gap-2">
+          <ExportMenu
+            fileName="qualitysync-tests"
+            onExport={(format) =>
+              testApi.export({
+                format,
+                search: searchQuery || undefined,
+                suite_id: suiteFilter !== 'all' ? suiteFilter : undefined,
+                origin: originFilter !== 'all' ? originFilter : undefined,
+              })
+            }
+          />
+          <Button variant="outline" asChild>
+            <Link to="/pm/tests/import">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Link>
+          </Button>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Test
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Test Case</DialogTitle>
+                <DialogDescription>
+                  Add a new test case to the master list. All fields are required.
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="module_platform"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Module/Platform *</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select a QA tester" />
-                          </SelectTrigger>
+                          <Input placeholder="e.g., Authentication, Dashboard, Mobile App" {...field} />
                         </FormControl>
-                        <SelectContent>
-                          {qaTesters.map((tester) => (
-                            <SelectItem key={tester.id} value={tester.id}>
-                              {tester.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={submitting}>
-                    {submitting ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
-                      <Plus className="h-4 w-4 mr-2" />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="test_case"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Test Case *</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Describe what this test case should verify..."
+                            className="min-h-[80px]"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="expected_result"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expected Result *</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="What is the expected outcome when this test passes..."
+                            className="min-h-[80px]"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="evidence_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Evidence URL (Jam.dev link)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://jam.dev/..." {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="assigned_to"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Assigned To *</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a QA tester" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {qaTesters.map((tester) => (
+                              <SelectItem key={tester.id} value={tester.id}>
+                                {tester.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
                     )}
-                    Create Test
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Steps</FormLabel>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => stepFields.append({ action: '', expected_result: '', test_data: '' })}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add Step
+                      </Button>
+                    </div>
+                    {stepFields.fields.length === 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Break multi-step flows into ordered steps so QA can record which one failed.
+                      </p>
+                    )}
+                    {stepFields.fields.map((stepField, index) => (
+                      <div key={stepField.id} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">Step {index + 1}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => stepFields.remove(index)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.action`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Action, e.g., Click 'Checkout'" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.expected_result`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Expected result" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.test_data`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Test data (optional)" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={submitting}>
+                      {submitting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Plus className="h-4 w-4 mr-2" />
+                      )}
+                      Create Test
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Search */}
@@ -331,6 +493,41 @@ export function TestList() {
           onChange={(e) => handleSearch(e.target.value)}
           className="max-w-md"
         />
+        <Select
+          value={suiteFilter}
+          onValueChange={(value) => {
+            setSuiteFilter(value);
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="All suites" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All suites</SelectItem>
+            {suites.map((suite) => (
+              <SelectItem key={suite.id} value={suite.id}>
+                {suite.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={originFilter}
+          onValueChange={(value) => {
+            setOriginFilter(value as TestOrigin | 'all');
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="All origins" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All origins</SelectItem>
+            <SelectItem value="manual">Manual</SelectItem>
+            <SelectItem value="automated">Automated</SelectItem>
+          </SelectContent>
+        </Select>
         <span className="text-sm text-muted-foreground">
           {pagination?.total || 0} test{pagination?.total !== 1 ? 's' : ''}
         </span>
@@ -341,6 +538,7 @@ export function TestList() {
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]"></TableHead>
               <TableHead className="w-[140px]">Module/Platform</TableHead>
               <TableHead className="w-[250px]">Test Case</TableHead>
               <TableHead className="w-[200px]">Expected Result</TableHead>
@@ -353,7 +551,7 @@ export function TestList() {
           <TableBody>
             {tests.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-64">
+                <TableCell colSpan={8} className="h-64">
                   <div className="flex flex-col items-center justify-center text-center">
                     <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mb-4">
                       <ClipboardList className="h-8 w-8 text-muted-foreground" />
@@ -372,49 +570,139 @@ export function TestList() {
             ) : (
               tests.map((test) => {
                 const status = statusConfig[test.status];
+                const isExpanded = expandedTestId === test.id;
                 return (
-                  <TableRow key={test.id}>
-                    <TableCell>
-                      <Badge variant="outline" className="font-medium">
-                        {test.module_platform}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <p className="text-sm font-medium line-clamp-2">{test.test_case}</p>
-                    </TableCell>
-                    <TableCell>
-                      <p className="text-sm text-muted-foreground line-clamp-2">
-                        {test.expected_result}
-                      </p>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={status.variant} className="gap-1">
-                        {status.icon}
-                        {status.label}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-sm">{test.assignee?.name || 'Unassigned'}</span>
-                    </TableCell>
-                    <TableCell>
-                      {test.evidence_url ? (
-                        <a
-                          href={test.evidence_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                  <React.Fragment key={test.id}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-muted/50 transition-colors"
+                      onClick={() => toggleRowExpand(test.id)}
+                    >
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleRowExpand(test.id);
+                          }}
                         >
-                          View
-                          <ExternalLink className="h-3 w-3" />
-                        </a>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {format(new Date(test.updated_at), 'MMM d, yyyy')}
-                    </TableCell>
-                  </TableRow>
+                          {isExpanded ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-medium">
+                          {test.module_platform}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm font-medium line-clamp-2">{test.test_case}</p>
+                        <Badge variant="outline" className="mt-1 gap-1 text-xs font-normal text-muted-foreground">
+                          {test.origin === 'automated' ? <Bot className="h-3 w-3" /> : <Hand className="h-3 w-3" />}
+                          {test.origin === 'automated' ? 'Automated' : 'Manual'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {test.expected_result}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant} className="gap-1">
+                          {status.icon}
+                          {status.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm">{test.assignee?.name || 'Unassigned'}</span>
+                      </TableCell>
+                      <TableCell>
+                        {test.evidence_url ? (
+                          <a
+                            href={test.evidence_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            View
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {format(new Date(test.updated_at), 'MMM d, yyyy')}
+                      </TableCell>
+                    </TableRow>
+                    {/* Expanded Test Detail Row */}
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={8} className="bg-muted/30 p-0">
+                          <div className="p-6 border-l-4 border-primary">
+                            <div className="grid md:grid-cols-2 gap-6">
+                              {/* Left Column - Test Details */}
+                              <div className="space-y-4">
+                                <div>
+                                  <span className="text-sm font-medium">Test Case</span>
+                                  <p className="text-sm text-muted-foreground mt-1">{test.test_case}</p>
+                                </div>
+                                <div>
+                                  <span className="text-sm font-medium">Expected Result</span>
+                                  <p className="text-sm text-muted-foreground mt-1">{test.expected_result}</p>
+                                </div>
+                                {test.steps && test.steps.length > 0 && <TestStepList steps={test.steps} />}
+                                {test.suites && test.suites.length > 0 && (
+                                  <div>
+                                    <span className="text-sm font-medium">Suites</span>
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                      {test.suites.map((suite) => (
+                                        <Badge key={suite.id} variant="outline">{suite.name}</Badge>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+                                {test.external_key && (
+                                  <div>
+                                    <span className="text-sm font-medium">Automation Key</span>
+                                    <p className="text-sm text-muted-foreground mt-1 font-mono break-all">{test.external_key}</p>
+                                  </div>
+                                )}
+                                {test.notes && (
+                                  <div>
+                                    <span className="text-sm font-medium">Latest Notes</span>
+                                    <p className="text-sm text-muted-foreground mt-1">{test.notes}</p>
+                                  </div>
+                                )}
+                                <div className="flex flex-wrap gap-4 pt-2 text-sm">
+                                  <div className="flex items-center gap-2">
+                                    <User className="h-4 w-4 text-muted-foreground" />
+                                    <span className="text-muted-foreground">Created by:</span>
+                                    <span className="font-medium">{test.creator?.name || 'Unknown'}</span>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                                    <span className="text-muted-foreground">Created:</span>
+                                    <span className="font-medium">
+                                      {format(new Date(test.created_at), 'PPP')}
+                                    </span>
+                                  </div>
+                                </div>
+                              </div>
+
+                              {/* Right Column - Run History */}
+                              <TestRunHistory testId={test.id} updatedAt={test.updated_at} />
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
                 );
               })
             )}
@@ -0,0 +1,724 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { planApi, suiteApi, testApi } from '@/lib/apiClient';
+import { showServerErrors, textField } from '@/lib/validations';
+import { FIELDS } from 'qualitysync-shared';
+import { z } from 'zod';
+import type { TestCase, TestPlan, TestSuite } from '@/types';
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  Loader2,
+  AlertOctagon,
+  CheckCircle2,
+  RotateCcw,
+  Layers,
+  ListChecks,
+  Search,
+} from 'lucide-react';
+
+const suiteSchema = z.object({
+  name: textField(FIELDS.suiteName, { required: true }),
+  description: textField(FIELDS.suiteDescription).optional(),
+  test_case_ids: z.array(z.string()),
+});
+
+type SuiteInput = z.infer<typeof suiteSchema>;
+
+const planSchema = z.object({
+  name: textField(FIELDS.planName, { required: true }),
+  release: textField(FIELDS.release, { required: true }),
+  suite_id: z.string().min(1, 'Please select a suite'),
+  start_date: z.string().optional(),
+  due_date: z.string().optional(),
+});
+
+type PlanInput = z.infer<typeof planSchema>;
+
+type DeleteTarget = { type: 'suite' | 'plan'; id: string; name: string };
+
+export function TestPlans() {
+  const [plans, setPlans] = useState<TestPlan[]>([]);
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [tests, setTests] = useState<TestCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
+  const [suiteDialogOpen, setSuiteDialogOpen] = useState(false);
+  const [editingSuite, setEditingSuite] = useState<TestSuite | null>(null);
+  const [testFilter, setTestFilter] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+
+  const suiteForm = useForm<SuiteInput>({
+    resolver: zodResolver(suiteSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      test_case_ids: [],
+    },
+  });
+
+  const planForm = useForm<PlanInput>({
+    resolver: zodResolver(planSchema),
+    defaultValues: {
+      name: '',
+      release: '',
+      suite_id: '',
+      start_date: '',
+      due_date: '',
+    },
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [plansRes, suitesRes, testsRes] = await Promise.all([
+        planApi.getAll(),
+        suiteApi.getAll(),
+        testApi.getAll({ limit: 100 }),
+      ]);
+      setPlans(plansRes.data.plans);
+      setSuites(suitesRes.data.suites);
+      setTests(testsRes.data.tests);
+    } catch (err) {
+      setError('Failed to load test plans');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getErrorMessage = (err: unknown, fallback: string) => {
+    const error = err as { response?: { data?: { message?: string } } };
+    return error.response?.data?.message || fallback;
+  };
+
+  const openCreateSuiteDialog = () => {
+    setEditingSuite(null);
+    setFormError(null);
+    setTestFilter('');
+    suiteForm.reset({ name: '', description: '', test_case_ids: [] });
+    setSuiteDialogOpen(true);
+  };
+
+  const openEditSuiteDialog = async (suite: TestSuite) => {
+    setEditingSuite(suite);
+    setFormError(null);
+    setTestFilter('');
+    try {
+      const response = await suiteApi.getById(suite.id);
+      suiteForm.reset({
+        name: suite.name,
+        description: suite.description || '',
+        test_case_ids: (response.data.suite.test_cases || []).map((test) => test.id),
+      });
+      setSuiteDialogOpen(true);
+    } catch (err) {
+      console.error('Failed to load suite:', err);
+    }
+  };
+
+  const onSubmitSuite = async (data: SuiteInput) => {
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      const payload = {
+        name: data.name,
+        description: data.description || undefined,
+        test_case_ids: data.test_case_ids,
+      };
+      if (editingSuite) {
+        await suiteApi.update(editingSuite.id, payload);
+      } else {
+        await suiteApi.create(payload);
+      }
+
+      await fetchData();
+      setSuiteDialogOpen(false);
+      setEditingSuite(null);
+    } catch (err) {
+      console.error('Failed to save suite:', err);
+      if (!showServerErrors(suiteForm, err)) {
+        setFormError(getErrorMessage(err, 'Failed to save suite'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openCreatePlanDialog = () => {
+    setFormError(null);
+    planForm.reset({ name: '', release: '', suite_id: '', start_date: '', due_date: '' });
+    setPlanDialogOpen(true);
+  };
+
+  const onSubmitPlan = async (data: PlanInput) => {
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      await planApi.create({
+        name: data.name,
+        release: data.release,
+        suite_id: data.suite_id,
+        start_date: data.start_date || undefined,
+        due_date: data.due_date || undefined,
+      });
+
+      await fetchData();
+      setPlanDialogOpen(false);
+    } catch (err) {
+      console.error('Failed to create plan:', err);
+      if (!showServerErrors(planForm, err)) {
+        setFormError(getErrorMessage(err, 'Failed to create plan'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const togglePlanStatus = async (plan: TestPlan) => {
+    try {
+      await planApi.update(plan.id, {
+        status: plan.status === 'active' ? 'completed' : 'active',
+      });
+      await fetchData();
+    } catch (err) {
+      console.error('Failed to update plan:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setSubmitting(true);
+    try {
+      if (deleteTarget.type === 'suite') {
+        await suiteApi.delete(deleteTarget.id);
+      } else {
+        await planApi.delete(deleteTarget.id);
+      }
+      await fetchData();
+      setDeleteTarget(null);
+    } catch (err) {
+      console.error('Failed to delete:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const filteredTests = tests.filter(
+    (test) =>
+      test.test_case.toLowerCase().includes(testFilter.toLowerCase()) ||
+      test.module_platform.toLowerCase().includes(testFilter.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <AlertOctagon className="h-12 w-12 text-destructive" />
+        <p className="text-destructive">{error}</p>
+        <Button onClick={fetchData}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Test Plans</h1>
+        <p className="text-muted-foreground mt-1">
+          Group test cases into suites and schedule them against releases
+        </p>
+      </div>
+
+      <Tabs defaultValue="plans">
+        <TabsList>
+          <TabsTrigger value="plans">
+            <ListChecks className="h-4 w-4 mr-1" />
+            Plans ({plans.length})
+          </TabsTrigger>
+          <TabsTrigger value="suites">
+            <Layers className="h-4 w-4 mr-1" />
+            Suites ({suites.length})
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Plans Tab */}
+        <TabsContent value="plans" className="mt-4 space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={openCreatePlanDialog} disabled={suites.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Plan
+            </Button>
+          </div>
+
+          {plans.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                {suites.length === 0
+                  ? 'Create a suite first, then schedule it against a release.'
+                  : 'No test plans yet.'}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Release</TableHead>
+                    <TableHead>Suite</TableHead>
+                    <TableHead className="w-[220px]">Progress</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => {
+                    const { total_tests, passed_tests, failed_tests, pending_tests } = plan.progress;
+                    const executed = total_tests - pending_tests;
+                    const passRate = total_tests > 0 ? Math.round((passed_tests / total_tests) * 100) : 0;
+                    return (
+                      <TableRow key={plan.id}>
+                        <TableCell className="font-medium">{plan.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{plan.release}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {plan.suite?.name || 'Deleted suite'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-green-500 transition-all"
+                              style={{ width: `${passRate}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {executed}/{total_tests} run · {passed_tests} passed · {failed_tests} failed
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {plan.due_date ? format(new Date(plan.due_date), 'MMM d, yyyy') : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={plan.status === 'active' ? 'default' : 'success'}>
+                            {plan.status === 'active' ? 'Active' : 'Completed'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title={plan.status === 'active' ? 'Mark completed' : 'Reopen'}
+                              onClick={() => togglePlanStatus(plan)}
+                            >
+                              {plan.status === 'active' ? (
+                                <CheckCircle2 className="h-4 w-4" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => setDeleteTarget({ type: 'plan', id: plan.id, name: plan.name })}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+
+        {/* Suites Tab */}
+        <TabsContent value="suites" className="mt-4 space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={openCreateSuiteDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Suite
+            </Button>
+          </div>
+
+          {suites.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                No test suites yet.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Suite</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Tests</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suites.map((suite) => (
+                    <TableRow key={suite.id}>
+                      <TableCell className="font-medium">{suite.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        <p className="line-clamp-2">{suite.description || '-'}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{suite.test_count}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(new Date(suite.updated_at), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => openEditSuiteDialog(suite)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => setDeleteTarget({ type: 'suite', id: suite.id, name: suite.name })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Create Plan Dialog */}
+      <Dialog open={planDialogOpen} onOpenChange={setPlanDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>New Test Plan</DialogTitle>
+            <DialogDescription>
+              The plan captures the suite's current test cases. Later suite changes won't affect it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {formError && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+              {formError}
+            </div>
+          )}
+
+          <Form {...planForm}>
+            <form onSubmit={planForm.handleSubmit(onSubmitPlan)} className="space-y-4">
+              <FormField
+                control={planForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plan Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Regression - Checkout" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={planForm.control}
+                name="release"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Release</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., v2.4.0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={planForm.control}
+                name="suite_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Suite</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a suite" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {suites.map((suite) => (
+                          <SelectItem key={suite.id} value={suite.id}>
+                            {suite.name} ({suite.test_count} tests)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={planForm.control}
+                  name="start_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={planForm.control}
+                  name="due_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Due Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setPlanDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  Create Plan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create/Edit Suite Dialog */}
+      <Dialog open={suiteDialogOpen} onOpenChange={setSuiteDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingSuite ? 'Edit Suite' : 'New Suite'}</DialogTitle>
+            <DialogDescription>
+              A suite is a reusable group of test cases.
+            </DialogDescription>
+          </DialogHeader>
+
+          {formError && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+              {formError}
+            </div>
+          )}
+
+          <Form {...suiteForm}>
+            <form onSubmit={suiteForm.handleSubmit(onSubmitSuite)} className="space-y-4">
+              <FormField
+                control={suiteForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Suite Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Checkout smoke tests" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={suiteForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="What does this suite cover?" className="min-h-[60px]" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={suiteForm.control}
+                name="test_case_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Test Cases</FormLabel>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="Filter tests..."
+                        value={testFilter}
+                        onChange={(e) => setTestFilter(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    <div className="max-h-[240px] overflow-y-auto border rounded-md divide-y">
+                      {filteredTests.length === 0 ? (
+                        <p className="p-3 text-sm text-muted-foreground">No test cases found</p>
+                      ) : (
+                        filteredTests.map((test) => {
+                          const checked = field.value.includes(test.id);
+                          return (
+                            <label
+                              key={test.id}
+                              className="flex items-start gap-3 p-2 text-sm cursor-pointer hover:bg-muted/50"
+                            >
+                              <input
+                                type="checkbox"
+                                className="mt-1 h-4 w-4"
+                                checked={checked}
+                                onChange={() =>
+                                  field.onChange(
+                                    checked
+                                      ? field.value.filter((id) => id !== test.id)
+                                      : [...field.value, test.id]
+                                  )
+                                }
+                              />
+                              <span className="flex-1">
+                                <Badge variant="outline" className="mr-2">{test.module_platform}</Badge>
+                                {test.test_case}
+                              </span>
+                            </label>
+                          );
+                        })
+                      )}
+                    </div>
+                    <FormDescription>
+                      {field.value.length} test{field.value.length !== 1 ? 's' : ''} selected
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setSuiteDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingSuite ? 'Save Suite' : 'Create Suite'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Delete {deleteTarget?.type === 'suite' ? 'Suite' : 'Plan'}</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deleteTarget?.name}?
+              {deleteTarget?.type === 'suite'
+                ? ' Plans created from it keep their test cases.'
+                : ' Its recorded progress will be lost.'}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={submitting}
+            >
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -39,9 +39,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { userApi } from '@/lib/apiServices';
+import { ApiTokenManager } from '@/components/ApiTokenManager';
+import { LoginHistory } from '@/components/LoginHistory';
+import { useProject } from '@/contexts/project';
+import { userApi, invitationApi, projectApi } from '@/lib/apiClient';
+import { emailField, showServerErrors, textField } from '@/lib/validations';
+import { FIELDS, USER_ROLES } from 'qualitysync-shared';
 import { z } from 'zod';
-import type { UserRole, Pagination } from '@/types';
+import type { UserRole, UserAccount, Pagination, Invitation, Project } from '@/types';
 import {
   Plus,
   Search,
@@ -56,26 +61,36 @@ import {
   ChevronLeft,
   ChevronRight,
   Users,
+  Bot,
+  KeyRound,
+  Mail,
+  Send,
+  Ban,
+  History,
+  Lock,
+  LockOpen,
 } from 'lucide-react';
 
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  role: UserRole;
-  is_verified: boolean;
-  created_at: string;
-}
-
 const createUserSchema = z.object({
-  email: z.string().email('Please enter a valid email'),
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  role: z.enum(['PM', 'QA', 'ENG']),
-  password: z.string().min(8, 'Password must be at least 8 characters').optional().or(z.literal('')),
+  email: emailField,
+  name: textField(FIELDS.personName, { required: true }),
+  role: z.enum(USER_ROLES),
+  account_type: z.enum(['person', 'service']),
+  project_id: z.string(),
 });
 
+// Select value for adding the user to no project
+const NO_PROJECT = 'none';
+
 type CreateUserInput = z.infer<typeof createUserSchema>;
 
+const errorMessage = (err: unknown, fallback: string) => {
+  const error = err as { response?: { data?: { message?: string } } };
+  return error.response?.data?.message || fallback;
+};
+
+const isLocked = (user: UserAccount) => Boolean(user.locked_until && new Date(user.locked_until) > new Date());
+
 const roleConfig: Record<UserRole, { label: string; icon: React.ReactNode; color: string }> = {
   PM: {
     label: 'Product Manager',
@@ -95,19 +110,28 @@ const roleConfig: Record<UserRole, { label: string; icon: React.ReactNode; color
 };
 
 export function UserManagement() {
-  const [users, setUsers] = useState<UserData[]>([]);
+  const { currentProject } = useProject();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
   const [pagination, setPagination] = useState<Pagination | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [userToDelete, setUserToDelete] = useState<UserData | null>(null);
+  const [userToDelete, setUserToDelete] = useState<UserAccount | null>(null);
+  const [tokenAccount, setTokenAccount] = useState<UserAccount | null>(null);
+  const [historyUser, setHistoryUser] = useState<UserAccount | null>(null);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [roleFilter, setRoleFilter] = useState<string>('all');
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
   const [submitting, setSubmitting] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [createError, setCreateError] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
+  const [busyInvitationId, setBusyInvitationId] = useState<string | null>(null);
 
   const form = useForm<CreateUserInput>({
     resolver: zodResolver(createUserSchema),
@@ -115,14 +139,25 @@ export function UserManagement() {
       email: '',
       name: '',
       role: 'QA',
-      password: '',
+      account_type: 'person',
+      project_id: currentProject?.id ?? NO_PROJECT,
     },
   });
 
+  const isServiceAccount = form.watch('account_type') === 'service';
+
   useEffect(() => {
     fetchUsers();
   }, [currentPage, searchQuery, roleFilter]);
 
+  useEffect(() => {
+    fetchInvitations();
+    projectApi
+      .getAll()
+      .then((response) => setProjects(response.data.projects))
+      .catch((err) => console.error('Failed to load projects:', err));
+  }, []);
+
   const fetchUsers = async () => {
     setLoading(true);
     setError(null);
@@ -143,24 +178,45 @@ export function UserManagement() {
     }
   };
 
+  const fetchInvitations = async () => {
+    try {
+      const response = await invitationApi.getAll();
+      setInvitations(response.data.invitations);
+    } catch (err) {
+      console.error('Failed to load invitations:', err);
+      setInvitationError(errorMessage(err, 'Failed to load invitations'));
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 5000);
+  };
+
   const onSubmit = async (data: CreateUserInput) => {
     setSubmitting(true);
     setCreateError(null);
     try {
-      await userApi.create({
-        email: data.email,
-        name: data.name,
-        role: data.role,
-        password: data.password || undefined,
-      });
+      const { email, name, role } = data;
+      const project_id = data.project_id !== NO_PROJECT ? data.project_id : undefined;
+      if (data.account_type === 'service') {
+        await userApi.create({ email, name, role, is_service_account: true, project_id });
+        await fetchUsers();
+        showSuccess(`Service account "${name}" created. Create an API token for it with the key button.`);
+      } else {
+        const response = await invitationApi.create({ email, name, role, project_id });
+        await fetchInvitations();
+        showSuccess(response.message);
+      }
 
-      await fetchUsers();
       setDialogOpen(false);
       form.reset();
-      setSuccessMessage(`User "${data.name}" created successfully! They can now log in.`);
-      setTimeout(() => setSuccessMessage(null), 5000);
     } catch (err: unknown) {
       console.error('Failed to create user:', err);
+      // Invalid fields are shown on the form itself
+      if (showServerErrors(form, err)) {
+        return;
+      }
       const error = err as {
         response?: {
           data?: { message?: string; errors?: Array<{ field: string; message: string }> };
@@ -191,6 +247,50 @@ export function UserManagement() {
     }
   };
 
+  const handleResendInvitation = async (invitation: Invitation) => {
+    setBusyInvitationId(invitation.id);
+    setInvitationError(null);
+    try {
+      const response = await invitationApi.resend(invitation.id);
+      setInvitations((prev) => prev.map((i) => (i.id === invitation.id ? response.data.invitation : i)));
+      showSuccess(response.message);
+    } catch (err) {
+      console.error('Failed to resend invitation:', err);
+      setInvitationError(errorMessage(err, 'Failed to resend invitation'));
+    } finally {
+      setBusyInvitationId(null);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    setBusyInvitationId(invitation.id);
+    setInvitationError(null);
+    try {
+      await invitationApi.revoke(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error('Failed to revoke invitation:', err);
+      setInvitationError(errorMessage(err, 'Failed to revoke invitation'));
+    } finally {
+      setBusyInvitationId(null);
+    }
+  };
+
+  const handleUnlock = async (user: UserAccount) => {
+    setUnlockingId(user.id);
+    setActionError(null);
+    try {
+      const response = await userApi.unlock(user.id);
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, locked_until: null } : u)));
+      showSuccess(response.message);
+    } catch (err) {
+      console.error('Failed to unlock user:', err);
+      setActionError(errorMessage(err, 'Failed to unlock user'));
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
   const handleDelete = async () => {
     if (!userToDelete) return;
 
@@ -213,7 +313,7 @@ export function UserManagement() {
   };
 
   const handleRoleFilter = (value: string) => {
-    setRoleFilter(value);
+    setRoleFilter(value as UserRole | 'all');
     setCurrentPage(1);
   };
 
@@ -265,7 +365,7 @@ export function UserManagement() {
             <DialogHeader>
               <DialogTitle>Add New User</DialogTitle>
               <DialogDescription>
-                Create a new user account. They can log in immediately after creation.
+                People get an email invitation to choose their own password.
               </DialogDescription>
             </DialogHeader>
 
@@ -303,6 +403,35 @@ export function UserManagement() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="account_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Type</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="person">Person</SelectItem>
+                          <SelectItem value="service">
+                            <div className="flex items-center gap-2">
+                              <Bot className="h-4 w-4" />
+                              Service account
+                            </div>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Service accounts cannot sign in and only use the API with tokens.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="role"
@@ -342,15 +471,27 @@ export function UserManagement() {
                 />
                 <FormField
                   control={form.control}
-                  name="password"
+                  name="project_id"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Password (Optional)</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="Leave empty to auto-generate" {...field} />
-                      </FormControl>
+                      <FormLabel>Project</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                          {projects.map((project) => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormDescription>
-                        If left empty, a temporary password will be generated.
+                        Joins the project with the role above. Add them to more projects on the Projects page.
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -363,10 +504,12 @@ export function UserManagement() {
                   <Button type="submit" disabled={submitting}>
                     {submitting ? (
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
+                    ) : isServiceAccount ? (
                       <Plus className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Mail className="h-4 w-4 mr-2" />
                     )}
-                    Add User
+                    {isServiceAccount ? 'Create Account' : 'Send Invitation'}
                   </Button>
                 </DialogFooter>
               </form>
@@ -383,6 +526,13 @@ export function UserManagement() {
         </div>
       )}
 
+      {actionError && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-lg flex items-center gap-2">
+          <AlertOctagon className="h-5 w-5" />
+          {actionError}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -431,6 +581,96 @@ export function UserManagement() {
         </Card>
       </div>
 
+      {/* Pending Invitations */}
+      {(invitations.length > 0 || invitationError) && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Mail className="h-4 w-4" />
+              Pending Invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {invitationError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                {invitationError}
+              </div>
+            )}
+            {invitations.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Invited By</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="w-[200px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => {
+                    const role = roleConfig[invitation.role];
+                    const busy = busyInvitationId === invitation.id;
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{invitation.email}</TableCell>
+                        <TableCell>
+                          <Badge className={`gap-1 ${role.color}`}>
+                            {role.icon}
+                            {role.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {invitation.project?.name || '—'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {invitation.inviter?.name || '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {invitation.expired ? (
+                            <Badge variant="secondary">Expired</Badge>
+                          ) : (
+                            <span className="text-muted-foreground" title={format(new Date(invitation.expires_at), 'PPpp')}>
+                              {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleResendInvitation(invitation)}
+                              disabled={busy}
+                            >
+                              {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                              Resend
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => handleRevokeInvitation(invitation)}
+                              disabled={busy}
+                            >
+                              <Ban className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1 max-w-md">
@@ -465,7 +705,7 @@ export function UserManagement() {
               <TableHead>Role</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Created</TableHead>
-              <TableHead className="w-[80px]">Actions</TableHead>
+              <TableHead className="w-[120px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -480,7 +720,17 @@ export function UserManagement() {
                 const role = roleConfig[user.role];
                 return (
                   <TableRow key={user.id}>
-                    <TableCell className="font-medium">{user.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {user.name}
+                        {user.is_service_account && (
+                          <Badge variant="outline" className="gap-1 font-normal">
+                            <Bot className="h-3 w-3" />
+                            Service account
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-muted-foreground">{user.email}</TableCell>
                     <TableCell>
                       <Badge className={`gap-1 ${role.color}`}>
@@ -489,7 +739,16 @@ export function UserManagement() {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      {user.is_verified ? (
+                      {isLocked(user) ? (
+                        <Badge
+                          variant="destructive"
+                          className="gap-1"
+                          title={`Locked until ${format(new Date(user.locked_until!), 'PPpp')}`}
+                        >
+                          <Lock className="h-3 w-3" />
+                          Locked
+                        </Badge>
+                      ) : user.is_verified ? (
                         <Badge variant="success" className="gap-1">
                           <CheckCircle2 className="h-3 w-3" />
                           Verified
@@ -505,17 +764,57 @@ export function UserManagement() {
                       {format(new Date(user.created_at), 'MMM d, yyyy')}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                        onClick={() => {
-                          setUserToDelete(user);
-                          setDeleteDialogOpen(true);
-                        }}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        {isLocked(user) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Unlock account"
+                            onClick={() => handleUnlock(user)}
+                            disabled={unlockingId === user.id}
+                          >
+                            {unlockingId === user.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <LockOpen className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                        {!user.is_service_account && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Sign-in history"
+                            onClick={() => setHistoryUser(user)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {user.is_service_account && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="API tokens"
+                            onClick={() => setTokenAccount(user)}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => {
+                            setUserToDelete(user);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 );
@@ -554,6 +853,32 @@ export function UserManagement() {
         </div>
       )}
 
+      {/* Service Account Tokens Dialog */}
+      <Dialog open={tokenAccount !== null} onOpenChange={(open) => !open && setTokenAccount(null)}>
+        <DialogContent className="sm:max-w-[900px]">
+          <DialogHeader>
+            <DialogTitle>API tokens for {tokenAccount?.name}</DialogTitle>
+            <DialogDescription>
+              Tokens this service account uses to call the API, e.g. to upload CI test results.
+            </DialogDescription>
+          </DialogHeader>
+          {tokenAccount && <ApiTokenManager userId={tokenAccount.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Sign-in History Dialog */}
+      <Dialog open={historyUser !== null} onOpenChange={(open) => !open && setHistoryUser(null)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>Sign-in history for {historyUser?.name}</DialogTitle>
+            <DialogDescription>
+              Recent sign-ins and failed attempts, with the device and IP address they came from.
+            </DialogDescription>
+          </DialogHeader>
+          {historyUser && <LoginHistory userId={historyUser.id} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[400px]">
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
@@ -25,7 +26,14 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
-import { testApi } from '@/lib/apiServices';
+import { TestRunHistory } from '@/components/TestRunHistory';
+import { CommentThread } from '@/components/CommentThread';
+import { TestStepList, TestStepChecklist, type StepOutcome } from '@/components/TestSteps';
+import { testApi } from '@/lib/apiClient';
+import { removeById, upsertById, useRealtimeEvents } from '@/lib/realtime';
+import { deriveStatusFromSteps } from '@/lib/testSteps';
+import { jamLinkField, showServerErrors, textField } from '@/lib/validations';
+import { FIELDS, TEST_RESULT_STATUSES } from 'qualitysync-shared';
 import { z } from 'zod';
 import type { TestCase, TestStatus } from '@/types';
 import {
@@ -41,12 +49,18 @@ import {
   User,
   Calendar,
   Loader2,
+  Wrench,
+  RotateCcw,
 } from 'lucide-react';
 
 const updateTestResultSchema = z.object({
-  status: z.enum(['pass', 'fail', 'escalated']),
-  evidence_url: z.string().optional(),
-  notes: z.string().optional(),
+  status: z.enum(TEST_RESULT_STATUSES),
+  evidence_url: jamLinkField('Evidence URL').optional().or(z.literal('')),
+  notes: textField(FIELDS.resultNotes).optional(),
+  duration_minutes: z
+    .string()
+    .optional()
+    .refine((value) => !value || (!isNaN(Number(value)) && Number(value) >= 0), 'Duration must be a positive number'),
 });
 
 type UpdateTestResultInput = z.infer<typeof updateTestResultSchema>;
@@ -76,6 +90,18 @@ const statusConfig: Record<TestStatus, { label: string; variant: 'default' | 'se
     icon: <AlertOctagon className="h-4 w-4" />,
     color: 'bg-orange-500 hover:bg-orange-600 text-white',
   },
+  in_fix: {
+    label: 'In Fix',
+    variant: 'secondary',
+    icon: <Wrench className="h-4 w-4" />,
+    color: 'bg-blue-500 hover:bg-blue-600 text-white',
+  },
+  ready_for_retest: {
+    label: 'Ready for Retest',
+    variant: 'default',
+    icon: <RotateCcw className="h-4 w-4" />,
+    color: 'bg-primary hover:bg-primary/90 text-primary-foreground',
+  },
 };
 
 export function QAAssignments() {
@@ -86,7 +112,11 @@ export function QAAssignments() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedTestId, setExpandedTestId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('pending');
+  const [searchParams] = useSearchParams();
+  const linkedTestId = searchParams.get('test');
   const [submitting, setSubmitting] = useState(false);
+  const [stepOutcomes, setStepOutcomes] = useState<Record<string, StepOutcome>>({});
 
   const form = useForm<UpdateTestResultInput>({
     resolver: zodResolver(updateTestResultSchema),
@@ -94,6 +124,7 @@ export function QAAssignments() {
       status: 'pass',
       evidence_url: '',
       notes: '',
+      duration_minutes: '',
     },
   });
 
@@ -101,6 +132,16 @@ export function QAAssignments() {
     fetchTests();
   }, []);
 
+  // Open the test case linked from a notification on the tab it is listed under
+  useEffect(() => {
+    const linked = tests.find((test) => test.id === linkedTestId);
+    if (!linked) return;
+    setExpandedTestId(linked.id);
+    if (linked.status === 'pending') setActiveTab('pending');
+    else if (linked.status === 'ready_for_retest') setActiveTab('retest');
+    else setActiveTab('completed');
+  }, [linkedTestId, tests]);
+
   const fetchTests = async () => {
     setLoading(true);
     setError(null);
@@ -117,23 +158,47 @@ export function QAAssignments() {
 
   const openUpdateDialog = (test: TestCase) => {
     setSelectedTest(test);
+    // Each submission records a new run, so start from a blank result
     form.reset({
-      status: test.status === 'pending' ? 'pass' : test.status as 'pass' | 'fail' | 'escalated',
-      evidence_url: test.evidence_url || '',
-      notes: test.notes || '',
+      status: test.status === 'fail' || test.status === 'escalated' ? test.status : 'pass',
+      evidence_url: '',
+      notes: '',
+      duration_minutes: '',
     });
+    setStepOutcomes({});
     setDialogOpen(true);
   };
 
+  const selectedSteps = selectedTest?.steps || [];
+  const recordedStepStatuses = selectedSteps
+    .map((step) => stepOutcomes[step.id]?.status)
+    .filter((status) => status !== undefined);
+  const allStepsRecorded = recordedStepStatuses.length === selectedSteps.length;
+  // With steps, the overall result follows from the step outcomes
+  const derivedStatus = selectedSteps.length > 0 && allStepsRecorded
+    ? deriveStatusFromSteps(recordedStepStatuses)
+    : null;
+
   const onSubmit = async (data: UpdateTestResultInput) => {
     if (!selectedTest) return;
 
     setSubmitting(true);
     try {
       await testApi.updateResult(selectedTest.id, {
-        status: data.status,
         evidence_url: data.evidence_url || undefined,
         notes: data.notes || undefined,
+        duration_seconds: data.duration_minutes
+          ? Math.round(Number(data.duration_minutes) * 60)
+          : undefined,
+        ...(selectedSteps.length > 0
+          ? {
+              step_results: selectedSteps.map((step) => ({
+                step_id: step.id,
+                status: stepOutcomes[step.id].status!,
+                notes: stepOutcomes[step.id].notes || undefined,
+              })),
+            }
+          : { status: data.status }),
       });
 
       await fetchTests();
@@ -142,6 +207,7 @@ export function QAAssignments() {
       form.reset();
     } catch (err) {
       console.error('Failed to update test result:', err);
+      showServerErrors(form, err);
     } finally {
       setSubmitting(false);
     }
@@ -151,6 +217,15 @@ export function QAAssignments() {
     setExpandedTestId(expandedTestId === testId ? null : testId);
   };
 
+  // New assignments, reassignments and fixes from engineering show up live
+  useRealtimeEvents((event) => {
+    if (event.type === 'test.created' || event.type === 'test.updated') {
+      setTests((prev) => upsertById(prev, event.data));
+    } else if (event.type === 'test.deleted') {
+      setTests((prev) => removeById(prev, event.data.id));
+    }
+  });
+
   // Apply search filter
   const filteredTests = tests.filter(
     (test) =>
@@ -161,7 +236,8 @@ export function QAAssignments() {
   );
 
   const pendingTests = filteredTests.filter((t) => t.status === 'pending');
-  const completedTests = filteredTests.filter((t) => t.status === 'pass' || t.status === 'fail' || t.status === 'escalated');
+  const retestTests = filteredTests.filter((t) => t.status === 'ready_for_retest');
+  const completedTests = filteredTests.filter((t) => ['pass', 'fail', 'escalated', 'in_fix'].includes(t.status));
 
   if (loading) {
     return (
@@ -219,6 +295,20 @@ export function QAAssignments() {
             <p className="text-sm text-muted-foreground mt-1">{test.expected_result}</p>
           </div>
 
+          {/* Fix handed back by engineering */}
+          {test.status === 'ready_for_retest' && test.fix_reference && (
+            <div className="p-3 bg-primary/5 rounded-lg border border-primary/20">
+              <span className="text-xs font-medium text-muted-foreground">
+                Fixed by {test.fixer?.name || 'Unknown'}
+                {test.fixed_at && ` on ${format(new Date(test.fixed_at), 'MMM d, yyyy')}`}
+              </span>
+              <p className="text-sm mt-1 font-mono break-all">{test.fix_reference}</p>
+              {test.fix_notes && (
+                <p className="text-sm text-muted-foreground mt-1">{test.fix_notes}</p>
+              )}
+            </div>
+          )}
+
           {/* Show source bug info if this test was created from a bug */}
           {test.source_bug_id && test.source_bug && (
             <div className="p-3 bg-muted/50 rounded-lg border">
@@ -232,6 +322,9 @@ export function QAAssignments() {
           {/* Expandable Details Section */}
           {isExpanded && (
             <div className="border-t pt-4 mt-4 space-y-4">
+              {/* Steps */}
+              {test.steps && test.steps.length > 0 && <TestStepList steps={test.steps} />}
+
               {/* Evidence */}
               <div>
                 <span className="text-sm font-medium">Evidence:</span>
@@ -265,6 +358,12 @@ export function QAAssignments() {
                 </p>
               </div>
 
+              {/* Run History */}
+              <TestRunHistory testId={test.id} updatedAt={test.updated_at} />
+
+              {/* Discussion */}
+              <CommentThread testCaseId={test.id} />
+
               {/* Meta Information */}
               <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
                 <span className="flex items-center gap-1">
@@ -289,7 +388,11 @@ export function QAAssignments() {
             </span>
             <Button size="sm" onClick={() => openUpdateDialog(test)}>
               <Play className="h-3 w-3 mr-1" />
-              {test.status === 'pending' ? 'Start Test' : 'Update Result'}
+              {test.status === 'pending'
+                ? 'Start Test'
+                : test.status === 'ready_for_retest'
+                  ? 'Retest'
+                  : 'Re-run Test'}
             </Button>
           </div>
         </CardContent>
@@ -320,7 +423,7 @@ export function QAAssignments() {
       </div>
 
       {/* Stats */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -331,6 +434,16 @@ export function QAAssignments() {
             <div className="text-2xl font-bold">{pendingTests.length}</div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Ready for Retest
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{retestTests.length}</div>
+          </CardContent>
+        </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -354,11 +467,14 @@ export function QAAssignments() {
       </div>
 
       {/* Tabs */}
-      <Tabs defaultValue="pending">
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
           <TabsTrigger value="pending">
             Not Tested ({pendingTests.length})
           </TabsTrigger>
+          <TabsTrigger value="retest">
+            Ready for Retest ({retestTests.length})
+          </TabsTrigger>
           <TabsTrigger value="completed">
             Completed ({completedTests.length})
           </TabsTrigger>
@@ -380,6 +496,22 @@ export function QAAssignments() {
           )}
         </TabsContent>
 
+        <TabsContent value="retest" className="mt-4">
+          {retestTests.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nothing waiting for retest.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {retestTests.map((test) => (
+                <TestCard key={test.id} test={test} />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
         <TabsContent value="completed" className="mt-4">
           {completedTests.length === 0 ? (
             <Card>
@@ -399,9 +531,9 @@ export function QAAssignments() {
 
       {/* Update Result Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Update Test Result</DialogTitle>
+            <DialogTitle>Record Test Result</DialogTitle>
             <DialogDescription>
               {selectedTest?.test_case}
             </DialogDescription>
@@ -418,52 +550,99 @@ export function QAAssignments() {
                 <span className="font-medium">Expected: </span>
                 <span className="text-muted-foreground">{selectedTest.expected_result}</span>
               </div>
+              {selectedTest.status === 'ready_for_retest' && selectedTest.fix_reference && (
+                <div className="text-sm mt-1">
+                  <span className="font-medium">Fix: </span>
+                  <span className="text-muted-foreground font-mono break-all">{selectedTest.fix_reference}</span>
+                </div>
+              )}
             </div>
           )}
 
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {selectedSteps.length > 0 ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Steps</span>
+                    {derivedStatus ? (
+                      <Badge variant={statusConfig[derivedStatus].variant} className="gap-1">
+                        {statusConfig[derivedStatus].icon}
+                        {statusConfig[derivedStatus].label}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {recordedStepStatuses.length} of {selectedSteps.length} steps recorded
+                      </span>
+                    )}
+                  </div>
+                  <TestStepChecklist
+                    steps={selectedSteps}
+                    outcomes={stepOutcomes}
+                    onChange={(stepId, outcome) =>
+                      setStepOutcomes((current) => ({ ...current, [stepId]: outcome }))
+                    }
+                  />
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Result</FormLabel>
+                      <FormControl>
+                        <div className="grid grid-cols-3 gap-2">
+                          {TEST_RESULT_STATUSES.map((status) => {
+                            const config = statusConfig[status];
+                            const isSelected = field.value === status;
+                            return (
+                              <Button
+                                key={status}
+                                type="button"
+                                variant="outline"
+                                className={`flex-1 ${isSelected ? config.color : ''}`}
+                                onClick={() => field.onChange(status)}
+                              >
+                                {config.icon}
+                                <span className="ml-1">{config.label}</span>
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <FormField
                 control={form.control}
-                name="status"
+                name="evidence_url"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Result</FormLabel>
+                    <FormLabel>Evidence URL</FormLabel>
                     <FormControl>
-                      <div className="grid grid-cols-3 gap-2">
-                        {(['pass', 'fail', 'escalated'] as const).map((status) => {
-                          const config = statusConfig[status];
-                          const isSelected = field.value === status;
-                          return (
-                            <Button
-                              key={status}
-                              type="button"
-                              variant="outline"
-                              className={`flex-1 ${isSelected ? config.color : ''}`}
-                              onClick={() => field.onChange(status)}
-                            >
-                              {config.icon}
-                              <span className="ml-1">{config.label}</span>
-                            </Button>
-                          );
-                        })}
-                      </div>
+                      <Input placeholder="https://jam.dev/c/..." {...field} />
                     </FormControl>
+                    <FormDescription>
+                      Must be a jam.dev link
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               <FormField
                 control={form.control}
-                name="evidence_url"
+                name="duration_minutes"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Evidence URL</FormLabel>
+                    <FormLabel>Duration (minutes)</FormLabel>
                     <FormControl>
-                      <Input placeholder="https://jam.dev/c/..." {...field} />
+                      <Input type="number" min={0} step="0.5" placeholder="e.g., 5" {...field} />
                     </FormControl>
                     <FormDescription>
-                      Must be a jam.dev link
+                      Optional. How long this run took.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -490,7 +669,7 @@ export function QAAssignments() {
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={submitting}>
+                <Button type="submit" disabled={submitting || (selectedSteps.length > 0 && !allStepsRecorded)}>
                   {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
                   Save Result
                 </Button>
@@ -1,7 +1,10 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
 import { useForm } from 'react-hook-form';
+import { useSearchParams } from 'react-router-dom';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -14,20 +17,21 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
-import { bugApi } from '@/lib/apiServices';
+import { BugStatusActions } from '@/components/BugStatusActions';
+import { bugApi } from '@/lib/apiClient';
+import { cn } from '@/lib/utils';
+import { jamLinkField, showServerErrors, textField } from '@/lib/validations';
+import { BUG_SEVERITIES, FIELDS } from 'qualitysync-shared';
 import { z } from 'zod';
-import type { BugSeverity } from '@/types';
-import { Bug, CheckCircle2, AlertTriangle, AlertCircle, Flame, Loader2 } from 'lucide-react';
+import type { Bug as BugReport, BugSeverity, BugStatus } from '@/types';
+import { Bug, CheckCircle2, AlertTriangle, AlertCircle, Flame, Loader2, ListChecks } from 'lucide-react';
 
 const reportBugSchema = z.object({
-  module_platform: z.string().min(1, 'Module/Platform is required'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
-  severity: z.enum(['low', 'medium', 'high', 'critical']),
-  jam_link: z.string().url('Must be a valid URL').refine(
-    (val) => val.includes('jam.dev'),
-    'Must be a jam.dev link'
-  ),
-  note: z.string().optional(),
+  module_platform: textField(FIELDS.modulePlatform, { required: true }),
+  description: textField(FIELDS.bugDescription, { required: true }),
+  severity: z.enum(BUG_SEVERITIES),
+  jam_link: jamLinkField('Jam link'),
+  note: textField(FIELDS.bugNote).optional(),
 });
 
 type ReportBugInput = z.infer<typeof reportBugSchema>;
@@ -59,10 +63,42 @@ const severityConfig: Record<BugSeverity, { label: string; icon: React.ReactNode
   },
 };
 
+const statusConfig: Record<BugStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'success' }> = {
+  open: { label: 'Open', variant: 'default' },
+  in_progress: { label: 'In Progress', variant: 'secondary' },
+  resolved: { label: 'Resolved', variant: 'success' },
+  closed: { label: 'Closed', variant: 'outline' },
+  converted_to_test: { label: 'Test Created', variant: 'success' },
+};
+
 export function ReportBug() {
   const [submitted, setSubmitted] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [myBugs, setMyBugs] = useState<BugReport[]>([]);
+  const [loadingBugs, setLoadingBugs] = useState(true);
+  const [searchParams] = useSearchParams();
+  const linkedBugId = searchParams.get('bug');
+
+  const fetchMyBugs = async () => {
+    try {
+      // The API only returns the reporter's own bugs for QA
+      const response = await bugApi.getAll({ limit: 50 });
+      setMyBugs(response.data.bugs);
+    } catch (err) {
+      console.error('Failed to fetch reported bugs:', err);
+    } finally {
+      setLoadingBugs(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMyBugs();
+  }, []);
+
+  const handleBugChanged = (updated: BugReport) => {
+    setMyBugs((prev) => prev.map((bug) => (bug.id === updated.id ? updated : bug)));
+  };
 
   const form = useForm<ReportBugInput>({
     resolver: zodResolver(reportBugSchema),
@@ -89,6 +125,7 @@ export function ReportBug() {
       });
 
       setSubmitted(true);
+      fetchMyBugs();
 
       // Reset after showing success
       setTimeout(() => {
@@ -97,7 +134,9 @@ export function ReportBug() {
       }, 3000);
     } catch (err) {
       console.error('Failed to submit bug:', err);
-      setError('Failed to submit bug report. Please try again.');
+      if (!showServerErrors(form, err)) {
+        setError('Failed to submit bug report. Please try again.');
+      }
     } finally {
       setSubmitting(false);
     }
@@ -279,6 +318,56 @@ export function ReportBug() {
           </CardContent>
         </Card>
 
+        {/* My Reports */}
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              My Reports
+            </CardTitle>
+            <CardDescription>
+              Verify resolved bugs and close them, or send them back if the fix does not hold.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadingBugs ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : myBugs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                You have not reported any bugs yet
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {myBugs.map((bug) => {
+                  const status = statusConfig[bug.status];
+                  return (
+                    <div
+                      key={bug.id}
+                      className={cn('p-3 border rounded-lg space-y-2', bug.id === linkedBugId && 'ring-2 ring-primary')}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium">{bug.module_platform}</p>
+                          <p className="text-sm text-muted-foreground line-clamp-2">{bug.description}</p>
+                        </div>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          Reported {format(new Date(bug.created_at), 'MMM d, yyyy')}
+                        </span>
+                        <BugStatusActions bug={bug} onChanged={handleBugChanged} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Tips */}
         <Card className="mt-4">
           <CardHeader>
@@ -1,11 +1,28 @@
-export type UserRole = 'PM' | 'QA' | 'ENG';
+import type {
+  AppNotification,
+  Bug,
+  Pagination,
+  Permission,
+  Project,
+  TestCase,
+  User,
+  UserRole,
+} from 'qualitysync-shared/api';
 
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: UserRole;
-  is_verified: boolean;
+// Resources as the API returns them, generated from its OpenAPI document
+export type * from 'qualitysync-shared/api';
+
+export interface ProjectContextType {
+  // Projects the user is a member of, for the switcher
+  projects: Project[];
+  currentProject: Project | null;
+  // The user's base role in the current project, which decides their workspace
+  projectRole: UserRole | null;
+  // What the user's role allows in the current project
+  permissions: Permission[];
+  switchProject: (projectId: string) => void;
+  refreshProjects: () => Promise<void>;
+  isLoading: boolean;
 }
 
 export interface RegisterData {
@@ -17,80 +34,31 @@ export interface RegisterData {
 
 export interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to a challenge when a second factor is needed to finish signing in
+  login: (email: string, password: string) => Promise<{ twoFactorChallenge: string | null }>;
+  completeTwoFactorLogin: (challenge: string, code: string) => Promise<void>;
+  // Pick up the session the single sign-on callback started
+  completeSsoLogin: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   logout: () => void;
   isLoading: boolean;
   register?: (data: RegisterData) => Promise<void>;
   forgotPassword?: (email: string) => Promise<void>;
   resetPassword?: (token: string, password: string) => Promise<void>;
   verifyEmail?: (token: string) => Promise<void>;
+  // Create the invited account and sign in to it
+  acceptInvitation: (token: string, data: { name: string; password: string }) => Promise<void>;
 }
 
-export type TestStatus = 'pending' | 'pass' | 'fail' | 'escalated';
-export type BugSeverity = 'low' | 'medium' | 'high' | 'critical';
-export type BugStatus = 'open' | 'in_progress' | 'resolved' | 'closed' | 'converted_to_test';
-
-export interface QATester {
-  id: string;
-  name: string;
-  email: string;
-}
+export type CommentTarget = { test_case_id: string } | { bug_id: string };
 
-export interface TestCase {
-  id: string;
-  module_platform: string;
-  test_case: string;
-  expected_result: string;
-  status: TestStatus;
-  assigned_to: string;
-  created_by: string;
-  evidence_url: string | null;
-  notes: string | null;
-  source_bug_id: string | null;
-  created_at: string;
-  updated_at: string;
-  assignee?: QATester;
-  creator?: QATester;
-  source_bug?: {
-    id: string;
-    module_platform: string;
-    created_by: string;
-    bug_creator?: QATester;
-  };
-}
-
-export interface Bug {
-  id: string;
-  module_platform: string;
-  jam_link: string;
-  description: string;
-  note: string | null;
-  severity: BugSeverity;
-  status: BugStatus;
-  created_by: string;
-  converted_to_test_id: string | null;
-  converted_at: string | null;
-  created_at: string;
-  updated_at: string;
-  creator?: QATester;
-}
-
-export interface DashboardStats {
-  total_tests: number;
-  passed_tests: number;
-  failed_tests: number;
-  pending_tests: number;
-  escalated_tests: number;
-  open_bugs: number;
-  total_bugs: number;
-}
-
-export interface Pagination {
-  page: number;
-  limit: number;
-  total: number;
-  totalPages: number;
-}
+// Live updates pushed over GET /api/events
+export type RealtimeEvent =
+  | { type: 'test.created' | 'test.updated'; data: TestCase }
+  | { type: 'test.deleted'; data: { id: string } }
+  | { type: 'bug.created' | 'bug.updated'; data: Bug }
+  | { type: 'bug.deleted'; data: { id: string } }
+  | { type: 'notification.created'; data: AppNotification };
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -0,0 +1,494 @@
+// Generated from the OpenAPI document of the backend by
+// `npm run openapi:client`. Do not edit by hand.
+
+export type UserRole = 'PM' | 'QA' | 'ENG';
+
+export type Permission =
+  | 'tests.stats'
+  | 'tests.create'
+  | 'tests.import'
+  | 'tests.ingest'
+  | 'tests.update'
+  | 'tests.assign'
+  | 'tests.delete'
+  | 'tests.execute'
+  | 'tests.fix'
+  | 'bugs.create'
+  | 'bugs.fix'
+  | 'bugs.close'
+  | 'bugs.reopen'
+  | 'bugs.convert'
+  | 'bugs.delete'
+  | 'suites.manage'
+  | 'plans.manage'
+  | 'comments.moderate'
+  | 'users.manage'
+  | 'projects.manage'
+  | 'roles.manage'
+  | 'audit.view';
+
+export interface PermissionInfo {
+  key: Permission;
+  description: string;
+}
+
+// A named set of permissions. The base role decides the workspace and which
+// tests and bugs its users see.
+export interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  base_role: UserRole;
+  is_system: boolean;
+  // The built-in role of QA service accounts
+  for_service_accounts: boolean;
+  permissions: Permission[];
+  created_at: string;
+  updated_at: string;
+}
+
+// The signed-in user
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  // Permissions of the account-wide role, for user and project administration
+  permissions: Permission[];
+  is_verified: boolean;
+  two_factor_enabled?: boolean;
+  // The role policy requires two-factor authentication
+  two_factor_required?: boolean;
+}
+
+// A user account as managed by administrators
+export interface UserAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  is_verified: boolean;
+  is_service_account: boolean;
+  created_at: string;
+  // Account-wide role; its base role is `role`
+  role_id?: string | null;
+  locked_until?: string | null;
+}
+
+// A user as embedded in other resources
+export interface QATester {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// A project the user works in, with their role in it. Project managers also see
+// projects they are not a member of, with a null role.
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  role: UserRole | null;
+  role_id: string | null;
+  permissions: Permission[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectMember {
+  role: UserRole;
+  role_id: string;
+  created_at: string;
+  user: { id: string; name: string; email: string; role: UserRole; is_service_account: boolean };
+}
+
+export type TestStatus = 'pending' | 'pass' | 'fail' | 'escalated' | 'in_fix' | 'ready_for_retest';
+
+export type StepStatus = 'pass' | 'fail' | 'blocked';
+
+export type BugSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type BugStatus = 'open' | 'in_progress' | 'resolved' | 'closed' | 'converted_to_test';
+
+// Manual tests are run by QA, automated ones report results from CI
+export type TestOrigin = 'manual' | 'automated';
+
+export interface TestCase {
+  id: string;
+  module_platform: string;
+  test_case: string;
+  expected_result: string;
+  status: TestStatus;
+  assigned_to: string;
+  created_by: string;
+  evidence_url: string | null;
+  notes: string | null;
+  source_bug_id: string | null;
+  fix_owner: string | null;
+  fix_reference: string | null;
+  fix_notes: string | null;
+  fixed_at: string | null;
+  origin: TestOrigin;
+  external_key: string | null;
+  created_at: string;
+  updated_at: string;
+  assignee?: QATester;
+  creator?: QATester;
+  fixer?: QATester | null;
+  source_bug?: { id: string; module_platform: string; created_by: string; bug_creator?: QATester };
+  suites?: TestSuiteSummary[];
+  steps?: TestStep[];
+}
+
+export interface TestStep {
+  id: string;
+  position: number;
+  action: string;
+  expected_result: string;
+  test_data: string | null;
+}
+
+export interface TestStepInput {
+  action: string;
+  expected_result: string;
+  test_data?: string;
+}
+
+export type PlanStatus = 'active' | 'completed';
+
+export interface TestSuiteSummary {
+  id: string;
+  name: string;
+}
+
+export interface TestSuite extends TestSuiteSummary {
+  description: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  test_count: number;
+  creator?: QATester;
+  test_cases?: TestCase[];
+}
+
+export interface TestPlanProgress {
+  total_tests: number;
+  passed_tests: number;
+  failed_tests: number;
+  pending_tests: number;
+  escalated_tests: number;
+}
+
+export interface TestPlanCase {
+  test_case_id: string;
+  status: TestStatus;
+  last_run_id: string | null;
+  updated_at: string;
+  test_case?: TestCase;
+}
+
+export interface TestPlan {
+  id: string;
+  name: string;
+  release: string;
+  status: PlanStatus;
+  start_date: string | null;
+  due_date: string | null;
+  suite_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  progress: TestPlanProgress;
+  suite?: TestSuiteSummary | null;
+  creator?: QATester;
+  cases?: TestPlanCase[];
+}
+
+export interface TestRun {
+  id: string;
+  test_case_id: string;
+  status: TestStatus;
+  evidence_url: string | null;
+  notes: string | null;
+  duration_seconds: number | null;
+  executed_at: string;
+  executed_by: string;
+  executor?: QATester;
+  step_results?: TestStepResult[];
+}
+
+export interface TestStepResult {
+  id: string;
+  step_id: string | null;
+  position: number;
+  action: string;
+  status: StepStatus;
+  notes: string | null;
+}
+
+export interface Bug {
+  id: string;
+  module_platform: string;
+  jam_link: string;
+  description: string;
+  note: string | null;
+  severity: BugSeverity;
+  status: BugStatus;
+  created_by: string;
+  converted_to_test_id: string | null;
+  converted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  creator?: QATester;
+  // Statuses the current user may move this bug to
+  allowed_transitions?: BugStatus[];
+}
+
+export interface BugStatusChange {
+  id: string;
+  bug_id: string;
+  from_status: BugStatus | null;
+  to_status: BugStatus;
+  note: string | null;
+  created_at: string;
+  changed_by: string | null;
+  changer?: QATester & { role: UserRole } | null;
+}
+
+export interface MentionableUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface Comment {
+  id: string;
+  test_case_id: string | null;
+  bug_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  author_id: string | null;
+  author?: QATester & { role: UserRole } | null;
+  mentions?: ({ user: MentionableUser | null })[];
+}
+
+export interface DashboardStats {
+  total_tests: number;
+  passed_tests: number;
+  failed_tests: number;
+  pending_tests: number;
+  escalated_tests: number;
+  open_bugs: number;
+  total_bugs: number;
+  in_fix_tests: number;
+  ready_for_retest_tests: number;
+}
+
+export type NotificationType =
+  | 'test_assigned'
+  | 'test_reassigned'
+  | 'test_result'
+  | 'test_ready_for_retest'
+  | 'bug_converted'
+  | 'bug_status_changed'
+  | 'comment_mention';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  test_case_id: string | null;
+  bug_id: string | null;
+  read_at: string | null;
+  created_at: string;
+  actor?: QATester | null;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+// Test case fields a spreadsheet column can be mapped to
+export type TestImportField =
+  | 'module_platform'
+  | 'test_case'
+  | 'expected_result'
+  | 'assignee_email';
+
+// Spreadsheet column of each test case field
+export interface TestImportMapping {
+  module_platform?: string;
+  test_case?: string;
+  expected_result?: string;
+  assignee_email?: string;
+}
+
+export interface TestImportRow {
+  row: number;
+  values: {
+    module_platform: string;
+    test_case: string;
+    expected_result: string;
+    assignee_email: string;
+  };
+  errors: FieldError[];
+}
+
+export interface TestImportResult {
+  dry_run: boolean;
+  columns: string[];
+  mapping: TestImportMapping;
+  missing_fields: TestImportField[];
+  summary: { total: number; valid: number; invalid: number; imported: number };
+  rows: TestImportRow[];
+}
+
+export interface TestIngestResult {
+  summary: {
+    received: number;
+    matched: number;
+    created: number;
+    recorded: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+  };
+  results: { key: string; name: string; status: TestStatus; test_id: string; created: boolean }[];
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'test_case'
+  | 'bug'
+  | 'user'
+  | 'api_token'
+  | 'invitation'
+  | 'project'
+  | 'role';
+
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  request_id: string | null;
+  created_at: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_role: UserRole | null;
+  actor?: QATester | null;
+}
+
+// Every token can read; write scopes allow changes to tests or bugs
+export type ApiTokenScope = 'read' | 'tests:write' | 'bugs:write';
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  creator?: QATester | null;
+}
+
+// An invitation a PM sent that was not accepted or revoked yet
+export interface Invitation {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  expires_at: string;
+  expired: boolean;
+  last_sent_at: string;
+  created_at: string;
+  inviter?: QATester | null;
+  // The project the invitee joins on accepting
+  project?: { id: string; name: string } | null;
+}
+
+// What an invite link shows before it is accepted
+export interface InvitationPreview {
+  email: string;
+  name: string;
+  role: UserRole;
+  inviter: string | null;
+  project: string | null;
+  expires_at: string;
+}
+
+export interface SsoConfig {
+  enabled: boolean;
+  display_name: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  // Data URL of a QR code image for the authenticator app
+  qr_code: string;
+}
+
+export type AuthMethod = 'password' | 'sso';
+
+// A signed-in browser or device
+export interface AuthSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  auth_method: AuthMethod;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export type LoginFailureReason = 'invalid_password' | 'invalid_code' | 'locked' | 'unverified';
+
+// An entry in an account's sign-in history
+export interface LoginAttempt {
+  id: string;
+  success: boolean;
+  failure_reason: LoginFailureReason | null;
+  auth_method: AuthMethod;
+  // First successful sign-in from this browser
+  new_device: boolean;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface AuthResult {
+  user: User;
+  // Access token; the refresh token is set as an httpOnly cookie
+  token: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ErrorResponse {
+  success: boolean;
+  message: string;
+  errors?: FieldError[];
+}
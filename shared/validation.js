@@ -0,0 +1,160 @@
+/**
+ * Validation Rules
+ *
+ * Field limits, allowed values, password and Jam link rules of the API,
+ * with the messages for values that break them. The backend builds its
+ * express-validator chains from them and the frontend its form schemas,
+ * so a form rejects what the API would reject, in the same words.
+ *
+ * Plain JavaScript without dependencies, so Node and Vite load it as it is.
+ */
+
+/**
+ * @typedef {object} FieldRule
+ * @property {string} label - How messages refer to the field
+ * @property {number} [min] - Fewest characters
+ * @property {number} [max] - Most characters
+ */
+
+// Allowed values
+
+export const USER_ROLES = /** @type {const} */ (['PM', 'QA', 'ENG']);
+
+export const TEST_STATUSES = /** @type {const} */ ([
+  'pending',
+  'pass',
+  'fail',
+  'escalated',
+  'in_fix',
+  'ready_for_retest',
+]);
+
+// Results a tester can record for a test
+export const TEST_RESULT_STATUSES = /** @type {const} */ (['pass', 'fail', 'escalated']);
+
+export const STEP_STATUSES = /** @type {const} */ (['pass', 'fail', 'blocked']);
+
+export const BUG_SEVERITIES = /** @type {const} */ (['low', 'medium', 'high', 'critical']);
+
+export const BUG_STATUSES = /** @type {const} */ ([
+  'open',
+  'in_progress',
+  'resolved',
+  'closed',
+  'converted_to_test',
+]);
+
+// Statuses a bug can be moved to by hand; conversion to a test has its own endpoint
+export const MANUAL_BUG_STATUSES = /** @type {const} */ (['open', 'in_progress', 'resolved', 'closed']);
+
+export const API_TOKEN_SCOPES = /** @type {const} */ (['read', 'tests:write', 'bugs:write']);
+
+// Text fields
+
+/**
+ * Length limits of the text fields, by what they hold. The same request
+ * field can hold different things, e.g. the `name` of a person or a suite.
+ */
+export const FIELDS = {
+  personName: { label: 'Name', min: 2, max: 100 },
+  modulePlatform: { label: 'Module/Platform', max: 255 },
+  testCase: { label: 'Test case', min: 5, max: 2000 },
+  expectedResult: { label: 'Expected result', min: 5, max: 2000 },
+  stepAction: { label: 'Step action', max: 2000 },
+  stepExpectedResult: { label: 'Step expected result', max: 2000 },
+  stepTestData: { label: 'Step test data', max: 2000 },
+  resultNotes: { label: 'Notes', max: 2000 },
+  stepNotes: { label: 'Step notes', max: 1000 },
+  fixReference: { label: 'Fix reference', max: 500 },
+  fixNotes: { label: 'Fix notes', max: 2000 },
+  bugDescription: { label: 'Description', min: 10, max: 2000 },
+  bugNote: { label: 'Note', max: 2000 },
+  statusNote: { label: 'Note', max: 1000 },
+  suiteName: { label: 'Suite name', max: 255 },
+  suiteDescription: { label: 'Description', max: 2000 },
+  planName: { label: 'Plan name', max: 255 },
+  release: { label: 'Release', max: 100 },
+  commentBody: { label: 'Comment', max: 5000 },
+  projectName: { label: 'Name', min: 2, max: 100 },
+  projectDescription: { label: 'Description', max: 1000 },
+  roleName: { label: 'Name', min: 2, max: 100 },
+  roleDescription: { label: 'Description', max: 1000 },
+  tokenName: { label: 'Token name', max: 100 },
+};
+
+// Most steps a test case can have
+export const MAX_TEST_STEPS = 50;
+
+// Passwords of new accounts and password resets
+export const PASSWORD = {
+  min: 8,
+  requirements: [
+    { pattern: /[A-Z]/, message: 'Password must contain at least one uppercase letter' },
+    { pattern: /[a-z]/, message: 'Password must contain at least one lowercase letter' },
+    { pattern: /[0-9]/, message: 'Password must contain at least one number' },
+  ],
+};
+
+// Messages
+
+export const EMAIL_MESSAGE = 'Please provide a valid email address';
+
+/**
+ * @param {FieldRule} rule
+ */
+export const requiredMessage = (rule) => `${rule.label} is required`;
+
+/**
+ * @param {FieldRule} rule
+ */
+export function lengthMessage(rule) {
+  if (rule.min && rule.max) {
+    return `${rule.label} must be between ${rule.min} and ${rule.max} characters`;
+  }
+  if (rule.min) {
+    return `${rule.label} must be at least ${rule.min} characters`;
+  }
+  return `${rule.label} must be at most ${rule.max} characters`;
+}
+
+/**
+ * "Severity must be low, medium, high, or critical"
+ *
+ * @param {string} label
+ * @param {readonly string[]} values
+ */
+export function oneOfMessage(label, values) {
+  const list = values.length > 2
+    ? `${values.slice(0, -1).join(', ')}, or ${values[values.length - 1]}`
+    : values.join(' or ');
+  return `${label} must be ${list}`;
+}
+
+export const passwordLengthMessage = `Password must be at least ${PASSWORD.min} characters`;
+
+// Jam links
+
+/**
+ * Whether a URL points to a Jam.dev recording. Evidence of test results and
+ * bug reports must be one.
+ *
+ * @param {string} value
+ */
+export function isJamLink(value) {
+  try {
+    const { protocol, hostname } = new URL(value);
+    return ['http:', 'https:'].includes(protocol) && (hostname === 'jam.dev' || hostname.endsWith('.jam.dev'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param {string} label
+ */
+export const urlMessage = (label) => `${label} must be a valid URL`;
+
+/**
+ * @param {string} label
+ */
+export const jamLinkMessage = (label) => `${label} must be a Jam.dev link`;